@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+    contrastRatio,
+    lessonContrast,
+    lintTiptapDoc,
+    lintComponents,
+    getAccessibilityBlockReason,
+} from '@/lib/cms/accessibility';
+import type { Course } from '@/lib/types';
+import type { Component } from '@/lib/cms/types';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+const text = (value: string, marks?: TiptapNode['marks']): TiptapNode => ({ type: 'text', text: value, marks });
+const paragraph = (...content: TiptapNode[]): TiptapNode => ({ type: 'paragraph', content });
+const heading = (level: number, value: string): TiptapNode => ({ type: 'heading', attrs: { level }, content: [text(value)] });
+
+describe('contrast', () => {
+    it('should compute WCAG ratios', () => {
+        expect(contrastRatio('#000', '#fff')).toBeCloseTo(21, 0);
+        expect(contrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 1);
+        expect(contrastRatio('red', '#fff')).toBeNull();
+    });
+
+    it('should use the worse of the light and dark themes', () => {
+        expect(lessonContrast('#ffffff')!).toBeLessThan(1.1);
+        expect(lessonContrast('#808080')!).toBeLessThan(4.5);
+    });
+});
+
+describe('lintTiptapDoc', () => {
+    it('should flag a missing alt, a skipped heading and a header-less table', () => {
+        const issues = lintTiptapDoc([
+            heading(2, 'Intro'),
+            { type: 'customImage', attrs: { src: '/a.png', alt: '' } },
+            heading(4, 'Details'),
+            {
+                type: 'table',
+                content: [{ type: 'tableRow', content: [{ type: 'tableCell', content: [paragraph(text('A'))] }] }],
+            },
+        ]);
+
+        expect(issues.map(i => [i.rule, i.path])).toEqual([
+            ['image-alt', [1]],
+            ['heading-order', [2]],
+            ['table-header', [3]],
+        ]);
+        expect(issues[1].fix).toEqual({ kind: 'set-heading-level', level: 3 });
+    });
+
+    it('should flag low-contrast colors and vague links inside nested blocks', () => {
+        const issues = lintTiptapDoc([
+            {
+                type: 'callout',
+                content: [
+                    paragraph(
+                        text('faint', [{ type: 'textStyle', attrs: { color: '#777777' } }]),
+                        text(' '),
+                        text('click ', [{ type: 'link', attrs: { href: 'https://x.dev' } }]),
+                        text('here', [{ type: 'link', attrs: { href: 'https://x.dev' } }, { type: 'bold' }]),
+                    ),
+                ],
+            },
+        ]);
+
+        expect(issues.map(i => [i.rule, i.severity, i.path])).toEqual([
+            ['color-contrast', 'error', [0, 0]],
+            ['link-text', 'warning', [0, 0]],
+        ]);
+    });
+
+    it('should require captions on uploaded videos', () => {
+        expect(lintTiptapDoc([{ type: 'customVideo', attrs: { src: '/v.mp4', captions: '' } }])[0].rule)
+            .toBe('video-captions');
+        expect(lintTiptapDoc([{ type: 'customVideo', attrs: { src: '/v.mp4', captions: '/v.vtt' } }])).toEqual([]);
+    });
+});
+
+describe('publishing', () => {
+    const course = {
+        id: 'c1',
+        title: 'Course',
+        lessons: [
+            { id: 'l1', title: 'Legacy', type: 'cms', duration: '', order: 1, components: [{ id: 'x', type: 'image', url: '/a.png' }] },
+        ],
+    } as unknown as Course;
+
+    it('should lint component-based lessons', () => {
+        const components = [{ id: 'h', type: 'header', level: 2, text: 'Hi', color: '#999999' }] as Component[];
+        expect(lintComponents(components).map(i => i.rule)).toEqual(['color-contrast']);
+    });
+
+    it('should only block publishing when the course requires it', () => {
+        expect(getAccessibilityBlockReason(course)).toBeNull();
+        expect(getAccessibilityBlockReason({ ...course, requireAccessibleContent: true }))
+            .toMatch(/1 accessibility error .*"Legacy": Image is missing alt text/);
+    });
+});
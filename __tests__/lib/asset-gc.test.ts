@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/auth/firebase-admin', () => ({ initAdmin: vi.fn() }));
+vi.mock('@/lib/firebase/template-operations', () => ({
+    listTemplates: vi.fn(async () => [{
+        id: 't1', name: 'Banner', kind: 'snippet', linked: true, version: 2, createdAt: '', updatedAt: '',
+        content: [{ type: 'image', attrs: { src: '/api/images/r2-cms:banner.webp' } }],
+    }]),
+    listTemplateVersions: vi.fn(async () => [{
+        version: 1, createdAt: '',
+        content: [{ type: 'image', attrs: { src: '/api/images/r2-cms:banner-v1.webp' } }],
+    }]),
+}));
+vi.mock('@/lib/firebase/question-bank-operations', () => ({
+    listQuestionBanks: vi.fn(async (courseId?: string) => courseId ? [] : [{
+        id: 'b1', title: 'Bank', questions: [{ id: 'q', text: '![](/api/images/r2-cms:bank.png)', type: 'true_false', answer: true }],
+    }]),
+}));
+vi.mock('@/lib/firebase/quiz-operations', () => ({
+    listQuizzes: vi.fn(async () => { throw new Error('quota'); }),
+}));
+
+import { collectLibraryAssets, extractAssetRefs, findOrphans, StoredAsset } from '@/lib/storage/asset-gc';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-01-31T00:00:00Z');
+
+function asset(fileId: string, ageDays: number, backend: StoredAsset['backend'] = 'r2'): StoredAsset {
+    return {
+        backend,
+        fileId,
+        folder: 'cms',
+        size: 100,
+        modifiedAt: new Date(NOW - ageDays * DAY).toISOString(),
+    };
+}
+
+describe('Asset GC', () => {
+    describe('extractAssetRefs', () => {
+        it('should find image and video references anywhere in a blob', () => {
+            const refs = extractAssetRefs({
+                v: 1,
+                lessons: {},
+                blocks: {
+                    B1: { id: 'B1', t: 'img', v: '', src: '/api/images/r2-cms:abc.webp' },
+                    B2: { id: 'B2', t: 'video', v: '', src: '/uploads/videos/video-1.mp4' },
+                },
+                tiptap: [{ type: 'image', attrs: { src: 'https://gakuen.app/api/images/1AbCdEfGhIjKlMnOp' } }],
+            });
+
+            expect([...refs].sort()).toEqual([
+                '1AbCdEfGhIjKlMnOp',
+                'local-videos-video-1.mp4',
+                'r2-cms:abc.webp',
+            ]);
+        });
+
+        it('should ignore unrelated strings', () => {
+            expect(extractAssetRefs({ t: 'p', v: 'See https://example.com/image.png' }).size).toBe(0);
+        });
+    });
+
+    describe('collectLibraryAssets', () => {
+        it('should keep assets only used by templates and question banks', async () => {
+            const refs = new Set<string>();
+            const errors: string[] = [];
+            await collectLibraryAssets(['c1'], refs, errors);
+
+            expect([...refs].sort()).toEqual(['r2-cms:bank.png', 'r2-cms:banner-v1.webp', 'r2-cms:banner.webp']);
+            const { orphans } = findOrphans([asset('r2-cms:banner.webp', 30), asset('r2-cms:gone.webp', 30)], refs, 7, NOW);
+            expect(orphans.map(o => o.fileId)).toEqual(['r2-cms:gone.webp']);
+
+            // An unreadable library blocks removal like an unreadable course
+            expect(errors).toEqual(['failed to list quizzes of c1: quota']);
+        });
+    });
+
+    describe('findOrphans', () => {
+        it('should keep referenced assets', () => {
+            const { orphans } = findOrphans([asset('r2-cms:a.webp', 30)], new Set(['r2-cms:a.webp']), 7, NOW);
+            expect(orphans).toEqual([]);
+        });
+
+        it('should respect the grace period', () => {
+            const { orphans, withinGrace } = findOrphans(
+                [asset('r2-cms:old.webp', 10), asset('local-cms-new.webp', 2, 'local')],
+                new Set(),
+                7,
+                NOW
+            );
+
+            expect(orphans.map(o => [o.fileId, o.ageDays])).toEqual([['r2-cms:old.webp', 10]]);
+            expect(withinGrace).toBe(1);
+        });
+    });
+});
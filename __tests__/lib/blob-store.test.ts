@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    getBlobStore,
+    parseBlobId,
+    uploadCourseBlob,
+    downloadCourseBlob,
+} from '@/lib/storage/blob-store';
+import { hashJson } from '@/lib/storage/telegram-storage';
+import type { CourseBlob } from '@/lib/types/course-compact';
+
+describe('BlobStore', () => {
+    let dir: string;
+    const env = { ...process.env };
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'gakuen-blobs-'));
+        process.env.BLOB_STORE = 'local';
+        process.env.BLOB_STORE_DIR = dir;
+    });
+
+    afterAll(() => {
+        process.env = env;
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should select the backend from env', () => {
+        expect(getBlobStore().backend).toBe('local');
+    });
+
+    it('should treat unprefixed IDs as Telegram file_ids', () => {
+        expect(parseBlobId('BQACAgUAAxkDAAI')).toEqual({ backend: 'telegram', rawId: 'BQACAgUAAxkDAAI' });
+        expect(parseBlobId('local:123-abc-x.json.gz').backend).toBe('local');
+    });
+
+    it('should put, get, list and delete raw blobs', async () => {
+        const store = getBlobStore();
+        const id = await store.put('course-a.json.gz', Buffer.from('hello'));
+
+        expect(id.startsWith('local:')).toBe(true);
+        expect((await store.get(id))?.toString()).toBe('hello');
+        expect((await store.list('course-a')).map(e => e.id)).toEqual([id]);
+
+        expect(await store.delete(id)).toBe(true);
+        expect(await store.get(id)).toBeNull();
+    });
+
+    it('should reject IDs that escape the blob directory', async () => {
+        expect(await getBlobStore().get('local:../../etc/passwd')).toBeNull();
+    });
+
+    it('should round-trip a course blob with a stable hash', async () => {
+        const blob: CourseBlob = {
+            v: 1,
+            lessons: { L1: { id: 'L1', t: 'Intro', b: ['B1'] } },
+            blocks: { B1: { id: 'B1', t: 'p', v: 'Hello' } },
+        };
+
+        const { file_id, hash } = await uploadCourseBlob('course-b', blob);
+
+        expect(hash).toBe(hashJson(blob));
+        expect(await downloadCourseBlob(file_id)).toEqual(blob);
+    });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getRunLanguage, pickEntryFile } from '@/lib/sandbox/code-runner';
+import type { CodeFile } from '@/lib/cms/types';
+
+const file = (id: string, filename: string): CodeFile => ({ id, filename, language: '', code: '' });
+
+describe('getRunLanguage', () => {
+    it('should map runnable extensions', () => {
+        expect(getRunLanguage('main.py')).toBe('python');
+        expect(getRunLanguage('util.MTS')).toBe('typescript');
+        expect(getRunLanguage('index.cjs')).toBe('javascript');
+        expect(getRunLanguage('styles.css')).toBeNull();
+    });
+});
+
+describe('pickEntryFile', () => {
+    const files = [file('a', 'styles.css'), file('b', 'helpers.js'), file('c', 'index.js')];
+
+    it('should prefer the active tab when it can run', () => {
+        expect(pickEntryFile(files, 'b')?.id).toBe('b');
+    });
+
+    it('should fall back to main/index, then the first runnable file', () => {
+        expect(pickEntryFile(files, 'a')?.id).toBe('c');
+        expect(pickEntryFile(files.slice(0, 2))?.id).toBe('b');
+        expect(pickEntryFile([file('a', 'README.md')])).toBeNull();
+    });
+});
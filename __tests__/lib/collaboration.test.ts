@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import * as Y from 'yjs';
+import { getSchema } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { yXmlFragmentToProsemirrorJSON } from '@tiptap/y-tiptap';
+import {
+    COLLAB_FIELD,
+    colorForUser,
+    seedCollabDocument,
+    shareLessonVersion,
+    observeLessonVersion,
+} from '@/lib/cms/collaboration';
+
+const schema = getSchema([StarterKit]);
+
+const lesson = {
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Hello' }] }],
+};
+
+function exchange(a: Y.Doc, b: Y.Doc) {
+    Y.applyUpdate(a, Y.encodeStateAsUpdate(b));
+    Y.applyUpdate(b, Y.encodeStateAsUpdate(a));
+}
+
+describe('collaboration', () => {
+    it('should merge two authors seeding the same lesson into one copy', () => {
+        const a = new Y.Doc();
+        const b = new Y.Doc();
+
+        expect(seedCollabDocument(a, schema, lesson)).toBe(true);
+        expect(seedCollabDocument(b, schema, lesson)).toBe(true);
+        exchange(a, b);
+
+        const json = yXmlFragmentToProsemirrorJSON(a.getXmlFragment(COLLAB_FIELD));
+        expect(json.content).toHaveLength(1);
+        expect(Y.encodeStateVector(a)).toEqual(Y.encodeStateVector(b));
+
+        // Already has content - nothing to seed
+        expect(seedCollabDocument(a, schema, lesson)).toBe(false);
+    });
+
+    it('should share only newer lesson versions', () => {
+        const a = new Y.Doc();
+        const b = new Y.Doc();
+        const seen: number[] = [];
+        observeLessonVersion(b, v => seen.push(v));
+
+        shareLessonVersion(a, 4);
+        exchange(a, b);
+        shareLessonVersion(b, 3);
+
+        expect(seen).toEqual([4]);
+    });
+
+    it('should give each user a stable color', () => {
+        expect(colorForUser('user-1')).toBe(colorForUser('user-1'));
+        expect(colorForUser('user-1')).toMatch(/^#[0-9a-f]{6}$/);
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    assembleCourseBlob,
+    buildCourseManifest,
+    isCourseManifest,
+} from '@/lib/storage/course-delta';
+import { downloadCourseBlob, uploadCourseDelta } from '@/lib/storage/blob-store';
+import { hashJson } from '@/lib/storage/telegram-storage';
+import type { CourseBlob } from '@/lib/types/course-compact';
+
+function makeBlob(intro = 'Welcome'): CourseBlob {
+    return {
+        v: 1,
+        sv: 2,
+        lessons: {
+            L1: {
+                id: 'L1', t: 'Intro', b: [], oid: 'lesson-1', ver: 1,
+                j: {
+                    type: 'doc',
+                    content: [
+                        { type: 'paragraph', content: [{ type: 'text', text: intro }] },
+                        { type: 'paragraph', content: [{ type: 'text', text: 'Same text' }] },
+                        { type: 'paragraph', content: [{ type: 'text', text: 'Same text' }] },
+                    ],
+                },
+            } as CourseBlob['lessons'][string],
+            L2: { id: 'L2', t: 'Legacy', b: ['B1', 'B2'] },
+        },
+        blocks: {
+            B1: { id: 'B1', t: 'h1', v: 'Title' },
+            B2: { id: 'B2', t: 'p', v: 'Body' },
+        },
+    };
+}
+
+describe('Course delta manifests', () => {
+    it('should round-trip a blob through manifest and chunks', () => {
+        const blob = makeBlob();
+        const { manifest, newChunks } = buildCourseManifest(blob);
+
+        expect(isCourseManifest(manifest)).toBe(true);
+        expect(isCourseManifest(blob)).toBe(false);
+
+        for (const hash of Object.keys(newChunks)) manifest.packs[hash] = 'pack-1';
+        expect(assembleCourseBlob(manifest, { 'pack-1': { v: 1, c: newChunks } })).toEqual(blob);
+    });
+
+    it('should store duplicated content once', () => {
+        const { chunkCount } = buildCourseManifest(makeBlob());
+        // 3 tiptap nodes (2 identical) + 2 blocks
+        expect(chunkCount).toBe(4);
+    });
+
+    it('should only emit chunks that changed since the previous manifest', () => {
+        const first = buildCourseManifest(makeBlob());
+        for (const hash of Object.keys(first.newChunks)) first.manifest.packs[hash] = 'pack-1';
+
+        const same = buildCourseManifest(makeBlob(), first.manifest, makeBlob());
+        expect(Object.keys(same.newChunks)).toHaveLength(0);
+
+        const edited = buildCourseManifest(makeBlob('Welcome back'), first.manifest, makeBlob());
+        expect(Object.values(edited.newChunks)).toEqual([
+            { type: 'paragraph', content: [{ type: 'text', text: 'Welcome back' }] },
+        ]);
+    });
+
+    describe('blob store', () => {
+        let dir: string;
+        const env = { ...process.env };
+
+        beforeAll(() => {
+            dir = mkdtempSync(join(tmpdir(), 'gakuen-delta-'));
+            process.env.BLOB_STORE = 'local';
+            process.env.BLOB_STORE_DIR = dir;
+        });
+
+        afterAll(() => {
+            process.env = env;
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should reassemble delta checkpoints on download', async () => {
+            const first = await uploadCourseDelta('course-d', makeBlob());
+            const second = await uploadCourseDelta('course-d', makeBlob('Edited'), first.file_id);
+
+            expect(first.uploadedChunks).toBe(4);
+            expect(second.uploadedChunks).toBe(1);
+            expect(second.hash).toBe(hashJson(makeBlob('Edited')));
+            expect(await downloadCourseBlob(first.file_id)).toEqual(makeBlob());
+            expect(await downloadCourseBlob(second.file_id)).toEqual(makeBlob('Edited'));
+        });
+    });
+});
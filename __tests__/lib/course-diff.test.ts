@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { diffCourseBlobs } from '@/lib/storage/course-diff';
+import type { CourseBlob } from '@/lib/types/course-compact';
+
+function tiptapLesson(id: string, oid: string, title: string, paragraphs: string[]) {
+    return {
+        id, t: title, b: [], oid,
+        j: {
+            type: 'doc',
+            content: paragraphs.map(text => ({ type: 'paragraph', content: [{ type: 'text', text }] })),
+        },
+    } as CourseBlob['lessons'][string];
+}
+
+describe('diffCourseBlobs', () => {
+    const from: CourseBlob = {
+        v: 1,
+        lessons: {
+            L1: tiptapLesson('L1', 'intro', 'Intro', ['Hello', 'World']),
+            L2: { id: 'L2', t: 'Legacy', b: ['B1', 'B2'], oid: 'legacy' },
+            L3: tiptapLesson('L3', 'old', 'Old lesson', ['Bye']),
+        },
+        blocks: {
+            B1: { id: 'B1', t: 'h1', v: 'Title' },
+            B2: { id: 'B2', t: 'p', v: 'Body' },
+        },
+    };
+
+    it('should report no changes for identical blobs', () => {
+        const diff = diffCourseBlobs(from, from);
+        expect(diff.summary).toEqual({ added: 0, removed: 0, changed: 0, unchanged: 3 });
+        expect(diff.lessons.every(l => l.blocks.length === 0)).toBe(true);
+    });
+
+    it('should diff lessons by stable ID and blocks in order', () => {
+        const to: CourseBlob = {
+            v: 1,
+            lessons: {
+                // Reordered: compact IDs change, oids don't
+                L1: { id: 'L1', t: 'Legacy', b: ['B1', 'B2'], oid: 'legacy' },
+                L2: tiptapLesson('L2', 'intro', 'Introduction', ['Hello', 'Brave', 'World']),
+                L3: tiptapLesson('L3', 'new', 'New lesson', ['Hi']),
+            },
+            blocks: {
+                B1: { id: 'B1', t: 'h1', v: 'Title' },
+                B2: { id: 'B2', t: 'p', v: 'Body text' },
+            },
+        };
+
+        const diff = diffCourseBlobs(from, to);
+        const byKey = Object.fromEntries(diff.lessons.map(l => [l.key, l]));
+
+        expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 2, unchanged: 0 });
+
+        expect(byKey.intro.previousTitle).toBe('Intro');
+        expect(byKey.intro.blocks.map(b => `${b.status}:${b.text}`)).toEqual([
+            'unchanged:Hello', 'added:Brave', 'unchanged:World',
+        ]);
+
+        expect(byKey.legacy.blocks.map(b => `${b.status}:${b.text}`)).toEqual([
+            'unchanged:Title', 'added:Body text', 'removed:Body',
+        ]);
+
+        expect(byKey.new.status).toBe('added');
+        expect(byKey.old.status).toBe('removed');
+    });
+});
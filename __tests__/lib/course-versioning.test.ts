@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import {
+    findVersionConflict,
+    bumpCourseVersions,
+    mergeCourseVersions,
+    getCourseVersions,
+    applyCourseVersions,
+} from '@/lib/storage/course-versioning';
+import {
+    courseToBlob,
+    blobToCourse,
+    splitCourseBlob,
+    structureToCourse,
+    lessonBlobToLesson,
+} from '@/lib/storage/course-converter';
+
+function makeCourse(overrides: any = {}): any {
+    return {
+        id: 'test-course',
+        title: 'Test Course',
+        description: '',
+        instructor: 'Admin',
+        thumbnail: '',
+        category: 'Uncategorized',
+        level: 'beginner',
+        duration: '',
+        lessonsCount: 2,
+        enrolledCount: 0,
+        rating: 0,
+        price: 0,
+        structureVersion: 1,
+        lessons: [
+            { id: 'a', title: 'Intro', type: 'cms', duration: '5 min', order: 1, version: 1, tiptapJson: { type: 'doc', content: [] } },
+            { id: 'b', title: 'Basics', type: 'cms', duration: '5 min', order: 2, version: 3, tiptapJson: { type: 'doc', content: [] } },
+        ],
+        ...overrides,
+    };
+}
+
+describe('Course Versioning', () => {
+    describe('findVersionConflict', () => {
+        it('should accept a save based on the current versions', () => {
+            expect(findVersionConflict(makeCourse(), makeCourse())).toBeNull();
+        });
+
+        it('should report stale lessons', () => {
+            const incoming = makeCourse();
+            incoming.lessons[1].version = 2;
+            incoming.lessons[1].title = 'Basics (edited)';
+
+            const conflict = findVersionConflict(makeCourse(), incoming);
+
+            expect(conflict?.structure).toBeNull();
+            expect(conflict?.lessons).toEqual([
+                { id: 'b', title: 'Basics', expected: 2, current: 3 },
+            ]);
+        });
+
+        it('should report a stale structure version', () => {
+            const conflict = findVersionConflict(
+                makeCourse({ structureVersion: 4 }),
+                makeCourse({ structureVersion: 3 })
+            );
+
+            expect(conflict?.structure).toEqual({ expected: 3, current: 4 });
+        });
+
+        it('should not conflict on stale lessons that already match the server', () => {
+            // Co-authors checkpointing the same merged document
+            const incoming = makeCourse();
+            incoming.lessons[1].version = 2;
+
+            expect(findVersionConflict(makeCourse(), incoming)).toBeNull();
+        });
+
+        it('should never conflict on lessons the server has not seen', () => {
+            const incoming = makeCourse();
+            incoming.lessons.push({ id: 'new', title: 'New', type: 'cms', duration: '', order: 3 });
+
+            expect(findVersionConflict(makeCourse(), incoming)).toBeNull();
+        });
+    });
+
+    describe('bumpCourseVersions', () => {
+        it('should bump only changed lessons', () => {
+            const incoming = makeCourse();
+            incoming.lessons[0].title = 'Intro (edited)';
+
+            const saved = bumpCourseVersions(makeCourse(), incoming);
+
+            expect(saved.lessons[0].version).toBe(2);
+            expect(saved.lessons[1].version).toBe(3);
+            expect(saved.structureVersion).toBe(1);
+        });
+
+        it('should bump the structure version on reorder', () => {
+            const incoming = makeCourse();
+            incoming.lessons.reverse();
+
+            const saved = bumpCourseVersions(makeCourse(), incoming);
+
+            expect(saved.structureVersion).toBe(2);
+            expect(saved.lessons.map(l => l.version)).toEqual([3, 1]);
+        });
+
+        it('should start new lessons at version 1', () => {
+            const saved = bumpCourseVersions(null, makeCourse({ structureVersion: undefined }));
+
+            expect(saved.lessons.map(l => l.version)).toEqual([1, 1]);
+            expect(saved.structureVersion).toBe(1);
+        });
+    });
+
+    describe('mergeCourseVersions', () => {
+        it('should keep local edits and take untouched lessons from the server', () => {
+            const server = makeCourse({ structureVersion: 2 });
+            server.lessons[0].title = 'Intro (theirs)';
+            server.lessons[0].version = 2;
+            server.lessons[1].version = 4;
+
+            const local = makeCourse();
+            local.lessons[1].title = 'Basics (mine)';
+
+            const merged = mergeCourseVersions(local, server, ['b']);
+
+            expect(merged.lessons[0].title).toBe('Intro (theirs)');
+            expect(merged.lessons[1].title).toBe('Basics (mine)');
+            expect(merged.lessons[1].version).toBe(4);
+            expect(merged.structureVersion).toBe(2);
+            expect(findVersionConflict(server, merged)).toBeNull();
+        });
+
+        it('should append lessons added on the server', () => {
+            const server = makeCourse({ structureVersion: 2 });
+            server.lessons.push({ id: 'c', title: 'Added', type: 'cms', duration: '', order: 3, version: 1 });
+
+            const merged = mergeCourseVersions(makeCourse(), server, []);
+
+            expect(merged.lessons.map(l => l.id)).toEqual(['a', 'b', 'c']);
+            expect(merged.lessonsCount).toBe(3);
+        });
+
+        it('should not resurrect lessons deleted locally', () => {
+            const local = makeCourse();
+            local.lessons = local.lessons.filter((l: any) => l.id !== 'b');
+
+            const merged = mergeCourseVersions(local, makeCourse(), ['b']);
+
+            expect(merged.lessons.map(l => l.id)).toEqual(['a']);
+        });
+    });
+
+    describe('Blob round-trip', () => {
+        it('should preserve lesson IDs and versions through the compact blob', () => {
+            const course = makeCourse({
+                sections: [{ id: 'S1', title: 'Part 1', lessonIds: ['b', 'a'] }],
+            });
+            const { blob, meta, sections } = courseToBlob(course);
+
+            const restored = blobToCourse(course.id, meta, sections, blob);
+
+            expect(restored.structureVersion).toBe(1);
+            expect(restored.lessons.map(l => [l.id, l.version])).toEqual([['b', 3], ['a', 1]]);
+            expect(restored.sections?.[0].lessonIds).toEqual(['b', 'a']);
+        });
+
+        it('should stamp server versions onto a draft', () => {
+            const saved = bumpCourseVersions(makeCourse(), makeCourse({ structureVersion: 1 }));
+            const stamped = applyCourseVersions(makeCourse({ structureVersion: 0 }), getCourseVersions(saved));
+
+            expect(findVersionConflict(saved, stamped)).toBeNull();
+        });
+
+        it('should rebuild lessons from split structure and lesson blobs', () => {
+            const course = makeCourse();
+            course.lessons[1].tiptapJson = {
+                type: 'doc',
+                content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Hello' }] }],
+            };
+            const { blob, meta, sections } = courseToBlob(course);
+            const lessonBlobs = splitCourseBlob(blob);
+
+            const structure = structureToCourse(course.id, meta, {
+                v: blob.v,
+                sv: blob.sv,
+                sections,
+                lessons: Object.values(lessonBlobs).map(({ lesson }) => ({
+                    id: lesson.id, oid: lesson.oid, t: lesson.t, ver: lesson.ver, f: '', h: '',
+                })),
+            });
+            expect(structure.lessons.map(l => [l.id, l.version])).toEqual([['a', 1], ['b', 3]]);
+            expect(structure.lessons[1].tiptapJson).toBeUndefined();
+
+            const lesson = lessonBlobToLesson(lessonBlobs.L2, 2);
+            expect(lesson?.id).toBe('b');
+            expect(lesson?.tiptapJson).toEqual(course.lessons[1].tiptapJson);
+        });
+    });
+});
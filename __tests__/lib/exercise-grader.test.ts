@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildExerciseProgram, collectTestResults } from '@/lib/sandbox/exercise-grader';
+import { tiptapToBlocks, blocksToTiptap } from '@/lib/cms/tiptap-to-blocks';
+import type { ExerciseTestCase } from '@/lib/cms/types';
+import type { RunOutputLine } from '@/lib/sandbox/code-runner';
+
+const MARKER = '@@test@@';
+
+const tests: ExerciseTestCase[] = [
+    { id: 't1', name: 'adds', code: 'assert.equal(add(2, 3), 5);' },
+    { id: 't2', name: 'deep equal', code: 'assert.equal([add(1, 1)], [3]);', hidden: true },
+    { id: 't3', name: 'async', code: 'await Promise.resolve(); assert(add(0, 0) === 0);' },
+];
+
+describe('buildExerciseProgram', () => {
+    it('should run every JS test in the solution scope', async () => {
+        const { filename, source } = buildExerciseProgram(
+            'javascript', 'function add(a, b) { return a + b; }', tests, MARKER
+        );
+        expect(filename).toBe('solution.js');
+
+        const output: RunOutputLine[] = [];
+        const fakeConsole = { log: (text: string) => output.push({ stream: 'stdout', text }) };
+        new Function('console', source)(fakeConsole);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const { results } = collectTestResults(output, tests, MARKER, null);
+        expect(results.map(r => [r.id, r.passed])).toEqual([['t1', true], ['t2', false], ['t3', true]]);
+        expect(results[1]).toMatchObject({ hidden: true, message: 'Expected [3], got [2]' });
+    });
+
+    it('should embed Python tests as a JSON payload', () => {
+        const { filename, source } = buildExerciseProgram(
+            'python', 'def add(a, b):\n    return a + b', [{ id: 'p1', name: 'adds', code: 'assert add(1, "2") == 3' }], MARKER
+        );
+        expect(filename).toBe('solution.py');
+        expect(source.startsWith('def add(a, b):\n    return a + b\n')).toBe(true);
+        const payload = source.match(/_json\.loads\((".*")\)/)![1];
+        expect(JSON.parse(JSON.parse(payload))).toEqual([{ id: 'p1', code: 'assert add(1, "2") == 3' }]);
+    });
+});
+
+describe('collectTestResults', () => {
+    it('should strip marker lines and fail tests that never reported', () => {
+        const { results, output } = collectTestResults([
+            { stream: 'stdout', text: 'hello' },
+            { stream: 'stdout', text: `${MARKER}{"id":"t1","passed":true}` },
+        ], tests, MARKER, 'ReferenceError: add is not defined');
+
+        expect(output).toEqual([{ stream: 'stdout', text: 'hello' }]);
+        expect(results[0].passed).toBe(true);
+        expect(results[2]).toMatchObject({ passed: false, message: 'ReferenceError: add is not defined' });
+    });
+});
+
+describe('exercise blocks', () => {
+    it('should survive the compact block format', () => {
+        const attrs = {
+            exerciseId: 'ex-1',
+            title: 'Add',
+            prompt: 'Write add',
+            language: 'python',
+            starterCode: 'def add(a, b):\n    pass',
+            tests: [{ id: 't1', name: 'adds', code: 'assert add(1, 2) == 3', hidden: true }],
+        };
+        const { blocks } = tiptapToBlocks({ type: 'doc', content: [{ type: 'customExercise', attrs }] }, 'course-1');
+
+        expect(blocks[0]).toMatchObject({ t: 'ex', lang: 'python', v: attrs.starterCode });
+        expect(blocksToTiptap(blocks).content[0]).toEqual({ type: 'customExercise', attrs });
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { findInLessons, replaceInLessons, expandReplacement } from '@/lib/cms/find-replace';
+import type { Lesson } from '@/lib/types';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+const text = (value: string, marks?: TiptapNode['marks']): TiptapNode => ({ type: 'text', text: value, marks });
+const paragraph = (...content: TiptapNode[]): TiptapNode => ({ type: 'paragraph', content });
+
+const lesson = (id: string, ...content: TiptapNode[]): Lesson =>
+    ({ id, title: `Lesson ${id}`, type: 'cms', duration: '', order: 1, tiptapJson: { type: 'doc', content } }) as unknown as Lesson;
+
+const docOf = (l: Lesson) => (l.tiptapJson as TiptapNode).content!;
+
+describe('findInLessons', () => {
+    const lessons = [
+        lesson('l1',
+            paragraph(text('See the '), text('old docs', [{ type: 'link', attrs: { href: 'https://old.example.com/docs' } }])),
+            { type: 'customImage', attrs: { src: 'https://old.example.com/a.png' } },
+            { type: 'codeBlock', content: [text('fetch("https://old.example.com")')] },
+        ),
+        lesson('l2', paragraph(text('Nothing OLD here'))),
+    ];
+
+    it('should find matches in every scope, with context', () => {
+        const result = findInLessons(lessons, { query: 'old' });
+        if ('error' in result) throw new Error(result.error);
+
+        expect(result.matches.map(m => [m.lessonId, m.scope, m.match])).toEqual([
+            ['l1', 'text', 'old'],
+            ['l1', 'link', 'old'],
+            ['l1', 'image', 'old'],
+            ['l1', 'code', 'old'],
+            ['l2', 'text', 'OLD'],
+        ]);
+        expect(result.matches[4]).toMatchObject({ before: 'Nothing ', after: ' here' });
+    });
+
+    it('should honor case sensitivity and scopes', () => {
+        const result = findInLessons(lessons, { query: 'old', caseSensitive: true, scopes: ['link', 'image'] });
+        if ('error' in result) throw new Error(result.error);
+        expect(result.matches.map(m => m.scope)).toEqual(['link', 'image']);
+    });
+
+    it('should report an invalid regex', () => {
+        expect(findInLessons(lessons, { query: '(', regex: true })).toMatchObject({ error: expect.stringMatching(/Invalid/) });
+    });
+
+    it('should search legacy component lessons', () => {
+        const legacy = { id: 'l3', title: 'Legacy', components: [{ id: 'c', type: 'code', code: 'old()', language: 'js' }] } as unknown as Lesson;
+        const result = findInLessons([legacy], { query: 'old' });
+        if ('error' in result) throw new Error(result.error);
+        expect(result.matches[0]).toMatchObject({ scope: 'code', lessonId: 'l3' });
+    });
+});
+
+describe('replaceInLessons', () => {
+    it('should replace with regex groups and leave untouched lessons as-is', () => {
+        const lessons = [
+            lesson('l1', paragraph(text('v1.2 and v3.4'))),
+            lesson('l2', paragraph(text('no versions'))),
+        ];
+        const result = replaceInLessons(lessons, { query: 'v(\\d+)\\.(\\d+)', regex: true }, 'v$1.$2.0');
+        if ('error' in result) throw new Error(result.error);
+
+        expect(result.count).toBe(2);
+        expect(result.changedLessonIds).toEqual(['l1']);
+        expect(docOf(result.lessons[0])[0].content![0].text).toBe('v1.2.0 and v3.4.0');
+        expect(result.lessons[1]).toBe(lessons[1]);
+    });
+
+    it('should only replace the selected matches', () => {
+        const lessons = [lesson('l1', paragraph(text('a a a')))];
+        const found = findInLessons(lessons, { query: 'a' });
+        if ('error' in found) throw new Error(found.error);
+
+        const only = new Set([found.matches[1].id]);
+        const result = replaceInLessons(lessons, { query: 'a' }, 'b', only);
+        if ('error' in result) throw new Error(result.error);
+        expect(docOf(result.lessons[0])[0].content![0].text).toBe('a b a');
+    });
+
+    it('should drop text nodes that become empty and keep link marks valid', () => {
+        const lessons = [lesson('l1', paragraph(
+            text('remove'),
+            text('link', [{ type: 'link', attrs: { href: 'http://x.dev' } }]),
+        ))];
+        const withoutWord = replaceInLessons(lessons, { query: 'remove' }, '');
+        if ('error' in withoutWord) throw new Error(withoutWord.error);
+        expect(docOf(withoutWord.lessons[0])[0].content!.map(n => n.text)).toEqual(['link']);
+
+        const https = replaceInLessons(lessons, { query: 'http://', scopes: ['link'] }, 'https://');
+        if ('error' in https) throw new Error(https.error);
+        expect(docOf(https.lessons[0])[0].content![1].marks![0].attrs!.href).toBe('https://x.dev');
+    });
+
+    it('should expand replacement tokens', () => {
+        const match = 'ab'.match(new RegExp('(?<first>a)(b)'))!;
+        expect(expandReplacement('$2$<first>-$&-$$', match)).toBe('ba-ab-$');
+    });
+});
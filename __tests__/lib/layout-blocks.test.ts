@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { serializeToComponents, deserializeFromComponents } from '@/lib/cms/serialization';
+import { tiptapToBlocks, blocksToTiptap } from '@/lib/cms/tiptap-to-blocks';
+import { courseToBlob, blobToCourse } from '@/lib/storage/course-converter';
+import { segmentContent, renderNodeToHtml } from '@/lib/cms/tiptap-html';
+import type { Course } from '@/lib/types';
+
+const paragraph = (text: string) => ({ type: 'paragraph', content: [{ type: 'text', text }] });
+
+const doc = {
+    type: 'doc' as const,
+    content: [
+        {
+            type: 'customCallout',
+            attrs: { variant: 'warning', title: 'Careful' },
+            content: [paragraph('Mind the gap')],
+        },
+        {
+            type: 'customAccordion',
+            attrs: { title: 'Solution', open: true },
+            content: [
+                {
+                    type: 'customTabs',
+                    content: [
+                        { type: 'customTabPanel', attrs: { title: 'JS' }, content: [paragraph('js')] },
+                        { type: 'customTabPanel', attrs: { title: 'Python' }, content: [paragraph('py')] },
+                    ],
+                },
+            ],
+        },
+    ],
+};
+
+describe('layout blocks', () => {
+    it('should round-trip nested layout nodes through components', () => {
+        const components = serializeToComponents(doc);
+
+        expect(components).toHaveLength(2);
+        expect(components[0]).toMatchObject({ type: 'callout', variant: 'warning', title: 'Careful' });
+        expect(components[1]).toMatchObject({ type: 'accordion', title: 'Solution', defaultOpen: true });
+        expect(components[1].type === 'accordion' && components[1].children[0]).toMatchObject({
+            type: 'tabs',
+            tabs: [{ title: 'JS' }, { title: 'Python' }],
+        });
+
+        const restored = deserializeFromComponents(components);
+        expect(restored.content.map(n => n.type)).toEqual(['customCallout', 'customAccordion']);
+        expect(restored.content[1].content?.[0].content?.map(p => p.attrs?.title)).toEqual(['JS', 'Python']);
+    });
+
+    it('should survive the compact block format and legacy conversion', () => {
+        const { blocks } = tiptapToBlocks(doc, 'course-1', ['B1', 'B2']);
+
+        expect(blocks[0]).toMatchObject({ t: 'callout', k: 'warning', v: 'Careful', ch: [{ id: 'B1.0', v: 'Mind the gap' }] });
+        expect(blocks[1]).toMatchObject({ t: 'acc', o: 1, ch: [{ t: 'tabs', tabs: [{ t: 'JS' }, { t: 'Python' }] }] });
+        expect(blocksToTiptap(blocks)).toEqual(doc);
+
+        const course = {
+            id: 'c1',
+            title: 'Course',
+            lessons: [{ id: 'l1', title: 'Lesson', order: 1, components: serializeToComponents(doc) }],
+        } as unknown as Course;
+        const { blob, meta, sections } = courseToBlob(course);
+        const lesson = blobToCourse('c1', meta, sections, blob).lessons[0];
+        expect(lesson.components?.map(c => c.type)).toEqual(['callout', 'accordion']);
+    });
+
+    it('should segment layout nodes and escape their titles', () => {
+        const segments = segmentContent([paragraph('before'), doc.content[0]]);
+        expect(segments.map(s => s.type)).toEqual(['html', 'layout']);
+
+        const html = renderNodeToHtml({ ...doc.content[1], attrs: { title: '<b>x</b>', open: true } });
+        expect(html).toContain('<details class="accordion" open><summary>&lt;b&gt;x&lt;/b&gt;</summary>');
+        expect(html).toContain('<h4 class="tab-title">Python</h4><p class="mb-4">py</p>');
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToTiptap, tiptapToMarkdown, splitMarkdownTitle } from '@/lib/cms/markdown';
+import { markdownFilesToCourse } from '@/lib/cms/markdown-course';
+
+const SAMPLE = `## Variables
+
+Use **let** or _const_, never \`var\`. See [MDN](https://developer.mozilla.org).
+
+- one
+- two
+  1. nested
+
+> Quoted
+
+![Diagram](/api/images/local-lessons-a.webp)
+
+| Keyword | Scope |
+| - | - |
+| let | block |
+
+\`\`\`ts
+const x: number = 1;
+\`\`\`
+
+:::quiz{#quiz-1 title="Check" passingScore="80" timeLimit="10"}
+:::
+
+:::youtube{videoId="abc123" title="Intro"}
+:::
+
+:::files
+\`\`\`js main.js
+console.log(1);
+\`\`\`
+:::
+`;
+
+describe('markdownToTiptap', () => {
+    it('should map markdown blocks to editor nodes', () => {
+        const doc = markdownToTiptap(SAMPLE);
+        expect(doc.content.map(n => n.type)).toEqual([
+            'heading', 'paragraph', 'bulletList', 'blockquote', 'customImage',
+            'table', 'codeBlock', 'customQuiz', 'customYoutube', 'customMultiFileCode',
+        ]);
+
+        const paragraph = doc.content[1].content!;
+        expect(paragraph.find(n => n.text === 'let')?.marks).toEqual([{ type: 'bold' }]);
+        expect(paragraph.find(n => n.text === 'var')?.marks).toEqual([{ type: 'code' }]);
+        expect(paragraph.find(n => n.text === 'MDN')?.marks?.[0].attrs?.href).toBe('https://developer.mozilla.org');
+
+        expect(doc.content[5].content![0].content![0].type).toBe('tableHeader');
+        expect(doc.content[6].attrs).toEqual({ language: 'ts' });
+        expect(doc.content[7].attrs).toEqual({ quizId: 'quiz-1', title: 'Check', passingScore: 80, timeLimit: 10 });
+        expect(doc.content[9].attrs?.files).toEqual([
+            { id: 'file-1', filename: 'main.js', language: 'js', code: 'console.log(1);' },
+        ]);
+    });
+
+    it('should read run mode and read-only files from :::files', () => {
+        const doc = markdownToTiptap(':::files{runnable="true"}\n```py main.py\nimport util\n```\n```py util.py readonly\nX = 1\n```\n:::');
+        expect(doc.content[0].attrs?.runnable).toBe(true);
+        expect(doc.content[0].attrs?.files).toEqual([
+            { id: 'file-1', filename: 'main.py', language: 'py', code: 'import util' },
+            { id: 'file-2', filename: 'util.py', language: 'py', code: 'X = 1', readOnly: true },
+        ]);
+        expect(markdownToTiptap(tiptapToMarkdown(doc))).toEqual(doc);
+    });
+
+    it('should keep stray colons as text', () => {
+        const doc = markdownToTiptap('ratio note:important');
+        expect(doc.content[0].content!.map(n => n.text).join('')).toBe('ratio note:important');
+    });
+});
+
+describe('tiptapToMarkdown', () => {
+    it('should round-trip through markdown', () => {
+        const doc = markdownToTiptap(SAMPLE);
+        const markdown = tiptapToMarkdown(doc);
+        expect(markdownToTiptap(markdown)).toEqual(doc);
+        expect(markdown).toContain(':::quiz{#quiz-1 title="Check" passingScore="80" timeLimit="10"}');
+    });
+});
+
+describe('splitMarkdownTitle', () => {
+    it('should take a leading h1 as the title', () => {
+        expect(splitMarkdownTitle('# Intro\n\nBody')).toEqual({ title: 'Intro', body: 'Body' });
+        expect(splitMarkdownTitle('Body only')).toEqual({ title: null, body: 'Body only' });
+    });
+});
+
+describe('markdownFilesToCourse', () => {
+    it('should turn sub-folders into sections in numeric order', () => {
+        const result = markdownFilesToCourse([
+            { path: 'js-course/10-advanced/01-closures.md', content: '# Closures\n\nText' },
+            { path: 'js-course/2-basics/01-variables.md', content: 'No heading' },
+            { path: 'js-course/notes.txt', content: '' },
+        ], { courseId: 'js', instructor: 'Admin', createdBy: 'u1' });
+
+        expect(result?.skipped).toEqual(['js-course/notes.txt']);
+        expect(result?.course.title).toBe('Js course');
+        expect(result?.course.sections?.map(s => [s.title, s.lessonIds])).toEqual([
+            ['Basics', ['js-lesson-1']],
+            ['Advanced', ['js-lesson-2']],
+        ]);
+        expect(result?.course.lessons.map(l => l.title)).toEqual(['Variables', 'Closures']);
+    });
+});
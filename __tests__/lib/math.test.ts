@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { renderMath, mathPlaceholder, renderMathPlaceholders } from '@/lib/cms/math';
+import { serializeToComponents, deserializeFromComponents } from '@/lib/cms/serialization';
+import { tiptapToBlocks, blocksToTiptap } from '@/lib/cms/tiptap-to-blocks';
+import { markdownToTiptap, tiptapToMarkdown } from '@/lib/cms/markdown';
+import { segmentContent } from '@/lib/cms/tiptap-html';
+
+describe('math rendering', () => {
+    it('should render LaTeX without throwing on bad input', () => {
+        expect(renderMath('x^2')).toContain('class="katex"');
+        expect(renderMath('\\frac{1}{', true)).toContain('katex-error');
+    });
+
+    it('should swap inline placeholders for KaTeX', () => {
+        const html = `<p>Area ${mathPlaceholder('a < b')} here</p>`;
+        expect(html).toContain('data-math="a &lt; b"');
+        expect(renderMathPlaceholders(html)).toContain('class="katex"');
+        expect(renderMathPlaceholders(html)).not.toContain('data-math');
+    });
+});
+
+describe('math and diagram nodes', () => {
+    const doc = {
+        type: 'doc' as const,
+        content: [
+            {
+                type: 'paragraph',
+                content: [
+                    { type: 'text', text: 'Euler: ' },
+                    { type: 'mathInline', attrs: { latex: 'e^{i\\pi} = -1' } },
+                ],
+            },
+            { type: 'mathBlock', attrs: { latex: '\\sum_{i=1}^n i' } },
+            { type: 'mermaidDiagram', attrs: { source: 'graph TD\n  A --> B' } },
+        ],
+    };
+
+    it('should round-trip through components', () => {
+        const components = serializeToComponents(doc);
+        expect(components.map(c => c.type)).toEqual(['text', 'math', 'diagram']);
+        expect(deserializeFromComponents(components).content).toEqual([
+            { type: 'paragraph', content: doc.content[0].content },
+            doc.content[1],
+            doc.content[2],
+        ]);
+    });
+
+    it('should keep the source in compact blocks', () => {
+        const { blocks } = tiptapToBlocks(doc, 'course-1');
+        expect(blocks.map(b => [b.t, b.v])).toEqual([
+            ['p', 'Euler: $e^{i\\pi} = -1$'],
+            ['math', '\\sum_{i=1}^n i'],
+            ['mmd', 'graph TD\n  A --> B'],
+        ]);
+        expect(blocksToTiptap(blocks)).toEqual(doc);
+    });
+
+    it('should keep literal dollar signs as text in compact blocks', () => {
+        const prices = {
+            type: 'doc' as const,
+            content: [{
+                type: 'paragraph',
+                content: [
+                    { type: 'text', text: 'Costs $5 or $10, ' },
+                    { type: 'mathInline', attrs: { latex: 'x^2' } },
+                ],
+            }],
+        };
+        const { blocks } = tiptapToBlocks(prices, 'course-1');
+        expect(blocks[0].v).toBe('Costs \\$5 or \\$10, $x^2$');
+        expect(blocksToTiptap(blocks)).toEqual(prices);
+
+        // Blocks saved before escaping keep their dollar amounts as text
+        expect(blocksToTiptap([{ id: 'B1', t: 'p', v: 'Costs $5 or $10' }]).content[0].content)
+            .toEqual([{ type: 'text', text: 'Costs $5 or $10' }]);
+    });
+
+    it('should render math server-side and leave diagrams to the client', () => {
+        const segments = segmentContent(doc.content);
+        expect(segments.map(s => s.type)).toEqual(['html', 'diagram']);
+        expect(segments[0].content).toContain('katex-display');
+        expect(segments[1].code).toBe('graph TD\n  A --> B');
+    });
+
+    it('should use math and mermaid fences in Markdown', () => {
+        const markdown = tiptapToMarkdown(doc);
+        expect(markdown).toContain('```math\n\\sum_{i=1}^n i\n```');
+        expect(markdown).toContain('```mermaid\ngraph TD');
+        expect(markdown).toContain('Euler: $e^{i\\pi} = -1$');
+        expect(markdownToTiptap(markdown)).toEqual(doc);
+    });
+
+    it('should escape literal dollar signs in Markdown', () => {
+        const prices = {
+            type: 'doc' as const,
+            content: [{
+                type: 'paragraph',
+                content: [
+                    { type: 'text', text: 'Costs $5, ' },
+                    { type: 'mathInline', attrs: { latex: 'x^2' } },
+                ],
+            }],
+        };
+        const markdown = tiptapToMarkdown(prices);
+        expect(markdown).toContain('Costs \\$5, $x^2$');
+        expect(markdownToTiptap(markdown)).toEqual(prices);
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildOfflineBundle } from '@/lib/cms/offline-export';
+import { decodeFromZeroWidth } from '@/lib/watermark/zero-width';
+import type { Course } from '@/lib/types';
+
+const course: Course = {
+    id: 'js-101',
+    title: 'JavaScript 101',
+    description: 'Basics',
+    instructor: 'Ada',
+    thumbnail: '',
+    category: 'Web',
+    level: 'beginner',
+    duration: '1 hour',
+    lessonsCount: 2,
+    enrolledCount: 0,
+    rating: 0,
+    price: 0,
+    sections: [{ id: 's1', title: 'Getting started', lessonIds: ['l2'] }],
+    lessons: [
+        {
+            id: 'l1', title: 'Extras', type: 'cms', duration: '5 min', order: 2,
+            content: '<p>Legacy</p><script>alert(1)</script>',
+        },
+        {
+            id: 'l2', title: 'Variables', type: 'cms', duration: '10 min', order: 1,
+            tiptapJson: {
+                type: 'doc',
+                content: [
+                    { type: 'paragraph', content: [{ type: 'text', text: 'let x = 1' }] },
+                    { type: 'image', attrs: { src: '/api/images/local-lessons-a.webp' } },
+                    { type: 'image', attrs: { src: 'https://cdn.example.com/huge.png' } },
+                    { type: 'codeBlock', attrs: { language: 'js' }, content: [{ type: 'text', text: 'a < b' }] },
+                    { type: 'customQuiz', attrs: { quizId: 'q1' } },
+                ],
+            },
+        },
+    ],
+    quizzes: [{
+        id: 'q1', title: 'Check', questions: [
+            { id: 'qq1', text: 'Is 1 < 2?', options: ['Yes', 'No'], correctIndex: 0 },
+        ],
+    }],
+};
+
+describe('buildOfflineBundle', () => {
+    it('should render lessons in syllabus order with local assets and a per-user watermark', async () => {
+        const fetchAsset = vi.fn(async (url: string) =>
+            url.startsWith('/api/images/') ? { data: Buffer.from('img'), contentType: 'image/webp' } : null
+        );
+
+        const result = await buildOfflineBundle(course, {
+            exportedFor: { id: 'u1', email: 'student@example.com' },
+            sourceUrl: 'https://example.com/class/js-101',
+            fetchAsset,
+        });
+
+        expect(result).toMatchObject({ lessonCount: 2, quizCount: 1, assetCount: 1 });
+        expect(result.missingAssets).toEqual(['https://cdn.example.com/huge.png']);
+
+        const files = Object.keys(result.zip.files).filter(f => !result.zip.files[f].dir).sort();
+        expect(files).toEqual([
+            expect.stringMatching(/^assets\/[0-9a-f]{12}\.webp$/),
+            'index.html',
+            'lessons/01-variables.html',
+            'lessons/02-extras.html',
+            'quizzes/q1.html',
+            'styles.css',
+        ]);
+
+        const lesson = await result.zip.file('lessons/01-variables.html')!.async('string');
+        expect(lesson).toContain(`src="../${files[0]}"`);
+        expect(lesson).toContain('<code>a &lt; b</code>');
+        expect(lesson).toContain('href="../quizzes/q1.html"');
+        expect(decodeFromZeroWidth(lesson)).toContain('Exported for student@example.com (u1)');
+
+        const legacy = await result.zip.file('lessons/02-extras.html')!.async('string');
+        expect(legacy).not.toContain('<script>');
+
+        const quiz = await result.zip.file('quizzes/q1.html')!.async('string');
+        expect(quiz).toContain('Is 1 &lt; 2?');
+    });
+
+    it('should use the quizzes passed in over the ones embedded in the course', async () => {
+        const result = await buildOfflineBundle(course, {
+            exportedFor: { id: 'u1', email: 'student@example.com' },
+            sourceUrl: 'https://example.com/class/js-101',
+            fetchAsset: async () => null,
+            quizzes: [
+                ...course.quizzes!,
+                { id: 'q2', title: 'Stored', questions: [{ id: 'qq2', text: 'Stored only', type: 'true_false', answer: true }] },
+            ],
+        });
+
+        expect(result.quizCount).toBe(2);
+        const quiz = await result.zip.file('quizzes/q2.html')!.async('string');
+        expect(quiz).toContain('Stored only');
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { importCoursePackage, extractBodyHtml } from '@/lib/cms/package-import';
+import type { TextComponent } from '@/lib/cms/types';
+
+const CC_MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="cc" xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1">
+  <metadata><schema>IMS Common Cartridge</schema><schemaversion>1.1.0</schemaversion></metadata>
+  <organizations>
+    <organization identifier="org" structure="rooted-hierarchy">
+      <item identifier="LearningModules">
+        <item identifier="m1"><title>Module 1</title>
+          <item identifier="i1" identifierref="r1"><title>Welcome</title></item>
+          <item identifier="i2" identifierref="r2"><title>Course forum</title></item>
+        </item>
+        <item identifier="i3" identifierref="r3"><title>Syllabus</title></item>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="r1" type="webcontent" href="pages/welcome.html" />
+    <resource identifier="r2" type="imsdt_xmlv1p1"><file href="forum.xml" /></resource>
+    <resource identifier="r3" type="webcontent" xml:base="docs/"><file href="syllabus%20v2.html" /></resource>
+  </resources>
+</manifest>`;
+
+async function buildPackage(files: Record<string, string | Buffer>) {
+    const zip = new JSZip();
+    for (const [path, content] of Object.entries(files)) zip.file(path, content);
+    return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('importCoursePackage', () => {
+    it('should map an IMS CC organization to sections and lessons', async () => {
+        const data = await buildPackage({
+            'imsmanifest.xml': CC_MANIFEST,
+            'pages/welcome.html': '<html><body><h1>Hi</h1><img src="../img/logo.png"><a href="guide.pdf">Guide</a><script>LMSInitialize()</script></body></html>',
+            'img/logo.png': Buffer.from('png'),
+            'docs/syllabus v2.html': '<p>Weekly plan</p>',
+        });
+        const uploadAsset = vi.fn(async (_: Buffer, path: string) => `/api/images/${path.replace(/\//g, '-')}`);
+
+        const result = await importCoursePackage(data, {
+            courseId: 'legacy', instructor: 'Admin', createdBy: 'u1', uploadAsset,
+        });
+        if (!result.success) throw new Error(result.error);
+        const { course, report } = result;
+
+        expect(report.format).toBe('imscc');
+        expect(course.sections?.map(s => [s.title, s.lessonIds])).toEqual([
+            ['Module 1', ['legacy-lesson-1']],
+            ['Lessons', ['legacy-lesson-2']],
+        ]);
+        expect(course.lessons.map(l => l.title)).toEqual(['Welcome', 'Syllabus']);
+
+        const html = (course.lessons[0].components?.[0] as TextComponent).content;
+        expect(uploadAsset).toHaveBeenCalledOnce();
+        expect(html).toContain('src="/api/images/img-logo.png"');
+        expect(html).not.toContain('<script');
+
+        expect(report.assetCount).toBe(1);
+        expect(report.unsupported.map(u => u.item)).toEqual(['pages/guide.pdf', 'Course forum']);
+        expect(report.unsupported[1].reason).toMatch(/Discussion/);
+        expect(report.warnings).toHaveLength(1);
+    });
+
+    it('should reject zips without a manifest', async () => {
+        const result = await importCoursePackage(await buildPackage({ 'index.html': '<p></p>' }), {
+            courseId: 'x', instructor: 'Admin', createdBy: 'u1', uploadAsset: async () => null,
+        });
+        expect(result).toEqual({ success: false, error: 'imsmanifest.xml not found at the package root' });
+    });
+
+    it('should stop inflating past the size and entry limits', async () => {
+        const options = { courseId: 'x', instructor: 'Admin', createdBy: 'u1', uploadAsset: async () => null };
+        const bomb = new JSZip();
+        bomb.file('imsmanifest.xml', CC_MANIFEST);
+        bomb.file('pages/welcome.html', '0'.repeat(2 * 1024 * 1024));
+        const data = await bomb.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+        expect(data.length).toBeLessThan(64 * 1024);
+
+        const tooBig = await importCoursePackage(data, { ...options, limits: { maxUncompressedBytes: 1024 * 1024 } });
+        expect(tooBig).toEqual({ success: false, error: 'Package is larger than 1MB uncompressed' });
+
+        const tooMany = await importCoursePackage(data, { ...options, limits: { maxEntries: 2 } });
+        expect(tooMany.success).toBe(false);
+        expect(!tooMany.success && tooMany.error).toBe('Package has more than 2 files');
+    });
+});
+
+describe('extractBodyHtml', () => {
+    it('should keep the body and drop styles and inline handlers', () => {
+        const page = extractBodyHtml('<html><head><title>T</title><style>p{}</style></head><body onload="init()"><p onclick="x()">A</p></body></html>');
+        expect(page).toEqual({ html: '<p>A</p>', title: 'T', hadScripts: false });
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+    bankKey,
+    drawQuestionIds,
+    resolveAttemptQuestions,
+    seededRandom,
+    validateQuestionBank,
+} from '@/lib/cms/question-bank';
+import { gradeQuiz, sanitizeAnswers, validateQuiz } from '@/lib/cms/quiz';
+import type { QuestionBank, Quiz, SingleChoiceQuestion } from '@/lib/types';
+
+const bank: QuestionBank = {
+    id: 'algebra',
+    title: 'Algebra',
+    courseId: 'math-101',
+    questions: [
+        { id: 'e1', text: 'Easy 1', options: ['a', 'b'], correctIndex: 0, topic: 'linear', difficulty: 'easy' },
+        { id: 'e2', text: 'Easy 2', options: ['a', 'b'], correctIndex: 1, topic: 'linear', difficulty: 'easy' },
+        { id: 'm1', text: 'Medium 1', options: ['a', 'b', 'c'], correctIndex: 2, topic: 'quadratic', difficulty: 'medium' },
+        { id: 'h1', text: 'Hard 1', options: ['a', 'b', 'c', 'd'], correctIndex: 3, topic: 'quadratic', difficulty: 'hard' },
+        { id: 'h2', text: 'Hard 2', options: ['a', 'b', 'c', 'd'], correctIndex: 0, topic: 'linear', difficulty: 'hard' },
+    ],
+};
+
+const banks = new Map([[bankKey({ bankId: 'algebra', scope: 'course' }), bank]]);
+
+const quiz: Quiz = {
+    id: 'quiz-1',
+    title: 'Algebra check',
+    questions: [{ id: 'own', text: 'Own question', options: ['x', 'y'], correctIndex: 0 }],
+    draws: [{ bankId: 'algebra', scope: 'course', count: 3, mix: { hard: 2 } }],
+};
+
+describe('seededRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+        const a = seededRandom('seed-1');
+        const b = seededRandom('seed-1');
+        const c = seededRandom('seed-2');
+        const first = [a(), a(), a()];
+        expect([b(), b(), b()]).toEqual(first);
+        expect([c(), c(), c()]).not.toEqual(first);
+        expect(first.every(n => n >= 0 && n < 1)).toBe(true);
+    });
+});
+
+describe('drawQuestionIds', () => {
+    it('should ask the quiz questions and honor the difficulty mix', () => {
+        const ids = drawQuestionIds(quiz, banks, seededRandom('attempt'));
+        expect(ids).toHaveLength(4);
+        expect(ids[0]).toBe('own');
+        expect(ids).toEqual(expect.arrayContaining(['course:algebra:h1', 'course:algebra:h2']));
+        expect(drawQuestionIds(quiz, banks, seededRandom('attempt'))).toEqual(ids);
+    });
+
+    it('should only draw the selected topics', () => {
+        const topical: Quiz = { ...quiz, draws: [{ bankId: 'algebra', scope: 'course', count: 5, topics: ['quadratic'] }] };
+        expect(drawQuestionIds(topical, banks, seededRandom('x')).sort()).toEqual(['course:algebra:h1', 'course:algebra:m1', 'own']);
+    });
+});
+
+describe('resolveAttemptQuestions', () => {
+    it('should rebuild shuffled options so grading matches what the student saw', () => {
+        const shuffling: Quiz = { ...quiz, shuffleOptions: true };
+        const attempt = { questionIds: ['own', 'course:algebra:h1'], seed: 'abc' };
+        const questions = resolveAttemptQuestions(shuffling, banks, attempt) as SingleChoiceQuestion[];
+        expect(resolveAttemptQuestions(shuffling, banks, attempt)).toEqual(questions);
+        expect(questions[1].options[questions[1].correctIndex]).toBe('d');
+
+        const resolved = { ...shuffling, questions };
+        const answers = sanitizeAnswers(resolved, {
+            own: questions[0].correctIndex,
+            'course:algebra:h1': questions[1].correctIndex,
+        });
+        expect(gradeQuiz(resolved, attempt.questionIds, answers, {}).score).toBe(100);
+    });
+
+    it('should drop questions removed from the bank', () => {
+        const questions = resolveAttemptQuestions(quiz, banks, { questionIds: ['own', 'course:algebra:gone'] });
+        expect(questions.map(q => q.id)).toEqual(['own']);
+    });
+});
+
+describe('validation', () => {
+    it('should reject duplicate and reserved question IDs', () => {
+        expect(validateQuestionBank(bank, 'algebra')).toBeNull();
+        expect(validateQuestionBank(bank, 'other')).toBe('Question bank ID mismatch');
+        expect(validateQuestionBank({ ...bank, questions: [bank.questions[0], bank.questions[0]] }, 'algebra'))
+            .toBe('Question 2 has a duplicate ID');
+        expect(validateQuestionBank({ ...bank, questions: [{ ...bank.questions[0], id: 'a:b' }] }, 'algebra'))
+            .toBe('Question 1 is invalid');
+    });
+
+    it('should reject a mix larger than the draw', () => {
+        expect(validateQuiz(quiz, 'quiz-1')).toBeNull();
+        const greedy: Quiz = { ...quiz, draws: [{ bankId: 'algebra', scope: 'course', count: 1, mix: { easy: 2 } }] };
+        expect(validateQuiz(greedy, 'quiz-1')).toMatch(/more questions in its mix/);
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeQuiz } from '@/lib/cms/quiz-analytics';
+import { attemptOptionOrder, bankKey } from '@/lib/cms/question-bank';
+import type { QuizAnswer, QuizAttempt } from '@/lib/cms/quiz';
+import type { QuestionBank, Quiz } from '@/lib/types';
+
+const quiz: Quiz = {
+    id: 'quiz-1',
+    title: 'Basics',
+    questions: [
+        { id: 'easy', text: 'Easy', options: ['right', 'wrong', 'other'], correctIndex: 0 },
+        { id: 'hard', text: 'Hard', options: ['A', 'B', 'C'], correctIndex: 0 },
+        { id: 'tf', text: 'True?', type: 'true_false', answer: true },
+    ],
+};
+
+function attempt(
+    id: string,
+    answers: Record<string, { answer: QuizAnswer; correct: boolean; timeSpent?: number }>,
+    extra: Partial<QuizAttempt> = {}
+): QuizAttempt {
+    const results = Object.entries(answers).map(([questionId, r]) => ({ questionId, ...r }));
+    const correctCount = results.filter(r => r.correct).length;
+    return {
+        id,
+        courseId: 'c1',
+        quizId: quiz.id,
+        userId: `u-${id}`,
+        questionIds: Object.keys(answers),
+        status: 'submitted',
+        startedAt: '2026-01-01T00:00:00Z',
+        score: Math.round((correctCount / results.length) * 100),
+        correctCount,
+        results,
+        ...extra,
+    };
+}
+
+// 10 students: "easy" mostly right, "hard" only right for one weak student
+// while the strong ones all pick B, "tf" split down the middle
+const attempts = Array.from({ length: 10 }, (_, i) => attempt(`a${i}`, {
+    easy: { answer: i < 8 ? 0 : 1, correct: i < 8, timeSpent: 10 + i },
+    hard: { answer: i === 9 ? 0 : 1, correct: i === 9 },
+    tf: { answer: i < 5, correct: i < 5 },
+}));
+
+describe('analyzeQuiz', () => {
+    const analytics = analyzeQuiz(quiz, new Map(), [
+        ...attempts,
+        attempt('open', {}, { status: 'in_progress', results: undefined }),
+        attempt('late', {}, { status: 'expired', results: undefined, score: 0 }),
+    ]);
+    const byId = Object.fromEntries(analytics.questions.map(q => [q.questionId, q]));
+
+    it('should only count graded attempts', () => {
+        expect(analytics.attemptCount).toBe(10);
+        expect(analytics.questions.map(q => q.responses)).toEqual([10, 10, 10]);
+    });
+
+    it('should compute p-values, timing and option pick rates', () => {
+        expect(byId.easy.pValue).toBe(0.8);
+        expect(byId.easy.avgTimeSeconds).toBe(14.5);
+        expect(byId.easy.options.map(o => o.pickRate)).toEqual([0.8, 0.2, 0]);
+        expect(byId.tf.options).toEqual([
+            { label: 'True', correct: true, pickRate: 0.5, topPickRate: 1 },
+            { label: 'False', correct: false, pickRate: 0.5, topPickRate: 0 },
+        ]);
+    });
+
+    it('should flag questions that are too hard or mislead top students', () => {
+        expect(byId.hard.pValue).toBe(0.1);
+        expect(byId.hard.options[1].topPickRate).toBe(1);
+        expect(byId.hard.discrimination).toBeLessThan(0);
+        expect(byId.hard.flags).toEqual(['too_hard', 'top_distractor', 'negative_discrimination']);
+        expect(byId.easy.discrimination).toBeGreaterThan(0);
+        expect(byId.easy.flags).toEqual([]);
+    });
+
+    it('should map shuffled options back and include drawn bank questions', () => {
+        const bank: QuestionBank = {
+            id: 'b1',
+            title: 'Bank',
+            questions: [
+                { id: 'x', text: 'X', options: ['a', 'b', 'c', 'd'], correctIndex: 2 },
+                { id: 'y', text: 'Never drawn', type: 'true_false', answer: false },
+            ],
+        };
+        const drawn: Quiz = { ...quiz, questions: [], shuffleOptions: true, draws: [{ bankId: 'b1', scope: 'global', count: 1 }] };
+        const question = { ...bank.questions[0], id: 'global:b1:x' };
+        const order = attemptOptionOrder(drawn, question, { seed: 's1' });
+        expect(order).not.toBeNull();
+
+        const shown = order!.indexOf(2);
+        const result = analyzeQuiz(drawn, new Map([[bankKey({ bankId: 'b1', scope: 'global' }), bank]]), [
+            attempt('s', { 'global:b1:x': { answer: shown, correct: true } }, { seed: 's1' }),
+        ]);
+
+        expect(result.questions.map(q => q.questionId)).toEqual(['global:b1:x']);
+        expect(result.questions[0].options.map(o => o.pickRate)).toEqual([0, 0, 1, 0]);
+        expect(result.questions[0].discrimination).toBeNull();
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { QuizAttempt } from '@/lib/cms/quiz';
+import type { Quiz } from '@/lib/types';
+
+// In-memory attempts collection; create() fails on a taken ID like Firestore's
+const store = new Map<string, QuizAttempt>();
+
+vi.mock('@/lib/storage/course-storage', () => ({ getCourse: vi.fn(async () => null) }));
+vi.mock('@/lib/firebase/question-bank-operations', () => ({ getQuestionBank: vi.fn(async () => null) }));
+vi.mock('@/lib/firebase/quiz-operations', () => ({
+    listQuizAttempts: vi.fn(async (_courseId: string, quizId: string, userId: string) => {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        return [...store.values()].filter(a => a.quizId === quizId && a.userId === userId);
+    }),
+    createQuizAttempt: vi.fn(async (attempt: QuizAttempt) => {
+        if (store.has(attempt.id)) return false;
+        store.set(attempt.id, attempt);
+        return true;
+    }),
+    completeQuizAttempt: vi.fn(async () => null),
+}));
+
+import { startQuizAttempt } from '@/lib/storage/quiz-attempts';
+
+const quiz: Quiz = {
+    id: 'quiz-1',
+    title: 'Basics',
+    questions: [
+        { id: 'q1', text: '1 + 1?', options: ['1', '2', '3'], correctIndex: 1 },
+        { id: 'q2', text: 'Sky?', options: ['Blue', 'Green'], correctIndex: 0 },
+    ],
+    maxAttempts: 1,
+};
+
+describe('startQuizAttempt', () => {
+    beforeEach(() => store.clear());
+
+    it('should open a single attempt for concurrent starts', async () => {
+        const [a, b] = await Promise.all([
+            startQuizAttempt('c1', quiz, 'u1'),
+            startQuizAttempt('c1', quiz, 'u1'),
+        ]);
+
+        expect(store.size).toBe(1);
+        expect('attempt' in a && a.attempt.id).toBe('u1-quiz-1-1');
+        expect('attempt' in b && b.attempt.id).toBe('u1-quiz-1-1');
+    });
+
+    it('should refuse a new attempt once maxAttempts are used', async () => {
+        const started = await startQuizAttempt('c1', quiz, 'u1');
+        if (!('attempt' in started)) throw new Error('expected an attempt');
+        store.set(started.attempt.id, { ...started.attempt, status: 'submitted' });
+
+        const again = await startQuizAttempt('c1', quiz, 'u1');
+        expect(again).toMatchObject({ code: 'MAX_ATTEMPTS' });
+        expect(store.size).toBe(1);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { setGeminiClient } from '@/lib/ai/gemini';
+import { generateQuestionDrafts, lessonText, parseGeneratedQuestions } from '@/lib/ai/quiz-generation';
+
+const doc = {
+    type: 'doc',
+    content: [
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Photosynthesis' }] },
+        { type: 'paragraph', content: [{ type: 'text', text: 'Plants turn light into chemical energy.' }] },
+        { type: 'paragraph' },
+    ],
+};
+
+const reply = [
+    {
+        type: 'single',
+        text: 'What do plants turn light into?',
+        options: ['Heat', 'Chemical energy'],
+        correctIndex: 1,
+        explanation: 'Photosynthesis stores energy in sugars.',
+        difficulty: 'easy',
+        topic: 'Photosynthesis',
+    },
+    { type: 'true_false', text: 'Plants need light.', answer: true, explanation: 'Light drives it.', difficulty: 'extreme' },
+    { type: 'single', text: 'No answer', options: ['a', 'b'], correctIndex: 5, explanation: 'Broken' },
+    { type: 'multi', text: 'No explanation', options: ['a', 'b', 'c'], correctIndexes: [0] },
+    { type: 'ordering', text: 'Unsupported', items: ['a', 'b'], explanation: 'Nope' },
+];
+
+afterEach(() => setGeminiClient(null));
+
+describe('lessonText', () => {
+    it('should flatten the lesson through its blocks', () => {
+        expect(lessonText(doc, 'bio-101')).toBe('## Photosynthesis\n\nPlants turn light into chemical energy.');
+    });
+});
+
+describe('parseGeneratedQuestions', () => {
+    it('should keep valid drafts with explanations and drop the rest', () => {
+        const questions = parseGeneratedQuestions(JSON.stringify(reply), 'draft');
+        expect(questions).toEqual([
+            {
+                id: 'draft-1',
+                type: 'single',
+                text: 'What do plants turn light into?',
+                options: ['Heat', 'Chemical energy'],
+                correctIndex: 1,
+                explanation: 'Photosynthesis stores energy in sugars.',
+                difficulty: 'easy',
+                topic: 'Photosynthesis',
+            },
+            { id: 'draft-2', type: 'true_false', text: 'Plants need light.', answer: true, explanation: 'Light drives it.' },
+        ]);
+    });
+
+    it('should return nothing for a reply that is not JSON', () => {
+        expect(parseGeneratedQuestions('Sorry, I cannot help with that.')).toEqual([]);
+    });
+});
+
+describe('generateQuestionDrafts', () => {
+    it('should send the lesson to the Gemini client and parse its reply', async () => {
+        const calls: { model: string; prompt: string }[] = [];
+        setGeminiClient({
+            async generateText(model, prompt) {
+                calls.push({ model, prompt });
+                return '```json\n' + JSON.stringify({ questions: reply.slice(0, 1) }) + '\n```';
+            },
+        });
+
+        const questions = await generateQuestionDrafts(doc, 'bio-101', { count: 3, model: 'test-model' });
+
+        expect(calls).toHaveLength(1);
+        expect(calls[0].model).toBe('test-model');
+        expect(calls[0].prompt).toContain('Write 3 questions');
+        expect(calls[0].prompt).toContain('Plants turn light into chemical energy.');
+        expect(questions.map(q => q.text)).toEqual(['What do plants turn light into?']);
+    });
+
+    it('should not call the model for an empty lesson', async () => {
+        setGeminiClient({
+            async generateText() {
+                throw new Error('should not be called');
+            },
+        });
+        expect(await generateQuestionDrafts({ type: 'doc', content: [] }, 'bio-101', { count: 3, model: 'm' })).toEqual([]);
+    });
+});
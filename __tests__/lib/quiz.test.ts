@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+    attemptDeadline,
+    attemptsRemaining,
+    gradeQuiz,
+    isAttemptExpired,
+    matchesAccepted,
+    sanitizeAnswers,
+    stripCourseQuizzes,
+    stripQuizAnswers,
+    validateQuiz,
+    type QuizAttempt,
+} from '@/lib/cms/quiz';
+import { questionToQuiz, quizToQuestion } from '@/lib/cms/tiptap-to-blocks';
+import type { Quiz, QuizQuestion } from '@/lib/types';
+
+const quiz: Quiz = {
+    id: 'quiz-1',
+    title: 'Basics',
+    questions: [
+        { id: 'q1', text: '1 + 1?', options: ['1', '2', '3'], correctIndex: 1, explanation: 'Math' },
+        { id: 'q2', text: 'Sky?', options: ['Blue', 'Green'], correctIndex: 0 },
+        { id: 'q3', text: 'Water?', options: ['Wet', 'Dry'], correctIndex: 0 },
+        { id: 'q4', text: 'Fire?', options: ['Cold', 'Hot'], correctIndex: 1 },
+    ],
+    timeLimit: 10,
+    maxAttempts: 2,
+};
+
+describe('stripQuizAnswers', () => {
+    it('should remove correct answers and explanations', () => {
+        const student = stripQuizAnswers(quiz);
+        expect(student.questions[0]).toEqual({ id: 'q1', text: '1 + 1?', type: 'single', options: ['1', '2', '3'] });
+        expect(JSON.stringify(student)).not.toMatch(/correctIndex|explanation/);
+    });
+});
+
+describe('stripCourseQuizzes', () => {
+    it('should strip the answers of every quiz on a course payload', () => {
+        const course = stripCourseQuizzes({ id: 'c1', quizzes: [quiz] as Quiz[] });
+        expect(course.quizzes?.[0].questions).toHaveLength(4);
+        expect(JSON.stringify(course)).not.toMatch(/correctIndex|explanation/);
+        expect(stripCourseQuizzes({ id: 'c2' } as { id: string; quizzes?: Quiz[] })).toEqual({ id: 'c2' });
+    });
+});
+
+describe('gradeQuiz', () => {
+    it('should grade the attempt questions and apply the passing score', () => {
+        const answers = sanitizeAnswers(quiz, { q1: 1, q2: 0, q3: 0, q4: 0 });
+        const grade = gradeQuiz(quiz, ['q4', 'q3', 'q2', 'q1'], answers, { q1: 12.4, q2: -3 });
+
+        expect(grade).toMatchObject({ score: 75, correctCount: 3, passed: true });
+        expect(grade.results.map(r => r.questionId)).toEqual(['q4', 'q3', 'q2', 'q1']);
+        expect(grade.results[3]).toEqual({ questionId: 'q1', answer: 1, correct: true, timeSpent: 12 });
+        expect(grade.results[2].timeSpent).toBeUndefined();
+
+        expect(gradeQuiz({ ...quiz, passingScore: 80 }, ['q1', 'q2', 'q3', 'q4'], answers).passed).toBe(false);
+    });
+
+    it('should ignore invalid answers and removed questions', () => {
+        const answers = sanitizeAnswers(quiz, { q1: 5, q2: '0', q3: 0, extra: 1 });
+        expect(answers).toEqual({ q1: null, q2: null, q3: 0, q4: null });
+
+        const grade = gradeQuiz(quiz, ['q3', 'gone'], answers);
+        expect(grade).toMatchObject({ score: 100, correctCount: 1 });
+    });
+});
+
+const typed: QuizQuestion[] = [
+    { id: 'm', type: 'multi', text: 'Primes?', options: ['2', '4', '5'], correctIndexes: [0, 2] },
+    { id: 'tf', type: 'true_false', text: 'Earth is round', answer: true },
+    { id: 'sa', type: 'short_answer', text: 'Pi?', accepted: ['3.14'], matcher: 'numeric', tolerance: 0.01 },
+    { id: 'ord', type: 'ordering', text: 'Sort', items: ['a', 'b', 'c'] },
+    { id: 'mat', type: 'matching', text: 'Capitals', pairs: [{ left: 'FR', right: 'Paris' }, { left: 'DE', right: 'Berlin' }] },
+    { id: 'fb', type: 'fill_blank', text: '___ is ___', blanks: [
+        { accepted: ['sky'], matcher: 'case_insensitive' },
+        { accepted: ['blue|azure'], matcher: 'regex' },
+    ] },
+];
+const typedQuiz: Quiz = { id: 'quiz-2', title: 'Typed', questions: typed };
+
+describe('question types', () => {
+    it('should hide answers and shuffle what gives them away', () => {
+        const student = stripQuizAnswers(typedQuiz, () => 0.99);
+        expect(JSON.stringify(student)).not.toMatch(/correctIndexes|accepted|"answer"|Paris","Berlin/);
+        expect(student.questions.find(q => q.id === 'ord')).toMatchObject({ type: 'ordering', items: ['b', 'c', 'a'] });
+        expect(student.questions.find(q => q.id === 'mat')).toMatchObject({ left: ['FR', 'DE'], right: ['Berlin', 'Paris'] });
+        expect(student.questions.find(q => q.id === 'fb')).toEqual({ id: 'fb', text: '___ is ___', type: 'fill_blank', blankCount: 2 });
+    });
+
+    it('should grade every type all-or-nothing', () => {
+        const answers = sanitizeAnswers(typedQuiz, {
+            m: [2, 0, 2],
+            tf: true,
+            sa: ' 3.141 ',
+            ord: ['a', 'b', 'c'],
+            mat: ['Paris', 'Berlin'],
+            fb: ['Sky', 'azure'],
+        });
+        expect(answers.m).toEqual([0, 2]);
+        expect(gradeQuiz(typedQuiz, typed.map(q => q.id), answers)).toMatchObject({ score: 100, correctCount: 6 });
+
+        const wrong = sanitizeAnswers(typedQuiz, { m: [0], tf: 'true', sa: '3.2', ord: ['b', 'a', 'c'], mat: ['Berlin', 'Paris'], fb: ['sky', 'red'] });
+        expect(wrong.tf).toBeNull();
+        expect(gradeQuiz(typedQuiz, typed.map(q => q.id), wrong).correctCount).toBe(0);
+    });
+
+    it('should match short answers with the configured matcher', () => {
+        expect(matchesAccepted('  Hello   World ', { accepted: ['hello world'], matcher: 'case_insensitive' })).toBe(true);
+        expect(matchesAccepted('hello', { accepted: ['Hello'], matcher: 'exact' })).toBe(false);
+        expect(matchesAccepted('colour', { accepted: ['colou?r'], matcher: 'regex' })).toBe(true);
+        expect(matchesAccepted('my color', { accepted: ['colou?r'], matcher: 'regex' })).toBe(false);
+        expect(matchesAccepted('10.4', { accepted: ['10'], matcher: 'numeric', tolerance: 0.5 })).toBe(true);
+        expect(matchesAccepted('abc', { accepted: ['10'], matcher: 'numeric', tolerance: 100 })).toBe(false);
+    });
+
+    it('should validate each type', () => {
+        expect(validateQuiz(typedQuiz, 'quiz-2')).toBeNull();
+        const withQuestion = (question: object) => ({ ...typedQuiz, questions: [question] });
+        expect(validateQuiz(withQuestion({ ...typed[0], correctIndexes: [] }), 'quiz-2')).toMatch(/correct answer/);
+        expect(validateQuiz(withQuestion({ ...typed[2], accepted: ['pi'] }), 'quiz-2')).toMatch(/numbers/);
+        expect(validateQuiz(withQuestion({ ...typed[5], text: 'Only ___' }), 'quiz-2')).toMatch(/one answer per blank/);
+        const badPattern = [{ accepted: ['sky'], matcher: 'exact' }, { accepted: ['('], matcher: 'regex' }];
+        expect(validateQuiz(withQuestion({ ...typed[5], blanks: badPattern }), 'quiz-2')).toMatch(/invalid pattern/);
+        expect(validateQuiz(withQuestion({ id: 'x', text: 'x', type: 'essay' }), 'quiz-2')).toMatch(/unknown type/);
+    });
+
+    it('should round-trip every type through the compact block shape', () => {
+        for (const question of [...quiz.questions, ...typed]) {
+            expect(quizToQuestion(questionToQuiz(question), question.id)).toEqual(question);
+        }
+        expect(questionToQuiz(quiz.questions[1])).toEqual({ q: 'Sky?', o: ['Blue', 'Green'], a: 0 });
+    });
+});
+
+describe('attempt policy', () => {
+    it('should enforce the time limit with a grace period', () => {
+        const deadline = attemptDeadline(quiz, new Date('2026-01-01T10:00:00Z'));
+        expect(deadline).toBe('2026-01-01T10:10:00.000Z');
+        expect(isAttemptExpired({ deadline }, new Date('2026-01-01T10:10:20Z'))).toBe(false);
+        expect(isAttemptExpired({ deadline }, new Date('2026-01-01T10:11:00Z'))).toBe(true);
+        expect(attemptDeadline({ ...quiz, timeLimit: 0 }, new Date())).toBeUndefined();
+    });
+
+    it('should count every started attempt', () => {
+        const attempt = { id: 'a', status: 'in_progress' } as QuizAttempt;
+        expect(attemptsRemaining(quiz, [attempt])).toBe(1);
+        expect(attemptsRemaining(quiz, [attempt, { ...attempt, status: 'expired' }])).toBe(0);
+        expect(attemptsRemaining({ ...quiz, maxAttempts: undefined }, [attempt])).toBeNull();
+    });
+});
+
+describe('validateQuiz', () => {
+    it('should accept the editor shape and reject bad answers', () => {
+        expect(validateQuiz(quiz, 'quiz-1')).toBeNull();
+        expect(validateQuiz(quiz, 'other')).toMatch(/mismatch/);
+        expect(validateQuiz({ ...quiz, questions: [{ ...quiz.questions[0], correctIndex: 3 }] }, 'quiz-1'))
+            .toMatch(/correct answer/);
+        expect(validateQuiz({ ...quiz, passingScore: 120 }, 'quiz-1')).toMatch(/passingScore/);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyReviewAction,
+    statusForReview,
+    getPublishBlockReason,
+    collectCommentAnchors,
+    type CourseReview,
+} from '@/lib/cms/review';
+
+const author = { id: 'author', name: 'Author' };
+const reviewer = { id: 'reviewer', name: 'Reviewer' };
+const versions = { structureVersion: 2, lessons: { L1: 3, L2: 1 } };
+
+function submitted(): CourseReview {
+    const result = applyReviewAction(null, 'submit', author);
+    if ('error' in result || !result.review) throw new Error('submit failed');
+    return result.review;
+}
+
+describe('review workflow', () => {
+    it('should move a submitted draft to approved', () => {
+        const result = applyReviewAction(submitted(), 'approve', reviewer, { approvedVersions: versions });
+
+        expect('error' in result).toBe(false);
+        if ('error' in result) return;
+        expect(result.review?.state).toBe('approved');
+        expect(result.review?.decidedBy).toEqual(reviewer);
+        expect(statusForReview(result.review, false)).toBe('draft');
+    });
+
+    it('should keep an archived course archived until it is published', () => {
+        expect(statusForReview(submitted(), false, 'archived')).toBe('archived');
+        expect(statusForReview(null, false, 'archived')).toBe('archived');
+        expect(statusForReview(submitted(), true, 'published')).toBe('in_review');
+    });
+
+    it('should refuse self-approval unless allowed', () => {
+        expect(applyReviewAction(submitted(), 'approve', author, { approvedVersions: versions }))
+            .toEqual({ error: 'You cannot approve your own submission' });
+
+        const allowed = applyReviewAction(submitted(), 'approve', author, {
+            approvedVersions: versions,
+            allowSelfReview: true,
+        });
+        expect('error' in allowed).toBe(false);
+    });
+
+    it('should only decide on drafts in review', () => {
+        expect('error' in applyReviewAction(null, 'request_changes', reviewer)).toBe(true);
+
+        const changes = applyReviewAction(submitted(), 'request_changes', reviewer, { note: 'Fix typos' });
+        if ('error' in changes) throw new Error(changes.error);
+        expect(changes.review?.note).toBe('Fix typos');
+        expect(statusForReview(changes.review, true)).toBe('changes_requested');
+
+        // Authors resubmit after making changes
+        const resubmitted = applyReviewAction(changes.review, 'submit', author);
+        if ('error' in resubmitted) throw new Error(resubmitted.error);
+        expect(resubmitted.review?.state).toBe('in_review');
+    });
+});
+
+describe('getPublishBlockReason', () => {
+    const approved: CourseReview = { ...submitted(), state: 'approved', approvedVersions: versions };
+
+    it('should block drafts without an approval', () => {
+        expect(getPublishBlockReason(null, versions)).toMatch(/approved review/);
+        expect(getPublishBlockReason(submitted(), versions)).toMatch(/approved review/);
+    });
+
+    it('should allow the approved versions only', () => {
+        expect(getPublishBlockReason(approved, versions)).toBeNull();
+        expect(getPublishBlockReason(approved, { ...versions, lessons: { L1: 4, L2: 1 } })).toMatch(/changed/);
+        expect(getPublishBlockReason(approved, { ...versions, lessons: { L1: 3 } })).toMatch(/changed/);
+        expect(getPublishBlockReason(approved, { ...versions, structureVersion: 3 })).toMatch(/changed/);
+    });
+});
+
+describe('collectCommentAnchors', () => {
+    it('should join the text under each thread, including overlaps', () => {
+        const comment = (threadId: string) => ({ type: 'comment', attrs: { threadId } });
+        const anchors = collectCommentAnchors([
+            {
+                type: 'paragraph',
+                content: [
+                    { type: 'text', text: 'Hello ', marks: [comment('a')] },
+                    { type: 'text', text: 'world', marks: [{ type: 'bold' }, comment('a'), comment('b')] },
+                    { type: 'text', text: '!' },
+                ],
+            },
+        ]);
+
+        expect(anchors).toEqual({ a: 'Hello world', b: 'world' });
+    });
+});
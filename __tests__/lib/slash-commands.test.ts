@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+    fuzzyScore,
+    rankCommands,
+    normalizeShortcut,
+    shortcutFromEvent,
+    formatShortcut,
+    assignShortcut,
+    resolveShortcuts,
+    DEFAULT_BLOCK_SHORTCUTS,
+} from '@/lib/cms/slash-commands';
+
+const commands = [
+    { id: 'text', title: 'Text', description: 'Just start writing with plain text' },
+    { id: 'heading1', title: 'Heading 1', description: 'Large section heading', keywords: ['h1'] },
+    { id: 'multiFileCode', title: 'Multi-File Code', description: 'Tabbed code files' },
+    { id: 'codeBlock', title: 'Code Block', description: 'Capture a code snippet' },
+    { id: 'diagram', title: 'Diagram', description: 'Mermaid flowchart or sequence diagram', keywords: ['mermaid'] },
+];
+
+const keyEvent = (overrides: Partial<Parameters<typeof shortcutFromEvent>[0]>) => ({
+    key: 'q',
+    metaKey: false,
+    ctrlKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...overrides,
+});
+
+describe('slash command search', () => {
+    it('should prefer prefix matches over scattered ones', () => {
+        expect(fuzzyScore('cod', 'Code Block')!).toBeGreaterThan(fuzzyScore('cod', 'Multi-File Code')!);
+        expect(fuzzyScore('mfc', 'Multi-File Code')).not.toBeNull();
+        expect(fuzzyScore('xyz', 'Code Block')).toBeNull();
+    });
+
+    it('should rank by title, keywords and description', () => {
+        expect(rankCommands(commands, 'code').map(c => c.id)).toEqual(['codeBlock', 'multiFileCode']);
+        expect(rankCommands(commands, 'h1')[0].id).toBe('heading1');
+        expect(rankCommands(commands, 'mermaid')[0].id).toBe('diagram');
+        expect(rankCommands(commands, 'sequence').map(c => c.id)).toEqual(['diagram']);
+        expect(rankCommands(commands, '')).toBe(commands);
+    });
+});
+
+describe('block shortcuts', () => {
+    it('should normalize modifier order and aliases', () => {
+        expect(normalizeShortcut('Shift-Ctrl-K')).toBe('Mod-Shift-k');
+        expect(normalizeShortcut('alt-mod-1')).toBe('Mod-Alt-1');
+    });
+
+    it('should read shortcuts from physical keys', () => {
+        // Option+Q on macOS reports "œ"
+        expect(shortcutFromEvent(keyEvent({ key: 'œ', code: 'KeyQ', metaKey: true, altKey: true }), true)).toBe('Mod-Alt-q');
+        expect(shortcutFromEvent(keyEvent({ key: '1', code: 'Digit1', ctrlKey: true, altKey: true }), false)).toBe('Mod-Alt-1');
+        expect(shortcutFromEvent(keyEvent({ key: 'q' }), false)).toBeNull();
+        expect(shortcutFromEvent(keyEvent({ key: 'Alt', altKey: true }), false)).toBeNull();
+    });
+
+    it('should format shortcuts per platform', () => {
+        expect(formatShortcut('Mod-Alt-q', true)).toBe('⌘⌥Q');
+        expect(formatShortcut('Mod-Shift-8', false)).toBe('Ctrl+Shift+8');
+    });
+
+    it('should move a reassigned shortcut away from its previous command', () => {
+        const shortcuts = resolveShortcuts({ quiz: '' });
+        expect(shortcuts.quiz).toBe('');
+        expect(shortcuts.image).toBe(DEFAULT_BLOCK_SHORTCUTS.image);
+
+        const next = assignShortcut(shortcuts, 'diagram', 'Mod-Alt-i');
+        expect(next.diagram).toBe('Mod-Alt-i');
+        expect(next.image).toBe('');
+    });
+});
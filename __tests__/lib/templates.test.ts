@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+    templateToInsertContent,
+    expandLinkedSnippets,
+    collectLinkedTemplateIds,
+    refreshLinkedSnippets,
+    validateTemplateContent,
+    type ContentTemplate,
+} from '@/lib/cms/templates';
+import { segmentContent, type TiptapNode } from '@/lib/cms/tiptap-html';
+import { tiptapToBlocks } from '@/lib/cms/tiptap-to-blocks';
+
+const para = (text: string): TiptapNode => ({
+    type: 'paragraph',
+    content: [{ type: 'text', text }],
+});
+
+const template: ContentTemplate = {
+    id: 'tpl1',
+    name: 'Warning',
+    kind: 'snippet',
+    linked: true,
+    version: 2,
+    content: [para('Back up first')],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-02T00:00:00.000Z',
+};
+
+describe('content templates', () => {
+    it('should insert linked templates as a snippet node and plain ones as a copy', () => {
+        const [linked] = templateToInsertContent(template);
+        expect(linked.type).toBe('linkedSnippet');
+        expect(linked.attrs).toMatchObject({ templateId: 'tpl1', version: 2 });
+
+        expect(templateToInsertContent({ ...template, linked: false })).toEqual(template.content);
+    });
+
+    it('should expand nested linked snippets into their cached content', () => {
+        const nodes: TiptapNode[] = [
+            para('Intro'),
+            {
+                type: 'customCallout',
+                content: templateToInsertContent(template),
+            },
+        ];
+
+        expect(collectLinkedTemplateIds(nodes)).toEqual(['tpl1']);
+        const expanded = expandLinkedSnippets(nodes);
+        expect(expanded[1].content).toEqual(template.content);
+
+        const { blocks } = tiptapToBlocks({ type: 'doc', content: templateToInsertContent(template) }, 'course1');
+        expect(blocks).toHaveLength(1);
+        expect(segmentContent(templateToInsertContent(template))[0].content).toContain('Back up first');
+    });
+
+    it('should only refresh snippets older than the template', () => {
+        const old = templateToInsertContent({ ...template, version: 1, content: [para('Old')] });
+
+        const result = refreshLinkedSnippets(old, template);
+        expect(result.changed).toBe(true);
+        expect(result.nodes[0].attrs?.content).toEqual(template.content);
+
+        const again = refreshLinkedSnippets(result.nodes, template);
+        expect(again.changed).toBe(false);
+        expect(again.nodes).toBe(result.nodes);
+    });
+
+    it('should reject empty or malformed content', () => {
+        expect(validateTemplateContent([])).not.toBeNull();
+        expect(validateTemplateContent([{ text: 'x' }])).not.toBeNull();
+        expect(validateTemplateContent([para('ok')])).toBeNull();
+    });
+});
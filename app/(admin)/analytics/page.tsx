@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from "react";
 import { useRequireAdmin } from "@/hooks/useRequireAdmin";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import type { QuizSummary } from "@/lib/cms/quiz";
+import { QuizAnalyticsPanel } from "@/components/quiz/QuizAnalyticsPanel";
 import {
     BarChart3,
     TrendingUp,
@@ -9,7 +12,8 @@ import {
     Users,
     Activity,
     RefreshCw,
-    Download
+    Download,
+    ClipboardCheck
 } from "lucide-react";
 
 interface AnalyticsSummary {
@@ -232,6 +236,72 @@ export default function AnalyticsPage() {
                     </div>
                 </>
             )}
+
+            {/* Quiz item analysis */}
+            <QuizAnalyticsSection />
+        </div>
+    );
+}
+
+function QuizAnalyticsSection() {
+    const [courses, setCourses] = useState<{ id: string; title: string }[]>([]);
+    const [courseId, setCourseId] = useState("");
+    const [quizzes, setQuizzes] = useState<QuizSummary[]>([]);
+    const [quizId, setQuizId] = useState("");
+
+    useEffect(() => {
+        fetch("/api/courses", { cache: "no-store" })
+            .then((res) => res.json())
+            .then((data) => setCourses((data || []).map((c: { id: string; title: string }) => ({ id: c.id, title: c.title }))))
+            .catch((err) => console.error("Failed to fetch courses:", err));
+    }, []);
+
+    useEffect(() => {
+        setQuizzes([]);
+        setQuizId("");
+        if (!courseId) return;
+        authenticatedFetch(`/api/admin/analytics?type=quizzes&courseId=${encodeURIComponent(courseId)}`)
+            .then((res) => (res.ok ? res.json() : { quizzes: [] }))
+            .then((data) => setQuizzes(data.quizzes || []))
+            .catch((err) => console.error("Failed to fetch quizzes:", err));
+    }, [courseId]);
+
+    const selectClass = "bg-white dark:bg-zinc-800 border border-neutral-200 dark:border-zinc-700 rounded-lg px-3 py-2 text-sm text-neutral-900 dark:text-white";
+
+    return (
+        <div className="bg-white dark:bg-zinc-900/50 border border-neutral-200 dark:border-zinc-800 rounded-xl p-5 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-lg font-semibold text-neutral-900 dark:text-white flex items-center gap-2">
+                    <ClipboardCheck size={18} className="text-amber-400" />
+                    Quiz Analytics
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                    <select value={courseId} onChange={(e) => setCourseId(e.target.value)} className={selectClass}>
+                        <option value="">Select course</option>
+                        {courses.map((course) => (
+                            <option key={course.id} value={course.id}>{course.title}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={quizId}
+                        onChange={(e) => setQuizId(e.target.value)}
+                        disabled={quizzes.length === 0}
+                        className={selectClass}
+                    >
+                        <option value="">{courseId && quizzes.length === 0 ? "No quizzes" : "Select quiz"}</option>
+                        {quizzes.map((quiz) => (
+                            <option key={quiz.id} value={quiz.id}>{quiz.title}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            {courseId && quizId ? (
+                <QuizAnalyticsPanel key={`${courseId}/${quizId}`} courseId={courseId} quizId={quizId} />
+            ) : (
+                <p className="text-neutral-500 text-sm">
+                    Pick a quiz to see how hard each question is, how well it separates strong from weak students, and which options get picked.
+                </p>
+            )}
         </div>
     );
 }
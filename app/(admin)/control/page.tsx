@@ -21,6 +21,9 @@ import {
     RefreshCw,
     CheckCircle2,
     X,
+    Trash2,
+    Replace,
+    Library,
 } from "lucide-react";
 import Link from "next/link";
 import { SimpleModal } from "@/components/ui/SimpleModal";
@@ -44,6 +47,18 @@ interface MigrationStats {
     updatedDocs: number;
 }
 
+interface AssetGcSummary {
+    dryRun: boolean;
+    coursesScanned: number;
+    scanned: { r2: number; drive: number; local: number };
+    orphans: { fileId: string }[];
+    orphanBytes: number;
+    withinGrace: number;
+    removed: number;
+    aborted: boolean;
+    errors: string[];
+}
+
 interface SystemStatus {
     firebase: "healthy" | "degraded" | "error" | "loading";
     drive: "healthy" | "degraded" | "error" | "loading";
@@ -74,6 +89,11 @@ export default function AdminControlPage() {
     const [isBase64ModalOpen, setIsBase64ModalOpen] = useState(false);
     const [base64Stats, setBase64Stats] = useState<{ base64Found: number; uploaded: number; failed: number; bytesRemovedMB: number } | null>(null);
 
+    // Orphaned asset GC state
+    const [isAssetGcRunning, setIsAssetGcRunning] = useState(false);
+    const [isAssetGcModalOpen, setIsAssetGcModalOpen] = useState(false);
+    const [assetGcReport, setAssetGcReport] = useState<AssetGcSummary | null>(null);
+
     // Fetch system status
     const fetchStatus = useCallback(async () => {
         try {
@@ -184,6 +204,34 @@ export default function AdminControlPage() {
         }
     };
 
+    // Scan (dry run) or quarantine orphaned uploads
+    const handleAssetGc = async (dryRun: boolean) => {
+        setIsAssetGcModalOpen(false);
+        setIsAssetGcRunning(true);
+        setMigrationError(null);
+
+        try {
+            const res = dryRun
+                ? await fetch("/api/admin/asset-gc")
+                : await fetch("/api/admin/asset-gc", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ dryRun: false, action: "quarantine" }),
+                });
+            const data = await res.json();
+            if (res.ok) {
+                setAssetGcReport(data);
+            } else {
+                setMigrationError(data.error || "Asset cleanup failed");
+            }
+        } catch (error) {
+            console.error("Asset GC error:", error);
+            setMigrationError("Asset cleanup failed due to a network error.");
+        } finally {
+            setIsAssetGcRunning(false);
+        }
+    };
+
     if (authLoading || !isAdmin) {
         return (
             <div className="flex items-center justify-center min-h-screen">
@@ -289,6 +337,16 @@ export default function AdminControlPage() {
                         Fix Base64 Images
                     </button>
 
+                    {/* Orphaned Asset Scan Button */}
+                    <button
+                        onClick={() => handleAssetGc(true)}
+                        disabled={isAssetGcRunning}
+                        className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white text-xs font-bold rounded-lg transition-colors shadow-lg shadow-amber-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isAssetGcRunning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                        Scan Orphaned Uploads
+                    </button>
+
                     <button
                         onClick={fetchStatus}
                         className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 text-neutral-600 dark:text-neutral-400 text-xs font-bold rounded-lg hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors"
@@ -323,6 +381,66 @@ export default function AdminControlPage() {
                 )}
             </div>
 
+            {/* Orphaned Asset Report */}
+            {assetGcReport && (
+                <div className="bg-white dark:bg-neutral-900/50 rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                        <p className="text-xs font-semibold text-neutral-600 dark:text-neutral-400">
+                            {assetGcReport.dryRun ? "Orphaned Uploads (dry run)" : "Orphaned Uploads Quarantined"}
+                            {" · "}{assetGcReport.coursesScanned} courses scanned
+                        </p>
+                        {assetGcReport.dryRun && assetGcReport.orphans.length > 0 && !assetGcReport.aborted && (
+                            <button
+                                onClick={() => setIsAssetGcModalOpen(true)}
+                                disabled={isAssetGcRunning}
+                                className="flex items-center gap-2 px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-bold rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                                Quarantine {assetGcReport.orphans.length}
+                            </button>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-4 gap-4">
+                        <div className="text-center p-2 bg-white dark:bg-neutral-900 rounded-lg border border-neutral-100 dark:border-neutral-800">
+                            <p className="text-[10px] text-neutral-500 uppercase tracking-wider">Stored</p>
+                            <p className="text-lg font-bold text-neutral-900 dark:text-white">
+                                {assetGcReport.scanned.r2 + assetGcReport.scanned.drive + assetGcReport.scanned.local}
+                            </p>
+                        </div>
+                        <div className="text-center p-2 bg-white dark:bg-neutral-900 rounded-lg border border-neutral-100 dark:border-neutral-800">
+                            <p className="text-[10px] text-amber-500 uppercase tracking-wider">Orphaned</p>
+                            <p className="text-lg font-bold text-amber-500">{assetGcReport.orphans.length}</p>
+                        </div>
+                        <div className="text-center p-2 bg-white dark:bg-neutral-900 rounded-lg border border-neutral-100 dark:border-neutral-800">
+                            <p className="text-[10px] text-blue-500 uppercase tracking-wider">Size</p>
+                            <p className="text-lg font-bold text-blue-500">{(assetGcReport.orphanBytes / 1024 / 1024).toFixed(1)}MB</p>
+                        </div>
+                        <div className="text-center p-2 bg-white dark:bg-neutral-900 rounded-lg border border-neutral-100 dark:border-neutral-800">
+                            <p className="text-[10px] text-neutral-500 uppercase tracking-wider">In Grace</p>
+                            <p className="text-lg font-bold text-neutral-900 dark:text-white">{assetGcReport.withinGrace}</p>
+                        </div>
+                    </div>
+                    {assetGcReport.aborted && (
+                        <p className="text-xs text-red-500">
+                            Some courses could not be scanned, so nothing will be removed: {assetGcReport.errors.join("; ")}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {/* Asset GC Confirmation Modal */}
+            <SimpleModal
+                isOpen={isAssetGcModalOpen}
+                onClose={() => setIsAssetGcModalOpen(false)}
+                onConfirm={() => handleAssetGc(false)}
+                title="Quarantine Orphaned Uploads"
+                description="Uploads no longer referenced by any draft or published course (and older than the grace period) will be moved to a quarantine folder, where they can still be restored manually."
+                confirmText="Quarantine"
+                cancelText="Cancel"
+                icon={<Trash2 className="w-5 h-5" />}
+                isLoading={isAssetGcRunning}
+            />
+
             {/* Migration Confirmation Modal */}
             <SimpleModal
                 isOpen={isMigrationModalOpen}
@@ -473,6 +591,18 @@ export default function AdminControlPage() {
                         description="View API and usage analytics"
                         icon={<Gauge className="w-5 h-5 text-emerald-500" />}
                     />
+                    <QuickLink
+                        href="/find-replace"
+                        label="Find & Replace"
+                        description="Bulk-edit content across all courses"
+                        icon={<Replace className="w-5 h-5 text-amber-500" />}
+                    />
+                    <QuickLink
+                        href="/question-banks"
+                        label="Question Banks"
+                        description="Reusable quiz questions drawn per attempt"
+                        icon={<Library className="w-5 h-5 text-indigo-500" />}
+                    />
                 </div>
             </div>
         </div>
@@ -201,7 +201,13 @@ export default function CourseEditorPage({ params }: { params: Promise<{ id: str
         try {
             // CRITICAL: Use publishCourse to actually push to server!
             // updateCourse only saves to local IndexedDB
-            await publishCourse(courseId, updatedCourse);
+            const result = await publishCourse(courseId, updatedCourse);
+            if (!result.success) {
+                // Another admin saved first - merge/reload lives in the main editor
+                alert("Newer version exists. Refresh required.");
+                setIsSaving(false);
+                return;
+            }
             setIsPublished(true);
             console.log('✅ Course published to server');
         } catch (error) {
@@ -1,13 +1,14 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import { Plus, Edit, Trash2, BookOpen, Loader2, Download, Upload } from "lucide-react";
+import { Plus, Edit, Trash2, BookOpen, Loader2, Download, Upload, CalendarClock, X, FolderUp } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
 import { useRequireAdmin } from "@/hooks/useRequireAdmin";
 import { SimpleModal } from "@/components/ui/SimpleModal";
 import { Course } from "@/lib/types";
+import type { CourseSchedule, ScheduleAction } from "@/lib/storage/course-schedule";
 
 // Thumbnail component with error handling and fallback
 function ThumbnailImage({ src, alt }: { src?: string; alt: string }) {
@@ -51,6 +52,35 @@ function ThumbnailImage({ src, alt }: { src?: string; alt: string }) {
     );
 }
 
+// Pending publish/archive schedules for one course
+function ScheduleBadges({ schedules, onCancel }: { schedules: CourseSchedule[]; onCancel: (schedule: CourseSchedule) => void }) {
+    if (schedules.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap gap-1 mt-1">
+            {schedules.map(schedule => (
+                <span
+                    key={schedule.id}
+                    className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium ${schedule.action === "publish"
+                        ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400"
+                        : "bg-neutral-200 dark:bg-neutral-700/50 text-neutral-700 dark:text-neutral-300"
+                        }`}
+                >
+                    <CalendarClock className="w-3 h-3" />
+                    {schedule.action === "publish" ? "Publishes" : "Archives"} {new Date(schedule.runAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                    <button
+                        onClick={() => onCancel(schedule)}
+                        className="hover:text-red-500"
+                        title="Cancel schedule"
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                </span>
+            ))}
+        </div>
+    );
+}
+
 export default function CoursesManagementPage() {
     const router = useRouter();
     const { isAdmin, isLoading: authLoading } = useRequireAdmin();
@@ -61,6 +91,12 @@ export default function CoursesManagementPage() {
     const [isDeleting, setIsDeleting] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
     const [isImporting, setIsImporting] = useState(false);
+    const [schedules, setSchedules] = useState<CourseSchedule[]>([]);
+    const [scheduleCourse, setScheduleCourse] = useState<Course | null>(null);
+    const [scheduleAction, setScheduleAction] = useState<ScheduleAction>("publish");
+    const [scheduleAt, setScheduleAt] = useState("");
+    const [scheduleError, setScheduleError] = useState<string | null>(null);
+    const [isScheduling, setIsScheduling] = useState(false);
 
     const handleDeleteConfirm = async () => {
         if (!deleteId) return;
@@ -80,6 +116,56 @@ export default function CoursesManagementPage() {
         }
     };
 
+    const handleScheduleConfirm = async () => {
+        if (!scheduleCourse) return;
+        if (!scheduleAt) {
+            setScheduleError("Pick a date and time");
+            return;
+        }
+
+        setIsScheduling(true);
+        setScheduleError(null);
+        try {
+            const res = await fetch(`/api/courses/${scheduleCourse.id}/schedule`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                // datetime-local is in the admin's local time zone
+                body: JSON.stringify({ action: scheduleAction, runAt: new Date(scheduleAt).toISOString() }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setScheduleError(data.error || "Failed to schedule");
+                return;
+            }
+
+            setSchedules(prev => [...prev, data.schedule].sort((a, b) => a.runAt.localeCompare(b.runAt)));
+            setScheduleCourse(null);
+        } catch (error) {
+            console.error("Schedule failed:", error);
+            setScheduleError("Failed to schedule");
+        } finally {
+            setIsScheduling(false);
+        }
+    };
+
+    const handleCancelSchedule = async (schedule: CourseSchedule) => {
+        try {
+            const res = await fetch(`/api/courses/${schedule.courseId}/schedule?scheduleId=${schedule.id}`, { method: "DELETE" });
+            if (!res.ok) throw new Error("Failed to cancel");
+            setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+        } catch (error) {
+            console.error("Cancel schedule failed:", error);
+            alert("Failed to cancel schedule");
+        }
+    };
+
+    const openScheduleModal = (course: Course) => {
+        setScheduleCourse(course);
+        setScheduleAction(course.isPublished ? "archive" : "publish");
+        setScheduleAt("");
+        setScheduleError(null);
+    };
+
     // Load courses from API - MUST be before any early returns!
     useEffect(() => {
         if (!isAdmin) return; // Don't fetch if not admin yet
@@ -96,6 +182,11 @@ export default function CoursesManagementPage() {
                 setCourses([]); // Ensure state is always an array
                 setIsLoading(false);
             });
+
+        fetch('/api/admin/schedules', { cache: 'no-store' })
+            .then(res => res.json())
+            .then(data => setSchedules(Array.isArray(data.schedules) ? data.schedules : []))
+            .catch(err => console.error('Failed to load schedules:', err));
     }, [isAdmin]);
 
     // Show loading while checking auth - AFTER all hooks
@@ -161,6 +252,27 @@ export default function CoursesManagementPage() {
 
         setIsImporting(true);
         try {
+            // SCORM / Common Cartridge packages become a new draft course
+            if (/\.(zip|imscc)$/i.test(file.name)) {
+                const formData = new FormData();
+                formData.append('file', file);
+                const response = await fetch('/api/admin/courses/import', { method: 'POST', body: formData });
+                const result = await response.json();
+                if (!response.ok) {
+                    alert(`Package import failed: ${result.error || response.statusText}`);
+                    return;
+                }
+
+                const { report } = result;
+                const notes = [...report.warnings, ...report.unsupported.map((u: { item: string; reason: string }) => `${u.item}: ${u.reason}`)];
+                alert(
+                    `Imported ${report.lessonCount} lessons in ${report.sectionCount} sections (${report.assetCount} images).` +
+                    (notes.length ? `\n\nImport notes:\n- ${notes.slice(0, 15).join('\n- ')}${notes.length > 15 ? `\n...and ${notes.length - 15} more` : ''}` : '')
+                );
+                router.push(`/editor/${result.id}`);
+                return;
+            }
+
             const text = await file.text();
             const courses = JSON.parse(text);
 
@@ -186,6 +298,33 @@ export default function CoursesManagementPage() {
         }
     };
 
+    const handleMarkdownFolderImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []).filter(f => /\.(md|markdown)$/i.test(f.name));
+        e.target.value = ''; // Reset file input
+        if (files.length === 0) {
+            alert('No .md files found in that folder.');
+            return;
+        }
+
+        setIsImporting(true);
+        try {
+            const formData = new FormData();
+            files.forEach(file => formData.append('files', file, file.webkitRelativePath || file.name));
+            const response = await fetch('/api/admin/courses/import/markdown', { method: 'POST', body: formData });
+            const result = await response.json();
+            if (!response.ok) {
+                alert(`Markdown import failed: ${result.error || response.statusText}`);
+                return;
+            }
+            router.push(`/editor/${result.id}`);
+        } catch (error) {
+            console.error('Markdown import failed:', error);
+            alert('Failed to import Markdown folder');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     if (isLoading) {
         return <div className="flex items-center justify-center h-screen text-neutral-500">Loading courses...</div>;
     }
@@ -212,7 +351,7 @@ export default function CoursesManagementPage() {
                     <label>
                         <input
                             type="file"
-                            accept=".json"
+                            accept=".json,.zip,.imscc"
                             onChange={handleImport}
                             className="hidden"
                             disabled={isImporting}
@@ -229,6 +368,28 @@ export default function CoursesManagementPage() {
                             </span>
                         </Button>
                     </label>
+                    <label>
+                        <input
+                            type="file"
+                            multiple
+                            // Folder picker: sub-folders become sections
+                            {...{ webkitdirectory: '' }}
+                            onChange={handleMarkdownFolderImport}
+                            className="hidden"
+                            disabled={isImporting}
+                        />
+                        <Button
+                            asChild
+                            variant="outline"
+                            size="sm"
+                            className="text-neutral-700 dark:text-neutral-300 cursor-pointer"
+                        >
+                            <span>
+                                <FolderUp className="w-4 h-4 sm:mr-2" />
+                                <span className="hidden sm:inline">Markdown</span>
+                            </span>
+                        </Button>
+                    </label>
                     <Button
                         onClick={handleCreateCourse}
                         disabled={isCreating}
@@ -291,6 +452,7 @@ export default function CoursesManagementPage() {
                                         <div className="min-w-0">
                                             <p className="text-sm font-medium text-neutral-900 dark:text-white truncate max-w-[200px]">{course.title}</p>
                                             <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate">{course.instructor}</p>
+                                            <ScheduleBadges schedules={schedules.filter(s => s.courseId === course.id)} onCancel={handleCancelSchedule} />
                                         </div>
                                     </div>
                                 </td>
@@ -317,6 +479,13 @@ export default function CoursesManagementPage() {
                                 </td>
                                 <td className="px-6 py-4">
                                     <div className="flex items-center justify-end gap-2">
+                                        <button
+                                            onClick={() => openScheduleModal(course)}
+                                            className="p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition-colors"
+                                            title="Schedule publish / archive"
+                                        >
+                                            <CalendarClock className="w-4 h-4" />
+                                        </button>
                                         <Link href={`/editor/${course.id}`}>
                                             <button className="p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition-colors">
                                                 <Edit className="w-4 h-4" />
@@ -344,6 +513,7 @@ export default function CoursesManagementPage() {
                                 <div className="flex-1 min-w-0">
                                     <p className="text-sm font-medium text-neutral-900 dark:text-white truncate">{course.title}</p>
                                     <p className="text-xs text-neutral-500 dark:text-neutral-400">{course.instructor}</p>
+                                    <ScheduleBadges schedules={schedules.filter(s => s.courseId === course.id)} onCancel={handleCancelSchedule} />
                                     <div className="flex items-center gap-3 mt-2 flex-wrap">
                                         <span className="text-xs text-neutral-600 dark:text-neutral-400">
                                             {course.category}
@@ -365,6 +535,12 @@ export default function CoursesManagementPage() {
                                     </div>
                                 </div>
                                 <div className="flex items-center gap-1 shrink-0">
+                                    <button
+                                        onClick={() => openScheduleModal(course)}
+                                        className="p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 text-neutral-600 dark:text-neutral-400"
+                                    >
+                                        <CalendarClock className="w-4 h-4" />
+                                    </button>
                                     <Link href={`/editor/${course.id}`}>
                                         <button className="p-2 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-800 text-neutral-600 dark:text-neutral-400">
                                             <Edit className="w-4 h-4" />
@@ -392,6 +568,41 @@ export default function CoursesManagementPage() {
                 isDestructive
                 isLoading={isDeleting}
             />
+
+            <SimpleModal
+                isOpen={!!scheduleCourse}
+                onClose={() => setScheduleCourse(null)}
+                onConfirm={handleScheduleConfirm}
+                title="Schedule Course"
+                description={scheduleCourse ? `Publish or archive "${scheduleCourse.title}" automatically. Publishing uses the latest saved draft at that time.` : undefined}
+                confirmText="Schedule"
+                icon={<CalendarClock size={20} />}
+                isLoading={isScheduling}
+            >
+                <div className="space-y-3">
+                    <div className="flex gap-2">
+                        {(["publish", "archive"] as const).map(action => (
+                            <button
+                                key={action}
+                                onClick={() => setScheduleAction(action)}
+                                className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors capitalize ${scheduleAction === action
+                                    ? "bg-blue-600/20 border-blue-500 text-blue-300"
+                                    : "border-white/10 text-zinc-400 hover:text-white"
+                                    }`}
+                            >
+                                {action}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        type="datetime-local"
+                        value={scheduleAt}
+                        onChange={e => setScheduleAt(e.target.value)}
+                        className="w-full px-3 py-2 rounded-lg bg-zinc-800 border border-white/10 text-sm text-white [color-scheme:dark]"
+                    />
+                    {scheduleError && <p className="text-xs text-red-400">{scheduleError}</p>}
+                </div>
+            </SimpleModal>
         </div >
     );
 }
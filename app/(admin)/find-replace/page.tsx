@@ -0,0 +1,56 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { useRequireAdmin } from "@/hooks/useRequireAdmin";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import { FindReplacePanel } from "@/components/cms/FindReplace";
+import type { FindOptions, FindResult } from "@/lib/cms/find-replace";
+
+async function postFindReplace(body: object) {
+    const res = await authenticatedFetch("/api/admin/find-replace", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Find & replace failed");
+    return data;
+}
+
+export default function AdminFindReplacePage() {
+    const { isAdmin, isLoading: authLoading } = useRequireAdmin();
+
+    const handleSearch = async (options: FindOptions): Promise<FindResult> => postFindReplace(options);
+
+    const handleReplace = async (options: FindOptions, replacement: string, matchIds: string[]) => {
+        const data = await postFindReplace({ ...options, replacement, matchIds, apply: true });
+        if (data.failedCourseIds?.length) {
+            alert(`Could not save ${data.failedCourseIds.length} course(s): ${data.failedCourseIds.join(", ")}`);
+        }
+        return data.count as number;
+    };
+
+    if (authLoading || !isAdmin) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 space-y-6">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl font-bold text-neutral-900 dark:text-white">Find & Replace</h1>
+                <p className="text-neutral-600 dark:text-neutral-400 text-sm">
+                    Search and replace text, links, images and code in every course draft. Changes go live on the next publish.
+                </p>
+            </div>
+
+            <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-5 flex flex-col max-h-[75vh]">
+                <FindReplacePanel onSearch={handleSearch} onReplace={handleReplace} />
+            </div>
+        </div>
+    );
+}
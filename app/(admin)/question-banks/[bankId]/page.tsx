@@ -0,0 +1,142 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams, useSearchParams } from "next/navigation";
+import { ArrowLeft, Loader2, Save } from "lucide-react";
+import { useRequireAdmin } from "@/hooks/useRequireAdmin";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import { QuestionListEditor } from "@/components/quiz/QuestionListEditor";
+import type { QuestionBank } from "@/lib/types";
+
+export default function QuestionBankEditorPage() {
+    const { isAdmin, isLoading: authLoading } = useRequireAdmin();
+    const params = useParams();
+    const bankId = params?.bankId as string;
+    const courseId = useSearchParams().get("courseId");
+    const query = courseId ? `?courseId=${encodeURIComponent(courseId)}` : "";
+
+    const [bank, setBank] = useState<QuestionBank | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [hasChanges, setHasChanges] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Load bank (answers included - admin only); a new ID starts an empty bank
+    useEffect(() => {
+        if (!isAdmin || !bankId) return;
+        const loadBank = async () => {
+            try {
+                const res = await authenticatedFetch(`/api/admin/question-banks/${bankId}${query}`);
+                const data = await res.json().catch(() => ({}));
+                if (res.ok) {
+                    setBank(data.bank);
+                } else if (res.status === 404) {
+                    setBank({ id: bankId, title: "Untitled bank", questions: [] });
+                    setHasChanges(true);
+                } else {
+                    setError(data.error || "Failed to load question bank");
+                }
+            } catch (err) {
+                setError(err instanceof Error ? err.message : "Failed to load");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        loadBank();
+    }, [isAdmin, bankId, query]);
+
+    const updateBank = (updates: Partial<QuestionBank>) => {
+        if (!bank) return;
+        setBank({ ...bank, ...updates });
+        setHasChanges(true);
+    };
+
+    const saveBank = async () => {
+        if (!bank) return;
+        setIsSaving(true);
+        try {
+            const res = await authenticatedFetch(`/api/admin/question-banks/${bankId}${query}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ bank }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (res.ok) {
+                setHasChanges(false);
+                setError(null);
+            } else {
+                setError(data.error || "Failed to save question bank");
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (authLoading || !isAdmin || isLoading) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 space-y-6">
+            {/* Header */}
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <Link
+                        href={`/question-banks${query}`}
+                        className="p-2 rounded-lg text-neutral-500 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+                    >
+                        <ArrowLeft className="w-5 h-5" />
+                    </Link>
+                    <div>
+                        <p className="text-xs text-neutral-500 uppercase tracking-wide">
+                            {courseId ? `Question bank · ${courseId}` : "Global question bank"}
+                        </p>
+                        {bank && (
+                            <input
+                                type="text"
+                                value={bank.title}
+                                onChange={(e) => updateBank({ title: e.target.value })}
+                                maxLength={120}
+                                className="text-2xl font-bold text-neutral-900 dark:text-white bg-transparent border-none focus:outline-none"
+                                placeholder="Bank title"
+                            />
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    {error ? (
+                        <span className="text-sm text-red-500">{error}</span>
+                    ) : hasChanges && (
+                        <span className="text-sm text-amber-500">Unsaved changes</span>
+                    )}
+                    <button
+                        onClick={saveBank}
+                        disabled={!bank || isSaving || !hasChanges}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+                    >
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        Save
+                    </button>
+                </div>
+            </div>
+
+            {bank && (
+                <div className="bg-zinc-950 border border-zinc-800 rounded-xl p-5 space-y-4">
+                    <h2 className="text-lg font-semibold text-white">Questions ({bank.questions.length})</h2>
+                    <QuestionListEditor
+                        questions={bank.questions}
+                        onChange={(questions) => updateBank({ questions })}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Loader2, Plus, Trash2, Library } from "lucide-react";
+import { useRequireAdmin } from "@/hooks/useRequireAdmin";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import { QUESTION_DIFFICULTIES } from "@/lib/cms/quiz";
+import type { QuestionBankSummary } from "@/lib/cms/question-bank";
+
+function bankHref(bank: Pick<QuestionBankSummary, "id" | "scope">, courseId: string | null) {
+    return `/question-banks/${bank.id}${bank.scope === "course" && courseId ? `?courseId=${encodeURIComponent(courseId)}` : ""}`;
+}
+
+export default function QuestionBanksPage() {
+    const { isAdmin, isLoading: authLoading } = useRequireAdmin();
+    const router = useRouter();
+    const courseId = useSearchParams().get("courseId");
+    const [banks, setBanks] = useState<QuestionBankSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchBanks = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const query = courseId ? `?courseId=${encodeURIComponent(courseId)}` : "";
+            const res = await authenticatedFetch(`/api/admin/question-banks${query}`);
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || "Failed to load question banks");
+            setBanks(data.banks);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [courseId]);
+
+    useEffect(() => {
+        if (isAdmin) fetchBanks();
+    }, [isAdmin, fetchBanks]);
+
+    const createBank = (scope: QuestionBankSummary["scope"]) => {
+        const id = `bank-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        router.push(bankHref({ id, scope }, courseId));
+    };
+
+    const deleteBank = async (bank: QuestionBankSummary) => {
+        if (!confirm(`Delete "${bank.title}"? Quizzes drawing from it will only ask their other questions.`)) return;
+        const query = bank.scope === "course" && courseId ? `?courseId=${encodeURIComponent(courseId)}` : "";
+        const res = await authenticatedFetch(`/api/admin/question-banks/${bank.id}${query}`, { method: "DELETE" });
+        if (res.ok) {
+            setBanks(prev => prev.filter(b => b !== bank));
+        } else {
+            const data = await res.json().catch(() => ({}));
+            alert(data.error || "Failed to delete question bank");
+        }
+    };
+
+    if (authLoading || !isAdmin) {
+        return (
+            <div className="flex items-center justify-center h-96">
+                <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 space-y-6">
+            {/* Header */}
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-neutral-900 dark:text-white">Question Banks</h1>
+                    <p className="text-neutral-600 dark:text-neutral-400 text-sm">
+                        Reusable questions tagged by topic and difficulty. Quizzes draw a fresh set from them for every attempt.
+                        {courseId && <> Showing the banks of <span className="font-mono">{courseId}</span> and the global ones.</>}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    {courseId && (
+                        <button
+                            onClick={() => createBank("course")}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Course bank
+                        </button>
+                    )}
+                    <button
+                        onClick={() => createBank("global")}
+                        className="flex items-center gap-2 px-4 py-2 bg-neutral-800 hover:bg-neutral-700 text-white rounded-lg text-sm transition-colors"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Global bank
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">{error}</div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="w-6 h-6 animate-spin text-neutral-400" />
+                </div>
+            ) : banks.length === 0 ? (
+                <div className="text-center py-12 text-neutral-500 border border-dashed border-neutral-300 dark:border-neutral-700 rounded-xl">
+                    <Library className="w-10 h-10 mx-auto mb-3 text-neutral-400" />
+                    No question banks yet.
+                </div>
+            ) : (
+                <div className="bg-white dark:bg-neutral-900/50 rounded-2xl border border-neutral-200 dark:border-neutral-800 divide-y divide-neutral-100 dark:divide-neutral-800">
+                    {banks.map(bank => (
+                        <div key={`${bank.scope}:${bank.id}`} className="flex items-center justify-between gap-4 p-4">
+                            <Link href={bankHref(bank, courseId)} className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <p className="font-medium text-neutral-900 dark:text-white truncate">{bank.title}</p>
+                                    <span className={`px-2 py-0.5 rounded text-xs ${bank.scope === "course"
+                                        ? "bg-blue-500/10 text-blue-500"
+                                        : "bg-neutral-500/10 text-neutral-500"}`}>
+                                        {bank.scope === "course" ? "Course" : "Global"}
+                                    </span>
+                                </div>
+                                <p className="text-sm text-neutral-500 dark:text-neutral-400 truncate">
+                                    {bank.questionCount} questions
+                                    {QUESTION_DIFFICULTIES.map(d => bank.difficulties[d] ? ` · ${bank.difficulties[d]} ${d}` : "").join("")}
+                                    {bank.topics.length > 0 && ` · ${bank.topics.join(", ")}`}
+                                </p>
+                            </Link>
+                            <button
+                                onClick={() => deleteBank(bank)}
+                                className="p-2 text-neutral-400 hover:text-red-500 transition-colors"
+                                title="Delete"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
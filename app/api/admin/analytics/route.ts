@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
 import { getAnalyticsSummary } from '@/lib/analytics/firestore-analytics';
 import { getSummary as getInMemorySummary, getStats, getAllRecords } from '@/lib/api/analytics';
+import { validateCourseId, validateLessonId } from '@/lib/api/validators';
+import { getQuizAnalytics, listCourseQuizzes } from '@/lib/storage/quiz-attempts';
+import { summarizeQuiz } from '@/lib/cms/quiz';
 
 export const dynamic = 'force-dynamic';
 
@@ -9,6 +12,9 @@ export const dynamic = 'force-dynamic';
  * GET /api/admin/analytics
  * Get API usage analytics (admin only)
  * Uses Firestore for persistent data, falls back to in-memory
+ *
+ * ?type=quizzes&courseId=        - A course's quizzes
+ * ?type=quiz&courseId=&quizId=   - Item analysis of a quiz's attempts
  */
 export async function GET(request: NextRequest) {
     try {
@@ -56,9 +62,31 @@ export async function GET(request: NextRequest) {
                     count: records.length,
                 });
 
+            case 'quizzes': {
+                const courseId = searchParams.get('courseId') || '';
+                if (!validateCourseId(courseId)) {
+                    return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+                }
+                const quizzes = await listCourseQuizzes(courseId);
+                return NextResponse.json({ quizzes: quizzes.map(summarizeQuiz) });
+            }
+
+            case 'quiz': {
+                const courseId = searchParams.get('courseId') || '';
+                const quizId = searchParams.get('quizId') || '';
+                if (!validateCourseId(courseId) || !validateLessonId(quizId)) {
+                    return NextResponse.json({ error: 'Invalid course or quiz ID' }, { status: 400 });
+                }
+                const analytics = await getQuizAnalytics(courseId, quizId);
+                if (!analytics) {
+                    return NextResponse.json({ error: 'Quiz not found' }, { status: 404 });
+                }
+                return NextResponse.json(analytics, { headers: { 'Cache-Control': 'private, no-store' } });
+            }
+
             default:
                 return NextResponse.json(
-                    { error: 'Invalid type. Use: summary, range, export' },
+                    { error: 'Invalid type. Use: summary, range, export, quizzes, quiz' },
                     { status: 400 }
                 );
         }
@@ -0,0 +1,79 @@
+/**
+ * Admin endpoint for the orphaned-asset garbage collector
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/api/auth-guard';
+import { runAssetGc, DEFAULT_GRACE_DAYS, AssetGcAction } from '@/lib/storage/asset-gc';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const ACTIONS: AssetGcAction[] = ['delete', 'quarantine'];
+
+function parseGraceDays(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return DEFAULT_GRACE_DAYS;
+    const days = Number(value);
+    return Number.isFinite(days) && days >= 0 && days <= 365 ? days : null;
+}
+
+// GET - Dry run report (nothing is removed)
+export async function GET(request: NextRequest) {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+        return authResult.response;
+    }
+
+    const graceDays = parseGraceDays(request.nextUrl.searchParams.get('graceDays'));
+    if (graceDays === null) {
+        return NextResponse.json({ error: 'Invalid graceDays' }, { status: 400 });
+    }
+
+    try {
+        const report = await runAssetGc({ dryRun: true, graceDays });
+        return NextResponse.json({ status: 'ok', ...report });
+    } catch (error: any) {
+        return NextResponse.json({
+            status: 'error',
+            error: error?.message || 'Unknown error',
+        }, { status: 500 });
+    }
+}
+
+// POST - Run GC { dryRun?: boolean, action?: 'delete' | 'quarantine', graceDays?: number }
+export async function POST(request: NextRequest) {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+        return authResult.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const action = body.action ?? 'quarantine';
+    const graceDays = parseGraceDays(body.graceDays);
+
+    if (!ACTIONS.includes(action)) {
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+    if (graceDays === null) {
+        return NextResponse.json({ error: 'Invalid graceDays' }, { status: 400 });
+    }
+
+    try {
+        console.log(`🧹 [Admin] Asset GC triggered by ${authResult.user.email || authResult.user.id}`);
+        const report = await runAssetGc({
+            dryRun: body.dryRun !== false,
+            action,
+            graceDays,
+        });
+
+        return NextResponse.json({
+            status: report.aborted ? 'partial' : 'ok',
+            ...report,
+        });
+    } catch (error: any) {
+        return NextResponse.json({
+            status: 'error',
+            error: error?.message || 'Unknown error',
+        }, { status: 500 });
+    }
+}
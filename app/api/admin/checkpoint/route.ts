@@ -5,20 +5,28 @@
  * Body: Course JSON (optionally gzip compressed)
  *
  * This is called by the 30s checkpoint sync from the client.
- * Saves to draft_snapshot (NOT published).
+ * Saves to draft_snapshot (NOT published) as a delta manifest -
+ * see lib/storage/course-delta.ts.
  *
  * FIRESTORE-RESILIENT: Telegram save succeeds even if Firestore quota exhausted
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api/auth-guard';
-import { initAdmin } from '@/lib/auth/firebase-admin';
-import {
-  uploadCourseBlob,
-  isTelegramEnabled,
-  getBlobStats,
-} from '@/lib/storage/telegram-storage';
+import { uploadCourseDelta, isBlobStoreEnabled } from '@/lib/storage/blob-store';
+import { getBlobStats } from '@/lib/storage/telegram-storage';
 import { courseToBlob } from '@/lib/storage/course-converter';
+import {
+  checkCourseVersions,
+  commitDraftPointer,
+  uploadCourseSplit,
+} from '@/lib/storage/course-storage';
+import { getDraftPointer, updatePointerCache } from '@/lib/cache/pointer-cache';
+import { getCourseVersions } from '@/lib/storage/course-versioning';
+import { staleDraftResponse, versionConflictResponse } from '@/lib/api/version-conflict';
+import { recordRevision } from '@/lib/storage/course-revisions';
+import { statusForReview } from '@/lib/cms/review';
+import { recordTemplateUsage } from '@/lib/firebase/template-operations';
 import { gunzipSync } from 'zlib';
 
 /**
@@ -65,9 +73,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  if (!isTelegramEnabled()) {
+  if (!isBlobStoreEnabled()) {
     return NextResponse.json(
-      { error: 'Telegram not configured' },
+      { error: 'Blob storage not configured' },
       { status: 500 }
     );
   }
@@ -80,15 +88,22 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const course = await parseRequestBody(request);
+    const body = await parseRequestBody(request);
 
-    if (!course || !course.id) {
+    if (!body || !body.id) {
       return NextResponse.json(
         { error: 'Invalid course data' },
         { status: 400 }
       );
     }
 
+    // 🔒 Optimistic locking: never let a stale checkpoint overwrite a newer draft
+    const versionCheck = await checkCourseVersions(courseId, body);
+    if (!versionCheck.ok) {
+      return versionConflictResponse(versionCheck.conflict, versionCheck.current);
+    }
+    const course = versionCheck.course;
+
     const { blob, meta, sections } = courseToBlob(course);
     const stats = getBlobStats(blob);
 
@@ -96,15 +111,23 @@ export async function POST(request: NextRequest) {
       `⏱️ [Checkpoint] ${courseId}: ${stats.lessonCount} lessons, ${(stats.sizeBytes / 1024).toFixed(1)}KB`
     );
 
-    // Step 1: Upload to Telegram FIRST (always succeeds, no quota)
-    const { file_id, hash } = await uploadCourseBlob(courseId, blob);
+    // Step 1: Upload to the blob store FIRST (always succeeds, no quota)
+    // Only chunks changed since the previous draft are uploaded
+    const previousDraft = await getDraftPointer(courseId);
+    const { file_id, hash, uploadedChunks } = await uploadCourseDelta(
+      courseId,
+      blob,
+      previousDraft?.tg_file_id
+    );
     console.log(
-      `✅ [Telegram] ${courseId} uploaded → ${file_id.substring(0, 20)}...`
+      `✅ [Blob] ${courseId} uploaded → ${file_id.substring(0, 20)}... (${uploadedChunks} new chunks)`
     );
+    const structure_file_id = await uploadCourseSplit(courseId, blob, sections);
 
     // Step 2: Try to update Firestore (optional - may fail if quota exhausted)
     // With 5-second timeout to avoid long waits
     let firestoreUpdated = false;
+    let stale = false;
     let draftVersion = 1;
 
     const firestoreTimeout = new Promise<void>((_, reject) =>
@@ -112,17 +135,11 @@ export async function POST(request: NextRequest) {
     );
 
     const firestoreUpdate = async () => {
-      const admin = initAdmin();
-      const db = admin.firestore();
-      const docRef = db.collection('courses').doc(courseId);
-
-      // Get existing data to preserve published state
-      const existingDoc = await docRef.get();
-      const existingData = existingDoc.exists ? existingDoc.data() : {};
-      draftVersion = (existingData?.draft_snapshot?.version || 0) + 1;
-
-      await docRef.set(
-        {
+      // Only lands if the draft is still the one the version check saw
+      // (existing data is read to preserve published state)
+      const committed = await commitDraftPointer(courseId, versionCheck.base, (existingData) => {
+        draftVersion = (existingData.draft_snapshot?.version || 0) + 1;
+        return {
           meta,
           sections,
           draft_snapshot: {
@@ -133,24 +150,54 @@ export async function POST(request: NextRequest) {
             blockCount: stats.blockCount,
             savedAt: new Date().toISOString(),
             dirty: false,
+            structure_file_id,
           },
-          published: existingData?.published || null,
-          status: existingData?.published ? 'published' : 'draft',
+          published: existingData.published || null,
+          structure_version: blob.sv || 0,
+          status: statusForReview(existingData.review || null, !!existingData.published, existingData.status),
           createdAt:
             course.createdAt ||
-            existingData?.createdAt ||
+            existingData.createdAt ||
             new Date().toISOString(),
           updatedAt: new Date().toISOString(),
-        },
-        { merge: true }
-      );
+        };
+      });
+      if (!committed) {
+        stale = true;
+        return;
+      }
 
       firestoreUpdated = true;
+      updatePointerCache(courseId, 'draft', {
+        tg_file_id: file_id,
+        version: draftVersion,
+        hash,
+        meta,
+        sections,
+        structure_file_id: structure_file_id || undefined,
+      });
       console.log(`✅ [Firestore] ${courseId} → draft v${draftVersion}`);
+
+      // Linked snippets: remember where templates are used (best effort)
+      void recordTemplateUsage(courseId, course);
+
+      await recordRevision(courseId, {
+        kind: 'checkpoint',
+        blob,
+        meta,
+        sections,
+        file_id,
+        structure_file_id,
+        version: draftVersion,
+        author: authResult.user,
+      });
     };
 
     try {
       await Promise.race([firestoreUpdate(), firestoreTimeout]);
+      if (stale) {
+        return staleDraftResponse(courseId, body);
+      }
     } catch (firestoreError: any) {
       if (firestoreError?.message === 'Firestore timeout') {
         console.warn(
@@ -175,6 +222,7 @@ export async function POST(request: NextRequest) {
       lessonCount: stats.lessonCount,
       tg_file_id: file_id,
       firestore_updated: firestoreUpdated,
+      versions: getCourseVersions(course),
       // If Firestore failed, client should retry pointer update later
       pending_firestore_sync: !firestoreUpdated,
     });
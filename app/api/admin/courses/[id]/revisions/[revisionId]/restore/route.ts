@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { restoreRevision } from '@/lib/storage/course-revisions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/courses/[id]/revisions/[revisionId]/restore
+ * Save a revision's content as the new draft (admin only)
+ * The published version is untouched until the next publish.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id, revisionId } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const restored = await restoreRevision(id, revisionId, authResult.user);
+        if (!restored) {
+            return NextResponse.json({ error: 'Revision not found or could not be restored' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, courseId: id, restoredFrom: revisionId });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to restore revision');
+    }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { diffRevisions } from '@/lib/storage/course-revisions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/courses/[id]/revisions/diff?from=<revisionId>&to=<revisionId>
+ * Lesson- and block-level diff between two revisions (admin only)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const from = searchParams.get('from');
+        const to = searchParams.get('to');
+        if (!from || !to) {
+            return NextResponse.json({ error: 'Provide from and to revision IDs' }, { status: 400 });
+        }
+
+        const result = await diffRevisions(id, from, to);
+        if (!result) {
+            return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(result);
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to diff revisions');
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { listRevisions } from '@/lib/storage/course-revisions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/courses/[id]/revisions
+ * Revision history of a course, newest first (admin only)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const revisions = await listRevisions(id);
+        return NextResponse.json({ revisions });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to list revisions');
+    }
+}
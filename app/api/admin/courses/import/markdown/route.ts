@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { allocateCourseId, saveCourse } from '@/lib/storage/course-storage';
+import { markdownFilesToCourse, MarkdownFile } from '@/lib/cms/markdown-course';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_FILES = 500;
+const MAX_TOTAL_SIZE = 20 * 1024 * 1024; // 20MB of Markdown is a lot of course
+
+/**
+ * POST /api/admin/courses/import/markdown
+ * multipart/form-data:
+ *   files - .md files; send each with its relative path as the file name
+ *           (formData.append('files', file, file.webkitRelativePath))
+ *   title - optional course title (defaults to the folder name)
+ *
+ * Sub-folders become sections; see lib/cms/markdown-course.ts.
+ */
+export async function POST(request: NextRequest) {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+        return authResult.response;
+    }
+
+    try {
+        const formData = await request.formData();
+        const uploads = formData.getAll('files').filter((f): f is File => f instanceof File);
+        const title = formData.get('title');
+
+        if (uploads.length === 0) {
+            return NextResponse.json({ error: 'No files uploaded' }, { status: 400 });
+        }
+        if (uploads.length > MAX_FILES) {
+            return NextResponse.json({ error: `Too many files (max ${MAX_FILES})` }, { status: 400 });
+        }
+        if (uploads.reduce((sum, f) => sum + f.size, 0) > MAX_TOTAL_SIZE) {
+            return NextResponse.json(
+                { error: `Upload too large. Max size: ${MAX_TOTAL_SIZE / 1024 / 1024}MB` },
+                { status: 400 }
+            );
+        }
+
+        const files: MarkdownFile[] = await Promise.all(
+            uploads.map(async (file) => ({ path: file.name, content: await file.text() }))
+        );
+
+        const { user } = authResult;
+        const courseTitle = typeof title === 'string' && title.trim() ? title.trim() : undefined;
+        const rootFolder = files[0].path.includes('/') ? files[0].path.split('/')[0] : '';
+        const courseId = await allocateCourseId(courseTitle || rootFolder);
+
+        const result = markdownFilesToCourse(files, {
+            courseId,
+            title: courseTitle,
+            instructor: (user.name || 'Admin').slice(0, 100),
+            createdBy: user.id,
+        });
+        if (!result) {
+            return NextResponse.json({ error: 'No .md files found' }, { status: 400 });
+        }
+
+        await saveCourse(courseId, result.course, { kind: 'checkpoint', author: user });
+        console.log(`✅ Admin ${user.email} imported ${result.course.lessons.length} Markdown lessons as ${courseId}`);
+
+        return NextResponse.json({
+            id: courseId,
+            course: result.course,
+            report: {
+                sectionCount: result.course.sections?.length || 0,
+                lessonCount: result.course.lessons.length,
+                skipped: result.skipped,
+            },
+        });
+    } catch (error: unknown) {
+        return safeErrorResponse(error, 'Failed to import Markdown course');
+    }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { posix } from 'path';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { allocateCourseId, saveCourse } from '@/lib/storage/course-storage';
+import { importCoursePackage } from '@/lib/cms/package-import';
+import { compressUploadImage, storeUploadedAsset } from '@/lib/storage/asset-upload';
+import { moderateImage } from '@/lib/moderation/content-filter';
+
+export const dynamic = 'force-dynamic';
+
+// SCORM packages bundle media, so allow more than a single image upload
+const MAX_PACKAGE_SIZE = 100 * 1024 * 1024; // 100MB
+
+/**
+ * POST /api/admin/courses/import
+ * multipart/form-data: file = SCORM 1.2 or IMS Common Cartridge zip
+ *
+ * Creates a draft course and returns it with an import report.
+ */
+export async function POST(request: NextRequest) {
+    const authResult = await requireAdmin(request);
+    if (!authResult.authenticated) {
+        return authResult.response;
+    }
+
+    try {
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+
+        if (!file) {
+            return NextResponse.json({ error: 'Missing file' }, { status: 400 });
+        }
+        if (file.size > MAX_PACKAGE_SIZE) {
+            return NextResponse.json(
+                { error: `Package too large. Max size: ${MAX_PACKAGE_SIZE / 1024 / 1024}MB` },
+                { status: 400 }
+            );
+        }
+
+        const { user } = authResult;
+        const courseId = await allocateCourseId((file.name || '').replace(/\.(zip|imscc)$/i, ''));
+
+        const result = await importCoursePackage(Buffer.from(await file.arrayBuffer()), {
+            courseId,
+            instructor: (user.name || 'Admin').slice(0, 100),
+            createdBy: user.id,
+            fallbackTitle: (file.name || '').replace(/\.(zip|imscc)$/i, ''),
+            // Same moderation, compression + Drive/R2/local chain as /api/upload;
+            // flagged images are left out (listed in the report)
+            uploadAsset: async (data, path) => {
+                try {
+                    const moderation = await moderateImage(data);
+                    if (moderation.shouldReplace) {
+                        console.log(`🎭 [Import] Skipping flagged image ${path} from user ${user.id}: ${moderation.reason}`);
+                        return null;
+                    }
+
+                    const isGif = posix.extname(path).toLowerCase() === '.gif';
+                    const image = await compressUploadImage(data, 'lesson', isGif);
+                    const stored = await storeUploadedAsset(image.buffer, {
+                        format: image.format,
+                        mimeType: image.mimeType,
+                        folder: 'lessons',
+                        ownerId: user.id,
+                    });
+                    return stored.url;
+                } catch (error) {
+                    console.warn(`⚠️ [Import] Could not re-host ${path}:`, error);
+                    return null;
+                }
+            },
+        });
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        await saveCourse(courseId, result.course, {
+            kind: 'checkpoint',
+            author: user,
+        });
+        console.log(`✅ Admin ${user.email} imported ${result.report.format} package as ${courseId} (${result.report.lessonCount} lessons, ${result.report.unsupported.length} unsupported)`);
+
+        return NextResponse.json({ id: courseId, course: result.course, report: result.report });
+    } catch (error: unknown) {
+        return safeErrorResponse(error, 'Failed to import course package');
+    }
+}
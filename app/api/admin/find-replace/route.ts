@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { FIND_SCOPES, MAX_FIND_MATCHES, type FindOptions, type FindScope } from '@/lib/cms/find-replace';
+import { findAcrossCourses, replaceAcrossCourses } from '@/lib/storage/course-find-replace';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_REPLACEMENT_LENGTH = 2000;
+
+/**
+ * POST /api/admin/find-replace
+ * Find matches in every course draft, or replace the selected ones
+ * when `apply` is set (admin only)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const body = await request.json();
+        const { query, regex, caseSensitive, scopes, replacement, matchIds, apply } = body;
+
+        if (!query || typeof query !== 'string' || query.length > MAX_QUERY_LENGTH) {
+            return NextResponse.json({ error: `Query is required (max ${MAX_QUERY_LENGTH} characters)` }, { status: 400 });
+        }
+
+        if (scopes !== undefined && (!Array.isArray(scopes) || scopes.some(s => !FIND_SCOPES.includes(s)))) {
+            return NextResponse.json({ error: `Scopes must be any of: ${FIND_SCOPES.join(', ')}` }, { status: 400 });
+        }
+
+        const options: FindOptions = {
+            query,
+            regex: regex === true,
+            caseSensitive: caseSensitive === true,
+            scopes: scopes as FindScope[] | undefined,
+        };
+
+        if (!apply) {
+            const result = await findAcrossCourses(options);
+            if ('error' in result) {
+                return NextResponse.json({ error: result.error }, { status: 400 });
+            }
+            return NextResponse.json(result);
+        }
+
+        if (typeof replacement !== 'string' || replacement.length > MAX_REPLACEMENT_LENGTH) {
+            return NextResponse.json({ error: `Replacement must be a string (max ${MAX_REPLACEMENT_LENGTH} characters)` }, { status: 400 });
+        }
+
+        if (!Array.isArray(matchIds) || matchIds.length === 0 || matchIds.length > MAX_FIND_MATCHES
+            || matchIds.some(id => typeof id !== 'string')) {
+            return NextResponse.json({ error: `Select 1-${MAX_FIND_MATCHES} matches to replace` }, { status: 400 });
+        }
+
+        const result = await replaceAcrossCourses(options, replacement, matchIds, authResult.user);
+        if ('error' in result) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        return safeErrorResponse(error, 'Find & replace failed');
+    }
+}
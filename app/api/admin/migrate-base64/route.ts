@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { initAdmin } from '@/lib/auth/firebase-admin';
-import { downloadCourseBlob, uploadCourseBlob } from '@/lib/storage/telegram-storage';
+import { downloadCourseBlob, uploadCourseBlob } from '@/lib/storage/blob-store';
 import { uploadToR2, isR2Enabled } from '@/lib/storage/r2-storage';
 import { uploadToDrive, isDriveEnabled } from '@/lib/storage/google-drive';
 import { addToLocalRegistry, getFromLocalRegistry, markAsSynced } from '@/lib/cache/local-registry';
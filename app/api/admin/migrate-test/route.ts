@@ -7,7 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api/auth-guard';
 import { initAdmin } from '@/lib/auth/firebase-admin';
-import { uploadCourseBlob, isTelegramEnabled, getBlobStats } from '@/lib/storage/telegram-storage';
+import { uploadCourseBlob, isBlobStoreEnabled } from '@/lib/storage/blob-store';
+import { getBlobStats } from '@/lib/storage/telegram-storage';
 import { courseToBlob } from '@/lib/storage/course-converter';
 
 export async function POST(request: NextRequest) {
@@ -20,8 +21,8 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
-    if (!isTelegramEnabled()) {
-        return NextResponse.json({ error: 'Telegram not configured' }, { status: 500 });
+    if (!isBlobStoreEnabled()) {
+        return NextResponse.json({ error: 'Blob storage not configured' }, { status: 500 });
     }
 
     const { searchParams } = new URL(request.url);
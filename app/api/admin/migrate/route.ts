@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { initAdmin } from '@/lib/auth/firebase-admin';
 import { getFileFromDrive } from '@/lib/storage/google-drive';
 import { uploadToR2 } from '@/lib/storage/r2-storage';
-import { downloadCourseBlob, uploadCourseBlob, isTelegramEnabled } from '@/lib/storage/telegram-storage';
+import { downloadCourseBlob, uploadCourseBlob, isBlobStoreEnabled } from '@/lib/storage/blob-store';
 import { addToLocalRegistry, getFromLocalRegistry, markAsSynced } from '@/lib/cache/local-registry';
 import { updatePointerCache } from '@/lib/cache/pointer-cache';
 
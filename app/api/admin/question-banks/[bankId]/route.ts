@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { getQuestionBank, saveQuestionBank, deleteQuestionBank } from '@/lib/firebase/question-bank-operations';
+import { validateQuestionBank } from '@/lib/cms/question-bank';
+import type { QuestionBank } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: Promise<{ bankId: string }> };
+
+/**
+ * Bank ID and the optional ?courseId= (course bank) of a request
+ */
+async function resolve(request: NextRequest, params: Params['params']) {
+    const { bankId } = await params;
+    const courseId = request.nextUrl.searchParams.get('courseId') || undefined;
+    if (!validateCourseId(bankId) || (courseId && !validateCourseId(courseId))) {
+        return { response: NextResponse.json({ error: 'Invalid question bank or course ID' }, { status: 400 }) };
+    }
+    return { bankId, courseId };
+}
+
+/**
+ * GET /api/admin/question-banks/[bankId]?courseId=
+ * A bank with its answers (admin only)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const target = await resolve(request, params);
+        if ('response' in target) return target.response;
+
+        const bank = await getQuestionBank(target.bankId, target.courseId);
+        if (!bank) {
+            return NextResponse.json({ error: 'Question bank not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ bank });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to load question bank');
+    }
+}
+
+/**
+ * PUT /api/admin/question-banks/[bankId]?courseId=
+ * { bank } Create or replace a bank (admin only)
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const target = await resolve(request, params);
+        if ('response' in target) return target.response;
+
+        const body = await request.json().catch(() => ({}));
+        const invalid = validateQuestionBank(body.bank, target.bankId);
+        if (invalid) {
+            return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+
+        const { id, title, questions } = body.bank as QuestionBank;
+        const bank = await saveQuestionBank({
+            id,
+            title: title.trim(),
+            questions,
+            ...(target.courseId ? { courseId: target.courseId } : {}),
+        });
+
+        return NextResponse.json({ success: true, bank });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to save question bank');
+    }
+}
+
+/**
+ * DELETE /api/admin/question-banks/[bankId]?courseId=
+ * Quizzes drawing from it ask their other questions only (admin only)
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const target = await resolve(request, params);
+        if ('response' in target) return target.response;
+
+        const deleted = await deleteQuestionBank(target.bankId, target.courseId);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Question bank not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to delete question bank');
+    }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { listQuestionBanks } from '@/lib/firebase/question-bank-operations';
+import { summarizeQuestionBank } from '@/lib/cms/question-bank';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/question-banks?courseId=
+ * Global question banks, plus the course's own when courseId is given (admin only)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const courseId = request.nextUrl.searchParams.get('courseId');
+        if (courseId && !validateCourseId(courseId)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const [global, course] = await Promise.all([
+            listQuestionBanks(),
+            courseId ? listQuestionBanks(courseId) : Promise.resolve([]),
+        ]);
+
+        return NextResponse.json({ banks: [...course, ...global].map(summarizeQuestionBank) });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to list question banks');
+    }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { listPendingSchedules } from '@/lib/storage/course-schedule';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/schedules
+ * Pending publish/archive schedules for all courses, soonest first (admin only)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        return NextResponse.json({ schedules: await listPendingSchedules() });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to list schedules');
+    }
+}
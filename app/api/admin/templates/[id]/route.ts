@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { getTemplate, updateTemplate, deleteTemplate } from '@/lib/firebase/template-operations';
+import { validateTemplateContent } from '@/lib/cms/templates';
+import { syncLinkedTemplate } from '@/lib/storage/template-sync';
+
+export const dynamic = 'force-dynamic';
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/admin/templates/[id]
+ * Current version of a template (admin only)
+ */
+export async function GET(request: NextRequest, { params }: Params) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+        }
+
+        const template = await getTemplate(id);
+        if (!template) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ template });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to fetch template');
+    }
+}
+
+/**
+ * PUT /api/admin/templates/[id]
+ * Rename and/or save new content as the next version (admin only)
+ * New content of a linked snippet is pushed to every course draft using it.
+ */
+export async function PUT(request: NextRequest, { params }: Params) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+        }
+
+        const body = await request.json();
+        const { name, description, content } = body;
+
+        if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > 120)) {
+            return NextResponse.json({ error: 'Name must be 1-120 characters' }, { status: 400 });
+        }
+
+        if (content !== undefined) {
+            const contentError = validateTemplateContent(content);
+            if (contentError) {
+                return NextResponse.json({ error: contentError }, { status: 400 });
+            }
+        }
+
+        const before = await getTemplate(id);
+        if (!before) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        const template = await updateTemplate(id, {
+            ...(name !== undefined ? { name: name.trim() } : {}),
+            ...(typeof description === 'string' ? { description: description.trim() } : {}),
+            ...(content !== undefined ? { content } : {}),
+        }, authResult.user.id);
+        if (!template) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        const sync = template.version > before.version
+            ? await syncLinkedTemplate(template, authResult.user)
+            : { courseIds: [], failedCourseIds: [] };
+
+        return NextResponse.json({
+            success: true,
+            template,
+            syncedCourses: sync.courseIds,
+            failedCourses: sync.failedCourseIds,
+        });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to update template');
+    }
+}
+
+/**
+ * DELETE /api/admin/templates/[id]
+ * Linked snippets already inserted keep their cached content (admin only)
+ */
+export async function DELETE(request: NextRequest, { params }: Params) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+        }
+
+        const deleted = await deleteTemplate(id);
+        if (!deleted) {
+            return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to delete template');
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { listTemplateVersions } from '@/lib/firebase/template-operations';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/templates/[id]/versions
+ * Saved versions of a template, newest first (admin only)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+        }
+
+        const versions = await listTemplateVersions(id);
+        return NextResponse.json({ versions });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to list template versions');
+    }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { listTemplates, createTemplate } from '@/lib/firebase/template-operations';
+import { validateTemplateContent } from '@/lib/cms/templates';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/templates
+ * Template/snippet library, most recently updated first (admin only)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const templates = await listTemplates();
+        return NextResponse.json({ templates });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to list templates');
+    }
+}
+
+/**
+ * POST /api/admin/templates
+ * Save a selection or a whole lesson as a template (admin only)
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const body = await request.json();
+        const { name, description, kind, linked, content } = body;
+
+        if (!name || typeof name !== 'string' || name.trim().length > 120) {
+            return NextResponse.json({ error: 'Name is required (max 120 characters)' }, { status: 400 });
+        }
+
+        if (kind !== 'snippet' && kind !== 'lesson') {
+            return NextResponse.json({ error: 'Kind must be "snippet" or "lesson"' }, { status: 400 });
+        }
+
+        const contentError = validateTemplateContent(content);
+        if (contentError) {
+            return NextResponse.json({ error: contentError }, { status: 400 });
+        }
+
+        const template = await createTemplate({
+            name: name.trim(),
+            description: typeof description === 'string' ? description.trim() : undefined,
+            kind,
+            linked: linked === true,
+            content,
+        }, authResult.user.id);
+
+        return NextResponse.json({ success: true, template }, { status: 201 });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to create template');
+    }
+}
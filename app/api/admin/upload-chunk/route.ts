@@ -6,14 +6,24 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAuth } from '@/lib/api/auth-guard';
-import { initAdmin } from '@/lib/auth/firebase-admin';
-import {
-  uploadCourseBlob,
-  isTelegramEnabled,
-  getBlobStats,
-} from '@/lib/storage/telegram-storage';
+import { requireAuth, type User } from '@/lib/api/auth-guard';
+import { uploadCourseBlob, uploadCourseDelta, isBlobStoreEnabled } from '@/lib/storage/blob-store';
+import { getBlobStats } from '@/lib/storage/telegram-storage';
 import { courseToBlob } from '@/lib/storage/course-converter';
+import {
+  checkCourseVersions,
+  commitDraftPointer,
+  uploadCourseSplit,
+} from '@/lib/storage/course-storage';
+import { getDraftPointer, updatePointerCache } from '@/lib/cache/pointer-cache';
+import { getCourseVersions } from '@/lib/storage/course-versioning';
+import { staleDraftResponse, versionConflictResponse } from '@/lib/api/version-conflict';
+import { recordRevision } from '@/lib/storage/course-revisions';
+import { getPublishBlock } from '@/lib/storage/course-review';
+import { statusForReview } from '@/lib/cms/review';
+import { getAccessibilityBlockReason } from '@/lib/cms/accessibility';
+import { recordTemplateUsage } from '@/lib/firebase/template-operations';
+import type { Course } from '@/lib/types';
 import { gunzipSync } from 'zlib';
 
 // In-memory storage for pending uploads (cleared after 5 minutes)
@@ -63,7 +73,7 @@ export async function POST(request: NextRequest) {
       case 'chunk':
         return await handleChunk(request, searchParams);
       case 'complete':
-        return await handleComplete(searchParams);
+        return await handleComplete(searchParams, authResult.user);
       default:
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     }
@@ -146,7 +156,10 @@ async function handleChunk(
   });
 }
 
-async function handleComplete(params: URLSearchParams): Promise<NextResponse> {
+async function handleComplete(
+  params: URLSearchParams,
+  user: User
+): Promise<NextResponse> {
   const uploadId = params.get('uploadId');
 
   if (!uploadId) {
@@ -215,21 +228,37 @@ async function handleComplete(params: URLSearchParams): Promise<NextResponse> {
   // Clean up
   pendingUploads.delete(uploadId);
 
+  // 🔒 Optimistic locking applies to both checkpoint and publish
+  const versionCheck = await checkCourseVersions(upload.courseId, course);
+  if (!versionCheck.ok) {
+    return versionConflictResponse(versionCheck.conflict, versionCheck.current);
+  }
+  const checked = { base: versionCheck.base, incoming: course };
+  course = versionCheck.course;
+
   // Process based on operation
   if (upload.operation === 'checkpoint') {
-    return await processCheckpoint(upload.courseId, course);
+    return await processCheckpoint(upload.courseId, course, user, checked);
   } else {
-    return await processPublish(upload.courseId, course);
+    return await processPublish(upload.courseId, course, user, checked);
   }
 }
 
+// The draft the version check passed against, and the course as sent
+interface CheckedDraft {
+  base: string | null;
+  incoming: Course;
+}
+
 async function processCheckpoint(
   courseId: string,
-  course: any
+  course: any,
+  user: User,
+  checked: CheckedDraft
 ): Promise<NextResponse> {
-  if (!isTelegramEnabled()) {
+  if (!isBlobStoreEnabled()) {
     return NextResponse.json(
-      { error: 'Telegram not configured' },
+      { error: 'Blob storage not configured' },
       { status: 500 }
     );
   }
@@ -241,27 +270,26 @@ async function processCheckpoint(
     `⏱️ [Checkpoint] ${courseId}: ${stats.lessonCount} lessons, ${(stats.sizeBytes / 1024).toFixed(1)}KB`
   );
 
-  // Upload to Telegram
-  const { file_id, hash } = await uploadCourseBlob(courseId, blob);
+  // Upload to the blob store (delta against the previous draft)
+  const previousDraft = await getDraftPointer(courseId);
+  const { file_id, hash, uploadedChunks } = await uploadCourseDelta(
+    courseId,
+    blob,
+    previousDraft?.tg_file_id
+  );
   console.log(
-    `✅ [Telegram] ${courseId} uploaded → ${file_id.substring(0, 20)}...`
+    `✅ [Blob] ${courseId} uploaded → ${file_id.substring(0, 20)}... (${uploadedChunks} new chunks)`
   );
+  const structure_file_id = await uploadCourseSplit(courseId, blob, sections);
 
   // Try Firestore update (non-blocking)
   let firestoreUpdated = false;
   let draftVersion = 1;
 
   try {
-    const admin = initAdmin();
-    const db = admin.firestore();
-    const docRef = db.collection('courses').doc(courseId);
-
-    const existingDoc = await docRef.get();
-    const existingData = existingDoc.exists ? existingDoc.data() : {};
-    draftVersion = (existingData?.draft_snapshot?.version || 0) + 1;
-
-    await docRef.set(
-      {
+    const committed = await commitDraftPointer(courseId, checked.base, (existingData) => {
+      draftVersion = (existingData.draft_snapshot?.version || 0) + 1;
+      return {
         meta,
         sections,
         draft_snapshot: {
@@ -272,16 +300,42 @@ async function processCheckpoint(
           blockCount: stats.blockCount,
           savedAt: new Date().toISOString(),
           dirty: false,
+          structure_file_id,
         },
-        published: existingData?.published || null,
-        status: existingData?.published ? 'published' : 'draft',
+        published: existingData.published || null,
+        structure_version: blob.sv || 0,
+        status: statusForReview(existingData.review || null, !!existingData.published, existingData.status),
         updatedAt: new Date().toISOString(),
-      },
-      { merge: true }
-    );
+      };
+    });
+    if (!committed) {
+      return await staleDraftResponse(courseId, checked.incoming);
+    }
 
     firestoreUpdated = true;
+    updatePointerCache(courseId, 'draft', {
+      tg_file_id: file_id,
+      version: draftVersion,
+      hash,
+      meta,
+      sections,
+      structure_file_id: structure_file_id || undefined,
+    });
     console.log(`✅ [Firestore] ${courseId} → draft v${draftVersion}`);
+
+    // Linked snippets: remember where templates are used (best effort)
+    void recordTemplateUsage(courseId, course);
+
+    await recordRevision(courseId, {
+      kind: 'checkpoint',
+      blob,
+      meta,
+      sections,
+      file_id,
+      structure_file_id,
+      version: draftVersion,
+      author: user,
+    });
   } catch (error: any) {
     console.warn(`⚠️ [Firestore] Error:`, error?.message);
   }
@@ -293,20 +347,40 @@ async function processCheckpoint(
     lessonCount: stats.lessonCount,
     tg_file_id: file_id,
     firestore_updated: firestoreUpdated,
+    versions: getCourseVersions(course),
   });
 }
 
 async function processPublish(
   courseId: string,
-  course: any
+  course: any,
+  user: User,
+  checked: CheckedDraft
 ): Promise<NextResponse> {
-  if (!isTelegramEnabled()) {
+  if (!isBlobStoreEnabled()) {
     return NextResponse.json(
-      { error: 'Telegram not configured' },
+      { error: 'Blob storage not configured' },
       { status: 500 }
     );
   }
 
+  // 📝 Only approved drafts can go live
+  const reviewBlock = await getPublishBlock(courseId, course);
+  if (reviewBlock) {
+    return NextResponse.json(
+      { error: reviewBlock, code: 'REVIEW_REQUIRED' },
+      { status: 403 }
+    );
+  }
+
+  const a11yBlock = getAccessibilityBlockReason(course);
+  if (a11yBlock) {
+    return NextResponse.json(
+      { error: a11yBlock, code: 'ACCESSIBILITY_ERRORS' },
+      { status: 403 }
+    );
+  }
+
   const { blob, meta, sections } = courseToBlob(course);
   const stats = getBlobStats(blob);
 
@@ -314,23 +388,17 @@ async function processPublish(
     `📤 [Publish] ${courseId}: ${stats.lessonCount} lessons, ${(stats.sizeBytes / 1024).toFixed(1)}KB`
   );
 
-  // Upload to Telegram
+  // Upload to the blob store
   const { file_id, hash } = await uploadCourseBlob(courseId, blob);
-  console.log(`✅ [Telegram] ${courseId} published`);
+  console.log(`✅ [Blob] ${courseId} published`);
+  const structure_file_id = await uploadCourseSplit(courseId, blob, sections);
 
   // Update Firestore
   let version = 1;
   try {
-    const admin = initAdmin();
-    const db = admin.firestore();
-    const docRef = db.collection('courses').doc(courseId);
-
-    const existingDoc = await docRef.get();
-    const existingData = existingDoc.exists ? existingDoc.data() : {};
-    version = (existingData?.published?.version || 0) + 1;
-
-    await docRef.set(
-      {
+    const committed = await commitDraftPointer(courseId, checked.base, (existingData) => {
+      version = (existingData.published?.version || 0) + 1;
+      return {
         meta,
         sections,
         published: {
@@ -340,15 +408,49 @@ async function processPublish(
           lessonCount: stats.lessonCount,
           blockCount: stats.blockCount,
           publishedAt: new Date().toISOString(),
+          publishedBy: user.id,
+          structure_file_id,
         },
-        draft_snapshot: existingData?.draft_snapshot || null,
+        // Draft now matches what was published (keeps version checks consistent)
+        draft_snapshot: {
+          tg_file_id: file_id,
+          version,
+          hash,
+          dirty: false,
+          structure_file_id,
+        },
+        structure_version: blob.sv || 0,
         status: 'published',
+        review: null,
         updatedAt: new Date().toISOString(),
-      },
-      { merge: true }
-    );
+      };
+    });
+    if (!committed) {
+      return await staleDraftResponse(courseId, checked.incoming);
+    }
 
+    const pointer = {
+      tg_file_id: file_id,
+      version,
+      hash,
+      meta,
+      sections,
+      structure_file_id: structure_file_id || undefined,
+    };
+    updatePointerCache(courseId, 'published', pointer);
+    updatePointerCache(courseId, 'draft', pointer);
     console.log(`✅ [Firestore] ${courseId} published v${version}`);
+
+    await recordRevision(courseId, {
+      kind: 'publish',
+      blob,
+      meta,
+      sections,
+      file_id,
+      structure_file_id,
+      version,
+      author: user,
+    });
   } catch (error: any) {
     console.warn(`⚠️ [Firestore] Error:`, error?.message);
   }
@@ -359,5 +461,6 @@ async function processPublish(
     version,
     lessonCount: stats.lessonCount,
     tg_file_id: file_id,
+    versions: getCourseVersions(course),
   });
 }
@@ -3,9 +3,7 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import { indexCourse, retrieveContext } from '@/lib/ml/server';
 import { requireAuth, safeErrorResponse } from '@/lib/api/auth-guard';
 import { checkRateLimit, getClientIP, RateLimits } from '@/lib/api/rate-limit';
-import { initAdmin } from '@/lib/auth/firebase-admin';
-import { AI_MODELS, SUBSCRIPTION_TIERS, SubscriptionTier, checkAILimit } from '@/lib/constants/subscription';
-import { FieldValue } from 'firebase-admin/firestore';
+import { checkChatAllowance, recordAIUsage } from '@/lib/ai/usage';
 import { isAIEnabled, shouldBypassRateLimits, shouldUnlockAI } from '@/lib/admin/feature-flags';
 
 export const dynamic = 'force-dynamic';
@@ -13,14 +11,6 @@ export const dynamic = 'force-dynamic';
 const apiKey = process.env.GEMINI_API_KEY || '';
 const genAI = new GoogleGenerativeAI(apiKey);
 
-// Model mapping for tiers
-const TIER_MODELS = {
-    free: 'gemini-3-flash-preview',
-    basic: 'gemini-3-flash-preview',
-    mid: 'gemini-3-pro-preview', // Pro on request
-    pro: 'gemini-3-pro-preview', // Pro on request
-} as const;
-
 export async function POST(request: NextRequest) {
     try {
         // 🔧 Feature flag check
@@ -73,68 +63,22 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Message too long (max 5000 chars)' }, { status: 400 });
         }
 
-        // Get user's subscription tier and AI usage
-        const admin = initAdmin();
-        let userTier: SubscriptionTier = 'free';
-        let aiUsage = { proRequestsToday: 0, flashRequestsToday: 0, lastResetDate: '' };
-        let userRef: FirebaseFirestore.DocumentReference | null = null;
-
-        if (admin) {
-            const db = admin.firestore();
-            userRef = db.collection('users').doc(authResult.user.id);
-            const userDoc = await userRef.get();
-
-            if (userDoc.exists) {
-                const userData = userDoc.data();
-                userTier = userData?.subscription?.tier || 'free';
-                aiUsage = userData?.subscription?.aiUsage || aiUsage;
-
-                // Check if daily limits need to reset
-                const today = new Date().toISOString().split('T')[0];
-                if (aiUsage.lastResetDate !== today) {
-                    aiUsage = {
-                        proRequestsToday: 0,
-                        flashRequestsToday: 0,
-                        lastResetDate: today,
-                    };
-                }
-            }
-        }
-
-        // Determine model based on tier and mode
-        // Check if AI should be unlocked for all (promo/testing)
-        const unlockAI = await shouldUnlockAI(authResult.user.id);
-        const effectiveTier = unlockAI ? 'pro' : userTier;
-        let modelToUse = TIER_MODELS[effectiveTier];
-        let usingProModel = false;
-
-        // Check if user wants Pro model and has access
-        if (mode === 'deep' && (userTier === 'mid' || userTier === 'pro')) {
-            const proLimit = checkAILimit(userTier, aiUsage, 'pro');
-            if (proLimit.allowed) {
-                modelToUse = 'gemini-3-pro-preview'; // Use best available
-                usingProModel = true;
-            } else {
-                return NextResponse.json({
-                    error: `Daily Pro AI limit reached (${SUBSCRIPTION_TIERS[userTier].aiLimits.proRequestsPerDay}/day). Try again tomorrow or use standard mode.`,
-                    remaining: proLimit.remaining,
-                }, { status: 429 });
-            }
-        }
-
-        // Check Flash limits for non-pro tiers
-        if (!usingProModel && userTier !== 'mid' && userTier !== 'pro') {
-            const flashLimit = checkAILimit(userTier, aiUsage, 'flash');
-            if (!flashLimit.allowed) {
-                return NextResponse.json({
-                    error: `Daily AI limit reached (${SUBSCRIPTION_TIERS[userTier].aiLimits.flashRequestsPerDay}/day). Upgrade your plan for more requests.`,
-                    remaining: flashLimit.remaining,
-                    upgradeUrl: '/pricing',
-                }, { status: 429 });
-            }
+        // Pick the model within the user's daily allowance
+        // (AI may be unlocked for all as a promo/testing)
+        const allowance = await checkChatAllowance(authResult.user.id, {
+            deep: mode === 'deep',
+            unlocked: await shouldUnlockAI(authResult.user.id),
+        });
+        if (!allowance.allowed) {
+            return NextResponse.json({
+                error: allowance.error,
+                remaining: allowance.remaining,
+                upgradeUrl: allowance.upgradeUrl,
+            }, { status: 429 });
         }
+        const usingProModel = allowance.modelType === 'pro';
 
-        console.log(`🤖 User ${authResult.user.email} (${userTier}) using ${modelToUse}`);
+        console.log(`🤖 User ${authResult.user.email} (${allowance.tier}) using ${allowance.model}`);
 
         // 1. Index course for RAG
         await indexCourse(course);
@@ -143,23 +87,10 @@ export async function POST(request: NextRequest) {
         const context = await retrieveContext(userMessage, course.id, 3);
 
         // 3. Make AI call
-        const response = await callAI(userMessage, course, context, modelToUse, usingProModel);
+        const response = await callAI(userMessage, course, context, allowance.model, usingProModel);
 
         // 4. Update usage tracking
-        if (admin && userRef) {
-            try {
-                const usageUpdate = usingProModel
-                    ? { 'subscription.aiUsage.proRequestsToday': FieldValue.increment(1) }
-                    : { 'subscription.aiUsage.flashRequestsToday': FieldValue.increment(1) };
-
-                await userRef.update({
-                    ...usageUpdate,
-                    'subscription.aiUsage.lastResetDate': new Date().toISOString().split('T')[0],
-                });
-            } catch (e) {
-                console.log('Failed to update AI usage:', e);
-            }
-        }
+        await recordAIUsage(authResult.user.id, allowance.modelType);
 
         return response;
 
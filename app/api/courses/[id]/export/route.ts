@@ -0,0 +1,127 @@
+/**
+ * Offline Course Export
+ *
+ * GET /api/courses/[id]/export?format=zip
+ *
+ * Streams a self-contained HTML bundle of the published course (see
+ * lib/cms/offline-export.ts), watermarked for the requesting user.
+ * Requires the same access as the course itself (canAccessCourse).
+ * Only assets on the app or the R2 bucket are bundled; the rest stay online.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { requireAuth, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { getCourse, getPublishedCourse } from '@/lib/storage/course-storage';
+import { listCourseQuizzes } from '@/lib/storage/quiz-attempts';
+import { canUserAccessCourse } from '@/lib/api/course-access';
+import { buildOfflineBundle } from '@/lib/cms/offline-export';
+import { applyObjectTheming } from '@/lib/utils/content-theming';
+
+export const dynamic = 'force-dynamic';
+
+const ASSET_TIMEOUT_MS = 15000;
+
+/**
+ * Origins assets may be downloaded from: the app itself and the public R2
+ * bucket. Lessons can point anywhere, so other URLs stay online rather
+ * than letting the server fetch them (SSRF).
+ */
+function assetOrigins(appOrigin: string): Set<string> {
+    const origins = new Set([appOrigin]);
+    if (process.env.R2_PUBLIC_URL) {
+        try {
+            origins.add(new URL(process.env.R2_PUBLIC_URL).origin);
+        } catch {
+            console.warn('⚠️ [Export] R2_PUBLIC_URL is not a valid URL');
+        }
+    }
+    return origins;
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAuth(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const format = request.nextUrl.searchParams.get('format') || 'zip';
+        if (format !== 'zip') {
+            return NextResponse.json({ error: 'Unsupported format (expected zip)' }, { status: 400 });
+        }
+
+        const { user } = authResult;
+
+        // Students get the published version; admins may export a draft-only course
+        let course = await getPublishedCourse(id);
+        if (!course && user.role === 'admin') {
+            course = await getCourse(id);
+        }
+        if (!course) {
+            return NextResponse.json({ error: 'Course not found' }, { status: 404 });
+        }
+
+        if (!(await canUserAccessCourse(user, id, course))) {
+            console.warn(`⚠️ [Export] ${user.email} denied offline copy of ${id}`);
+            return NextResponse.json({ error: 'You do not have access to this course' }, { status: 403 });
+        }
+
+        const origin = request.nextUrl.origin;
+        // The configured app URL, not the Host header, decides what "our origin" is
+        const appOrigin = process.env.NEXT_PUBLIC_APP_URL ? new URL(process.env.NEXT_PUBLIC_APP_URL).origin : origin;
+        const allowedOrigins = assetOrigins(appOrigin);
+        const bundle = await buildOfflineBundle(applyObjectTheming(course), {
+            exportedFor: { id: user.id, email: user.email, name: user.name },
+            sourceUrl: `${origin}/class/${id}`,
+            quizzes: await listCourseQuizzes(id),
+            fetchAsset: async (src) => {
+                try {
+                    const url = new URL(src, appOrigin);
+                    if (!allowedOrigins.has(url.origin)) return null;
+
+                    // No redirects: they could lead anywhere
+                    const res = await fetch(url, {
+                        redirect: 'manual',
+                        signal: AbortSignal.timeout(ASSET_TIMEOUT_MS),
+                    });
+                    if (!res.ok) return null;
+                    return {
+                        data: Buffer.from(await res.arrayBuffer()),
+                        contentType: res.headers.get('content-type') || '',
+                    };
+                } catch {
+                    return null;
+                }
+            },
+        });
+
+        console.log(`📦 [Export] ${id} for ${user.email}: ${bundle.lessonCount} lessons, ${bundle.assetCount} assets` +
+            (bundle.missingAssets.length ? `, ${bundle.missingAssets.length} left online` : ''));
+
+        const stream = bundle.zip.generateNodeStream({
+            type: 'nodebuffer',
+            streamFiles: true,
+            compression: 'DEFLATE',
+        });
+
+        return new NextResponse(Readable.toWeb(Readable.from(stream)) as ReadableStream, {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="${id}-offline.zip"`,
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to export course');
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * Lesson Content API (cold)
+ *
+ * Returns one lesson with its content, loaded lazily when a student
+ * opens it. Clients pass ?v=<lesson version>, so versioned responses
+ * can be cached much longer than the structure.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCourseLesson } from '@/lib/server/fileOperations';
+import { safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId, validateLessonId } from '@/lib/api/validators';
+import { applyObjectTheming } from '@/lib/utils/content-theming';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/courses/[id]/lessons/[lessonId] - Public, like GET /api/courses/[id]
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; lessonId: string }> }
+) {
+  const { id, lessonId } = await params;
+
+  // 🔒 SECURITY: Validate ID formats
+  if (!validateCourseId(id) || !validateLessonId(lessonId)) {
+    return NextResponse.json({ error: 'Invalid course or lesson ID' }, { status: 400 });
+  }
+
+  try {
+    const lesson = await getCourseLesson(id, lessonId);
+
+    if (!lesson) {
+      return NextResponse.json({ error: 'Lesson not found' }, { status: 404 });
+    }
+
+    const isVersioned = new URL(request.url).searchParams.has('v');
+
+    // 🎮 Apply content theming (replace platform names with lore equivalents)
+    return NextResponse.json(applyObjectTheming(lesson), {
+      headers: {
+        'Cache-Control': isVersioned
+          ? 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=86400'
+          : 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 'Failed to fetch lesson');
+  }
+}
@@ -2,29 +2,22 @@
  * Publish Course API (Firestore-Resilient)
  *
  * Promotes draft snapshot to published state.
- * Only admins can publish.
+ * Only admins can publish, and only once a reviewer approved the draft.
  * Works with both Firestore and local registry courses.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api/auth-guard';
-import { initAdmin } from '@/lib/auth/firebase-admin';
+import { isBlobStoreEnabled } from '@/lib/storage/blob-store';
 import {
-  uploadCourseBlob,
-  isTelegramEnabled,
-  getBlobStats,
-} from '@/lib/storage/telegram-storage';
-import { courseToBlob } from '@/lib/storage/course-converter';
-import { getCourse } from '@/lib/storage/course-storage';
-import {
-  invalidatePointerCache,
-  updatePointerCache,
-} from '@/lib/cache/pointer-cache';
-import {
-  getFromLocalRegistry,
-  markAsSynced,
-  addToLocalRegistry,
-} from '@/lib/cache/local-registry';
+  getCourse,
+  checkCourseVersions,
+} from '@/lib/storage/course-storage';
+import { publishCourseContent } from '@/lib/storage/course-publish';
+import { getCourseVersions } from '@/lib/storage/course-versioning';
+import { staleDraftResponse, versionConflictResponse } from '@/lib/api/version-conflict';
+import { getPublishBlock } from '@/lib/storage/course-review';
+import { getAccessibilityBlockReason } from '@/lib/cms/accessibility';
 import { gunzipSync } from 'zlib';
 
 /**
@@ -82,16 +75,19 @@ export async function POST(
     // Fallback to getCourse for backward compatibility
     // Supports both gzip compressed and plain JSON
     let course: any;
+    let fromBody = false;
     try {
       const body = await parseRequestBody(request);
       // Body can be the course directly (from chunked upload) or wrapped in { course }
       if (body.lessons) {
         course = body;
+        fromBody = true;
         console.log(
           `📄 [Publish] Using course from request body (${course.lessons?.length} lessons)`
         );
       } else if (body.course && body.course.lessons) {
         course = body.course;
+        fromBody = true;
         console.log(
           `📄 [Publish] Using wrapped course from request body (${course.lessons?.length} lessons)`
         );
@@ -109,127 +105,55 @@ export async function POST(
       return NextResponse.json({ error: 'Course not found' }, { status: 404 });
     }
 
-    // Convert to blob format
-    const { blob, meta, sections } = courseToBlob(course);
-    const stats = getBlobStats(blob);
-
-    console.log(
-      `📤 [Publish] ${id} (${stats.lessonCount} lessons, ${(stats.sizeBytes / 1024).toFixed(1)}KB)`
-    );
+    // 🔒 Optimistic locking: editor content must be based on the current draft
+    const incoming = course;
+    let base: string | null | undefined;
+    if (fromBody) {
+      const versionCheck = await checkCourseVersions(id, course);
+      if (!versionCheck.ok) {
+        return versionConflictResponse(versionCheck.conflict, versionCheck.current);
+      }
+      course = versionCheck.course;
+      base = versionCheck.base;
+    }
 
-    // Upload to Telegram
-    if (!isTelegramEnabled()) {
+    // 📝 Only approved drafts can go live
+    const reviewBlock = await getPublishBlock(id, course);
+    if (reviewBlock) {
       return NextResponse.json(
-        { error: 'Telegram storage not configured' },
-        { status: 500 }
+        { error: reviewBlock, code: 'REVIEW_REQUIRED' },
+        { status: 403 }
       );
     }
 
-    const { file_id, hash } = await uploadCourseBlob(id, blob);
-    console.log(`✅ [Telegram] Published ${id} uploaded`);
-
-    // Try to update Firestore (with timeout, non-blocking)
-    let firestoreUpdated = false;
-    let version = 1;
-
-    const firestoreTimeout = new Promise<void>((_, reject) =>
-      setTimeout(() => reject(new Error('Firestore timeout')), 5000)
-    );
-
-    const firestoreUpdate = async () => {
-      const admin = initAdmin();
-      const db = admin.firestore();
-      const docRef = db.collection('courses').doc(id);
-
-      // Get current version
-      const docSnap = await docRef.get();
-      const currentData = docSnap.data() || {};
-      const currentVersion = currentData?.published?.version || 0;
-      version = currentVersion + 1;
-
-      // Use set with merge in case doc doesn't exist (local registry course)
-      await docRef.set(
-        {
-          meta,
-          sections,
-          published: {
-            tg_file_id: file_id,
-            version: version,
-            hash,
-            lessonCount: stats.lessonCount,
-            blockCount: stats.blockCount,
-            publishedAt: new Date().toISOString(),
-            publishedBy: user.id,
-          },
-          draft_snapshot: {
-            tg_file_id: file_id,
-            version: version,
-            hash,
-            dirty: false,
-          },
-          status: 'published',
-          isPublished: true,
-          updatedAt: new Date().toISOString(),
-          createdAt:
-            currentData?.createdAt ||
-            course.createdAt ||
-            new Date().toISOString(),
-        },
-        { merge: true }
+    const a11yBlock = getAccessibilityBlockReason(course);
+    if (a11yBlock) {
+      return NextResponse.json(
+        { error: a11yBlock, code: 'ACCESSIBILITY_ERRORS' },
+        { status: 403 }
       );
+    }
 
-      firestoreUpdated = true;
-    };
-
-    try {
-      await Promise.race([firestoreUpdate(), firestoreTimeout]);
-      console.log(`✅ [Firestore] ${id} published as version ${version}`);
-    } catch (firestoreError: any) {
-      if (firestoreError?.message === 'Firestore timeout') {
-        console.warn(`⚠️ [Firestore] Timeout - published to Telegram only`);
-      } else if (
-        firestoreError?.code === 8 ||
-        firestoreError?.message?.includes('RESOURCE_EXHAUSTED')
-      ) {
-        console.warn(
-          `⚠️ [Firestore] Quota exhausted - published to Telegram only`
-        );
-      } else {
-        console.warn(`⚠️ [Firestore] Error:`, firestoreError?.message);
-      }
-      // Continue - Telegram succeeded
+    if (!isBlobStoreEnabled()) {
+      return NextResponse.json(
+        { error: 'Blob storage not configured' },
+        { status: 500 }
+      );
     }
 
-    // Update pointer cache with new published version
-    try {
-      updatePointerCache(id, 'published', {
-        tg_file_id: file_id,
-        version: version,
-        hash,
-        meta: meta as any,
-        sections: sections,
-      });
-
-      // Update local registry with the PUBLISHED file_id (very important!)
-      // This ensures students can access the published content
-      const localEntry = await getFromLocalRegistry(id);
-      if (localEntry) {
-        // Update the file_id to the new published version
-        await addToLocalRegistry(id, file_id, meta as any, sections);
-        await markAsSynced(id);
-        console.log(`✅ [LocalRegistry] Updated ${id} with published file_id`);
-      }
-    } catch (cacheError) {
-      console.warn('⚠️ [Cache] Could not update:', cacheError);
+    const result = await publishCourseContent(id, course, user, base);
+    if (result.stale) {
+      return staleDraftResponse(id, incoming);
     }
 
     return NextResponse.json({
       success: true,
-      version: version,
-      hash,
-      lessonCount: stats.lessonCount,
-      blockCount: stats.blockCount,
-      firestore_updated: firestoreUpdated,
+      version: result.version,
+      hash: result.hash,
+      lessonCount: result.lessonCount,
+      blockCount: result.blockCount,
+      firestore_updated: result.firestoreUpdated,
+      versions: getCourseVersions(course),
     });
   } catch (error) {
     console.error('Publish API error:', error);
@@ -0,0 +1,77 @@
+/**
+ * Course Review API
+ *
+ * GET  /api/courses/[id]/review  - { review, status, threads }
+ * POST /api/courses/[id]/review  - { action: submit | approve | request_changes | withdraw, note? }
+ *
+ * Admin only. Publishing is blocked until a reviewer approves the draft.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { getCourseReview, updateCourseReview } from '@/lib/storage/course-review';
+import { listReviewThreads } from '@/lib/firebase/review-operations';
+import { REVIEW_ACTIONS, MAX_COMMENT_LENGTH, type ReviewAction } from '@/lib/cms/review';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const [info, threads] = await Promise.all([getCourseReview(id), listReviewThreads(id)]);
+        return NextResponse.json({
+            review: info?.review || null,
+            status: info?.status || 'draft',
+            threads,
+        });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to load review');
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const action = body.action as ReviewAction;
+        if (!REVIEW_ACTIONS.includes(action)) {
+            return NextResponse.json({ error: `action must be one of: ${REVIEW_ACTIONS.join(', ')}` }, { status: 400 });
+        }
+        const note = typeof body.note === 'string' ? body.note.trim().slice(0, MAX_COMMENT_LENGTH) : undefined;
+
+        const { user } = authResult;
+        const result = await updateCourseReview(id, action, { id: user.id, name: user.name }, note || undefined);
+        if ('error' in result) {
+            return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 409 });
+        }
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to update review');
+    }
+}
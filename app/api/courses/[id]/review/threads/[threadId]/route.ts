@@ -0,0 +1,80 @@
+/**
+ * Review Thread API
+ *
+ * POST   /api/courses/[id]/review/threads/[threadId]  - { action: reply, body } | { action: resolve | reopen }
+ * DELETE /api/courses/[id]/review/threads/[threadId]
+ *
+ * Admin only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { replyToThread, setThreadResolved, deleteReviewThread } from '@/lib/firebase/review-operations';
+import { isValidThreadId, MAX_COMMENT_LENGTH } from '@/lib/cms/review';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id, threadId } = await params;
+        if (!validateCourseId(id) || !isValidThreadId(threadId)) {
+            return NextResponse.json({ error: 'Invalid course or thread ID' }, { status: 400 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const { user } = authResult;
+        let thread;
+
+        if (body.action === 'reply') {
+            const text = typeof body.body === 'string' ? body.body.trim() : '';
+            if (!text || text.length > MAX_COMMENT_LENGTH) {
+                return NextResponse.json({ error: `Reply must be 1-${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+            }
+            thread = await replyToThread(id, threadId, text, { id: user.id, name: user.name });
+        } else if (body.action === 'resolve' || body.action === 'reopen') {
+            thread = await setThreadResolved(id, threadId, body.action === 'resolve', user.id);
+        } else {
+            return NextResponse.json({ error: 'action must be "reply", "resolve" or "reopen"' }, { status: 400 });
+        }
+
+        if (!thread) {
+            return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, thread });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to update comment');
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id, threadId } = await params;
+        if (!validateCourseId(id) || !isValidThreadId(threadId)) {
+            return NextResponse.json({ error: 'Invalid course or thread ID' }, { status: 400 });
+        }
+
+        if (!(await deleteReviewThread(id, threadId))) {
+            return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to delete comment');
+    }
+}
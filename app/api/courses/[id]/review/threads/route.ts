@@ -0,0 +1,57 @@
+/**
+ * Review Threads API
+ *
+ * POST /api/courses/[id]/review/threads  - { id, lessonId, quote, body }
+ *
+ * Admin only. The editor anchors the thread ID in the lesson content
+ * before saving the thread.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId, validateLessonId } from '@/lib/api/validators';
+import { createReviewThread } from '@/lib/firebase/review-operations';
+import { isValidThreadId, trimQuote, MAX_COMMENT_LENGTH } from '@/lib/cms/review';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        if (!isValidThreadId(body.id) || !validateLessonId(body.lessonId)) {
+            return NextResponse.json({ error: 'Provide a valid thread id and lessonId' }, { status: 400 });
+        }
+        const text = typeof body.body === 'string' ? body.body.trim() : '';
+        if (!text || text.length > MAX_COMMENT_LENGTH) {
+            return NextResponse.json({ error: `Comment must be 1-${MAX_COMMENT_LENGTH} characters` }, { status: 400 });
+        }
+
+        const { user } = authResult;
+        const thread = await createReviewThread(id, {
+            id: body.id,
+            lessonId: body.lessonId,
+            quote: trimQuote(typeof body.quote === 'string' ? body.quote : ''),
+            body: text,
+        }, { id: user.id, name: user.name });
+        if (!thread) {
+            return NextResponse.json({ error: 'Thread already exists' }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: true, thread });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to create comment');
+    }
+}
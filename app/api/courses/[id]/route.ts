@@ -3,11 +3,15 @@ import {
   getCourse,
   saveCourse,
   deleteCourse,
+  checkCourseVersions,
 } from '@/lib/server/fileOperations';
 import { Course } from '@/lib/types';
 import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
 import { validateCourseId } from '@/lib/api/validators';
 import { applyObjectTheming } from '@/lib/utils/content-theming';
+import { staleDraftResponse, versionConflictResponse } from '@/lib/api/version-conflict';
+import { getCourseVersions } from '@/lib/storage/course-versioning';
+import { stripCourseQuizzes } from '@/lib/cms/quiz';
 
 export const dynamic = 'force-dynamic';
 
@@ -31,7 +35,8 @@ export async function GET(
     }
 
     // 🎮 Apply content theming (replace platform names with lore equivalents)
-    const themedCourse = applyObjectTheming(course);
+    // 🔒 Quiz answers stay on the server (graded via /api/quiz/.../attempts)
+    const themedCourse = stripCourseQuizzes(applyObjectTheming(course));
 
     return NextResponse.json(themedCourse, {
       headers: {
@@ -83,7 +88,16 @@ export async function PUT(
     // Auto-calculate lessonsCount from lessons array
     course.lessonsCount = course.lessons?.length || 0;
 
-    const success = await saveCourse(id, course);
+    // 🔒 Optimistic locking: reject stale lesson/structure versions
+    const versionCheck = await checkCourseVersions(id, course);
+    if (!versionCheck.ok) {
+      return versionConflictResponse(versionCheck.conflict, versionCheck.current);
+    }
+
+    const success = await saveCourse(id, versionCheck.course, undefined, versionCheck.base);
+    if (success === 'stale') {
+      return staleDraftResponse(id, course);
+    }
 
     if (!success) {
       return NextResponse.json(
@@ -93,7 +107,11 @@ export async function PUT(
     }
 
     console.log(`✅ Admin ${authResult.user.email} updated course: ${id}`);
-    return NextResponse.json({ success: true, course });
+    return NextResponse.json({
+      success: true,
+      course: versionCheck.course,
+      versions: getCourseVersions(versionCheck.course),
+    });
   } catch (error) {
     return safeErrorResponse(error, 'Failed to save course');
   }
@@ -0,0 +1,110 @@
+/**
+ * Scheduled Publish / Archive API
+ *
+ * GET    /api/courses/[id]/schedule                 - pending schedules
+ * POST   /api/courses/[id]/schedule                 - { action, runAt }
+ * DELETE /api/courses/[id]/schedule?scheduleId=xxx  - cancel
+ *
+ * Admin only. Executed by /api/cron/course-schedules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { getCourse } from '@/lib/storage/course-storage';
+import {
+    createSchedule,
+    listPendingSchedules,
+    cancelSchedule,
+    SCHEDULE_ACTIONS,
+    ScheduleAction,
+} from '@/lib/storage/course-schedule';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        return NextResponse.json({ schedules: await listPendingSchedules(id) });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to list schedules');
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        if (!validateCourseId(id)) {
+            return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const action = body.action as ScheduleAction;
+        if (!SCHEDULE_ACTIONS.includes(action)) {
+            return NextResponse.json({ error: 'action must be "publish" or "archive"' }, { status: 400 });
+        }
+
+        const runAt = new Date(body.runAt);
+        if (isNaN(runAt.getTime())) {
+            return NextResponse.json({ error: 'Invalid runAt date' }, { status: 400 });
+        }
+        if (runAt.getTime() <= Date.now()) {
+            return NextResponse.json({ error: 'runAt must be in the future' }, { status: 400 });
+        }
+
+        const course = await getCourse(id);
+        if (!course) {
+            return NextResponse.json({ error: 'Course not found' }, { status: 404 });
+        }
+
+        const schedule = await createSchedule(id, course.title, action, runAt, authResult.user);
+        return NextResponse.json({ success: true, schedule });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to create schedule');
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { id } = await params;
+        const scheduleId = new URL(request.url).searchParams.get('scheduleId');
+        if (!validateCourseId(id) || !scheduleId) {
+            return NextResponse.json({ error: 'Provide a valid course ID and scheduleId' }, { status: 400 });
+        }
+
+        if (!(await cancelSchedule(id, scheduleId))) {
+            return NextResponse.json({ error: 'No pending schedule found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to cancel schedule');
+    }
+}
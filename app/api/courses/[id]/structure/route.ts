@@ -0,0 +1,46 @@
+/**
+ * Course Structure API (warm)
+ *
+ * Returns the course with lesson titles/order but NO lesson content.
+ * Content is fetched per lesson from /api/courses/[id]/lessons/[lessonId].
+ */
+
+import { NextResponse } from 'next/server';
+import { getCourseStructure } from '@/lib/server/fileOperations';
+import { safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId } from '@/lib/api/validators';
+import { applyObjectTheming } from '@/lib/utils/content-theming';
+import { stripCourseQuizzes } from '@/lib/cms/quiz';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/courses/[id]/structure - Public, like GET /api/courses/[id]
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  // 🔒 SECURITY: Validate course ID format
+  if (!validateCourseId(id)) {
+    return NextResponse.json({ error: 'Invalid course ID' }, { status: 400 });
+  }
+
+  try {
+    const course = await getCourseStructure(id);
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 });
+    }
+
+    // 🎮 Apply content theming (replace platform names with lore equivalents)
+    // 🔒 Quiz answers stay on the server (graded via /api/quiz/.../attempts)
+    return NextResponse.json(stripCourseQuizzes(applyObjectTheming(course)), {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    return safeErrorResponse(error, 'Failed to fetch course structure');
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Cron job to clean up orphaned uploads (R2, Drive, local)
+ *
+ * Triggered by Vercel Cron (see vercel.json); needs CRON_SECRET
+ * Mode via ASSET_GC_MODE: 'dry-run' | 'quarantine' (default) | 'delete'
+ * Grace period via ASSET_GC_GRACE_DAYS (default 7)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateCronRequest } from '@/lib/api/cron-auth';
+import { runAssetGc, DEFAULT_GRACE_DAYS } from '@/lib/storage/asset-gc';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+    // Only allow cron or authorized requests
+    if (!validateCronRequest(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const mode = process.env.ASSET_GC_MODE || 'quarantine';
+        const graceDays = Number(process.env.ASSET_GC_GRACE_DAYS) || DEFAULT_GRACE_DAYS;
+
+        const report = await runAssetGc({
+            dryRun: mode === 'dry-run',
+            action: mode === 'delete' ? 'delete' : 'quarantine',
+            graceDays,
+        });
+
+        return NextResponse.json({
+            status: report.aborted ? 'partial' : 'ok',
+            ...report,
+        });
+    } catch (error: any) {
+        console.error('❌ [Cron] Asset GC failed:', error);
+        return NextResponse.json({
+            status: 'error',
+            error: error?.message || 'Unknown error',
+        }, { status: 500 });
+    }
+}
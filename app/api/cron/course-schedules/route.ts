@@ -0,0 +1,36 @@
+/**
+ * Cron job to run scheduled course publishes/archives
+ *
+ * Triggered by Vercel Cron every 5 minutes (see vercel.json), so a
+ * schedule runs at most ~5 minutes after its runAt. Sub-daily crons need
+ * a Vercel Pro plan; see "Scheduled jobs" in the README for Hobby.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateCronRequest } from '@/lib/api/cron-auth';
+import { runDueSchedules } from '@/lib/storage/course-schedule';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+    // Only allow cron or authorized requests
+    if (!validateCronRequest(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const report = await runDueSchedules();
+
+        return NextResponse.json({
+            status: report.failed + report.timedOut > 0 ? 'partial' : 'ok',
+            ...report,
+        });
+    } catch (error: any) {
+        console.error('❌ [Cron] Course schedules failed:', error);
+        return NextResponse.json({
+            status: 'error',
+            error: error?.message || 'Unknown error',
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Quiz Attempts API
+ *
+ * GET  /api/quiz/[courseId]/[quizId]/attempts  - The student's attempts
+ * POST /api/quiz/[courseId]/[quizId]/attempts
+ *      {}                                       Start (or resume) an attempt:
+ *                                               returns the quiz without answers
+ *      { attemptId, answers, timings? }         Submit: graded on the server
+ *
+ * answers: { [questionId]: answer } (shape per question type, see QuizAnswer),
+ * timings: { [questionId]: seconds }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, safeErrorResponse, type User } from '@/lib/api/auth-guard';
+import { validateCourseId, validateLessonId } from '@/lib/api/validators';
+import { canUserAccessCourse } from '@/lib/api/course-access';
+import {
+    getCourseQuiz,
+    getStudentAttempts,
+    startQuizAttempt,
+    submitQuizAttempt,
+} from '@/lib/storage/quiz-attempts';
+import { attemptsRemaining } from '@/lib/cms/quiz';
+import { applyObjectTheming } from '@/lib/utils/content-theming';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ courseId: string; quizId: string }> };
+
+/**
+ * The quiz of a request, if the user may take it (same access as the course)
+ */
+async function resolve(params: RouteParams['params'], user: User) {
+    const { courseId, quizId } = await params;
+    if (!validateCourseId(courseId) || !validateLessonId(quizId)) {
+        return { response: NextResponse.json({ error: 'Invalid course or quiz ID' }, { status: 400 }) };
+    }
+
+    if (!(await canUserAccessCourse(user, courseId))) {
+        console.warn(`⚠️ [Quiz] ${user.email} denied ${courseId}/${quizId}`);
+        return { response: NextResponse.json({ error: 'You do not have access to this course' }, { status: 403 }) };
+    }
+
+    const quiz = await getCourseQuiz(courseId, quizId);
+    if (!quiz) {
+        return { response: NextResponse.json({ error: 'Quiz not found' }, { status: 404 }) };
+    }
+    return { courseId, quiz };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const authResult = await requireAuth(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const target = await resolve(params, authResult.user);
+        if ('response' in target) return target.response;
+
+        const attempts = await getStudentAttempts(target.courseId, target.quiz.id, authResult.user.id);
+        return NextResponse.json(
+            { attempts, attemptsRemaining: attemptsRemaining(target.quiz, attempts) },
+            { headers: { 'Cache-Control': 'private, no-store' } }
+        );
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to load attempts');
+    }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        const authResult = await requireAuth(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const target = await resolve(params, authResult.user);
+        if ('response' in target) return target.response;
+        const { courseId, quiz } = target;
+        const userId = authResult.user.id;
+
+        const body = await request.json().catch(() => ({}));
+
+        if (body.attemptId === undefined) {
+            const started = await startQuizAttempt(courseId, quiz, userId);
+            if ('error' in started) {
+                return NextResponse.json(
+                    { error: started.error, code: started.code },
+                    { status: started.code === 'MAX_ATTEMPTS' ? 403 : 409 }
+                );
+            }
+            // 🎮 Same content theming as the course itself
+            return NextResponse.json({ ...started, quiz: applyObjectTheming(started.quiz) });
+        }
+
+        if (typeof body.attemptId !== 'string' || !validateLessonId(body.attemptId)) {
+            return NextResponse.json({ error: 'Invalid attempt ID' }, { status: 400 });
+        }
+
+        const attempt = await submitQuizAttempt(courseId, quiz, body.attemptId, userId, body.answers, body.timings);
+        if (!attempt) {
+            return NextResponse.json({ error: 'Attempt not found or already submitted' }, { status: 409 });
+        }
+
+        const attempts = await getStudentAttempts(courseId, quiz.id, userId);
+        return NextResponse.json({ attempt, attemptsRemaining: attemptsRemaining(quiz, attempts) });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to save quiz attempt');
+    }
+}
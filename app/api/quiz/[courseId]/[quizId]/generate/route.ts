@@ -0,0 +1,84 @@
+/**
+ * Quiz Drafts API
+ *
+ * POST /api/quiz/[courseId]/[quizId]/generate - { lessonId, count }
+ * Draft questions written by Gemini from a lesson (admin only).
+ * Drafts are returned, not saved: the author accepts them in the editor.
+ * Counts against the author's daily AI allowance like any other AI call.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, safeErrorResponse } from '@/lib/api/auth-guard';
+import { checkRateLimit, RateLimits } from '@/lib/api/rate-limit';
+import { validateCourseId, validateLessonId } from '@/lib/api/validators';
+import { isAIEnabled } from '@/lib/admin/feature-flags';
+import { getCourseLesson } from '@/lib/server/fileOperations';
+import { generateQuestionDrafts, MAX_GENERATED_QUESTIONS } from '@/lib/ai/quiz-generation';
+import { checkAIAllowance, recordAIUsage } from '@/lib/ai/usage';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ courseId: string; quizId: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+    try {
+        if (!(await isAIEnabled())) {
+            return NextResponse.json(
+                { error: 'AI features are temporarily disabled for maintenance.' },
+                { status: 503 }
+            );
+        }
+
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const rateLimit = checkRateLimit(`ai-quiz:${authResult.user.id}`, RateLimits.AI);
+        if (!rateLimit.allowed) {
+            return NextResponse.json({ error: 'Too many requests. Please wait before trying again.' }, { status: 429 });
+        }
+
+        const { courseId, quizId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const lessonId = body.lessonId;
+        if (!validateCourseId(courseId) || !validateLessonId(quizId) || typeof lessonId !== 'string' || !validateLessonId(lessonId)) {
+            return NextResponse.json({ error: 'Invalid course, quiz or lesson ID' }, { status: 400 });
+        }
+
+        const count = Number(body.count ?? 5);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATED_QUESTIONS) {
+            return NextResponse.json({ error: `count must be 1-${MAX_GENERATED_QUESTIONS}` }, { status: 400 });
+        }
+
+        const lesson = await getCourseLesson(courseId, lessonId);
+        if (!lesson) {
+            return NextResponse.json({ error: 'Lesson not found' }, { status: 404 });
+        }
+        if (!lesson.tiptapJson) {
+            return NextResponse.json({ error: 'Lesson has no editor content to generate from' }, { status: 400 });
+        }
+
+        const allowance = await checkAIAllowance(authResult.user.id);
+        if (!allowance.allowed) {
+            return NextResponse.json({
+                error: allowance.error,
+                remaining: allowance.remaining,
+                upgradeUrl: allowance.upgradeUrl,
+            }, { status: 429 });
+        }
+
+        console.log(`🤖 [QuizDrafts] ${authResult.user.email} (${allowance.tier}) drafting ${count} for ${courseId}/${quizId} from ${lessonId}`);
+
+        const questions = await generateQuestionDrafts(lesson.tiptapJson, courseId, { count, model: allowance.model });
+        await recordAIUsage(authResult.user.id, allowance.modelType);
+
+        if (questions.length === 0) {
+            return NextResponse.json({ error: 'No usable questions were generated. Try again.' }, { status: 502 });
+        }
+
+        return NextResponse.json({ questions });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to generate questions');
+    }
+}
@@ -0,0 +1,86 @@
+/**
+ * Quiz API
+ *
+ * GET /api/quiz/[courseId]/[quizId]  - Admins: the full quiz (editor)
+ *                                      Students: summary + their attempts
+ * PUT /api/quiz/[courseId]/[quizId]  - { quiz } Save the quiz (admin only)
+ *
+ * Answers only ever go to admins; students are graded through
+ * /api/quiz/[courseId]/[quizId]/attempts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, requireAuth, safeErrorResponse } from '@/lib/api/auth-guard';
+import { validateCourseId, validateLessonId } from '@/lib/api/validators';
+import { canUserAccessCourse } from '@/lib/api/course-access';
+import { saveQuiz } from '@/lib/firebase/quiz-operations';
+import { getCourseQuiz, getStudentAttempts } from '@/lib/storage/quiz-attempts';
+import { attemptsRemaining, summarizeQuiz, validateQuiz } from '@/lib/cms/quiz';
+import type { Quiz } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+type RouteParams = { params: Promise<{ courseId: string; quizId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+    try {
+        const authResult = await requireAuth(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { courseId, quizId } = await params;
+        if (!validateCourseId(courseId) || !validateLessonId(quizId)) {
+            return NextResponse.json({ error: 'Invalid course or quiz ID' }, { status: 400 });
+        }
+
+        const quiz = await getCourseQuiz(courseId, quizId);
+        if (!quiz) {
+            return NextResponse.json({ error: 'Quiz not found' }, { status: 404 });
+        }
+
+        const headers = { 'Cache-Control': 'private, no-store' };
+        if (authResult.user.role === 'admin') {
+            return NextResponse.json({ quiz }, { headers });
+        }
+
+        if (!(await canUserAccessCourse(authResult.user, courseId))) {
+            return NextResponse.json({ error: 'You do not have access to this course' }, { status: 403 });
+        }
+
+        const attempts = await getStudentAttempts(courseId, quizId, authResult.user.id);
+        return NextResponse.json({
+            quiz: summarizeQuiz(quiz),
+            attempts,
+            attemptsRemaining: attemptsRemaining(quiz, attempts),
+        }, { headers });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to load quiz');
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    try {
+        const authResult = await requireAdmin(request);
+        if (!authResult.authenticated) {
+            return authResult.response;
+        }
+
+        const { courseId, quizId } = await params;
+        if (!validateCourseId(courseId) || !validateLessonId(quizId)) {
+            return NextResponse.json({ error: 'Invalid course or quiz ID' }, { status: 400 });
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const invalid = validateQuiz(body.quiz, quizId);
+        if (invalid) {
+            return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+
+        const quiz = body.quiz as Quiz;
+        await saveQuiz(courseId, quiz);
+        return NextResponse.json({ success: true, quiz });
+    } catch (error) {
+        return safeErrorResponse(error, 'Failed to save quiz');
+    }
+}
@@ -8,10 +8,10 @@ import { hybridStorage } from "@/lib/storage/hybrid-storage";
 import { useAuth } from "@/components/auth/AuthContext";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
-import { CheckCircle, ChevronLeft, ChevronDown, ChevronUp, List, PanelLeftClose, PanelLeftOpen, Home, Compass, BookOpen, Settings } from "lucide-react";
+import { CheckCircle, ChevronLeft, ChevronDown, ChevronUp, List, PanelLeftClose, PanelLeftOpen, Home, Compass, BookOpen, Settings, Download, RefreshCw } from "lucide-react";
 import Link from "next/link";
 import { useState, useEffect } from "react";
-import { useCourse } from "@/lib/hooks/useCourse";
+import { useCachedCourse } from "@/hooks/useCachedCourse";
 import { CourseChatBot } from "@/components/ai/CourseChatBot";
 import { SkeletonCourseContent, SkeletonLessonList } from "@/components/ui/Skeleton";
 import { MiniNavRail } from "@/components/layout/MiniNavRail";
@@ -23,7 +23,8 @@ export default function ClassPage() {
 
     const courseId = params.id as string;
 
-    const { course, isLoading } = useCourse(courseId);
+    // Structure first, lesson content fetched lazily as lessons are opened
+    const { course, loading: isLoading, loadLesson, isLessonLoaded, lessonError } = useCachedCourse(courseId);
     const [completedLessons, setCompletedLessons] = useState<string[]>([]);
     const [isChatSidebarOpen, setIsChatSidebarOpen] = useState(false);
     const [isLessonListOpen, setIsLessonListOpen] = useState(false);
@@ -55,6 +56,12 @@ export default function ClassPage() {
     const activeLessonId = searchParams.get("lesson");
     const activeLesson = course?.lessons.find((l: Lesson) => l.id === activeLessonId) || course?.lessons[0];
 
+    useEffect(() => {
+        if (activeLesson?.id) {
+            loadLesson(activeLesson.id);
+        }
+    }, [activeLesson?.id, loadLesson]);
+
     // Loading state - fullscreen
     if (isLoading) {
         return (
@@ -185,7 +192,21 @@ export default function ClassPage() {
                     "flex-1 min-w-0 overflow-y-auto bg-white dark:bg-zinc-950 transition-all duration-300",
                     isChatSidebarOpen ? "lg:mr-[400px]" : "mr-0"
                 )}>
-                    {activeLesson ? (
+                    {activeLesson && lessonError(activeLesson.id) ? (
+                        <div className="h-full flex flex-col items-center justify-center gap-4 text-center px-6">
+                            <p className="text-neutral-600 dark:text-neutral-400">
+                                This lesson could not be loaded. Check your connection and try again.
+                            </p>
+                            <button
+                                onClick={() => loadLesson(activeLesson.id)}
+                                className="flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg transition-colors"
+                            >
+                                <RefreshCw className="w-4 h-4" /> Retry
+                            </button>
+                        </div>
+                    ) : activeLesson && !isLessonLoaded(activeLesson.id) ? (
+                        <SkeletonCourseContent />
+                    ) : activeLesson ? (
                         <MaterialViewer
                             lesson={activeLesson}
                             isCompleted={isCompleted(activeLesson.id)}
@@ -221,6 +242,13 @@ export default function ClassPage() {
                             </div>
                             <span className="text-xs text-neutral-500 dark:text-zinc-500">{hybridStorage.progress.getCourseProgress(courseId)}%</span>
                         </div>
+                        <a
+                            href={`/api/courses/${courseId}/export?format=zip`}
+                            download
+                            className="mt-3 text-xs text-neutral-500 dark:text-zinc-500 hover:text-neutral-900 dark:hover:text-white flex items-center transition-colors"
+                        >
+                            <Download className="w-3 h-3 mr-1" /> Download offline copy
+                        </a>
                     </div>
 
                     {/* Syllabus - scrollable with hidden scrollbar */}
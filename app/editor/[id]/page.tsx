@@ -12,8 +12,9 @@ import {
   GripVertical,
   Trash2,
   FolderOpen,
+  History,
 } from 'lucide-react';
-import { useState, useEffect, useRef, use } from 'react';
+import { useState, useEffect, useRef, use, useCallback, useMemo } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
@@ -25,14 +26,41 @@ import { CourseSettings } from '@/components/cms/CourseSettings';
 import { FluidEditor, FluidEditorRef } from '@/components/cms/FluidEditor';
 import { FluidEditorSidebar } from '@/components/cms/FluidEditorSidebar';
 import { MobileEditorToolbar } from '@/components/cms/MobileEditorToolbar';
+import { VersionConflictModal } from '@/components/cms/VersionConflictModal';
+import { RevisionHistoryModal } from '@/components/cms/RevisionHistoryModal';
+import { FindReplaceModal } from '@/components/cms/FindReplace';
 import {
   serializeToComponents,
   deserializeFromComponents,
 } from '@/lib/cms/serialization';
-import { fetchCourse, updateCourse, publishCourse } from '@/lib/api/courseApi';
+import {
+  fetchCourse,
+  fetchServerCourse,
+  updateCourse,
+  publishCourse,
+} from '@/lib/api/courseApi';
 import { CourseSyllabus } from '@/components/course/CourseSyllabus';
+import {
+  DRAFT_CONFLICT_EVENT,
+  DRAFT_VERSIONS_EVENT,
+  applyDraftVersions,
+  markDraftSynced,
+} from '@/lib/cache/draft-cache';
+import { useAuth } from '@/components/auth/AuthContext';
+import { colorForUser, type CollabUser } from '@/lib/cms/collaboration';
+import {
+  CourseVersions,
+  VersionConflictResponse,
+  applyCourseVersions,
+  mergeCourseVersions,
+} from '@/lib/storage/course-versioning';
 // saveCourseMetadata removed - now using Telegram storage
 import { createComponent } from '@/lib/cms/registry';
+import {
+  findInLessons,
+  replaceInLessons,
+  type FindOptions,
+} from '@/lib/cms/find-replace';
 
 const TopBar = ({
   onSave,
@@ -42,6 +70,7 @@ const TopBar = ({
   activeView,
   onViewChange,
   isPublished,
+  onHistory,
 }: {
   onSave: () => void;
   isSaving: boolean;
@@ -50,6 +79,7 @@ const TopBar = ({
   activeView: 'content' | 'settings' | 'sections';
   onViewChange: (view: 'content' | 'settings' | 'sections') => void;
   isPublished: boolean;
+  onHistory: () => void;
 }) => (
   <header className="h-12 md:h-14 bg-zinc-950 border-b border-zinc-800 flex items-center justify-between px-2 md:px-4 shrink-0">
     <div className="flex items-center space-x-2 md:space-x-3">
@@ -94,6 +124,14 @@ const TopBar = ({
         <Eye size={18} />
       </button>
 
+      <button
+        onClick={onHistory}
+        className="text-zinc-400 hover:text-white transition-colors p-1.5 rounded"
+        title="Revision History"
+      >
+        <History size={18} />
+      </button>
+
       <button
         onClick={onSave}
         disabled={isSaving}
@@ -173,12 +211,29 @@ export default function CourseEditorPage({
     import('@tiptap/react').Editor | null
   >(null);
   const [sidebarOpen, setSidebarOpen] = useState(false); // Hidden on mobile by default
+  const [versionConflict, setVersionConflict] =
+    useState<VersionConflictResponse | null>(null);
+  const [contentRevision, setContentRevision] = useState(0); // Bump to re-mount FluidEditor
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [findReplaceOpen, setFindReplaceOpen] = useState(false);
+  const [replaceUndo, setReplaceUndo] = useState<Lesson[] | null>(null); // Lessons changed by the last replace, as they were before
+  const dirtyLessonIdsRef = useRef<Set<string>>(new Set()); // Lessons edited since last successful save
   const inlineInputRef = useRef<HTMLTextAreaElement>(null);
   const fluidEditorRef = useRef<FluidEditorRef>(null);
   const _saveTimeoutRef = useRef<NodeJS.Timeout | null>(null); // eslint-disable-line @typescript-eslint/no-unused-vars
   const idCounterRef = useRef(0);
   const _addMenuRef = useRef<HTMLDivElement>(null); // eslint-disable-line @typescript-eslint/no-unused-vars
   const lessonDropdownRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+
+  // Presence identity for real-time co-authoring
+  const collabUser = useMemo<CollabUser | undefined>(
+    () =>
+      user
+        ? { id: user.id, name: user.name || user.email, color: colorForUser(user.id) }
+        : undefined,
+    [user]
+  );
 
   // Load course from API
   useEffect(() => {
@@ -225,6 +280,53 @@ export default function CourseEditorPage({
     );
   }, []);
 
+  // Adopt server-assigned versions and surface conflicts from background checkpoints
+  useEffect(() => {
+    const handleVersions = (event: Event) => {
+      const { courseId: id, versions } = (
+        event as CustomEvent<{ courseId: string; versions: CourseVersions }>
+      ).detail;
+      if (id !== courseId) return;
+      setLessons((prev) =>
+        applyCourseVersions({ lessons: prev } as Course, versions).lessons
+      );
+      setCourse((prev) =>
+        prev ? { ...prev, structureVersion: versions.structureVersion } : prev
+      );
+    };
+    const handleConflict = (event: Event) => {
+      const { courseId: id, conflict } = (
+        event as CustomEvent<{
+          courseId: string;
+          conflict: VersionConflictResponse;
+        }>
+      ).detail;
+      if (id === courseId) setVersionConflict(conflict);
+    };
+
+    window.addEventListener(DRAFT_VERSIONS_EVENT, handleVersions);
+    window.addEventListener(DRAFT_CONFLICT_EVENT, handleConflict);
+    return () => {
+      window.removeEventListener(DRAFT_VERSIONS_EVENT, handleVersions);
+      window.removeEventListener(DRAFT_CONFLICT_EVENT, handleConflict);
+    };
+  }, [courseId]);
+
+  // A co-author's checkpoint bumped the lesson we are both editing:
+  // adopt its version so our next checkpoint doesn't report a conflict
+  const editingLessonId =
+    editingIndex !== null ? lessons[editingIndex]?.id : undefined;
+  const handleRemoteLessonVersion = useCallback(
+    (version: number) => {
+      if (!editingLessonId) return;
+      applyDraftVersions(courseId, {
+        structureVersion: course?.structureVersion || 0,
+        lessons: { [editingLessonId]: version },
+      });
+    },
+    [courseId, course?.structureVersion, editingLessonId]
+  );
+
   // Sync editingIndex to URL when lesson changes (without adding history entries)
   useEffect(() => {
     if (editingIndex !== null && editingIndex !== initialLessonIndex) {
@@ -398,16 +500,18 @@ export default function CourseEditorPage({
       };
 
       // Publish to Telegram (explicit action)
-      const success = await publishCourse(courseId, updatedCourse);
+      const result = await publishCourse(courseId, updatedCourse);
 
-      if (success) {
+      if (result.success) {
         setIsPublished(true);
+        dirtyLessonIdsRef.current.clear();
         console.log('✅ Course published to Telegram');
       } else {
-        console.error('❌ Publish failed');
+        setVersionConflict(result.conflict);
       }
     } catch (error) {
       console.error('❌ Publish error:', error);
+      alert(error instanceof Error ? error.message : 'Publish failed');
     } finally {
       setIsSaving(false);
     }
@@ -432,6 +536,7 @@ export default function CourseEditorPage({
     updates: Partial<Lesson>
   ) => {
     setIsSaving(true); // Show saving state
+    dirtyLessonIdsRef.current.add(lessons[index].id);
     const updated = [...lessons];
     updated[index] = { ...updated[index], ...updates };
     setLessons(updated);
@@ -447,8 +552,66 @@ export default function CourseEditorPage({
     setIsSaving(false); // Hide saving state
   };
 
+  const handleRequireAccessibleContent = (required: boolean) => {
+    const updatedCourse = {
+      ...course,
+      title: courseTitle,
+      description: courseDescription,
+      lessons,
+      requireAccessibleContent: required,
+    };
+    setCourse(updatedCourse);
+    updateCourse(courseId, updatedCourse);
+  };
+
+  // Apply a whole-course lesson edit (find & replace, or its undo) as one draft change
+  const applyLessonsEdit = (updated: Lesson[], changedLessonIds: string[]) => {
+    changedLessonIds.forEach((id) => dirtyLessonIdsRef.current.add(id));
+    setLessons(updated);
+    setContentRevision((r) => r + 1); // The open lesson may have changed
+    updateCourse(courseId, {
+      ...course,
+      title: courseTitle,
+      description: courseDescription,
+      lessons: updated,
+    });
+  };
+
+  const handleReplaceAll = (
+    options: FindOptions,
+    replacement: string,
+    matchIds: string[]
+  ) => {
+    const result = replaceInLessons(
+      lessons,
+      options,
+      replacement,
+      new Set(matchIds)
+    );
+    if ('error' in result) throw new Error(result.error);
+    if (result.count > 0) {
+      setReplaceUndo(
+        lessons.filter((l) => result.changedLessonIds.includes(l.id))
+      );
+      applyLessonsEdit(result.lessons, result.changedLessonIds);
+    }
+    return result.count;
+  };
+
+  const handleUndoReplace = () => {
+    if (!replaceUndo) return;
+    const previous = new Map(replaceUndo.map((l) => [l.id, l]));
+    const restored = lessons.map((l) => previous.get(l.id) || l);
+    applyLessonsEdit(
+      restored,
+      restored.filter((l, i) => l !== lessons[i]).map((l) => l.id)
+    );
+    setReplaceUndo(null);
+  };
+
   const handleDeleteLesson = (index: number) => {
     if (confirm('Delete this lesson?')) {
+      dirtyLessonIdsRef.current.add(lessons[index].id);
       const newLessons = lessons.filter((_, i) => i !== index);
       setLessons(newLessons);
       setEditingIndex(newLessons.length > 0 ? 0 : null);
@@ -530,6 +693,70 @@ export default function CourseEditorPage({
     return deserializeFromComponents(components);
   };
 
+  // Version conflict: keep locally edited lessons, take the rest from the server
+  const handleMergeConflict = () => {
+    if (!versionConflict) return;
+    const merged = mergeCourseVersions(
+      {
+        ...course,
+        title: courseTitle,
+        description: courseDescription,
+        lessons,
+        sections,
+      },
+      versionConflict.current,
+      dirtyLessonIdsRef.current
+    );
+
+    setCourse(merged);
+    setLessons(merged.lessons);
+    setSections(merged.sections || []);
+    if (editingIndex !== null && editingIndex >= merged.lessons.length) {
+      setEditingIndex(merged.lessons.length > 0 ? 0 : null);
+    }
+    setContentRevision((r) => r + 1);
+    setVersionConflict(null);
+    updateCourse(courseId, merged);
+  };
+
+  // Replace local state (and the local draft cache) with a server copy
+  const loadServerCourse = async (serverCourse: Course) => {
+    setCourse(serverCourse);
+    setLessons(serverCourse.lessons || []);
+    setSections(serverCourse.sections || []);
+    setCourseTitle(serverCourse.title);
+    setCourseDescription(serverCourse.description);
+    setCourseThumbnail(serverCourse.thumbnail || '');
+    setCourseAuthor(serverCourse.instructor || '');
+    setCourseAuthorAvatar(serverCourse.instructorAvatar || '');
+    setCourseCategory(serverCourse.category || 'Uncategorized');
+    setCourseLevel(serverCourse.level || 'beginner');
+    if (
+      editingIndex !== null &&
+      editingIndex >= (serverCourse.lessons || []).length
+    ) {
+      setEditingIndex(serverCourse.lessons?.length ? 0 : null);
+    }
+    setContentRevision((r) => r + 1);
+    dirtyLessonIdsRef.current.clear();
+
+    await updateCourse(courseId, serverCourse);
+    await markDraftSynced(courseId);
+  };
+
+  // Version conflict: discard local changes and load the server copy
+  const handleReloadConflict = async () => {
+    if (!versionConflict) return;
+    setVersionConflict(null);
+    await loadServerCourse(versionConflict.current);
+  };
+
+  // Revision restored as the new draft: reload it from the server
+  const handleRevisionRestored = async () => {
+    const serverCourse = await fetchServerCourse(courseId);
+    if (serverCourse) await loadServerCourse(serverCourse);
+  };
+
   // Context menu handlers
   const handleDuplicateComponent = (component: Component) => {
     if (editingIndex === null) return;
@@ -600,6 +827,7 @@ export default function CourseEditorPage({
         activeView={activeView}
         onViewChange={setActiveView}
         isPublished={isPublished}
+        onHistory={() => setHistoryOpen(true)}
       />
 
       <div className="flex-1 flex overflow-hidden">
@@ -800,7 +1028,7 @@ export default function CourseEditorPage({
               <div className="min-h-[300px]">
                 <FluidEditor
                   ref={fluidEditorRef}
-                  key={editingIndex} // Re-mount when switching lessons
+                  key={`${editingIndex}-${contentRevision}`} // Re-mount when switching lessons or after merge/reload
                   initialContent={getFluidEditorInitialContent()}
                   onUpdate={handleFluidEditorUpdate}
                   onEditorReady={setFluidEditor}
@@ -810,6 +1038,10 @@ export default function CourseEditorPage({
                   // Per-block native saves
                   courseId={courseId}
                   lessonId={currentLesson?.id}
+                  // Real-time co-authoring (when a relay is configured)
+                  collabUser={collabUser}
+                  lessonVersion={currentLesson?.version}
+                  onRemoteLessonVersion={handleRemoteLessonVersion}
                 />
                 {/* Mobile Inline Toolbar */}
                 <MobileEditorToolbar editor={fluidEditor} />
@@ -834,6 +1066,8 @@ export default function CourseEditorPage({
               createdAt={course.createdAt}
               lastModified={new Date().toISOString()}
               isPublished={isPublished}
+              requireAccessibleContent={course.requireAccessibleContent}
+              onRequireAccessibleContentChange={handleRequireAccessibleContent}
             />
           ) : (
             /* Sections Tab */
@@ -1184,6 +1418,9 @@ export default function CourseEditorPage({
               <FluidEditorSidebar
                 editor={fluidEditor}
                 onInsertComponent={handleAddComponent}
+                courseId={courseId}
+                lessonId={currentLesson?.id}
+                onOpenFindReplace={() => setFindReplaceOpen(true)}
               />
             ) : (
               <div className="h-full bg-zinc-950 border-l border-zinc-800 flex flex-col">
@@ -1216,6 +1453,29 @@ export default function CourseEditorPage({
         )}
       </div>
 
+      <VersionConflictModal
+        conflict={versionConflict}
+        onMerge={handleMergeConflict}
+        onReload={handleReloadConflict}
+        onClose={() => setVersionConflict(null)}
+      />
+
+      <RevisionHistoryModal
+        courseId={courseId}
+        open={historyOpen}
+        onClose={() => setHistoryOpen(false)}
+        onRestored={handleRevisionRestored}
+      />
+
+      <FindReplaceModal
+        open={findReplaceOpen}
+        onClose={() => setFindReplaceOpen(false)}
+        onSearch={(options) => findInLessons(lessons, options)}
+        onReplace={handleReplaceAll}
+        onUndo={handleUndoReplace}
+        canUndo={!!replaceUndo}
+      />
+
       {/* Context Menu */}
       {contextMenu &&
         (() => {
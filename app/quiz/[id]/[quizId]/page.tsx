@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { Quiz } from "@/lib/types";
-import { useCourse } from "@/lib/hooks/useCourse";
+import { useQuizAttempt } from "@/lib/hooks/useQuizAttempt";
+import { QuestionInput } from "@/components/quiz/QuestionInput";
+import { passingScoreOf, type QuizAnswer } from "@/lib/cms/quiz";
 import { ArrowLeft, Loader2, Clock, ChevronLeft, ChevronRight, Check, X, RotateCcw } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -13,53 +14,34 @@ export default function StudentQuizPage() {
     const courseId = params?.id as string;
     const quizId = params?.quizId as string;
 
-    const { course, isLoading } = useCourse(courseId);
-    const [quiz, setQuiz] = useState<Quiz | null>(null);
-
-    // Quiz state
+    // Questions come without answers; grading happens on the server
+    const {
+        quiz,
+        result,
+        answers,
+        attemptsRemaining,
+        timeRemaining,
+        error,
+        isLoading,
+        isSubmitting,
+        start,
+        submit,
+        selectAnswer: pickAnswer,
+        showQuestion,
+    } = useQuizAttempt(courseId, quizId);
     const [currentIndex, setCurrentIndex] = useState(0);
-    const [answers, setAnswers] = useState<Record<string, number | null>>({});
-    const [submitted, setSubmitted] = useState(false);
-    const [showResults, setShowResults] = useState(false);
-    const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
-    const [questions, setQuestions] = useState<Quiz['questions']>([]);
-
-    const passingScore = 75;
 
-    // Find quiz in course
+    // Start (or resume) an attempt on open
     useEffect(() => {
-        if (course?.quizzes) {
-            const found = course.quizzes.find(q => q.id === quizId);
-            if (found) {
-                setQuiz(found);
-                // Shuffle questions if needed
-                const qs = found.shuffleQuestions
-                    ? [...found.questions].sort(() => Math.random() - 0.5)
-                    : found.questions;
-                setQuestions(qs);
-                setTimeRemaining(found.timeLimit ? found.timeLimit * 60 : null);
-            }
-        }
-    }, [course, quizId]);
+        if (courseId && quizId) start();
+    }, [courseId, quizId, start]);
+
+    const questions = quiz?.questions || [];
+    const currentQuestion = questions[currentIndex];
 
-    // Timer
     useEffect(() => {
-        if (timeRemaining === null || submitted) return;
-
-        const interval = setInterval(() => {
-            setTimeRemaining(prev => {
-                if (prev === null) return null;
-                if (prev <= 1) {
-                    clearInterval(interval);
-                    handleSubmit();
-                    return 0;
-                }
-                return prev - 1;
-            });
-        }, 1000);
-
-        return () => clearInterval(interval);
-    }, [timeRemaining, submitted]);
+        if (currentQuestion && !result) showQuestion(currentQuestion.id);
+    }, [currentQuestion, result, showQuestion]);
 
     const formatTime = (seconds: number) => {
         const mins = Math.floor(seconds / 60);
@@ -67,11 +49,9 @@ export default function StudentQuizPage() {
         return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
     };
 
-    const currentQuestion = questions[currentIndex];
-
-    const selectAnswer = (optionIndex: number) => {
-        if (submitted || !currentQuestion) return;
-        setAnswers(prev => ({ ...prev, [currentQuestion.id]: optionIndex }));
+    const selectAnswer = (answer: QuizAnswer | null) => {
+        if (!currentQuestion) return;
+        pickAnswer(currentQuestion.id, answer);
     };
 
     const goToQuestion = (index: number) => {
@@ -80,44 +60,21 @@ export default function StudentQuizPage() {
         }
     };
 
-    const calculateScore = () => {
-        let correct = 0;
-        questions.forEach(q => {
-            if (answers[q.id] === q.correctIndex) correct++;
-        });
-        return Math.round((correct / questions.length) * 100);
-    };
-
-    const handleSubmit = () => {
-        const score = calculateScore();
-        const passed = score >= passingScore;
-        setSubmitted(true);
-        setShowResults(true);
-
-        // Save attempt
-        const key = `quiz_attempts_${courseId}_${quizId}`;
-        const stored = localStorage.getItem(key);
-        let attempts = [];
-        try { attempts = stored ? JSON.parse(stored) : []; } catch { attempts = []; }
-        const newAttempts = [{ date: new Date().toISOString(), score, passed }, ...attempts].slice(0, 10);
-        localStorage.setItem(key, JSON.stringify(newAttempts));
-    };
+    const handleSubmit = () => submit();
 
     const handleRetry = () => {
         setCurrentIndex(0);
-        setAnswers({});
-        setSubmitted(false);
-        setShowResults(false);
-        setTimeRemaining(quiz?.timeLimit ? quiz.timeLimit * 60 : null);
+        start();
     };
 
     const handleBack = () => router.back();
 
     const answeredCount = Object.keys(answers).filter(k => answers[k] !== null).length;
-    const score = submitted ? calculateScore() : 0;
-    const passed = score >= passingScore;
+    const score = result?.score ?? 0;
+    const passed = !!result?.passed;
+    const passingScore = passingScoreOf(quiz || {});
 
-    if (isLoading) {
+    if (isLoading || (!quiz && !result && !error)) {
         return (
             <div className="fixed inset-0 bg-zinc-950 flex items-center justify-center">
                 <Loader2 className="animate-spin text-teal-500" size={32} />
@@ -125,19 +82,8 @@ export default function StudentQuizPage() {
         );
     }
 
-    if (!quiz || questions.length === 0) {
-        return (
-            <div className="fixed inset-0 bg-zinc-950 flex flex-col items-center justify-center text-white">
-                <p className="text-zinc-500 mb-4">Quiz tidak ditemukan</p>
-                <button onClick={handleBack} className="flex items-center gap-2 text-teal-400 hover:text-teal-300">
-                    <ArrowLeft size={18} /> Kembali
-                </button>
-            </div>
-        );
-    }
-
     // Results Screen
-    if (showResults) {
+    if (result) {
         return (
             <div className="fixed inset-0 bg-zinc-950 flex flex-col items-center justify-center p-8">
                 <div className={cn(
@@ -154,14 +100,16 @@ export default function StudentQuizPage() {
                 <p className="text-5xl font-bold text-white mb-4">{score}%</p>
 
                 <p className="text-zinc-400 mb-8 text-center max-w-md">
-                    {passed
-                        ? `Selamat! Anda berhasil melewati quiz dengan nilai di atas ${passingScore}%.`
-                        : `Nilai minimum kelulusan adalah ${passingScore}%. Silakan coba lagi.`
+                    {result.status === 'expired'
+                        ? "Waktu habis sebelum jawaban terkirim."
+                        : passed
+                            ? `Selamat! Anda berhasil melewati quiz dengan nilai di atas ${passingScore}%.`
+                            : `Nilai minimum kelulusan adalah ${passingScore}%. Silakan coba lagi.`
                     }
                 </p>
 
                 <div className="flex gap-4">
-                    {!passed && (
+                    {!passed && attemptsRemaining !== 0 && (
                         <button onClick={handleRetry} className="flex items-center gap-2 px-6 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg transition-colors">
                             <RotateCcw size={18} /> Coba Lagi
                         </button>
@@ -174,6 +122,19 @@ export default function StudentQuizPage() {
         );
     }
 
+    if (!quiz || questions.length === 0) {
+        return (
+            <div className="fixed inset-0 bg-zinc-950 flex flex-col items-center justify-center text-white">
+                <p className="text-zinc-500 mb-4">
+                    {error?.message || "Quiz tidak ditemukan"}
+                </p>
+                <button onClick={handleBack} className="flex items-center gap-2 text-teal-400 hover:text-teal-300">
+                    <ArrowLeft size={18} /> Kembali
+                </button>
+            </div>
+        );
+    }
+
     // Quiz Playing Screen - Full viewport
     return (
         <div className="fixed inset-0 bg-zinc-950 flex flex-col">
@@ -210,7 +171,7 @@ export default function StudentQuizPage() {
 
                     <div className="grid grid-cols-5 gap-2 mb-6">
                         {questions.map((q, index) => {
-                            const isAnswered = answers[q.id] !== undefined;
+                            const isAnswered = answers[q.id] != null;
                             const isCurrent = index === currentIndex;
 
                             return (
@@ -256,38 +217,25 @@ export default function StudentQuizPage() {
                     <div className="flex-1 overflow-y-auto p-6">
                         <div className="max-w-2xl mx-auto">
                             <p className="text-xl text-white mb-8">
-                                {currentQuestion?.text || "Question text"}
+                                {currentQuestion?.type === "fill_blank"
+                                    ? "Lengkapi bagian yang kosong."
+                                    : currentQuestion?.text || "Question text"}
                             </p>
 
-                            <div className="space-y-3">
-                                {currentQuestion?.options.map((option, index) => {
-                                    const isSelected = answers[currentQuestion.id] === index;
-
-                                    return (
-                                        <button
-                                            key={index}
-                                            onClick={() => selectAnswer(index)}
-                                            className={cn(
-                                                "w-full flex items-center gap-4 p-4 rounded-xl border text-left transition-all",
-                                                isSelected
-                                                    ? "border-teal-500 bg-teal-500/10 text-white"
-                                                    : "border-zinc-700 bg-zinc-800/50 text-zinc-300 hover:border-zinc-600"
-                                            )}
-                                        >
-                                            <div className={cn(
-                                                "w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0",
-                                                isSelected ? "border-teal-500 bg-teal-500" : "border-zinc-600"
-                                            )}>
-                                                {isSelected && <div className="w-2.5 h-2.5 rounded-full bg-white" />}
-                                            </div>
-                                            <span className="text-lg">{option}</span>
-                                        </button>
-                                    );
-                                })}
-                            </div>
+                            {currentQuestion && (
+                                <QuestionInput
+                                    key={currentQuestion.id}
+                                    question={currentQuestion}
+                                    answer={answers[currentQuestion.id]}
+                                    onChange={selectAnswer}
+                                    large
+                                />
+                            )}
                         </div>
                     </div>
 
+                    {error && <p className="px-4 pb-2 text-sm text-red-400">{error.message}</p>}
+
                     {/* Navigation Footer */}
                     <div className="flex-shrink-0 p-4 border-t border-zinc-800 bg-zinc-900 flex items-center justify-between">
                         <button
@@ -301,7 +249,7 @@ export default function StudentQuizPage() {
                         {currentIndex === questions.length - 1 ? (
                             <button
                                 onClick={handleSubmit}
-                                disabled={answeredCount < questions.length}
+                                disabled={answeredCount < questions.length || isSubmitting}
                                 className="flex items-center gap-2 px-6 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
                             >
                                 Selesai
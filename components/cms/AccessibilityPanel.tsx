@@ -0,0 +1,164 @@
+'use client';
+
+// Accessibility check for the lesson open in the FluidEditor
+// (rendered in the FluidEditorSidebar)
+
+import { useEffect, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import type { Node as PMNode } from '@tiptap/pm/model';
+import { AlertCircle, AlertTriangle, CheckCircle2, Wrench } from 'lucide-react';
+import { lintTiptapDoc, type A11yFix, type A11yIssue } from '@/lib/cms/accessibility';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+interface AccessibilityPanelProps {
+  editor: Editor;
+}
+
+const FIX_LABELS: Record<A11yFix['kind'], string> = {
+  'set-alt': 'Add alt text',
+  'set-heading-level': 'Fix level',
+  'remove-color': 'Use default color',
+  'set-captions': 'Add captions',
+  'header-row': 'Add header row',
+};
+
+/**
+ * Document position of the node at a lint path
+ */
+function positionForPath(doc: PMNode, path: number[]): number | null {
+  let node = doc;
+  let pos = 0;
+  for (let depth = 0; depth < path.length; depth++) {
+    const index = path[depth];
+    if (index >= node.childCount) return null;
+    if (depth > 0) pos += 1; // Step inside the parent
+    for (let i = 0; i < index; i++) pos += node.child(i).nodeSize;
+    node = node.child(index);
+  }
+  return pos;
+}
+
+function applyFix(editor: Editor, issue: A11yIssue): void {
+  const fix = issue.fix;
+  const pos = positionForPath(editor.state.doc, issue.path);
+  const node = pos === null ? null : editor.state.doc.nodeAt(pos);
+  if (!fix || pos === null || !node) return;
+
+  switch (fix.kind) {
+    case 'set-alt': {
+      const alt = prompt('Describe this image for screen readers');
+      if (!alt?.trim()) return;
+      editor.chain().command(({ tr }) => {
+        tr.setNodeMarkup(pos, undefined, { ...node.attrs, alt: alt.trim() });
+        return true;
+      }).run();
+      return;
+    }
+    case 'set-captions': {
+      const captions = prompt('Captions file URL (WebVTT)');
+      if (!captions?.trim()) return;
+      editor.chain().command(({ tr }) => {
+        tr.setNodeMarkup(pos, undefined, { ...node.attrs, captions: captions.trim() });
+        return true;
+      }).run();
+      return;
+    }
+    case 'set-heading-level':
+      editor.chain().command(({ tr }) => {
+        tr.setNodeMarkup(pos, undefined, { ...node.attrs, level: fix.level });
+        return true;
+      }).run();
+      return;
+    case 'remove-color':
+      // Drop only this color; other text styles (font size) stay
+      editor.chain().command(({ tr }) => {
+        node.descendants((child, offset) => {
+          const mark = child.marks.find((m) => m.type.name === 'textStyle' && m.attrs.color === fix.color);
+          if (!mark) return;
+          const from = pos + 1 + offset;
+          const to = from + child.nodeSize;
+          const attrs = { ...mark.attrs, color: null };
+          tr.removeMark(from, to, mark);
+          if (Object.values(attrs).some((v) => v !== null && v !== undefined)) {
+            tr.addMark(from, to, mark.type.create(attrs));
+          }
+        });
+        return true;
+      }).run();
+      return;
+    case 'header-row':
+      // Put the cursor in the first cell so toggleHeaderRow finds the table
+      editor.chain().focus().setTextSelection(pos + 3).toggleHeaderRow().run();
+      return;
+  }
+}
+
+function selectIssue(editor: Editor, issue: A11yIssue): void {
+  const pos = positionForPath(editor.state.doc, issue.path);
+  if (pos === null) return;
+  const node = editor.state.doc.nodeAt(pos);
+  if (node?.isAtom) {
+    editor.chain().focus().setNodeSelection(pos).scrollIntoView().run();
+  } else if (node) {
+    editor.chain().focus().setTextSelection({ from: pos + 1, to: pos + node.nodeSize - 1 }).scrollIntoView().run();
+  }
+}
+
+export function AccessibilityPanel({ editor }: AccessibilityPanelProps) {
+  const [issues, setIssues] = useState<A11yIssue[]>([]);
+
+  useEffect(() => {
+    const update = () => setIssues(lintTiptapDoc((editor.getJSON().content || []) as TiptapNode[]));
+    update();
+    editor.on('update', update);
+    return () => {
+      editor.off('update', update);
+    };
+  }, [editor]);
+
+  const errors = issues.filter((i) => i.severity === 'error').length;
+
+  if (issues.length === 0) {
+    return (
+      <p className="flex items-center gap-1.5 text-[10px] text-green-400">
+        <CheckCircle2 size={12} /> No accessibility problems found
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-[10px] text-zinc-500">
+        {errors} error{errors === 1 ? '' : 's'}, {issues.length - errors} warning{issues.length - errors === 1 ? '' : 's'}
+      </p>
+      {issues.map((issue, index) => (
+        <div
+          key={`${issue.rule}-${issue.path.join('.')}-${index}`}
+          className="flex items-start gap-1.5 rounded-lg border border-zinc-800 bg-zinc-900/60 p-2"
+        >
+          {issue.severity === 'error' ? (
+            <AlertCircle size={12} className="mt-0.5 shrink-0 text-red-400" />
+          ) : (
+            <AlertTriangle size={12} className="mt-0.5 shrink-0 text-amber-400" />
+          )}
+          <button
+            onClick={() => selectIssue(editor, issue)}
+            className="flex-1 text-left text-[11px] text-zinc-300 hover:text-white"
+            title="Show in lesson"
+          >
+            {issue.message}
+          </button>
+          {issue.fix && (
+            <button
+              onClick={() => applyFix(editor, issue)}
+              className="flex shrink-0 items-center gap-0.5 text-[10px] text-indigo-400 hover:text-indigo-300"
+              title={FIX_LABELS[issue.fix.kind]}
+            >
+              <Wrench size={10} /> Fix
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
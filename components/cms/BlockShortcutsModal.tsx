@@ -0,0 +1,128 @@
+'use client';
+
+// Configure per-block keyboard shortcuts for the FluidEditor
+
+import { useEffect, useState } from 'react';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import {
+  assignShortcut,
+  formatShortcut,
+  isMacPlatform,
+  shortcutFromEvent,
+  DEFAULT_BLOCK_SHORTCUTS,
+  type BlockShortcutMap,
+  type SearchableCommand,
+} from '@/lib/cms/slash-commands';
+
+interface BlockShortcutsModalProps {
+  open: boolean;
+  commands: SearchableCommand[];
+  shortcuts: BlockShortcutMap;
+  onChange: (shortcuts: BlockShortcutMap) => void;
+  onClose: () => void;
+}
+
+export function BlockShortcutsModal({
+  open,
+  commands,
+  shortcuts,
+  onChange,
+  onClose,
+}: BlockShortcutsModalProps) {
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const isMac = isMacPlatform();
+
+  // Capture the next modifier combination for the command being recorded
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecordingId(null);
+        return;
+      }
+      if (e.key === 'Backspace' || e.key === 'Delete') {
+        onChange(assignShortcut(shortcuts, recordingId, ''));
+        setRecordingId(null);
+        return;
+      }
+
+      const shortcut = shortcutFromEvent(e, isMac);
+      if (!shortcut) return;
+      onChange(assignShortcut(shortcuts, recordingId, shortcut));
+      setRecordingId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, shortcuts, onChange, isMac]);
+
+  useEffect(() => {
+    if (!open) setRecordingId(null);
+  }, [open]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <Keyboard size={18} className="text-indigo-400" />
+            <h3 className="text-lg font-semibold text-white">Block shortcuts</h3>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="px-5 pt-4 text-xs text-zinc-500">
+          Click a shortcut and press a new combination with {isMac ? '⌘ or ⌥' : 'Ctrl or Alt'}.
+          Backspace clears it, Escape cancels.
+        </p>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-3">
+          {commands.map((cmd) => {
+            const recording = recordingId === cmd.id;
+            const shortcut = shortcuts[cmd.id];
+            return (
+              <div
+                key={cmd.id}
+                className="flex items-center justify-between gap-3 px-2 py-1.5 rounded-lg hover:bg-zinc-800/40"
+              >
+                <span className="text-sm text-zinc-300">{cmd.title}</span>
+                <button
+                  onClick={() => setRecordingId(recording ? null : cmd.id)}
+                  className={`min-w-[96px] px-2 py-1 rounded-md border text-xs font-mono transition-colors ${
+                    recording
+                      ? 'border-indigo-500 bg-indigo-500/10 text-indigo-300 animate-pulse'
+                      : 'border-zinc-700 bg-zinc-800 text-zinc-400 hover:border-zinc-500'
+                  }`}
+                >
+                  {recording ? 'Press keys…' : shortcut ? formatShortcut(shortcut, isMac) : '—'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between gap-2 p-5 border-t border-zinc-800">
+          <button
+            onClick={() => onChange({ ...DEFAULT_BLOCK_SHORTCUTS })}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            <RotateCcw size={14} /> Reset defaults
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
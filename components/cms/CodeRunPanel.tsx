@@ -0,0 +1,124 @@
+'use client';
+
+// Run button + output console shown under runnable multi-file code blocks
+// (editor node view and student view)
+
+import { useState } from 'react';
+import { Play, Loader2, RotateCcw } from 'lucide-react';
+import type { CodeFile } from '@/lib/cms/types';
+import {
+  runCode,
+  pickEntryFile,
+  type RunResult,
+} from '@/lib/sandbox/code-runner';
+
+interface CodeRunPanelProps {
+  files: CodeFile[];
+  activeFileId?: string;
+  onReset?: () => void;
+}
+
+export function CodeRunPanel({
+  files,
+  activeFileId,
+  onReset,
+}: CodeRunPanelProps) {
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<RunResult | null>(null);
+
+  const entry = pickEntryFile(files, activeFileId);
+
+  const handleRun = async () => {
+    if (!entry || running) return;
+    setRunning(true);
+    try {
+      setResult(await runCode(files, entry.id));
+    } catch (error) {
+      setResult({
+        output: [],
+        error: error instanceof Error ? error.message : String(error),
+        timedOut: false,
+        durationMs: 0,
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-zinc-700/50 bg-[#141414] text-xs">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button
+          onClick={handleRun}
+          disabled={!entry || running}
+          className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium transition-colors"
+          title={entry ? `Run ${entry.filename}` : 'Nothing to run'}
+        >
+          {running ? (
+            <Loader2 size={12} className="animate-spin" />
+          ) : (
+            <Play size={12} />
+          )}
+          Run
+        </button>
+        <span className="text-zinc-500 font-mono truncate">
+          {entry ? entry.filename : 'No JavaScript, TypeScript or Python file'}
+        </span>
+        <div className="flex-1" />
+        {onReset && (
+          <button
+            onClick={() => {
+              onReset();
+              setResult(null);
+            }}
+            className="flex items-center gap-1 text-zinc-500 hover:text-white transition-colors"
+            title="Restore the original code"
+          >
+            <RotateCcw size={12} />
+            Reset
+          </button>
+        )}
+        {result && (
+          <button
+            onClick={() => setResult(null)}
+            className="text-zinc-500 hover:text-white transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Output */}
+      {result && (
+        <div className="max-h-60 overflow-y-auto px-3 pb-3 font-mono whitespace-pre-wrap break-words">
+          {result.output.map((line, index) => (
+            <div
+              key={index}
+              className={
+                line.stream === 'stderr' ? 'text-amber-400' : 'text-zinc-200'
+              }
+            >
+              {line.text}
+            </div>
+          ))}
+          {result.error && (
+            <div
+              className={result.timedOut ? 'text-amber-400' : 'text-red-400'}
+            >
+              {result.error}
+            </div>
+          )}
+          {!result.error && result.output.length === 0 && (
+            <div className="text-zinc-500">(no output)</div>
+          )}
+          {!result.timedOut && (
+            <div className="mt-1 text-zinc-600">
+              Finished in {result.durationMs}ms
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
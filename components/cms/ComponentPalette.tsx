@@ -2,8 +2,10 @@
 
 import { COMPONENT_REGISTRY, createComponent } from "@/lib/cms/registry";
 import { Component } from "@/lib/cms/types";
-import { LucideIcon, Type, AlignLeft, Image, Video, Code, MousePointerClick, Minus, MoveVertical, Plus, List } from "lucide-react";
+import { serializeToComponents } from "@/lib/cms/serialization";
+import { LucideIcon, Type, AlignLeft, Image, Video, Code, MousePointerClick, Minus, MoveVertical, Plus, List, Dumbbell, Info, ChevronsDownUp, LayoutPanelTop, Sigma, Workflow, LayoutTemplate } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
+import { TemplatePickerModal } from "@/components/cms/TemplateLibrary";
 
 interface ComponentPaletteProps {
     onAddComponent: (component: Component) => void;
@@ -19,10 +21,17 @@ const iconMap: Record<string, LucideIcon> = {
     Minus,
     MoveVertical,
     List,
+    Dumbbell,
+    Info,
+    ChevronsDownUp,
+    LayoutPanelTop,
+    Sigma,
+    Workflow,
 };
 
 export function ComponentPalette({ onAddComponent }: ComponentPaletteProps) {
     const [isOpen, setIsOpen] = useState(false);
+    const [templatesOpen, setTemplatesOpen] = useState(false);
     const wrapperRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -95,8 +104,35 @@ export function ComponentPalette({ onAddComponent }: ComponentPaletteProps) {
                             })}
                         </div>
                     </div>
+
+                    {/* Saved templates (inserted as plain copies - components have no links) */}
+                    <div className="p-2 border-t border-zinc-800">
+                        <button
+                            onClick={() => {
+                                setTemplatesOpen(true);
+                                setIsOpen(false);
+                            }}
+                            className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-800 transition-colors text-left group"
+                        >
+                            <div className="w-7 h-7 rounded-md bg-zinc-950 border border-zinc-800 flex items-center justify-center text-zinc-500 group-hover:text-indigo-400 group-hover:border-indigo-500/30 transition-colors">
+                                <LayoutTemplate size={14} />
+                            </div>
+                            <div>
+                                <div className="text-sm font-medium text-zinc-300 group-hover:text-white">From template</div>
+                                <div className="text-[10px] text-zinc-500">Insert a saved template or snippet</div>
+                            </div>
+                        </button>
+                    </div>
                 </div>
             )}
+
+            <TemplatePickerModal
+                open={templatesOpen}
+                onClose={() => setTemplatesOpen(false)}
+                onInsert={(template) => {
+                    serializeToComponents({ type: "doc", content: template.content }).forEach(onAddComponent);
+                }}
+            />
         </div>
     );
 }
@@ -10,6 +10,12 @@ import { DividerBlock } from "./blocks/DividerBlock";
 import { SpacerBlock } from "./blocks/SpacerBlock";
 import { SyllabusBlock } from "./blocks/SyllabusBlock";
 import { TableBlock } from "./blocks/TableBlock";
+import { ExerciseBlock } from "./blocks/ExerciseBlock";
+import { CalloutBlock } from "./blocks/CalloutBlock";
+import { AccordionBlock } from "./blocks/AccordionBlock";
+import { TabsBlock } from "./blocks/TabsBlock";
+import { MathBlock } from "./blocks/MathBlock";
+import { DiagramBlock } from "./blocks/DiagramBlock";
 
 interface ComponentRendererProps {
     component: Component;
@@ -17,6 +23,7 @@ interface ComponentRendererProps {
     isSelected?: boolean;
     onUpdate?: (component: Component) => void;
     onSelect?: () => void;
+    lessonId?: string;
 }
 
 export function ComponentRenderer({
@@ -25,6 +32,7 @@ export function ComponentRenderer({
     isSelected = false,
     onUpdate,
     onSelect,
+    lessonId,
 }: ComponentRendererProps) {
     const props = {
         component,
@@ -34,6 +42,12 @@ export function ComponentRenderer({
         onSelect,
     };
 
+    // Layout blocks render their nested components read-only
+    const renderChildren = (children: Component[] = []) =>
+        children.map((child) => (
+            <ComponentRenderer key={child.id} component={child} lessonId={lessonId} />
+        ));
+
     switch (component.type) {
         case "header":
             return <HeaderBlock {...props} component={component} />;
@@ -57,6 +71,34 @@ export function ComponentRenderer({
             return <SyllabusBlock {...props} component={component} />;
         case "table":
             return <TableBlock {...props} component={component} />;
+        case "exercise":
+            return <ExerciseBlock {...props} component={component} lessonId={lessonId} />;
+        case "math":
+            return <MathBlock {...props} component={component} />;
+        case "diagram":
+            return <DiagramBlock {...props} component={component} />;
+        case "callout":
+            return (
+                <CalloutBlock variant={component.variant} title={component.title}>
+                    {renderChildren(component.children)}
+                </CalloutBlock>
+            );
+        case "accordion":
+            return (
+                <AccordionBlock title={component.title} defaultOpen={component.defaultOpen}>
+                    {renderChildren(component.children)}
+                </AccordionBlock>
+            );
+        case "tabs":
+            return (
+                <TabsBlock
+                    tabs={component.tabs.map((tab) => ({
+                        id: tab.id,
+                        title: tab.title,
+                        content: renderChildren(tab.children),
+                    }))}
+                />
+            );
         default:
             return <div className="text-red-400">Unknown component type: {(component as { type: string }).type}</div>;
     }
@@ -41,6 +41,8 @@ interface CourseSettingsProps {
   createdAt?: string;
   lastModified?: string;
   isPublished?: boolean;
+  requireAccessibleContent?: boolean;
+  onRequireAccessibleContentChange?: (required: boolean) => void;
 }
 
 export function CourseSettings({
@@ -61,6 +63,8 @@ export function CourseSettings({
   createdAt,
   lastModified,
   isPublished,
+  requireAccessibleContent,
+  onRequireAccessibleContentChange,
 }: CourseSettingsProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [showPrompt, setShowPrompt] = useState(false);
@@ -480,6 +484,26 @@ export function CourseSettings({
         />
       </div>
 
+      {/* Publishing rules */}
+      {onRequireAccessibleContentChange && (
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!requireAccessibleContent}
+            onChange={(e) => onRequireAccessibleContentChange(e.target.checked)}
+            className="mt-1 accent-indigo-500"
+          />
+          <span>
+            <span className="block text-sm font-medium text-zinc-300">
+              Require accessible content
+            </span>
+            <span className="block text-xs text-zinc-500">
+              Block publishing while the accessibility check reports errors
+            </span>
+          </span>
+        </label>
+      )}
+
       {/* Metadata */}
       <div className="pt-4 border-t border-zinc-800">
         <h3 className="text-sm font-medium text-zinc-300 mb-3">Metadata</h3>
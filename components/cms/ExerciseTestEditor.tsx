@@ -0,0 +1,285 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronUp,
+  CheckCircle,
+  EyeOff,
+  FlaskConical,
+  Loader2,
+  Play,
+  Plus,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import type { ExerciseLanguage, ExerciseTestCase } from '@/lib/cms/types';
+import { gradeExercise, type ExerciseGrade } from '@/lib/sandbox/exercise-grader';
+
+interface ExerciseTestEditorProps {
+  open: boolean;
+  language: ExerciseLanguage;
+  starterCode: string;
+  tests: ExerciseTestCase[];
+  onChange: (tests: ExerciseTestCase[]) => void;
+  onClose: () => void;
+}
+
+function generateId(): string {
+  return `test-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+const TEST_PLACEHOLDERS: Record<ExerciseLanguage, string> = {
+  javascript: 'assert.equal(add(2, 3), 5);',
+  typescript: 'assert.equal(add(2, 3), 5);',
+  python: 'assert add(2, 3) == 5',
+};
+
+/**
+ * Test-case editor for exercise blocks, laid out like the quiz editor.
+ * Authors can check the tests against a reference solution before saving;
+ * the solution itself is never stored.
+ */
+export function ExerciseTestEditor({
+  open,
+  language,
+  starterCode,
+  tests,
+  onChange,
+  onClose,
+}: ExerciseTestEditorProps) {
+  const [expandedTest, setExpandedTest] = useState<string | null>(null);
+  const [solution, setSolution] = useState(starterCode);
+  const [checking, setChecking] = useState(false);
+  const [check, setCheck] = useState<ExerciseGrade | null>(null);
+
+  if (!open) return null;
+
+  const addTest = () => {
+    const test: ExerciseTestCase = {
+      id: generateId(),
+      name: `Test ${tests.length + 1}`,
+      code: '',
+      hidden: true,
+    };
+    onChange([...tests, test]);
+    setExpandedTest(test.id);
+  };
+
+  const updateTest = (testId: string, updates: Partial<ExerciseTestCase>) => {
+    onChange(tests.map((t) => (t.id === testId ? { ...t, ...updates } : t)));
+  };
+
+  const deleteTest = (testId: string) => {
+    onChange(tests.filter((t) => t.id !== testId));
+  };
+
+  const moveTest = (fromIndex: number, toIndex: number) => {
+    if (toIndex < 0 || toIndex >= tests.length) return;
+    const next = [...tests];
+    const [moved] = next.splice(fromIndex, 1);
+    next.splice(toIndex, 0, moved);
+    onChange(next);
+  };
+
+  const runCheck = async () => {
+    setChecking(true);
+    try {
+      setCheck(await gradeExercise({ language, tests }, solution));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const resultFor = (testId: string) =>
+    check?.results.find((r) => r.id === testId);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <FlaskConical size={18} className="text-emerald-400" />
+            <h3 className="text-lg font-semibold text-white">
+              Test cases ({tests.length})
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4">
+          {tests.length === 0 ? (
+            <div className="text-center py-12 text-zinc-500 bg-zinc-900/50 rounded-xl border border-dashed border-zinc-700">
+              <p className="mb-4">No tests yet. Add your first test case!</p>
+              <button
+                onClick={addTest}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                <Plus size={16} />
+                Add Test
+              </button>
+            </div>
+          ) : (
+            <>
+              {tests.map((test, index) => {
+                const result = resultFor(test.id);
+                return (
+                  <div
+                    key={test.id}
+                    className="bg-zinc-900 rounded-xl border border-zinc-800 overflow-hidden"
+                  >
+                    {/* Test Header */}
+                    <div
+                      className="flex items-center gap-3 p-4 cursor-pointer hover:bg-zinc-800/50 transition-colors"
+                      onClick={() =>
+                        setExpandedTest(expandedTest === test.id ? null : test.id)
+                      }
+                    >
+                      <span className="w-8 h-8 rounded-lg bg-emerald-500/20 text-emerald-400 font-medium flex items-center justify-center text-sm">
+                        {index + 1}
+                      </span>
+                      <span className="flex-1 text-zinc-300 truncate">
+                        {test.name || 'Untitled test'}
+                      </span>
+                      {test.hidden && (
+                        <EyeOff size={14} className="text-zinc-500" />
+                      )}
+                      {result &&
+                        (result.passed ? (
+                          <CheckCircle size={16} className="text-green-400" />
+                        ) : (
+                          <XCircle size={16} className="text-red-400" />
+                        ))}
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            moveTest(index, index - 1);
+                          }}
+                          disabled={index === 0}
+                          className="p-1 text-zinc-500 hover:text-white disabled:opacity-30"
+                        >
+                          <ChevronUp size={16} />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            moveTest(index, index + 1);
+                          }}
+                          disabled={index === tests.length - 1}
+                          className="p-1 text-zinc-500 hover:text-white disabled:opacity-30"
+                        >
+                          <ChevronDown size={16} />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteTest(test.id);
+                          }}
+                          className="p-1 text-zinc-500 hover:text-red-400"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Test Editor (Expanded) */}
+                    {expandedTest === test.id && (
+                      <div className="p-4 pt-0 space-y-3 border-t border-zinc-800">
+                        <input
+                          type="text"
+                          value={test.name}
+                          onChange={(e) =>
+                            updateTest(test.id, { name: e.target.value })
+                          }
+                          placeholder="Test name"
+                          className="w-full mt-4 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500"
+                        />
+                        <textarea
+                          value={test.code}
+                          onChange={(e) =>
+                            updateTest(test.id, { code: e.target.value })
+                          }
+                          placeholder={TEST_PLACEHOLDERS[language]}
+                          className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm font-mono text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500 resize-none"
+                          rows={4}
+                          spellCheck={false}
+                        />
+                        <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={test.hidden ?? false}
+                            onChange={(e) =>
+                              updateTest(test.id, { hidden: e.target.checked })
+                            }
+                            className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-indigo-500 focus:ring-indigo-500"
+                          />
+                          Hidden (students only see pass/fail)
+                        </label>
+                        {result && !result.passed && result.message && (
+                          <pre className="text-xs text-red-300 whitespace-pre-wrap font-mono">
+                            {result.message}
+                          </pre>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={addTest}
+                className="w-full py-4 border-2 border-dashed border-zinc-700 rounded-xl text-zinc-400 hover:text-white hover:border-indigo-500 transition-colors flex items-center justify-center gap-2"
+              >
+                <Plus size={18} />
+                Add Test
+              </button>
+            </>
+          )}
+
+          {/* Check against a reference solution */}
+          <div className="p-4 bg-zinc-900 rounded-xl border border-zinc-800 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-zinc-400">
+                Reference solution (not saved)
+              </h4>
+              <button
+                onClick={runCheck}
+                disabled={checking || tests.length === 0}
+                className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white rounded-lg text-xs font-medium transition-colors"
+              >
+                {checking ? (
+                  <Loader2 size={14} className="animate-spin" />
+                ) : (
+                  <Play size={14} />
+                )}
+                Run tests
+              </button>
+            </div>
+            <textarea
+              value={solution}
+              onChange={(e) => setSolution(e.target.value)}
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm font-mono text-white focus:outline-none focus:border-indigo-500 resize-none"
+              rows={6}
+              spellCheck={false}
+            />
+            {check && (
+              <p
+                className={`text-xs ${check.passed === check.total ? 'text-green-400' : 'text-amber-400'}`}
+              >
+                {check.passed}/{check.total} tests passed
+                {check.error ? ` · ${check.error}` : ''}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
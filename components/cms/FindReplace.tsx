@@ -0,0 +1,260 @@
+'use client';
+
+// Find & replace UI, shared by the editor (current course, modal) and the
+// admin page (every course, via /api/admin/find-replace)
+
+import { useState } from 'react';
+import { Loader2, Replace, Search, Undo2, X } from 'lucide-react';
+import {
+  FIND_SCOPES,
+  type FindMatch,
+  type FindOptions,
+  type FindResult,
+  type FindScope,
+} from '@/lib/cms/find-replace';
+
+const SCOPE_LABELS: Record<FindScope, string> = {
+  text: 'Text',
+  link: 'Link URLs',
+  image: 'Image URLs',
+  code: 'Code',
+};
+
+interface FindReplacePanelProps {
+  onSearch: (options: FindOptions) => Promise<FindResult | { error: string }> | FindResult | { error: string };
+  // Resolves with the number of replacements made
+  onReplace: (options: FindOptions, replacement: string, matchIds: string[]) => Promise<number> | number;
+  onUndo?: () => void;
+  canUndo?: boolean;
+}
+
+export function FindReplacePanel({ onSearch, onReplace, onUndo, canUndo }: FindReplacePanelProps) {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [scopes, setScopes] = useState<FindScope[]>(FIND_SCOPES);
+  const [result, setResult] = useState<FindResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const options: FindOptions = { query, regex, caseSensitive, scopes };
+
+  const search = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const found = await onSearch(options);
+      if ('error' in found) {
+        setError(found.error);
+        setResult(null);
+        return;
+      }
+      setResult(found);
+      setSelected(new Set(found.matches.map((m) => m.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const replace = async () => {
+    if (!result || selected.size === 0) return;
+    if (!confirm(`Replace ${selected.size} match${selected.size === 1 ? '' : 'es'}?`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const count = await onReplace(options, replacement, Array.from(selected));
+      setNotice(`Replaced ${count} match${count === 1 ? '' : 'es'}`);
+      setResult(null);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleScope = (scope: FindScope) =>
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+
+  const toggleMatch = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // Group matches by course and lesson for the preview
+  const groups: { key: string; label: string; matches: FindMatch[] }[] = [];
+  for (const match of result?.matches || []) {
+    const key = `${match.courseId || ''}|${match.lessonId}`;
+    let group = groups[groups.length - 1];
+    if (group?.key !== key) {
+      group = {
+        key,
+        label: match.courseTitle ? `${match.courseTitle} › ${match.lessonTitle}` : match.lessonTitle,
+        matches: [],
+      };
+      groups.push(group);
+    }
+    group.matches.push(match);
+  }
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0">
+      <div className="grid gap-2">
+        <div className="flex gap-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && query && search()}
+            placeholder={regex ? 'Regular expression' : 'Find'}
+            autoFocus
+            className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white font-mono focus:outline-none focus:border-indigo-500"
+          />
+          <button
+            onClick={search}
+            disabled={busy || !query}
+            className="flex items-center gap-1.5 px-3 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-lg text-sm text-white"
+          >
+            {busy ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />} Find
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder={regex ? 'Replace with ($1, $<name> for groups)' : 'Replace with'}
+            className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white font-mono focus:outline-none focus:border-indigo-500"
+          />
+          <button
+            onClick={replace}
+            disabled={busy || !result || selected.size === 0}
+            className="flex items-center gap-1.5 px-3 py-2 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 rounded-lg text-sm text-white"
+          >
+            <Replace size={14} /> Replace {selected.size > 0 ? selected.size : ''}
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-zinc-400">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} /> Regex
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} /> Match case
+          </label>
+          <span className="text-zinc-600">|</span>
+          {FIND_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-1.5 cursor-pointer">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {notice && !result && (
+        <div className="flex items-center gap-3 text-sm text-green-400">
+          {notice}
+          {canUndo && onUndo && (
+            <button
+              onClick={() => {
+                onUndo();
+                setNotice('Replacement undone');
+              }}
+              className="flex items-center gap-1 text-zinc-300 hover:text-white"
+            >
+              <Undo2 size={14} /> Undo
+            </button>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+          <div className="flex items-center justify-between text-xs text-zinc-500">
+            <span>
+              {result.matches.length} match{result.matches.length === 1 ? '' : 'es'}
+              {result.truncated && ' (showing the first ones - narrow the search)'}
+            </span>
+            {result.matches.length > 0 && (
+              <button
+                onClick={() =>
+                  setSelected(
+                    selected.size === result.matches.length ? new Set() : new Set(result.matches.map((m) => m.id))
+                  )
+                }
+                className="hover:text-zinc-300"
+              >
+                {selected.size === result.matches.length ? 'Select none' : 'Select all'}
+              </button>
+            )}
+          </div>
+
+          {groups.map((group) => (
+            <div key={group.key}>
+              <p className="text-xs font-semibold text-zinc-300 mb-1">{group.label}</p>
+              <div className="space-y-1">
+                {group.matches.map((match) => (
+                  <label
+                    key={match.id}
+                    className="flex items-start gap-2 px-2 py-1.5 rounded-md bg-zinc-800/60 hover:bg-zinc-800 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(match.id)}
+                      onChange={() => toggleMatch(match.id)}
+                      className="mt-0.5"
+                    />
+                    <span className="text-[10px] uppercase tracking-wide text-zinc-500 w-10 shrink-0 mt-0.5">
+                      {match.scope}
+                    </span>
+                    <span className="text-xs text-zinc-400 font-mono break-all">
+                      {match.before}
+                      <mark className="bg-amber-400/30 text-amber-100 rounded px-0.5">{match.match}</mark>
+                      {match.after}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface FindReplaceModalProps extends FindReplacePanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function FindReplaceModal({ open, onClose, ...panelProps }: FindReplaceModalProps) {
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <Replace size={18} className="text-indigo-400" />
+            <h3 className="text-lg font-semibold text-white">Find & replace in all lessons</h3>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-5 flex-1 min-h-0 flex flex-col">
+          <FindReplacePanel {...panelProps} />
+        </div>
+      </div>
+    </div>
+  );
+}
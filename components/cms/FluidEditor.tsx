@@ -1,12 +1,46 @@
 'use client';
 
-import { useEditor, EditorContent, Editor } from '@tiptap/react';
+import { useEditor, EditorContent, Editor, generateJSON } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import { CustomImage } from '@/lib/cms/extensions/CustomImage';
 import { CustomVideo } from '@/lib/cms/extensions/CustomVideo';
 import { CustomMultiFileCode } from '@/lib/cms/extensions/CustomMultiFileCode';
 import { CustomQuiz } from '@/lib/cms/extensions/CustomQuiz';
+import { CustomExercise } from '@/lib/cms/extensions/CustomExercise';
+import { CustomCallout } from '@/lib/cms/extensions/CustomCallout';
+import { CustomAccordion } from '@/lib/cms/extensions/CustomAccordion';
+import { CustomTabs, CustomTabPanel } from '@/lib/cms/extensions/CustomTabs';
+import { CustomMathInline, CustomMathBlock } from '@/lib/cms/extensions/CustomMath';
+import { CustomMermaid } from '@/lib/cms/extensions/CustomMermaid';
+import { CustomLinkedSnippet } from '@/lib/cms/extensions/CustomLinkedSnippet';
+import { TemplatePickerModal } from '@/components/cms/TemplateLibrary';
+import { templateToInsertContent } from '@/lib/cms/templates';
+import { BlockShortcuts } from '@/lib/cms/extensions/BlockShortcuts';
+import { CommentMark } from '@/lib/cms/extensions/CommentMark';
+import Collaboration, { isChangeOrigin } from '@tiptap/extension-collaboration';
+import CollaborationCaret from '@tiptap/extension-collaboration-caret';
+import {
+  COLLAB_FIELD,
+  createCollabSession,
+  getCollabUrl,
+  observeLessonVersion,
+  seedCollabDocument,
+  shareLessonVersion,
+  type CollabSession,
+  type CollabUser,
+} from '@/lib/cms/collaboration';
+import { BlockShortcutsModal } from '@/components/cms/BlockShortcutsModal';
+import {
+  rankCommands,
+  formatShortcut,
+  isMacPlatform,
+  loadBlockShortcuts,
+  saveBlockShortcuts,
+  shortcutLookup,
+  type BlockShortcutMap,
+  type SearchableCommand,
+} from '@/lib/cms/slash-commands';
 import {
   CustomYouTube,
   isYouTubeUrl,
@@ -47,6 +81,7 @@ import {
   forwardRef,
   useImperativeHandle,
   useRef,
+  useMemo,
   ReactNode,
 } from 'react';
 import {
@@ -62,78 +97,108 @@ import {
   List,
   ListOrdered,
   HelpCircle,
+  Dumbbell,
+  Info,
+  ChevronsDownUp,
+  LayoutPanelTop,
+  Sigma,
+  Radical,
+  Workflow,
+  LayoutTemplate,
+  Files,
+  Table2,
+  Keyboard,
   Youtube,
 } from 'lucide-react';
 
-// Slash command items
-interface SlashCommandItem {
-  title: string;
-  description: string;
+// Slash command items - one per editor node in COMPONENT_REGISTRY plus the
+// Tiptap-only blocks (Button, Spacer and Syllabus have no editor node)
+interface SlashCommandItem extends SearchableCommand {
   icon: ReactNode;
   command: (editor: Editor) => void;
 }
 
 const SLASH_COMMANDS: SlashCommandItem[] = [
   {
+    id: 'text',
     title: 'Text',
     description: 'Just start writing with plain text',
+    keywords: ['paragraph', 'plain'],
     icon: <Type size={18} />,
     command: (editor) => editor.chain().focus().clearNodes().run(),
   },
   {
+    id: 'heading1',
     title: 'Heading 1',
     description: 'Large section heading',
+    keywords: ['h1', 'title'],
     icon: <Heading1 size={18} />,
     command: (editor) =>
       editor.chain().focus().toggleHeading({ level: 1 }).run(),
   },
   {
+    id: 'heading2',
     title: 'Heading 2',
     description: 'Medium section heading',
+    keywords: ['h2', 'subtitle'],
     icon: <Heading2 size={18} />,
     command: (editor) =>
       editor.chain().focus().toggleHeading({ level: 2 }).run(),
   },
   {
+    id: 'heading3',
     title: 'Heading 3',
     description: 'Small section heading',
+    keywords: ['h3'],
     icon: <Heading3 size={18} />,
     command: (editor) =>
       editor.chain().focus().toggleHeading({ level: 3 }).run(),
   },
   {
+    id: 'bulletList',
     title: 'Bullet List',
     description: 'Create a simple bullet list',
+    keywords: ['ul', 'unordered'],
     icon: <List size={18} />,
     command: (editor) => editor.chain().focus().toggleBulletList().run(),
   },
   {
+    id: 'orderedList',
     title: 'Numbered List',
     description: 'Create a numbered list',
+    keywords: ['ol', 'ordered'],
     icon: <ListOrdered size={18} />,
     command: (editor) => editor.chain().focus().toggleOrderedList().run(),
   },
   {
+    id: 'quote',
     title: 'Quote',
     description: 'Capture a quote',
+    keywords: ['blockquote'],
     icon: <Quote size={18} />,
     command: (editor) => editor.chain().focus().toggleBlockquote().run(),
   },
   {
+    id: 'divider',
     title: 'Divider',
     description: 'Visually divide sections',
+    keywords: ['hr', 'separator', 'rule'],
     icon: <Minus size={18} />,
     command: (editor) => editor.chain().focus().setHorizontalRule().run(),
   },
   {
+    id: 'codeBlock',
     title: 'Code Block',
     description: 'Write code with syntax highlighting',
+    keywords: ['snippet', 'pre'],
     icon: <Code size={18} />,
     command: (editor) => editor.chain().focus().toggleCodeBlock().run(),
   },
   {
+    id: 'image',
     title: 'Image',
     description: 'Upload or generate an image',
+    keywords: ['picture', 'photo'],
     icon: <ImageIcon size={18} />,
     command: (editor) => {
       editor
@@ -144,8 +209,10 @@ const SLASH_COMMANDS: SlashCommandItem[] = [
     },
   },
   {
+    id: 'video',
     title: 'Video',
     description: 'Upload or embed a video',
+    keywords: ['mp4', 'movie'],
     icon: <VideoIcon size={18} />,
     command: (editor) => {
       editor
@@ -156,8 +223,10 @@ const SLASH_COMMANDS: SlashCommandItem[] = [
     },
   },
   {
+    id: 'quiz',
     title: 'Quiz',
     description: 'Create a multiple choice quiz',
+    keywords: ['question', 'test'],
     icon: <HelpCircle size={18} />,
     command: (editor) => {
       editor
@@ -168,8 +237,149 @@ const SLASH_COMMANDS: SlashCommandItem[] = [
     },
   },
   {
+    id: 'exercise',
+    title: 'Exercise',
+    description: 'Auto-graded coding task with hidden tests',
+    keywords: ['challenge', 'assignment', 'coding'],
+    icon: <Dumbbell size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({ type: 'customExercise', attrs: {} })
+        .run();
+    },
+  },
+  {
+    id: 'equation',
+    title: 'Equation',
+    description: 'Display LaTeX equation',
+    keywords: ['latex', 'math', 'formula'],
+    icon: <Sigma size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({ type: 'mathBlock', attrs: { latex: '' } })
+        .run();
+    },
+  },
+  {
+    id: 'inlineMath',
+    title: 'Inline Math',
+    description: 'LaTeX inside a line (or type $x^2$)',
+    keywords: ['latex', 'formula'],
+    icon: <Radical size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({ type: 'mathInline', attrs: { latex: 'x^2' } })
+        .run();
+    },
+  },
+  {
+    id: 'diagram',
+    title: 'Diagram',
+    description: 'Mermaid flowchart or sequence diagram',
+    keywords: ['mermaid', 'flowchart', 'chart'],
+    icon: <Workflow size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({ type: 'mermaidDiagram' })
+        .run();
+    },
+  },
+  {
+    id: 'callout',
+    title: 'Callout',
+    description: 'Info, tip, warning or danger box',
+    keywords: ['note', 'tip', 'warning', 'admonition'],
+    icon: <Info size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({
+          type: 'customCallout',
+          attrs: { variant: 'info' },
+          content: [{ type: 'paragraph' }],
+        })
+        .run();
+    },
+  },
+  {
+    id: 'accordion',
+    title: 'Accordion',
+    description: 'Collapsible section',
+    keywords: ['collapse', 'details', 'toggle'],
+    icon: <ChevronsDownUp size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({
+          type: 'customAccordion',
+          content: [{ type: 'paragraph' }],
+        })
+        .run();
+    },
+  },
+  {
+    id: 'tabs',
+    title: 'Tabs',
+    description: 'Tabbed panels',
+    keywords: ['panels'],
+    icon: <LayoutPanelTop size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({
+          type: 'customTabs',
+          content: [1, 2].map((n) => ({
+            type: 'customTabPanel',
+            attrs: { title: `Tab ${n}` },
+            content: [{ type: 'paragraph' }],
+          })),
+        })
+        .run();
+    },
+  },
+  {
+    id: 'multiFileCode',
+    title: 'Multi-File Code',
+    description: 'Tabbed code files, optionally runnable',
+    keywords: ['files', 'project', 'runnable'],
+    icon: <Files size={18} />,
+    command: (editor) => {
+      editor
+        .chain()
+        .focus()
+        .insertContent({ type: 'customMultiFileCode' })
+        .run();
+    },
+  },
+  {
+    id: 'table',
+    title: 'Table',
+    description: 'Grid of rows and columns',
+    keywords: ['grid', 'rows', 'columns'],
+    icon: <Table2 size={18} />,
+    command: (editor) =>
+      editor
+        .chain()
+        .focus()
+        .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
+        .run(),
+  },
+  {
+    id: 'youtube',
     title: 'YouTube',
     description: 'Embed a YouTube video',
+    keywords: ['embed'],
     icon: <Youtube size={18} />,
     command: (editor) => {
       editor
@@ -190,19 +400,23 @@ function SlashCommandMenu({
   query,
   onClose,
   position,
+  extraCommands = [],
+  shortcuts = {},
 }: {
   editor: Editor;
   query: string;
   onClose: () => void;
   position: { top: number; left: number };
+  extraCommands?: SlashCommandItem[];
+  shortcuts?: BlockShortcutMap;
 }) {
   const [selectedIndex, setSelectedIndex] = useState(0);
   const menuRef = useRef<HTMLDivElement>(null);
+  const isMac = isMacPlatform();
 
-  const filteredCommands = SLASH_COMMANDS.filter(
-    (cmd) =>
-      cmd.title.toLowerCase().includes(query.toLowerCase()) ||
-      cmd.description.toLowerCase().includes(query.toLowerCase())
+  const filteredCommands = useMemo(
+    () => rankCommands([...SLASH_COMMANDS, ...extraCommands], query),
+    [extraCommands, query]
   );
 
   const executeCommand = useCallback(
@@ -225,10 +439,14 @@ function SlashCommandMenu({
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowDown') {
+      if (filteredCommands.length === 0) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      if (e.key === 'ArrowDown' || (e.key === 'Tab' && !e.shiftKey)) {
         e.preventDefault();
         setSelectedIndex((i) => (i + 1) % filteredCommands.length);
-      } else if (e.key === 'ArrowUp') {
+      } else if (e.key === 'ArrowUp' || (e.key === 'Tab' && e.shiftKey)) {
         e.preventDefault();
         setSelectedIndex(
           (i) => (i - 1 + filteredCommands.length) % filteredCommands.length
@@ -252,6 +470,13 @@ function SlashCommandMenu({
     setSelectedIndex(0);
   }, [query]);
 
+  // Keep the keyboard selection visible while navigating
+  useEffect(() => {
+    menuRef.current
+      ?.querySelector(`[data-index="${selectedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
   if (filteredCommands.length === 0) {
     return (
       <div
@@ -271,12 +496,14 @@ function SlashCommandMenu({
       style={{ top: position.top, left: position.left }}
     >
       <div className="px-3 py-1.5 text-[10px] text-zinc-500 font-semibold uppercase tracking-widest">
-        Basic blocks
+        {query ? 'Best matches' : 'Blocks'}
       </div>
       {filteredCommands.map((cmd, index) => (
         <button
-          key={cmd.title}
+          key={cmd.id}
+          data-index={index}
           onClick={() => executeCommand(cmd)}
+          onMouseEnter={() => setSelectedIndex(index)}
           className={`w-full flex items-center gap-3 px-3 py-2.5 text-left transition-all ${index === selectedIndex
               ? 'bg-indigo-600/20 text-white'
               : 'text-zinc-300 hover:bg-zinc-800/50'
@@ -296,6 +523,11 @@ function SlashCommandMenu({
               {cmd.description}
             </div>
           </div>
+          {shortcuts[cmd.id] && (
+            <kbd className="text-[10px] bg-zinc-800/60 px-1.5 py-0.5 rounded text-zinc-500 font-mono">
+              {formatShortcut(shortcuts[cmd.id], isMac)}
+            </kbd>
+          )}
           {index === selectedIndex && (
             <kbd className="text-[10px] bg-zinc-800 px-1.5 py-0.5 rounded text-zinc-500">
               ↵
@@ -318,6 +550,10 @@ export interface FluidEditorProps {
   // Per-block mode (optional - enables native block saves)
   courseId?: string;
   lessonId?: string;
+  // Real-time collaboration (needs courseId + lessonId and NEXT_PUBLIC_COLLAB_URL)
+  collabUser?: CollabUser;
+  lessonVersion?: number;
+  onRemoteLessonVersion?: (version: number) => void;
 }
 
 export interface FluidEditorRef {
@@ -339,6 +575,9 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
       className = '',
       courseId,
       lessonId,
+      collabUser,
+      lessonVersion,
+      onRemoteLessonVersion,
     },
     ref
   ) => {
@@ -352,6 +591,52 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
     const blockEditorEnabled = !!(courseId && lessonId);
     const [blockSaving, setBlockSaving] = useState(false);
 
+    const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+
+    // Per-block keyboard shortcuts (configurable, stored per browser)
+    const [shortcuts, setShortcuts] = useState<BlockShortcutMap>({});
+    const [shortcutsOpen, setShortcutsOpen] = useState(false);
+    const shortcutLookupRef = useRef<Record<string, string>>({});
+
+    useEffect(() => {
+      setShortcuts(loadBlockShortcuts());
+    }, []);
+
+    useEffect(() => {
+      shortcutLookupRef.current = shortcutLookup(shortcuts);
+    }, [shortcuts]);
+
+    // Shared Yjs document for this lesson while collaborating
+    const collabUrl = getCollabUrl();
+    const [collabSession, setCollabSession] = useState<CollabSession | null>(null);
+    const [collabPeers, setCollabPeers] = useState<CollabUser[]>([]);
+
+    useEffect(() => {
+      if (!collabUrl || !collabUser || !courseId || !lessonId) return;
+
+      const session = createCollabSession(collabUrl, courseId, lessonId);
+      setCollabSession(session);
+      return () => {
+        setCollabSession(null);
+        session.destroy();
+      };
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [collabUrl, collabUser?.id, courseId, lessonId]);
+
+    const extraCommands = useMemo<SlashCommandItem[]>(
+      () => [
+        {
+          id: 'template',
+          title: 'Template',
+          description: 'Insert a saved template or snippet',
+          keywords: ['snippet', 'reuse'],
+          icon: <LayoutTemplate size={18} />,
+          command: () => setTemplatePickerOpen(true),
+        },
+      ],
+      []
+    );
+
     const editor = useEditor({
       immediatelyRender: false,
       extensions: [
@@ -373,6 +658,8 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
           underline: false,
           // Disable default codeBlock - we configure custom one below with enhanced parseHTML
           codeBlock: false,
+          // Yjs keeps its own per-user history while collaborating
+          ...(collabSession ? { undoRedo: false as const } : {}),
         }),
         // Custom Bold that recognizes both <strong> and <b> tags, plus CSS font-weight
         Bold.extend({
@@ -410,7 +697,23 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
         CustomVideo,
         CustomMultiFileCode,
         CustomQuiz,
+        CustomExercise,
+        CustomCallout,
+        CustomAccordion,
+        CustomTabs,
+        CustomTabPanel,
+        CustomMathInline,
+        CustomMathBlock,
+        CustomMermaid,
+        CustomLinkedSnippet,
         CustomYouTube,
+        CommentMark,
+        BlockShortcuts.configure({
+          resolve: (shortcut) => {
+            const id = shortcutLookupRef.current[shortcut];
+            return SLASH_COMMANDS.find((cmd) => cmd.id === id)?.command;
+          },
+        }),
         Underline, // Added explicitly since disabled in StarterKit
         TextStyle.configure({
           HTMLAttributes: {},
@@ -453,8 +756,21 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
           types: ['heading', 'paragraph'],
           defaultLineHeight: '1.5',
         }),
+        ...(collabSession && collabUser
+          ? [
+            Collaboration.configure({
+              document: collabSession.doc,
+              field: COLLAB_FIELD,
+            }),
+            CollaborationCaret.configure({
+              provider: collabSession.provider,
+              user: { name: collabUser.name, color: collabUser.color },
+            }),
+          ]
+          : []),
       ],
-      content: initialContent,
+      // The shared document is the source of truth while collaborating
+      content: collabSession ? undefined : initialContent,
       editable,
       editorProps: {
         attributes: {
@@ -651,9 +967,12 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
           ).__tiptapSavedSelection = { from, to, text };
         }
       },
-      onUpdate: ({ editor }) => {
+      onUpdate: ({ editor, transaction }) => {
         onUpdate?.(editor.getHTML(), editor.getJSON());
 
+        // Remote edits shouldn't open the local slash menu
+        if (isChangeOrigin(transaction)) return;
+
         const { from } = editor.state.selection;
         const textBefore = editor.state.doc.textBetween(
           Math.max(0, from - 50),
@@ -673,7 +992,66 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
           setSlashMenu((prev) => ({ ...prev, open: false }));
         }
       },
-    });
+    }, [collabSession]);
+
+    // Seed an empty room with the saved lesson once the relay has synced
+    useEffect(() => {
+      if (!editor || !collabSession) return;
+      const { provider, doc } = collabSession;
+
+      const seed = (synced: boolean) => {
+        if (!synced || !initialContent) return;
+        const json =
+          typeof initialContent === 'string'
+            ? generateJSON(initialContent, editor.extensionManager.extensions)
+            : initialContent;
+        if (seedCollabDocument(doc, editor.schema, json)) {
+          console.log('🤝 [Collab] Seeded shared document from saved lesson');
+        }
+      };
+
+      if (provider.synced) seed(true);
+      provider.on('sync', seed);
+      return () => provider.off('sync', seed);
+      // initialContent only matters for the first participant
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [editor, collabSession]);
+
+    // Presence list from the relay's awareness states
+    useEffect(() => {
+      if (!collabSession) {
+        setCollabPeers([]);
+        return;
+      }
+      const { awareness } = collabSession.provider;
+
+      const update = () => {
+        const peers: CollabUser[] = [];
+        awareness.getStates().forEach((state, clientId) => {
+          if (clientId === awareness.clientID || !state.user) return;
+          peers.push({ id: String(clientId), name: state.user.name, color: state.user.color });
+        });
+        setCollabPeers(peers);
+      };
+
+      update();
+      awareness.on('change', update);
+      return () => awareness.off('change', update);
+    }, [collabSession]);
+
+    // Share checkpoint versions so co-authors don't conflict with each other
+    useEffect(() => {
+      if (collabSession && lessonVersion) {
+        shareLessonVersion(collabSession.doc, lessonVersion);
+      }
+    }, [collabSession, lessonVersion]);
+
+    useEffect(() => {
+      if (!collabSession || !onRemoteLessonVersion) return;
+      return observeLessonVersion(collabSession.doc, (version) => {
+        if (version > (lessonVersion || 0)) onRemoteLessonVersion(version);
+      });
+    }, [collabSession, lessonVersion, onRemoteLessonVersion]);
 
     useImperativeHandle(
       ref,
@@ -884,8 +1262,51 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
                     color: #818cf8;
                     text-decoration: underline;
                 }
+                .ProseMirror .review-comment {
+                    background: rgba(250, 204, 21, 0.18);
+                    border-bottom: 2px solid rgba(250, 204, 21, 0.6);
+                    cursor: pointer;
+                }
+                .collaboration-carets__caret {
+                    position: relative;
+                    margin-left: -1px;
+                    margin-right: -1px;
+                    border-left: 1px solid;
+                    border-right: 1px solid;
+                    word-break: normal;
+                    pointer-events: none;
+                }
+                .collaboration-carets__label {
+                    position: absolute;
+                    top: -1.4em;
+                    left: -1px;
+                    padding: 0.1rem 0.3rem;
+                    border-radius: 3px 3px 3px 0;
+                    font-size: 11px;
+                    font-weight: 600;
+                    line-height: normal;
+                    white-space: nowrap;
+                    color: #18181b;
+                    user-select: none;
+                }
             `}</style>
 
+        {/* Co-authors in this lesson */}
+        {collabSession && (
+          <div className="absolute -top-3 right-3 z-10 flex items-center -space-x-1.5">
+            {collabPeers.map((peer) => (
+              <div
+                key={peer.id}
+                className="w-6 h-6 rounded-full border-2 border-zinc-900 flex items-center justify-center text-[10px] font-bold text-zinc-900"
+                style={{ backgroundColor: peer.color }}
+                title={peer.name}
+              >
+                {peer.name.charAt(0).toUpperCase()}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Main Editor */}
         <EditorContent
           editor={editor}
@@ -899,9 +1320,31 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
             query={slashMenu.query}
             position={slashMenu.position}
             onClose={() => setSlashMenu((prev) => ({ ...prev, open: false }))}
+            extraCommands={extraCommands}
+            shortcuts={shortcuts}
           />
         )}
 
+        <BlockShortcutsModal
+          open={shortcutsOpen}
+          commands={SLASH_COMMANDS}
+          shortcuts={shortcuts}
+          onChange={(next) => {
+            setShortcuts(next);
+            saveBlockShortcuts(next);
+          }}
+          onClose={() => setShortcutsOpen(false)}
+        />
+
+        {/* Template Library */}
+        <TemplatePickerModal
+          open={templatePickerOpen}
+          onClose={() => setTemplatePickerOpen(false)}
+          onInsert={(template) =>
+            editor?.chain().focus().insertContent(templateToInsertContent(template)).run()
+          }
+        />
+
         {/* Keyboard shortcuts hint */}
         <div className="mt-2 flex flex-wrap gap-3 text-[11px] text-zinc-600">
           <span>
@@ -922,6 +1365,12 @@ export const FluidEditor = forwardRef<FluidEditorRef, FluidEditorProps>(
             </kbd>{' '}
             italic
           </span>
+          <button
+            onClick={() => setShortcutsOpen(true)}
+            className="flex items-center gap-1 hover:text-zinc-400 transition-colors"
+          >
+            <Keyboard size={12} /> block shortcuts
+          </button>
         </div>
       </div>
     );
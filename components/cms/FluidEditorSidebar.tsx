@@ -47,13 +47,33 @@ import {
   Space,
   IndentIncrease,
   IndentDecrease,
+  FileUp,
+  FileDown,
+  Dumbbell,
+  Info,
+  ChevronsDownUp,
+  LayoutPanelTop,
+  Sigma,
+  Workflow,
+  LayoutTemplate,
+  Save,
+  Replace,
 } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import { Component } from '@/lib/cms/types';
+import { markdownToTiptap, tiptapToMarkdown } from '@/lib/cms/markdown';
+import { templateToInsertContent, type TemplateKind } from '@/lib/cms/templates';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+import { TemplatePickerModal, SaveTemplateModal } from '@/components/cms/TemplateLibrary';
+import { ReviewPanel } from '@/components/cms/ReviewPanel';
+import { AccessibilityPanel } from '@/components/cms/AccessibilityPanel';
 
 interface FluidEditorSidebarProps {
   editor: Editor | null;
   onInsertComponent?: (component: Component) => void; // For inserting complex components like multiFileCode
+  courseId?: string; // Enables the review panel
+  lessonId?: string;
+  onOpenFindReplace?: () => void; // Find & replace across all lessons of the course
 }
 
 // Heading presets
@@ -102,6 +122,9 @@ const HIGHLIGHT_PRESETS = [
 export function FluidEditorSidebar({
   editor,
   onInsertComponent,
+  courseId,
+  lessonId,
+  onOpenFindReplace,
 }: FluidEditorSidebarProps) {
   const [headingDropdownOpen, setHeadingDropdownOpen] = useState(false);
   const [colorDropdownOpen, setColorDropdownOpen] = useState(false);
@@ -119,6 +142,12 @@ export function FluidEditorSidebar({
   const sidebarRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadingFor, setUploadingFor] = useState<string | null>(null);
+  const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState<{
+    kind: TemplateKind;
+    content: TiptapNode[];
+  } | null>(null);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
 
   // Store selection before textarea focus to prevent deselection
   const savedSelectionRef = useRef<{
@@ -161,6 +190,51 @@ export function FluidEditorSidebar({
     e.target.value = ''; // Reset input
   };
 
+  // Insert a .md file at the cursor (directives become quiz/video nodes)
+  const handleMarkdownImport = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Reset input
+    if (!file || !editor) return;
+
+    const doc = markdownToTiptap(await file.text());
+    editor.chain().focus().insertContent(doc.content).run();
+  };
+
+  const handleMarkdownExport = () => {
+    if (!editor) return;
+
+    const markdown = tiptapToMarkdown(editor.getJSON());
+    // Name the file after the first heading
+    const name =
+      (markdown.match(/^#+\s+(.+)$/m)?.[1] || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/(^-|-$)/g, '') || 'lesson';
+
+    const blob = new Blob([markdown], {
+      type: 'text/markdown;charset=utf-8',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name}.md`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Open the save dialog with the current selection or the whole lesson
+  const handleSaveTemplate = (kind: TemplateKind) => {
+    if (!editor) return;
+
+    const content = (kind === 'lesson'
+      ? editor.getJSON().content
+      : editor.state.selection.content().content.toJSON()) as TiptapNode[] | undefined;
+    if (!content?.length) return;
+    setTemplateDraft({ kind, content });
+  };
+
   // Force re-render when editor selection changes AND save selection
   useEffect(() => {
     if (!editor) return;
@@ -1117,9 +1191,210 @@ export function FluidEditorSidebar({
               <Table2 size={14} />
               <span className="text-[9px]">Table</span>
             </button>
+            <button
+              onClick={() =>
+                editor
+                  .chain()
+                  .focus()
+                  .insertContent({ type: 'customExercise' })
+                  .run()
+              }
+              className="flex flex-col items-center gap-0.5 p-2 rounded-lg border bg-gradient-to-br from-emerald-600/20 to-teal-600/20 border-emerald-500/30 text-emerald-300 hover:text-white hover:border-emerald-400 transition-all"
+              title="Insert Auto-Graded Exercise"
+            >
+              <Dumbbell size={14} />
+              <span className="text-[9px]">Exercise</span>
+            </button>
+            <button
+              onClick={() =>
+                editor
+                  .chain()
+                  .focus()
+                  .insertContent({ type: 'mathBlock', attrs: { latex: '' } })
+                  .run()
+              }
+              className="flex flex-col items-center gap-0.5 p-2 rounded-lg border bg-gradient-to-br from-fuchsia-600/20 to-pink-600/20 border-fuchsia-500/30 text-fuchsia-300 hover:text-white hover:border-fuchsia-400 transition-all"
+              title="Insert LaTeX Equation"
+            >
+              <Sigma size={14} />
+              <span className="text-[9px]">Equation</span>
+            </button>
+            <button
+              onClick={() =>
+                editor
+                  .chain()
+                  .focus()
+                  .insertContent({ type: 'mermaidDiagram' })
+                  .run()
+              }
+              className="flex flex-col items-center gap-0.5 p-2 rounded-lg border bg-gradient-to-br from-cyan-600/20 to-teal-600/20 border-cyan-500/30 text-cyan-300 hover:text-white hover:border-cyan-400 transition-all"
+              title="Insert Mermaid Diagram"
+            >
+              <Workflow size={14} />
+              <span className="text-[9px]">Diagram</span>
+            </button>
+            <button
+              onClick={() =>
+                editor
+                  .chain()
+                  .focus()
+                  .insertContent({
+                    type: 'customCallout',
+                    attrs: { variant: 'info' },
+                    content: [{ type: 'paragraph' }],
+                  })
+                  .run()
+              }
+              className="flex flex-col items-center gap-0.5 p-2 rounded-lg border bg-gradient-to-br from-sky-600/20 to-blue-600/20 border-sky-500/30 text-sky-300 hover:text-white hover:border-sky-400 transition-all"
+              title="Insert Callout"
+            >
+              <Info size={14} />
+              <span className="text-[9px]">Callout</span>
+            </button>
+            <button
+              onClick={() =>
+                editor
+                  .chain()
+                  .focus()
+                  .insertContent({
+                    type: 'customAccordion',
+                    content: [{ type: 'paragraph' }],
+                  })
+                  .run()
+              }
+              className="flex flex-col items-center gap-0.5 p-2 rounded-lg border bg-gradient-to-br from-zinc-600/20 to-zinc-500/20 border-zinc-500/30 text-zinc-300 hover:text-white hover:border-zinc-400 transition-all"
+              title="Insert Accordion"
+            >
+              <ChevronsDownUp size={14} />
+              <span className="text-[9px]">Accordion</span>
+            </button>
+            <button
+              onClick={() =>
+                editor
+                  .chain()
+                  .focus()
+                  .insertContent({
+                    type: 'customTabs',
+                    content: [1, 2].map((n) => ({
+                      type: 'customTabPanel',
+                      attrs: { title: `Tab ${n}` },
+                      content: [{ type: 'paragraph' }],
+                    })),
+                  })
+                  .run()
+              }
+              className="flex flex-col items-center gap-0.5 p-2 rounded-lg border bg-gradient-to-br from-indigo-600/20 to-violet-600/20 border-indigo-500/30 text-indigo-300 hover:text-white hover:border-indigo-400 transition-all"
+              title="Insert Tabs"
+            >
+              <LayoutPanelTop size={14} />
+              <span className="text-[9px]">Tabs</span>
+            </button>
           </div>
         </div>
 
+        {/* Markdown Import / Export */}
+        <div className="space-y-1.5">
+          <label className="text-[10px] text-zinc-500 font-semibold uppercase tracking-wider">
+            Markdown
+          </label>
+          <input
+            ref={markdownInputRef}
+            type="file"
+            accept=".md,.markdown,text/markdown"
+            onChange={handleMarkdownImport}
+            className="hidden"
+          />
+          <div className="grid grid-cols-2 gap-1.5">
+            <button
+              onClick={() => markdownInputRef.current?.click()}
+              className="flex items-center justify-center gap-1 p-2 rounded-lg border bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-600 transition-all text-[10px]"
+              title="Insert a Markdown file at the cursor"
+            >
+              <FileUp size={12} /> Import .md
+            </button>
+            <button
+              onClick={handleMarkdownExport}
+              className="flex items-center justify-center gap-1 p-2 rounded-lg border bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-600 transition-all text-[10px]"
+              title="Download this lesson as Markdown"
+            >
+              <FileDown size={12} /> Export .md
+            </button>
+          </div>
+        </div>
+
+        {/* Template Library */}
+        <div className="space-y-1.5">
+          <label className="text-[10px] text-zinc-500 font-semibold uppercase tracking-wider">
+            Templates
+          </label>
+          <button
+            onClick={() => setTemplatePickerOpen(true)}
+            className="w-full flex items-center justify-center gap-1 p-2 rounded-lg border bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-600 transition-all text-[10px]"
+            title="Insert a saved template or snippet"
+          >
+            <LayoutTemplate size={12} /> Insert template
+          </button>
+          <div className="grid grid-cols-2 gap-1.5">
+            <button
+              onClick={() => handleSaveTemplate('snippet')}
+              disabled={editor.state.selection.empty}
+              className="flex items-center justify-center gap-1 p-2 rounded-lg border bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-600 disabled:opacity-40 disabled:hover:text-zinc-400 disabled:hover:border-zinc-800 transition-all text-[10px]"
+              title="Save the selected content as a snippet"
+            >
+              <Save size={12} /> Selection
+            </button>
+            <button
+              onClick={() => handleSaveTemplate('lesson')}
+              className="flex items-center justify-center gap-1 p-2 rounded-lg border bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-600 transition-all text-[10px]"
+              title="Save this lesson as a template"
+            >
+              <Save size={12} /> Lesson
+            </button>
+          </div>
+          <TemplatePickerModal
+            open={templatePickerOpen}
+            onClose={() => setTemplatePickerOpen(false)}
+            onInsert={(template) =>
+              editor.chain().focus().insertContent(templateToInsertContent(template)).run()
+            }
+          />
+          <SaveTemplateModal
+            open={!!templateDraft}
+            kind={templateDraft?.kind || 'snippet'}
+            content={templateDraft?.content || []}
+            onClose={() => setTemplateDraft(null)}
+          />
+        </div>
+
+        {/* Find & Replace */}
+        {onOpenFindReplace && (
+          <button
+            onClick={onOpenFindReplace}
+            className="w-full flex items-center justify-center gap-1 p-2 rounded-lg border bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-600 transition-all text-[10px]"
+            title="Find & replace in all lessons"
+          >
+            <Replace size={12} /> Find & replace in all lessons
+          </button>
+        )}
+
+        {/* Accessibility Check */}
+        <div className="space-y-1.5">
+          <label className="text-[10px] text-zinc-500 font-semibold uppercase tracking-wider">
+            Accessibility check
+          </label>
+          <AccessibilityPanel editor={editor} />
+        </div>
+
+        {/* Review & Comments */}
+        {courseId && lessonId && (
+          <div className="space-y-1.5">
+            <label className="text-[10px] text-zinc-500 font-semibold uppercase tracking-wider">
+              Review
+            </label>
+            <ReviewPanel editor={editor} courseId={courseId} lessonId={lessonId} />
+          </div>
+        )}
+
         {/* Table Controls - shown when in table */}
         {editor.isActive('table') && (
           <div className="space-y-1.5">
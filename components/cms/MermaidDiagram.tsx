@@ -0,0 +1,73 @@
+'use client';
+
+// Client-side Mermaid rendering (bundled, no network). Used by the student
+// view and the live preview in the editor node.
+
+import { useEffect, useId, useState } from 'react';
+
+interface MermaidDiagramProps {
+  source: string;
+  className?: string;
+}
+
+let initialized = false;
+
+async function loadMermaid() {
+  const { default: mermaid } = await import('mermaid');
+  if (!initialized) {
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'strict',
+      theme: 'neutral',
+    });
+    initialized = true;
+  }
+  return mermaid;
+}
+
+export function MermaidDiagram({ source, className }: MermaidDiagramProps) {
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const [svg, setSvg] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!source.trim()) {
+      setSvg('');
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadMermaid()
+      .then((mermaid) => mermaid.render(id, source))
+      .then(({ svg }) => {
+        if (cancelled) return;
+        setSvg(svg);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, source]);
+
+  if (error) {
+    return (
+      <pre className={`text-xs text-red-500 whitespace-pre-wrap font-mono ${className || ''}`}>
+        {error}
+      </pre>
+    );
+  }
+
+  return (
+    <div
+      className={`flex justify-center overflow-x-auto [&_svg]:max-w-full ${className || ''}`}
+      // Mermaid output with securityLevel strict (labels are escaped, no scripts)
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+// Review workflow and inline comment threads for the lesson open in the
+// FluidEditor (rendered in the FluidEditorSidebar)
+
+import { useCallback, useEffect, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import {
+  Check,
+  CheckCircle2,
+  Loader2,
+  MessageSquarePlus,
+  RotateCcw,
+  Send,
+  Trash2,
+  Undo2,
+  XCircle,
+} from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api/authenticated-fetch';
+import {
+  COMMENT_MARK,
+  MAX_COMMENT_LENGTH,
+  collectCommentAnchors,
+  createThreadId,
+  trimQuote,
+  type CourseReview,
+  type CourseStatus,
+  type ReviewAction,
+  type ReviewThread,
+} from '@/lib/cms/review';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+interface ReviewPanelProps {
+  editor: Editor;
+  courseId: string;
+  lessonId: string;
+}
+
+const STATUS_STYLES: Record<CourseStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-zinc-800 text-zinc-300' },
+  in_review: { label: 'In review', className: 'bg-amber-500/15 text-amber-300' },
+  changes_requested: { label: 'Changes requested', className: 'bg-red-500/15 text-red-300' },
+  published: { label: 'Published', className: 'bg-green-500/15 text-green-300' },
+  archived: { label: 'Archived', className: 'bg-zinc-800 text-zinc-500' },
+};
+
+const BUTTON_CLASS =
+  'flex items-center justify-center gap-1 p-2 rounded-lg border bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white hover:border-zinc-600 disabled:opacity-40 disabled:hover:text-zinc-400 disabled:hover:border-zinc-800 transition-all text-[10px]';
+
+/**
+ * Select the text a thread is anchored to
+ */
+function selectAnchor(editor: Editor, threadId: string): boolean {
+  let from = -1;
+  let to = -1;
+  editor.state.doc.descendants((node, pos) => {
+    if (node.marks.some((m) => m.type.name === COMMENT_MARK && m.attrs.threadId === threadId)) {
+      if (from < 0) from = pos;
+      to = pos + node.nodeSize;
+    }
+  });
+  if (from < 0) return false;
+  editor.chain().focus().setTextSelection({ from, to }).scrollIntoView().run();
+  return true;
+}
+
+export function ReviewPanel({ editor, courseId, lessonId }: ReviewPanelProps) {
+  const [review, setReview] = useState<CourseReview | null>(null);
+  const [status, setStatus] = useState<CourseStatus>('draft');
+  const [threads, setThreads] = useState<ReviewThread[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+  const [anchors, setAnchors] = useState<Record<string, string>>({});
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await authenticatedFetch(`/api/courses/${courseId}/review`);
+      if (!res.ok) throw new Error(`Failed to load review (${res.status})`);
+      const data = await res.json();
+      setReview(data.review);
+      setStatus(data.status);
+      setThreads(data.threads || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Track which threads still have text anchored in this lesson
+  useEffect(() => {
+    const update = () => setAnchors(collectCommentAnchors((editor.getJSON().content || []) as TiptapNode[]));
+    update();
+    editor.on('update', update);
+    return () => {
+      editor.off('update', update);
+    };
+  }, [editor, lessonId]);
+
+  const runAction = async (action: ReviewAction) => {
+    const note = action === 'request_changes' ? prompt('What should change? (optional)') : undefined;
+    if (note === null) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authenticatedFetch(`/api/courses/${courseId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Review update failed');
+      setReview(data.review);
+      setStatus(data.status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateThread = (thread: ReviewThread) =>
+    setThreads((prev) => prev.map((t) => (t.id === thread.id ? thread : t)));
+
+  const handleComment = async () => {
+    const { from, to, empty } = editor.state.selection;
+    const body = comment.trim();
+    if (empty || !body) return;
+
+    const id = createThreadId();
+    const quote = trimQuote(editor.state.doc.textBetween(from, to, ' '));
+    editor.chain().focus().setComment(id).run();
+
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authenticatedFetch(`/api/courses/${courseId}/review/threads`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, lessonId, quote, body }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save comment');
+      setThreads((prev) => [...prev, data.thread]);
+      setComment('');
+    } catch (err) {
+      editor.commands.unsetComment(id);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleThreadAction = async (thread: ReviewThread, action: 'reply' | 'resolve' | 'reopen') => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await authenticatedFetch(`/api/courses/${courseId}/review/threads/${thread.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'reply' ? { action, body: reply.trim() } : { action }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update comment');
+      updateThread(data.thread);
+      if (action === 'reply') {
+        setReply('');
+        setReplyTo(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (thread: ReviewThread) => {
+    if (!confirm('Delete this comment thread?')) return;
+    const res = await authenticatedFetch(`/api/courses/${courseId}/review/threads/${thread.id}`, {
+      method: 'DELETE',
+    });
+    if (res.ok) {
+      editor.commands.unsetComment(thread.id);
+      setThreads((prev) => prev.filter((t) => t.id !== thread.id));
+    } else {
+      setError('Failed to delete comment');
+    }
+  };
+
+  const lessonThreads = threads.filter((t) => t.lessonId === lessonId);
+  const visibleThreads = lessonThreads.filter((t) => showResolved || !t.resolved);
+  const resolvedIds = lessonThreads.filter((t) => t.resolved).map((t) => t.id);
+  const openElsewhere = threads.filter((t) => t.lessonId !== lessonId && !t.resolved).length;
+  const statusStyle = STATUS_STYLES[status] || STATUS_STYLES.draft;
+
+  return (
+    <div className="space-y-2">
+      {/* Resolved threads keep their anchor but lose the highlight */}
+      {resolvedIds.length > 0 && (
+        <style>{`${resolvedIds
+          .map((id) => `.ProseMirror .review-comment[data-comment-id="${id}"]`)
+          .join(', ')} { background: transparent; border-bottom: 1px dotted rgba(161, 161, 170, 0.5); }`}</style>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${statusStyle.className}`}>
+          {review?.state === 'approved' ? 'Approved' : statusStyle.label}
+        </span>
+        {loading && <Loader2 size={12} className="animate-spin text-zinc-500" />}
+      </div>
+
+      {review?.decidedBy && (
+        <p className="text-[10px] text-zinc-500">
+          {review.state === 'approved' ? 'Approved' : 'Reviewed'} by {review.decidedBy.name || review.decidedBy.id}
+          {review.note && <span className="block text-zinc-400 italic mt-0.5">“{review.note}”</span>}
+        </p>
+      )}
+
+      {/* Workflow actions */}
+      {review?.state === 'in_review' ? (
+        <div className="grid grid-cols-3 gap-1.5">
+          <button onClick={() => runAction('approve')} disabled={busy} className={BUTTON_CLASS} title="Approve this draft for publishing">
+            <CheckCircle2 size={12} /> Approve
+          </button>
+          <button onClick={() => runAction('request_changes')} disabled={busy} className={BUTTON_CLASS} title="Send the draft back to the author">
+            <XCircle size={12} /> Changes
+          </button>
+          <button onClick={() => runAction('withdraw')} disabled={busy} className={BUTTON_CLASS} title="Withdraw from review">
+            <Undo2 size={12} /> Withdraw
+          </button>
+        </div>
+      ) : (
+        <button onClick={() => runAction('submit')} disabled={busy} className={`w-full ${BUTTON_CLASS}`} title="Ask a reviewer to approve this draft">
+          <Send size={12} /> {review?.state === 'approved' ? 'Resubmit for review' : 'Submit for review'}
+        </button>
+      )}
+
+      {/* New comment on the selection */}
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        maxLength={MAX_COMMENT_LENGTH}
+        rows={2}
+        placeholder="Select text, then write a comment…"
+        className="w-full bg-zinc-900 border border-zinc-800 rounded-lg p-2 text-[11px] text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600 resize-none"
+      />
+      <button
+        onClick={handleComment}
+        disabled={busy || editor.state.selection.empty || !comment.trim()}
+        className={`w-full ${BUTTON_CLASS}`}
+        title="Comment on the selected text"
+      >
+        <MessageSquarePlus size={12} /> Comment on selection
+      </button>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+      {/* Threads in this lesson */}
+      <div className="flex items-center justify-between text-[10px] text-zinc-500">
+        <span>
+          {lessonThreads.filter((t) => !t.resolved).length} open
+          {openElsewhere > 0 && ` · ${openElsewhere} in other lessons`}
+        </span>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+          Resolved
+        </label>
+      </div>
+
+      {visibleThreads.map((thread) => (
+        <div
+          key={thread.id}
+          className={`rounded-lg border border-zinc-800 bg-zinc-900/60 p-2 space-y-1.5 ${thread.resolved ? 'opacity-60' : ''}`}
+        >
+          <button
+            onClick={() => selectAnchor(editor, thread.id)}
+            disabled={anchors[thread.id] === undefined}
+            className="w-full text-left text-[10px] italic text-amber-200/80 border-l-2 border-amber-400/60 pl-1.5 truncate disabled:text-zinc-500 disabled:border-zinc-700"
+            title={anchors[thread.id] === undefined ? 'The commented text was removed' : 'Show in lesson'}
+          >
+            {anchors[thread.id] ?? thread.quote}
+            {anchors[thread.id] === undefined && <span className="not-italic text-zinc-600"> (text removed)</span>}
+          </button>
+
+          {thread.comments.map((c) => (
+            <div key={c.id} className="text-[11px]">
+              <span className="font-semibold text-zinc-300">{c.authorName}</span>{' '}
+              <span className="text-zinc-600 text-[9px]">{new Date(c.createdAt).toLocaleString()}</span>
+              <p className="text-zinc-400 whitespace-pre-wrap">{c.body}</p>
+            </div>
+          ))}
+
+          {replyTo === thread.id && (
+            <div className="flex gap-1">
+              <input
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && reply.trim() && handleThreadAction(thread, 'reply')}
+                maxLength={MAX_COMMENT_LENGTH}
+                autoFocus
+                placeholder="Reply…"
+                className="flex-1 bg-zinc-900 border border-zinc-800 rounded px-1.5 py-1 text-[11px] text-zinc-200 focus:outline-none focus:border-zinc-600"
+              />
+              <button
+                onClick={() => handleThreadAction(thread, 'reply')}
+                disabled={busy || !reply.trim()}
+                className="text-zinc-400 hover:text-white disabled:opacity-40"
+              >
+                <Send size={12} />
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-[10px]">
+            {replyTo !== thread.id && (
+              <button onClick={() => { setReplyTo(thread.id); setReply(''); }} className="text-zinc-500 hover:text-zinc-200">
+                Reply
+              </button>
+            )}
+            {thread.resolved ? (
+              <button onClick={() => handleThreadAction(thread, 'reopen')} disabled={busy} className="flex items-center gap-0.5 text-zinc-500 hover:text-zinc-200">
+                <RotateCcw size={10} /> Reopen
+              </button>
+            ) : (
+              <button onClick={() => handleThreadAction(thread, 'resolve')} disabled={busy} className="flex items-center gap-0.5 text-zinc-500 hover:text-green-300">
+                <Check size={10} /> Resolve
+              </button>
+            )}
+            <button onClick={() => handleDelete(thread)} className="ml-auto text-zinc-600 hover:text-red-400" title="Delete thread">
+              <Trash2 size={10} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
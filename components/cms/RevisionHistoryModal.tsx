@@ -0,0 +1,298 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GitCompare, History, Loader2, RotateCcw, X } from 'lucide-react';
+import type { CourseRevision } from '@/lib/storage/course-revisions';
+import type { CourseDiff, LessonDiff } from '@/lib/storage/course-diff';
+
+interface RevisionHistoryModalProps {
+  courseId: string;
+  open: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const KIND_STYLES: Record<CourseRevision['kind'], string> = {
+  checkpoint: 'bg-zinc-800 text-zinc-300 border-zinc-700',
+  publish: 'bg-green-500/10 text-green-400 border-green-500/30',
+  restore: 'bg-amber-500/10 text-amber-400 border-amber-500/30',
+};
+
+const LESSON_STATUS_STYLES: Record<LessonDiff['status'], string> = {
+  added: 'text-green-400',
+  removed: 'text-red-400',
+  changed: 'text-amber-400',
+  unchanged: 'text-zinc-500',
+};
+
+/**
+ * Revision history for the course editor: list every checkpoint/publish,
+ * compare any two, and restore one as the new draft.
+ */
+export function RevisionHistoryModal({
+  courseId,
+  open,
+  onClose,
+  onRestored,
+}: RevisionHistoryModalProps) {
+  const [revisions, setRevisions] = useState<CourseRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<CourseDiff | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [confirmRestoreId, setConfirmRestoreId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setIsLoading(true);
+    setError(null);
+    setSelected([]);
+    setDiff(null);
+    setConfirmRestoreId(null);
+
+    fetch(`/api/admin/courses/${courseId}/revisions`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) {
+          setRevisions(data.revisions || []);
+        } else {
+          setError(data.error || 'Failed to load revisions');
+        }
+      })
+      .catch(() => setError('Failed to load revisions'))
+      .finally(() => setIsLoading(false));
+  }, [open, courseId]);
+
+  // Compare as soon as two revisions are selected (older → newer)
+  useEffect(() => {
+    if (selected.length !== 2) {
+      setDiff(null);
+      return;
+    }
+    const [from, to] = [...selected].sort(
+      (a, b) =>
+        revisions.findIndex((r) => r.id === b) -
+        revisions.findIndex((r) => r.id === a)
+    );
+
+    setIsDiffing(true);
+    fetch(
+      `/api/admin/courses/${courseId}/revisions/diff?from=${from}&to=${to}`
+    )
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) {
+          setDiff(data.diff);
+        } else {
+          setError(data.error || 'Failed to compare revisions');
+        }
+      })
+      .catch(() => setError('Failed to compare revisions'))
+      .finally(() => setIsDiffing(false));
+  }, [selected, revisions, courseId]);
+
+  if (!open) return null;
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) =>
+      prev.includes(id)
+        ? prev.filter((s) => s !== id)
+        : [...prev.slice(-1), id]
+    );
+  };
+
+  const handleRestore = async (revisionId: string) => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/admin/courses/${courseId}/revisions/${revisionId}/restore`,
+        { method: 'POST' }
+      );
+      const data = await res.json();
+      if (res.ok) {
+        onRestored();
+        onClose();
+      } else {
+        setError(data.error || 'Restore failed');
+      }
+    } catch {
+      setError('Restore failed');
+    } finally {
+      setIsRestoring(false);
+      setConfirmRestoreId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <History size={18} className="text-indigo-400" />
+            <h3 className="text-lg font-semibold text-white">
+              Revision history
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <p className="mx-5 mt-4 text-xs text-red-400 bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">
+            {error}
+          </p>
+        )}
+
+        <div className="flex-1 grid md:grid-cols-2 gap-4 p-5 overflow-hidden">
+          {/* Revision list */}
+          <div className="overflow-y-auto custom-scrollbar space-y-2 pr-1">
+            {isLoading && (
+              <div className="flex items-center gap-2 text-sm text-zinc-500">
+                <Loader2 size={14} className="animate-spin" />
+                Loading revisions...
+              </div>
+            )}
+            {!isLoading && revisions.length === 0 && (
+              <p className="text-sm text-zinc-500">No revisions yet.</p>
+            )}
+            {revisions.map((revision) => (
+              <div
+                key={revision.id}
+                className={`rounded-lg border p-3 text-xs transition-colors ${selected.includes(revision.id) ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-zinc-800 bg-zinc-950'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(revision.id)}
+                      onChange={() => toggleSelected(revision.id)}
+                      className="accent-indigo-500"
+                    />
+                    <span
+                      className={`px-1.5 py-0.5 rounded border text-[10px] font-semibold uppercase ${KIND_STYLES[revision.kind]}`}
+                    >
+                      {revision.kind}
+                    </span>
+                    <span className="text-zinc-200">v{revision.version}</span>
+                  </label>
+                  {confirmRestoreId === revision.id ? (
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => handleRestore(revision.id)}
+                        disabled={isRestoring}
+                        className="px-2 py-1 rounded bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-50"
+                      >
+                        {isRestoring ? 'Restoring...' : 'Confirm'}
+                      </button>
+                      <button
+                        onClick={() => setConfirmRestoreId(null)}
+                        className="px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:bg-zinc-800"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmRestoreId(revision.id)}
+                      className="flex items-center gap-1 px-2 py-1 rounded border border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                      title="Restore as new draft"
+                    >
+                      <RotateCcw size={12} />
+                      Restore
+                    </button>
+                  )}
+                </div>
+                <div className="mt-2 text-zinc-500 space-y-0.5">
+                  <div>
+                    {new Date(revision.createdAt).toLocaleString()} ·{' '}
+                    {revision.author?.name ||
+                      revision.author?.email ||
+                      'Unknown'}
+                  </div>
+                  <div>
+                    {revision.lessonCount} lessons · {revision.blockCount}{' '}
+                    blocks · {(revision.sizeBytes / 1024).toFixed(1)}KB ·{' '}
+                    <span className="font-mono">
+                      {revision.hash.slice(0, 8)}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="overflow-y-auto custom-scrollbar bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+            {selected.length < 2 && (
+              <div className="flex flex-col items-center justify-center h-full text-center text-sm text-zinc-500 gap-2">
+                <GitCompare size={20} />
+                Select two revisions to compare
+              </div>
+            )}
+            {isDiffing && (
+              <div className="flex items-center gap-2 text-sm text-zinc-500">
+                <Loader2 size={14} className="animate-spin" />
+                Comparing...
+              </div>
+            )}
+            {diff && !isDiffing && (
+              <div className="space-y-3 text-xs">
+                <p className="text-zinc-400">
+                  {diff.summary.added} added · {diff.summary.removed} removed
+                  · {diff.summary.changed} changed ·{' '}
+                  {diff.summary.unchanged} unchanged lessons
+                </p>
+                {diff.lessons
+                  .filter((lesson) => lesson.status !== 'unchanged')
+                  .map((lesson) => (
+                    <div key={lesson.key} className="space-y-1">
+                      <div
+                        className={`font-semibold ${LESSON_STATUS_STYLES[lesson.status]}`}
+                      >
+                        {lesson.title}
+                        {lesson.previousTitle && (
+                          <span className="text-zinc-500 font-normal">
+                            {' '}
+                            (was &quot;{lesson.previousTitle}&quot;)
+                          </span>
+                        )}
+                        <span className="text-zinc-500 font-normal">
+                          {' '}
+                          +{lesson.added} −{lesson.removed}
+                        </span>
+                      </div>
+                      {lesson.blocks
+                        .filter((block) => block.status !== 'unchanged')
+                        .map((block, i) => (
+                          <div
+                            key={i}
+                            className={`pl-2 border-l-2 ${block.status === 'added' ? 'border-green-500 text-green-300/90' : 'border-red-500 text-red-300/90 line-through'}`}
+                          >
+                            <span className="text-zinc-500 no-underline">
+                              {block.status === 'added' ? '+ ' : '− '}
+                              {block.type}{' '}
+                            </span>
+                            {block.text || '(empty)'}
+                          </div>
+                        ))}
+                    </div>
+                  ))}
+                {diff.summary.added +
+                  diff.summary.removed +
+                  diff.summary.changed ===
+                  0 && <p className="text-zinc-500">No content changes.</p>}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+'use client';
+
+// Template/snippet library modals used by the FluidEditor (slash command,
+// sidebar) and the ComponentPalette
+
+import { useEffect, useState } from 'react';
+import {
+  LayoutTemplate,
+  Link2,
+  Loader2,
+  Search,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api/authenticated-fetch';
+import type { ContentTemplate, TemplateKind } from '@/lib/cms/templates';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+async function fetchTemplates(): Promise<ContentTemplate[]> {
+  const res = await authenticatedFetch('/api/admin/templates');
+  if (!res.ok) throw new Error(`Failed to load templates (${res.status})`);
+  const data = await res.json();
+  return data.templates || [];
+}
+
+interface TemplatePickerModalProps {
+  open: boolean;
+  onClose: () => void;
+  onInsert: (template: ContentTemplate) => void;
+}
+
+export function TemplatePickerModal({ open, onClose, onInsert }: TemplatePickerModalProps) {
+  const [templates, setTemplates] = useState<ContentTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    setError(null);
+    fetchTemplates()
+      .then(setTemplates)
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  if (!open) return null;
+
+  const handleDelete = async (template: ContentTemplate) => {
+    if (!confirm(`Delete template "${template.name}"? Linked copies keep their current content.`)) return;
+    const res = await authenticatedFetch(`/api/admin/templates/${template.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    } else {
+      setError('Failed to delete template');
+    }
+  };
+
+  const q = query.trim().toLowerCase();
+  const filtered = q
+    ? templates.filter(
+      (t) => t.name.toLowerCase().includes(q) || (t.description || '').toLowerCase().includes(q)
+    )
+    : templates;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <div className="flex items-center gap-2">
+            <LayoutTemplate size={18} className="text-indigo-400" />
+            <h3 className="text-lg font-semibold text-white">Templates</h3>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-zinc-800">
+          <div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2">
+            <Search size={14} className="text-zinc-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search templates..."
+              autoFocus
+              className="flex-1 bg-transparent text-sm text-white placeholder-zinc-500 focus:outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {loading && (
+            <div className="flex justify-center py-10 text-zinc-500">
+              <Loader2 size={20} className="animate-spin" />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {!loading && !error && filtered.length === 0 && (
+            <p className="text-center py-10 text-sm text-zinc-500">
+              {templates.length === 0
+                ? 'No templates yet. Save a selection or a lesson from the editor sidebar.'
+                : 'No templates match your search.'}
+            </p>
+          )}
+          {filtered.map((template) => (
+            <div
+              key={template.id}
+              className="group flex items-start gap-3 p-3 rounded-xl border border-zinc-800 hover:border-indigo-500/50 hover:bg-zinc-800/40 transition-colors"
+            >
+              <button
+                onClick={() => {
+                  onInsert(template);
+                  onClose();
+                }}
+                className="flex-1 min-w-0 text-left"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-white truncate">{template.name}</span>
+                  <span className="text-[10px] uppercase tracking-wide text-zinc-500">
+                    {template.kind} · v{template.version}
+                  </span>
+                  {template.linked && (
+                    <span className="flex items-center gap-0.5 text-[10px] text-indigo-300">
+                      <Link2 size={10} /> linked
+                    </span>
+                  )}
+                </div>
+                {template.description && (
+                  <p className="mt-0.5 text-xs text-zinc-400 line-clamp-2">{template.description}</p>
+                )}
+              </button>
+              <button
+                onClick={() => handleDelete(template)}
+                className="p-1 text-zinc-600 opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all"
+                title="Delete template"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface SaveTemplateModalProps {
+  open: boolean;
+  kind: TemplateKind;
+  content: TiptapNode[];
+  onClose: () => void;
+  onSaved?: (template: ContentTemplate) => void;
+}
+
+export function SaveTemplateModal({ open, kind, content, onClose, onSaved }: SaveTemplateModalProps) {
+  const [templates, setTemplates] = useState<ContentTemplate[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [linked, setLinked] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setTargetId('');
+    setName('');
+    setDescription('');
+    setLinked(false);
+    setMessage(null);
+    fetchTemplates().then(setTemplates).catch(() => setTemplates([]));
+  }, [open]);
+
+  if (!open) return null;
+
+  const target = templates.find((t) => t.id === targetId);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = target
+        ? await authenticatedFetch(`/api/admin/templates/${target.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content }),
+        })
+        : await authenticatedFetch('/api/admin/templates', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, description, kind, linked, content }),
+        });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data.error || 'Failed to save template');
+        return;
+      }
+
+      onSaved?.(data.template);
+      if (data.failedCourses?.length) {
+        alert(`Saved v${data.template.version}. Updated ${data.syncedCourses.length} course draft(s); could not update ${data.failedCourses.join(', ')} - save the template again to retry.`);
+      } else if (data.syncedCourses?.length) {
+        alert(`Saved v${data.template.version}. Updated ${data.syncedCourses.length} course draft(s) using this snippet.`);
+      }
+      onClose();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = content.length > 0 && (target || name.trim());
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-5 border-b border-zinc-800">
+          <h3 className="text-lg font-semibold text-white">
+            Save {kind === 'lesson' ? 'lesson' : 'selection'} as template
+          </h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3">
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+          >
+            <option value="">New template</option>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>
+                Update &quot;{t.name}&quot; (v{t.version} → v{t.version + 1})
+              </option>
+            ))}
+          </select>
+
+          {target ? (
+            <p className="text-xs text-zinc-400">
+              {target.linked
+                ? 'This is a linked snippet: every course draft using it will be updated.'
+                : 'Existing copies are not changed; new inserts use the new version.'}
+            </p>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Template name"
+                maxLength={120}
+                autoFocus
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500"
+              />
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Description (optional)"
+                rows={2}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500 resize-none"
+              />
+              <label className="flex items-start gap-2 text-sm text-zinc-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={linked}
+                  onChange={(e) => setLinked(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-indigo-500 focus:ring-indigo-500"
+                />
+                <span>
+                  Linked snippet
+                  <span className="block text-xs text-zinc-500">
+                    Inserted copies update everywhere when this template changes
+                  </span>
+                </span>
+              </label>
+            </>
+          )}
+
+          {message && <p className="text-sm text-red-400">{message}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t border-zinc-800">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave || saving}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {saving && <Loader2 size={14} className="animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { AlertTriangle, GitMerge, RefreshCw, X } from 'lucide-react';
+import type { VersionConflictResponse } from '@/lib/storage/course-versioning';
+
+interface VersionConflictModalProps {
+  conflict: VersionConflictResponse | null;
+  onMerge: () => void;
+  onReload: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shown when a save/checkpoint gets a 409 because another admin
+ * saved a newer version of the course in the meantime.
+ */
+export function VersionConflictModal({
+  conflict,
+  onMerge,
+  onReload,
+  onClose,
+}: VersionConflictModalProps) {
+  if (!conflict) return null;
+
+  const { structure, lessons } = conflict.conflict;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl w-full max-w-md p-6 space-y-4">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-2">
+            <AlertTriangle size={18} className="text-amber-400" />
+            <h3 className="text-lg font-semibold text-white">
+              Newer version exists
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-300 transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-sm text-zinc-400">
+          Someone saved this course after you opened it. Your changes were not
+          saved.
+        </p>
+
+        <ul className="text-xs text-zinc-400 space-y-1 max-h-40 overflow-y-auto bg-zinc-950 border border-zinc-800 rounded-lg p-3">
+          {structure && (
+            <li>
+              Lessons or sections were added, removed or reordered (v
+              {structure.expected} → v{structure.current})
+            </li>
+          )}
+          {lessons.map((lesson) => (
+            <li key={lesson.id}>
+              <span className="text-zinc-200">{lesson.title}</span> (v
+              {lesson.expected} → v{lesson.current})
+            </li>
+          ))}
+        </ul>
+
+        <p className="text-xs text-zinc-500">
+          Merge keeps your edited lessons and takes everything else from the
+          server. Reload discards your unsaved changes.
+        </p>
+
+        <div className="flex gap-3 pt-2">
+          <button
+            onClick={onReload}
+            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors"
+          >
+            <RefreshCw size={14} />
+            Reload
+          </button>
+          <button
+            onClick={onMerge}
+            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition-colors"
+          >
+            <GitMerge size={14} />
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
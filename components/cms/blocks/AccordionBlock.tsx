@@ -0,0 +1,31 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { ChevronRight } from 'lucide-react';
+
+interface AccordionBlockProps {
+  title: string;
+  defaultOpen?: boolean;
+  children: ReactNode;
+}
+
+// Native <details> so it also works without JS (offline export uses the same markup)
+export function AccordionBlock({ title, defaultOpen, children }: AccordionBlockProps) {
+  return (
+    <details
+      open={defaultOpen}
+      className="group my-4 rounded-xl border border-neutral-200 dark:border-zinc-700/60 overflow-hidden"
+    >
+      <summary className="flex cursor-pointer list-none items-center gap-2 px-4 py-3 font-semibold bg-neutral-50 dark:bg-zinc-900 [&::-webkit-details-marker]:hidden">
+        <ChevronRight
+          size={16}
+          className="shrink-0 transition-transform group-open:rotate-90"
+        />
+        {title}
+      </summary>
+      <div className="px-4 py-3 [&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+        {children}
+      </div>
+    </details>
+  );
+}
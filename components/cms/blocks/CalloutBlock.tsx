@@ -0,0 +1,60 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Info, AlertTriangle, Lightbulb, OctagonAlert, LucideIcon } from 'lucide-react';
+import type { CalloutVariant } from '@/lib/cms/types';
+
+// Shared with the editor node view so both look the same
+export const CALLOUT_VARIANTS: Record<
+  CalloutVariant,
+  { label: string; icon: LucideIcon; className: string; iconClassName: string }
+> = {
+  info: {
+    label: 'Info',
+    icon: Info,
+    className: 'border-blue-500/40 bg-blue-500/10',
+    iconClassName: 'text-blue-500',
+  },
+  warning: {
+    label: 'Warning',
+    icon: AlertTriangle,
+    className: 'border-amber-500/40 bg-amber-500/10',
+    iconClassName: 'text-amber-500',
+  },
+  tip: {
+    label: 'Tip',
+    icon: Lightbulb,
+    className: 'border-emerald-500/40 bg-emerald-500/10',
+    iconClassName: 'text-emerald-500',
+  },
+  danger: {
+    label: 'Danger',
+    icon: OctagonAlert,
+    className: 'border-red-500/40 bg-red-500/10',
+    iconClassName: 'text-red-500',
+  },
+};
+
+interface CalloutBlockProps {
+  variant: CalloutVariant;
+  title?: string;
+  children: ReactNode;
+}
+
+export function CalloutBlock({ variant, title, children }: CalloutBlockProps) {
+  const meta = CALLOUT_VARIANTS[variant] || CALLOUT_VARIANTS.info;
+  const Icon = meta.icon;
+
+  return (
+    <aside
+      role="note"
+      className={`my-4 flex gap-3 rounded-xl border-l-4 border px-4 py-3 ${meta.className}`}
+    >
+      <Icon size={18} className={`mt-0.5 shrink-0 ${meta.iconClassName}`} />
+      <div className="min-w-0 flex-1 [&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+        <p className="mt-0 mb-1 font-semibold">{title || meta.label}</p>
+        {children}
+      </div>
+    </aside>
+  );
+}
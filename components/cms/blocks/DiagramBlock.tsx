@@ -0,0 +1,31 @@
+"use client";
+
+import { DiagramComponent } from "@/lib/cms/types";
+import { MermaidDiagram } from "@/components/cms/MermaidDiagram";
+
+interface DiagramBlockProps {
+    component: DiagramComponent;
+    isEditing?: boolean;
+    isSelected?: boolean;
+    onSelect?: () => void;
+}
+
+export function DiagramBlock({ component, isEditing, isSelected, onSelect }: DiagramBlockProps) {
+    const containerStyle = {
+        marginTop: component.margin?.top ? `${component.margin.top}px` : undefined,
+        marginBottom: component.margin?.bottom ? `${component.margin.bottom}px` : undefined,
+    };
+
+    return (
+        <div
+            onClick={isEditing ? onSelect : undefined}
+            style={containerStyle}
+            className={`my-4 ${isEditing
+                ? `cursor-pointer rounded-lg p-2 transition-all ${isSelected ? "ring-2 ring-indigo-500 bg-indigo-500/10" : "hover:bg-white/5"}`
+                : ""
+                }`}
+        >
+            <MermaidDiagram source={component.source || ""} />
+        </div>
+    );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { ExerciseComponent } from '@/lib/cms/types';
+import { useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import {
+  Dumbbell,
+  CheckCircle,
+  XCircle,
+  Loader2,
+  Send,
+  EyeOff,
+} from 'lucide-react';
+import { CodeRunPanel } from '@/components/cms/CodeRunPanel';
+import { gradeExercise, type ExerciseGrade } from '@/lib/sandbox/exercise-grader';
+import { hybridStorage } from '@/lib/storage/hybrid-storage';
+import type { ExerciseProgress } from '@/lib/firebase/types';
+
+const SOLUTION_FILENAMES = {
+  javascript: 'solution.js',
+  typescript: 'solution.ts',
+  python: 'solution.py',
+} as const;
+
+interface ExerciseBlockProps {
+  component: ExerciseComponent;
+  isEditing?: boolean;
+  isSelected?: boolean;
+  onUpdate?: (component: ExerciseComponent) => void;
+  onSelect?: () => void;
+  lessonId?: string;
+}
+
+export function ExerciseBlock({
+  component,
+  isEditing,
+  isSelected,
+  onSelect,
+  lessonId,
+}: ExerciseBlockProps) {
+  const [code, setCode] = useState(component.starterCode);
+  const [grading, setGrading] = useState(false);
+  const [grade, setGrade] = useState<ExerciseGrade | null>(null);
+  const [best, setBest] = useState<ExerciseProgress | null>(() =>
+    lessonId && typeof window !== 'undefined'
+      ? hybridStorage.progress.getExerciseResult(lessonId, component.exerciseId)
+      : null
+  );
+
+  const containerStyle = {
+    marginTop: component.margin?.top ? `${component.margin.top}px` : undefined,
+    marginBottom: component.margin?.bottom
+      ? `${component.margin.bottom}px`
+      : undefined,
+  };
+
+  const filename = SOLUTION_FILENAMES[component.language] || 'solution.js';
+
+  const handleSubmit = async () => {
+    if (grading) return;
+    setGrading(true);
+    try {
+      const result = await gradeExercise(component, code);
+      setGrade(result);
+
+      const user = hybridStorage.auth.getSession();
+      if (user && lessonId) {
+        setBest(
+          hybridStorage.progress.recordExercise(
+            user.id,
+            lessonId,
+            component.exerciseId,
+            { passed: result.passed, total: result.total }
+          )
+        );
+      }
+    } catch (error) {
+      console.error('❌ Exercise grading failed:', error);
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  // Editor view - authoring happens in the Tiptap node, this is a summary
+  if (isEditing) {
+    return (
+      <div
+        onClick={onSelect}
+        style={containerStyle}
+        className={`cursor-pointer rounded-lg border border-zinc-700 bg-zinc-900 p-4 transition-all ${isSelected ? 'ring-2 ring-indigo-500' : 'hover:ring-1 hover:ring-zinc-600'
+          }`}
+      >
+        <div className="flex items-center gap-2 text-xs text-emerald-400 uppercase tracking-wide">
+          <Dumbbell size={14} />
+          Exercise · {component.language}
+        </div>
+        <p className="mt-1 text-white font-semibold">{component.title}</p>
+        <p className="text-xs text-zinc-500">{component.tests.length} tests</p>
+      </div>
+    );
+  }
+
+  const allPassed = !!grade && grade.total > 0 && grade.passed === grade.total;
+
+  return (
+    <div
+      style={containerStyle}
+      className="rounded-xl overflow-hidden border border-zinc-700/50 bg-[#1a1a1a]"
+    >
+      {/* Header */}
+      <div className="px-4 py-3 bg-zinc-900 border-b border-zinc-700/50">
+        <div className="flex items-center gap-2 text-xs text-emerald-400 uppercase tracking-wide">
+          <Dumbbell size={14} />
+          Exercise
+          {best && (
+            <span className="ml-auto normal-case tracking-normal text-zinc-400">
+              {best.completedAt ? '✓ Solved' : `Best: ${best.passed}/${best.total}`}
+            </span>
+          )}
+        </div>
+        <h3 className="mt-1 text-base font-semibold text-white">
+          {component.title}
+        </h3>
+        {component.prompt && (
+          <p className="mt-1 text-sm text-zinc-300 whitespace-pre-wrap">
+            {component.prompt}
+          </p>
+        )}
+      </div>
+
+      {/* Code editor */}
+      <div className="relative min-h-[160px] overflow-hidden">
+        <SyntaxHighlighter
+          language={component.language}
+          style={atomDark}
+          showLineNumbers={false}
+          wrapLines={false}
+          wrapLongLines={false}
+          customStyle={{
+            margin: 0,
+            borderRadius: 0,
+            background: 'transparent',
+            padding: '12px 16px',
+            minHeight: '160px',
+            fontSize: '13px',
+            lineHeight: '20px',
+            fontFamily:
+              'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+            pointerEvents: 'none',
+            whiteSpace: 'pre',
+            overflowX: 'auto',
+          }}
+          codeTagProps={{
+            style: {
+              fontFamily: 'inherit',
+              fontSize: 'inherit',
+              lineHeight: 'inherit',
+            },
+          }}
+        >
+          {code || ' '}
+        </SyntaxHighlighter>
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="absolute inset-0 w-full h-full bg-transparent text-transparent caret-white focus:outline-none resize-none"
+          style={{
+            padding: '12px 16px',
+            fontSize: '13px',
+            lineHeight: '20px',
+            fontFamily:
+              'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+            whiteSpace: 'pre',
+            overflowWrap: 'normal',
+            wordWrap: 'normal',
+          }}
+          spellCheck={false}
+        />
+      </div>
+
+      {/* Scratch run - no grading */}
+      <CodeRunPanel
+        files={[{ id: 'solution', filename, language: component.language, code }]}
+        onReset={() => {
+          setCode(component.starterCode);
+          setGrade(null);
+        }}
+      />
+
+      {/* Submit + results */}
+      <div className="border-t border-zinc-700/50 px-3 py-2 text-xs">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleSubmit}
+            disabled={grading || component.tests.length === 0}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium transition-colors"
+          >
+            {grading ? (
+              <Loader2 size={12} className="animate-spin" />
+            ) : (
+              <Send size={12} />
+            )}
+            Submit
+          </button>
+          {grade && (
+            <span className={allPassed ? 'text-green-400' : 'text-amber-400'}>
+              {grade.passed}/{grade.total} tests passed
+            </span>
+          )}
+        </div>
+
+        {grade && (
+          <ul className="mt-2 space-y-1">
+            {grade.results.map((result, index) => (
+              <li key={result.id} className="flex items-start gap-2">
+                {result.passed ? (
+                  <CheckCircle size={14} className="text-green-400 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle size={14} className="text-red-400 shrink-0 mt-0.5" />
+                )}
+                <div className="min-w-0">
+                  <span className="text-zinc-200">
+                    {result.hidden ? (
+                      <>
+                        <EyeOff size={11} className="inline mr-1 opacity-60" />
+                        Hidden test {index + 1}
+                      </>
+                    ) : (
+                      result.name
+                    )}
+                  </span>
+                  {!result.passed && !result.hidden && result.message && (
+                    <pre className="mt-0.5 text-red-300 whitespace-pre-wrap break-words font-mono">
+                      {result.message}
+                    </pre>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {grade?.error && (
+          <pre className="mt-2 text-red-300 whitespace-pre-wrap break-words font-mono">
+            {grade.error}
+          </pre>
+        )}
+
+        {grade && grade.output.length > 0 && (
+          <pre className="mt-2 max-h-40 overflow-y-auto text-zinc-400 whitespace-pre-wrap break-words font-mono">
+            {grade.output.map((line) => line.text).join('\n')}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useMemo } from "react";
+import { MathComponent } from "@/lib/cms/types";
+import { renderMath } from "@/lib/cms/math";
+
+interface MathBlockProps {
+    component: MathComponent;
+    isEditing?: boolean;
+    isSelected?: boolean;
+    onSelect?: () => void;
+}
+
+export function MathBlock({ component, isEditing, isSelected, onSelect }: MathBlockProps) {
+    const html = useMemo(() => renderMath(component.latex || "", true), [component.latex]);
+
+    const containerStyle = {
+        marginTop: component.margin?.top ? `${component.margin.top}px` : undefined,
+        marginBottom: component.margin?.bottom ? `${component.margin.bottom}px` : undefined,
+    };
+
+    return (
+        <div
+            onClick={isEditing ? onSelect : undefined}
+            style={containerStyle}
+            className={`math-block my-4 overflow-x-auto ${isEditing
+                ? `cursor-pointer rounded-lg p-2 transition-all ${isSelected ? "ring-2 ring-indigo-500 bg-indigo-500/10" : "hover:bg-white/5"}`
+                : ""
+                }`}
+            dangerouslySetInnerHTML={{ __html: html }}
+        />
+    );
+}
@@ -4,8 +4,9 @@ import { MultiFileCodeComponent, CodeFile } from '@/lib/cms/types';
 import { useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Plus, X } from 'lucide-react';
+import { Plus, X, Lock } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { CodeRunPanel } from '@/components/cms/CodeRunPanel';
 
 // Language mapping from file extension
 const EXTENSION_TO_LANGUAGE: Record<string, string> = {
@@ -101,9 +102,13 @@ export function MultiFileCodeBlock({
     component.activeFileId || component.files[0]?.id
   );
   const [editingFilename, setEditingFilename] = useState<string | null>(null);
+  // Students' edits in run mode stay local to the page
+  const [studentFiles, setStudentFiles] = useState<CodeFile[]>(component.files);
 
   const activeFile =
     component.files.find((f) => f.id === activeTab) || component.files[0];
+  const activeStudentFile =
+    studentFiles.find((f) => f.id === activeTab) || studentFiles[0];
 
   const containerStyle = {
     marginTop: component.margin?.top ? `${component.margin.top}px` : undefined,
@@ -303,10 +308,20 @@ export function MultiFileCodeBlock({
             />
           </div>
         )}
+
+        {component.runnable && (
+          <div onClick={(e) => e.stopPropagation()}>
+            <CodeRunPanel files={component.files} activeFileId={activeTab} />
+          </div>
+        )}
       </div>
     );
   }
 
+  const studentFontSize = component.fontSize
+    ? `${component.fontSize}px`
+    : '13px';
+
   // Student/Preview view
   return (
     <div
@@ -346,13 +361,76 @@ export function MultiFileCodeBlock({
                 }`}
             >
               {file.filename}
+              {component.runnable && file.readOnly && (
+                <Lock size={10} className="inline ml-1 -mt-0.5 opacity-60" />
+              )}
             </button>
           ))}
         </div>
       </div>
 
+      {/* Editable code for run mode */}
+      {component.runnable && activeStudentFile && !activeStudentFile.readOnly && (
+        <div className="relative min-h-[120px] overflow-hidden bg-[#1a1a1a]">
+          <SyntaxHighlighter
+            language={detectLanguage(activeStudentFile.filename)}
+            style={atomDark}
+            showLineNumbers={false}
+            wrapLines={false}
+            wrapLongLines={false}
+            customStyle={{
+              margin: 0,
+              borderRadius: 0,
+              background: 'transparent',
+              padding: '12px 16px',
+              minHeight: '120px',
+              fontSize: studentFontSize,
+              lineHeight: '20px',
+              fontFamily:
+                'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+              pointerEvents: 'none',
+              whiteSpace: 'pre',
+              overflowX: 'auto',
+            }}
+            codeTagProps={{
+              style: {
+                fontFamily: 'inherit',
+                fontSize: 'inherit',
+                lineHeight: 'inherit',
+              },
+            }}
+          >
+            {activeStudentFile.code || ' '}
+          </SyntaxHighlighter>
+          <textarea
+            value={activeStudentFile.code}
+            onChange={(e) =>
+              setStudentFiles((files) =>
+                files.map((f) =>
+                  f.id === activeStudentFile.id
+                    ? { ...f, code: e.target.value }
+                    : f
+                )
+              )
+            }
+            className="absolute inset-0 w-full h-full bg-transparent text-transparent caret-white focus:outline-none resize-none"
+            style={{
+              padding: '12px 16px',
+              fontSize: studentFontSize,
+              lineHeight: '20px',
+              fontFamily:
+                'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+              whiteSpace: 'pre',
+              overflowWrap: 'normal',
+              wordWrap: 'normal',
+            }}
+            spellCheck={false}
+          />
+        </div>
+      )}
+
       {/* Syntax Highlighted Code */}
-      {activeFile && (
+      {activeFile && !(component.runnable && !activeFile.readOnly) && (
         <SyntaxHighlighter
           language={detectLanguage(activeFile.filename)}
           style={atomDark}
@@ -369,13 +447,21 @@ export function MultiFileCodeBlock({
             borderRadius: 0,
             background: '#1a1a1a',
             padding: '12px 0',
-            fontSize: component.fontSize ? `${component.fontSize}px` : '13px',
+            fontSize: studentFontSize,
             maxHeight: '320px', // Force max height
           }}
         >
           {activeFile.code}
         </SyntaxHighlighter>
       )}
+
+      {component.runnable && (
+        <CodeRunPanel
+          files={studentFiles}
+          activeFileId={activeTab}
+          onReset={() => setStudentFiles(component.files)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+
+interface TabsBlockProps {
+  tabs: { id: string; title: string; content: ReactNode }[];
+}
+
+export function TabsBlock({ tabs }: TabsBlockProps) {
+  const [activeId, setActiveId] = useState(tabs[0]?.id);
+  const active = tabs.find((t) => t.id === activeId) || tabs[0];
+
+  if (!active) return null;
+
+  return (
+    <div className="my-4 rounded-xl border border-neutral-200 dark:border-zinc-700/60 overflow-hidden">
+      <div
+        role="tablist"
+        className="flex overflow-x-auto border-b border-neutral-200 dark:border-zinc-700/60 bg-neutral-50 dark:bg-zinc-900"
+      >
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            role="tab"
+            aria-selected={tab.id === active.id}
+            onClick={() => setActiveId(tab.id)}
+            className={`px-4 py-2 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${tab.id === active.id
+              ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+              : 'border-transparent text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200'
+              }`}
+          >
+            {tab.title}
+          </button>
+        ))}
+      </div>
+      <div
+        role="tabpanel"
+        className="px-4 py-3 [&>*:first-child]:mt-0 [&>*:last-child]:mb-0"
+      >
+        {active.content}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { TextComponent } from "@/lib/cms/types";
 import { useState, useMemo } from "react";
 import { Sparkles, Wand2, Loader2 } from "lucide-react";
 import DOMPurify from "dompurify";
+import { renderMathPlaceholders } from "@/lib/cms/math";
 
 // Decode HTML entities that might be escaped in legacy content
 const decodeHTMLEntities = (html: string): string => {
@@ -67,6 +68,8 @@ export function TextBlock({
 
     // Memoize sanitized HTML for performance
     const sanitizedContent = useMemo(() => sanitizeHTML(component.content), [component.content]);
+    // Inline math is rendered after sanitizing, and only outside the editor
+    const displayContent = useMemo(() => renderMathPlaceholders(sanitizedContent), [sanitizedContent]);
 
     const handleAIImprovement = async (action: 'fix-typos' | 'paraphrase') => {
         if (!component.content || !onUpdate) return;
@@ -167,6 +170,6 @@ export function TextBlock({
         );
     }
 
-    return <div style={style} dangerouslySetInnerHTML={{ __html: sanitizedContent }} />;
+    return <div style={style} dangerouslySetInnerHTML={{ __html: displayContent }} />;
 }
 
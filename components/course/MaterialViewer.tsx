@@ -137,7 +137,7 @@ export function MaterialViewer({ lesson, onComplete, isCompleted, courseId, cour
                             courseTitle={courseTitle}
                         >
                             <div className="max-w-4xl mx-auto">
-                                <TiptapHtmlRenderer content={json as Parameters<typeof TiptapHtmlRenderer>[0]['content']} courseId={courseId} quizzes={quizzes} />
+                                <TiptapHtmlRenderer content={json as Parameters<typeof TiptapHtmlRenderer>[0]['content']} courseId={courseId} lessonId={lesson.id} quizzes={quizzes} />
                             </div>
                         </WatermarkedContent>
                     </div>
@@ -169,6 +169,7 @@ export function MaterialViewer({ lesson, onComplete, isCompleted, courseId, cour
                                     key={component.id}
                                     component={component}
                                     isEditing={false}
+                                    lessonId={lesson.id}
                                 />
                             ))}
                         </div>
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Sparkles, Loader2, Check, X } from "lucide-react";
+import type { QuizQuestion } from "@/lib/types";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import { questionTypeOf } from "@/lib/cms/quiz";
+import { DIFFICULTY_LABELS, TYPE_LABELS, generateId } from "@/components/quiz/QuestionListEditor";
+
+interface QuestionDraftsPanelProps {
+    courseId: string;
+    quizId: string;
+    onAccept: (question: QuizQuestion) => void;
+}
+
+// The correct answer of a draft, for review
+function answerSummary(question: QuizQuestion): string {
+    switch (question.type) {
+        case undefined:
+        case "single":
+            return question.options[question.correctIndex] ?? "";
+        case "multi":
+            return question.correctIndexes.map(i => question.options[i]).join(", ");
+        case "true_false":
+            return question.answer ? "True" : "False";
+        case "short_answer":
+            return question.accepted.join(" / ");
+        default:
+            return "";
+    }
+}
+
+// "Generate questions": Gemini drafts from a lesson, accepted one by one
+export function QuestionDraftsPanel({ courseId, quizId, onAccept }: QuestionDraftsPanelProps) {
+    const [lessons, setLessons] = useState<{ id: string; title: string }[]>([]);
+    const [lessonId, setLessonId] = useState("");
+    const [count, setCount] = useState(5);
+    const [drafts, setDrafts] = useState<QuizQuestion[]>([]);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`/api/courses/${courseId}/structure`)
+            .then(res => (res.ok ? res.json() : null))
+            .then(course => {
+                if (cancelled || !course?.lessons) return;
+                setLessons(course.lessons);
+                setLessonId(prev => prev || course.lessons[0]?.id || "");
+            })
+            .catch(() => {
+                // No lessons to pick from - generation stays disabled
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [courseId]);
+
+    const generate = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            const res = await authenticatedFetch(`/api/quiz/${courseId}/${quizId}/generate`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ lessonId, count }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error || "Failed to generate questions");
+            setDrafts(data.questions);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to generate questions");
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const accept = (draft: QuizQuestion) => {
+        onAccept({ ...draft, id: generateId() });
+        setDrafts(prev => prev.filter(d => d !== draft));
+    };
+
+    return (
+        <div className="mb-8 p-4 bg-zinc-900 rounded-xl border border-zinc-800">
+            <h3 className="text-sm font-medium text-zinc-400 mb-3">Generate Questions</h3>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-300">
+                From
+                <select
+                    value={lessonId}
+                    onChange={(e) => setLessonId(e.target.value)}
+                    className="flex-1 min-w-40 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white focus:outline-none focus:border-indigo-500"
+                >
+                    {lessons.map(lesson => (
+                        <option key={lesson.id} value={lesson.id}>{lesson.title}</option>
+                    ))}
+                </select>
+                <input
+                    type="number"
+                    value={count}
+                    onChange={(e) => setCount(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+                    className="w-16 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-center text-white focus:outline-none focus:border-indigo-500"
+                    min={1}
+                    max={10}
+                />
+                questions
+                <button
+                    onClick={generate}
+                    disabled={!lessonId || isGenerating}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+                >
+                    {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+                    Generate
+                </button>
+            </div>
+            {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+
+            {drafts.length > 0 && (
+                <div className="mt-4 space-y-3">
+                    <p className="text-xs text-zinc-500">
+                        AI drafts - check each one before accepting it into the quiz.
+                    </p>
+                    {drafts.map(draft => (
+                        <div key={draft.id} className="p-3 bg-zinc-800/50 rounded-lg space-y-1">
+                            <div className="flex items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-xs text-zinc-500">
+                                        {TYPE_LABELS[questionTypeOf(draft)]}
+                                        {draft.difficulty && ` · ${DIFFICULTY_LABELS[draft.difficulty]}`}
+                                        {draft.topic && ` · ${draft.topic}`}
+                                    </p>
+                                    <p className="text-white">{draft.text}</p>
+                                </div>
+                                <div className="flex gap-1 shrink-0">
+                                    <button
+                                        onClick={() => accept(draft)}
+                                        className="p-1.5 text-green-400 hover:bg-green-500/10 rounded"
+                                        title="Accept"
+                                    >
+                                        <Check size={16} />
+                                    </button>
+                                    <button
+                                        onClick={() => setDrafts(prev => prev.filter(d => d !== draft))}
+                                        className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-red-500/10 rounded"
+                                        title="Discard"
+                                    >
+                                        <X size={16} />
+                                    </button>
+                                </div>
+                            </div>
+                            {"options" in draft && (
+                                <ul className="text-sm text-zinc-400 list-disc pl-5">
+                                    {draft.options.map((option, i) => <li key={i}>{option}</li>)}
+                                </ul>
+                            )}
+                            <p className="text-sm text-green-400">Answer: {answerSummary(draft)}</p>
+                            {draft.explanation && <p className="text-sm text-zinc-400">{draft.explanation}</p>}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default QuestionDraftsPanel;
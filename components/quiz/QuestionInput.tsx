@@ -0,0 +1,176 @@
+"use client";
+
+import { ChevronUp, ChevronDown, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { splitBlanks, type QuizAnswer, type StudentQuizQuestion } from "@/lib/cms/quiz";
+
+interface QuestionInputProps {
+    question: StudentQuizQuestion;
+    answer: QuizAnswer | null | undefined;
+    onChange: (answer: QuizAnswer | null) => void;
+    large?: boolean;            // Full-page player
+}
+
+const textInputClass = "bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:border-teal-500";
+
+// Answer controls for one question, whatever its type
+export function QuestionInput({ question, answer, onChange, large }: QuestionInputProps) {
+    const choice = (key: string | number, label: string, selected: boolean, onClick: () => void, square?: boolean) => (
+        <button
+            key={key}
+            onClick={onClick}
+            className={cn(
+                "w-full flex items-center p-4 border text-left transition-all",
+                large ? "gap-4 rounded-xl" : "gap-3 rounded-lg",
+                selected
+                    ? "border-teal-500 bg-teal-500/10 text-white"
+                    : "border-zinc-700 bg-zinc-800/50 text-zinc-300 hover:border-zinc-600"
+            )}
+        >
+            <div className={cn(
+                "border-2 flex items-center justify-center flex-shrink-0",
+                large ? "w-6 h-6" : "w-5 h-5",
+                square ? "rounded" : "rounded-full",
+                selected ? "border-teal-500 bg-teal-500" : "border-zinc-600"
+            )}>
+                {selected && (square
+                    ? <Check size={large ? 16 : 14} className="text-white" />
+                    : <div className={cn("rounded-full bg-white", large ? "w-2.5 h-2.5" : "w-2 h-2")} />)}
+            </div>
+            <span className={large ? "text-lg" : undefined}>{label}</span>
+        </button>
+    );
+
+    // List answers (ordering, matching, blanks) start from what is on screen
+    const listAnswer = (fallback: string[]) => (Array.isArray(answer) ? (answer as string[]) : fallback);
+    const setListItem = (list: string[], index: number, value: string) => {
+        const next = list.map((item, i) => (i === index ? value : item));
+        onChange(next.some(item => item.trim()) ? next : null);
+    };
+
+    switch (question.type) {
+        case "single":
+            return (
+                <div className="space-y-3">
+                    {question.options.map((option, index) => choice(index, option, answer === index, () => onChange(index)))}
+                </div>
+            );
+        case "multi": {
+            const picked = Array.isArray(answer) ? (answer as number[]) : [];
+            const toggle = (index: number) => {
+                const next = picked.includes(index) ? picked.filter(i => i !== index) : [...picked, index].sort((a, b) => a - b);
+                onChange(next.length > 0 ? next : null);
+            };
+            return (
+                <div className="space-y-3">
+                    <p className="text-sm text-zinc-500">Pilih semua jawaban yang benar.</p>
+                    {question.options.map((option, index) => choice(index, option, picked.includes(index), () => toggle(index), true))}
+                </div>
+            );
+        }
+        case "true_false":
+            return (
+                <div className="space-y-3">
+                    {choice("true", "Benar", answer === true, () => onChange(true))}
+                    {choice("false", "Salah", answer === false, () => onChange(false))}
+                </div>
+            );
+        case "short_answer":
+            return (
+                <input
+                    type="text"
+                    value={typeof answer === "string" ? answer : ""}
+                    onChange={(e) => onChange(e.target.value.trim() ? e.target.value : null)}
+                    placeholder="Ketik jawaban Anda"
+                    maxLength={500}
+                    className={cn("w-full", textInputClass, large && "text-lg p-4")}
+                />
+            );
+        case "ordering": {
+            const order = listAnswer(question.items);
+            const move = (from: number, to: number) => {
+                if (to < 0 || to >= order.length) return;
+                const next = [...order];
+                [next[from], next[to]] = [next[to], next[from]];
+                onChange(next);
+            };
+            return (
+                <div className="space-y-2">
+                    <p className="text-sm text-zinc-500">Urutkan dengan tombol panah.</p>
+                    {order.map((item, index) => (
+                        <div
+                            key={item}
+                            className="flex items-center gap-3 p-3 rounded-lg border border-zinc-700 bg-zinc-800/50 text-zinc-200"
+                        >
+                            <span className="w-6 text-center text-sm text-zinc-500">{index + 1}</span>
+                            <span className={cn("flex-1", large && "text-lg")}>{item}</span>
+                            <button
+                                onClick={() => move(index, index - 1)}
+                                disabled={index === 0}
+                                className="p-1 text-zinc-400 hover:text-white disabled:opacity-30"
+                                aria-label="Naik"
+                            >
+                                <ChevronUp size={18} />
+                            </button>
+                            <button
+                                onClick={() => move(index, index + 1)}
+                                disabled={index === order.length - 1}
+                                className="p-1 text-zinc-400 hover:text-white disabled:opacity-30"
+                                aria-label="Turun"
+                            >
+                                <ChevronDown size={18} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+        case "matching": {
+            const picks = listAnswer(question.left.map(() => ""));
+            return (
+                <div className="space-y-2">
+                    {question.left.map((left, index) => (
+                        <div key={index} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
+                            <span className={cn("flex-1 text-zinc-200", large && "text-lg")}>{left}</span>
+                            <select
+                                value={picks[index] || ""}
+                                onChange={(e) => setListItem(picks, index, e.target.value)}
+                                className={cn("sm:w-1/2", textInputClass)}
+                            >
+                                <option value="">Pilih pasangan...</option>
+                                {question.right.map(right => (
+                                    <option key={right} value={right}>{right}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+        case "fill_blank": {
+            const parts = splitBlanks(question.text);
+            const filled = listAnswer(Array.from({ length: question.blankCount }, () => ""));
+            return (
+                <p className={cn("text-zinc-200 leading-loose", large && "text-lg")}>
+                    {parts.map((part, index) => (
+                        <span key={index}>
+                            {part}
+                            {index < question.blankCount && (
+                                <input
+                                    type="text"
+                                    value={filled[index] || ""}
+                                    onChange={(e) => setListItem(filled, index, e.target.value)}
+                                    maxLength={500}
+                                    aria-label={`Isian ${index + 1}`}
+                                    className={cn("mx-1 w-32 py-1", textInputClass)}
+                                />
+                            )}
+                        </span>
+                    ))}
+                </p>
+            );
+        }
+    }
+}
+
+export default QuestionInput;
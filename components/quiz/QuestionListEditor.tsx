@@ -0,0 +1,453 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, Trash2, GripVertical, Check, ChevronDown, ChevronUp, X } from "lucide-react";
+import type { AcceptedAnswer, AnswerMatcher, QuestionDifficulty, QuizQuestion, QuizQuestionType } from "@/lib/types";
+import {
+    ANSWER_MATCHERS,
+    QUESTION_DIFFICULTIES,
+    QUESTION_TYPES,
+    blankQuestion,
+    countBlanks,
+    questionTypeOf,
+} from "@/lib/cms/quiz";
+
+// Generate unique ID
+export function generateId(): string {
+    return `q-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export const TYPE_LABELS: Record<QuizQuestionType, string> = {
+    single: "Single choice",
+    multi: "Multiple select",
+    true_false: "True / false",
+    short_answer: "Short answer",
+    ordering: "Ordering",
+    matching: "Matching",
+    fill_blank: "Fill in the blank",
+};
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+    easy: "Easy",
+    medium: "Medium",
+    hard: "Hard",
+};
+
+const MATCHER_LABELS: Record<AnswerMatcher, string> = {
+    exact: "Exact",
+    case_insensitive: "Ignore case",
+    regex: "Regex",
+    numeric: "Number",
+};
+
+const inputClass = "flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500";
+
+// Copy of a list without the item at index
+const withoutIndex = <T,>(items: T[], index: number) => items.filter((_, i) => i !== index);
+
+function RemoveButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
+    return (
+        <button
+            onClick={onClick}
+            disabled={disabled}
+            className="p-1 text-zinc-500 hover:text-red-400 disabled:opacity-30"
+            title="Remove"
+        >
+            <X size={16} />
+        </button>
+    );
+}
+
+function AddButton({ onClick, label }: { onClick: () => void; label: string }) {
+    return (
+        <button
+            onClick={onClick}
+            className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300"
+        >
+            <Plus size={14} />
+            {label}
+        </button>
+    );
+}
+
+// Accepted answers (one per line) and how typed answers are compared with them
+function AcceptedEditor({ spec, onChange, label }: { spec: AcceptedAnswer; onChange: (spec: AcceptedAnswer) => void; label: string }) {
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-3">
+                <span className="text-xs text-zinc-500 flex-1">{label}</span>
+                <select
+                    value={spec.matcher}
+                    onChange={(e) => onChange({ ...spec, matcher: e.target.value as AnswerMatcher })}
+                    className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                >
+                    {ANSWER_MATCHERS.map(matcher => (
+                        <option key={matcher} value={matcher}>{MATCHER_LABELS[matcher]}</option>
+                    ))}
+                </select>
+                {spec.matcher === "numeric" && (
+                    <label className="flex items-center gap-1 text-xs text-zinc-400">
+                        ±
+                        <input
+                            type="number"
+                            value={spec.tolerance ?? 0}
+                            onChange={(e) => onChange({ ...spec, tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-20 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-center text-white focus:outline-none focus:border-indigo-500"
+                            min={0}
+                            step="any"
+                        />
+                    </label>
+                )}
+            </div>
+            <textarea
+                value={spec.accepted.join("\n")}
+                onChange={(e) => onChange({ ...spec, accepted: e.target.value.split("\n") })}
+                placeholder={spec.matcher === "regex" ? "^colou?r$ (one pattern per line)" : "One accepted answer per line"}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500 resize-none font-mono"
+                rows={2}
+            />
+        </div>
+    );
+}
+
+// The answer part of a question, per type
+function AnswerEditor({ question, onChange }: { question: QuizQuestion; onChange: (question: QuizQuestion) => void }) {
+    switch (question.type) {
+        case undefined:
+        case "single":
+        case "multi": {
+            const isCorrect = (i: number) => question.type === "multi" ? question.correctIndexes.includes(i) : question.correctIndex === i;
+            const toggleCorrect = (i: number) => {
+                if (question.type !== "multi") return onChange({ ...question, correctIndex: i });
+                const indexes = isCorrect(i) ? question.correctIndexes.filter(c => c !== i) : [...question.correctIndexes, i];
+                onChange({ ...question, correctIndexes: indexes.sort((a, b) => a - b) });
+            };
+            const setOption = (i: number, value: string) =>
+                onChange({ ...question, options: question.options.map((o, j) => (j === i ? value : o)) });
+            const removeOption = (i: number) => {
+                const options = withoutIndex(question.options, i);
+                const shift = (c: number) => (c > i ? c - 1 : c);
+                if (question.type === "multi") {
+                    onChange({ ...question, options, correctIndexes: question.correctIndexes.filter(c => c !== i).map(shift) });
+                } else {
+                    onChange({ ...question, options, correctIndex: question.correctIndex === i ? 0 : shift(question.correctIndex) });
+                }
+            };
+
+            return (
+                <div className="space-y-2">
+                    {question.options.map((option, optIndex) => (
+                        <div key={optIndex} className="flex items-center gap-3">
+                            <button
+                                onClick={() => toggleCorrect(optIndex)}
+                                className={`
+                                    w-8 h-8 ${question.type === "multi" ? "rounded-lg" : "rounded-full"} border-2 flex items-center justify-center transition-all shrink-0
+                                    ${isCorrect(optIndex)
+                                        ? 'border-green-500 bg-green-500/20 text-green-400'
+                                        : 'border-zinc-600 hover:border-zinc-500 text-zinc-500'}
+                                `}
+                            >
+                                {isCorrect(optIndex) && <Check size={16} />}
+                            </button>
+                            <input
+                                type="text"
+                                value={option}
+                                onChange={(e) => setOption(optIndex, e.target.value)}
+                                placeholder={`Option ${optIndex + 1}`}
+                                className={inputClass}
+                            />
+                            <RemoveButton onClick={() => removeOption(optIndex)} disabled={question.options.length <= 2} />
+                        </div>
+                    ))}
+                    <AddButton onClick={() => onChange({ ...question, options: [...question.options, ""] })} label="Add option" />
+                </div>
+            );
+        }
+        case "true_false":
+            return (
+                <div className="flex gap-3">
+                    {[true, false].map(value => (
+                        <button
+                            key={String(value)}
+                            onClick={() => onChange({ ...question, answer: value })}
+                            className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 text-sm transition-all ${question.answer === value
+                                ? "border-green-500 bg-green-500/20 text-green-400"
+                                : "border-zinc-600 text-zinc-400 hover:border-zinc-500"}`}
+                        >
+                            {question.answer === value && <Check size={16} />}
+                            {value ? "True" : "False"}
+                        </button>
+                    ))}
+                </div>
+            );
+        case "short_answer":
+            return (
+                <AcceptedEditor
+                    spec={question}
+                    onChange={(spec) => onChange({ ...question, ...spec })}
+                    label="Accepted answers"
+                />
+            );
+        case "ordering":
+            return (
+                <div className="space-y-2">
+                    <p className="text-xs text-zinc-500">Items in the correct order (students see them shuffled)</p>
+                    {question.items.map((item, i) => (
+                        <div key={i} className="flex items-center gap-3">
+                            <span className="w-8 text-center text-sm text-zinc-500">{i + 1}.</span>
+                            <input
+                                type="text"
+                                value={item}
+                                onChange={(e) => onChange({ ...question, items: question.items.map((it, j) => (j === i ? e.target.value : it)) })}
+                                placeholder={`Item ${i + 1}`}
+                                className={inputClass}
+                            />
+                            <RemoveButton onClick={() => onChange({ ...question, items: withoutIndex(question.items, i) })} disabled={question.items.length <= 2} />
+                        </div>
+                    ))}
+                    <AddButton onClick={() => onChange({ ...question, items: [...question.items, ""] })} label="Add item" />
+                </div>
+            );
+        case "matching":
+            return (
+                <div className="space-y-2">
+                    <p className="text-xs text-zinc-500">Matching pairs (the right side is shuffled for students)</p>
+                    {question.pairs.map((pair, i) => (
+                        <div key={i} className="flex items-center gap-3">
+                            <input
+                                type="text"
+                                value={pair.left}
+                                onChange={(e) => onChange({ ...question, pairs: question.pairs.map((p, j) => (j === i ? { ...p, left: e.target.value } : p)) })}
+                                placeholder="Item"
+                                className={inputClass}
+                            />
+                            <span className="text-zinc-500">→</span>
+                            <input
+                                type="text"
+                                value={pair.right}
+                                onChange={(e) => onChange({ ...question, pairs: question.pairs.map((p, j) => (j === i ? { ...p, right: e.target.value } : p)) })}
+                                placeholder="Matches"
+                                className={inputClass}
+                            />
+                            <RemoveButton onClick={() => onChange({ ...question, pairs: withoutIndex(question.pairs, i) })} disabled={question.pairs.length <= 2} />
+                        </div>
+                    ))}
+                    <AddButton onClick={() => onChange({ ...question, pairs: [...question.pairs, { left: "", right: "" }] })} label="Add pair" />
+                </div>
+            );
+        case "fill_blank": {
+            const blankCount = countBlanks(question.text);
+            return (
+                <div className="space-y-3">
+                    <p className="text-xs text-zinc-500">
+                        Write ___ in the question for each blank.
+                        {blankCount !== question.blanks.length && (
+                            <span className="text-amber-500"> The question has {blankCount} blank{blankCount === 1 ? "" : "s"}.</span>
+                        )}
+                    </p>
+                    {question.blanks.map((blank, i) => (
+                        <div key={i} className="flex items-start gap-2">
+                            <div className="flex-1">
+                                <AcceptedEditor
+                                    spec={blank}
+                                    onChange={(spec) => onChange({ ...question, blanks: question.blanks.map((b, j) => (j === i ? spec : b)) })}
+                                    label={`Blank ${i + 1}`}
+                                />
+                            </div>
+                            <RemoveButton onClick={() => onChange({ ...question, blanks: withoutIndex(question.blanks, i) })} disabled={question.blanks.length <= 1} />
+                        </div>
+                    ))}
+                    <AddButton
+                        onClick={() => onChange({ ...question, blanks: [...question.blanks, { accepted: [""], matcher: "case_insensitive" as const }] })}
+                        label="Add blank"
+                    />
+                </div>
+            );
+        }
+    }
+}
+
+interface QuestionListEditorProps {
+    questions: QuizQuestion[];
+    onChange: (questions: QuizQuestion[]) => void;
+}
+
+// Add, reorder and edit questions of every type (quiz editor, question banks)
+export function QuestionListEditor({ questions, onChange }: QuestionListEditorProps) {
+    const [expandedQuestion, setExpandedQuestion] = useState<string | null>(null);
+
+    // Add question
+    const addQuestion = () => {
+        const newQuestion = blankQuestion('single', { id: generateId(), text: '' });
+        onChange([...questions, newQuestion]);
+        setExpandedQuestion(newQuestion.id);
+    };
+
+    // Update question
+    const updateQuestion = (question: QuizQuestion) => {
+        onChange(questions.map(q => (q.id === question.id ? question : q)));
+    };
+
+    // Switch type; text, explanation, tags and choice options carry over
+    const changeQuestionType = (question: QuizQuestion, type: QuizQuestionType) => {
+        if (questionTypeOf(question) === type) return;
+        updateQuestion(blankQuestion(type, question));
+    };
+
+    // Delete question
+    const deleteQuestion = (questionId: string) => {
+        onChange(questions.filter(q => q.id !== questionId));
+    };
+
+    // Move question
+    const moveQuestion = (fromIndex: number, toIndex: number) => {
+        if (toIndex < 0 || toIndex >= questions.length) return;
+        const newQuestions = [...questions];
+        const [moved] = newQuestions.splice(fromIndex, 1);
+        newQuestions.splice(toIndex, 0, moved);
+        onChange(newQuestions);
+    };
+
+    return (
+        <>
+            {questions.length === 0 ? (
+                <div className="text-center py-12 text-zinc-500 bg-zinc-900/50 rounded-xl border border-dashed border-zinc-700">
+                    <p className="mb-4">No questions yet. Add your first question!</p>
+                    <button
+                        onClick={addQuestion}
+                        className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-sm font-medium transition-colors"
+                    >
+                        <Plus size={16} />
+                        Add Question
+                    </button>
+                </div>
+            ) : (
+                <>
+                    {questions.map((question, index) => (
+                        <div
+                            key={question.id}
+                            className="bg-zinc-900 rounded-xl border border-zinc-800 overflow-hidden"
+                        >
+                            {/* Question Header */}
+                            <div
+                                className="flex items-center gap-3 p-4 cursor-pointer hover:bg-zinc-800/50 transition-colors"
+                                onClick={() => setExpandedQuestion(
+                                    expandedQuestion === question.id ? null : question.id
+                                )}
+                            >
+                                <GripVertical size={16} className="text-zinc-500 cursor-grab" />
+                                <span className="w-8 h-8 rounded-lg bg-indigo-500/20 text-indigo-400 font-medium flex items-center justify-center text-sm">
+                                    {index + 1}
+                                </span>
+                                <span className="flex-1 text-zinc-300 truncate">
+                                    {question.text || 'Untitled question'}
+                                </span>
+                                <span className="text-xs text-zinc-500 shrink-0">
+                                    {TYPE_LABELS[questionTypeOf(question)]}
+                                </span>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); moveQuestion(index, index - 1); }}
+                                        disabled={index === 0}
+                                        className="p-1 text-zinc-500 hover:text-white disabled:opacity-30"
+                                    >
+                                        <ChevronUp size={16} />
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); moveQuestion(index, index + 1); }}
+                                        disabled={index === questions.length - 1}
+                                        className="p-1 text-zinc-500 hover:text-white disabled:opacity-30"
+                                    >
+                                        <ChevronDown size={16} />
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); deleteQuestion(question.id); }}
+                                        className="p-1 text-zinc-500 hover:text-red-400"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Question Editor (Expanded) */}
+                            {expandedQuestion === question.id && (
+                                <div className="p-4 pt-0 space-y-4 border-t border-zinc-800">
+                                    {/* Question Type */}
+                                    <div className="flex items-center gap-2 pt-4">
+                                        <label className="text-xs text-zinc-500">Type</label>
+                                        <select
+                                            value={questionTypeOf(question)}
+                                            onChange={(e) => changeQuestionType(question, e.target.value as QuizQuestionType)}
+                                            className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-indigo-500"
+                                        >
+                                            {QUESTION_TYPES.map(type => (
+                                                <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+
+                                    {/* Question Text */}
+                                    <textarea
+                                        value={question.text}
+                                        onChange={(e) => updateQuestion({ ...question, text: e.target.value })}
+                                        placeholder={question.type === 'fill_blank' ? "The capital of France is ___." : "Enter your question..."}
+                                        className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500 resize-none"
+                                        rows={2}
+                                    />
+
+                                    {/* Answer */}
+                                    <AnswerEditor question={question} onChange={updateQuestion} />
+
+                                    {/* Tags (question banks draw by topic and difficulty) */}
+                            <div className="flex flex-wrap items-center gap-3">
+                                <input
+                                    type="text"
+                                    value={question.topic || ''}
+                                    onChange={(e) => updateQuestion({ ...question, topic: e.target.value || undefined })}
+                                    placeholder="Topic"
+                                    maxLength={60}
+                                    className="w-48 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500"
+                                />
+                                <select
+                                    value={question.difficulty || ''}
+                                    onChange={(e) => updateQuestion({ ...question, difficulty: (e.target.value || undefined) as QuestionDifficulty | undefined })}
+                                    className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                                >
+                                    <option value="">Any difficulty</option>
+                                    {QUESTION_DIFFICULTIES.map(difficulty => (
+                                        <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {/* Explanation */}
+                                    <div>
+                                        <label className="text-xs text-zinc-500 mb-1 block">Explanation (shown after answer)</label>
+                                        <textarea
+                                            value={question.explanation || ''}
+                                            onChange={(e) => updateQuestion({ ...question, explanation: e.target.value })}
+                                            placeholder="Explain why this answer is correct..."
+                                            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-indigo-500 resize-none"
+                                            rows={2}
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+
+                    {/* Add Question Button */}
+                    <button
+                        onClick={addQuestion}
+                        className="w-full py-4 border-2 border-dashed border-zinc-700 rounded-xl text-zinc-400 hover:text-white hover:border-indigo-500 transition-colors flex items-center justify-center gap-2"
+                    >
+                        <Plus size={18} />
+                        Add Question
+                    </button>
+                </>
+            )}
+        </>
+    );
+}
+
+export default QuestionListEditor;
@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import type { ItemFlag, QuestionAnalytics, QuizAnalytics } from "@/lib/cms/quiz-analytics";
+import { TYPE_LABELS } from "@/components/quiz/QuestionListEditor";
+
+interface QuizAnalyticsPanelProps {
+    courseId: string;
+    quizId: string;
+}
+
+const FLAG_LABELS: Record<ItemFlag, string> = {
+    too_hard: "Almost everyone gets it wrong",
+    top_distractor: "Top students pick a distractor",
+    negative_discrimination: "Weaker students do better",
+};
+
+const percent = (value: number | null) => (value === null ? "–" : `${Math.round(value * 100)}%`);
+
+function QuestionRow({ question }: { question: QuestionAnalytics }) {
+    return (
+        <div className="p-3 bg-zinc-800/50 rounded-lg space-y-2">
+            <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                    <p className="text-xs text-zinc-500">{TYPE_LABELS[question.type]} · {question.responses} responses</p>
+                    <p className="text-white truncate" title={question.text}>{question.text || "(no text)"}</p>
+                </div>
+                <div className="flex gap-4 shrink-0 text-right text-xs text-zinc-400">
+                    <div title="p-value: share of responses that were correct">
+                        <p className="text-zinc-500">Correct</p>
+                        <p className="text-sm text-white">{percent(question.pValue)}</p>
+                    </div>
+                    <div title="Point-biserial correlation with the rest of the attempt">
+                        <p className="text-zinc-500">Discrimination</p>
+                        <p className="text-sm text-white">{question.discrimination === null ? "–" : question.discrimination.toFixed(2)}</p>
+                    </div>
+                    <div>
+                        <p className="text-zinc-500">Avg time</p>
+                        <p className="text-sm text-white">
+                            {question.avgTimeSeconds === null ? "–" : `${Math.round(question.avgTimeSeconds)}s`}
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {question.flags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {question.flags.map(flag => (
+                        <span key={flag} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400 text-xs">
+                            <AlertTriangle size={12} />
+                            {FLAG_LABELS[flag]}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {question.options.length > 0 && (
+                <div className="space-y-1">
+                    {question.options.map((option, i) => (
+                        <div key={i} className="flex items-center gap-3 text-xs">
+                            <span className={`w-40 truncate ${option.correct ? "text-green-400" : "text-zinc-400"}`} title={option.label}>
+                                {option.label}
+                            </span>
+                            <div className="flex-1 h-2 bg-zinc-800 rounded-full overflow-hidden">
+                                <div
+                                    className={`h-full ${option.correct ? "bg-green-500" : "bg-zinc-500"}`}
+                                    style={{ width: `${option.pickRate * 100}%` }}
+                                />
+                            </div>
+                            <span className="w-10 text-right text-zinc-300">{percent(option.pickRate)}</span>
+                            <span className="w-16 text-right text-zinc-500" title="Pick rate among the top students">
+                                top {percent(option.topPickRate)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Item analysis of a quiz: difficulty, discrimination, timing, option pick rates
+export function QuizAnalyticsPanel({ courseId, quizId }: QuizAnalyticsPanelProps) {
+    const [analytics, setAnalytics] = useState<QuizAnalytics | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+    const fetchAnalytics = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const query = `courseId=${encodeURIComponent(courseId)}&quizId=${encodeURIComponent(quizId)}`;
+            const res = await authenticatedFetch(`/api/admin/analytics?type=quiz&${query}`);
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error || "Failed to load quiz analytics");
+            setAnalytics(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [courseId, quizId]);
+
+    useEffect(() => {
+        fetchAnalytics();
+    }, [fetchAnalytics]);
+
+    const flaggedCount = analytics?.questions.filter(q => q.flags.length > 0).length || 0;
+    const questions = analytics?.questions.filter(q => !flaggedOnly || q.flags.length > 0) || [];
+
+    return (
+        <div className="p-4 bg-zinc-900 rounded-xl border border-zinc-800 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-4 text-sm text-zinc-400">
+                    <span><span className="text-white font-medium">{analytics?.attemptCount ?? 0}</span> graded attempts</span>
+                    <span>Average score <span className="text-white font-medium">
+                        {analytics?.averageScore == null ? "–" : `${Math.round(analytics.averageScore)}%`}
+                    </span></span>
+                    <span className={flaggedCount ? "text-amber-400" : ""}>{flaggedCount} flagged</span>
+                </div>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={flaggedOnly}
+                            onChange={(e) => setFlaggedOnly(e.target.checked)}
+                            className="w-4 h-4 rounded border-zinc-600 bg-zinc-800 text-indigo-500 focus:ring-indigo-500"
+                        />
+                        Flagged only
+                    </label>
+                    <button
+                        onClick={fetchAnalytics}
+                        disabled={isLoading}
+                        className="p-1.5 text-zinc-400 hover:text-white rounded transition-colors"
+                        title="Refresh"
+                    >
+                        <RefreshCw size={16} className={isLoading ? "animate-spin" : ""} />
+                    </button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {isLoading && !analytics ? (
+                <div className="flex justify-center py-8">
+                    <Loader2 className="animate-spin text-zinc-500" size={24} />
+                </div>
+            ) : analytics && analytics.attemptCount === 0 ? (
+                <p className="text-sm text-zinc-500">No graded attempts yet.</p>
+            ) : (
+                <div className="space-y-2">
+                    {questions.map(question => <QuestionRow key={question.questionId} question={question} />)}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default QuizAnalyticsPanel;
@@ -2,15 +2,21 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { Quiz } from "@/lib/types";
-import { HelpCircle, Clock, Target, CheckCircle, AlertCircle } from "lucide-react";
+import { Quiz, QuizQuestionType } from "@/lib/types";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import { summarizeQuiz, type QuizAttempt, type QuizSummary } from "@/lib/cms/quiz";
+import { HelpCircle, Clock, Target, CheckCircle, AlertCircle, RotateCcw, ListChecks } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-interface QuizAttempt {
-    date: string;
-    score: number;
-    passed: boolean;
-}
+const TYPE_LABELS: Record<QuizQuestionType, string> = {
+    single: "pilihan ganda",
+    multi: "pilihan jamak",
+    true_false: "benar/salah",
+    short_answer: "isian singkat",
+    ordering: "mengurutkan",
+    matching: "menjodohkan",
+    fill_blank: "melengkapi kalimat",
+};
 
 interface QuizBlockProps {
     quizId: string;
@@ -22,19 +28,28 @@ interface QuizBlockProps {
 
 export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit = 5 }: QuizBlockProps) {
     const router = useRouter();
+    const [summary, setSummary] = useState<QuizSummary | null>(null);
     const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+    const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
 
-    // Load attempts from localStorage
+    // Quiz settings and the student's graded attempts come from the server
     useEffect(() => {
-        const key = `quiz_attempts_${courseId}_${quizId}`;
-        const stored = localStorage.getItem(key);
-        if (stored) {
-            try {
-                setAttempts(JSON.parse(stored));
-            } catch {
-                // Invalid JSON, ignore
-            }
-        }
+        let cancelled = false;
+        authenticatedFetch(`/api/quiz/${courseId}/${quizId}`)
+            .then(res => (res.ok ? res.json() : null))
+            .then(data => {
+                if (cancelled || !data?.quiz) return;
+                // Admins get the full quiz
+                setSummary(data.attempts ? data.quiz : summarizeQuiz(data.quiz));
+                setAttempts((data.attempts || []).filter((a: QuizAttempt) => a.status !== 'in_progress'));
+                setAttemptsRemaining(data.attemptsRemaining ?? null);
+            })
+            .catch(() => {
+                // Signed out or offline: show what the course has
+            });
+        return () => {
+            cancelled = true;
+        };
     }, [courseId, quizId]);
 
     // Navigate to dedicated quiz page (outside dashboard layout)
@@ -42,8 +57,10 @@ export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit
         router.push(`/quiz/${courseId}/${quizId}`);
     };
 
+    const info = summary || (quiz ? summarizeQuiz(quiz) : null);
+
     // If no quiz data, show placeholder
-    if (!quiz) {
+    if (!info) {
         return (
             <div className="my-6 p-8 bg-zinc-900 rounded-xl border border-zinc-800 text-center">
                 <HelpCircle size={48} className="mx-auto mb-4 text-zinc-600" />
@@ -53,8 +70,10 @@ export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit
     }
 
     // Info page (Dicoding style)
-    const bestScore = attempts.length > 0 ? Math.max(...attempts.map(a => a.score)) : null;
+    const bestScore = attempts.length > 0 ? Math.max(...attempts.map(a => a.score ?? 0)) : null;
     const hasPassed = attempts.some(a => a.passed);
+    const requiredScore = summary ? summary.passingScore : passingScore;
+    const minutes = summary ? summary.timeLimit : timeLimit || info.timeLimit || 5;
 
     return (
         <div className="my-6 bg-zinc-900 rounded-xl border border-zinc-800 overflow-hidden">
@@ -66,7 +85,7 @@ export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit
                     </div>
                     <div>
                         <p className="text-xs text-zinc-500 uppercase tracking-wide">Quiz</p>
-                        <h3 className="text-xl font-bold text-white">{quiz.title}</h3>
+                        <h3 className="text-xl font-bold text-white">{info.title}</h3>
                     </div>
                 </div>
 
@@ -79,16 +98,30 @@ export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit
                     <ul className="space-y-2 text-sm text-zinc-400">
                         <li className="flex items-center gap-2">
                             <Target size={16} className="text-teal-400" />
-                            Syarat nilai kelulusan: {passingScore}%
-                        </li>
-                        <li className="flex items-center gap-2">
-                            <Clock size={16} className="text-teal-400" />
-                            Durasi ujian: {timeLimit || quiz.timeLimit || 5} menit
+                            Syarat nilai kelulusan: {requiredScore}%
                         </li>
+                        {minutes ? (
+                            <li className="flex items-center gap-2">
+                                <Clock size={16} className="text-teal-400" />
+                                Durasi ujian: {minutes} menit
+                            </li>
+                        ) : null}
                         <li className="flex items-center gap-2">
                             <HelpCircle size={16} className="text-teal-400" />
-                            Jumlah soal: {quiz.questions.length} pertanyaan
+                            Jumlah soal: {info.questionCount} pertanyaan
                         </li>
+                        {info.questionTypes?.length ? (
+                            <li className="flex items-center gap-2">
+                                <ListChecks size={16} className="text-teal-400" />
+                                Jenis soal: {info.questionTypes.map(type => TYPE_LABELS[type]).join(", ")}
+                            </li>
+                        ) : null}
+                        {info.maxAttempts ? (
+                            <li className="flex items-center gap-2">
+                                <RotateCcw size={16} className="text-teal-400" />
+                                Sisa kesempatan: {attemptsRemaining ?? info.maxAttempts} dari {info.maxAttempts}
+                            </li>
+                        ) : null}
                     </ul>
                 </div>
 
@@ -108,7 +141,8 @@ export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit
             <div className="p-6 flex justify-end">
                 <button
                     onClick={handleStart}
-                    className="px-8 py-3 bg-teal-600 hover:bg-teal-500 text-white rounded-lg font-medium transition-colors"
+                    disabled={attemptsRemaining === 0}
+                    className="px-8 py-3 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
                 >
                     Mulai
                 </button>
@@ -128,10 +162,10 @@ export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit
                                 </tr>
                             </thead>
                             <tbody>
-                                {attempts.slice(0, 5).map((attempt, index) => (
-                                    <tr key={index} className="border-b border-zinc-800/50">
+                                {attempts.slice(0, 5).map((attempt) => (
+                                    <tr key={attempt.id} className="border-b border-zinc-800/50">
                                         <td className="py-3 pr-4 text-zinc-300">
-                                            {new Date(attempt.date).toLocaleString('id-ID', {
+                                            {new Date(attempt.submittedAt || attempt.startedAt).toLocaleString('id-ID', {
                                                 day: '2-digit',
                                                 month: 'short',
                                                 year: 'numeric',
@@ -139,7 +173,7 @@ export function QuizBlock({ quizId, courseId, quiz, passingScore = 75, timeLimit
                                                 minute: '2-digit',
                                             })}
                                         </td>
-                                        <td className="py-3 pr-4 text-zinc-300">{attempt.score}%</td>
+                                        <td className="py-3 pr-4 text-zinc-300">{attempt.score ?? 0}%</td>
                                         <td className="py-3 pr-4">
                                             <span className={cn(
                                                 "px-2 py-0.5 rounded text-xs font-medium",
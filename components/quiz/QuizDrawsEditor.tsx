@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Plus, X, Library } from "lucide-react";
+import type { QuestionDifficulty, QuizDraw } from "@/lib/types";
+import { authenticatedFetch } from "@/lib/api/authenticated-fetch";
+import { QUESTION_DIFFICULTIES } from "@/lib/cms/quiz";
+import { bankKey, type QuestionBankSummary } from "@/lib/cms/question-bank";
+import { DIFFICULTY_LABELS } from "@/components/quiz/QuestionListEditor";
+
+interface QuizDrawsEditorProps {
+    courseId: string;
+    draws: QuizDraw[];
+    onChange: (draws: QuizDraw[]) => void;
+}
+
+const summaryKey = (bank: QuestionBankSummary) => bankKey({ bankId: bank.id, scope: bank.scope });
+
+const numberInputClass = "w-16 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-center text-white focus:outline-none focus:border-indigo-500";
+
+// "Draw N questions from bank X with this difficulty mix", per attempt
+export function QuizDrawsEditor({ courseId, draws, onChange }: QuizDrawsEditorProps) {
+    const [banks, setBanks] = useState<QuestionBankSummary[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        authenticatedFetch(`/api/admin/question-banks?courseId=${encodeURIComponent(courseId)}`)
+            .then(res => (res.ok ? res.json() : null))
+            .then(data => {
+                if (!cancelled && data?.banks) setBanks(data.banks);
+            })
+            .catch(() => {
+                // The pools stay editable by hand
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [courseId]);
+
+    const updateDraw = (index: number, updates: Partial<QuizDraw>) => {
+        onChange(draws.map((draw, i) => (i === index ? { ...draw, ...updates } : draw)));
+    };
+
+    const setMix = (index: number, difficulty: QuestionDifficulty, count: number) => {
+        const mix = { ...draws[index].mix, [difficulty]: count };
+        if (!count) delete mix[difficulty];
+        updateDraw(index, { mix: Object.keys(mix).length ? mix : undefined });
+    };
+
+    const toggleTopic = (index: number, topic: string) => {
+        const topics = draws[index].topics || [];
+        const next = topics.includes(topic) ? topics.filter(t => t !== topic) : [...topics, topic];
+        updateDraw(index, { topics: next.length ? next : undefined });
+    };
+
+    const addDraw = () => {
+        const bank = banks[0];
+        if (!bank) return;
+        onChange([...draws, { bankId: bank.id, scope: bank.scope, count: Math.min(5, bank.questionCount) || 1 }]);
+    };
+
+    return (
+        <div className="mb-8 p-4 bg-zinc-900 rounded-xl border border-zinc-800">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-zinc-400">Question Pools</h3>
+                <Link
+                    href={`/question-banks?courseId=${encodeURIComponent(courseId)}`}
+                    className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300"
+                >
+                    <Library size={14} />
+                    Manage question banks
+                </Link>
+            </div>
+            <p className="text-xs text-zinc-500 mb-3">
+                Each attempt also asks questions drawn at random from these banks, so students get different sets.
+            </p>
+
+            <div className="space-y-3">
+                {draws.map((draw, index) => {
+                    const bank = banks.find(b => summaryKey(b) === bankKey(draw));
+                    return (
+                        <div key={index} className="p-3 bg-zinc-800/50 rounded-lg space-y-2">
+                            <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-300">
+                                Draw
+                                <input
+                                    type="number"
+                                    value={draw.count}
+                                    onChange={(e) => updateDraw(index, { count: Math.max(1, parseInt(e.target.value) || 1) })}
+                                    className={numberInputClass}
+                                    min={1}
+                                />
+                                from
+                                <select
+                                    value={bankKey(draw)}
+                                    onChange={(e) => {
+                                        const next = banks.find(b => summaryKey(b) === e.target.value);
+                                        if (next) updateDraw(index, { bankId: next.id, scope: next.scope, topics: undefined });
+                                    }}
+                                    className="flex-1 min-w-40 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white focus:outline-none focus:border-indigo-500"
+                                >
+                                    {!bank && <option value={bankKey(draw)}>{draw.bankId} (not found)</option>}
+                                    {banks.map(b => (
+                                        <option key={summaryKey(b)} value={summaryKey(b)}>
+                                            {b.title} · {b.scope === "course" ? "this course" : "global"} ({b.questionCount})
+                                        </option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => onChange(draws.filter((_, i) => i !== index))}
+                                    className="p-1 text-zinc-500 hover:text-red-400"
+                                    title="Remove"
+                                >
+                                    <X size={16} />
+                                </button>
+                            </div>
+
+                            <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+                                At least:
+                                {QUESTION_DIFFICULTIES.map(difficulty => (
+                                    <label key={difficulty} className="flex items-center gap-1">
+                                        <input
+                                            type="number"
+                                            value={draw.mix?.[difficulty] || 0}
+                                            onChange={(e) => setMix(index, difficulty, Math.max(0, parseInt(e.target.value) || 0))}
+                                            className={numberInputClass}
+                                            min={0}
+                                        />
+                                        {DIFFICULTY_LABELS[difficulty].toLowerCase()}
+                                        {bank && <span className="text-zinc-600">/{bank.difficulties[difficulty] || 0}</span>}
+                                    </label>
+                                ))}
+                            </div>
+
+                            {bank && bank.topics.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2 text-xs">
+                                    <span className="text-zinc-400">Topics:</span>
+                                    {bank.topics.map(topic => (
+                                        <button
+                                            key={topic}
+                                            onClick={() => toggleTopic(index, topic)}
+                                            className={`px-2 py-0.5 rounded-full border transition-colors ${draw.topics?.includes(topic)
+                                                ? "border-indigo-500 bg-indigo-500/20 text-indigo-300"
+                                                : "border-zinc-700 text-zinc-400 hover:border-zinc-500"}`}
+                                        >
+                                            {topic}
+                                        </button>
+                                    ))}
+                                    {!draw.topics?.length && <span className="text-zinc-600">all</span>}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <button
+                onClick={addDraw}
+                disabled={banks.length === 0}
+                className="mt-3 flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 disabled:opacity-50"
+                title={banks.length === 0 ? "Create a question bank first" : undefined}
+            >
+                <Plus size={14} />
+                Add pool
+            </button>
+        </div>
+    );
+}
+
+export default QuizDrawsEditor;
@@ -1,63 +1,52 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { Quiz, QuizQuestion } from "@/lib/types";
+import { useState, useEffect } from "react";
 import { cn } from "@/lib/utils";
-import { Clock, ChevronLeft, ChevronRight, Check, X, RotateCcw } from "lucide-react";
+import { useQuizAttempt } from "@/lib/hooks/useQuizAttempt";
+import { QuestionInput } from "@/components/quiz/QuestionInput";
+import { passingScoreOf, type QuizAnswer } from "@/lib/cms/quiz";
+import { Clock, ChevronLeft, ChevronRight, Check, X, RotateCcw, Loader2 } from "lucide-react";
 
 interface QuizPlayerProps {
-    quiz: Quiz;
+    quizId: string;
     courseId: string;
     onComplete: (passed: boolean, score: number) => void;
     onBack?: () => void;
-    passingScore?: number;
 }
 
-interface QuizState {
-    currentIndex: number;
-    answers: Record<string, number | null>; // questionId -> selected option index
-    submitted: boolean;
-    showResults: boolean;
-    timeRemaining: number | null; // in seconds
-}
+// Plays one attempt; questions arrive without answers and are graded on the server
+export function QuizPlayer({ quizId, courseId, onComplete, onBack }: QuizPlayerProps) {
+    const {
+        quiz,
+        result,
+        answers,
+        attemptsRemaining,
+        timeRemaining,
+        error,
+        isLoading,
+        isSubmitting,
+        start,
+        submit,
+        selectAnswer: pickAnswer,
+        showQuestion,
+    } = useQuizAttempt(courseId, quizId);
+    const [currentIndex, setCurrentIndex] = useState(0);
 
-export function QuizPlayer({ quiz, courseId, onComplete, onBack, passingScore = 75 }: QuizPlayerProps) {
-    const [state, setState] = useState<QuizState>({
-        currentIndex: 0,
-        answers: {},
-        submitted: false,
-        showResults: false,
-        timeRemaining: quiz.timeLimit ? quiz.timeLimit * 60 : null,
-    });
-
-    // Shuffle questions if enabled
-    const [questions] = useState<QuizQuestion[]>(() => {
-        if (quiz.shuffleQuestions) {
-            return [...quiz.questions].sort(() => Math.random() - 0.5);
-        }
-        return quiz.questions;
-    });
+    useEffect(() => {
+        start();
+    }, [start]);
 
-    const currentQuestion = questions[state.currentIndex];
+    useEffect(() => {
+        if (result) onComplete(!!result.passed, result.score ?? 0);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [result]);
+
+    const questions = quiz?.questions || [];
+    const currentQuestion = questions[currentIndex];
 
-    // Timer countdown
     useEffect(() => {
-        if (state.timeRemaining === null || state.submitted) return;
-
-        const interval = setInterval(() => {
-            setState(prev => {
-                if (prev.timeRemaining === null) return prev;
-                if (prev.timeRemaining <= 1) {
-                    // Time's up - auto submit
-                    clearInterval(interval);
-                    return { ...prev, timeRemaining: 0, submitted: true, showResults: true };
-                }
-                return { ...prev, timeRemaining: prev.timeRemaining - 1 };
-            });
-        }, 1000);
-
-        return () => clearInterval(interval);
-    }, [state.timeRemaining, state.submitted]);
+        if (currentQuestion && !result) showQuestion(currentQuestion.id);
+    }, [currentQuestion, result, showQuestion]);
 
     // Format time
     const formatTime = (seconds: number) => {
@@ -67,58 +56,43 @@ export function QuizPlayer({ quiz, courseId, onComplete, onBack, passingScore =
     };
 
     // Select answer
-    const selectAnswer = (optionIndex: number) => {
-        if (state.submitted) return;
-        setState(prev => ({
-            ...prev,
-            answers: { ...prev.answers, [currentQuestion.id]: optionIndex }
-        }));
+    const selectAnswer = (answer: QuizAnswer | null) => {
+        if (!currentQuestion) return;
+        pickAnswer(currentQuestion.id, answer);
     };
 
     // Navigate questions
     const goToQuestion = (index: number) => {
         if (index >= 0 && index < questions.length) {
-            setState(prev => ({ ...prev, currentIndex: index }));
+            setCurrentIndex(index);
         }
     };
 
-    // Calculate score
-    const calculateScore = useCallback(() => {
-        let correct = 0;
-        questions.forEach(q => {
-            if (state.answers[q.id] === q.correctIndex) {
-                correct++;
-            }
-        });
-        return Math.round((correct / questions.length) * 100);
-    }, [questions, state.answers]);
-
     // Submit quiz
-    const handleSubmit = () => {
-        const score = calculateScore();
-        const passed = score >= passingScore;
-        setState(prev => ({ ...prev, submitted: true, showResults: true }));
-        onComplete(passed, score);
-    };
+    const handleSubmit = () => submit();
 
     // Retry quiz
     const handleRetry = () => {
-        setState({
-            currentIndex: 0,
-            answers: {},
-            submitted: false,
-            showResults: false,
-            timeRemaining: quiz.timeLimit ? quiz.timeLimit * 60 : null,
-        });
+        setCurrentIndex(0);
+        start();
     };
 
     // Get answered count
-    const answeredCount = Object.keys(state.answers).filter(k => state.answers[k] !== null).length;
-    const score = state.submitted ? calculateScore() : 0;
-    const passed = score >= passingScore;
+    const answeredCount = Object.keys(answers).filter(k => answers[k] !== null).length;
+    const score = result?.score ?? 0;
+    const passed = !!result?.passed;
+    const passingScore = passingScoreOf(quiz || {});
+
+    if (isLoading || (!quiz && !result && !error)) {
+        return (
+            <div className="min-h-[500px] flex items-center justify-center">
+                <Loader2 size={32} className="animate-spin text-teal-500" />
+            </div>
+        );
+    }
 
     // Results view
-    if (state.showResults) {
+    if (result) {
         return (
             <div className="min-h-[500px] flex flex-col items-center justify-center p-8">
                 <div className={cn(
@@ -142,14 +116,16 @@ export function QuizPlayer({ quiz, courseId, onComplete, onBack, passingScore =
                 <p className="text-5xl font-bold text-white mb-4">{score}%</p>
 
                 <p className="text-zinc-400 mb-8">
-                    {passed
-                        ? `Selamat! Anda berhasil melewati quiz dengan nilai di atas ${passingScore}%.`
-                        : `Nilai minimum kelulusan adalah ${passingScore}%. Silakan coba lagi.`
+                    {result.status === 'expired'
+                        ? "Waktu habis sebelum jawaban terkirim."
+                        : passed
+                            ? `Selamat! Anda berhasil melewati quiz dengan nilai di atas ${passingScore}%.`
+                            : `Nilai minimum kelulusan adalah ${passingScore}%. Silakan coba lagi.`
                     }
                 </p>
 
                 <div className="flex gap-4">
-                    {!passed && (
+                    {!passed && attemptsRemaining !== 0 && (
                         <button
                             onClick={handleRetry}
                             className="flex items-center gap-2 px-6 py-3 bg-zinc-800 hover:bg-zinc-700 text-white rounded-lg transition-colors"
@@ -171,6 +147,14 @@ export function QuizPlayer({ quiz, courseId, onComplete, onBack, passingScore =
         );
     }
 
+    if (!quiz || questions.length === 0) {
+        return (
+            <div className="min-h-[500px] flex flex-col items-center justify-center p-8 text-zinc-500">
+                {error?.message || "Quiz tidak ditemukan"}
+            </div>
+        );
+    }
+
     return (
         <div className="min-h-[500px] flex flex-col lg:flex-row gap-6 p-4 lg:p-6">
             {/* Left: Question Navigation */}
@@ -183,8 +167,8 @@ export function QuizPlayer({ quiz, courseId, onComplete, onBack, passingScore =
                     {/* Question Grid */}
                     <div className="grid grid-cols-5 gap-2">
                         {questions.map((q, index) => {
-                            const isAnswered = state.answers[q.id] !== undefined;
-                            const isCurrent = index === state.currentIndex;
+                            const isAnswered = answers[q.id] != null;
+                            const isCurrent = index === currentIndex;
 
                             return (
                                 <button
@@ -220,13 +204,13 @@ export function QuizPlayer({ quiz, courseId, onComplete, onBack, passingScore =
                     </div>
 
                     {/* Timer */}
-                    {state.timeRemaining !== null && (
+                    {timeRemaining !== null && (
                         <div className={cn(
                             "mt-4 flex items-center justify-center gap-2 p-3 rounded-lg",
-                            state.timeRemaining < 60 ? "bg-red-500/20 text-red-400" : "bg-zinc-800 text-zinc-300"
+                            timeRemaining < 60 ? "bg-red-500/20 text-red-400" : "bg-zinc-800 text-zinc-300"
                         )}>
                             <Clock size={18} />
-                            <span className="font-mono text-lg">{formatTime(state.timeRemaining)}</span>
+                            <span className="font-mono text-lg">{formatTime(timeRemaining)}</span>
                         </div>
                     )}
                 </div>
@@ -238,69 +222,53 @@ export function QuizPlayer({ quiz, courseId, onComplete, onBack, passingScore =
                     {/* Question Header */}
                     <div className="p-4 border-b border-zinc-800">
                         <span className="text-sm text-zinc-500">
-                            Pertanyaan {state.currentIndex + 1} dari {questions.length}
+                            Pertanyaan {currentIndex + 1} dari {questions.length}
                         </span>
                     </div>
 
                     {/* Question Text */}
                     <div className="p-6 flex-1">
                         <p className="text-lg text-white mb-6">
-                            {currentQuestion?.text || "Question text"}
+                            {currentQuestion?.type === "fill_blank"
+                                ? "Lengkapi bagian yang kosong."
+                                : currentQuestion?.text || "Question text"}
                         </p>
 
-                        {/* Options */}
-                        <div className="space-y-3">
-                            {currentQuestion?.options.map((option, index) => {
-                                const isSelected = state.answers[currentQuestion.id] === index;
-
-                                return (
-                                    <button
-                                        key={index}
-                                        onClick={() => selectAnswer(index)}
-                                        className={cn(
-                                            "w-full flex items-center gap-3 p-4 rounded-lg border text-left transition-all",
-                                            isSelected
-                                                ? "border-teal-500 bg-teal-500/10 text-white"
-                                                : "border-zinc-700 bg-zinc-800/50 text-zinc-300 hover:border-zinc-600"
-                                        )}
-                                    >
-                                        <div className={cn(
-                                            "w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0",
-                                            isSelected
-                                                ? "border-teal-500 bg-teal-500"
-                                                : "border-zinc-600"
-                                        )}>
-                                            {isSelected && <div className="w-2 h-2 rounded-full bg-white" />}
-                                        </div>
-                                        <span>{option}</span>
-                                    </button>
-                                );
-                            })}
-                        </div>
+                        {/* Answer */}
+                        {currentQuestion && (
+                            <QuestionInput
+                                key={currentQuestion.id}
+                                question={currentQuestion}
+                                answer={answers[currentQuestion.id]}
+                                onChange={selectAnswer}
+                            />
+                        )}
                     </div>
 
+                    {error && <p className="px-4 pb-2 text-sm text-red-400">{error.message}</p>}
+
                     {/* Navigation Footer */}
                     <div className="p-4 border-t border-zinc-800 flex items-center justify-between">
                         <button
-                            onClick={() => goToQuestion(state.currentIndex - 1)}
-                            disabled={state.currentIndex === 0}
+                            onClick={() => goToQuestion(currentIndex - 1)}
+                            disabled={currentIndex === 0}
                             className="flex items-center gap-2 px-4 py-2 text-zinc-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                         >
                             <ChevronLeft size={18} />
                             Sebelumnya
                         </button>
 
-                        {state.currentIndex === questions.length - 1 ? (
+                        {currentIndex === questions.length - 1 ? (
                             <button
                                 onClick={handleSubmit}
-                                disabled={answeredCount < questions.length}
+                                disabled={answeredCount < questions.length || isSubmitting}
                                 className="flex items-center gap-2 px-6 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
                             >
                                 Selesai
                             </button>
                         ) : (
                             <button
-                                onClick={() => goToQuestion(state.currentIndex + 1)}
+                                onClick={() => goToQuestion(currentIndex + 1)}
                                 className="flex items-center gap-2 px-4 py-2 text-teal-400 hover:text-teal-300 transition-colors"
                             >
                                 Selanjutnya
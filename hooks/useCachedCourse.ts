@@ -1,54 +1,43 @@
 /**
- * React Hook for Cached Course Fetching
- * 
+ * React Hook for Lazy Course Fetching
+ *
  * Flow:
- * 1. Check IndexedDB cache for course
- * 2. Fetch metadata from API (version check)
- * 3. If version matches → use cache
- * 4. If version mismatch → fetch full course → update cache
+ * 1. Fetch course structure (titles/order, no lesson content)
+ * 2. Render the syllabus immediately
+ * 3. Fetch each lesson's content on demand via loadLesson()
+ * 4. Lesson requests carry ?v=<lesson version> so they stay cacheable
+ * 5. A failed lesson fetch is kept in lessonError() until it is retried
  */
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Course } from '@/lib/types';
-import {
-    getCachedCourse,
-    setCachedCourse,
-    isCacheValid
-} from '@/lib/cache/course-cache';
-import { blobToCourse } from '@/lib/storage/course-converter';
-import { CourseBlob, CourseMeta, SectionCompact } from '@/lib/types/course-compact';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Course, Lesson } from '@/lib/types';
 
 interface UseCachedCourseResult {
     course: Course | null;
     loading: boolean;
     error: string | null;
-    isStale: boolean;
     refresh: () => Promise<void>;
-}
-
-interface CourseMetaResponse {
-    id: string;
-    meta: CourseMeta;
-    sections: SectionCompact[];
-    published?: {
-        version: number;
-        hash: string;
-        tg_file_id: string;
-    };
+    loadLesson: (lessonId: string) => Promise<Lesson | null>;
+    isLessonLoaded: (lessonId: string) => boolean;
+    lessonError: (lessonId: string) => string | null;
 }
 
 /**
- * Hook for fetching course with client-side caching
+ * Hook for fetching course structure with lazily loaded lesson content
  */
 export function useCachedCourse(courseId: string | null): UseCachedCourseResult {
     const [course, setCourse] = useState<Course | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [isStale, setIsStale] = useState(false);
+    const [loadedLessons, setLoadedLessons] = useState<Record<string, Lesson>>({});
+    const [lessonErrors, setLessonErrors] = useState<Record<string, string>>({});
 
-    const fetchCourse = useCallback(async (forceRefresh = false) => {
+    // In-flight lesson requests (dedupe rapid re-renders / prefetch)
+    const pendingRef = useRef<Map<string, Promise<Lesson | null>>>(new Map());
+
+    const fetchCourse = useCallback(async () => {
         if (!courseId) {
             setLoading(false);
             return;
@@ -58,85 +47,111 @@ export function useCachedCourse(courseId: string | null): UseCachedCourseResult
         setError(null);
 
         try {
-            // Step 1: Check cache first (for instant display)
-            const cached = await getCachedCourse(courseId);
-
-            if (cached && !forceRefresh) {
-                console.log(`📦 [Hook] Found cached version ${cached.version}`);
-
-                // Step 2: Fetch metadata ONLY to check version
-                const metaResponse = await fetch(`/api/courses/${courseId}/meta`);
-
-                if (metaResponse.ok) {
-                    const meta = await metaResponse.json() as CourseMetaResponse;
-                    const serverVersion = meta.published?.version || 0;
-
-                    // Step 3: Version check
-                    if (cached.version === serverVersion) {
-                        console.log(`✅ [Hook] Cache valid (v${cached.version})`);
-                        // Use cached blob - reconstruct full course
-                        const fullCourse = blobToCourse(
-                            courseId,
-                            meta.meta,
-                            meta.sections,
-                            cached.blob
-                        );
-                        setCourse(fullCourse);
-                        setIsStale(false);
-                        setLoading(false);
-                        return; // Done - used cache!
-                    } else {
-                        console.log(`🔄 [Hook] Version mismatch: cache v${cached.version} vs server v${serverVersion}`);
-                        setIsStale(true);
-                    }
-                }
-            }
-
-            // Step 4: Fetch full course from API (cache miss or version mismatch)
-            const response = await fetch(`/api/courses/${courseId}`);
+            const response = await fetch(`/api/courses/${courseId}/structure`);
 
             if (!response.ok) {
                 throw new Error(`Failed to fetch course: ${response.status}`);
             }
 
-            const data = await response.json();
+            const data = await response.json() as Course;
             setCourse(data);
-            setIsStale(false);
 
-            // Step 5: Update cache if course has blob structure
-            if (data.published?.version) {
-                console.log(`📥 [Hook] Fetched version ${data.published.version}, updating cache`);
-            }
+            // Drop loaded lessons whose version changed on the server
+            setLoadedLessons(prev => {
+                const next: Record<string, Lesson> = {};
+                for (const lesson of data.lessons || []) {
+                    const loaded = prev[lesson.id];
+                    if (loaded && (loaded.version || 0) === (lesson.version || 0)) {
+                        next[lesson.id] = loaded;
+                    }
+                }
+                return next;
+            });
         } catch (err) {
             console.error('Course fetch error:', err);
             setError(err instanceof Error ? err.message : 'Unknown error');
-
-            // Try to use stale cache on error
-            const cached = await getCachedCourse(courseId);
-            if (cached) {
-                console.log('📦 [Hook] Using stale cache due to error');
-                setIsStale(true);
-            }
         } finally {
             setLoading(false);
         }
     }, [courseId]);
 
     useEffect(() => {
+        setLoadedLessons({});
+        setLessonErrors({});
+        pendingRef.current.clear();
         fetchCourse();
     }, [fetchCourse]);
 
-    const refresh = useCallback(() => fetchCourse(true), [fetchCourse]);
+    const loadLesson = useCallback(async (lessonId: string): Promise<Lesson | null> => {
+        if (!courseId || !course) return null;
+
+        const stub = course.lessons.find(l => l.id === lessonId);
+        if (!stub) return null;
+
+        const key = `${lessonId}@${stub.version || 0}`;
+        const pending = pendingRef.current.get(key);
+        if (pending) return pending;
+
+        const request = (async () => {
+            setLessonErrors(prev => {
+                const next = { ...prev };
+                delete next[lessonId];
+                return next;
+            });
+            try {
+                const response = await fetch(
+                    `/api/courses/${courseId}/lessons/${encodeURIComponent(lessonId)}?v=${stub.version || 0}`
+                );
+                if (!response.ok) {
+                    throw new Error(`Failed to fetch lesson: ${response.status}`);
+                }
+
+                const lesson = await response.json() as Lesson;
+                const merged = { ...lesson, id: stub.id, order: stub.order };
+                setLoadedLessons(prev => ({ ...prev, [lessonId]: merged }));
+                return merged;
+            } catch (err) {
+                console.error(`Lesson fetch error (${lessonId}):`, err);
+                setLessonErrors(prev => ({
+                    ...prev,
+                    [lessonId]: err instanceof Error ? err.message : 'Unknown error',
+                }));
+                pendingRef.current.delete(key);
+                return null;
+            }
+        })();
+
+        pendingRef.current.set(key, request);
+        return request;
+    }, [courseId, course]);
+
+    const isLessonLoaded = useCallback(
+        (lessonId: string) => lessonId in loadedLessons,
+        [loadedLessons]
+    );
+
+    const lessonError = useCallback(
+        (lessonId: string) => lessonErrors[lessonId] || null,
+        [lessonErrors]
+    );
+
+    // Structure with whatever lesson content has arrived so far
+    const mergedCourse = useMemo(() => course
+        ? {
+            ...course,
+            lessons: course.lessons.map(lesson => loadedLessons[lesson.id] || lesson),
+        }
+        : null, [course, loadedLessons]);
 
-    return { course, loading, error, isStale, refresh };
+    return { course: mergedCourse, loading, error, refresh: fetchCourse, loadLesson, isLessonLoaded, lessonError };
 }
 
 /**
- * Prefetch course into cache (for navigation optimization)
+ * Prefetch course structure (for navigation optimization)
  */
 export async function prefetchCourse(courseId: string): Promise<void> {
     try {
-        const response = await fetch(`/api/courses/${courseId}`);
+        const response = await fetch(`/api/courses/${courseId}/structure`);
         if (response.ok) {
             console.log(`⚡ [Prefetch] Cached ${courseId}`);
         }
@@ -3,6 +3,30 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 const apiKey = process.env.GEMINI_API_KEY || '';
 const genAI = new GoogleGenerativeAI(apiKey);
 
+// ========================================
+// SWAPPABLE TEXT CLIENT (tests use a local mock)
+// ========================================
+export interface GeminiClient {
+  generateText(model: string, prompt: string): Promise<string>;
+}
+
+const defaultClient: GeminiClient = {
+  async generateText(model, prompt) {
+    const result = await genAI.getGenerativeModel({ model }).generateContent(prompt);
+    const response = await result.response;
+    return response.text().trim();
+  },
+};
+
+let geminiClient: GeminiClient = defaultClient;
+
+/**
+ * Replace the client behind text generation (null restores the real API)
+ */
+export function setGeminiClient(client: GeminiClient | null): void {
+  geminiClient = client || defaultClient;
+}
+
 // ========================================
 // GLOBAL RATE LIMITING FOR ALL GEMINI CALLS
 // ========================================
@@ -344,3 +368,23 @@ export async function recommendCourses(
     return text;
   });
 }
+
+// Quiz question drafts from lesson text - JSON, model chosen by the caller's tier
+export async function generateQuizQuestions(
+  prompt: string,
+  model: string
+): Promise<string> {
+  if (!checkGeminiRateLimit('generateQuizQuestions')) {
+    throw new Error(
+      'Rate limit reached for question generation. Please try again in a minute.'
+    );
+  }
+
+  const text = await geminiClient.generateText(model, prompt);
+
+  // Cleanup markdown code blocks if present
+  return text
+    .replace(/```json/g, '')
+    .replace(/```/g, '')
+    .trim();
+}
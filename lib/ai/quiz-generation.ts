@@ -0,0 +1,156 @@
+/**
+ * AI Quiz Drafts
+ *
+ * Turns a lesson's Tiptap content into draft quiz questions: the document
+ * is flattened through tiptapToBlocks, sent to Gemini, and the JSON reply
+ * is checked question by question. Nothing is saved here - the author
+ * accepts each draft in the quiz editor.
+ */
+
+import { generateQuizQuestions } from './gemini';
+import { tiptapToBlocks } from '@/lib/cms/tiptap-to-blocks';
+import { QUESTION_DIFFICULTIES, validateQuestion } from '@/lib/cms/quiz';
+import type { QuestionDifficulty, QuizQuestion } from '@/lib/types';
+import type { BlockCompact } from '@/lib/types/course-compact';
+
+export const MAX_GENERATED_QUESTIONS = 10;
+export const MAX_LESSON_CHARS = 20000;
+
+/**
+ * Plain text of a block and its nested blocks (quizzes and media left out)
+ */
+function blockText(block: BlockCompact): string[] {
+    switch (block.t) {
+        case 'h1':
+        case 'h2':
+        case 'h3':
+            return [`${'#'.repeat(Number(block.t[1]))} ${block.v}`];
+        case 'code':
+            return [`\`\`\`${block.lang || ''}\n${block.v}\n\`\`\``];
+        case 'img':
+            return block.alt ? [`[Image: ${block.alt}]`] : [];
+        case 'callout':
+        case 'acc':
+            return [block.v, ...(block.ch || []).flatMap(blockText)].filter(Boolean);
+        case 'tabs':
+            return (block.tabs || []).flatMap(tab => [tab.t, ...tab.ch.flatMap(blockText)]).filter(Boolean);
+        case 'quiz':
+        case 'ex':
+        case 'div':
+        case 'video':
+        case 'embed':
+        case 'mmd':
+            return [];
+        default:
+            return block.v ? [block.v] : [];
+    }
+}
+
+/**
+ * The lesson as plain text for the prompt (cut at MAX_LESSON_CHARS)
+ */
+export function lessonText(doc: unknown, courseId: string): string {
+    const { blocks } = tiptapToBlocks(doc, courseId);
+    return blocks.flatMap(blockText).join('\n\n').slice(0, MAX_LESSON_CHARS);
+}
+
+export function buildQuestionPrompt(text: string, count: number): string {
+    return `You are an experienced teacher writing a quiz about the lesson below.
+
+Write ${count} questions that check understanding of the lesson's key ideas, not trivia.
+Use the lesson's language. Mix difficulties and question types.
+
+Each question is a JSON object with:
+- "type": "single" | "multi" | "true_false" | "short_answer"
+- "text": the question
+- single: "options" (2-5 strings) and "correctIndex" (0-based)
+- multi: "options" (3-6 strings) and "correctIndexes" (0-based, at least one)
+- true_false: "answer" (true or false)
+- short_answer: "accepted" (1-3 short answers, any of which is correct)
+- "explanation": one or two sentences on why the answer is right
+- "difficulty": "easy" | "medium" | "hard"
+- "topic": a short topic label (max 3 words)
+
+Return JSON ONLY: an array of question objects.
+
+LESSON:
+${text}`;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toQuestion(raw: any, id: string): QuizQuestion | null {
+    if (!raw || typeof raw !== 'object' || typeof raw.text !== 'string' || !raw.text.trim()) return null;
+    if (typeof raw.explanation !== 'string' || !raw.explanation.trim()) return null;
+
+    const base = {
+        id,
+        text: raw.text.trim(),
+        explanation: raw.explanation.trim(),
+        ...(QUESTION_DIFFICULTIES.includes(raw.difficulty) ? { difficulty: raw.difficulty as QuestionDifficulty } : {}),
+        ...(typeof raw.topic === 'string' && raw.topic.trim() ? { topic: raw.topic.trim().slice(0, 60) } : {}),
+    };
+
+    let question: QuizQuestion;
+    switch (raw.type) {
+        case 'single':
+            question = { ...base, type: 'single', options: raw.options, correctIndex: raw.correctIndex };
+            break;
+        case 'multi':
+            question = { ...base, type: 'multi', options: raw.options, correctIndexes: raw.correctIndexes };
+            break;
+        case 'true_false':
+            question = { ...base, type: 'true_false', answer: raw.answer };
+            break;
+        case 'short_answer':
+            question = { ...base, type: 'short_answer', accepted: raw.accepted, matcher: 'case_insensitive' };
+            break;
+        default:
+            return null;
+    }
+
+    return validateQuestion(question) ? null : question;
+}
+
+/**
+ * Valid drafts from the model's reply; anything malformed is dropped
+ */
+export function parseGeneratedQuestions(reply: string, idPrefix = `ai-${Date.now().toString(36)}`): QuizQuestion[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(reply);
+    } catch {
+        console.warn('⚠️ [QuizDrafts] Reply is not JSON');
+        return [];
+    }
+
+    const items = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(items)) return [];
+
+    const candidates = items.slice(0, MAX_GENERATED_QUESTIONS);
+    const questions = candidates
+        .map((item, i) => toQuestion(item, `${idPrefix}-${i + 1}`))
+        .filter((q): q is QuizQuestion => q !== null);
+
+    if (questions.length < candidates.length) {
+        console.warn(`⚠️ [QuizDrafts] Dropped ${candidates.length - questions.length} malformed question(s)`);
+    }
+    return questions;
+}
+
+/**
+ * Draft questions for a lesson document
+ */
+export async function generateQuestionDrafts(
+    doc: unknown,
+    courseId: string,
+    options: { count: number; model: string }
+): Promise<QuizQuestion[]> {
+    const text = lessonText(doc, courseId);
+    if (!text.trim()) return [];
+
+    const count = Math.min(MAX_GENERATED_QUESTIONS, Math.max(1, options.count));
+    const reply = await generateQuizQuestions(buildQuestionPrompt(text, count), options.model);
+    return parseGeneratedQuestions(reply);
+}
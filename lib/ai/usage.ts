@@ -0,0 +1,140 @@
+/**
+ * Daily AI usage per user (subscription.aiUsage), checked with
+ * checkAIAllowance / checkChatAllowance before a Gemini call and
+ * incremented with recordAIUsage after it.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import {
+    checkAILimit,
+    SUBSCRIPTION_TIERS,
+    type SubscriptionTier,
+    type UserSubscription,
+} from '@/lib/constants/subscription';
+
+export type AIModelType = 'pro' | 'flash';
+
+export const AI_MODEL_NAMES: Record<AIModelType, string> = {
+    pro: 'gemini-3-pro-preview',
+    flash: 'gemini-3-flash-preview',
+};
+
+// `modelType` is the allowance the call counts against, `model` what to call
+export type AIAllowance =
+    | { allowed: true; tier: SubscriptionTier; modelType: AIModelType; model: string }
+    | { allowed: false; tier: SubscriptionTier; error: string; remaining: number; upgradeUrl?: string };
+
+function today(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+const hasProAccess = (tier: SubscriptionTier) => tier === 'mid' || tier === 'pro';
+
+/**
+ * A user's tier and today's usage (zeroed on a new day)
+ */
+async function getAIUsage(userId: string): Promise<{ tier: SubscriptionTier; usage: UserSubscription['aiUsage'] }> {
+    let tier: SubscriptionTier = 'free';
+    let usage: UserSubscription['aiUsage'] = { proRequestsToday: 0, flashRequestsToday: 0, lastResetDate: today() };
+
+    const admin = initAdmin();
+    if (admin) {
+        const userDoc = await admin.firestore().collection('users').doc(userId).get();
+        const subscription = userDoc.data()?.subscription;
+        tier = subscription?.tier || 'free';
+        if (subscription?.aiUsage?.lastResetDate === today()) {
+            usage = subscription.aiUsage;
+        }
+    }
+    return { tier, usage };
+}
+
+function limitReached(tier: SubscriptionTier, modelType: AIModelType, remaining: number): AIAllowance {
+    const limits = SUBSCRIPTION_TIERS[tier].aiLimits;
+    return {
+        allowed: false,
+        tier,
+        error: modelType === 'pro'
+            ? `Daily Pro AI limit reached (${limits.proRequestsPerDay}/day). Try again tomorrow or use standard mode.`
+            : `Daily AI limit reached (${limits.flashRequestsPerDay}/day). Upgrade your plan for more requests.`,
+        remaining,
+        // Out of Pro means "use standard mode", out of Flash means "upgrade"
+        ...(modelType === 'flash' ? { upgradeUrl: '/pricing' } : {}),
+    };
+}
+
+/**
+ * Model a user may call now: Pro for mid/pro tiers while their Pro
+ * allowance lasts, Flash otherwise (within the tier's Flash limit)
+ */
+export async function checkAIAllowance(userId: string): Promise<AIAllowance> {
+    const { tier, usage } = await getAIUsage(userId);
+
+    if (hasProAccess(tier) && checkAILimit(tier, usage, 'pro').allowed) {
+        return { allowed: true, tier, modelType: 'pro', model: AI_MODEL_NAMES.pro };
+    }
+
+    const flashLimit = checkAILimit(tier, usage, 'flash');
+    if (!flashLimit.allowed) {
+        return limitReached(tier, 'flash', flashLimit.remaining);
+    }
+    return { allowed: true, tier, modelType: 'flash', model: AI_MODEL_NAMES.flash };
+}
+
+/**
+ * Model for the course tutor chat. Deep mode spends the Pro allowance of
+ * mid/pro tiers; standard mode gives them (and everyone while AI is
+ * unlocked) the Pro model on the Flash count, and only lower tiers are
+ * held to their Flash limit.
+ */
+export async function checkChatAllowance(
+    userId: string,
+    options: { deep: boolean; unlocked: boolean }
+): Promise<AIAllowance> {
+    const { tier, usage } = await getAIUsage(userId);
+
+    if (options.deep && hasProAccess(tier)) {
+        const proLimit = checkAILimit(tier, usage, 'pro');
+        return proLimit.allowed
+            ? { allowed: true, tier, modelType: 'pro', model: AI_MODEL_NAMES.pro }
+            : limitReached(tier, 'pro', proLimit.remaining);
+    }
+
+    if (!hasProAccess(tier)) {
+        const flashLimit = checkAILimit(tier, usage, 'flash');
+        if (!flashLimit.allowed) {
+            return limitReached(tier, 'flash', flashLimit.remaining);
+        }
+    }
+
+    const model = options.unlocked || hasProAccess(tier) ? AI_MODEL_NAMES.pro : AI_MODEL_NAMES.flash;
+    return { allowed: true, tier, modelType: 'flash', model };
+}
+
+/**
+ * Count one request against today's allowance (best effort)
+ */
+export async function recordAIUsage(userId: string, modelType: AIModelType): Promise<void> {
+    const admin = initAdmin();
+    if (!admin) return;
+
+    try {
+        const userRef = admin.firestore().collection('users').doc(userId);
+        const userDoc = await userRef.get();
+        const reset = userDoc.data()?.subscription?.aiUsage?.lastResetDate !== today();
+        const counter = modelType === 'pro' ? 'proRequestsToday' : 'flashRequestsToday';
+
+        await userRef.set({
+            subscription: {
+                aiUsage: {
+                    ...(reset ? { proRequestsToday: 0, flashRequestsToday: 0 } : {}),
+                    [counter]: reset ? 1 : FieldValue.increment(1),
+                    lastResetDate: today(),
+                },
+            },
+        }, { merge: true });
+    } catch (error) {
+        console.warn('⚠️ [AIUsage] Failed to record usage:', error);
+    }
+}
@@ -14,6 +14,7 @@ export interface User {
     subscription?: {
         tier: string;
         status: string;
+        purchasedCourses?: string[];
     };
     [key: string]: any;
 }
@@ -0,0 +1,52 @@
+/**
+ * Course Access (server side)
+ *
+ * Whether a user may use a paid course's content: admins always, everyone
+ * else through their tier or an individual purchase (canAccessCourse).
+ */
+
+import type { User } from '@/lib/api/auth-guard';
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { canAccessCourse, SubscriptionTier } from '@/lib/constants/subscription';
+import { getCourseStructure } from '@/lib/storage/course-storage';
+import type { Course } from '@/lib/types';
+
+type CoursePricing = Pick<Course, 'accessTier' | 'isFree' | 'price'>;
+
+/**
+ * Pricing lives on the Firestore doc (see /api/courses/[id]/pricing),
+ * not in the course blob; the course itself is the fallback
+ */
+export async function getCourseTier(id: string, course?: CoursePricing | null): Promise<SubscriptionTier> {
+    let data: Record<string, unknown> = {};
+    try {
+        const doc = await initAdmin().firestore().collection('courses').doc(id).get();
+        data = doc.data() || {};
+    } catch (error) {
+        console.warn(`⚠️ [CourseAccess] Could not read pricing for ${id}:`, error);
+    }
+
+    const hasPricing = data.accessTier !== undefined || data.isFree !== undefined || data.price !== undefined;
+    const fallback = course === undefined && !hasPricing ? await getCourseStructure(id) : course;
+    const tier = (data.accessTier || fallback?.accessTier) as SubscriptionTier | undefined;
+    if (tier) return tier;
+    const isFree = data.isFree ?? fallback?.isFree;
+    const price = (data.price ?? fallback?.price) as number | undefined;
+    return isFree || !price ? 'free' : 'basic';
+}
+
+function userCanAccess(user: User, courseId: string, courseTier: SubscriptionTier): boolean {
+    if (user.role === 'admin') return true;
+
+    const subscription = user.subscription;
+    const userTier = (subscription?.status === 'active' ? subscription.tier : 'free') as SubscriptionTier;
+    return canAccessCourse(userTier, courseTier, subscription?.purchasedCourses || [], courseId);
+}
+
+/**
+ * Whether the user may use the course (pass the course if it's loaded already)
+ */
+export async function canUserAccessCourse(user: User, courseId: string, course?: CoursePricing | null): Promise<boolean> {
+    if (user.role === 'admin') return true;
+    return userCanAccess(user, courseId, await getCourseTier(courseId, course));
+}
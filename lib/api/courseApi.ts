@@ -11,8 +11,17 @@ import {
   saveDraftLocal,
   getDraftLocal,
   markDraftSynced,
+  applyDraftVersions,
 } from '@/lib/cache/draft-cache';
 import { uploadCourseChunked } from '@/lib/cache/chunked-upload';
+import type {
+  CourseVersions,
+  VersionConflictResponse,
+} from '@/lib/storage/course-versioning';
+
+export type PublishResult =
+  | { success: true; versions?: CourseVersions }
+  | { success: false; conflict: VersionConflictResponse };
 
 /**
  * Fetch course by ID
@@ -50,6 +59,24 @@ export async function fetchCourse(id: string): Promise<Course | null> {
   }
 }
 
+/**
+ * Fetch the server copy of a course, skipping the local draft cache
+ * (e.g. after a revision restore made the local draft stale)
+ */
+export async function fetchServerCourse(id: string): Promise<Course | null> {
+  try {
+    const response = await fetch(`/api/courses/${id}`, { cache: 'no-store' });
+    if (!response.ok) {
+      console.error(`❌ API fetch failed: ${response.status}`);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.error(`Error fetching course ${id}:`, error);
+    return null;
+  }
+}
+
 /**
  * Update course - saves to LOCAL CACHE only (instant, no API)
  * Use publishCourse() to sync to server
@@ -72,11 +99,14 @@ export async function updateCourse(
 /**
  * Publish course to server (Telegram upload)
  * Only call this on explicit "Publish" action
+ *
+ * Resolves with the conflict (instead of throwing) when the server
+ * has a newer version, so the editor can offer merge/reload.
  */
 export async function publishCourse(
   id: string,
   course: Course
-): Promise<boolean> {
+): Promise<PublishResult> {
   try {
     console.log(`📤 [Publish] Uploading ${id} to server...`);
 
@@ -86,16 +116,25 @@ export async function publishCourse(
     // Use chunked upload to handle large payloads
     const result = await uploadCourseChunked(id, course, 'publish');
 
+    if (result.conflict) {
+      console.warn(`⚠️ [Publish] ${id} has a newer version on the server`);
+      return { success: false, conflict: result.conflict };
+    }
+
     if (!result.success) {
       throw new Error(result.error || 'Publish failed');
     }
 
     console.log(`✅ [Publish] ${id} published:`, result.result);
 
-    // Mark as synced
+    // Adopt server-assigned versions, then mark as synced
+    const versions: CourseVersions | undefined = result.result?.versions;
+    if (versions) {
+      await applyDraftVersions(id, versions);
+    }
     await markDraftSynced(id);
 
-    return true;
+    return { success: true, versions };
   } catch (error) {
     console.error(`❌ Publish failed:`, error);
     throw error; // Re-throw so UI can show error message
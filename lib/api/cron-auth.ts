@@ -0,0 +1,19 @@
+/**
+ * Cron Auth
+ *
+ * Vercel Cron sends `Authorization: Bearer $CRON_SECRET`. Jobs that
+ * change storage use this check, which refuses every request when no
+ * secret is configured instead of leaving the job open to anyone.
+ */
+
+import { NextRequest } from 'next/server';
+
+export function validateCronRequest(request: NextRequest): boolean {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+        console.warn('⚠️ [Cron] CRON_SECRET is not set - refusing the request');
+        return false;
+    }
+
+    return request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
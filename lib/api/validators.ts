@@ -102,6 +102,14 @@ export function validateCourseId(id: string): boolean {
     return /^[a-zA-Z0-9\-]{1,100}$/.test(id);
 }
 
+/**
+ * Validate lesson ID format (compact "L1" or editor-generated IDs)
+ */
+export function validateLessonId(id: string): boolean {
+    if (!id || typeof id !== 'string') return false;
+    return /^[a-zA-Z0-9_\-]{1,150}$/.test(id);
+}
+
 /**
  * Sanitize log message to prevent log injection
  */
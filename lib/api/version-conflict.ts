@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { Course } from '@/lib/types';
+import {
+    VersionConflict,
+    VersionConflictResponse,
+    getCourseVersions,
+} from '@/lib/storage/course-versioning';
+import { checkCourseVersions, getCourse } from '@/lib/storage/course-storage';
+
+/**
+ * 409 response for a stale course write
+ *
+ * Includes the server's current course so the editor can offer
+ * a merge without another round-trip.
+ */
+export function versionConflictResponse(conflict: VersionConflict, current: Course): NextResponse {
+    const body: VersionConflictResponse = {
+        error: 'Newer version exists',
+        conflict,
+        versions: getCourseVersions(current),
+        current,
+    };
+    return NextResponse.json(body, { status: 409 });
+}
+
+/**
+ * 409 for a write that passed the version check but lost the race to
+ * another save (see commitDraftPointer). `incoming` is the course as the
+ * client sent it; the conflict is worked out again against the new draft.
+ */
+export async function staleDraftResponse(id: string, incoming: Course): Promise<NextResponse> {
+    const check = await checkCourseVersions(id, incoming);
+    if (!check.ok) {
+        return versionConflictResponse(check.conflict, check.current);
+    }
+    const current = await getCourse(id);
+    return versionConflictResponse({ structure: null, lessons: [] }, current || incoming);
+}
@@ -5,7 +5,13 @@
  * Updates Firestore draft_snapshot pointer for crash recovery.
  */
 
-import { getAllDirtyDrafts, markDraftSynced, DraftEntry } from './draft-cache';
+import {
+  getAllDirtyDrafts,
+  markDraftSynced,
+  applyDraftVersions,
+  DraftEntry,
+  DRAFT_CONFLICT_EVENT,
+} from './draft-cache';
 import { uploadCourseChunked } from './chunked-upload';
 
 // Sync interval (30 seconds)
@@ -110,11 +116,27 @@ async function syncDraftToServer(draft: DraftEntry): Promise<boolean> {
       'checkpoint'
     );
 
+    if (result.conflict) {
+      // Someone saved a newer version - let the editor offer merge/reload
+      if (typeof window !== 'undefined') {
+        window.dispatchEvent(
+          new CustomEvent(DRAFT_CONFLICT_EVENT, {
+            detail: { courseId: draft.courseId, conflict: result.conflict },
+          })
+        );
+      }
+      return false;
+    }
+
     if (!result.success) {
       console.error(`Checkpoint failed: ${result.error}`);
       return false;
     }
 
+    if (result.result?.versions) {
+      await applyDraftVersions(draft.courseId, result.result.versions);
+    }
+
     return true;
   } catch (error) {
     console.error('Checkpoint sync error:', error);
@@ -14,6 +14,8 @@
  *    Reassembles and processes
  */
 
+import type { VersionConflictResponse } from '@/lib/storage/course-versioning';
+
 // Max chunk size: 3MB (under Vercel's 4.5MB limit with headers overhead)
 const MAX_CHUNK_SIZE = 3 * 1024 * 1024;
 
@@ -78,6 +80,7 @@ export async function uploadCourseChunked(
   error?: string;
   result?: any;
   needsRetry?: boolean;
+  conflict?: VersionConflictResponse;
 }> {
   try {
     const jsonData = JSON.stringify(course);
@@ -182,6 +185,14 @@ export async function uploadCourseChunked(
       { method: 'POST' }
     );
 
+    if (completeRes.status === 409) {
+      return await conflictResult(completeRes);
+    }
+
+    if (completeRes.status === 403) {
+      return await forbiddenResult(completeRes);
+    }
+
     if (!completeRes.ok) {
       const text = await completeRes.text();
       return { success: false, error: `Complete failed: ${text}` };
@@ -207,7 +218,12 @@ async function directUpload(
   courseId: string,
   compressed: Uint8Array,
   operation: 'checkpoint' | 'publish'
-): Promise<{ success: boolean; error?: string; result?: any }> {
+): Promise<{
+  success: boolean;
+  error?: string;
+  result?: any;
+  conflict?: VersionConflictResponse;
+}> {
   const endpoint =
     operation === 'checkpoint'
       ? `/api/admin/checkpoint?courseId=${courseId}`
@@ -225,6 +241,14 @@ async function directUpload(
     ) as ArrayBuffer,
   });
 
+  if (response.status === 409) {
+    return await conflictResult(response);
+  }
+
+  if (response.status === 403) {
+    return await forbiddenResult(response);
+  }
+
   if (!response.ok) {
     const text = await response.text();
     return { success: false, error: `${response.status}: ${text}` };
@@ -233,3 +257,24 @@ async function directUpload(
   const result = await response.json();
   return { success: true, result };
 }
+
+/**
+ * 409 - someone saved a newer version since this draft was loaded
+ */
+async function conflictResult(
+  response: Response
+): Promise<{ success: false; error: string; conflict: VersionConflictResponse }> {
+  const conflict: VersionConflictResponse = await response.json();
+  console.warn(
+    `⚠️ [Chunked] Version conflict: ${conflict.conflict.lessons.length} stale lesson(s)`
+  );
+  return { success: false, error: conflict.error, conflict };
+}
+
+/**
+ * 403 - not allowed, e.g. publishing a draft that hasn't been approved
+ */
+async function forbiddenResult(response: Response): Promise<{ success: false; error: string }> {
+  const data = await response.json().catch(() => ({}));
+  return { success: false, error: data.error || 'Not allowed' };
+}
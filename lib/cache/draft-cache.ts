@@ -5,6 +5,8 @@
  * This bypasses Firestore quota limits for autosave.
  */
 
+import { CourseVersions, applyCourseVersions } from '@/lib/storage/course-versioning';
+
 const DB_NAME = 'gakuen-cms-drafts';
 const DB_VERSION = 1;
 const STORE_NAME = 'drafts';
@@ -17,6 +19,10 @@ export interface DraftEntry {
     dirty: boolean;
 }
 
+// Window events so the open editor hears about background checkpoint results
+export const DRAFT_VERSIONS_EVENT = 'gakuen:draft-versions';
+export const DRAFT_CONFLICT_EVENT = 'gakuen:draft-conflict';
+
 let dbPromise: Promise<IDBDatabase> | null = null;
 
 function getDB(): Promise<IDBDatabase> {
@@ -151,6 +157,34 @@ export async function markDraftSynced(courseId: string): Promise<void> {
     }
 }
 
+/**
+ * Stamp server-assigned versions onto the local draft (after a successful save)
+ * Leaves the dirty flag alone - edits made during the upload still need syncing.
+ */
+export async function applyDraftVersions(courseId: string, versions: CourseVersions): Promise<void> {
+    try {
+        const db = await getDB();
+
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const request = store.get(courseId);
+
+        request.onsuccess = () => {
+            const entry = request.result as DraftEntry | undefined;
+            if (entry) {
+                entry.course = applyCourseVersions(entry.course, versions);
+                store.put(entry);
+            }
+        };
+    } catch (error) {
+        console.error('Apply versions error:', error);
+    }
+
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent(DRAFT_VERSIONS_EVENT, { detail: { courseId, versions } }));
+    }
+}
+
 /**
  * Get all dirty drafts (for batch sync)
  */
@@ -24,6 +24,7 @@ export interface PointerEntry {
         level?: 'beginner' | 'intermediate' | 'advanced';
     };
     sections?: { id: string; t: string; l: string[] }[];
+    structure_file_id?: string;  // Split storage (lazy lesson loading)
 }
 
 interface PointerMap {
@@ -63,6 +64,7 @@ async function loadPointers(): Promise<PointerMap> {
                     hash: data.published.hash,
                     meta: data.meta,
                     sections: data.sections,
+                    structure_file_id: data.published.structure_file_id,
                 };
             }
 
@@ -73,6 +75,7 @@ async function loadPointers(): Promise<PointerMap> {
                     hash: data.draft_snapshot.hash,
                     meta: data.meta,
                     sections: data.sections,
+                    structure_file_id: data.draft_snapshot.structure_file_id,
                 };
             }
         });
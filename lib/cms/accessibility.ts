@@ -0,0 +1,293 @@
+/**
+ * Lesson Accessibility Lint
+ *
+ * Scans lesson content for common accessibility problems: images without
+ * alt text, skipped heading levels, low-contrast text colors, videos
+ * without captions, vague link text and tables without a header row.
+ *
+ * Issues point at a node by its child-index path in the Tiptap JSON, so
+ * the editor can select and fix them. Errors block publishing when the
+ * course sets `requireAccessibleContent` (see getAccessibilityBlockReason).
+ */
+
+import type { Course } from '@/lib/types';
+import type { Component } from '@/lib/cms/types';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+export type A11ySeverity = 'error' | 'warning';
+
+export type A11yRule =
+    | 'image-alt'
+    | 'heading-order'
+    | 'color-contrast'
+    | 'video-captions'
+    | 'link-text'
+    | 'table-header';
+
+export type A11yFix =
+    | { kind: 'set-alt' }
+    | { kind: 'set-heading-level'; level: number }
+    | { kind: 'remove-color'; color: string }
+    | { kind: 'set-captions' }
+    | { kind: 'header-row' };
+
+export interface A11yIssue {
+    rule: A11yRule;
+    severity: A11ySeverity;
+    message: string;
+    path: number[];       // Child indexes from the document root
+    fix?: A11yFix;
+}
+
+export interface CourseA11yIssue extends A11yIssue {
+    lessonId: string;
+    lessonTitle: string;
+}
+
+// Lessons render on both themes, so colors must work on each
+export const LESSON_BACKGROUNDS = ['#ffffff', '#0a0a0a'];
+
+// WCAG AA for body text
+export const MIN_CONTRAST = 4.5;
+
+const GENERIC_LINK_TEXT = new Set([
+    'click', 'click here', 'here', 'link', 'this link', 'this',
+    'more', 'read more', 'learn more', 'see more', 'go', 'details',
+]);
+
+/**
+ * Parse #rgb, #rrggbb and rgb()/rgba() colors; null for anything else
+ */
+export function parseColor(value: string): [number, number, number] | null {
+    const color = value.trim().toLowerCase();
+
+    const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+    if (hex) {
+        const digits = hex[1].length === 3
+            ? hex[1].split('').map(d => d + d).join('')
+            : hex[1];
+        return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+    }
+
+    const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+    if (rgb) {
+        return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+    }
+    return null;
+}
+
+function luminance([r, g, b]: [number, number, number]): number {
+    const channel = (v: number) => {
+        const c = v / 255;
+        return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * WCAG contrast ratio (1-21); null when either color can't be parsed
+ */
+export function contrastRatio(foreground: string, background: string): number | null {
+    const fg = parseColor(foreground);
+    const bg = parseColor(background);
+    if (!fg || !bg) return null;
+
+    const [light, dark] = [luminance(fg), luminance(bg)].sort((a, b) => b - a);
+    return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * Worst contrast of a text color across the lesson backgrounds
+ */
+export function lessonContrast(color: string): number | null {
+    const ratios = LESSON_BACKGROUNDS
+        .map(bg => contrastRatio(color, bg))
+        .filter((r): r is number => r !== null);
+    return ratios.length > 0 ? Math.min(...ratios) : null;
+}
+
+function contrastIssue(color: string, path: number[], fix?: A11yFix): A11yIssue | null {
+    const ratio = lessonContrast(color);
+    if (ratio === null || ratio >= MIN_CONTRAST) return null;
+    return {
+        rule: 'color-contrast',
+        severity: 'error',
+        message: `Text color ${color} has ${ratio.toFixed(1)}:1 contrast (needs ${MIN_CONTRAST}:1 on light and dark themes)`,
+        path,
+        fix,
+    };
+}
+
+/**
+ * Problems in inline content of one block: colors and link text
+ */
+function lintInline(block: TiptapNode, path: number[]): A11yIssue[] {
+    const issues: A11yIssue[] = [];
+    const colors = new Set<string>();
+    const links: { href: string; text: string }[] = [];
+
+    (block.content || []).forEach(child => {
+        if (child.type !== 'text') return;
+        for (const mark of child.marks || []) {
+            const color = mark.attrs?.color;
+            if (mark.type === 'textStyle' && typeof color === 'string' && color) {
+                colors.add(color);
+            }
+        }
+
+        // Adjacent text nodes with the same href form one link
+        const href = child.marks?.find(m => m.type === 'link')?.attrs?.href as string | undefined;
+        const last = links[links.length - 1];
+        if (href && last?.href === href) {
+            last.text += child.text || '';
+        } else if (href) {
+            links.push({ href, text: child.text || '' });
+        }
+    });
+
+    for (const color of colors) {
+        const issue = contrastIssue(color, path, { kind: 'remove-color', color });
+        if (issue) issues.push(issue);
+    }
+
+    for (const link of links) {
+        const text = link.text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+        if (GENERIC_LINK_TEXT.has(text) || text === link.href.toLowerCase()) {
+            issues.push({
+                rule: 'link-text',
+                severity: 'warning',
+                message: `Link text "${link.text.trim()}" doesn't say where it goes`,
+                path,
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Lint a Tiptap document's content
+ */
+export function lintTiptapDoc(nodes: TiptapNode[]): A11yIssue[] {
+    const issues: A11yIssue[] = [];
+    let headingLevel = 1; // The lesson title is the page's h1
+
+    const walk = (list: TiptapNode[], parentPath: number[]) => {
+        list.forEach((node, index) => {
+            const path = [...parentPath, index];
+
+            switch (node.type) {
+                case 'image':
+                case 'customImage':
+                    if (!String(node.attrs?.alt || '').trim()) {
+                        issues.push({
+                            rule: 'image-alt',
+                            severity: 'error',
+                            message: 'Image is missing alt text',
+                            path,
+                            fix: { kind: 'set-alt' },
+                        });
+                    }
+                    return;
+
+                case 'customVideo':
+                    if (node.attrs?.src && !node.attrs?.captions) {
+                        issues.push({
+                            rule: 'video-captions',
+                            severity: 'error',
+                            message: 'Video has no captions track',
+                            path,
+                            fix: { kind: 'set-captions' },
+                        });
+                    }
+                    return;
+
+                case 'heading': {
+                    const level = Number(node.attrs?.level) || 1;
+                    if (level > headingLevel + 1) {
+                        issues.push({
+                            rule: 'heading-order',
+                            severity: 'warning',
+                            message: `Heading level ${level} skips level ${headingLevel + 1}`,
+                            path,
+                            fix: { kind: 'set-heading-level', level: headingLevel + 1 },
+                        });
+                    }
+                    headingLevel = level;
+                    break;
+                }
+
+                case 'table': {
+                    const firstRow = node.content?.[0];
+                    if (!firstRow?.content?.some(cell => cell.type === 'tableHeader')) {
+                        issues.push({
+                            rule: 'table-header',
+                            severity: 'warning',
+                            message: 'Table has no header row',
+                            path,
+                            fix: { kind: 'header-row' },
+                        });
+                    }
+                    break;
+                }
+            }
+
+            if (node.content?.some(child => child.type === 'text')) {
+                issues.push(...lintInline(node, path));
+            } else if (node.content) {
+                walk(node.content, path);
+            }
+        });
+    };
+
+    walk(nodes, []);
+    return issues;
+}
+
+/**
+ * Lint a component-based (legacy) lesson; the path is the component index
+ */
+export function lintComponents(components: Component[]): A11yIssue[] {
+    const issues: A11yIssue[] = [];
+
+    components.forEach((component, index) => {
+        if (component.type === 'image' && !(component.alt || '').trim()) {
+            issues.push({ rule: 'image-alt', severity: 'error', message: 'Image is missing alt text', path: [index] });
+        }
+        // Stored as StyleOverrides.c in the course blob
+        if ((component.type === 'text' || component.type === 'header') && component.color) {
+            const issue = contrastIssue(component.color, [index]);
+            if (issue) issues.push(issue);
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Lint every lesson of a course
+ */
+export function lintCourse(course: Course): CourseA11yIssue[] {
+    return (course.lessons || []).flatMap(lesson => {
+        const doc = lesson.tiptapJson as TiptapNode | undefined;
+        const issues = doc
+            ? lintTiptapDoc(doc.content || [])
+            : lintComponents(lesson.components || []);
+        return issues.map(issue => ({ ...issue, lessonId: lesson.id, lessonTitle: lesson.title }));
+    });
+}
+
+/**
+ * Why the course can't be published, or null. Only enforced when the
+ * course requires accessible content.
+ */
+export function getAccessibilityBlockReason(course: Course): string | null {
+    if (!course.requireAccessibleContent) return null;
+
+    const errors = lintCourse(course).filter(issue => issue.severity === 'error');
+    if (errors.length === 0) return null;
+
+    const first = errors[0];
+    return `Fix ${errors.length} accessibility error${errors.length === 1 ? '' : 's'} before publishing ` +
+        `(e.g. "${first.lessonTitle}": ${first.message})`;
+}
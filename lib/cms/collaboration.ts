@@ -0,0 +1,127 @@
+/**
+ * Real-time Collaboration
+ *
+ * A lesson open in the FluidEditor can be co-authored through a Yjs
+ * document shared over a WebSocket relay (scripts/collab-relay.js,
+ * `npm run collab`). Storage doesn't change: every participant's editor
+ * still emits the merged document into its local draft, and the usual
+ * checkpoints upload it. Server-assigned lesson versions are shared through
+ * the Yjs document too, so participants don't raise version conflicts
+ * against each other.
+ *
+ * Enabled when NEXT_PUBLIC_COLLAB_URL is set (e.g. ws://localhost:1234).
+ */
+
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import type { Schema } from '@tiptap/pm/model';
+import { prosemirrorJSONToYXmlFragment } from '@tiptap/y-tiptap';
+
+export const COLLAB_FIELD = 'default';
+const META_MAP = 'meta';
+
+const USER_COLORS = [
+    '#f87171', '#fb923c', '#facc15', '#4ade80', '#2dd4bf',
+    '#38bdf8', '#818cf8', '#c084fc', '#f472b6', '#a3e635',
+];
+
+export interface CollabUser {
+    id: string;
+    name: string;
+    color: string;
+}
+
+export interface CollabSession {
+    doc: Y.Doc;
+    provider: WebsocketProvider;
+    destroy: () => void;
+}
+
+export function getCollabUrl(): string | null {
+    return process.env.NEXT_PUBLIC_COLLAB_URL || null;
+}
+
+export function collabRoomName(courseId: string, lessonId: string): string {
+    return `courses/${courseId}/lessons/${lessonId}`;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+export function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Stable cursor color per user
+ */
+export function colorForUser(userId: string): string {
+    return USER_COLORS[hashString(userId) % USER_COLORS.length];
+}
+
+/**
+ * Join the relay room for a lesson
+ */
+export function createCollabSession(url: string, courseId: string, lessonId: string): CollabSession {
+    const doc = new Y.Doc();
+    const provider = new WebsocketProvider(url, collabRoomName(courseId, lessonId), doc);
+
+    console.log(`🤝 [Collab] Joining ${collabRoomName(courseId, lessonId)}`);
+    return {
+        doc,
+        provider,
+        destroy: () => {
+            provider.destroy();
+            doc.destroy();
+        },
+    };
+}
+
+/**
+ * Fill an empty shared document with the lesson's saved content.
+ *
+ * The seed is written under a client ID derived from the content, so two
+ * authors seeding the same lesson at the same moment produce identical
+ * Yjs items that merge into one copy instead of duplicating the lesson.
+ * Returns false when the document already had content.
+ */
+export function seedCollabDocument(doc: Y.Doc, schema: Schema, json: object): boolean {
+    const fragment = doc.getXmlFragment(COLLAB_FIELD);
+    if (fragment.length > 0) return false;
+
+    const seed = new Y.Doc();
+    seed.clientID = hashString(JSON.stringify(json)) || 1;
+    prosemirrorJSONToYXmlFragment(schema, json, seed.getXmlFragment(COLLAB_FIELD));
+    Y.applyUpdate(doc, Y.encodeStateAsUpdate(seed));
+    seed.destroy();
+    return true;
+}
+
+/**
+ * Publish the latest server-assigned lesson version to the other participants
+ */
+export function shareLessonVersion(doc: Y.Doc, version: number): void {
+    const meta = doc.getMap<number>(META_MAP);
+    if ((meta.get('version') || 0) < version) {
+        meta.set('version', version);
+    }
+}
+
+/**
+ * Call back whenever another participant shares a newer lesson version
+ */
+export function observeLessonVersion(doc: Y.Doc, callback: (version: number) => void): () => void {
+    const meta = doc.getMap<number>(META_MAP);
+    const handler = (event: Y.YMapEvent<number>) => {
+        if (event.keysChanged.has('version')) {
+            callback(meta.get('version') || 0);
+        }
+    };
+    meta.observe(handler);
+    return () => meta.unobserve(handler);
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { Extension, type Editor } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { isMacPlatform, shortcutFromEvent } from '@/lib/cms/slash-commands';
+
+export interface BlockShortcutsOptions {
+    /**
+     * Block command bound to a shortcut (read on every keydown so the
+     * bindings can change without recreating the editor)
+     */
+    resolve: (shortcut: string) => ((editor: Editor) => void) | undefined;
+}
+
+export const BlockShortcuts = Extension.create<BlockShortcutsOptions>({
+    name: 'blockShortcuts',
+
+    addOptions() {
+        return {
+            resolve: () => undefined,
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const editor = this.editor;
+        const options = this.options;
+        const isMac = isMacPlatform();
+
+        return [
+            new Plugin({
+                key: new PluginKey('blockShortcuts'),
+                props: {
+                    handleKeyDown: (_view, event) => {
+                        const shortcut = shortcutFromEvent(event, isMac);
+                        if (!shortcut) return false;
+
+                        const command = options.resolve(shortcut);
+                        if (!command) return false;
+
+                        event.preventDefault();
+                        command(editor);
+                        return true;
+                    },
+                },
+            }),
+        ];
+    },
+});
+
+export default BlockShortcuts;
@@ -0,0 +1,78 @@
+'use client';
+
+import { Mark } from '@tiptap/core';
+import { COMMENT_MARK } from '@/lib/cms/review';
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        comment: {
+            /**
+             * Anchor a review thread on the selection
+             */
+            setComment: (threadId: string) => ReturnType;
+            /**
+             * Remove a thread's anchor everywhere in the document
+             */
+            unsetComment: (threadId: string) => ReturnType;
+        };
+    }
+}
+
+/**
+ * Review comment anchor. A mark (not positions) so it moves with the text
+ * through edits and collaborative merges. Overlapping threads are allowed;
+ * students never see it (the lesson renderer ignores unknown marks).
+ */
+export const CommentMark = Mark.create({
+    name: COMMENT_MARK,
+
+    inclusive: false,
+    excludes: '',
+
+    addAttributes() {
+        return {
+            threadId: {
+                default: null,
+                parseHTML: (element) => element.getAttribute('data-comment-id'),
+                renderHTML: (attributes) => ({ 'data-comment-id': attributes.threadId }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'span[data-comment-id]' }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['span', { ...HTMLAttributes, class: 'review-comment' }, 0];
+    },
+
+    addCommands() {
+        return {
+            // addMark rather than setMark: setMark would rewrite an
+            // overlapping thread's anchor instead of adding a second one
+            setComment:
+                (threadId: string) =>
+                    ({ tr, dispatch }) => {
+                        const { from, to, empty } = tr.selection;
+                        if (empty) return false;
+                        if (dispatch) tr.addMark(from, to, this.type.create({ threadId }));
+                        return true;
+                    },
+            unsetComment:
+                (threadId: string) =>
+                    ({ tr, dispatch }) => {
+                        let found = false;
+                        tr.doc.descendants((node, pos) => {
+                            const mark = node.marks.find(m => m.type === this.type && m.attrs.threadId === threadId);
+                            if (!mark) return;
+                            found = true;
+                            if (dispatch) tr.removeMark(pos, pos + node.nodeSize, mark);
+                        });
+                        return found;
+                    },
+        };
+    },
+});
+
+export default CommentMark;
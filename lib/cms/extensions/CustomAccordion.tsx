@@ -0,0 +1,98 @@
+'use client';
+
+import {
+  Node,
+  mergeAttributes,
+  NodeViewWrapper,
+  NodeViewContent,
+  NodeViewProps,
+} from '@tiptap/react';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { ChevronRight, X } from 'lucide-react';
+import { stopControlEvents } from './CustomCallout';
+
+// Accordion Node View - always expanded while editing, "open" only sets the student default
+function AccordionNodeView({ node, updateAttributes, deleteNode, selected }: NodeViewProps) {
+  return (
+    <NodeViewWrapper className="my-4">
+      <div
+        className={`rounded-xl border overflow-hidden ${selected
+          ? 'border-indigo-500 ring-2 ring-indigo-500/20'
+          : 'border-neutral-200 dark:border-zinc-700/60'
+          }`}
+      >
+        <div
+          className="flex items-center gap-2 px-4 py-2 bg-neutral-50 dark:bg-zinc-900"
+          contentEditable={false}
+        >
+          <ChevronRight size={16} className="shrink-0 rotate-90 text-neutral-400" />
+          <input
+            type="text"
+            value={node.attrs.title || ''}
+            onChange={(e) => updateAttributes({ title: e.target.value })}
+            placeholder="Accordion title"
+            className="flex-1 font-semibold bg-transparent border-none focus:outline-none placeholder-neutral-400"
+          />
+          <label className="flex items-center gap-1.5 text-xs text-neutral-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!node.attrs.open}
+              onChange={(e) => updateAttributes({ open: e.target.checked })}
+            />
+            Open by default
+          </label>
+          <button
+            onClick={() => deleteNode()}
+            className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+            title="Delete accordion"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        <NodeViewContent className="px-4 py-3 [&>*:first-child]:mt-0 [&>*:last-child]:mb-0" />
+      </div>
+    </NodeViewWrapper>
+  );
+}
+
+// Custom Accordion Extension
+export const CustomAccordion = Node.create({
+  name: 'customAccordion',
+
+  group: 'block',
+
+  content: 'block+',
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      title: {
+        default: 'Details',
+      },
+      open: {
+        default: false,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-accordion]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-accordion': '' }), 0];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(AccordionNodeView, {
+      stopEvent: stopControlEvents,
+    });
+  },
+});
+
+export default CustomAccordion;
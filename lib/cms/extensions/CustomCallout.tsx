@@ -0,0 +1,106 @@
+'use client';
+
+import {
+  Node,
+  mergeAttributes,
+  NodeViewWrapper,
+  NodeViewContent,
+  NodeViewProps,
+} from '@tiptap/react';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { X } from 'lucide-react';
+import { CALLOUT_VARIANTS } from '@/components/cms/blocks/CalloutBlock';
+import type { CalloutVariant } from '@/lib/cms/types';
+
+// Only the header controls handle their own events; the body is regular editor content
+export function stopControlEvents({ event }: { event: Event }): boolean {
+  const target = event.target as HTMLElement | null;
+  return !!target?.closest('input, select, textarea, button');
+}
+
+// Callout Node View - variant picker + title, nested content below
+function CalloutNodeView({ node, updateAttributes, deleteNode, selected }: NodeViewProps) {
+  const variant = (node.attrs.variant as CalloutVariant) || 'info';
+  const meta = CALLOUT_VARIANTS[variant] || CALLOUT_VARIANTS.info;
+  const Icon = meta.icon;
+
+  return (
+    <NodeViewWrapper className="my-4">
+      <div
+        className={`rounded-xl border-l-4 border px-4 py-3 ${meta.className} ${selected ? 'ring-2 ring-indigo-500/30' : ''}`}
+      >
+        <div className="flex items-center gap-2 mb-1" contentEditable={false}>
+          <Icon size={18} className={`shrink-0 ${meta.iconClassName}`} />
+          <select
+            value={variant}
+            onChange={(e) => updateAttributes({ variant: e.target.value })}
+            className="bg-transparent border border-current/20 rounded px-1.5 py-0.5 text-xs focus:outline-none"
+          >
+            {Object.entries(CALLOUT_VARIANTS).map(([value, v]) => (
+              <option key={value} value={value}>
+                {v.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={node.attrs.title || ''}
+            onChange={(e) => updateAttributes({ title: e.target.value })}
+            placeholder={meta.label}
+            className="flex-1 font-semibold bg-transparent border-none focus:outline-none placeholder-current/50"
+          />
+          <button
+            onClick={() => deleteNode()}
+            className="p-1 opacity-50 hover:opacity-100 hover:text-red-500 transition-colors"
+            title="Delete callout"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        <NodeViewContent className="[&>*:first-child]:mt-0 [&>*:last-child]:mb-0" />
+      </div>
+    </NodeViewWrapper>
+  );
+}
+
+// Custom Callout Extension
+export const CustomCallout = Node.create({
+  name: 'customCallout',
+
+  group: 'block',
+
+  content: 'block+',
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      variant: {
+        default: 'info',
+      },
+      title: {
+        default: '',
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-callout]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-callout': '' }), 0];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(CalloutNodeView, {
+      stopEvent: stopControlEvents,
+    });
+  },
+});
+
+export default CustomCallout;
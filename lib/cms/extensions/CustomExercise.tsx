@@ -0,0 +1,236 @@
+'use client';
+
+import {
+  Node,
+  mergeAttributes,
+  NodeViewWrapper,
+  NodeViewProps,
+} from '@tiptap/react';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Dumbbell, FlaskConical, X } from 'lucide-react';
+import { ExerciseTestEditor } from '@/components/cms/ExerciseTestEditor';
+import { CodeRunPanel } from '@/components/cms/CodeRunPanel';
+import type { ExerciseLanguage, ExerciseTestCase } from '@/lib/cms/types';
+
+// Generate unique ID
+function generateId(): string {
+  return `exercise-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+const LANGUAGES: { value: ExerciseLanguage; label: string; filename: string }[] = [
+  { value: 'javascript', label: 'JavaScript', filename: 'solution.js' },
+  { value: 'typescript', label: 'TypeScript', filename: 'solution.ts' },
+  { value: 'python', label: 'Python', filename: 'solution.py' },
+];
+
+// Exercise Node View - prompt, starter code and a test-case editor
+function ExerciseNodeView({
+  node,
+  updateAttributes,
+  deleteNode,
+  selected,
+}: NodeViewProps) {
+  const [showTests, setShowTests] = useState(false);
+
+  const attrs = node.attrs as {
+    exerciseId: string;
+    title: string;
+    prompt: string;
+    language: ExerciseLanguage;
+    starterCode: string;
+    tests: ExerciseTestCase[];
+  };
+  const tests = attrs.tests || [];
+  const language =
+    LANGUAGES.find((l) => l.value === attrs.language) || LANGUAGES[0];
+  const hiddenCount = tests.filter((t) => t.hidden).length;
+
+  return (
+    <NodeViewWrapper className="my-4">
+      <div
+        className={`rounded-xl overflow-hidden border transition-all bg-zinc-900 ${
+          selected
+            ? 'border-emerald-500 ring-2 ring-emerald-500/20'
+            : 'border-zinc-800'
+        }`}
+      >
+        {/* Header */}
+        <div className="p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <Dumbbell size={16} className="text-emerald-400" />
+            <span className="text-xs font-medium text-emerald-400 uppercase tracking-wide">
+              Exercise
+            </span>
+            <select
+              value={language.value}
+              onChange={(e) => updateAttributes({ language: e.target.value })}
+              className="ml-2 bg-zinc-800 border border-zinc-700 rounded px-2 py-0.5 text-xs text-white focus:outline-none focus:border-emerald-500"
+            >
+              {LANGUAGES.map((l) => (
+                <option key={l.value} value={l.value}>
+                  {l.label}
+                </option>
+              ))}
+            </select>
+            <div className="flex-1" />
+            <button
+              onClick={() => setShowTests(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded-lg text-xs font-medium transition-colors"
+            >
+              <FlaskConical size={14} />
+              Tests ({tests.length}
+              {hiddenCount > 0 ? `, ${hiddenCount} hidden` : ''})
+            </button>
+            <button
+              onClick={() => deleteNode()}
+              className="p-1 text-zinc-500 hover:text-red-400 transition-colors"
+              title="Delete exercise"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <input
+            type="text"
+            value={attrs.title}
+            onChange={(e) => updateAttributes({ title: e.target.value })}
+            placeholder="Exercise title"
+            className="w-full text-lg font-semibold text-white bg-transparent border-none focus:outline-none placeholder-zinc-500"
+          />
+          <textarea
+            value={attrs.prompt}
+            onChange={(e) => updateAttributes({ prompt: e.target.value })}
+            placeholder="Describe what the student should implement..."
+            className="w-full bg-zinc-800/50 border border-zinc-700 rounded-lg p-2 text-sm text-zinc-200 placeholder-zinc-500 focus:outline-none focus:border-emerald-500 resize-none"
+            rows={2}
+          />
+        </div>
+
+        {/* Starter code */}
+        <div className="px-4 py-1 text-[10px] uppercase tracking-wide text-zinc-500 bg-zinc-950/50 border-t border-zinc-800">
+          Starter code · {language.filename}
+        </div>
+        <div className="relative min-h-[140px] overflow-hidden bg-[#1a1a1a]">
+          <SyntaxHighlighter
+            language={language.value}
+            style={vscDarkPlus}
+            showLineNumbers={false}
+            wrapLines={false}
+            wrapLongLines={false}
+            customStyle={{
+              margin: 0,
+              padding: '16px',
+              background: 'transparent',
+              minHeight: '140px',
+              fontSize: '13px',
+              lineHeight: '20px',
+              fontFamily: 'SF Mono, Menlo, Monaco, Consolas, monospace',
+              pointerEvents: 'none',
+              whiteSpace: 'pre',
+              overflowX: 'auto',
+            }}
+            codeTagProps={{
+              style: {
+                fontFamily: 'inherit',
+                fontSize: 'inherit',
+                lineHeight: 'inherit',
+              },
+            }}
+          >
+            {attrs.starterCode || ' '}
+          </SyntaxHighlighter>
+          <textarea
+            value={attrs.starterCode}
+            onChange={(e) => updateAttributes({ starterCode: e.target.value })}
+            className="absolute inset-0 w-full h-full bg-transparent text-transparent caret-white focus:outline-none resize-none"
+            style={{
+              padding: '16px',
+              fontSize: '13px',
+              lineHeight: '20px',
+              fontFamily: 'SF Mono, Menlo, Monaco, Consolas, monospace',
+              whiteSpace: 'pre',
+              overflowWrap: 'normal',
+              wordWrap: 'normal',
+            }}
+            spellCheck={false}
+          />
+        </div>
+
+        <CodeRunPanel
+          files={[
+            {
+              id: 'solution',
+              filename: language.filename,
+              language: language.value,
+              code: attrs.starterCode,
+            },
+          ]}
+        />
+      </div>
+
+      <ExerciseTestEditor
+        open={showTests}
+        language={language.value}
+        starterCode={attrs.starterCode}
+        tests={tests}
+        onChange={(next) => updateAttributes({ tests: next })}
+        onClose={() => setShowTests(false)}
+      />
+    </NodeViewWrapper>
+  );
+}
+
+// Custom Exercise Extension
+export const CustomExercise = Node.create({
+  name: 'customExercise',
+
+  group: 'block',
+
+  atom: true,
+
+  addAttributes() {
+    return {
+      exerciseId: {
+        default: () => generateId(),
+      },
+      title: {
+        default: 'Untitled Exercise',
+      },
+      prompt: {
+        default: '',
+      },
+      language: {
+        default: 'javascript',
+      },
+      starterCode: {
+        default: 'function solve(input) {\n  // Your code here\n}\n',
+      },
+      tests: {
+        default: [],
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-exercise]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-exercise': '' })];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ExerciseNodeView, {
+      // Inputs and textareas inside the node handle their own events
+      stopEvent: () => true,
+    });
+  },
+});
+
+export default CustomExercise;
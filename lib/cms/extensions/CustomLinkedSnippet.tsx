@@ -0,0 +1,155 @@
+'use client';
+
+import {
+  Node,
+  mergeAttributes,
+  NodeViewWrapper,
+  NodeViewProps,
+} from '@tiptap/react';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { useEffect, useMemo } from 'react';
+import { Link2, Unlink, X } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api/authenticated-fetch';
+import { renderNodeToHtml, type TiptapNode } from '@/lib/cms/tiptap-html';
+import { LINKED_SNIPPET_NODE, type ContentTemplate } from '@/lib/cms/templates';
+
+// Linked Snippet Node View - read-only preview of the template content
+function LinkedSnippetNodeView({
+  node,
+  updateAttributes,
+  deleteNode,
+  editor,
+  getPos,
+  selected,
+}: NodeViewProps) {
+  const attrs = node.attrs as {
+    templateId: string;
+    name: string;
+    version: number;
+    content: TiptapNode[];
+  };
+
+  // Pull in a newer template version if one was saved since this copy
+  useEffect(() => {
+    if (!attrs.templateId) return;
+    let cancelled = false;
+
+    authenticatedFetch(`/api/admin/templates/${attrs.templateId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { template?: ContentTemplate } | null) => {
+        const template = data?.template;
+        if (cancelled || !template || template.version <= (attrs.version || 0)) return;
+        updateAttributes({
+          name: template.name,
+          version: template.version,
+          content: template.content,
+        });
+      })
+      .catch(() => {
+        // Offline or deleted template - keep the cached copy
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attrs.templateId]);
+
+  const html = useMemo(
+    () => (attrs.content || []).map(renderNodeToHtml).join(''),
+    [attrs.content]
+  );
+
+  // Replace the link with an editable copy of its content
+  const unlink = () => {
+    const pos = getPos();
+    if (typeof pos !== 'number') return;
+    editor
+      .chain()
+      .focus()
+      .insertContentAt({ from: pos, to: pos + node.nodeSize }, attrs.content || [])
+      .run();
+  };
+
+  return (
+    <NodeViewWrapper className="my-4">
+      <div
+        className={`rounded-xl overflow-hidden border border-dashed transition-all ${
+          selected
+            ? 'border-indigo-500 ring-2 ring-indigo-500/20'
+            : 'border-indigo-500/40'
+        }`}
+      >
+        <div className="flex items-center gap-2 px-3 py-1.5 bg-indigo-500/10 text-xs">
+          <Link2 size={14} className="text-indigo-400" />
+          <span className="font-medium text-indigo-300 truncate">{attrs.name || 'Linked snippet'}</span>
+          <span className="text-zinc-500">v{attrs.version}</span>
+          <div className="flex-1" />
+          <button
+            onClick={unlink}
+            className="flex items-center gap-1 px-2 py-0.5 text-zinc-400 hover:text-white transition-colors"
+            title="Unlink and edit a local copy"
+          >
+            <Unlink size={12} />
+            Unlink
+          </button>
+          <button
+            onClick={() => deleteNode()}
+            className="p-0.5 text-zinc-500 hover:text-red-400 transition-colors"
+            title="Remove snippet"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div
+          className="px-4 py-3 prose prose-invert max-w-none pointer-events-none"
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+      </div>
+    </NodeViewWrapper>
+  );
+}
+
+// Custom Linked Snippet Extension
+export const CustomLinkedSnippet = Node.create({
+  name: LINKED_SNIPPET_NODE,
+
+  group: 'block',
+
+  atom: true,
+
+  addAttributes() {
+    return {
+      templateId: {
+        default: '',
+      },
+      name: {
+        default: '',
+      },
+      version: {
+        default: 0,
+      },
+      content: {
+        default: [],
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-linked-snippet]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-linked-snippet': '' })];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(LinkedSnippetNodeView);
+  },
+});
+
+export default CustomLinkedSnippet;
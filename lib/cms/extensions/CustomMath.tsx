@@ -0,0 +1,173 @@
+'use client';
+
+import {
+  Node,
+  mergeAttributes,
+  nodeInputRule,
+  NodeViewWrapper,
+  NodeViewProps,
+} from '@tiptap/react';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { useMemo } from 'react';
+import { Sigma, X } from 'lucide-react';
+import { renderMath, getMathError } from '@/lib/cms/math';
+import { stopControlEvents } from './CustomCallout';
+
+// Inline Math Node View - rendered formula, source input while selected
+function MathInlineNodeView({ node, updateAttributes, selected }: NodeViewProps) {
+  const latex = (node.attrs.latex as string) || '';
+  const html = useMemo(() => renderMath(latex || '\\square'), [latex]);
+
+  return (
+    <NodeViewWrapper
+      as="span"
+      className={`relative inline-block rounded px-0.5 ${selected ? 'bg-indigo-500/15 ring-1 ring-indigo-500/40' : ''}`}
+    >
+      <span contentEditable={false} dangerouslySetInnerHTML={{ __html: html }} />
+      {selected && (
+        <span
+          contentEditable={false}
+          className="absolute left-0 top-full z-20 mt-1 flex items-center gap-1 rounded-lg border border-zinc-700 bg-zinc-900 p-1.5 shadow-xl"
+        >
+          <Sigma size={12} className="text-indigo-400" />
+          <input
+            type="text"
+            value={latex}
+            onChange={(e) => updateAttributes({ latex: e.target.value })}
+            placeholder="e^{i\pi} + 1 = 0"
+            autoFocus
+            className="w-56 bg-transparent font-mono text-xs text-white focus:outline-none"
+          />
+        </span>
+      )}
+    </NodeViewWrapper>
+  );
+}
+
+// Math Block Node View - LaTeX source with a live preview
+function MathBlockNodeView({ node, updateAttributes, deleteNode, selected }: NodeViewProps) {
+  const latex = (node.attrs.latex as string) || '';
+  const html = useMemo(() => renderMath(latex, true), [latex]);
+  const error = useMemo(() => (latex ? getMathError(latex) : null), [latex]);
+
+  return (
+    <NodeViewWrapper className="my-4">
+      <div
+        className={`rounded-xl border overflow-hidden ${selected
+          ? 'border-indigo-500 ring-2 ring-indigo-500/20'
+          : 'border-neutral-200 dark:border-zinc-700/60'
+          }`}
+      >
+        <div className="flex items-center gap-2 px-3 py-1.5 bg-neutral-50 dark:bg-zinc-900 text-xs text-neutral-500">
+          <Sigma size={14} className="text-indigo-500" />
+          <span className="font-medium uppercase tracking-wide">Equation</span>
+          <div className="flex-1" />
+          <button
+            onClick={() => deleteNode()}
+            className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+            title="Delete equation"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <textarea
+          value={latex}
+          onChange={(e) => updateAttributes({ latex: e.target.value })}
+          placeholder="\int_0^1 x^2 \, dx = \frac{1}{3}"
+          className="w-full bg-transparent px-3 py-2 font-mono text-sm focus:outline-none resize-none border-b border-neutral-200 dark:border-zinc-700/60"
+          rows={2}
+          spellCheck={false}
+        />
+        <div className="px-3 py-3 overflow-x-auto" dangerouslySetInnerHTML={{ __html: html }} />
+        {error && <p className="px-3 pb-2 text-xs text-red-500">{error}</p>}
+      </div>
+    </NodeViewWrapper>
+  );
+}
+
+// Inline LaTeX - typing $x^2$ converts to a formula
+export const CustomMathInline = Node.create({
+  name: 'mathInline',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  addAttributes() {
+    return {
+      latex: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-math') || '',
+        renderHTML: (attributes) => ({ 'data-math': attributes.latex }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'code[data-math]',
+        priority: 60, // Before the code mark
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['code', mergeAttributes(HTMLAttributes), node.attrs.latex];
+  },
+
+  addInputRules() {
+    return [
+      nodeInputRule({
+        find: /(?:^|\s)\$([^$\s](?:[^$]*[^$\s])?)\$$/,
+        type: this.type,
+        getAttributes: (match) => ({ latex: match[1] }),
+      }),
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathInlineNodeView, {
+      stopEvent: stopControlEvents,
+    });
+  },
+});
+
+// Display LaTeX equation
+export const CustomMathBlock = Node.create({
+  name: 'mathBlock',
+
+  group: 'block',
+
+  atom: true,
+
+  addAttributes() {
+    return {
+      latex: {
+        default: '',
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-math-block]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-math-block': '' })];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathBlockNodeView, {
+      stopEvent: stopControlEvents,
+    });
+  },
+});
+
+export default CustomMathBlock;
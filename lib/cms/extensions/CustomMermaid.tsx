@@ -0,0 +1,97 @@
+'use client';
+
+import {
+  Node,
+  mergeAttributes,
+  NodeViewWrapper,
+  NodeViewProps,
+} from '@tiptap/react';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { useEffect, useState } from 'react';
+import { Workflow, X } from 'lucide-react';
+import { MermaidDiagram } from '@/components/cms/MermaidDiagram';
+import { stopControlEvents } from './CustomCallout';
+
+const DEFAULT_SOURCE = 'flowchart LR\n  A[Start] --> B{Works?}\n  B -- Yes --> C[Ship it]\n  B -- No --> A';
+
+// Mermaid Node View - source on the left, debounced live preview on the right
+function MermaidNodeView({ node, updateAttributes, deleteNode, selected }: NodeViewProps) {
+  const source = (node.attrs.source as string) || '';
+  const [preview, setPreview] = useState(source);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setPreview(source), 400);
+    return () => clearTimeout(timer);
+  }, [source]);
+
+  return (
+    <NodeViewWrapper className="my-4">
+      <div
+        className={`rounded-xl border overflow-hidden ${selected
+          ? 'border-indigo-500 ring-2 ring-indigo-500/20'
+          : 'border-neutral-200 dark:border-zinc-700/60'
+          }`}
+      >
+        <div className="flex items-center gap-2 px-3 py-1.5 bg-neutral-50 dark:bg-zinc-900 text-xs text-neutral-500">
+          <Workflow size={14} className="text-indigo-500" />
+          <span className="font-medium uppercase tracking-wide">Diagram</span>
+          <div className="flex-1" />
+          <button
+            onClick={() => deleteNode()}
+            className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+            title="Delete diagram"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="grid md:grid-cols-2">
+          <textarea
+            value={source}
+            onChange={(e) => updateAttributes({ source: e.target.value })}
+            placeholder="flowchart LR&#10;  A --> B"
+            className="min-h-[160px] w-full bg-transparent px-3 py-2 font-mono text-xs focus:outline-none resize-y border-b md:border-b-0 md:border-r border-neutral-200 dark:border-zinc-700/60"
+            spellCheck={false}
+          />
+          <MermaidDiagram source={preview} className="p-3 bg-white" />
+        </div>
+      </div>
+    </NodeViewWrapper>
+  );
+}
+
+// Custom Mermaid Extension
+export const CustomMermaid = Node.create({
+  name: 'mermaidDiagram',
+
+  group: 'block',
+
+  atom: true,
+
+  addAttributes() {
+    return {
+      source: {
+        default: DEFAULT_SOURCE,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-mermaid]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-mermaid': '' })];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MermaidNodeView, {
+      stopEvent: stopControlEvents,
+    });
+  },
+});
+
+export default CustomMermaid;
@@ -10,8 +10,9 @@ import { ReactNodeViewRenderer } from '@tiptap/react';
 import { useState } from 'react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Plus, X, Trash2 } from 'lucide-react';
+import { Plus, X, Trash2, Play, Lock, Unlock } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
+import { CodeRunPanel } from '@/components/cms/CodeRunPanel';
 
 // Language mapping from file extension
 const EXTENSION_TO_LANGUAGE: Record<string, string> = {
@@ -93,6 +94,7 @@ interface CodeFile {
   filename: string;
   language: string;
   code: string;
+  readOnly?: boolean;
 }
 
 // Multi-File Code Node View Component
@@ -114,6 +116,7 @@ function MultiFileCodeNodeView({
     node.attrs.activeFileId || files[0]?.id
   );
   const [editingFilename, setEditingFilename] = useState<string | null>(null);
+  const runnable = !!node.attrs.runnable;
 
   const activeFile = files.find((f) => f.id === activeTab) || files[0];
 
@@ -229,6 +232,26 @@ function MultiFileCodeNodeView({
                     {file.filename}
                   </span>
                 )}
+                {runnable && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleUpdateFile(file.id, { readOnly: !file.readOnly });
+                    }}
+                    className={`transition-all ${
+                      file.readOnly
+                        ? 'text-amber-400'
+                        : 'opacity-0 group-hover:opacity-100 text-zinc-400 hover:text-white'
+                    }`}
+                    title={
+                      file.readOnly
+                        ? 'Read-only for students (click to make editable)'
+                        : 'Editable by students (click to lock)'
+                    }
+                  >
+                    {file.readOnly ? <Lock size={10} /> : <Unlock size={10} />}
+                  </button>
+                )}
                 {files.length > 1 && (
                   <button
                     onClick={(e) => {
@@ -250,6 +273,20 @@ function MultiFileCodeNodeView({
               <Plus size={12} />
             </button>
           </div>
+
+          {/* Run mode toggle */}
+          <button
+            onClick={() => updateAttributes({ runnable: !runnable })}
+            className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-all ${
+              runnable
+                ? 'bg-green-600/20 text-green-400'
+                : 'text-zinc-500 hover:text-white hover:bg-zinc-700/40'
+            }`}
+            title={runnable ? 'Disable Run mode' : 'Let students run this code'}
+          >
+            <Play size={11} />
+            Run mode
+          </button>
         </div>
 
         {/* Code Editor */}
@@ -305,6 +342,8 @@ function MultiFileCodeNodeView({
             />
           </div>
         )}
+
+        {runnable && <CodeRunPanel files={files} activeFileId={activeTab} />}
       </div>
     </NodeViewWrapper>
   );
@@ -344,6 +383,9 @@ export const CustomMultiFileCode = Node.create({
       showLineNumbers: {
         default: true,
       },
+      runnable: {
+        default: false,
+      },
     };
   },
 
@@ -0,0 +1,165 @@
+'use client';
+
+import {
+  Node,
+  mergeAttributes,
+  NodeViewWrapper,
+  NodeViewContent,
+  NodeViewProps,
+} from '@tiptap/react';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { LayoutPanelTop, Plus, X } from 'lucide-react';
+import { stopControlEvents } from './CustomCallout';
+
+// Tabs Node View - panels are stacked while editing so every tab stays editable
+function TabsNodeView({ node, editor, getPos, deleteNode, selected }: NodeViewProps) {
+  const addTab = () => {
+    const pos = getPos();
+    if (typeof pos !== 'number') return;
+    editor
+      .chain()
+      .focus()
+      .insertContentAt(pos + node.nodeSize - 1, {
+        type: 'customTabPanel',
+        attrs: { title: `Tab ${node.childCount + 1}` },
+        content: [{ type: 'paragraph' }],
+      })
+      .run();
+  };
+
+  return (
+    <NodeViewWrapper className="my-4">
+      <div
+        className={`rounded-xl border overflow-hidden ${selected
+          ? 'border-indigo-500 ring-2 ring-indigo-500/20'
+          : 'border-neutral-200 dark:border-zinc-700/60'
+          }`}
+      >
+        <div
+          className="flex items-center gap-2 px-4 py-2 bg-neutral-50 dark:bg-zinc-900 text-xs"
+          contentEditable={false}
+        >
+          <LayoutPanelTop size={14} className="text-indigo-500" />
+          <span className="font-medium uppercase tracking-wide text-neutral-500">
+            Tabs ({node.childCount})
+          </span>
+          <div className="flex-1" />
+          <button
+            onClick={addTab}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-indigo-500/10 transition-colors"
+          >
+            <Plus size={12} />
+            Add tab
+          </button>
+          <button
+            onClick={() => deleteNode()}
+            className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+            title="Delete tabs"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        <NodeViewContent className="divide-y divide-neutral-200 dark:divide-zinc-700/60" />
+      </div>
+    </NodeViewWrapper>
+  );
+}
+
+// Tab Panel Node View - title input + content
+function TabPanelNodeView({ node, editor, getPos, updateAttributes, deleteNode }: NodeViewProps) {
+  const pos = getPos();
+  const siblingCount =
+    typeof pos === 'number' ? editor.state.doc.resolve(pos).parent.childCount : 1;
+
+  return (
+    <NodeViewWrapper>
+      <div className="flex items-center gap-2 px-4 pt-3" contentEditable={false}>
+        <input
+          type="text"
+          value={node.attrs.title || ''}
+          onChange={(e) => updateAttributes({ title: e.target.value })}
+          placeholder="Tab title"
+          className="flex-1 text-sm font-semibold bg-transparent border-none focus:outline-none placeholder-neutral-400"
+        />
+        {siblingCount > 1 && (
+          <button
+            onClick={() => deleteNode()}
+            className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+            title="Remove tab"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      <NodeViewContent className="px-4 pb-3 [&>*:first-child]:mt-1 [&>*:last-child]:mb-0" />
+    </NodeViewWrapper>
+  );
+}
+
+// Custom Tab Panel Extension - only valid inside customTabs
+export const CustomTabPanel = Node.create({
+  name: 'customTabPanel',
+
+  content: 'block+',
+
+  defining: true,
+
+  isolating: true,
+
+  addAttributes() {
+    return {
+      title: {
+        default: 'Tab',
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'section[data-tab-panel]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['section', mergeAttributes(HTMLAttributes, { 'data-tab-panel': '' }), 0];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TabPanelNodeView, {
+      stopEvent: stopControlEvents,
+    });
+  },
+});
+
+// Custom Tabs Extension
+export const CustomTabs = Node.create({
+  name: 'customTabs',
+
+  group: 'block',
+
+  content: 'customTabPanel+',
+
+  defining: true,
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-tabs]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-tabs': '' }), 0];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TabsNodeView, {
+      stopEvent: stopControlEvents,
+    });
+  },
+});
+
+export default CustomTabs;
@@ -8,7 +8,7 @@ import {
 } from '@tiptap/react';
 import { ReactNodeViewRenderer } from '@tiptap/react';
 import { useState, useRef, useEffect } from 'react';
-import { Upload, Loader2, X, Video, Trash2, Link } from 'lucide-react';
+import { Upload, Loader2, X, Video, Trash2, Link, Captions } from 'lucide-react';
 import { authenticatedFetch } from '@/lib/api/authenticated-fetch';
 
 // Helper to check if URL is external (not from our server)
@@ -46,7 +46,7 @@ function VideoNodeView({
   const lastUploadedSrcRef = useRef<string | null>(null);
   const isUploadingRef = useRef(false);
 
-  const { src, poster } = node.attrs;
+  const { src, poster, captions } = node.attrs;
   const hasVideo = src && src !== '';
 
   // Auto-upload external videos via server (bypasses CORS)
@@ -256,6 +256,7 @@ function VideoNodeView({
               className="w-full max-h-[500px]"
               preload="metadata"
             >
+              {captions && <track kind="captions" src={captions} default />}
               Your browser does not support the video tag.
             </video>
 
@@ -292,6 +293,16 @@ function VideoNodeView({
                 >
                   <Link size={16} />
                 </button>
+                <button
+                  onClick={() => {
+                    const url = prompt('Captions file URL (WebVTT)', captions || '');
+                    if (url !== null) updateAttributes({ captions: url.trim() });
+                  }}
+                  className={`p-2 bg-black/60 hover:bg-black/80 rounded-full transition-colors ${captions ? 'text-white' : 'text-amber-400'}`}
+                  title={captions ? 'Change captions' : 'Add captions'}
+                >
+                  <Captions size={16} />
+                </button>
                 <button
                   onClick={() => deleteNode()}
                   className="p-2 bg-red-600/60 hover:bg-red-600 rounded-full text-white transition-colors"
@@ -424,6 +435,9 @@ export const CustomVideo = Node.create({
       title: {
         default: '',
       },
+      captions: {
+        default: '', // WebVTT track URL
+      },
     };
   },
 
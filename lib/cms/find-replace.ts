@@ -0,0 +1,262 @@
+/**
+ * Find & Replace across lessons
+ *
+ * Searches the text, link hrefs, image srcs and code (code blocks and
+ * multi-file code) of every lesson - Tiptap JSON lessons and legacy
+ * component lessons alike. A match ID is stable for a given content
+ * (course|lesson|field|offset), so a preview can be replaced selectively.
+ *
+ * Text is matched per Tiptap text node: a phrase split by formatting
+ * (e.g. half bold) isn't found as one match.
+ */
+
+import type { Lesson } from '@/lib/types';
+import type { Component } from '@/lib/cms/types';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+export type FindScope = 'text' | 'link' | 'image' | 'code';
+
+export const FIND_SCOPES: FindScope[] = ['text', 'link', 'image', 'code'];
+
+export const MAX_FIND_MATCHES = 500;
+const CONTEXT_CHARS = 40;
+
+export interface FindOptions {
+    query: string;
+    regex?: boolean;
+    caseSensitive?: boolean;
+    scopes?: FindScope[];       // Default: all
+}
+
+export interface FindMatch {
+    id: string;
+    courseId?: string;
+    courseTitle?: string;
+    lessonId: string;
+    lessonTitle: string;
+    scope: FindScope;
+    before: string;             // Context preceding the match
+    match: string;
+    after: string;
+}
+
+export interface FindResult {
+    matches: FindMatch[];
+    truncated: boolean;
+}
+
+export interface ReplaceResult {
+    lessons: Lesson[];
+    count: number;
+    changedLessonIds: string[];
+}
+
+type FieldVisitor = (value: string, scope: FindScope, key: string) => string;
+
+/**
+ * Global RegExp for the options, or an error message for an invalid pattern
+ */
+export function buildMatcher(options: FindOptions): RegExp | { error: string } {
+    if (!options.query) return { error: 'Enter something to find' };
+    const source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    try {
+        return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+    } catch (error) {
+        return { error: `Invalid regular expression: ${(error as Error).message}` };
+    }
+}
+
+/**
+ * Expand $&, $1.., $<name> and $$ in a regex replacement
+ */
+export function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+    return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+        if (ref === '$') return '$';
+        if (ref === '&') return match[0];
+        if (name !== undefined) return match.groups?.[name] ?? '';
+        const index = Number(ref);
+        return index > 0 && index < match.length ? match[index] ?? '' : token;
+    });
+}
+
+function mapTiptapNodes(nodes: TiptapNode[], keyPrefix: string, visit: FieldVisitor, inCode = false): TiptapNode[] {
+    let changed = false;
+
+    const mapped = nodes.map((node, index): TiptapNode | null => {
+        const key = `${keyPrefix}${index}`;
+        let next = node;
+
+        if (node.type === 'text') {
+            const text = visit(node.text || '', inCode ? 'code' : 'text', `${key}.text`);
+            const marks = node.marks?.map((mark, m) => {
+                const href = mark.attrs?.href;
+                if (mark.type !== 'link' || typeof href !== 'string') return mark;
+                const value = visit(href, 'link', `${key}.mark${m}`);
+                return value === href ? mark : { ...mark, attrs: { ...mark.attrs, href: value } };
+            });
+            if (!text) return null; // Empty text nodes aren't valid
+            if (text !== node.text || marks?.some((mark, m) => mark !== node.marks?.[m])) {
+                next = { ...node, text, ...(marks ? { marks } : {}) };
+            }
+        } else if ((node.type === 'image' || node.type === 'customImage') && typeof node.attrs?.src === 'string') {
+            const src = visit(node.attrs.src, 'image', `${key}.src`);
+            if (src !== node.attrs.src) next = { ...node, attrs: { ...node.attrs, src } };
+        } else if (node.type === 'customMultiFileCode' && Array.isArray(node.attrs?.files)) {
+            const files = (node.attrs.files as { code?: string }[]).map((file, f) => {
+                const code = visit(file.code || '', 'code', `${key}.file${f}`);
+                return code === (file.code || '') ? file : { ...file, code };
+            });
+            if (files.some((file, f) => file !== (node.attrs?.files as unknown[])[f])) {
+                next = { ...node, attrs: { ...node.attrs, files } };
+            }
+        }
+
+        if (node.content) {
+            const content = mapTiptapNodes(node.content, `${key}.`, visit, inCode || node.type === 'codeBlock');
+            if (content !== node.content) next = { ...next, content };
+        }
+
+        if (next !== node) changed = true;
+        return next;
+    });
+
+    if (mapped.some(node => node === null)) changed = true;
+    return changed ? mapped.filter((node): node is TiptapNode => node !== null) : nodes;
+}
+
+function mapComponents(components: Component[], visit: FieldVisitor): Component[] {
+    let changed = false;
+
+    const mapped = components.map((component, index) => {
+        const key = `c${index}`;
+        let next: Component = component;
+
+        if (component.type === 'header') {
+            const text = visit(component.text || '', 'text', `${key}.text`);
+            if (text !== (component.text || '')) next = { ...component, text };
+        } else if (component.type === 'text') {
+            const content = visit(component.content || '', 'text', `${key}.content`);
+            if (content !== (component.content || '')) next = { ...component, content };
+        } else if (component.type === 'code') {
+            const code = visit(component.code || '', 'code', `${key}.code`);
+            if (code !== (component.code || '')) next = { ...component, code };
+        } else if (component.type === 'image') {
+            const url = visit(component.url || '', 'image', `${key}.url`);
+            if (url !== (component.url || '')) next = { ...component, url };
+        }
+
+        if (next !== component) changed = true;
+        return next;
+    });
+
+    return changed ? mapped : components;
+}
+
+/**
+ * Run a visitor over every searchable field of a lesson; returns the same
+ * lesson object when nothing changed
+ */
+export function mapLessonFields(lesson: Lesson, visit: FieldVisitor): Lesson {
+    let next = lesson;
+
+    // Tiptap JSON is authoritative when present (components are a legacy mirror)
+    const json = lesson.tiptapJson as TiptapNode | undefined;
+    if (json) {
+        const content = json.content && mapTiptapNodes(json.content, 'j', visit);
+        if (content !== json.content) next = { ...next, tiptapJson: { ...json, content } };
+    } else if (lesson.components?.length) {
+        const components = mapComponents(lesson.components, visit);
+        if (components !== lesson.components) next = { ...next, components };
+    }
+
+    return next;
+}
+
+function matchId(courseId: string | undefined, lessonId: string, key: string, index: number): string {
+    return `${courseId || ''}|${lessonId}|${key}|${index}`;
+}
+
+/**
+ * Every match in the lessons, with some context around each
+ */
+export function findInLessons(
+    lessons: Lesson[],
+    options: FindOptions,
+    course?: { id: string; title: string }
+): FindResult | { error: string } {
+    const matcher = buildMatcher(options);
+    if (!(matcher instanceof RegExp)) return matcher;
+
+    const scopes = options.scopes?.length ? options.scopes : FIND_SCOPES;
+    const matches: FindMatch[] = [];
+    let truncated = false;
+
+    for (const lesson of lessons) {
+        mapLessonFields(lesson, (value, scope, key) => {
+            if (!scopes.includes(scope) || truncated) return value;
+
+            for (const m of value.matchAll(matcher)) {
+                if (!m[0]) continue;
+                if (matches.length >= MAX_FIND_MATCHES) {
+                    truncated = true;
+                    break;
+                }
+                const start = m.index ?? 0;
+                const end = start + m[0].length;
+                matches.push({
+                    id: matchId(course?.id, lesson.id, key, start),
+                    ...(course ? { courseId: course.id, courseTitle: course.title } : {}),
+                    lessonId: lesson.id,
+                    lessonTitle: lesson.title,
+                    scope,
+                    before: value.slice(Math.max(0, start - CONTEXT_CHARS), start),
+                    match: m[0],
+                    after: value.slice(end, end + CONTEXT_CHARS),
+                });
+            }
+            return value;
+        });
+    }
+
+    return { matches, truncated };
+}
+
+/**
+ * Replace matches (only the given IDs when `only` is passed)
+ */
+export function replaceInLessons(
+    lessons: Lesson[],
+    options: FindOptions,
+    replacement: string,
+    only?: Set<string>,
+    courseId?: string
+): ReplaceResult | { error: string } {
+    const matcher = buildMatcher(options);
+    if (!(matcher instanceof RegExp)) return matcher;
+
+    const scopes = options.scopes?.length ? options.scopes : FIND_SCOPES;
+    let count = 0;
+    const changedLessonIds: string[] = [];
+
+    const updated = lessons.map(lesson => {
+        const next = mapLessonFields(lesson, (value, scope, key) => {
+            if (!scopes.includes(scope)) return value;
+
+            let result = '';
+            let last = 0;
+            for (const m of value.matchAll(matcher)) {
+                const start = m.index ?? 0;
+                if (!m[0] || (only && !only.has(matchId(courseId, lesson.id, key, start)))) continue;
+                result += value.slice(last, start) + (options.regex ? expandReplacement(replacement, m) : replacement);
+                last = start + m[0].length;
+                count++;
+            }
+            return last === 0 ? value : result + value.slice(last);
+        });
+
+        if (next !== lesson) changedLessonIds.push(lesson.id);
+        return next;
+    });
+
+    return { lessons: updated, count, changedLessonIds };
+}
@@ -0,0 +1,122 @@
+/**
+ * Folder of Markdown Files → Draft Course
+ *
+ *   my-course/
+ *     01-getting-started/
+ *       01-welcome.md      → section "Getting started", lesson from "# Heading"
+ *       02-setup.md
+ *     02-basics/...
+ *     extras.md            → top-level files share a "Lessons" section
+ *
+ * Files are ordered by path with numeric-aware sorting, so "2-" sorts
+ * before "10-". Only the first folder level becomes a section.
+ */
+
+import { Course, Lesson, Section } from '@/lib/types';
+import { markdownToTiptap, splitMarkdownTitle } from '@/lib/cms/markdown';
+
+export interface MarkdownFile {
+    path: string;             // Relative path, e.g. "my-course/01-intro/01-welcome.md"
+    content: string;
+}
+
+export interface MarkdownCourseOptions {
+    courseId: string;
+    title?: string;
+    instructor: string;
+    createdBy: string;
+}
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown)$/i;
+
+/**
+ * "01-getting_started.md" → "Getting started"
+ */
+export function titleFromFileName(name: string): string {
+    const base = name
+        .replace(MARKDOWN_EXTENSIONS, '')
+        .replace(/^\d+[\s._-]*/, '')
+        .replace(/[-_]+/g, ' ')
+        .trim();
+    return base ? base.charAt(0).toUpperCase() + base.slice(1) : name;
+}
+
+/**
+ * Build a draft course; returns null if there are no .md files.
+ * `skipped` lists non-Markdown files.
+ */
+export function markdownFilesToCourse(
+    files: MarkdownFile[],
+    options: MarkdownCourseOptions
+): { course: Course; skipped: string[] } | null {
+    const skipped = files.filter(f => !MARKDOWN_EXTENSIONS.test(f.path)).map(f => f.path);
+    let entries = files
+        .filter(f => MARKDOWN_EXTENSIONS.test(f.path))
+        .map(f => ({ ...f, parts: f.path.replace(/\\/g, '/').split('/').filter(Boolean) }));
+    if (entries.length === 0) return null;
+
+    // Uploading a folder prefixes every path with its name - use it as the title
+    let rootName: string | null = null;
+    const first = entries[0].parts[0];
+    if (entries.every(e => e.parts.length > 1 && e.parts[0] === first)) {
+        rootName = first;
+        entries = entries.map(e => ({ ...e, parts: e.parts.slice(1) }));
+    }
+
+    entries.sort((a, b) => a.parts.join('/').localeCompare(b.parts.join('/'), undefined, { numeric: true }));
+
+    const lessons: Lesson[] = [];
+    const sections: Section[] = [];
+    const sectionByFolder = new Map<string, Section>();
+
+    for (const entry of entries) {
+        const folder = entry.parts.length > 1 ? entry.parts[0] : '';
+        let section = sectionByFolder.get(folder);
+        if (!section) {
+            section = {
+                id: `section-${sections.length + 1}`,
+                title: folder ? titleFromFileName(folder) : 'Lessons',
+                lessonIds: [],
+            };
+            sectionByFolder.set(folder, section);
+            sections.push(section);
+        }
+
+        const { title, body } = splitMarkdownTitle(entry.content);
+        const order = lessons.length + 1;
+        const lesson: Lesson = {
+            id: `${options.courseId}-lesson-${order}`,
+            title: (title || titleFromFileName(entry.parts[entry.parts.length - 1])).slice(0, 200),
+            type: 'cms',
+            duration: '10 min',
+            content: '',
+            order,
+            components: [],
+            tiptapJson: markdownToTiptap(body),
+        };
+        lessons.push(lesson);
+        section.lessonIds.push(lesson.id);
+    }
+
+    const course: Course = {
+        id: options.courseId,
+        title: (options.title || (rootName ? titleFromFileName(rootName) : 'Imported course')).slice(0, 200),
+        description: '',
+        instructor: options.instructor,
+        thumbnail: 'https://placehold.co/800x400',
+        category: 'Uncategorized',
+        level: 'beginner',
+        duration: `${lessons.length * 10} min`,
+        lessonsCount: lessons.length,
+        enrolledCount: 0,
+        rating: 0,
+        price: 0,
+        lessons,
+        sections,
+        createdAt: new Date().toISOString(),
+        isPublished: false,
+        createdBy: options.createdBy,
+    };
+
+    return { course, skipped };
+}
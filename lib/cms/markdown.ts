@@ -0,0 +1,494 @@
+/**
+ * Markdown ↔ TipTap Bridge
+ *
+ * Lets authors write lessons in their own editor. Covers headings,
+ * lists, code blocks (with language), images, GFM tables, quotes and
+ * our custom nodes, which use fenced directives:
+ *
+ *   :::quiz{#quiz-1 title="Check" passingScore="75" timeLimit="5"}
+ *   :::
+ *
+ *   :::video{src="/api/images/x.mp4" poster="" title="Demo"}
+ *   :::
+ *
+ *   :::youtube{videoId="dQw4w9WgXcQ" title="Intro"}
+ *   :::
+ *
+ *   :::files{runnable="true"}
+ *   ```js main.js
+ *   console.log('hi');
+ *   ```
+ *   ```js config.js readonly
+ *   module.exports = {};
+ *   ```
+ *   :::
+ *
+ * Equations and diagrams use ```math and ```mermaid fences (a $$ block
+ * imports as an equation too); inline math is $...$, so literal dollar
+ * signs in prose are written \$.
+ *
+ * Formatting Markdown can't express (colors, fonts, alignment) is dropped.
+ */
+
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { toMarkdown } from 'mdast-util-to-markdown';
+import { gfmFromMarkdown, gfmToMarkdown } from 'mdast-util-gfm';
+import { gfm } from 'micromark-extension-gfm';
+import { directiveFromMarkdown, directiveToMarkdown } from 'mdast-util-directive';
+import { directive } from 'micromark-extension-directive';
+import { mathFromMarkdown, mathToMarkdown } from 'mdast-util-math';
+import { math } from 'micromark-extension-math';
+import type {
+    BlockContent,
+    Code,
+    DefinitionContent,
+    ListItem,
+    Nodes,
+    Paragraph,
+    PhrasingContent,
+    Root,
+    RootContent,
+    Table,
+    TableCell,
+} from 'mdast';
+import type { ContainerDirective, LeafDirective } from 'mdast-util-directive';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+export interface TiptapDoc {
+    type: 'doc';
+    content: TiptapNode[];
+}
+
+type Mark = NonNullable<TiptapNode['marks']>[number];
+type Directive = ContainerDirective | LeafDirective;
+type FlowContent = BlockContent | DefinitionContent;
+
+// ============================================
+// MARKDOWN → TIPTAP
+// ============================================
+
+function parseNumber(value: string | null | undefined, fallback: number): number {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Inline content → text nodes with marks (images are handled by the caller)
+ */
+function phrasingToTiptap(nodes: PhrasingContent[], marks: Mark[] = []): TiptapNode[] {
+    const result: TiptapNode[] = [];
+    const withMarks = (text: string, extra: Mark[] = []): TiptapNode => {
+        const all = [...marks, ...extra];
+        return all.length ? { type: 'text', text, marks: all } : { type: 'text', text };
+    };
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                if (node.value) result.push(withMarks(node.value));
+                break;
+            case 'inlineCode':
+                result.push(withMarks(node.value, [{ type: 'code' }]));
+                break;
+            case 'inlineMath':
+                result.push({ type: 'mathInline', attrs: { latex: node.value } });
+                break;
+            case 'strong':
+                result.push(...phrasingToTiptap(node.children, [...marks, { type: 'bold' }]));
+                break;
+            case 'emphasis':
+                result.push(...phrasingToTiptap(node.children, [...marks, { type: 'italic' }]));
+                break;
+            case 'delete':
+                result.push(...phrasingToTiptap(node.children, [...marks, { type: 'strike' }]));
+                break;
+            case 'link':
+                result.push(...phrasingToTiptap(node.children, [...marks, { type: 'link', attrs: { href: node.url } }]));
+                break;
+            case 'break':
+                result.push({ type: 'hardBreak' });
+                break;
+            case 'html':
+                if (node.value) result.push(withMarks(node.value));
+                break;
+            case 'textDirective':
+                // "note:important" parses as a directive - put the text back
+                result.push(withMarks(`:${node.name}`), ...phrasingToTiptap(node.children, marks));
+                break;
+            default:
+                break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Paragraphs holding images become customImage blocks (the editor has no
+ * inline images); surrounding text stays in its own paragraph.
+ */
+function paragraphToTiptap(node: Paragraph): TiptapNode[] {
+    const blocks: TiptapNode[] = [];
+    let pending: PhrasingContent[] = [];
+
+    const flush = () => {
+        const content = phrasingToTiptap(pending);
+        if (content.some(n => n.type !== 'text' || n.text?.trim())) {
+            blocks.push({ type: 'paragraph', content });
+        }
+        pending = [];
+    };
+
+    for (const child of node.children) {
+        if (child.type === 'image') {
+            flush();
+            blocks.push({ type: 'customImage', attrs: { src: child.url, alt: child.alt || '' } });
+        } else {
+            pending.push(child);
+        }
+    }
+    flush();
+
+    return blocks;
+}
+
+function tableToTiptap(node: Table): TiptapNode {
+    return {
+        type: 'table',
+        content: node.children.map((row, rowIndex) => ({
+            type: 'tableRow',
+            content: row.children.map(cell => {
+                const content = phrasingToTiptap(cell.children);
+                return {
+                    type: rowIndex === 0 ? 'tableHeader' : 'tableCell',
+                    content: [content.length ? { type: 'paragraph', content } : { type: 'paragraph' }],
+                };
+            }),
+        })),
+    };
+}
+
+// Trailing flag on a :::files code fence, e.g. ```py utils.py readonly
+const READONLY_META = /\s+readonly$/;
+
+function directiveToTiptap(node: Directive): TiptapNode[] {
+    const attrs = node.attributes || {};
+
+    switch (node.name) {
+        case 'quiz':
+            return [{
+                type: 'customQuiz',
+                attrs: {
+                    ...(attrs.id ? { quizId: attrs.id } : {}),
+                    title: attrs.title || 'Untitled Quiz',
+                    passingScore: parseNumber(attrs.passingScore, 75),
+                    timeLimit: parseNumber(attrs.timeLimit, 5),
+                },
+            }];
+        case 'video':
+            return [{
+                type: 'customVideo',
+                attrs: { src: attrs.src || '', poster: attrs.poster || '', title: attrs.title || '' },
+            }];
+        case 'youtube':
+            return [{
+                type: 'customYoutube',
+                attrs: { videoId: attrs.videoId || attrs.id || '', title: attrs.title || 'YouTube Video' },
+            }];
+        case 'files': {
+            const files = node.children
+                .filter((child): child is Code => child.type === 'code')
+                .map((code, i) => {
+                    const meta = code.meta?.trim() || '';
+                    const readOnly = READONLY_META.test(meta);
+                    return {
+                        id: `file-${i + 1}`,
+                        filename: meta.replace(READONLY_META, '') || `file${i + 1}.${code.lang || 'txt'}`,
+                        language: code.lang || 'text',
+                        code: code.value,
+                        ...(readOnly ? { readOnly } : {}),
+                    };
+                });
+            if (!files.length) return [];
+            const runnable = attrs.runnable !== undefined && attrs.runnable !== 'false';
+            return [{
+                type: 'customMultiFileCode',
+                attrs: { files, activeFileId: files[0].id, ...(runnable ? { runnable } : {}) },
+            }];
+        }
+        default:
+            // Unknown directive - keep whatever content it wraps
+            return node.type === 'containerDirective' ? flowToTiptap(node.children) : [];
+    }
+}
+
+function listItemToTiptap(item: ListItem): TiptapNode {
+    const content = flowToTiptap(item.children);
+    // TipTap list items must start with a paragraph
+    if (content[0]?.type !== 'paragraph') content.unshift({ type: 'paragraph' });
+    return { type: 'listItem', content };
+}
+
+function flowToTiptap(nodes: Array<RootContent | FlowContent>): TiptapNode[] {
+    const result: TiptapNode[] = [];
+
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'heading':
+                result.push({
+                    type: 'heading',
+                    attrs: { level: node.depth },
+                    content: phrasingToTiptap(node.children),
+                });
+                break;
+            case 'paragraph':
+                result.push(...paragraphToTiptap(node));
+                break;
+            case 'blockquote': {
+                const content = flowToTiptap(node.children);
+                result.push({ type: 'blockquote', content: content.length ? content : [{ type: 'paragraph' }] });
+                break;
+            }
+            case 'list':
+                result.push({
+                    type: node.ordered ? 'orderedList' : 'bulletList',
+                    ...(node.ordered && node.start && node.start !== 1 ? { attrs: { start: node.start } } : {}),
+                    content: node.children.map(listItemToTiptap),
+                });
+                break;
+            case 'code':
+                // ```math and ```mermaid fences become editable nodes
+                if (node.lang === 'math') {
+                    result.push({ type: 'mathBlock', attrs: { latex: node.value } });
+                    break;
+                }
+                if (node.lang === 'mermaid') {
+                    result.push({ type: 'mermaidDiagram', attrs: { source: node.value } });
+                    break;
+                }
+                result.push({
+                    type: 'codeBlock',
+                    attrs: { language: node.lang || null },
+                    ...(node.value ? { content: [{ type: 'text', text: node.value }] } : {}),
+                });
+                break;
+            case 'math':
+                result.push({ type: 'mathBlock', attrs: { latex: node.value } });
+                break;
+            case 'thematicBreak':
+                result.push({ type: 'horizontalRule' });
+                break;
+            case 'table':
+                result.push(tableToTiptap(node));
+                break;
+            case 'html':
+                if (node.value.trim()) {
+                    result.push({ type: 'paragraph', content: [{ type: 'text', text: node.value }] });
+                }
+                break;
+            case 'containerDirective':
+            case 'leafDirective':
+                result.push(...directiveToTiptap(node));
+                break;
+            default:
+                break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Parse Markdown into a TipTap document
+ */
+export function markdownToTiptap(markdown: string): TiptapDoc {
+    const tree = fromMarkdown(markdown, {
+        extensions: [gfm(), directive(), math()],
+        mdastExtensions: [gfmFromMarkdown(), directiveFromMarkdown(), mathFromMarkdown()],
+    });
+
+    const content = flowToTiptap(tree.children);
+    return { type: 'doc', content: content.length ? content : [{ type: 'paragraph' }] };
+}
+
+// ============================================
+// TIPTAP → MARKDOWN
+// ============================================
+
+/**
+ * Wrap text in mdast mark nodes, innermost first
+ */
+function textToPhrasing(node: TiptapNode): PhrasingContent {
+    const marks = node.marks || [];
+    const has = (type: string) => marks.find(m => m.type === type);
+
+    let result: PhrasingContent = has('code')
+        ? { type: 'inlineCode', value: node.text || '' }
+        : { type: 'text', value: node.text || '' };
+
+    if (has('strike')) result = { type: 'delete', children: [result] };
+    if (has('italic')) result = { type: 'emphasis', children: [result] };
+    if (has('bold')) result = { type: 'strong', children: [result] };
+
+    const link = has('link');
+    if (link) result = { type: 'link', url: String(link.attrs?.href || ''), children: [result] };
+
+    return result;
+}
+
+/**
+ * Merge neighbours with the same wrapper (**a****b** → **ab**)
+ */
+function mergePhrasing(nodes: PhrasingContent[]): PhrasingContent[] {
+    const merged: PhrasingContent[] = [];
+
+    for (const node of nodes) {
+        const prev = merged[merged.length - 1];
+        const sameWrapper = prev && prev.type === node.type && 'children' in prev && 'children' in node &&
+            (node.type !== 'link' || (prev as { url?: string }).url === node.url);
+
+        if (sameWrapper) {
+            (prev as { children: PhrasingContent[] }).children = mergePhrasing([
+                ...(prev as { children: PhrasingContent[] }).children,
+                ...(node as { children: PhrasingContent[] }).children,
+            ]);
+        } else if (prev?.type === 'text' && node.type === 'text') {
+            prev.value += node.value;
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+}
+
+function inlineToPhrasing(nodes: TiptapNode[] = []): PhrasingContent[] {
+    return mergePhrasing(nodes.flatMap((node): PhrasingContent[] => {
+        if (node.type === 'text') return [textToPhrasing(node)];
+        if (node.type === 'hardBreak') return [{ type: 'break' }];
+        if (node.type === 'mathInline') return [{ type: 'inlineMath', value: String(node.attrs?.latex || '') }];
+        if (node.type === 'image') {
+            return [{ type: 'image', url: String(node.attrs?.src || ''), alt: String(node.attrs?.alt || '') }];
+        }
+        return inlineToPhrasing(node.content);
+    }));
+}
+
+function cellToMdast(cell: TiptapNode): TableCell {
+    // Cells hold paragraphs; Markdown cells are one line
+    const paragraphs = (cell.content || []).map(p => inlineToPhrasing(p.content));
+    const children = paragraphs.flatMap((p, i) => (i > 0 ? [{ type: 'break' } as PhrasingContent, ...p] : p));
+    return { type: 'tableCell', children };
+}
+
+function directiveNode(name: string, attributes: Record<string, unknown>, children: Code[] = []): ContainerDirective {
+    const attrs: Record<string, string> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+        if (value !== undefined && value !== null && value !== '') attrs[key] = String(value);
+    }
+    return { type: 'containerDirective', name, attributes: attrs, children };
+}
+
+function blockToMdast(node: TiptapNode): RootContent[] {
+    const attrs = node.attrs || {};
+
+    switch (node.type) {
+        case 'paragraph':
+            return [{ type: 'paragraph', children: inlineToPhrasing(node.content) }];
+        case 'heading':
+            return [{
+                type: 'heading',
+                depth: Math.min(Math.max(Number(attrs.level) || 1, 1), 6) as 1 | 2 | 3 | 4 | 5 | 6,
+                children: inlineToPhrasing(node.content),
+            }];
+        case 'bulletList':
+        case 'orderedList':
+        case 'taskList':
+            return [{
+                type: 'list',
+                ordered: node.type === 'orderedList',
+                ...(node.type === 'orderedList' ? { start: Number(attrs.start) || 1 } : {}),
+                spread: false,
+                children: (node.content || []).map((item): ListItem => ({
+                    type: 'listItem',
+                    spread: false,
+                    children: (item.content || []).flatMap(blockToMdast) as FlowContent[],
+                })),
+            }];
+        case 'blockquote':
+            return [{ type: 'blockquote', children: (node.content || []).flatMap(blockToMdast) as FlowContent[] }];
+        case 'codeBlock':
+            return [{
+                type: 'code',
+                lang: (attrs.language as string) || null,
+                value: (node.content || []).map(n => n.text || '').join(''),
+            }];
+        case 'mathBlock':
+            return [{ type: 'code', lang: 'math', value: String(attrs.latex || '') }];
+        case 'mermaidDiagram':
+            return [{ type: 'code', lang: 'mermaid', value: String(attrs.source || '') }];
+        case 'horizontalRule':
+            return [{ type: 'thematicBreak' }];
+        case 'image':
+        case 'customImage':
+            return [{
+                type: 'paragraph',
+                children: [{ type: 'image', url: String(attrs.src || ''), alt: String(attrs.alt || '') }],
+            }];
+        case 'table': {
+            const rows = node.content || [];
+            if (!rows.length) return [];
+            return [{
+                type: 'table',
+                children: rows.map(row => ({ type: 'tableRow', children: (row.content || []).map(cellToMdast) })),
+            }];
+        }
+        case 'customQuiz':
+            return [directiveNode('quiz', {
+                id: attrs.quizId,
+                title: attrs.title,
+                passingScore: attrs.passingScore,
+                timeLimit: attrs.timeLimit,
+            })];
+        case 'customVideo':
+            return [directiveNode('video', { src: attrs.src, poster: attrs.poster, title: attrs.title })];
+        case 'customYoutube':
+            return [directiveNode('youtube', { videoId: attrs.videoId, title: attrs.title })];
+        case 'customMultiFileCode': {
+            const files = (attrs.files || []) as Array<{ filename: string; language: string; code: string; readOnly?: boolean }>;
+            return [directiveNode('files', { runnable: attrs.runnable ? 'true' : undefined }, files.map(file => ({
+                type: 'code',
+                lang: file.language || null,
+                meta: [file.filename, file.readOnly ? 'readonly' : ''].filter(Boolean).join(' ') || null,
+                value: file.code || '',
+            })))];
+        }
+        case 'linkedSnippet':
+            return ((attrs.content as TiptapNode[]) || []).flatMap(blockToMdast);
+        default:
+            // Unknown wrapper nodes: keep their children
+            return (node.content || []).flatMap(blockToMdast);
+    }
+}
+
+/**
+ * Serialize a TipTap document to Markdown
+ */
+export function tiptapToMarkdown(doc: { type?: string; content?: TiptapNode[] }): string {
+    const tree: Root = { type: 'root', children: (doc.content || []).flatMap(blockToMdast) };
+
+    return toMarkdown(tree as Nodes, {
+        extensions: [gfmToMarkdown(), directiveToMarkdown(), mathToMarkdown()],
+        bullet: '-',
+        emphasis: '_',
+        fences: true,
+        rule: '-',
+    });
+}
+
+/**
+ * Lesson title from a leading "# Heading", which is removed from the body
+ * (used when importing .md files as lessons)
+ */
+export function splitMarkdownTitle(markdown: string): { title: string | null; body: string } {
+    const match = markdown.match(/^\uFEFF?\s*#[ \t]+(.+?)[ \t]*#*[ \t]*(?:\r?\n|$)/);
+    if (!match) return { title: null, body: markdown };
+    return { title: match[1].trim(), body: markdown.slice(match[0].length).replace(/^([ \t]*\r?\n)+/, '') };
+}
@@ -0,0 +1,66 @@
+/**
+ * LaTeX rendering for lessons (KaTeX, no network)
+ *
+ * Works on the server and in the browser, so the student view, the
+ * offline export and the editor preview all share one renderer.
+ * Text components store inline math as <code data-math="...">, which
+ * survives sanitizing and is swapped for KaTeX output afterwards.
+ */
+
+import katex from 'katex';
+
+/**
+ * LaTeX → KaTeX HTML. Invalid input renders as a red error instead of throwing.
+ */
+export function renderMath(latex: string, displayMode = false): string {
+  return katex.renderToString(latex, {
+    displayMode,
+    throwOnError: false,
+    output: 'htmlAndMathml',
+  });
+}
+
+// Parse errors, for the editor preview
+export function getMathError(latex: string): string | null {
+  try {
+    katex.renderToString(latex, { throwOnError: true });
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function unescapeAttr(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Inline math as stored in text component HTML
+ */
+export function mathPlaceholder(latex: string): string {
+  const escaped = escapeAttr(latex);
+  return `<code data-math="${escaped}">${escaped}</code>`;
+}
+
+export const MATH_PLACEHOLDER = /<code data-math="([^"]*)">[\s\S]*?<\/code>/g;
+
+/**
+ * Swap inline math placeholders for rendered KaTeX (run after sanitizing)
+ */
+export function renderMathPlaceholders(html: string): string {
+  return html.replace(MATH_PLACEHOLDER, (_, latex: string) =>
+    renderMath(unescapeAttr(latex))
+  );
+}
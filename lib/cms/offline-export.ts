@@ -0,0 +1,366 @@
+/**
+ * Offline Course Bundle (static HTML in a ZIP)
+ *
+ * Layout:
+ *   index.html            Syllabus: sections, lessons, quizzes
+ *   lessons/NN-slug.html  One page per lesson (TiptapHtmlRenderer pipeline)
+ *   quizzes/ID.html       Questions and options (answers stay online)
+ *   assets/HASH.ext       Images/videos referenced by lessons
+ *   styles.css
+ *
+ * Every page carries a zero-width watermark identifying who exported it,
+ * plus a visible "personal copy" footer.
+ */
+
+import JSZip from 'jszip';
+import { createHash } from 'crypto';
+import { Course, Lesson, Quiz } from '@/lib/types';
+import { Component } from '@/lib/cms/types';
+import { segmentContent, renderLayoutNode, TiptapNode } from '@/lib/cms/tiptap-html';
+import { deserializeFromComponents } from '@/lib/cms/serialization';
+import { encodeToZeroWidth } from '@/lib/watermark/zero-width';
+import { stripQuizAnswers, type StudentQuizQuestion } from '@/lib/cms/quiz';
+
+export interface OfflineExportOptions {
+    exportedFor: { id: string; email: string; name?: string };
+    sourceUrl: string;        // Public course URL, embedded in the watermark
+    /** The course's quizzes (listCourseQuizzes); defaults to course.quizzes */
+    quizzes?: Quiz[];
+    /** Download an asset referenced by a lesson; null keeps the remote URL */
+    fetchAsset: (url: string) => Promise<{ data: Buffer; contentType: string } | null>;
+}
+
+export interface OfflineExportResult {
+    zip: JSZip;
+    lessonCount: number;
+    quizCount: number;
+    assetCount: number;
+    missingAssets: string[];  // Left pointing at the online URL
+}
+
+// Keep bundles downloadable: big videos stay online
+const MAX_ASSET_BYTES = 25 * 1024 * 1024;
+const MAX_TOTAL_ASSET_BYTES = 200 * 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+    'image/webp': '.webp',
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/gif': '.gif',
+    'image/svg+xml': '.svg',
+    'video/mp4': '.mp4',
+    'video/webm': '.webm',
+};
+
+const STYLES = `body{font-family:system-ui,-apple-system,sans-serif;line-height:1.6;color:#171717;max-width:820px;margin:0 auto;padding:2rem 1.25rem}
+a{color:#0d9488}
+img,video{max-width:100%;height:auto;border-radius:8px}
+pre{background:#1e1e1e;color:#d4d4d4;padding:1rem;border-radius:8px;overflow-x:auto}
+pre[data-language]::before{content:attr(data-language);display:block;font-size:.75rem;text-transform:uppercase;color:#9ca3af;margin-bottom:.5rem}
+code{font-family:ui-monospace,monospace;font-size:.9em}
+table{border-collapse:collapse;width:100%;margin:1rem 0}
+th,td{border:1px solid #d4d4d4;padding:.4rem .75rem;text-align:left}
+th{background:#f5f5f5}
+blockquote{border-left:4px solid #d4d4d4;margin:1rem 0;padding-left:1rem;color:#525252;font-style:italic}
+iframe{width:100%;aspect-ratio:16/9;border:0}
+nav.pager{display:flex;justify-content:space-between;margin:2.5rem 0 1rem}
+.quiz-card{border:1px solid #d4d4d4;border-radius:8px;padding:1rem;margin:1.5rem 0}
+.quiz-question{margin:1.5rem 0}
+.callout{border:1px solid #bfdbfe;border-left-width:4px;background:#eff6ff;border-radius:8px;padding:.75rem 1rem;margin:1.5rem 0}
+.callout-warning{border-color:#fde68a;background:#fffbeb}
+.callout-tip{border-color:#a7f3d0;background:#ecfdf5}
+.callout-danger{border-color:#fecaca;background:#fef2f2}
+.callout-title{font-weight:600;margin:0 0 .25rem}
+details.accordion{border:1px solid #d4d4d4;border-radius:8px;padding:.5rem 1rem;margin:1.5rem 0}
+details.accordion summary{font-weight:600;cursor:pointer}
+.tab-panel{border-left:2px solid #e5e5e5;padding-left:1rem;margin:1rem 0}
+.katex-html{display:none}
+.math-block{text-align:center;margin:1rem 0;overflow-x:auto}
+pre.mermaid{background:#f5f5f5;color:#404040}
+.watermark{position:absolute;left:-9999px;font-size:1px;color:transparent}
+footer{margin-top:3rem;padding-top:1rem;border-top:1px solid #e5e5e5;font-size:.8rem;color:#737373}`;
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/(^-|-$)/g, '')
+        .slice(0, 40) || 'lesson';
+}
+
+function quizFile(quiz: Quiz): string {
+    return `quizzes/${quiz.id.replace(/[^a-zA-Z0-9_-]/g, '_')}.html`;
+}
+
+/**
+ * Lesson body as HTML, whichever format it was saved in
+ */
+function renderLessonBody(lesson: Lesson, quizzes: Quiz[]): string {
+    const json = lesson.tiptapJson as { type?: string; content?: TiptapNode[] } | undefined;
+    let nodes: TiptapNode[] | null = null;
+
+    if (json?.type === 'doc' && json.content?.length) {
+        nodes = json.content;
+    } else if (lesson.components?.length) {
+        nodes = deserializeFromComponents(lesson.components as Component[]).content;
+    }
+
+    if (!nodes) {
+        // Legacy HTML lessons - no DOMPurify on the server, so drop scripts
+        return (lesson.content || '').replace(/<script\b[\s\S]*?<\/script>/gi, '');
+    }
+
+    return renderNodes(nodes, quizzes);
+}
+
+function renderNodes(nodes: TiptapNode[], quizzes: Quiz[]): string {
+    return segmentContent(nodes).map((segment) => {
+        if (segment.type === 'layout' && segment.node) {
+            // Tabs become stacked sections; <details> works without JS
+            return renderLayoutNode(segment.node, children => renderNodes(children, quizzes));
+        }
+        if (segment.type === 'diagram') {
+            // No Mermaid offline - keep the source readable
+            return `<pre class="mermaid" data-language="diagram"><code>${escapeHtml(segment.code || '')}</code></pre>`;
+        }
+        if (segment.type === 'code') {
+            return `<pre data-language="${escapeHtml(segment.language || 'text')}"><code>${escapeHtml(segment.code || '')}</code></pre>`;
+        }
+        if (segment.type === 'multiFileCode') {
+            return (segment.files || []).map(file =>
+                `<pre data-language="${escapeHtml(file.filename)}"><code>${escapeHtml(file.code)}</code></pre>`
+            ).join('\n');
+        }
+        if (segment.type === 'exercise' && segment.exercise) {
+            // No sandbox offline - show the task and starter code only
+            const { title, prompt, language, starterCode } = segment.exercise;
+            return `<div class="quiz-card"><strong>Exercise: ${escapeHtml(title)}</strong>${prompt ? `<p>${escapeHtml(prompt)}</p>` : ''}<pre data-language="${escapeHtml(language)}"><code>${escapeHtml(starterCode)}</code></pre></div>`;
+        }
+        if (segment.type === 'quiz') {
+            const quiz = quizzes.find(q => q.id === segment.quizId);
+            if (!quiz) return '';
+            return `<div class="quiz-card"><strong>Quiz: ${escapeHtml(quiz.title)}</strong> · ${quiz.questions.length} questions<br><a href="../${quizFile(quiz)}">Open quiz</a></div>`;
+        }
+        return segment.content || '';
+    }).join('\n');
+}
+
+function renderPage(
+    title: string,
+    body: string,
+    root: string,
+    watermark: { hidden: string; footer: string }
+): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}styles.css">
+</head>
+<body>
+<span aria-hidden="true" style="font-size:0">${watermark.hidden}</span>
+${body}
+<footer>${watermark.footer}</footer>
+<span aria-hidden="true" style="font-size:0">${watermark.hidden}</span>
+</body>
+</html>
+`;
+}
+
+/**
+ * Download referenced images/videos into assets/ and point the HTML at them
+ */
+async function localizeAssets(
+    html: string,
+    options: OfflineExportOptions,
+    zip: JSZip,
+    state: { saved: Map<string, string>; totalBytes: number; missing: Set<string> }
+): Promise<string> {
+    const tagPattern = /<(?:img|video|source)\b[^>]*>/gi;
+    const attrPattern = /(\s(?:src|poster)=")([^"]+)"/gi;
+
+    const urls = new Set<string>();
+    for (const tag of html.match(tagPattern) || []) {
+        for (const match of tag.matchAll(attrPattern)) {
+            if (!match[2].startsWith('data:')) urls.add(match[2]);
+        }
+    }
+
+    for (const url of urls) {
+        if (state.saved.has(url) || state.missing.has(url)) continue;
+
+        const asset = await options.fetchAsset(url.replace(/&amp;/g, '&'));
+        if (
+            !asset ||
+            asset.data.length > MAX_ASSET_BYTES ||
+            state.totalBytes + asset.data.length > MAX_TOTAL_ASSET_BYTES
+        ) {
+            state.missing.add(url);
+            continue;
+        }
+
+        const ext = EXTENSIONS[asset.contentType.split(';')[0].trim()] ||
+            (url.match(/\.[a-z0-9]{2,5}(?=$|[?#])/i)?.[0].toLowerCase() ?? '');
+        const path = `assets/${createHash('md5').update(url).digest('hex').slice(0, 12)}${ext}`;
+        zip.file(path, asset.data);
+        state.saved.set(url, path);
+        state.totalBytes += asset.data.length;
+    }
+
+    return html.replace(tagPattern, tag =>
+        tag.replace(attrPattern, (whole, prefix: string, url: string) =>
+            state.saved.has(url) ? `${prefix}../${state.saved.get(url)}"` : whole
+        )
+    );
+}
+
+/**
+ * Lessons in syllabus order: by section, then anything unsectioned
+ */
+function orderLessons(course: Course): Array<{ section: string | null; lessons: Lesson[] }> {
+    const byId = new Map(course.lessons.map(l => [l.id, l]));
+    const used = new Set<string>();
+    const groups: Array<{ section: string | null; lessons: Lesson[] }> = [];
+
+    for (const section of course.sections || []) {
+        const lessons = section.lessonIds
+            .map(id => byId.get(id))
+            .filter((l): l is Lesson => !!l && !used.has(l.id));
+        lessons.forEach(l => used.add(l.id));
+        if (lessons.length) groups.push({ section: section.title, lessons });
+    }
+
+    const rest = [...course.lessons]
+        .filter(l => !used.has(l.id))
+        .sort((a, b) => (a.order || 0) - (b.order || 0));
+    if (rest.length) groups.push({ section: groups.length ? 'More lessons' : null, lessons: rest });
+
+    return groups;
+}
+
+const listItems = (items: string[]) => items.map(item => `<li>${escapeHtml(item)}</li>`).join('');
+
+/**
+ * What a student answers with, for each question type (no answers)
+ */
+function renderQuestionBody(question: StudentQuizQuestion): string {
+    switch (question.type) {
+        case 'single':
+            return `<ol type="A">${listItems(question.options)}</ol>`;
+        case 'multi':
+            return `<p><em>Select all that apply.</em></p><ol type="A">${listItems(question.options)}</ol>`;
+        case 'true_false':
+            return `<ol type="A">${listItems(['True', 'False'])}</ol>`;
+        case 'short_answer':
+        case 'fill_blank':
+            return '';
+        case 'ordering':
+            return `<p><em>Put these in order.</em></p><ul>${listItems(question.items)}</ul>`;
+        case 'matching':
+            return `<p><em>Match each item with one answer.</em></p><ol>${listItems(question.left)}</ol><ol type="a">${listItems(question.right)}</ol>`;
+    }
+}
+
+/**
+ * Build the offline bundle for one user
+ */
+export async function buildOfflineBundle(
+    course: Course,
+    options: OfflineExportOptions
+): Promise<OfflineExportResult> {
+    const zip = new JSZip();
+    const quizzes = options.quizzes || course.quizzes || [];
+    const exportedAt = new Date().toISOString();
+    const who = options.exportedFor;
+
+    const watermark = {
+        hidden: encodeToZeroWidth(`Exported for ${who.email} (${who.id}) at ${exportedAt} · Source: ${options.sourceUrl}`) +
+            `<span class="watermark"> — Source: ${escapeHtml(options.sourceUrl)}</span>`,
+        footer: `Personal copy for ${escapeHtml(who.name || who.email)} (${escapeHtml(who.email)}) · Exported ${exportedAt.slice(0, 10)} · <a href="${escapeHtml(options.sourceUrl)}">${escapeHtml(course.title)} online</a>`,
+    };
+
+    const groups = orderLessons(course);
+    const flat = groups.flatMap(g => g.lessons);
+    const files = flat.map((lesson, i) =>
+        `lessons/${String(i + 1).padStart(2, '0')}-${slugify(lesson.title)}.html`
+    );
+    const assetState = { saved: new Map<string, string>(), totalBytes: 0, missing: new Set<string>() };
+
+    for (let i = 0; i < flat.length; i++) {
+        const lesson = flat[i];
+        const body = await localizeAssets(renderLessonBody(lesson, quizzes), options, zip, assetState);
+        const prev = i > 0 ? `<a href="../${files[i - 1]}">← ${escapeHtml(flat[i - 1].title)}</a>` : '<span></span>';
+        const next = i < flat.length - 1 ? `<a href="../${files[i + 1]}">${escapeHtml(flat[i + 1].title)} →</a>` : '<span></span>';
+
+        zip.file(files[i], renderPage(
+            `${lesson.title} · ${course.title}`,
+            `<p><a href="../index.html">${escapeHtml(course.title)}</a></p>
+<h1>${escapeHtml(lesson.title)}</h1>
+${body}
+<nav class="pager">${prev}${next}</nav>`,
+            '../',
+            watermark
+        ));
+    }
+
+    for (const quiz of quizzes) {
+        const questions = stripQuizAnswers(quiz).questions.map((q, i) => `<div class="quiz-question">
+<p><strong>${i + 1}. ${escapeHtml(q.text)}</strong></p>
+${renderQuestionBody(q)}
+</div>`).join('\n');
+
+        zip.file(quizFile(quiz), renderPage(
+            `${quiz.title} · ${course.title}`,
+            `<p><a href="../index.html">${escapeHtml(course.title)}</a></p>
+<h1>${escapeHtml(quiz.title)}</h1>
+<p>${quiz.questions.length} questions${quiz.timeLimit ? ` · ${quiz.timeLimit} min` : ''}. Submit your answers online to get graded.</p>
+${questions}`,
+            '../',
+            watermark
+        ));
+    }
+
+    let fileIndex = 0;
+    const syllabus = groups.map(group => {
+        const items = group.lessons.map(lesson => {
+            const file = files[fileIndex++];
+            return `<li><a href="${file}">${escapeHtml(lesson.title)}</a>${lesson.duration ? ` <small>(${escapeHtml(lesson.duration)})</small>` : ''}</li>`;
+        }).join('');
+        return `${group.section ? `<h3>${escapeHtml(group.section)}</h3>` : ''}<ol>${items}</ol>`;
+    }).join('\n');
+
+    const quizList = quizzes.length
+        ? `<h2>Quizzes</h2><ul>${quizzes.map(q => `<li><a href="${quizFile(q)}">${escapeHtml(q.title)}</a> (${q.questions.length} questions)</li>`).join('')}</ul>`
+        : '';
+
+    zip.file('index.html', renderPage(
+        course.title,
+        `<h1>${escapeHtml(course.title)}</h1>
+<p><em>${escapeHtml(course.instructor || '')}</em>${course.level ? ` · ${escapeHtml(course.level)}` : ''}${course.duration ? ` · ${escapeHtml(course.duration)}` : ''}</p>
+${course.description ? `<p>${escapeHtml(course.description)}</p>` : ''}
+<h2>Syllabus</h2>
+${syllabus}
+${quizList}`,
+        '',
+        watermark
+    ));
+    zip.file('styles.css', STYLES);
+
+    return {
+        zip,
+        lessonCount: flat.length,
+        quizCount: quizzes.length,
+        assetCount: assetState.saved.size,
+        missingAssets: [...assetState.missing],
+    };
+}
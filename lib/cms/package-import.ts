@@ -0,0 +1,504 @@
+/**
+ * SCORM 1.2 / IMS Common Cartridge Import
+ *
+ * Turns a content package (zip with imsmanifest.xml) into a draft Course:
+ * - Organization items → Sections (top level) and Lessons (leaves)
+ * - HTML resources → CMS components via htmlToComponents
+ * - Images referenced by the HTML → re-hosted through `uploadAsset`
+ *
+ * Anything that can't be represented (weblinks, QTI assessments,
+ * discussions, SCO runtime scripts, non-image assets...) is listed in
+ * the import report instead of failing the whole package. Packages with
+ * too many files or too much data once inflated (zip bombs) are rejected.
+ */
+
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { posix } from 'path';
+import type { Readable } from 'stream';
+import { Course, Lesson, Section } from '@/lib/types';
+import { htmlToComponents } from '@/lib/cms/serialization';
+
+export type PackageFormat = 'scorm12' | 'imscc' | 'unknown';
+
+export interface ImportIssue {
+    item: string;             // Item title or package path
+    reason: string;
+}
+
+export interface PackageImportReport {
+    format: PackageFormat;
+    sectionCount: number;
+    lessonCount: number;
+    assetCount: number;       // Images re-hosted
+    unsupported: ImportIssue[];
+    warnings: string[];
+}
+
+export interface PackageImportOptions {
+    courseId: string;
+    instructor: string;
+    createdBy: string;
+    fallbackTitle?: string;
+    /** Re-host an embedded image; returns its new URL or null on failure */
+    uploadAsset: (data: Buffer, path: string) => Promise<string | null>;
+    limits?: Partial<PackageLimits>;
+}
+
+// Zip bomb guards. Sizes are counted while inflating: the sizes in the
+// zip headers are written by whoever built the package.
+export interface PackageLimits {
+    maxEntries: number;
+    maxUncompressedBytes: number;   // Total across every file read
+}
+
+export const DEFAULT_PACKAGE_LIMITS: PackageLimits = {
+    maxEntries: 5000,
+    maxUncompressedBytes: 500 * 1024 * 1024,
+};
+
+export type PackageImportResult =
+    | { success: true; course: Course; report: PackageImportReport }
+    | { success: false; error: string };
+
+interface ManifestResource {
+    identifier: string;
+    type: string;
+    href: string | null;      // Resolved against xml:base
+}
+
+interface ManifestItem {
+    title: string;
+    identifierref?: string;
+    children: ManifestItem[];
+}
+
+const MANIFEST_FILE = 'imsmanifest.xml';
+const HTML_EXTENSIONS = ['.html', '.htm', '.xhtml'];
+const IMAGE_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+};
+
+// IMS CC resource types we know how to describe in the report
+const CC_RESOURCE_LABELS: Array<[RegExp, string]> = [
+    [/^imswl_/, 'Web link'],
+    [/^imsdt_/, 'Discussion topic'],
+    [/imsqti|assessment/, 'Assessment (QTI)'],
+    [/imsbasiclti|imsblti/, 'LTI tool link'],
+];
+
+const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    isArray: (name) => ['organization', 'item', 'resource', 'file'].includes(name),
+});
+
+// The parts of fast-xml-parser's output we read. Everything is optional:
+// packages come from other tools, and an element with only text parses
+// to a string. Elements listed in `isArray` always parse to arrays.
+type XmlText = string | number | { '#text'?: string | number };
+
+interface XmlItem {
+    '@_identifier'?: string;
+    '@_identifierref'?: string;
+    title?: XmlText;
+    item?: XmlItem[];
+}
+
+interface XmlResource {
+    '@_identifier'?: string;
+    '@_type'?: string;
+    '@_href'?: string;
+    '@_base'?: string;
+    file?: { '@_href'?: string }[];
+}
+
+interface XmlManifest {
+    metadata?: { schema?: XmlText; schemaversion?: XmlText };
+    organizations?: { '@_default'?: string; organization?: XmlItem[] };
+    resources?: { '@_base'?: string; resource?: XmlResource[] };
+}
+
+/**
+ * Reads package files, inflating no more than `limit` bytes in total;
+ * past it the read rejects and `exceeded` is set
+ */
+function createEntryReader(limit: number) {
+    let total = 0;
+    const reader = {
+        exceeded: false,
+        read(file: JSZip.JSZipObject): Promise<Buffer> {
+            return new Promise((resolve, reject) => {
+                // JSZip's stream (readable-stream 2) isn't async iterable
+                const stream = file.nodeStream('nodebuffer') as Readable;
+                const chunks: Buffer[] = [];
+                stream.on('data', (chunk: Buffer) => {
+                    if (reader.exceeded) return;
+                    total += chunk.length;
+                    if (total > limit) {
+                        reader.exceeded = true;
+                        stream.destroy();
+                        reject(new Error('Package exceeds the uncompressed size limit'));
+                        return;
+                    }
+                    chunks.push(chunk);
+                });
+                stream.on('error', reject);
+                stream.on('end', () => resolve(Buffer.concat(chunks)));
+            });
+        },
+    };
+    return reader;
+}
+
+type EntryReader = ReturnType<typeof createEntryReader>;
+
+function textOf(node: XmlText | undefined): string {
+    if (node === undefined || node === null) return '';
+    if (typeof node === 'object') return String(node['#text'] ?? '').trim();
+    return String(node).trim();
+}
+
+function isExternalUrl(ref: string): boolean {
+    return /^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref);
+}
+
+/**
+ * Resolve a package-relative reference (strips query/fragment, decodes %20...)
+ */
+export function resolvePackagePath(baseDir: string, ref: string): string {
+    const clean = ref.split(/[?#]/)[0];
+    let decoded = clean;
+    try {
+        decoded = decodeURIComponent(clean);
+    } catch {
+        // Keep the raw path if it isn't valid percent-encoding
+    }
+    return posix.normalize(posix.join(baseDir, decoded)).replace(/^(\.\/)+/, '');
+}
+
+function detectFormat(manifest: XmlManifest): PackageFormat {
+    const metadata = manifest.metadata || {};
+    const schema = textOf(metadata.schema).toLowerCase();
+    const version = textOf(metadata.schemaversion);
+
+    if (schema.includes('common cartridge')) return 'imscc';
+    if (schema.includes('adl scorm') || version === '1.2') return 'scorm12';
+    return 'unknown';
+}
+
+function parseItems(nodes: XmlItem[] | undefined): ManifestItem[] {
+    return (nodes || []).map(node => ({
+        title: textOf(node.title),
+        identifierref: node['@_identifierref'] || undefined,
+        children: parseItems(node.item),
+    }));
+}
+
+function parseResources(manifest: XmlManifest): Map<string, ManifestResource> {
+    const resources = new Map<string, ManifestResource>();
+    const container = manifest.resources || {};
+    const rootBase = String(container['@_base'] || '');
+
+    for (const node of container.resource || []) {
+        const identifier = node['@_identifier'];
+        if (!identifier) continue;
+
+        const base = posix.join(rootBase, String(node['@_base'] || ''));
+        // CC webcontent often has no href - fall back to its first file
+        const href = node['@_href'] || node.file?.[0]?.['@_href'];
+
+        resources.set(identifier, {
+            identifier,
+            type: String(node['@_type'] || ''),
+            href: href ? resolvePackagePath(base, String(href)) : null,
+        });
+    }
+    return resources;
+}
+
+/**
+ * Default organization's items, without the IMS CC "LearningModules"
+ * wrapper (a single untitled root item that only holds the real modules)
+ */
+function getOrganizationItems(manifest: XmlManifest): { title: string; items: ManifestItem[] } {
+    const organizations = manifest.organizations || {};
+    const list = organizations.organization || [];
+    const defaultId = organizations['@_default'];
+    const organization = list.find(o => o['@_identifier'] === defaultId) || list[0];
+    if (!organization) return { title: '', items: [] };
+
+    let items = parseItems(organization.item);
+    if (items.length === 1 && !items[0].identifierref && !items[0].title && items[0].children.length > 0) {
+        items = items[0].children;
+    }
+    return { title: textOf(organization.title), items };
+}
+
+function describeUnsupportedResource(resource: ManifestResource): string {
+    for (const [pattern, label] of CC_RESOURCE_LABELS) {
+        if (pattern.test(resource.type)) return `${label} resources are not supported`;
+    }
+    if (!resource.href) return 'Resource has no launchable file';
+    return `Unsupported resource file type (${posix.extname(resource.href) || 'none'})`;
+}
+
+/**
+ * Keep the <body> of an HTML page, minus scripts/styles (SCO runtime code
+ * talks to an LMS API we don't provide)
+ */
+export function extractBodyHtml(html: string): { html: string; title: string; hadScripts: boolean } {
+    const title = (html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '').trim();
+    const body = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i)?.[1] ?? html;
+    const hadScripts = /<script\b/i.test(body);
+
+    const cleaned = body
+        .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+        .replace(/<style\b[\s\S]*?<\/style>/gi, '')
+        .replace(/<(link|meta)\b[^>]*>/gi, '')
+        .replace(/\son[a-z]+\s*=\s*("[^"]*"|'[^']*')/gi, '')
+        .trim();
+
+    return { html: cleaned, title, hadScripts };
+}
+
+/**
+ * Re-host every relative <img src> and report other local references
+ * (PDFs, videos, links to other package pages) that will break.
+ */
+async function rehostAssets(
+    html: string,
+    htmlPath: string,
+    zip: JSZip,
+    reader: EntryReader,
+    options: PackageImportOptions,
+    uploaded: Map<string, string>,
+    issues: ImportIssue[]
+): Promise<string> {
+    const baseDir = posix.dirname(htmlPath);
+    const refPattern = /(<[a-z]+\b[^>]*?\s(?:src|href)\s*=\s*)(["'])([^"']+)\2/gi;
+    const refs = new Set<string>();
+    for (const match of html.matchAll(refPattern)) {
+        if (!isExternalUrl(match[3])) refs.add(match[3]);
+    }
+
+    const replacements = new Map<string, string>();
+    for (const ref of refs) {
+        const path = resolvePackagePath(baseDir, ref);
+        const ext = posix.extname(path).toLowerCase();
+
+        if (!IMAGE_TYPES[ext]) {
+            if (!HTML_EXTENSIONS.includes(ext)) {
+                issues.push({ item: path, reason: 'Embedded file was not re-hosted (only images are supported)' });
+            }
+            continue;
+        }
+
+        if (!uploaded.has(path)) {
+            const file = zip.file(path);
+            if (!file) {
+                issues.push({ item: path, reason: 'Referenced image is missing from the package' });
+                continue;
+            }
+            const url = await options.uploadAsset(await reader.read(file), path);
+            if (!url) {
+                issues.push({ item: path, reason: 'Image upload failed' });
+                continue;
+            }
+            uploaded.set(path, url);
+        }
+        replacements.set(ref, uploaded.get(path)!);
+    }
+
+    return html.replace(refPattern, (whole, prefix: string, quote: string, ref: string) =>
+        replacements.has(ref) ? `${prefix}${quote}${replacements.get(ref)}${quote}` : whole
+    );
+}
+
+/**
+ * Import a SCORM 1.2 / IMS CC zip as a draft course
+ */
+export async function importCoursePackage(
+    data: Buffer | ArrayBuffer,
+    options: PackageImportOptions
+): Promise<PackageImportResult> {
+    const limits = { ...DEFAULT_PACKAGE_LIMITS, ...options.limits };
+
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        return { success: false, error: 'File is not a valid zip archive' };
+    }
+
+    if (Object.keys(zip.files).length > limits.maxEntries) {
+        return { success: false, error: `Package has more than ${limits.maxEntries} files` };
+    }
+
+    const reader = createEntryReader(limits.maxUncompressedBytes);
+    try {
+        return await importPackageZip(zip, reader, options);
+    } catch (error) {
+        if (reader.exceeded) {
+            return {
+                success: false,
+                error: `Package is larger than ${limits.maxUncompressedBytes / 1024 / 1024}MB uncompressed`,
+            };
+        }
+        throw error;
+    }
+}
+
+async function importPackageZip(
+    zip: JSZip,
+    reader: EntryReader,
+    options: PackageImportOptions
+): Promise<PackageImportResult> {
+    const manifestFile = zip.file(MANIFEST_FILE);
+    if (!manifestFile) {
+        return { success: false, error: `${MANIFEST_FILE} not found at the package root` };
+    }
+
+    const manifestXml = (await reader.read(manifestFile)).toString('utf8');
+    let manifest: XmlManifest | null;
+    try {
+        const parsed: unknown = parser.parse(manifestXml)?.manifest;
+        manifest = parsed && typeof parsed === 'object' ? parsed as XmlManifest : null;
+    } catch {
+        manifest = null;
+    }
+    if (!manifest) {
+        return { success: false, error: `${MANIFEST_FILE} could not be parsed` };
+    }
+
+    const format = detectFormat(manifest);
+    const resources = parseResources(manifest);
+    const organization = getOrganizationItems(manifest);
+
+    const unsupported: ImportIssue[] = [];
+    const warnings: string[] = [];
+    const uploaded = new Map<string, string>();
+    const lessons: Lesson[] = [];
+    const sections: Section[] = [];
+
+    if (format === 'unknown') {
+        warnings.push('Package does not declare SCORM 1.2 or Common Cartridge metadata; importing as generic IMS content');
+    }
+
+    const buildLesson = async (item: ManifestItem): Promise<Lesson | null> => {
+        const label = item.title || item.identifierref || 'Untitled item';
+        const resource = item.identifierref ? resources.get(item.identifierref) : undefined;
+        if (!resource) {
+            unsupported.push({ item: label, reason: `Resource "${item.identifierref}" not found in manifest` });
+            return null;
+        }
+        if (!resource.href || !HTML_EXTENSIONS.includes(posix.extname(resource.href).toLowerCase())) {
+            unsupported.push({ item: label, reason: describeUnsupportedResource(resource) });
+            return null;
+        }
+
+        const file = zip.file(resource.href);
+        if (!file) {
+            unsupported.push({ item: label, reason: `File ${resource.href} is missing from the package` });
+            return null;
+        }
+
+        const page = extractBodyHtml((await reader.read(file)).toString('utf8'));
+        if (page.hadScripts) {
+            warnings.push(`"${label}": scripts were removed (interactive SCO behaviour is not imported)`);
+        }
+        const html = await rehostAssets(page.html, resource.href, zip, reader, options, uploaded, unsupported);
+
+        const order = lessons.length + 1;
+        const lesson: Lesson = {
+            id: `${options.courseId}-lesson-${order}`,
+            title: (item.title || page.title || `Lesson ${order}`).slice(0, 200),
+            type: 'cms',
+            duration: '10 min',
+            content: '',
+            order,
+            components: htmlToComponents(html),
+        };
+        lessons.push(lesson);
+        return lesson;
+    };
+
+    // Depth-first: every item that points at a resource becomes a lesson
+    const collectLessons = async (item: ManifestItem, into: string[]) => {
+        if (item.identifierref) {
+            const lesson = await buildLesson(item);
+            if (lesson) into.push(lesson.id);
+        } else if (item.children.length === 0) {
+            unsupported.push({ item: item.title || 'Untitled item', reason: 'Item has no content' });
+        }
+        for (const child of item.children) {
+            await collectLessons(child, into);
+        }
+    };
+
+    // Top-level folders become sections; loose top-level pages share one
+    let looseSection: Section | null = null;
+    for (const item of organization.items) {
+        if (item.children.length > 0) {
+            const section: Section = {
+                id: `section-${sections.length + 1}`,
+                title: item.title || `Section ${sections.length + 1}`,
+                lessonIds: [],
+            };
+            sections.push(section);
+            await collectLessons(item, section.lessonIds);
+        } else {
+            if (!looseSection) {
+                looseSection = {
+                    id: `section-${sections.length + 1}`,
+                    title: organization.title || 'Lessons',
+                    lessonIds: [],
+                };
+                sections.push(looseSection);
+            }
+            await collectLessons(item, looseSection.lessonIds);
+        }
+    }
+
+    if (lessons.length === 0) {
+        return { success: false, error: 'Package contains no importable HTML lessons' };
+    }
+
+    const course: Course = {
+        id: options.courseId,
+        title: (organization.title || options.fallbackTitle || 'Imported course').slice(0, 200),
+        description: '',
+        instructor: options.instructor,
+        thumbnail: 'https://placehold.co/800x400',
+        category: 'Uncategorized',
+        level: 'beginner',
+        duration: `${lessons.length * 10} min`,
+        lessonsCount: lessons.length,
+        enrolledCount: 0,
+        rating: 0,
+        price: 0,
+        lessons,
+        sections: sections.filter(s => s.lessonIds.length > 0),
+        createdAt: new Date().toISOString(),
+        isPublished: false,
+        createdBy: options.createdBy,
+    };
+
+    return {
+        success: true,
+        course,
+        report: {
+            format,
+            sectionCount: course.sections!.length,
+            lessonCount: lessons.length,
+            assetCount: uploaded.size,
+            unsupported,
+            warnings,
+        },
+    };
+}
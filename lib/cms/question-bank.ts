@@ -0,0 +1,206 @@
+/**
+ * Question Banks & Per-Attempt Question Sets
+ *
+ * A quiz asks its own questions plus questions drawn from banks
+ * (quiz.draws: "N from bank X, with this difficulty mix"). Every attempt
+ * gets a random seed; the draw, the question order and shuffled options
+ * all come from it, so the exact set a student saw can be rebuilt from
+ * the attempt when grading.
+ *
+ * Drawn questions are identified as "scope:bankId:questionId" so the same
+ * question keeps its ID across quizzes and can't collide with the quiz's own.
+ */
+
+import type { QuestionBank, QuestionDifficulty, Quiz, QuizDraw, QuizQuestion } from '@/lib/types';
+import { QUESTION_DIFFICULTIES, validateQuestion } from '@/lib/cms/quiz';
+
+export const MAX_BANK_QUESTIONS = 500;
+
+export type BankRef = Pick<QuizDraw, 'bankId' | 'scope'>;
+
+export function bankKey(ref: BankRef): string {
+    return `${ref.scope}:${ref.bankId}`;
+}
+
+export function drawnQuestionId(ref: BankRef, questionId: string): string {
+    return `${bankKey(ref)}:${questionId}`;
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (string hash → mulberry32)
+ */
+export function seededRandom(seed: string): () => number {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+    let state = h >>> 0;
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Fisher-Yates shuffle (copy)
+ */
+export function shuffle<T>(items: T[], rng: () => number): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/**
+ * Every question an attempt at the quiz can contain, by attempt question ID
+ */
+export function questionPool(quiz: Quiz, banks: Map<string, QuestionBank>): Map<string, QuizQuestion> {
+    const pool = new Map(quiz.questions.map(q => [q.id, q]));
+    for (const draw of quiz.draws || []) {
+        for (const question of banks.get(bankKey(draw))?.questions || []) {
+            const id = drawnQuestionId(draw, question.id);
+            pool.set(id, { ...question, id });
+        }
+    }
+    return pool;
+}
+
+/**
+ * Question IDs for a new attempt: the quiz's own questions, then each draw
+ * (mix first, the rest from any difficulty), shuffled if the quiz says so.
+ * A bank too small for its draw gives what it has.
+ */
+export function drawQuestionIds(quiz: Quiz, banks: Map<string, QuestionBank>, rng: () => number): string[] {
+    const ids = quiz.questions.map(q => q.id);
+    const used = new Set(ids);
+
+    for (const draw of quiz.draws || []) {
+        const bank = banks.get(bankKey(draw));
+        if (!bank) {
+            console.warn(`⚠️ [Quiz] ${quiz.id}: question bank ${bankKey(draw)} not found`);
+            continue;
+        }
+
+        const candidates = shuffle(
+            bank.questions.filter(q =>
+                !used.has(drawnQuestionId(draw, q.id)) &&
+                (!draw.topics?.length || (q.topic !== undefined && draw.topics.includes(q.topic)))
+            ),
+            rng
+        );
+
+        const picked: QuizQuestion[] = [];
+        for (const difficulty of QUESTION_DIFFICULTIES) {
+            picked.push(...candidates.filter(q => q.difficulty === difficulty).slice(0, draw.mix?.[difficulty] || 0));
+        }
+        picked.push(...candidates.filter(q => !picked.includes(q)).slice(0, Math.max(0, draw.count - picked.length)));
+
+        for (const question of picked.slice(0, draw.count)) {
+            const id = drawnQuestionId(draw, question.id);
+            used.add(id);
+            ids.push(id);
+        }
+    }
+
+    return quiz.shuffleQuestions ? shuffle(ids, rng) : ids;
+}
+
+/**
+ * How an attempt showed a choice question's options (shown index → stored
+ * index), or null if it kept the stored order. Seed + question ID, so it
+ * can be rebuilt for grading and analytics.
+ */
+export function attemptOptionOrder(quiz: Quiz, question: QuizQuestion, attempt: { seed?: string }): number[] | null {
+    if (!quiz.shuffleOptions || !attempt.seed) return null;
+    if (question.type !== undefined && question.type !== 'single' && question.type !== 'multi') return null;
+    return shuffle(question.options.map((_, i) => i), seededRandom(`${attempt.seed}:${question.id}`));
+}
+
+function withOptionOrder(question: QuizQuestion, order: number[]): QuizQuestion {
+    if (question.type !== undefined && question.type !== 'single' && question.type !== 'multi') return question;
+
+    const options = order.map(i => question.options[i]);
+    if (question.type === 'multi') {
+        return { ...question, options, correctIndexes: question.correctIndexes.map(i => order.indexOf(i)).sort((a, b) => a - b) };
+    }
+    return { ...question, options, correctIndex: order.indexOf(question.correctIndex) };
+}
+
+/**
+ * The questions of an attempt, as the student saw them. Options are
+ * shuffled per question for quizzes that ask for it; attempts from
+ * before seeds existed keep the stored order.
+ */
+export function resolveAttemptQuestions(
+    quiz: Quiz,
+    banks: Map<string, QuestionBank>,
+    attempt: { questionIds: string[]; seed?: string }
+): QuizQuestion[] {
+    const pool = questionPool(quiz, banks);
+    return attempt.questionIds
+        .map(id => pool.get(id))
+        .filter((q): q is QuizQuestion => q !== undefined)
+        .map(q => {
+            const order = attemptOptionOrder(quiz, q, attempt);
+            return order ? withOptionOrder(q, order) : q;
+        });
+}
+
+export interface QuestionBankSummary {
+    id: string;
+    title: string;
+    scope: BankRef['scope'];
+    questionCount: number;
+    topics: string[];
+    difficulties: Partial<Record<QuestionDifficulty, number>>;
+    updatedAt?: string;
+}
+
+export function summarizeQuestionBank(bank: QuestionBank): QuestionBankSummary {
+    const difficulties: Partial<Record<QuestionDifficulty, number>> = {};
+    for (const question of bank.questions) {
+        if (question.difficulty) difficulties[question.difficulty] = (difficulties[question.difficulty] || 0) + 1;
+    }
+    return {
+        id: bank.id,
+        title: bank.title,
+        scope: bank.courseId ? 'course' : 'global',
+        questionCount: bank.questions.length,
+        topics: Array.from(new Set(bank.questions.flatMap(q => (q.topic ? [q.topic] : [])))).sort(),
+        difficulties,
+        ...(bank.updatedAt ? { updatedAt: bank.updatedAt } : {}),
+    };
+}
+
+/**
+ * Problem with a bank sent by the editor, or null
+ */
+export function validateQuestionBank(bank: unknown, bankId: string): string | null {
+    if (!bank || typeof bank !== 'object') return 'Question bank is required';
+    const b = bank as Partial<QuestionBank>;
+
+    if (b.id !== bankId) return 'Question bank ID mismatch';
+    if (typeof b.title !== 'string' || !b.title.trim() || b.title.length > 120) return 'Title must be 1-120 characters';
+    if (!Array.isArray(b.questions)) return 'Questions are required';
+    if (b.questions.length > MAX_BANK_QUESTIONS) return `A bank holds at most ${MAX_BANK_QUESTIONS} questions`;
+
+    const ids = new Set<string>();
+    for (const [i, question] of b.questions.entries()) {
+        if (!question || typeof question.id !== 'string' || !question.id || question.id.includes(':') || typeof question.text !== 'string') {
+            return `Question ${i + 1} is invalid`;
+        }
+        if (ids.has(question.id)) return `Question ${i + 1} has a duplicate ID`;
+        ids.add(question.id);
+
+        const problem = validateQuestion(question);
+        if (problem) return `Question ${i + 1} ${problem}`;
+    }
+    return null;
+}
@@ -0,0 +1,193 @@
+/**
+ * Quiz Item Analysis
+ *
+ * Classical test statistics per question, over a quiz's graded attempts:
+ * - p-value: share of responses that were correct (item difficulty)
+ * - discrimination: point-biserial correlation between getting the item
+ *   right and the score on the attempt's other questions
+ * - time per question, and the pick rate of every option
+ *
+ * Answers are stored as the student saw them, so shuffled options are
+ * mapped back to the stored order (attemptOptionOrder) before counting.
+ */
+
+import type { QuestionBank, Quiz, QuizQuestion, QuizQuestionType } from '@/lib/types';
+import { questionTypeOf, type QuizAnswer, type QuizAttempt } from '@/lib/cms/quiz';
+import { attemptOptionOrder, questionPool } from '@/lib/cms/question-bank';
+
+export const MIN_FLAG_RESPONSES = 5;     // Fewer responses never flag
+export const HARD_P_VALUE = 0.2;         // "Almost everyone gets it wrong"
+export const TOP_GROUP_SHARE = 0.27;     // Top students: best 27% of attempts by score
+export const TOP_DISTRACTOR_RATE = 1 / 3; // A distractor this popular with top students
+
+export type ItemFlag = 'too_hard' | 'top_distractor' | 'negative_discrimination';
+
+export interface OptionStats {
+    label: string;
+    correct: boolean;
+    pickRate: number;               // 0-1 of all responses
+    topPickRate: number | null;     // 0-1 of top-group responses
+}
+
+export interface QuestionAnalytics {
+    questionId: string;
+    text: string;
+    type: QuizQuestionType;
+    responses: number;
+    pValue: number | null;
+    discrimination: number | null;
+    avgTimeSeconds: number | null;
+    options: OptionStats[];         // Choice questions only
+    flags: ItemFlag[];
+}
+
+export interface QuizAnalytics {
+    quizId: string;
+    attemptCount: number;           // Graded attempts
+    averageScore: number | null;
+    questions: QuestionAnalytics[];
+}
+
+interface Response {
+    correct: boolean;
+    rest: number | null;            // Share correct on the attempt's other questions
+    timeSpent?: number;
+    picked: number[];               // Stored option indexes
+    top: boolean;
+}
+
+/**
+ * Labels of a choice question's options (true/false as two options)
+ */
+function optionLabels(question: QuizQuestion): { label: string; correct: boolean }[] {
+    switch (question.type) {
+        case undefined:
+        case 'single':
+            return question.options.map((label, i) => ({ label, correct: i === question.correctIndex }));
+        case 'multi':
+            return question.options.map((label, i) => ({ label, correct: question.correctIndexes.includes(i) }));
+        case 'true_false':
+            return [{ label: 'True', correct: question.answer }, { label: 'False', correct: !question.answer }];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Options an answer picked, in stored order
+ */
+function pickedOptions(question: QuizQuestion, answer: QuizAnswer | null, order: number[] | null): number[] {
+    const stored = (shown: number) => (order ? order[shown] : shown);
+    switch (question.type) {
+        case undefined:
+        case 'single':
+            return typeof answer === 'number' && stored(answer) !== undefined ? [stored(answer)] : [];
+        case 'multi':
+            return Array.isArray(answer)
+                ? answer.filter((i): i is number => typeof i === 'number' && stored(i) !== undefined).map(stored)
+                : [];
+        case 'true_false':
+            return typeof answer === 'boolean' ? [answer ? 0 : 1] : [];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Pearson correlation (point-biserial when x is 0/1), or null without variance
+ */
+function correlation(pairs: [number, number][]): number | null {
+    if (pairs.length < 2) return null;
+    const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+    const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+
+    let cov = 0, varX = 0, varY = 0;
+    for (const [x, y] of pairs) {
+        cov += (x - meanX) * (y - meanY);
+        varX += (x - meanX) ** 2;
+        varY += (y - meanY) ** 2;
+    }
+    return varX && varY ? cov / Math.sqrt(varX * varY) : null;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+function analyzeQuestion(question: QuizQuestion, responses: Response[]): QuestionAnalytics {
+    const top = responses.filter(r => r.top);
+    const options = optionLabels(question).map(({ label, correct }, i) => ({
+        label,
+        correct,
+        pickRate: responses.length ? responses.filter(r => r.picked.includes(i)).length / responses.length : 0,
+        topPickRate: top.length ? top.filter(r => r.picked.includes(i)).length / top.length : null,
+    }));
+
+    const pValue = responses.length ? responses.filter(r => r.correct).length / responses.length : null;
+    const discrimination = correlation(
+        responses.flatMap(r => (r.rest === null ? [] : [[r.correct ? 1 : 0, r.rest] as [number, number]]))
+    );
+
+    const flags: ItemFlag[] = [];
+    if (responses.length >= MIN_FLAG_RESPONSES) {
+        if (pValue !== null && pValue < HARD_P_VALUE) flags.push('too_hard');
+        if (options.some(o => !o.correct && (o.topPickRate ?? 0) >= TOP_DISTRACTOR_RATE)) flags.push('top_distractor');
+        if (discrimination !== null && discrimination < 0) flags.push('negative_discrimination');
+    }
+
+    return {
+        questionId: question.id,
+        text: question.text,
+        type: questionTypeOf(question),
+        responses: responses.length,
+        pValue,
+        discrimination,
+        avgTimeSeconds: mean(responses.flatMap(r => (r.timeSpent === undefined ? [] : [r.timeSpent]))),
+        options,
+        flags,
+    };
+}
+
+/**
+ * Item analysis over the submitted attempts. Lists the quiz's own
+ * questions, then every bank question that was drawn at least once.
+ */
+export function analyzeQuiz(quiz: Quiz, banks: Map<string, QuestionBank>, attempts: QuizAttempt[]): QuizAnalytics {
+    const graded = attempts.filter(a => a.status === 'submitted' && a.results?.length);
+    const pool = questionPool(quiz, banks);
+
+    const ranked = [...graded].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+    const topIds = new Set(ranked.slice(0, Math.ceil(ranked.length * TOP_GROUP_SHARE)).map(a => a.id));
+
+    const responses = new Map<string, Response[]>();
+    for (const attempt of graded) {
+        const results = attempt.results || [];
+        const correctCount = results.filter(r => r.correct).length;
+
+        for (const result of results) {
+            const question = pool.get(result.questionId);
+            if (!question) continue;
+
+            const others = results.length - 1;
+            const list = responses.get(question.id) || [];
+            list.push({
+                correct: result.correct,
+                rest: others > 0 ? (correctCount - (result.correct ? 1 : 0)) / others : null,
+                timeSpent: result.timeSpent,
+                picked: pickedOptions(question, result.answer, attemptOptionOrder(quiz, question, attempt)),
+                top: topIds.has(attempt.id),
+            });
+            responses.set(question.id, list);
+        }
+    }
+
+    const ownIds = new Set(quiz.questions.map(q => q.id));
+    const questions = Array.from(pool.values())
+        .filter(q => ownIds.has(q.id) || responses.has(q.id))
+        .map(q => analyzeQuestion(q, responses.get(q.id) || []));
+
+    return {
+        quizId: quiz.id,
+        attemptCount: graded.length,
+        averageScore: mean(graded.map(a => a.score ?? 0)),
+        questions,
+    };
+}
@@ -0,0 +1,521 @@
+/**
+ * Quiz Attempts & Grading
+ *
+ * Quizzes are graded on the server: students get the quiz without its
+ * answers (stripQuizAnswers) when they start an attempt, and submit their
+ * picks back to be graded against the stored quiz (gradeQuiz). Each
+ * question is all-or-nothing, whatever its type.
+ *
+ * A time-limited attempt has a deadline fixed when it starts; submissions
+ * later than TIME_LIMIT_GRACE_SECONDS past it are recorded as expired
+ * and score 0.
+ */
+
+import type { AcceptedAnswer, AnswerMatcher, QuestionDifficulty, Quiz, QuizDraw, QuizQuestion, QuizQuestionType } from '@/lib/types';
+
+export const QUIZ_PASSING_SCORE = 75;
+
+// Covers the client's auto-submit round trip at 00:00
+export const TIME_LIMIT_GRACE_SECONDS = 30;
+
+export const QUESTION_TYPES: QuizQuestionType[] = ['single', 'multi', 'true_false', 'short_answer', 'ordering', 'matching', 'fill_blank'];
+export const ANSWER_MATCHERS: AnswerMatcher[] = ['exact', 'case_insensitive', 'regex', 'numeric'];
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Most questions one draw from a question bank can ask
+export const MAX_DRAW_COUNT = 100;
+
+// One ___ (or longer run of underscores) per blank
+const BLANK_PATTERN = /_{3,}/g;
+
+// Longest typed answer that is kept
+const MAX_ANSWER_LENGTH = 500;
+
+// Questions as students see them: no answers, shuffled where the order gives it away
+export type StudentQuizQuestion = { id: string; text: string } & (
+    | { type: 'single' | 'multi'; options: string[] }
+    | { type: 'true_false' | 'short_answer' }
+    | { type: 'ordering'; items: string[] }
+    | { type: 'matching'; left: string[]; right: string[] }
+    | { type: 'fill_blank'; blankCount: number }
+);
+
+export interface StudentQuiz extends Omit<Quiz, 'questions' | 'draws'> {
+    questions: StudentQuizQuestion[];
+}
+
+// What students see before starting an attempt
+export interface QuizSummary {
+    id: string;
+    title: string;
+    category?: string;
+    questionCount: number;
+    questionTypes: QuizQuestionType[];
+    timeLimit?: number;
+    maxAttempts?: number;
+    passingScore: number;
+}
+
+// single: option index, multi: option indexes, true_false: boolean, short_answer: text,
+// ordering: items in order, matching: right side per left, fill_blank: text per blank
+export type QuizAnswer = number | number[] | boolean | string | string[];
+
+export type QuizAnswers = Record<string, QuizAnswer | null>; // questionId -> answer
+
+export type QuizAttemptStatus = 'in_progress' | 'submitted' | 'expired';
+
+export interface QuestionResult {
+    questionId: string;
+    answer: QuizAnswer | null;
+    correct: boolean;
+    timeSpent?: number;         // Seconds, as reported by the player
+}
+
+export interface QuizAttempt {
+    id: string;
+    courseId: string;
+    quizId: string;
+    userId: string;
+    questionIds: string[];      // In the order they were shown
+    seed?: string;              // Drew the questions and shuffled them (question-bank.ts)
+    status: QuizAttemptStatus;
+    startedAt: string;
+    deadline?: string;          // Time-limited quizzes only
+    submittedAt?: string;
+    durationSeconds?: number;
+    score?: number;             // 0-100
+    correctCount?: number;
+    passed?: boolean;
+    results?: QuestionResult[];
+}
+
+export interface QuizGrade {
+    score: number;
+    correctCount: number;
+    passed: boolean;
+    results: QuestionResult[];
+}
+
+export function passingScoreOf(quiz: Pick<Quiz, 'passingScore'>): number {
+    return quiz.passingScore ?? QUIZ_PASSING_SCORE;
+}
+
+export function questionTypeOf(question: QuizQuestion): QuizQuestionType {
+    return question.type ?? 'single';
+}
+
+export function countBlanks(text: string): number {
+    return text.match(BLANK_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Text split around its blanks (one more part than there are blanks)
+ */
+export function splitBlanks(text: string): string[] {
+    return text.split(BLANK_PATTERN);
+}
+
+/**
+ * A new question of `type`, keeping what carries over from `from`
+ */
+export function blankQuestion(
+    type: QuizQuestionType,
+    from: Pick<QuizQuestion, 'id' | 'text' | 'explanation' | 'topic' | 'difficulty'> & { options?: string[] }
+): QuizQuestion {
+    const base = {
+        id: from.id,
+        text: from.text,
+        ...(from.explanation ? { explanation: from.explanation } : {}),
+        ...(from.topic ? { topic: from.topic } : {}),
+        ...(from.difficulty ? { difficulty: from.difficulty } : {}),
+    };
+    const options = from.options ?? ['', '', '', ''];
+    switch (type) {
+        case 'single':
+            return { ...base, options, correctIndex: 0 };
+        case 'multi':
+            return { ...base, type, options, correctIndexes: [0] };
+        case 'true_false':
+            return { ...base, type, answer: true };
+        case 'short_answer':
+            return { ...base, type, accepted: [''], matcher: 'case_insensitive' };
+        case 'ordering':
+            return { ...base, type, items: ['', '', ''] };
+        case 'matching':
+            return { ...base, type, pairs: [{ left: '', right: '' }, { left: '', right: '' }] };
+        case 'fill_blank':
+            return { ...base, type, blanks: Array.from({ length: Math.max(1, countBlanks(from.text)) }, () => ({ accepted: [''], matcher: 'case_insensitive' as const })) };
+    }
+}
+
+function shuffled<T>(items: T[], rng: () => number): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    // Never hand out the answer in its own order
+    if (result.length > 1 && result.every((item, i) => item === items[i])) {
+        result.push(result.shift()!);
+    }
+    return result;
+}
+
+function stripQuestion(question: QuizQuestion, rng: () => number): StudentQuizQuestion {
+    const { id, text } = question;
+    switch (question.type) {
+        case undefined:
+        case 'single':
+            return { id, text, type: 'single', options: question.options };
+        case 'multi':
+            return { id, text, type: 'multi', options: question.options };
+        case 'true_false':
+        case 'short_answer':
+            return { id, text, type: question.type };
+        case 'ordering':
+            return { id, text, type: 'ordering', items: shuffled(question.items, rng) };
+        case 'matching':
+            return {
+                id,
+                text,
+                type: 'matching',
+                left: question.pairs.map(p => p.left),
+                right: shuffled(question.pairs.map(p => p.right), rng),
+            };
+        case 'fill_blank':
+            return { id, text, type: 'fill_blank', blankCount: question.blanks.length };
+    }
+}
+
+/**
+ * The quiz as students may see it: no correct answers, no explanations
+ */
+export function stripQuizAnswers(quiz: Quiz, rng: () => number = Math.random): StudentQuiz {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { draws, ...rest } = quiz;
+    return {
+        ...rest,
+        questions: quiz.questions.map(question => stripQuestion(question, rng)),
+    };
+}
+
+/**
+ * A course payload as students may see it: its quizzes without answers
+ */
+export function stripCourseQuizzes<T extends { quizzes?: Quiz[] }>(course: T): Omit<T, 'quizzes'> & { quizzes?: StudentQuiz[] } {
+    const { quizzes, ...rest } = course;
+    return quizzes ? { ...rest, quizzes: quizzes.map(quiz => stripQuizAnswers(quiz)) } : rest;
+}
+
+export function summarizeQuiz(quiz: Quiz): QuizSummary {
+    return {
+        id: quiz.id,
+        title: quiz.title,
+        ...(quiz.category ? { category: quiz.category } : {}),
+        questionCount: quiz.questions.length + (quiz.draws || []).reduce((sum, draw) => sum + draw.count, 0),
+        questionTypes: QUESTION_TYPES.filter(type => quiz.questions.some(q => questionTypeOf(q) === type)),
+        ...(quiz.timeLimit ? { timeLimit: quiz.timeLimit } : {}),
+        ...(quiz.maxAttempts ? { maxAttempts: quiz.maxAttempts } : {}),
+        passingScore: passingScoreOf(quiz),
+    };
+}
+
+/**
+ * Problem with a quiz sent by the editor, or null
+ */
+export function validateQuiz(quiz: unknown, quizId: string): string | null {
+    if (!quiz || typeof quiz !== 'object') return 'Quiz is required';
+    const q = quiz as Partial<Quiz>;
+
+    if (q.id !== quizId) return 'Quiz ID mismatch';
+    if (typeof q.title !== 'string') return 'Title is required';
+    if (!Array.isArray(q.questions)) return 'Questions are required';
+    for (const field of ['timeLimit', 'maxAttempts'] as const) {
+        if (q[field] !== undefined && (!Number.isInteger(q[field]) || q[field]! < 0)) return `${field} must be a whole number`;
+    }
+    if (q.passingScore !== undefined && (!Number.isInteger(q.passingScore) || q.passingScore < 0 || q.passingScore > 100)) {
+        return 'passingScore must be 0-100';
+    }
+
+    for (const [i, question] of q.questions.entries()) {
+        if (!question || typeof question.id !== 'string' || typeof question.text !== 'string') {
+            return `Question ${i + 1} is invalid`;
+        }
+        const problem = validateQuestion(question);
+        if (problem) return `Question ${i + 1} ${problem}`;
+    }
+
+    if (q.draws !== undefined) {
+        if (!Array.isArray(q.draws)) return 'Draws must be a list';
+        for (const [i, draw] of q.draws.entries()) {
+            const problem = validateDraw(draw);
+            if (problem) return `Draw ${i + 1} ${problem}`;
+        }
+    }
+    return null;
+}
+
+function validateDraw(draw: QuizDraw): string | null {
+    if (!draw || typeof draw.bankId !== 'string' || !/^[a-zA-Z0-9-]{1,100}$/.test(draw.bankId)) return 'needs a question bank';
+    if (draw.scope !== 'course' && draw.scope !== 'global') return 'has an unknown bank scope';
+    if (!Number.isInteger(draw.count) || draw.count < 1 || draw.count > MAX_DRAW_COUNT) {
+        return `needs a count of 1-${MAX_DRAW_COUNT}`;
+    }
+    if (draw.topics !== undefined && !isStringList(draw.topics)) return 'has invalid topics';
+    if (draw.mix !== undefined) {
+        if (!draw.mix || typeof draw.mix !== 'object') return 'has an invalid difficulty mix';
+        let total = 0;
+        for (const [difficulty, count] of Object.entries(draw.mix)) {
+            if (!QUESTION_DIFFICULTIES.includes(difficulty as QuestionDifficulty) || !Number.isInteger(count) || count! < 0) {
+                return 'has an invalid difficulty mix';
+            }
+            total += count!;
+        }
+        if (total > draw.count) return 'asks for more questions in its mix than it draws';
+    }
+    return null;
+}
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isIndexIn = (value: unknown, length: number): value is number =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+function validateAccepted(spec: Partial<AcceptedAnswer>): string | null {
+    if (!ANSWER_MATCHERS.includes(spec.matcher as AnswerMatcher)) return 'has an unknown matcher';
+    if (!isStringList(spec.accepted) || spec.accepted.length === 0 || spec.accepted.some(a => !a.trim())) {
+        return 'needs an accepted answer';
+    }
+    if (spec.tolerance !== undefined && (!Number.isFinite(spec.tolerance) || spec.tolerance < 0)) {
+        return 'needs a tolerance of 0 or more';
+    }
+    if (spec.matcher === 'numeric' && spec.accepted.some(a => !Number.isFinite(Number(a)))) {
+        return 'needs numbers as accepted answers';
+    }
+    if (spec.matcher === 'regex') {
+        for (const pattern of spec.accepted) {
+            try {
+                new RegExp(pattern);
+            } catch {
+                return `has an invalid pattern: ${pattern}`;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Problem with one question ("needs ..."), or null
+ */
+export function validateQuestion(question: QuizQuestion): string | null {
+    if (question.topic !== undefined && (typeof question.topic !== 'string' || question.topic.length > 60)) {
+        return 'has an invalid topic';
+    }
+    if (question.difficulty !== undefined && !QUESTION_DIFFICULTIES.includes(question.difficulty)) {
+        return 'has an unknown difficulty';
+    }
+
+    switch (question.type) {
+        case undefined:
+        case 'single':
+        case 'multi': {
+            if (!isStringList(question.options) || question.options.length < 2) return 'needs options';
+            if (question.type === 'multi') {
+                const indexes = question.correctIndexes;
+                if (!Array.isArray(indexes) || indexes.length === 0 || !indexes.every(i => isIndexIn(i, question.options.length))) {
+                    return 'needs a correct answer';
+                }
+                if (new Set(indexes).size !== indexes.length) return 'lists a correct answer twice';
+                return null;
+            }
+            return isIndexIn(question.correctIndex, question.options.length) ? null : 'needs a correct answer';
+        }
+        case 'true_false':
+            return typeof question.answer === 'boolean' ? null : 'needs a correct answer';
+        case 'short_answer':
+            return validateAccepted(question);
+        case 'ordering':
+            if (!isStringList(question.items) || question.items.length < 2) return 'needs at least two items';
+            return new Set(question.items).size === question.items.length ? null : 'has duplicate items';
+        case 'matching': {
+            const pairs = question.pairs;
+            if (!Array.isArray(pairs) || pairs.length < 2 || !pairs.every(p => p && typeof p.left === 'string' && typeof p.right === 'string')) {
+                return 'needs at least two pairs';
+            }
+            return new Set(pairs.map(p => p.right)).size === pairs.length ? null : 'has duplicate answers to match';
+        }
+        case 'fill_blank': {
+            if (!Array.isArray(question.blanks) || question.blanks.length === 0) return 'needs a blank (___)';
+            if (question.blanks.length !== countBlanks(question.text)) return 'needs one answer per blank (___)';
+            for (const blank of question.blanks) {
+                const problem = blank && typeof blank === 'object' ? validateAccepted(blank) : 'needs an accepted answer';
+                if (problem) return problem;
+            }
+            return null;
+        }
+        default:
+            return 'has an unknown type';
+    }
+}
+
+/**
+ * Whether a typed answer matches any accepted one
+ */
+export function matchesAccepted(answer: string, spec: AcceptedAnswer): boolean {
+    const given = answer.trim();
+    if (!given) return false;
+
+    return spec.accepted.some(accepted => {
+        switch (spec.matcher) {
+            case 'exact':
+                return given === accepted.trim();
+            case 'case_insensitive':
+                return given.toLowerCase().replace(/\s+/g, ' ') === accepted.trim().toLowerCase().replace(/\s+/g, ' ');
+            case 'regex':
+                try {
+                    return new RegExp(`^(?:${accepted})$`).test(given);
+                } catch {
+                    return false;
+                }
+            case 'numeric': {
+                const value = Number(given);
+                return Number.isFinite(value) && given !== '' && Math.abs(value - Number(accepted)) <= (spec.tolerance ?? 0);
+            }
+            default:
+                return false;
+        }
+    });
+}
+
+const cleanText = (value: unknown): string | null =>
+    typeof value === 'string' ? value.slice(0, MAX_ANSWER_LENGTH) : null;
+
+// A list of `length` strings (empty ones for parts left unanswered)
+function cleanTextList(value: unknown, length: number): string[] | null {
+    if (!Array.isArray(value) || value.length !== length) return null;
+    const list = value.map(v => cleanText(v ?? ''));
+    return list.every(v => v !== null) && list.some(v => v.trim()) ? list as string[] : null;
+}
+
+function sanitizeAnswer(question: QuizQuestion, answer: unknown): QuizAnswer | null {
+    switch (question.type) {
+        case undefined:
+        case 'single':
+            return isIndexIn(answer, question.options.length) ? answer : null;
+        case 'multi':
+            if (!Array.isArray(answer) || answer.length === 0 || !answer.every(i => isIndexIn(i, question.options.length))) return null;
+            return Array.from(new Set(answer as number[])).sort((a, b) => a - b);
+        case 'true_false':
+            return typeof answer === 'boolean' ? answer : null;
+        case 'short_answer': {
+            const text = cleanText(answer);
+            return text?.trim() ? text : null;
+        }
+        case 'ordering':
+            return cleanTextList(answer, question.items.length);
+        case 'matching':
+            return cleanTextList(answer, question.pairs.length);
+        case 'fill_blank':
+            return cleanTextList(answer, question.blanks.length);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Keep only answers to known questions, in the shape their type expects
+ */
+export function sanitizeAnswers(quiz: Quiz, answers: unknown): QuizAnswers {
+    const clean: QuizAnswers = {};
+    if (!answers || typeof answers !== 'object') return clean;
+
+    for (const question of quiz.questions) {
+        clean[question.id] = sanitizeAnswer(question, (answers as Record<string, unknown>)[question.id]);
+    }
+    return clean;
+}
+
+/**
+ * Whether a (sanitized) answer is fully correct
+ */
+export function isAnswerCorrect(question: QuizQuestion, answer: QuizAnswer | null): boolean {
+    if (answer === null) return false;
+    const sameList = (a: unknown, b: unknown[]) =>
+        Array.isArray(a) && a.length === b.length && a.every((v, i) => v === b[i]);
+
+    switch (question.type) {
+        case undefined:
+        case 'single':
+            return answer === question.correctIndex;
+        case 'multi':
+            return sameList(answer, [...question.correctIndexes].sort((a, b) => a - b));
+        case 'true_false':
+            return answer === question.answer;
+        case 'short_answer':
+            return typeof answer === 'string' && matchesAccepted(answer, question);
+        case 'ordering':
+            return sameList(answer, question.items);
+        case 'matching':
+            return sameList(answer, question.pairs.map(p => p.right));
+        case 'fill_blank':
+            return Array.isArray(answer) && answer.length === question.blanks.length &&
+                question.blanks.every((blank, i) => typeof answer[i] === 'string' && matchesAccepted(answer[i] as string, blank));
+        default:
+            return false;
+    }
+}
+
+/**
+ * Grade answers against the questions of an attempt. Questions removed
+ * from the quiz since the attempt started don't count.
+ */
+export function gradeQuiz(
+    quiz: Quiz,
+    questionIds: string[],
+    answers: QuizAnswers,
+    timings: Record<string, number> = {}
+): QuizGrade {
+    const byId = new Map(quiz.questions.map(q => [q.id, q]));
+    const questions = questionIds.map(id => byId.get(id)).filter((q): q is QuizQuestion => !!q);
+
+    const results = questions.map((question): QuestionResult => {
+        const answer = answers[question.id] ?? null;
+        const time = timings[question.id];
+        return {
+            questionId: question.id,
+            answer,
+            correct: isAnswerCorrect(question, answer),
+            ...(Number.isFinite(time) && time >= 0 ? { timeSpent: Math.round(time) } : {}),
+        };
+    });
+
+    const correctCount = results.filter(r => r.correct).length;
+    const score = questions.length > 0 ? Math.round((correctCount / questions.length) * 100) : 0;
+    return { score, correctCount, passed: score >= passingScoreOf(quiz), results };
+}
+
+/**
+ * Deadline of an attempt started at `startedAt`, if the quiz is timed
+ */
+export function attemptDeadline(quiz: Quiz, startedAt: Date): string | undefined {
+    if (!quiz.timeLimit || quiz.timeLimit <= 0) return undefined;
+    return new Date(startedAt.getTime() + quiz.timeLimit * 60_000).toISOString();
+}
+
+/**
+ * Whether an in-progress attempt can no longer be submitted
+ */
+export function isAttemptExpired(attempt: Pick<QuizAttempt, 'deadline'>, now = new Date()): boolean {
+    if (!attempt.deadline) return false;
+    return now.getTime() > new Date(attempt.deadline).getTime() + TIME_LIMIT_GRACE_SECONDS * 1000;
+}
+
+/**
+ * Attempts left for a student (null = unlimited). Every started attempt
+ * counts, so abandoning one doesn't give a free look at the questions.
+ */
+export function attemptsRemaining(quiz: Quiz, attempts: QuizAttempt[]): number | null {
+    if (!quiz.maxAttempts || quiz.maxAttempts <= 0) return null;
+    return Math.max(0, quiz.maxAttempts - attempts.length);
+}
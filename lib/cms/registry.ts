@@ -155,6 +155,84 @@ export const COMPONENT_REGISTRY: ComponentMeta[] = [
             accentColor: "#6366f1",
         },
     },
+    {
+        type: "exercise",
+        name: "Exercise",
+        icon: "Dumbbell",
+        description: "Auto-graded coding task with hidden tests",
+        category: "interactive",
+        defaultProps: {
+            type: "exercise",
+            title: "Add two numbers",
+            prompt: "Implement add(a, b) so it returns the sum of both arguments.",
+            language: "javascript",
+            starterCode: "function add(a, b) {\n  // Your code here\n}\n",
+            tests: [
+                { id: "test-1", name: "adds positive numbers", code: "assert.equal(add(2, 3), 5);" },
+                { id: "test-2", name: "adds negative numbers", code: "assert.equal(add(-4, 1), -3);", hidden: true },
+            ],
+        },
+    },
+    {
+        type: "math",
+        name: "Equation",
+        icon: "Sigma",
+        description: "Display LaTeX equation",
+        category: "content",
+        defaultProps: {
+            type: "math",
+            latex: "e^{i\\pi} + 1 = 0",
+        },
+    },
+    {
+        type: "diagram",
+        name: "Diagram",
+        icon: "Workflow",
+        description: "Mermaid flowchart or sequence diagram",
+        category: "media",
+        defaultProps: {
+            type: "diagram",
+            source: "flowchart LR\n  A[Start] --> B[End]",
+        },
+    },
+    {
+        type: "callout",
+        name: "Callout",
+        icon: "Info",
+        description: "Highlighted note, tip, warning or danger box",
+        category: "layout",
+        defaultProps: {
+            type: "callout",
+            variant: "info",
+            children: [],
+        },
+    },
+    {
+        type: "accordion",
+        name: "Accordion",
+        icon: "ChevronsDownUp",
+        description: "Collapsible section with nested content",
+        category: "layout",
+        defaultProps: {
+            type: "accordion",
+            title: "Details",
+            children: [],
+        },
+    },
+    {
+        type: "tabs",
+        name: "Tabs",
+        icon: "LayoutPanelTop",
+        description: "Tabbed panels with nested content",
+        category: "layout",
+        defaultProps: {
+            type: "tabs",
+            tabs: [
+                { id: "tab-1", title: "Tab 1", children: [] },
+                { id: "tab-2", title: "Tab 2", children: [] },
+            ],
+        },
+    },
 ];
 
 // Helper to create a new component with defaults
@@ -162,9 +240,12 @@ export function createComponent(type: string): Component {
     const meta = COMPONENT_REGISTRY.find((m) => m.type === type);
     if (!meta) throw new Error(`Unknown component type: ${type}`);
 
+    const id = `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     return {
-        id: `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id,
         ...meta.defaultProps,
+        // Exercise progress is keyed on exerciseId, so each copy needs its own
+        ...(type === "exercise" ? { exerciseId: id } : {}),
     } as Component;
 }
 
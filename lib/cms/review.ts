@@ -0,0 +1,191 @@
+/**
+ * Draft Review Workflow
+ *
+ * Authors submit a course draft for review; a reviewer (another admin)
+ * approves it or requests changes. Publishing needs an approval that still
+ * matches the draft: the lesson/structure versions approved are recorded,
+ * and any edit after approval bumps them.
+ *
+ * Reviewers leave threaded comments on highlighted text. Each thread is
+ * anchored by a `comment` mark in the lesson's Tiptap JSON, so the anchor
+ * moves with the text through edits (and collaborative merges); the quoted
+ * text is kept as a fallback when the highlighted text is deleted.
+ *
+ * Client-safe helpers only - Firestore access lives in
+ * lib/firebase/review-operations.ts and lib/storage/course-review.ts.
+ */
+
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+import type { CourseVersions } from '@/lib/storage/course-versioning';
+
+export type CourseStatus = 'draft' | 'in_review' | 'changes_requested' | 'published' | 'archived';
+
+export type ReviewState = 'in_review' | 'changes_requested' | 'approved';
+
+export type ReviewAction = 'submit' | 'approve' | 'request_changes' | 'withdraw';
+
+export const REVIEW_ACTIONS: ReviewAction[] = ['submit', 'approve', 'request_changes', 'withdraw'];
+
+export const COMMENT_MARK = 'comment';
+
+export const MAX_COMMENT_LENGTH = 2000;
+const MAX_QUOTE_LENGTH = 300;
+
+export interface ReviewActor {
+    id: string;
+    name?: string;
+}
+
+export interface CourseReview {
+    state: ReviewState;
+    submittedBy: ReviewActor;
+    submittedAt: string;          // ISO
+    decidedBy?: ReviewActor;
+    decidedAt?: string;           // ISO
+    note?: string;                // Reviewer's summary
+    approvedVersions?: CourseVersions;
+}
+
+export interface ReviewComment {
+    id: string;
+    authorId: string;
+    authorName: string;
+    body: string;
+    createdAt: string;            // ISO
+}
+
+export interface ReviewThread {
+    id: string;
+    lessonId: string;
+    quote: string;                // Highlighted text when the thread was opened
+    comments: ReviewComment[];
+    resolved: boolean;
+    resolvedBy?: string;
+    resolvedAt?: string;
+    createdBy: string;
+    createdAt: string;            // ISO
+}
+
+export function createThreadId(): string {
+    return `t-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isValidThreadId(id: unknown): id is string {
+    return typeof id === 'string' && /^[a-zA-Z0-9_-]{1,64}$/.test(id);
+}
+
+/**
+ * Quoted text kept on a thread (shortened for long selections)
+ */
+export function trimQuote(text: string): string {
+    const quote = text.replace(/\s+/g, ' ').trim();
+    return quote.length > MAX_QUOTE_LENGTH ? `${quote.slice(0, MAX_QUOTE_LENGTH - 1)}…` : quote;
+}
+
+/**
+ * Apply a workflow action; returns the new review (null = no review open)
+ * or an error message when the action isn't allowed.
+ */
+export function applyReviewAction(
+    review: CourseReview | null,
+    action: ReviewAction,
+    actor: ReviewActor,
+    options: { note?: string; allowSelfReview?: boolean; approvedVersions?: CourseVersions } = {}
+): { review: CourseReview | null } | { error: string } {
+    const now = new Date().toISOString();
+
+    switch (action) {
+        case 'submit':
+            if (review?.state === 'in_review') {
+                return { error: 'Course is already in review' };
+            }
+            return { review: { state: 'in_review', submittedBy: actor, submittedAt: now } };
+
+        case 'approve':
+        case 'request_changes': {
+            if (review?.state !== 'in_review') {
+                return { error: 'Course is not in review' };
+            }
+            if (action === 'approve' && review.submittedBy.id === actor.id && !options.allowSelfReview) {
+                return { error: 'You cannot approve your own submission' };
+            }
+            if (action === 'approve' && !options.approvedVersions) {
+                return { error: 'Approval needs the draft versions being approved' };
+            }
+            return {
+                review: {
+                    ...review,
+                    state: action === 'approve' ? 'approved' : 'changes_requested',
+                    decidedBy: actor,
+                    decidedAt: now,
+                    ...(options.note ? { note: options.note } : {}),
+                    ...(action === 'approve' ? { approvedVersions: options.approvedVersions } : {}),
+                },
+            };
+        }
+
+        case 'withdraw':
+            if (!review || review.state === 'approved') {
+                return { error: 'Nothing to withdraw' };
+            }
+            return { review: null };
+    }
+}
+
+/**
+ * Course status for a review state (approved/no review falls back to
+ * whether a published copy exists). An archived course stays archived
+ * until it is published again.
+ */
+export function statusForReview(
+    review: CourseReview | null,
+    hasPublished: boolean,
+    currentStatus?: CourseStatus | null
+): CourseStatus {
+    if (currentStatus === 'archived') return 'archived';
+    if (review?.state === 'in_review' || review?.state === 'changes_requested') return review.state;
+    return hasPublished ? 'published' : 'draft';
+}
+
+/**
+ * Why publishing is blocked, or null when the approval covers these versions
+ */
+export function getPublishBlockReason(review: CourseReview | null, versions: CourseVersions): string | null {
+    if (!review || review.state !== 'approved' || !review.approvedVersions) {
+        return review?.state === 'changes_requested'
+            ? 'Changes were requested - resubmit the course for review'
+            : 'Publishing requires an approved review';
+    }
+
+    const approved = review.approvedVersions;
+    const changedLessons = Object.entries(versions.lessons)
+        .some(([id, version]) => approved.lessons[id] !== version);
+    const removedLessons = Object.keys(approved.lessons).some(id => versions.lessons[id] === undefined);
+
+    if (approved.structureVersion !== versions.structureVersion || changedLessons || removedLessons) {
+        return 'The course changed after it was approved - submit it for review again';
+    }
+    return null;
+}
+
+/**
+ * Text covered by each comment thread's anchor, in document order
+ */
+export function collectCommentAnchors(nodes: TiptapNode[]): Record<string, string> {
+    const anchors: Record<string, string> = {};
+    const walk = (list: TiptapNode[]) => {
+        for (const node of list) {
+            if (node.type === 'text' && node.marks) {
+                for (const mark of node.marks) {
+                    const threadId = mark.attrs?.threadId;
+                    if (mark.type === COMMENT_MARK && typeof threadId === 'string') {
+                        anchors[threadId] = (anchors[threadId] || '') + (node.text || '');
+                    }
+                }
+            }
+            if (node.content) walk(node.content);
+        }
+    };
+    walk(nodes);
+    return anchors;
+}
@@ -1,8 +1,10 @@
 // Serialization utilities for converting between Tiptap JSON and Component[] format
 // This ensures backward compatibility with existing course data
 
-import { Component, HeaderComponent, TextComponent, ImageComponent, CodeComponent, DividerComponent, MultiFileCodeComponent, TableComponent } from './types';
+import { Component, HeaderComponent, TextComponent, ImageComponent, CodeComponent, DividerComponent, MultiFileCodeComponent, TableComponent, ExerciseComponent, CalloutComponent, AccordionComponent, TabsComponent, MathComponent, DiagramComponent } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { mathPlaceholder, unescapeAttr } from './math';
+import { expandLinkedSnippets } from './templates';
 
 // Tiptap node types
 interface TiptapNode {
@@ -201,11 +203,84 @@ export function deserializeFromComponents(components: Component[]): TiptapDoc {
                         files: multiCode.files || [],
                         activeFileId: multiCode.activeFileId || multiCode.files?.[0]?.id || '',
                         showLineNumbers: multiCode.showLineNumbers ?? true,
+                        runnable: multiCode.runnable ?? false,
                     },
                 });
                 break;
             }
 
+            case 'exercise': {
+                const exercise = comp as ExerciseComponent;
+                content.push({
+                    type: 'customExercise',
+                    attrs: {
+                        exerciseId: exercise.exerciseId || exercise.id,
+                        title: exercise.title,
+                        prompt: exercise.prompt || '',
+                        language: exercise.language,
+                        starterCode: exercise.starterCode || '',
+                        tests: exercise.tests || [],
+                    },
+                });
+                break;
+            }
+
+            case 'callout': {
+                const callout = comp as CalloutComponent;
+                content.push({
+                    type: 'customCallout',
+                    attrs: {
+                        variant: callout.variant || 'info',
+                        title: callout.title || '',
+                    },
+                    content: deserializeFromComponents(callout.children || []).content,
+                });
+                break;
+            }
+
+            case 'accordion': {
+                const accordion = comp as AccordionComponent;
+                content.push({
+                    type: 'customAccordion',
+                    attrs: {
+                        title: accordion.title,
+                        open: accordion.defaultOpen ?? false,
+                    },
+                    content: deserializeFromComponents(accordion.children || []).content,
+                });
+                break;
+            }
+
+            case 'tabs': {
+                const tabs = comp as TabsComponent;
+                const panels = tabs.tabs?.length ? tabs.tabs : [{ id: uuidv4(), title: 'Tab 1', children: [] }];
+                content.push({
+                    type: 'customTabs',
+                    content: panels.map((panel) => ({
+                        type: 'customTabPanel',
+                        attrs: { title: panel.title },
+                        content: deserializeFromComponents(panel.children || []).content,
+                    })),
+                });
+                break;
+            }
+
+            case 'math': {
+                content.push({
+                    type: 'mathBlock',
+                    attrs: { latex: (comp as MathComponent).latex || '' },
+                });
+                break;
+            }
+
+            case 'diagram': {
+                content.push({
+                    type: 'mermaidDiagram',
+                    attrs: { source: (comp as DiagramComponent).source || '' },
+                });
+                break;
+            }
+
             case 'video':
             case 'cta':
             case 'spacer':
@@ -270,8 +345,8 @@ export function serializeToComponents(doc: TiptapDoc): Component[] {
         return tables;
     }
 
-    // Process nodes in document order
-    for (const node of doc.content) {
+    // Process nodes in document order (linked snippets become plain content)
+    for (const node of expandLinkedSnippets(doc.content)) {
         // Handle table directly at top level
         if (node.type === 'table') {
             components.push({
@@ -282,6 +357,42 @@ export function serializeToComponents(doc: TiptapDoc): Component[] {
             continue;
         }
 
+        // Layout blocks keep their nested content (including tables) as children
+        if (node.type === 'customCallout') {
+            components.push({
+                id: uuidv4(),
+                type: 'callout',
+                variant: node.attrs?.variant || 'info',
+                ...(node.attrs?.title ? { title: node.attrs.title } : {}),
+                children: serializeToComponents({ type: 'doc', content: node.content || [] }),
+            } as CalloutComponent);
+            continue;
+        }
+
+        if (node.type === 'customAccordion') {
+            components.push({
+                id: uuidv4(),
+                type: 'accordion',
+                title: node.attrs?.title || '',
+                ...(node.attrs?.open ? { defaultOpen: true } : {}),
+                children: serializeToComponents({ type: 'doc', content: node.content || [] }),
+            } as AccordionComponent);
+            continue;
+        }
+
+        if (node.type === 'customTabs') {
+            components.push({
+                id: uuidv4(),
+                type: 'tabs',
+                tabs: (node.content || []).map((panel) => ({
+                    id: uuidv4(),
+                    title: (panel.attrs?.title as string) || '',
+                    children: serializeToComponents({ type: 'doc', content: panel.content || [] }),
+                })),
+            } as TabsComponent);
+            continue;
+        }
+
         // For other nodes, first process the node normally
         // Then check if it contains nested tables and add them after
         const nestedTables = extractTablesFromNode(node);
@@ -379,10 +490,43 @@ export function serializeToComponents(doc: TiptapDoc): Component[] {
                     files: node.attrs?.files || [],
                     activeFileId: node.attrs?.activeFileId || '',
                     showLineNumbers: node.attrs?.showLineNumbers ?? true,
+                    runnable: node.attrs?.runnable ?? false,
                 } as MultiFileCodeComponent);
                 break;
             }
 
+            case 'customExercise': {
+                components.push({
+                    id: uuidv4(),
+                    type: 'exercise',
+                    exerciseId: node.attrs?.exerciseId || uuidv4(),
+                    title: node.attrs?.title || 'Untitled Exercise',
+                    prompt: node.attrs?.prompt || '',
+                    language: node.attrs?.language || 'javascript',
+                    starterCode: node.attrs?.starterCode || '',
+                    tests: node.attrs?.tests || [],
+                } as ExerciseComponent);
+                break;
+            }
+
+            case 'mathBlock': {
+                components.push({
+                    id: uuidv4(),
+                    type: 'math',
+                    latex: node.attrs?.latex || '',
+                } as MathComponent);
+                break;
+            }
+
+            case 'mermaidDiagram': {
+                components.push({
+                    id: uuidv4(),
+                    type: 'diagram',
+                    source: node.attrs?.source || '',
+                } as DiagramComponent);
+                break;
+            }
+
             case 'horizontalRule': {
                 components.push({
                     id: uuidv4(),
@@ -470,6 +614,13 @@ function parseInlineMarks(html: string): TiptapNode[] {
                 currentMarks.push({ type: 'strike' });
             } else if (tagLower === '</s>' || tagLower === '</strike>') {
                 currentMarks = currentMarks.filter(m => m.type !== 'strike');
+            } else if (tagLower.startsWith('<code data-math=')) {
+                // Inline math placeholder - the element text is just a fallback
+                const latexMatch = tag.match(/data-math="([^"]*)"/);
+                const closeIndex = remaining.indexOf('</code>', tagEnd);
+                nodes.push({ type: 'mathInline', attrs: { latex: unescapeAttr(latexMatch?.[1] || '') } });
+                i = closeIndex === -1 ? tagEnd + 1 : closeIndex + '</code>'.length;
+                continue;
             } else if (tagLower === '<code>') {
                 currentMarks.push({ type: 'code' });
             } else if (tagLower === '</code>') {
@@ -566,6 +717,10 @@ function serializeNodeToHtml(node: TiptapNode): string {
             return text;
         }
 
+        if (child.type === 'mathInline') {
+            return mathPlaceholder((child.attrs?.latex as string) || '');
+        }
+
         // Recurse for other node types
         return serializeNodeToHtml(child);
     }).join('');
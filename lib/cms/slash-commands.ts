@@ -0,0 +1,222 @@
+/**
+ * Slash Command Search & Block Shortcuts
+ *
+ * Fuzzy ranking for the FluidEditor `/` menu and the per-block keyboard
+ * shortcuts authors can configure (stored per browser in localStorage).
+ *
+ * Shortcuts use Tiptap's notation: modifiers in the order Mod, Alt, Shift
+ * followed by a lowercase key, e.g. `Mod-Alt-q`. `Mod` is Cmd on macOS and
+ * Ctrl elsewhere.
+ */
+
+export interface SearchableCommand {
+    id: string;
+    title: string;
+    description: string;
+    keywords?: string[];
+}
+
+/** Command ID → shortcut ('' disables a default) */
+export type BlockShortcutMap = Record<string, string>;
+
+export const BLOCK_SHORTCUTS_STORAGE_KEY = 'fluid-editor-block-shortcuts';
+
+export const DEFAULT_BLOCK_SHORTCUTS: BlockShortcutMap = {
+    text: 'Mod-Alt-0',
+    heading1: 'Mod-Alt-1',
+    heading2: 'Mod-Alt-2',
+    heading3: 'Mod-Alt-3',
+    bulletList: 'Mod-Shift-8',
+    orderedList: 'Mod-Shift-7',
+    quote: 'Mod-Shift-b',
+    codeBlock: 'Mod-Alt-c',
+    image: 'Mod-Alt-i',
+    video: 'Mod-Alt-v',
+    quiz: 'Mod-Alt-q',
+    exercise: 'Mod-Alt-e',
+    equation: 'Mod-Alt-m',
+    table: 'Mod-Alt-t',
+};
+
+const WORD_BOUNDARY = /[\s\-_/.]/;
+
+/**
+ * Score how well a query matches a text: substring matches beat scattered
+ * subsequence matches, earlier and word-start matches beat later ones.
+ * Returns null when the query's characters don't all appear in order.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+    const q = query.trim().toLowerCase();
+    const t = text.toLowerCase();
+    if (!q) return 0;
+
+    const index = t.indexOf(q);
+    if (index !== -1) {
+        const atWordStart = index === 0 || WORD_BOUNDARY.test(t[index - 1]);
+        return 100 + q.length * 4 - index + (atWordStart ? 20 : 0);
+    }
+
+    let score = 0;
+    let ti = 0;
+    let previous = -2;
+    for (const char of q) {
+        while (ti < t.length && t[ti] !== char) ti++;
+        if (ti === t.length) return null;
+
+        score += 1;
+        if (ti === previous + 1) score += 3;
+        if (ti === 0 || WORD_BOUNDARY.test(t[ti - 1])) score += 2;
+        previous = ti;
+        ti++;
+    }
+    return score;
+}
+
+/**
+ * Matching commands, best first (original order when the query is empty)
+ */
+export function rankCommands<T extends SearchableCommand>(commands: T[], query: string): T[] {
+    if (!query.trim()) return commands;
+
+    return commands
+        .map((command, order) => {
+            const scores = [
+                fuzzyScore(query, command.title),
+                ...(command.keywords || []).map(k => fuzzyScore(query, k)),
+            ].filter((s): s is number => s !== null);
+
+            // Descriptions only count for plain substring hits ("sequence" → Diagram)
+            const description = command.description.toLowerCase().includes(query.trim().toLowerCase())
+                ? 50
+                : null;
+            const best = Math.max(...scores, description ?? -1);
+            return { command, order, score: best >= 0 ? best : null };
+        })
+        .filter(entry => entry.score !== null)
+        .sort((a, b) => (b.score! - a.score!) || (a.order - b.order))
+        .map(entry => entry.command);
+}
+
+/**
+ * Canonical form of a shortcut (modifier order, lowercase key)
+ */
+export function normalizeShortcut(shortcut: string): string {
+    const parts = shortcut.split('-').filter(Boolean);
+    const key = parts.pop()?.toLowerCase() || '';
+    const modifiers = new Set(parts.map(p => p.toLowerCase()));
+
+    return [
+        (modifiers.has('mod') || modifiers.has('cmd') || modifiers.has('ctrl')) && 'Mod',
+        modifiers.has('alt') && 'Alt',
+        modifiers.has('shift') && 'Shift',
+        key,
+    ].filter(Boolean).join('-');
+}
+
+interface ShortcutKeyEvent {
+    key: string;
+    code?: string;
+    metaKey: boolean;
+    ctrlKey: boolean;
+    altKey: boolean;
+    shiftKey: boolean;
+}
+
+/**
+ * Shortcut string for a keydown, or null for bare keys and lone modifiers.
+ * Uses the physical key for letters and digits (Option+Q on macOS
+ * produces "œ" as `key`).
+ */
+export function shortcutFromEvent(event: ShortcutKeyEvent, isMac: boolean): string | null {
+    if (['Meta', 'Control', 'Alt', 'Shift'].includes(event.key)) return null;
+
+    const mod = isMac ? event.metaKey : event.ctrlKey;
+    if (!mod && !event.altKey) return null;
+
+    const physical = event.code?.match(/^(?:Key([A-Z])|Digit(\d))$/);
+    const key = physical ? (physical[1] || physical[2]).toLowerCase() : event.key.toLowerCase();
+
+    return normalizeShortcut([
+        mod && 'Mod',
+        event.altKey && 'Alt',
+        event.shiftKey && 'Shift',
+        key,
+    ].filter(Boolean).join('-'));
+}
+
+/**
+ * Human-readable shortcut, e.g. "⌘⌥Q" on macOS or "Ctrl+Alt+Q" elsewhere
+ */
+export function formatShortcut(shortcut: string, isMac: boolean): string {
+    if (!shortcut) return '';
+    const parts = normalizeShortcut(shortcut).split('-');
+    const key = parts.pop()!.toUpperCase();
+
+    const labels = parts.map(p => {
+        if (p === 'Mod') return isMac ? '⌘' : 'Ctrl';
+        if (p === 'Alt') return isMac ? '⌥' : 'Alt';
+        return isMac ? '⇧' : 'Shift';
+    });
+    return isMac ? [...labels, key].join('') : [...labels, key].join('+');
+}
+
+export function isMacPlatform(): boolean {
+    return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+}
+
+/**
+ * Defaults with the author's overrides applied
+ */
+export function resolveShortcuts(overrides: BlockShortcutMap): BlockShortcutMap {
+    const merged: BlockShortcutMap = { ...DEFAULT_BLOCK_SHORTCUTS };
+    for (const [id, shortcut] of Object.entries(overrides)) {
+        merged[id] = shortcut ? normalizeShortcut(shortcut) : '';
+    }
+    return merged;
+}
+
+/**
+ * Assign a shortcut to a command, taking it away from any other command
+ */
+export function assignShortcut(shortcuts: BlockShortcutMap, id: string, shortcut: string): BlockShortcutMap {
+    const normalized = shortcut ? normalizeShortcut(shortcut) : '';
+    const next: BlockShortcutMap = {};
+    for (const [otherId, existing] of Object.entries(shortcuts)) {
+        next[otherId] = normalized && existing === normalized ? '' : existing;
+    }
+    next[id] = normalized;
+    return next;
+}
+
+/**
+ * Reverse lookup: shortcut → command ID
+ */
+export function shortcutLookup(shortcuts: BlockShortcutMap): Record<string, string> {
+    const lookup: Record<string, string> = {};
+    for (const [id, shortcut] of Object.entries(shortcuts)) {
+        if (shortcut) lookup[shortcut] = id;
+    }
+    return lookup;
+}
+
+export function loadBlockShortcuts(): BlockShortcutMap {
+    if (typeof window === 'undefined') return { ...DEFAULT_BLOCK_SHORTCUTS };
+    try {
+        const saved = localStorage.getItem(BLOCK_SHORTCUTS_STORAGE_KEY);
+        return resolveShortcuts(saved ? JSON.parse(saved) : {});
+    } catch {
+        return { ...DEFAULT_BLOCK_SHORTCUTS };
+    }
+}
+
+/**
+ * Persist only what differs from the defaults, so new defaults still apply
+ */
+export function saveBlockShortcuts(shortcuts: BlockShortcutMap): void {
+    if (typeof window === 'undefined') return;
+    const overrides: BlockShortcutMap = {};
+    for (const [id, shortcut] of Object.entries(shortcuts)) {
+        if ((DEFAULT_BLOCK_SHORTCUTS[id] || '') !== shortcut) overrides[id] = shortcut;
+    }
+    localStorage.setItem(BLOCK_SHORTCUTS_STORAGE_KEY, JSON.stringify(overrides));
+}
@@ -0,0 +1,128 @@
+/**
+ * Content Templates & Snippets
+ *
+ * Authors save a selection (snippet) or a whole lesson as a named
+ * template and insert it elsewhere. Plain templates are copied in.
+ * Linked snippets are inserted as a `linkedSnippet` node that keeps the
+ * template ID, version and a cached copy of the content: students see the
+ * cached copy, and it is refreshed when the source template changes.
+ *
+ * Client-safe helpers only - Firestore access lives in
+ * lib/firebase/template-operations.ts.
+ */
+
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+export type TemplateKind = 'snippet' | 'lesson';
+
+export interface ContentTemplate {
+    id: string;
+    name: string;
+    description?: string;
+    kind: TemplateKind;
+    linked: boolean;              // Insert as a linked snippet instead of a copy
+    version: number;
+    content: TiptapNode[];
+    authorId?: string;
+    createdAt: string;            // ISO
+    updatedAt: string;            // ISO
+}
+
+export interface TemplateVersion {
+    version: number;
+    content: TiptapNode[];
+    authorId?: string;
+    createdAt: string;
+}
+
+export const LINKED_SNIPPET_NODE = 'linkedSnippet';
+
+// Keep well below the 1 MiB Firestore document limit
+export const MAX_TEMPLATE_BYTES = 512 * 1024;
+
+/**
+ * Check author-supplied template content; returns an error message or null
+ */
+export function validateTemplateContent(content: unknown): string | null {
+    if (!Array.isArray(content) || content.length === 0) {
+        return 'Template content must be a non-empty list of nodes';
+    }
+    if (content.some(node => !node || typeof node !== 'object' || typeof node.type !== 'string')) {
+        return 'Template content contains invalid nodes';
+    }
+    if (JSON.stringify(content).length > MAX_TEMPLATE_BYTES) {
+        return `Template content exceeds ${MAX_TEMPLATE_BYTES / 1024}KB`;
+    }
+    return null;
+}
+
+/**
+ * Nodes to insert for a template: a linked snippet node or a copy
+ */
+export function templateToInsertContent(template: ContentTemplate): TiptapNode[] {
+    if (!template.linked) return template.content;
+    return [{
+        type: LINKED_SNIPPET_NODE,
+        attrs: {
+            templateId: template.id,
+            name: template.name,
+            version: template.version,
+            content: template.content,
+        },
+    }];
+}
+
+/**
+ * Replace linked snippet nodes with their cached content
+ * (for formats that don't know about links: components, blocks)
+ */
+export function expandLinkedSnippets(nodes: TiptapNode[]): TiptapNode[] {
+    return nodes.flatMap(node => {
+        if (node.type === LINKED_SNIPPET_NODE) {
+            return expandLinkedSnippets((node.attrs?.content as TiptapNode[]) || []);
+        }
+        return node.content ? [{ ...node, content: expandLinkedSnippets(node.content) }] : [node];
+    });
+}
+
+/**
+ * Template IDs of all linked snippets in a node tree
+ */
+export function collectLinkedTemplateIds(nodes: TiptapNode[]): string[] {
+    const ids = new Set<string>();
+    const walk = (list: TiptapNode[]) => {
+        for (const node of list) {
+            if (node.type === LINKED_SNIPPET_NODE && typeof node.attrs?.templateId === 'string') {
+                ids.add(node.attrs.templateId);
+            }
+            if (node.content) walk(node.content);
+        }
+    };
+    walk(nodes);
+    return [...ids];
+}
+
+/**
+ * Point every linked snippet of a template at its latest version
+ */
+export function refreshLinkedSnippets(
+    nodes: TiptapNode[],
+    template: Pick<ContentTemplate, 'id' | 'name' | 'version' | 'content'>
+): { nodes: TiptapNode[]; changed: boolean } {
+    let changed = false;
+
+    const walk = (list: TiptapNode[]): TiptapNode[] => list.map(node => {
+        if (node.type === LINKED_SNIPPET_NODE && node.attrs?.templateId === template.id) {
+            if (((node.attrs.version as number) || 0) >= template.version) return node;
+            changed = true;
+            return {
+                ...node,
+                attrs: { ...node.attrs, name: template.name, version: template.version, content: template.content },
+            };
+        }
+        return node.content ? { ...node, content: walk(node.content) } : node;
+    });
+
+    const result = walk(nodes);
+    return { nodes: changed ? result : nodes, changed };
+}
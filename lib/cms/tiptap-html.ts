@@ -0,0 +1,435 @@
+/**
+ * Tiptap JSON → HTML (student view pipeline)
+ *
+ * Shared by TiptapHtmlRenderer and the offline course export, so both
+ * render lessons the same way. Interactive nodes (quizzes, code blocks)
+ * come out as separate segments for the caller to render. Layout nodes
+ * (callouts, accordions, tabs) also get their own segment so interactive
+ * nodes nested inside them keep working. LaTeX is rendered here with
+ * KaTeX; Mermaid diagrams need the browser and come out as segments.
+ */
+
+import type { CodeFile, ExerciseComponent } from '@/lib/cms/types';
+import { renderMath } from '@/lib/cms/math';
+import { expandLinkedSnippets, LINKED_SNIPPET_NODE } from '@/lib/cms/templates';
+
+export interface TiptapNode {
+  type: string;
+  content?: TiptapNode[];
+  attrs?: Record<string, unknown>;
+  text?: string;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+}
+
+// Language mapping for common aliases and frameworks
+const LANGUAGE_MAP: Record<string, string> = {
+  // Web
+  html: 'markup',
+  htm: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  css: 'css',
+  scss: 'scss',
+  sass: 'sass',
+  less: 'less',
+  js: 'javascript',
+  javascript: 'javascript',
+  jsx: 'jsx',
+  ts: 'typescript',
+  typescript: 'typescript',
+  tsx: 'tsx',
+  json: 'json',
+
+  // React/Frameworks
+  react: 'jsx',
+  reactjs: 'jsx',
+  vue: 'javascript',
+  angular: 'typescript',
+  tailwind: 'css',
+  tailwindcss: 'css',
+
+  // Mobile
+  dart: 'dart',
+  flutter: 'dart',
+  kotlin: 'kotlin',
+  kt: 'kotlin',
+  swift: 'swift',
+  objectivec: 'objectivec',
+  objc: 'objectivec',
+
+  // Backend
+  java: 'java',
+  python: 'python',
+  py: 'python',
+  ruby: 'ruby',
+  rb: 'ruby',
+  php: 'php',
+  go: 'go',
+  golang: 'go',
+  rust: 'rust',
+  rs: 'rust',
+  csharp: 'csharp',
+  cs: 'csharp',
+  c: 'c',
+  cpp: 'cpp',
+  'c++': 'cpp',
+
+  // Shell/Config
+  bash: 'bash',
+  shell: 'bash',
+  sh: 'bash',
+  zsh: 'bash',
+  powershell: 'powershell',
+  ps1: 'powershell',
+  yaml: 'yaml',
+  yml: 'yaml',
+  toml: 'toml',
+  ini: 'ini',
+  dockerfile: 'docker',
+  docker: 'docker',
+
+  // Database
+  sql: 'sql',
+  mysql: 'sql',
+  postgresql: 'sql',
+  graphql: 'graphql',
+  gql: 'graphql',
+
+  // Markup
+  markdown: 'markdown',
+  md: 'markdown',
+  latex: 'latex',
+  tex: 'latex',
+};
+
+// Normalize language string to Prism-compatible format
+export function normalizeLanguage(lang?: string): string {
+  if (!lang) return 'text';
+  const normalized = lang.toLowerCase().trim();
+  return LANGUAGE_MAP[normalized] || normalized;
+}
+
+const LAYOUT_NODES = new Set(['customCallout', 'customAccordion', 'customTabs']);
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Static HTML for layout nodes; the caller renders the nested content
+export function renderLayoutNode(
+  node: TiptapNode,
+  renderChildren: (nodes: TiptapNode[]) => string
+): string {
+  const inner = renderChildren(node.content || []);
+
+  switch (node.type) {
+    case 'customCallout': {
+      const variant = escapeHtml((node.attrs?.variant as string) || 'info');
+      const title = node.attrs?.title as string;
+      return `<div class="callout callout-${variant}" role="note">${title ? `<p class="callout-title">${escapeHtml(title)}</p>` : ''}${inner}</div>`;
+    }
+    case 'customAccordion': {
+      const open = node.attrs?.open ? ' open' : '';
+      return `<details class="accordion"${open}><summary>${escapeHtml((node.attrs?.title as string) || '')}</summary>${inner}</details>`;
+    }
+    case 'customTabs':
+      return `<div class="tabs">${(node.content || [])
+        .map(
+          (panel) =>
+            `<section class="tab-panel"><h4 class="tab-title">${escapeHtml((panel.attrs?.title as string) || '')}</h4>${renderChildren(panel.content || [])}</section>`
+        )
+        .join('')}</div>`;
+    default:
+      return inner;
+  }
+}
+
+// Render non-interactive nodes to HTML
+export function renderNodeToHtml(node: TiptapNode): string {
+  if (!node) return '';
+
+  // Text node with marks
+  if (node.type === 'text') {
+    let text = node.text || '';
+    // Escape HTML entities to prevent XSS and render code properly
+    text = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+
+    // Apply marks (bold, italic, underline, etc.)
+    if (node.marks) {
+      for (const mark of node.marks) {
+        switch (mark.type) {
+          case 'bold':
+            text = `<strong>${text}</strong>`;
+            break;
+          case 'italic':
+            text = `<em>${text}</em>`;
+            break;
+          case 'underline':
+            text = `<u>${text}</u>`;
+            break;
+          case 'strike':
+            text = `<s>${text}</s>`;
+            break;
+          case 'code':
+            // Inline code styling
+            text = `<code class="px-1.5 py-0.5 bg-neutral-100 dark:bg-neutral-800 text-pink-600 dark:text-pink-400 rounded text-sm font-mono">${text}</code>`;
+            break;
+          case 'link':
+            text = `<a href="${mark.attrs?.href || '#'}" target="_blank" class="text-teal-600 dark:text-indigo-400 underline">${text}</a>`;
+            break;
+          case 'textStyle':
+            const styles: string[] = [];
+            const color = mark.attrs?.color as string;
+            const fontSize = mark.attrs?.fontSize as string;
+            const fontFamily = mark.attrs?.fontFamily as string;
+
+            // Skip colors that are clearly dark-mode specific (light grays/whites)
+            // These would be invisible on white backgrounds
+            if (color) {
+              const lowerColor = color.toLowerCase();
+              const isDarkModeColor =
+                lowerColor === '#d4d4d8' || // zinc-300
+                lowerColor === '#e4e4e7' || // zinc-200
+                lowerColor === '#f4f4f5' || // zinc-100
+                lowerColor === '#ffffff' || // white
+                lowerColor === '#fafafa' || // zinc-50
+                lowerColor === '#a1a1aa' || // zinc-400
+                lowerColor.startsWith('rgb(212') || // rgb version of zinc-300
+                lowerColor.startsWith('rgb(244') || // rgb version of zinc-100
+                lowerColor.startsWith('rgb(255'); // white
+
+              // Only apply non-dark-mode colors
+              if (!isDarkModeColor) {
+                styles.push(`color: ${color}`);
+              }
+            }
+            if (fontSize) styles.push(`font-size: ${fontSize}`);
+            if (fontFamily) styles.push(`font-family: ${fontFamily}`);
+            if (styles.length > 0) {
+              text = `<span style="${styles.join('; ')}">${text}</span>`;
+            }
+            break;
+        }
+      }
+    }
+    return text;
+  }
+
+  if (node.type === LINKED_SNIPPET_NODE) {
+    return expandLinkedSnippets([node]).map(renderNodeToHtml).join('');
+  }
+
+  if (LAYOUT_NODES.has(node.type)) {
+    return renderLayoutNode(node, (nodes) => nodes.map(renderNodeToHtml).join(''));
+  }
+
+  const children =
+    node.content?.map((child) => renderNodeToHtml(child)).join('') || '';
+
+  switch (node.type) {
+    case 'doc':
+      return children;
+    case 'paragraph':
+      const align = node.attrs?.textAlign as string;
+      const alignStyle =
+        align && align !== 'left' ? ` style="text-align: ${align}"` : '';
+      // Add margin-bottom for proper paragraph spacing (prose handles this but just in case)
+      return `<p class="mb-4"${alignStyle}>${children || '<br>'}</p>`;
+    case 'heading':
+      const level = node.attrs?.level || 1;
+      // Add proper heading margins
+      return `<h${level} class="mt-6 mb-3">${children}</h${level}>`;
+    case 'bulletList':
+      return `<ul class="list-disc pl-6 space-y-1">${children}</ul>`;
+    case 'orderedList':
+      return `<ol class="list-decimal pl-6 space-y-1">${children}</ol>`;
+    case 'listItem':
+      return `<li>${children}</li>`;
+    case 'blockquote':
+      return `<blockquote class="border-l-4 border-neutral-300 dark:border-neutral-600 pl-4 italic text-neutral-600 dark:text-neutral-300">${children}</blockquote>`;
+    case 'codeBlock':
+      return `<pre class="bg-neutral-100 dark:bg-neutral-800 p-4 rounded-lg overflow-x-auto"><code>${children}</code></pre>`;
+    case 'mathInline':
+      return renderMath((node.attrs?.latex as string) || '');
+    case 'mathBlock':
+      return `<div class="math-block">${renderMath((node.attrs?.latex as string) || '', true)}</div>`;
+    case 'mermaidDiagram':
+      // Diagrams need the browser; callers that can render them use the segment
+      return `<pre class="mermaid">${escapeHtml((node.attrs?.source as string) || '')}</pre>`;
+    case 'horizontalRule':
+      return '<hr class="border-neutral-300 dark:border-neutral-700 my-6">';
+    case 'image':
+    case 'customImage':
+      return `<img src="${node.attrs?.src}" alt="${node.attrs?.alt || ''}" class="max-w-full rounded-lg my-4">`;
+    case 'table':
+      return `<table class="tiptap-table w-full border-collapse my-4">${children}</table>`;
+    case 'tableRow':
+      return `<tr>${children}</tr>`;
+    case 'tableHeader':
+      return `<th class="border border-neutral-300 dark:border-neutral-600 bg-neutral-100 dark:bg-neutral-800 px-3 py-2 text-left font-semibold">${children}</th>`;
+    case 'tableCell':
+      // Constrain images in table cells
+      const cellContent = children.replace(
+        /<img /g,
+        '<img style="max-width: 200px; max-height: 150px; width: auto; height: auto;" '
+      );
+      return `<td class="border border-neutral-300 dark:border-neutral-600 px-3 py-2">${cellContent}</td>`;
+    case 'customYoutube':
+      const videoId = node.attrs?.videoId as string;
+      if (videoId) {
+        return `<div class="relative pt-[56.25%] my-4 rounded-xl overflow-hidden bg-black">
+                    <iframe 
+                        class="absolute inset-0 w-full h-full"
+                        src="https://www.youtube.com/embed/${videoId}?rel=0" 
+                        title="${node.attrs?.title || 'YouTube Video'}"
+                        frameborder="0" 
+                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture" 
+                        allowfullscreen>
+                    </iframe>
+                </div>`;
+      }
+      return '';
+    case 'customVideo':
+      const videoSrc = node.attrs?.src as string;
+      if (videoSrc) {
+        return `<div class="my-4 rounded-xl overflow-hidden bg-black">
+                    <video 
+                        class="w-full max-h-[500px]"
+                        src="${videoSrc}" 
+                        poster="${node.attrs?.poster || ''}"
+                        controls
+                        preload="metadata">
+                        ${node.attrs?.captions ? `<track kind="captions" src="${escapeHtml(node.attrs.captions as string)}" default>` : ''}
+                        Your browser does not support the video tag.
+                    </video>
+                </div>`;
+      }
+      return '';
+    default:
+      return children;
+  }
+}
+
+// Split content into segments: HTML strings, quiz nodes, and code blocks
+export interface ContentSegment {
+  type: 'html' | 'quiz' | 'code' | 'multiFileCode' | 'exercise' | 'layout' | 'diagram';
+  content?: string;
+  quizId?: string;
+  passingScore?: number;
+  timeLimit?: number;
+  language?: string;
+  code?: string;
+  files?: CodeFile[];
+  activeFileId?: string;
+  showLineNumbers?: boolean;
+  runnable?: boolean;
+  exercise?: Omit<ExerciseComponent, 'id' | 'type' | 'margin'>;
+  node?: TiptapNode;  // Layout node; segment its content again to render
+}
+
+// Extract plain text from node (for code blocks)
+export function extractText(node: TiptapNode): string {
+  if (node.type === 'text') return node.text || '';
+  if (!node.content) return '';
+  return node.content.map(extractText).join('');
+}
+
+export function segmentContent(nodes: TiptapNode[]): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  let htmlBuffer = '';
+
+  // Linked snippets render their cached content
+  for (const node of expandLinkedSnippets(nodes)) {
+    if (node.type === 'customQuiz') {
+      // Flush HTML buffer
+      if (htmlBuffer) {
+        segments.push({ type: 'html', content: htmlBuffer });
+        htmlBuffer = '';
+      }
+      // Add quiz segment
+      segments.push({
+        type: 'quiz',
+        quizId: node.attrs?.quizId as string,
+        passingScore: node.attrs?.passingScore as number,
+        timeLimit: node.attrs?.timeLimit as number,
+      });
+    } else if (node.type === 'codeBlock') {
+      // Flush HTML buffer
+      if (htmlBuffer) {
+        segments.push({ type: 'html', content: htmlBuffer });
+        htmlBuffer = '';
+      }
+      // Add code block segment with proper syntax highlighting
+      const code = extractText(node);
+      const language = node.attrs?.language as string;
+      segments.push({
+        type: 'code',
+        code: code,
+        language: normalizeLanguage(language),
+      });
+    } else if (node.type === 'customMultiFileCode') {
+      // Flush HTML buffer
+      if (htmlBuffer) {
+        segments.push({ type: 'html', content: htmlBuffer });
+        htmlBuffer = '';
+      }
+      const files = (node.attrs?.files as CodeFile[]) || [];
+      segments.push({
+        type: 'multiFileCode',
+        files,
+        activeFileId: (node.attrs?.activeFileId as string) || files[0]?.id,
+        showLineNumbers: (node.attrs?.showLineNumbers as boolean) ?? true,
+        runnable: !!node.attrs?.runnable,
+      });
+    } else if (node.type === 'customExercise') {
+      // Flush HTML buffer
+      if (htmlBuffer) {
+        segments.push({ type: 'html', content: htmlBuffer });
+        htmlBuffer = '';
+      }
+      const attrs = node.attrs || {};
+      segments.push({
+        type: 'exercise',
+        exercise: {
+          exerciseId: (attrs.exerciseId as string) || '',
+          title: (attrs.title as string) || '',
+          prompt: (attrs.prompt as string) || '',
+          language: (attrs.language as ExerciseComponent['language']) || 'javascript',
+          starterCode: (attrs.starterCode as string) || '',
+          tests: (attrs.tests as ExerciseComponent['tests']) || [],
+        },
+      });
+    } else if (node.type === 'mermaidDiagram') {
+      // Flush HTML buffer
+      if (htmlBuffer) {
+        segments.push({ type: 'html', content: htmlBuffer });
+        htmlBuffer = '';
+      }
+      segments.push({ type: 'diagram', code: (node.attrs?.source as string) || '' });
+    } else if (LAYOUT_NODES.has(node.type)) {
+      // Flush HTML buffer
+      if (htmlBuffer) {
+        segments.push({ type: 'html', content: htmlBuffer });
+        htmlBuffer = '';
+      }
+      segments.push({ type: 'layout', node });
+    } else {
+      // Accumulate HTML
+      htmlBuffer += renderNodeToHtml(node);
+    }
+  }
+
+  // Flush remaining HTML
+  if (htmlBuffer) {
+    segments.push({ type: 'html', content: htmlBuffer });
+  }
+
+  return segments;
+}
@@ -5,7 +5,13 @@
  * for direct storage without legacy component conversion.
  */
 
-import { BlockCompact, BlockType } from '@/lib/types/course-compact';
+import { BlockCompact, BlockType, AcceptedCompact, QuizCompact, QuizKind } from '@/lib/types/course-compact';
+import type { ExerciseComponent } from '@/lib/cms/types';
+import type { AcceptedAnswer, AnswerMatcher, QuizQuestion, QuizQuestionType } from '@/lib/types';
+import { expandLinkedSnippets } from '@/lib/cms/templates';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+
+type ExerciseFields = Omit<ExerciseComponent, 'id' | 'type' | 'margin'>;
 
 /**
  * Map TipTap node types to BlockCompact types
@@ -31,6 +37,18 @@ function getBlockType(nodeType: string, level?: number): BlockType {
             return 'div';
         case 'quiz':
             return 'quiz';
+        case 'customExercise':
+            return 'ex';
+        case 'customCallout':
+            return 'callout';
+        case 'customAccordion':
+            return 'acc';
+        case 'customTabs':
+            return 'tabs';
+        case 'mathBlock':
+            return 'math';
+        case 'mermaidDiagram':
+            return 'mmd';
         default:
             return 'p';
     }
@@ -38,21 +56,77 @@ function getBlockType(nodeType: string, level?: number): BlockType {
 
 /**
  * Extract plain text from TipTap node
+ *
+ * Inline math is kept as $latex$ with literal dollars escaped as \$, so
+ * textToInline can rebuild it. Code keeps its text as is.
  */
-function extractText(node: any): string {
+function extractText(node: any, escapeDollars = true): string {
     if (!node) return '';
 
     if (typeof node === 'string') return node;
 
-    if (node.text) return node.text;
+    if (node.text) return escapeDollars ? node.text.replace(/\$/g, '\\$') : node.text;
+
+    if (node.type === 'mathInline') return `$${node.attrs?.latex || ''}$`;
 
     if (node.content && Array.isArray(node.content)) {
-        return node.content.map(extractText).join('');
+        return node.content.map((child: TiptapNode) => extractText(child, escapeDollars)).join('');
     }
 
     return '';
 }
 
+/**
+ * Block text → inline TipTap nodes (inverse of extractText)
+ *
+ * $...$ becomes mathInline when it opens before a non-space and closes
+ * after one, not followed by a digit - so older text like "$5 or $10"
+ * stays text.
+ */
+function textToInline(text: string): TiptapNode[] {
+    const nodes: TiptapNode[] = [];
+    let plain = '';
+
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\\' && text[i + 1] === '$') {
+            plain += '$';
+            i++;
+            continue;
+        }
+
+        if (text[i] === '$') {
+            const end = findMathEnd(text, i + 1);
+            if (end !== -1) {
+                if (plain) nodes.push({ type: 'text', text: plain });
+                plain = '';
+                nodes.push({ type: 'mathInline', attrs: { latex: text.slice(i + 1, end) } });
+                i = end;
+                continue;
+            }
+        }
+
+        plain += text[i];
+    }
+
+    if (plain) nodes.push({ type: 'text', text: plain });
+    return nodes;
+}
+
+function findMathEnd(text: string, start: number): number {
+    if (start >= text.length || /\s/.test(text[start])) return -1;
+
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+            continue;
+        }
+        if (text[i] === '$' && i > start && !/\s/.test(text[i - 1]) && !/\d/.test(text[i + 1] || '')) {
+            return i;
+        }
+    }
+    return -1;
+}
+
 /**
  * Convert a single TipTap node to BlockCompact
  */
@@ -60,7 +134,7 @@ export function nodeToBlock(node: any, blockId: string): BlockCompact {
     const block: BlockCompact = {
         id: blockId,
         t: getBlockType(node.type, node.attrs?.level),
-        v: extractText(node),
+        v: extractText(node, node.type !== 'codeBlock'),
     };
 
     // Handle image
@@ -76,16 +150,193 @@ export function nodeToBlock(node: any, blockId: string): BlockCompact {
 
     // Handle quiz
     if (node.type === 'quiz' && node.attrs) {
-        block.quiz = {
-            q: node.attrs.question || '',
-            o: node.attrs.options || [],
-            a: node.attrs.correctIndex ?? 0,
-        };
+        const { question, ...fields } = node.attrs;
+        block.quiz = questionToQuiz({ ...fields, id: blockId, text: question || '' } as QuizQuestion);
     }
 
+    // Handle exercise
+    if (node.type === 'customExercise' && node.attrs) {
+        Object.assign(block, exerciseToBlock(node.attrs, blockId));
+    }
+
+    // Handle math / diagrams - the source is the value
+    if (node.type === 'mathBlock') {
+        block.v = node.attrs?.latex || '';
+    }
+
+    if (node.type === 'mermaidDiagram') {
+        block.v = node.attrs?.source || '';
+    }
+
+    // Handle layout blocks - nested content becomes child blocks
+    if (node.type === 'customCallout') {
+        block.v = node.attrs?.title || '';
+        block.k = node.attrs?.variant || 'info';
+        block.ch = childBlocks(node.content, blockId);
+    }
+
+    if (node.type === 'customAccordion') {
+        block.v = node.attrs?.title || '';
+        if (node.attrs?.open) block.o = 1;
+        block.ch = childBlocks(node.content, blockId);
+    }
+
+    if (node.type === 'customTabs') {
+        block.v = '';
+        block.tabs = (node.content || []).map((panel: any, i: number) => ({
+            t: panel.attrs?.title || '',
+            ch: childBlocks(panel.content, `${blockId}.${i}`),
+        }));
+    }
+
+    return block;
+}
+
+/**
+ * Nested Tiptap content → child blocks with IDs derived from the parent
+ */
+function childBlocks(content: any[] | undefined, parentId: string): BlockCompact[] {
+    return (content || [])
+        .filter(child => !(child.type === 'paragraph' && !extractText(child).trim()))
+        .map((child, i) => nodeToBlock(child, `${parentId}.${i}`));
+}
+
+/**
+ * Exercise fields (Tiptap attrs or ExerciseComponent) → BlockCompact
+ */
+export function exerciseToBlock(exercise: Partial<ExerciseFields>, blockId: string): BlockCompact {
+    const block: BlockCompact = {
+        id: blockId,
+        t: 'ex',
+        v: exercise.starterCode || '',
+        lang: exercise.language || 'javascript',
+        ex: {
+            id: exercise.exerciseId || blockId,
+            t: exercise.title || '',
+            tc: (exercise.tests || []).map(test => ({
+                id: test.id,
+                n: test.name || '',
+                c: test.code || '',
+                ...(test.hidden ? { h: 1 as const } : {}),
+            })),
+        },
+    };
+    if (exercise.prompt) block.ex!.p = exercise.prompt;
     return block;
 }
 
+/**
+ * BlockCompact → exercise fields
+ */
+export function blockToExercise(block: BlockCompact): ExerciseFields {
+    return {
+        exerciseId: block.ex?.id || block.id,
+        title: block.ex?.t || '',
+        prompt: block.ex?.p || '',
+        language: (block.lang as ExerciseFields['language']) || 'javascript',
+        starterCode: block.v,
+        tests: (block.ex?.tc || []).map(test => ({
+            id: test.id,
+            name: test.n,
+            code: test.c,
+            hidden: test.h === 1,
+        })),
+    };
+}
+
+const QUIZ_KINDS: Record<Exclude<QuizQuestionType, 'single'>, QuizKind> = {
+    multi: 'm',
+    true_false: 'tf',
+    short_answer: 'sa',
+    ordering: 'ord',
+    matching: 'mat',
+    fill_blank: 'fb',
+};
+
+const MATCHERS: Record<AnswerMatcher, AcceptedCompact['m']> = {
+    exact: 'x',
+    case_insensitive: 'i',
+    regex: 're',
+    numeric: 'n',
+};
+
+function acceptedToCompact(spec: AcceptedAnswer): AcceptedCompact {
+    return {
+        v: spec.accepted || [],
+        m: MATCHERS[spec.matcher] || 'x',
+        ...(spec.tolerance !== undefined ? { tol: spec.tolerance } : {}),
+    };
+}
+
+function compactToAccepted(spec: AcceptedCompact | undefined): AcceptedAnswer {
+    const matcher = (Object.keys(MATCHERS) as AnswerMatcher[]).find(m => MATCHERS[m] === spec?.m) || 'exact';
+    return {
+        accepted: spec?.v || [],
+        matcher,
+        ...(spec?.tol !== undefined ? { tolerance: spec.tol } : {}),
+    };
+}
+
+/**
+ * Quiz question (any type) → BlockCompact quiz
+ */
+export function questionToQuiz(question: QuizQuestion): QuizCompact {
+    const quiz: QuizCompact = { q: question.text, o: [], a: 0 };
+    switch (question.type) {
+        case undefined:
+        case 'single':
+            quiz.o = question.options || [];
+            quiz.a = question.correctIndex ?? 0;
+            break;
+        case 'multi':
+            quiz.o = question.options || [];
+            quiz.as = question.correctIndexes || [];
+            break;
+        case 'true_false':
+            quiz.a = question.answer ? 1 : 0;
+            break;
+        case 'short_answer':
+            quiz.b = [acceptedToCompact(question)];
+            break;
+        case 'ordering':
+            quiz.o = question.items || [];
+            break;
+        case 'matching':
+            quiz.o = (question.pairs || []).map(p => p.left);
+            quiz.r = (question.pairs || []).map(p => p.right);
+            break;
+        case 'fill_blank':
+            quiz.b = (question.blanks || []).map(acceptedToCompact);
+            break;
+    }
+    if (question.type && question.type !== 'single') quiz.k = QUIZ_KINDS[question.type];
+    if (question.explanation) quiz.e = question.explanation;
+    return quiz;
+}
+
+/**
+ * BlockCompact quiz → quiz question
+ */
+export function quizToQuestion(quiz: QuizCompact, id: string): QuizQuestion {
+    const base = { id, text: quiz.q || '', ...(quiz.e ? { explanation: quiz.e } : {}) };
+    switch (quiz.k) {
+        case 'm':
+            return { ...base, type: 'multi', options: quiz.o || [], correctIndexes: quiz.as || [] };
+        case 'tf':
+            return { ...base, type: 'true_false', answer: quiz.a === 1 };
+        case 'sa':
+            return { ...base, type: 'short_answer', ...compactToAccepted(quiz.b?.[0]) };
+        case 'ord':
+            return { ...base, type: 'ordering', items: quiz.o || [] };
+        case 'mat':
+            return { ...base, type: 'matching', pairs: (quiz.o || []).map((left, i) => ({ left, right: quiz.r?.[i] || '' })) };
+        case 'fb':
+            return { ...base, type: 'fill_blank', blanks: (quiz.b || []).map(compactToAccepted) };
+        default:
+            return { ...base, options: quiz.o || [], correctIndex: quiz.a ?? 0 };
+    }
+}
+
 /**
  * Convert TipTap JSON document to array of BlockCompact
  */
@@ -103,7 +354,8 @@ export function tiptapToBlocks(
 
     let blockCounter = 0;
 
-    for (const node of doc.content) {
+    // Blocks have no link concept - linked snippets are stored as their content
+    for (const node of expandLinkedSnippets(doc.content)) {
         // Skip empty paragraphs
         if (node.type === 'paragraph' && !extractText(node).trim()) {
             continue;
@@ -123,87 +375,126 @@ export function tiptapToBlocks(
 }
 
 /**
- * Convert BlockCompact back to TipTap-compatible JSON
- * (for loading existing content into editor)
+ * Convert a single BlockCompact back to a TipTap node
  */
-export function blocksToTiptap(blocks: BlockCompact[]): any {
-    const content = blocks.map(block => {
-        switch (block.t) {
-            case 'h1':
-                return {
-                    type: 'heading',
-                    attrs: { level: 1 },
-                    content: block.v ? [{ type: 'text', text: block.v }] : [],
-                };
-            case 'h2':
-                return {
-                    type: 'heading',
-                    attrs: { level: 2 },
-                    content: block.v ? [{ type: 'text', text: block.v }] : [],
-                };
-            case 'h3':
-                return {
-                    type: 'heading',
-                    attrs: { level: 3 },
-                    content: block.v ? [{ type: 'text', text: block.v }] : [],
-                };
-            case 'p':
-                return {
+export function blockToNode(block: BlockCompact): any {
+    switch (block.t) {
+        case 'h1':
+            return {
+                type: 'heading',
+                attrs: { level: 1 },
+                content: textToInline(block.v || ''),
+            };
+        case 'h2':
+            return {
+                type: 'heading',
+                attrs: { level: 2 },
+                content: textToInline(block.v || ''),
+            };
+        case 'h3':
+            return {
+                type: 'heading',
+                attrs: { level: 3 },
+                content: textToInline(block.v || ''),
+            };
+        case 'p':
+            return {
+                type: 'paragraph',
+                content: textToInline(block.v || ''),
+            };
+        case 'img':
+            return {
+                type: 'image',
+                attrs: { src: block.src, alt: block.alt || '' },
+            };
+        case 'code':
+            return {
+                type: 'codeBlock',
+                attrs: { language: block.lang || 'plain' },
+                content: block.v ? [{ type: 'text', text: block.v }] : [],
+            };
+        case 'q':
+            return {
+                type: 'blockquote',
+                content: [{
                     type: 'paragraph',
-                    content: block.v ? [{ type: 'text', text: block.v }] : [],
-                };
-            case 'img':
-                return {
-                    type: 'image',
-                    attrs: { src: block.src, alt: block.alt || '' },
-                };
-            case 'code':
-                return {
-                    type: 'codeBlock',
-                    attrs: { language: block.lang || 'plain' },
-                    content: block.v ? [{ type: 'text', text: block.v }] : [],
-                };
-            case 'q':
-                return {
-                    type: 'blockquote',
+                    content: textToInline(block.v || ''),
+                }],
+            };
+        case 'list':
+            return {
+                type: 'bulletList',
+                content: (block.v || '').split('\n').map(item => ({
+                    type: 'listItem',
                     content: [{
                         type: 'paragraph',
-                        content: block.v ? [{ type: 'text', text: block.v }] : [],
+                        content: textToInline(item),
                     }],
-                };
-            case 'list':
-                return {
-                    type: 'bulletList',
-                    content: (block.v || '').split('\n').map(item => ({
-                        type: 'listItem',
-                        content: [{
-                            type: 'paragraph',
-                            content: item ? [{ type: 'text', text: item }] : [],
-                        }],
-                    })),
-                };
-            case 'div':
-                return { type: 'horizontalRule' };
-            case 'quiz':
-                return {
-                    type: 'quiz',
-                    attrs: {
-                        question: block.quiz?.q || '',
-                        options: block.quiz?.o || [],
-                        correctIndex: block.quiz?.a ?? 0,
-                    },
-                };
-            default:
-                return {
-                    type: 'paragraph',
-                    content: block.v ? [{ type: 'text', text: block.v }] : [],
-                };
+                })),
+            };
+        case 'div':
+            return { type: 'horizontalRule' };
+        case 'quiz': {
+            const { text, ...fields } = quizToQuestion(block.quiz || { q: '', o: [], a: 0 }, block.id);
+            return { type: 'quiz', attrs: { question: text, ...fields } };
         }
-    });
+        case 'ex':
+            return {
+                type: 'customExercise',
+                attrs: blockToExercise(block),
+            };
+        case 'math':
+            return {
+                type: 'mathBlock',
+                attrs: { latex: block.v },
+            };
+        case 'mmd':
+            return {
+                type: 'mermaidDiagram',
+                attrs: { source: block.v },
+            };
+        case 'callout':
+            return {
+                type: 'customCallout',
+                attrs: { variant: block.k || 'info', title: block.v },
+                content: childNodes(block.ch),
+            };
+        case 'acc':
+            return {
+                type: 'customAccordion',
+                attrs: { title: block.v, open: block.o === 1 },
+                content: childNodes(block.ch),
+            };
+        case 'tabs':
+            return {
+                type: 'customTabs',
+                content: (block.tabs?.length ? block.tabs : [{ t: 'Tab 1', ch: [] }]).map(tab => ({
+                    type: 'customTabPanel',
+                    attrs: { title: tab.t },
+                    content: childNodes(tab.ch),
+                })),
+            };
+        default:
+            return {
+                type: 'paragraph',
+                content: textToInline(block.v || ''),
+            };
+    }
+}
+
+// Container nodes need at least one block
+function childNodes(blocks: BlockCompact[] | undefined): any[] {
+    return blocks?.length ? blocks.map(blockToNode) : [{ type: 'paragraph' }];
+}
 
+/**
+ * Convert BlockCompact back to TipTap-compatible JSON
+ * (for loading existing content into editor)
+ */
+export function blocksToTiptap(blocks: BlockCompact[]): any {
     return {
         type: 'doc',
-        content,
+        content: blocks.map(blockToNode),
     };
 }
 
@@ -218,5 +509,9 @@ export function blocksDiffer(a: BlockCompact, b: BlockCompact): boolean {
     if (a.lang !== b.lang) return true;
     if (JSON.stringify(a.s) !== JSON.stringify(b.s)) return true;
     if (JSON.stringify(a.quiz) !== JSON.stringify(b.quiz)) return true;
+    if (JSON.stringify(a.ex) !== JSON.stringify(b.ex)) return true;
+    if (a.k !== b.k || a.o !== b.o) return true;
+    if (JSON.stringify(a.ch) !== JSON.stringify(b.ch)) return true;
+    if (JSON.stringify(a.tabs) !== JSON.stringify(b.tabs)) return true;
     return false;
 }
@@ -27,7 +27,13 @@ export type ComponentType =
     | "divider"
     | "spacer"
     | "syllabus"
-    | "table";
+    | "table"
+    | "exercise"
+    | "callout"
+    | "accordion"
+    | "tabs"
+    | "math"
+    | "diagram";
 
 export interface BaseComponent {
     id: string;
@@ -97,6 +103,7 @@ export interface CodeFile {
     filename: string;
     language: string;
     code: string;
+    readOnly?: boolean;    // Students can't edit this file in run mode
 }
 
 // Multi-File Code Component (tabbed code block)
@@ -105,6 +112,7 @@ export interface MultiFileCodeComponent extends BaseComponent {
     files: CodeFile[];
     activeFileId: string;  // Default tab to show
     showLineNumbers?: boolean;
+    runnable?: boolean;    // Show a Run button (JS/TS/Python only)
     theme?: "dark" | "light";
     fontSize?: number;
     margin?: Spacing;
@@ -157,6 +165,75 @@ export interface TableComponent extends BaseComponent {
     margin?: Spacing;
 }
 
+// Exercise test case - runs after the student's code in the sandbox
+export interface ExerciseTestCase {
+    id: string;
+    name: string;
+    code: string;          // Assertions; can use anything the solution defines
+    hidden?: boolean;      // Hidden tests only show pass/fail, not their code
+}
+
+export type ExerciseLanguage = "javascript" | "typescript" | "python";
+
+// Exercise Component (auto-graded coding task)
+export interface ExerciseComponent extends BaseComponent {
+    type: "exercise";
+    exerciseId: string;    // Stable across edits - progress is keyed on it
+    title: string;
+    prompt: string;        // Instructions shown above the editor
+    language: ExerciseLanguage;
+    starterCode: string;
+    tests: ExerciseTestCase[];
+    margin?: Spacing;
+}
+
+// Callout / admonition box with nested content
+export type CalloutVariant = "info" | "warning" | "tip" | "danger";
+
+export interface CalloutComponent extends BaseComponent {
+    type: "callout";
+    variant: CalloutVariant;
+    title?: string;
+    children: Component[];
+    margin?: Spacing;
+}
+
+// Collapsible section with nested content
+export interface AccordionComponent extends BaseComponent {
+    type: "accordion";
+    title: string;
+    defaultOpen?: boolean;
+    children: Component[];
+    margin?: Spacing;
+}
+
+export interface TabPanel {
+    id: string;
+    title: string;
+    children: Component[];
+}
+
+// Tabbed panels, each with nested content
+export interface TabsComponent extends BaseComponent {
+    type: "tabs";
+    tabs: TabPanel[];
+    margin?: Spacing;
+}
+
+// Display (block) LaTeX equation
+export interface MathComponent extends BaseComponent {
+    type: "math";
+    latex: string;
+    margin?: Spacing;
+}
+
+// Mermaid diagram, stored as source so it stays editable
+export interface DiagramComponent extends BaseComponent {
+    type: "diagram";
+    source: string;
+    margin?: Spacing;
+}
+
 // Union type of all components
 export type Component =
     | HeaderComponent
@@ -169,7 +246,13 @@ export type Component =
     | DividerComponent
     | SpacerComponent
     | SyllabusComponent
-    | TableComponent;
+    | TableComponent
+    | ExerciseComponent
+    | CalloutComponent
+    | AccordionComponent
+    | TabsComponent
+    | MathComponent
+    | DiagramComponent;
 
 // Component metadata for registry
 export interface ComponentMeta {
@@ -185,6 +185,7 @@ export const updateProgress = async (
     progress: {
         completedLessons: string[];
         courseProgress: Record<string, number>;
+        exerciseResults?: FirebaseProgress['exerciseResults'];
         totalHours?: number;
         currentStreak?: number;
     }
@@ -0,0 +1,56 @@
+/**
+ * Question Bank Operations - Firestore CRUD for question banks
+ *
+ * question_banks/{bankId}                      Global banks (any course can draw)
+ * courses/{courseId}/question_banks/{bankId}   A course's own banks
+ *
+ * Banks hold answers: server and admin editor only.
+ */
+
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import type { QuestionBank } from '@/lib/types';
+
+function banksCollection(courseId?: string) {
+    const admin = initAdmin();
+    if (!admin) throw new Error('Firebase Admin not initialized');
+    const db = admin.firestore();
+    return courseId
+        ? db.collection('courses').doc(courseId).collection('question_banks')
+        : db.collection('question_banks');
+}
+
+/**
+ * A course's banks, or the global ones without a courseId
+ */
+export async function listQuestionBanks(courseId?: string): Promise<QuestionBank[]> {
+    const snapshot = await banksCollection(courseId).get();
+    return snapshot.docs
+        .map(doc => ({ ...(doc.data() as QuestionBank), id: doc.id }))
+        .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export async function getQuestionBank(bankId: string, courseId?: string): Promise<QuestionBank | null> {
+    const doc = await banksCollection(courseId).doc(bankId).get();
+    return doc.exists ? { ...(doc.data() as QuestionBank), id: doc.id } : null;
+}
+
+/**
+ * Create or replace a bank (course bank when bank.courseId is set)
+ */
+export async function saveQuestionBank(bank: QuestionBank): Promise<QuestionBank> {
+    // Firestore rejects undefined fields
+    const saved: QuestionBank = JSON.parse(JSON.stringify({ ...bank, updatedAt: new Date().toISOString() }));
+    await banksCollection(bank.courseId).doc(bank.id).set(saved);
+    console.log(`🗃️ [QuestionBank] Saved ${bank.courseId || 'global'}/${bank.id} (${bank.questions.length} questions)`);
+    return saved;
+}
+
+export async function deleteQuestionBank(bankId: string, courseId?: string): Promise<boolean> {
+    const ref = banksCollection(courseId).doc(bankId);
+    const doc = await ref.get();
+    if (!doc.exists) return false;
+
+    await ref.delete();
+    console.log(`🗑️ [QuestionBank] Deleted ${courseId || 'global'}/${bankId}`);
+    return true;
+}
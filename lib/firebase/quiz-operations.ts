@@ -0,0 +1,96 @@
+/**
+ * Quiz Operations - Firestore CRUD for quizzes and their attempts
+ *
+ * courses/{courseId}/quizzes/{quizId}         Quiz (with answers, server only)
+ * courses/{courseId}/quiz_attempts/{attemptId}
+ */
+
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import type { Quiz } from '@/lib/types';
+import type { QuizAttempt } from '@/lib/cms/quiz';
+
+function courseRef(courseId: string) {
+    const admin = initAdmin();
+    if (!admin) throw new Error('Firebase Admin not initialized');
+    return admin.firestore().collection('courses').doc(courseId);
+}
+
+function quizzesCollection(courseId: string) {
+    return courseRef(courseId).collection('quizzes');
+}
+
+function attemptsCollection(courseId: string) {
+    return courseRef(courseId).collection('quiz_attempts');
+}
+
+export async function getQuiz(courseId: string, quizId: string): Promise<Quiz | null> {
+    const doc = await quizzesCollection(courseId).doc(quizId).get();
+    return doc.exists ? { ...(doc.data() as Quiz), id: doc.id } : null;
+}
+
+export async function listQuizzes(courseId: string): Promise<Quiz[]> {
+    const snapshot = await quizzesCollection(courseId).get();
+    return snapshot.docs.map(doc => ({ ...(doc.data() as Quiz), id: doc.id }));
+}
+
+/**
+ * Create or replace a quiz
+ */
+export async function saveQuiz(courseId: string, quiz: Quiz): Promise<void> {
+    // Firestore rejects undefined fields
+    const data = JSON.parse(JSON.stringify(quiz));
+    await quizzesCollection(courseId).doc(quiz.id).set({ ...data, updatedAt: new Date().toISOString() });
+    console.log(`📝 [Quiz] Saved ${courseId}/${quiz.id} (${quiz.questions.length} questions)`);
+}
+
+/**
+ * Attempts at a quiz, newest first (one student's when userId is given)
+ */
+export async function listQuizAttempts(courseId: string, quizId: string, userId?: string): Promise<QuizAttempt[]> {
+    let query = attemptsCollection(courseId).where('quizId', '==', quizId);
+    if (userId) query = query.where('userId', '==', userId);
+
+    const snapshot = await query.get();
+    return snapshot.docs
+        .map(doc => ({ ...(doc.data() as QuizAttempt), id: doc.id }))
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Create an attempt. Returns false if the ID is taken.
+ */
+export async function createQuizAttempt(attempt: QuizAttempt): Promise<boolean> {
+    try {
+        await attemptsCollection(attempt.courseId).doc(attempt.id).create(JSON.parse(JSON.stringify(attempt)));
+        return true;
+    } catch (error) {
+        if ((error as { code?: number })?.code === 6) return false; // ALREADY_EXISTS
+        throw error;
+    }
+}
+
+/**
+ * Close an in-progress attempt with the update built from it.
+ * Returns null if the attempt doesn't exist, belongs to someone else
+ * or was already closed (double submit).
+ */
+export async function completeQuizAttempt(
+    courseId: string,
+    attemptId: string,
+    userId: string,
+    complete: (attempt: QuizAttempt) => Partial<QuizAttempt>
+): Promise<QuizAttempt | null> {
+    const ref = attemptsCollection(courseId).doc(attemptId);
+
+    return ref.firestore.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        if (!doc.exists) return null;
+
+        const attempt = { ...(doc.data() as QuizAttempt), id: doc.id };
+        if (attempt.userId !== userId || attempt.status !== 'in_progress') return null;
+
+        const update = JSON.parse(JSON.stringify(complete(attempt)));
+        tx.update(ref, update);
+        return { ...attempt, ...update };
+    });
+}
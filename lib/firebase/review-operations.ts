@@ -0,0 +1,128 @@
+/**
+ * Review Thread Operations - Firestore CRUD for inline review comments
+ *
+ * courses/{courseId}/review_threads/{threadId}
+ *
+ * The thread ID is generated by the editor, which anchors it in the lesson
+ * content with a `comment` mark before the thread is saved here.
+ */
+
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { ReviewComment, ReviewThread } from '@/lib/cms/review';
+
+export interface ThreadAuthor {
+    id: string;
+    name: string;
+}
+
+export interface ThreadInput {
+    id: string;
+    lessonId: string;
+    quote: string;
+    body: string;
+}
+
+function threadsCollection(courseId: string) {
+    const admin = initAdmin();
+    if (!admin) throw new Error('Firebase Admin not initialized');
+    return admin.firestore().collection('courses').doc(courseId).collection('review_threads');
+}
+
+function newComment(author: ThreadAuthor, body: string): ReviewComment {
+    const createdAt = new Date().toISOString();
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        authorId: author.id,
+        authorName: author.name,
+        body,
+        createdAt,
+    };
+}
+
+/**
+ * All threads of a course, oldest first
+ */
+export async function listReviewThreads(courseId: string): Promise<ReviewThread[]> {
+    const snapshot = await threadsCollection(courseId).orderBy('createdAt', 'asc').get();
+    return snapshot.docs.map(doc => ({ ...(doc.data() as ReviewThread), id: doc.id }));
+}
+
+export async function getReviewThread(courseId: string, threadId: string): Promise<ReviewThread | null> {
+    const doc = await threadsCollection(courseId).doc(threadId).get();
+    return doc.exists ? { ...(doc.data() as ReviewThread), id: doc.id } : null;
+}
+
+/**
+ * Open a thread with its first comment. Returns null if the ID is taken.
+ */
+export async function createReviewThread(
+    courseId: string,
+    input: ThreadInput,
+    author: ThreadAuthor
+): Promise<ReviewThread | null> {
+    const ref = threadsCollection(courseId).doc(input.id);
+    const thread: ReviewThread = {
+        id: input.id,
+        lessonId: input.lessonId,
+        quote: input.quote,
+        comments: [newComment(author, input.body)],
+        resolved: false,
+        createdBy: author.id,
+        createdAt: new Date().toISOString(),
+    };
+
+    try {
+        await ref.create(thread);
+    } catch (error: any) {
+        if (error?.code === 6) return null; // ALREADY_EXISTS
+        throw error;
+    }
+
+    console.log(`💬 [Review] Thread ${input.id} opened on ${courseId}/${input.lessonId}`);
+    return thread;
+}
+
+/**
+ * Add a reply; replying reopens a resolved thread
+ */
+export async function replyToThread(
+    courseId: string,
+    threadId: string,
+    body: string,
+    author: ThreadAuthor
+): Promise<ReviewThread | null> {
+    const ref = threadsCollection(courseId).doc(threadId);
+    if (!(await ref.get()).exists) return null;
+
+    await ref.update({
+        comments: FieldValue.arrayUnion(newComment(author, body)),
+        resolved: false,
+        resolvedBy: FieldValue.delete(),
+        resolvedAt: FieldValue.delete(),
+    });
+    return getReviewThread(courseId, threadId);
+}
+
+export async function setThreadResolved(
+    courseId: string,
+    threadId: string,
+    resolved: boolean,
+    userId: string
+): Promise<ReviewThread | null> {
+    const ref = threadsCollection(courseId).doc(threadId);
+    if (!(await ref.get()).exists) return null;
+
+    await ref.update(resolved
+        ? { resolved: true, resolvedBy: userId, resolvedAt: new Date().toISOString() }
+        : { resolved: false, resolvedBy: FieldValue.delete(), resolvedAt: FieldValue.delete() });
+    return getReviewThread(courseId, threadId);
+}
+
+export async function deleteReviewThread(courseId: string, threadId: string): Promise<boolean> {
+    const ref = threadsCollection(courseId).doc(threadId);
+    if (!(await ref.get()).exists) return false;
+    await ref.delete();
+    console.log(`🗑️ [Review] Thread ${threadId} deleted from ${courseId}`);
+    return true;
+}
@@ -0,0 +1,202 @@
+/**
+ * Template Operations - Firestore CRUD for the content template library
+ *
+ * content_templates/{id}            current version (content as JSON string,
+ *                                   Firestore can't hold nested arrays)
+ * content_templates/{id}/versions/  one document per saved version
+ *
+ * `usedIn` lists course IDs whose saved drafts contain linked snippets of
+ * the template, so an update knows which courses to refresh.
+ */
+
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Course } from '@/lib/types';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+import {
+    collectLinkedTemplateIds,
+    type ContentTemplate,
+    type TemplateKind,
+    type TemplateVersion,
+} from '@/lib/cms/templates';
+
+const COLLECTION = 'content_templates';
+
+export interface TemplateInput {
+    name: string;
+    description?: string;
+    kind: TemplateKind;
+    linked: boolean;
+    content: TiptapNode[];
+}
+
+export type TemplateUpdate = Partial<Pick<TemplateInput, 'name' | 'description' | 'content'>>;
+
+interface TemplateDoc extends Omit<ContentTemplate, 'id' | 'content'> {
+    contentJson: string;
+    usedIn?: string[];
+}
+
+function templatesCollection() {
+    const admin = initAdmin();
+    if (!admin) throw new Error('Firebase Admin not initialized');
+    return admin.firestore().collection(COLLECTION);
+}
+
+function fromDoc(id: string, data: TemplateDoc): ContentTemplate {
+    const { contentJson, ...rest } = data;
+    delete rest.usedIn;
+    return { id, ...rest, content: JSON.parse(contentJson || '[]') };
+}
+
+/**
+ * All templates, most recently updated first
+ */
+export async function listTemplates(): Promise<ContentTemplate[]> {
+    const snapshot = await templatesCollection().orderBy('updatedAt', 'desc').get();
+    return snapshot.docs.map(doc => fromDoc(doc.id, doc.data() as TemplateDoc));
+}
+
+export async function getTemplate(id: string): Promise<ContentTemplate | null> {
+    const doc = await templatesCollection().doc(id).get();
+    return doc.exists ? fromDoc(doc.id, doc.data() as TemplateDoc) : null;
+}
+
+/**
+ * Create a template at version 1
+ */
+export async function createTemplate(input: TemplateInput, authorId: string): Promise<ContentTemplate> {
+    const now = new Date().toISOString();
+    const data: TemplateDoc = {
+        name: input.name,
+        kind: input.kind,
+        linked: input.linked,
+        version: 1,
+        contentJson: JSON.stringify(input.content),
+        authorId,
+        createdAt: now,
+        updatedAt: now,
+        usedIn: [],
+        ...(input.description ? { description: input.description } : {}),
+    };
+
+    const ref = await templatesCollection().add(data);
+    await ref.collection('versions').doc('1').set({
+        version: 1,
+        contentJson: data.contentJson,
+        authorId,
+        createdAt: now,
+    });
+
+    console.log(`🧩 [Templates] Created "${input.name}" → ${ref.id}`);
+    return fromDoc(ref.id, data);
+}
+
+/**
+ * Update a template. New content becomes a new version; name and
+ * description changes alone don't bump it.
+ */
+export async function updateTemplate(
+    id: string,
+    updates: TemplateUpdate,
+    authorId: string
+): Promise<ContentTemplate | null> {
+    const ref = templatesCollection().doc(id);
+    const db = ref.firestore;
+
+    const result = await db.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        if (!doc.exists) return null;
+
+        const current = doc.data() as TemplateDoc;
+        const now = new Date().toISOString();
+        const contentJson = updates.content ? JSON.stringify(updates.content) : current.contentJson;
+        const contentChanged = contentJson !== current.contentJson;
+        const version = contentChanged ? current.version + 1 : current.version;
+
+        const next: TemplateDoc = {
+            ...current,
+            ...(updates.name ? { name: updates.name } : {}),
+            ...(updates.description !== undefined ? { description: updates.description } : {}),
+            contentJson,
+            version,
+            updatedAt: now,
+        };
+
+        tx.set(ref, next);
+        if (contentChanged) {
+            tx.set(ref.collection('versions').doc(String(version)), {
+                version,
+                contentJson,
+                authorId,
+                createdAt: now,
+            });
+        }
+        return { template: fromDoc(id, next), contentChanged };
+    });
+
+    if (result?.contentChanged) {
+        console.log(`🧩 [Templates] ${id} → v${result.template.version}`);
+    }
+    return result?.template || null;
+}
+
+export async function deleteTemplate(id: string): Promise<boolean> {
+    const ref = templatesCollection().doc(id);
+    const doc = await ref.get();
+    if (!doc.exists) return false;
+
+    const versions = await ref.collection('versions').get();
+    const batch = ref.firestore.batch();
+    versions.docs.forEach(v => batch.delete(v.ref));
+    batch.delete(ref);
+    await batch.commit();
+
+    console.log(`🗑️ [Templates] Deleted ${id}`);
+    return true;
+}
+
+/**
+ * Saved versions, newest first
+ */
+export async function listTemplateVersions(id: string): Promise<TemplateVersion[]> {
+    const snapshot = await templatesCollection().doc(id)
+        .collection('versions')
+        .orderBy('version', 'desc')
+        .get();
+
+    return snapshot.docs.map(doc => {
+        const { contentJson, ...rest } = doc.data() as Omit<TemplateVersion, 'content'> & { contentJson: string };
+        return { ...rest, content: JSON.parse(contentJson || '[]') };
+    });
+}
+
+/**
+ * Course IDs that have used linked snippets of this template
+ */
+export async function getTemplateUsage(id: string): Promise<string[]> {
+    const doc = await templatesCollection().doc(id).get();
+    return doc.exists ? (doc.data() as TemplateDoc).usedIn || [] : [];
+}
+
+/**
+ * Remember which linked templates a saved course uses (best effort)
+ */
+export async function recordTemplateUsage(courseId: string, course: Course): Promise<void> {
+    try {
+        const nodes = (course.lessons || []).flatMap(lesson =>
+            ((lesson.tiptapJson as { content?: TiptapNode[] } | undefined)?.content) || []
+        );
+        const ids = collectLinkedTemplateIds(nodes);
+        if (ids.length === 0) return;
+
+        const collection = templatesCollection();
+        await Promise.all(ids.map(id =>
+            collection.doc(id).update({ usedIn: FieldValue.arrayUnion(courseId) }).catch(() => {
+                // Template deleted - the cached copy keeps working
+            })
+        ));
+    } catch (error) {
+        console.warn(`⚠️ [Templates] Could not record usage for ${courseId}:`, error instanceof Error ? error.message : error);
+    }
+}
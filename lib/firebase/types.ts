@@ -33,10 +33,20 @@ export interface FirebaseUser {
     updatedAt: Timestamp;
 }
 
+// Best result for one exercise block, kept per lesson
+export interface ExerciseProgress {
+    passed: number;
+    total: number;
+    attempts: number;
+    lastAttemptAt: string;
+    completedAt?: string;    // First time every test passed
+}
+
 export interface FirebaseProgress {
     userId: string;
     completedLessons: string[];
     courseProgress: Record<string, number>;
+    exerciseResults?: Record<string, Record<string, ExerciseProgress>>; // lessonId -> exerciseId -> result
     totalHours: number;
     currentStreak: number;
     lastActivity: Timestamp;
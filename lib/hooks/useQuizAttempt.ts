@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { authenticatedFetch } from '@/lib/api/authenticated-fetch';
+import type { QuizAnswer, QuizAnswers, QuizAttempt, StudentQuiz } from '@/lib/cms/quiz';
+
+/**
+ * One quiz attempt, graded on the server (/api/quiz/[courseId]/[quizId]/attempts).
+ * Tracks the answers, the time spent on each question and the server deadline;
+ * a timed attempt is submitted automatically when the time runs out.
+ */
+export function useQuizAttempt(courseId: string, quizId: string) {
+    const [quiz, setQuiz] = useState<StudentQuiz | null>(null);
+    const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+    const [result, setResult] = useState<QuizAttempt | null>(null);
+    const [answers, setAnswers] = useState<QuizAnswers>({});
+    const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
+    const [timeRemaining, setTimeRemaining] = useState<number | null>(null); // Seconds
+    const [error, setError] = useState<{ message: string; code?: string } | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Time per question: seconds so far, and the question on screen since when
+    const timingsRef = useRef<Record<string, number>>({});
+    const currentRef = useRef<{ questionId: string; since: number } | null>(null);
+    const answersRef = useRef<QuizAnswers>({});
+    const submittingRef = useRef(false);
+
+    const post = async (body: object) => {
+        const res = await authenticatedFetch(`/api/quiz/${courseId}/${quizId}/attempts`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        if (!res.ok) throw Object.assign(new Error(data.error || 'Quiz request failed'), { code: data.code });
+        return data;
+    };
+
+    const flushTiming = () => {
+        const current = currentRef.current;
+        if (!current) return;
+        const now = Date.now();
+        timingsRef.current[current.questionId] = (timingsRef.current[current.questionId] || 0) + (now - current.since) / 1000;
+        current.since = now;
+    };
+
+    const start = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const data = await post({});
+            setQuiz(data.quiz);
+            setAttempt(data.attempt);
+            setAttemptsRemaining(data.attemptsRemaining);
+            setResult(null);
+            setAnswers({});
+            answersRef.current = {};
+            timingsRef.current = {};
+            currentRef.current = null;
+        } catch (err) {
+            setError({ message: (err as Error).message, code: (err as { code?: string }).code });
+        } finally {
+            setIsLoading(false);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [courseId, quizId]);
+
+    const submit = useCallback(async () => {
+        if (!attempt || submittingRef.current) return;
+        flushTiming();
+        submittingRef.current = true;
+        setIsSubmitting(true);
+        try {
+            const data = await post({ attemptId: attempt.id, answers: answersRef.current, timings: timingsRef.current });
+            setResult(data.attempt);
+            setAttemptsRemaining(data.attemptsRemaining);
+            setAttempt(null);
+            currentRef.current = null;
+        } catch (err) {
+            setError({ message: (err as Error).message, code: (err as { code?: string }).code });
+        } finally {
+            submittingRef.current = false;
+            setIsSubmitting(false);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [attempt, courseId, quizId]);
+
+    const selectAnswer = (questionId: string, answer: QuizAnswer | null) => {
+        if (!attempt) return;
+        answersRef.current = { ...answersRef.current, [questionId]: answer };
+        setAnswers(answersRef.current);
+    };
+
+    // Call whenever a different question is shown
+    const showQuestion = useCallback((questionId: string) => {
+        flushTiming();
+        currentRef.current = { questionId, since: Date.now() };
+    }, []);
+
+    // Countdown to the server deadline; submit when it's reached
+    useEffect(() => {
+        if (!attempt?.deadline) {
+            setTimeRemaining(null);
+            return;
+        }
+        const deadline = new Date(attempt.deadline).getTime();
+        const tick = () => {
+            const left = Math.max(0, Math.round((deadline - Date.now()) / 1000));
+            setTimeRemaining(left);
+            if (left === 0) {
+                clearInterval(interval);
+                submit();
+            }
+        };
+        const interval = setInterval(tick, 1000);
+        tick();
+        return () => clearInterval(interval);
+    }, [attempt, submit]);
+
+    return {
+        quiz,
+        attempt,
+        result,
+        answers,
+        attemptsRemaining,
+        timeRemaining,
+        error,
+        isLoading,
+        isSubmitting,
+        start,
+        submit,
+        selectAnswer,
+        showQuestion,
+    };
+}
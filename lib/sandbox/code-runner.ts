@@ -0,0 +1,526 @@
+/**
+ * In-browser Code Runner
+ *
+ * Runs the files of a multi-file code block and collects their output.
+ *
+ * - JS/TS: TypeScript and ES modules are compiled with sucrase, then run in
+ *   a Worker spawned inside a sandboxed iframe. The iframe has an opaque
+ *   origin (no cookies/storage) and a CSP that blocks all network access.
+ *   Files can require() each other with relative paths.
+ * - Python: Pyodide, served from /pyodide (copied out of node_modules on
+ *   install), in a Worker inside its own sandboxed iframe like the JS one.
+ *   The iframe's CSP only lets the runtime load from /pyodide, network
+ *   globals are removed once it has loaded, and all block files are written
+ *   to the virtual filesystem so they can be imported or opened.
+ *
+ * A run that exceeds its timeout is killed by tearing down its sandbox
+ * iframe, so infinite loops never block the page.
+ */
+
+import type { CodeFile } from '@/lib/cms/types';
+
+export type RunLanguage = 'javascript' | 'typescript' | 'python';
+
+export interface RunOutputLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+export interface RunResult {
+  output: RunOutputLine[];
+  error: string | null;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+export interface RunOptions {
+  timeoutMs?: number;
+}
+
+export const DEFAULT_RUN_TIMEOUT_MS = 5000;
+// The first Python run also downloads and boots the interpreter
+const PYTHON_LOAD_TIMEOUT_MS = 60000;
+const MAX_OUTPUT_LINES = 1000;
+
+const RUNNABLE_EXTENSIONS: Record<string, RunLanguage> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  py: 'python',
+};
+
+const ENTRY_NAMES = /^(main|index|app|__main__)\.\w+$/i;
+
+export function getRunLanguage(filename: string): RunLanguage | null {
+  const ext = filename.split('.').pop()?.toLowerCase() || '';
+  return RUNNABLE_EXTENSIONS[ext] || null;
+}
+
+/**
+ * The file a run starts from: the active tab if it can run, otherwise
+ * main.* / index.*, otherwise the first runnable file.
+ */
+export function pickEntryFile(
+  files: CodeFile[],
+  activeFileId?: string
+): CodeFile | null {
+  const runnable = files.filter((f) => getRunLanguage(f.filename));
+  if (runnable.length === 0) return null;
+  return (
+    runnable.find((f) => f.id === activeFileId) ||
+    runnable.find((f) => ENTRY_NAMES.test(f.filename)) ||
+    runnable[0]
+  );
+}
+
+/**
+ * Run a block's files starting from `entryId` (see pickEntryFile).
+ */
+export async function runCode(
+  files: CodeFile[],
+  entryId?: string,
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const entry = pickEntryFile(files, entryId);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_RUN_TIMEOUT_MS;
+
+  if (!entry) {
+    return {
+      output: [],
+      error: 'Only JavaScript, TypeScript and Python files can be run.',
+      timedOut: false,
+      durationMs: 0,
+    };
+  }
+
+  if (getRunLanguage(entry.filename) === 'python') {
+    return runPython(files, entry, timeoutMs);
+  }
+  return runJavaScript(files, entry, timeoutMs);
+}
+
+// ============================================
+// Shared run bookkeeping
+// ============================================
+
+type SandboxMessage =
+  | { type: 'stdout' | 'stderr'; text: string }
+  | { type: 'ready' }
+  | { type: 'done' }
+  | { type: 'error'; text: string; fatal?: boolean };
+
+/**
+ * Collects messages from a sandbox until it reports done/error or the
+ * timeout fires. `kill` tears the sandbox down on timeout.
+ */
+function createRun(timeoutMs: number, kill: () => void) {
+  const started = Date.now();
+  const output: RunOutputLine[] = [];
+  let resolveRun: (result: RunResult) => void;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let finished = false;
+
+  const promise = new Promise<RunResult>((resolve) => {
+    resolveRun = resolve;
+  });
+
+  const finish = (error: string | null, timedOut = false) => {
+    if (finished) return;
+    finished = true;
+    if (timer) clearTimeout(timer);
+    resolveRun({ output, error, timedOut, durationMs: Date.now() - started });
+  };
+
+  const startTimer = (ms: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      kill();
+      finish(`Timed out after ${ms / 1000}s`, true);
+    }, ms);
+  };
+
+  const handle = (message: SandboxMessage) => {
+    if (finished) return;
+    switch (message.type) {
+      case 'stdout':
+      case 'stderr':
+        if (output.length < MAX_OUTPUT_LINES) {
+          output.push({ stream: message.type, text: message.text });
+        } else if (output.length === MAX_OUTPUT_LINES) {
+          output.push({ stream: 'stderr', text: '… output truncated' });
+        }
+        break;
+      case 'ready':
+        // Interpreter is loaded - the user's code gets the normal timeout
+        startTimer(timeoutMs);
+        break;
+      case 'done':
+        finish(null);
+        break;
+      case 'error':
+        finish(message.text);
+        break;
+    }
+  };
+
+  return { promise, handle, finish, startTimer };
+}
+
+// ============================================
+// JavaScript / TypeScript
+// ============================================
+
+// Runs inside the sandbox worker. Provides console capture, a small
+// CommonJS loader and waits for pending timers before reporting done.
+const JS_WORKER_SOURCE = `
+const send = (message) => postMessage(message);
+const inspect = (value) => {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || String(value);
+  if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+  if (value === undefined) return 'undefined';
+  try { return JSON.stringify(value, null, 2) ?? String(value); } catch { return String(value); }
+};
+const format = (args) => args.map(inspect).join(' ');
+console.log = console.info = console.debug = (...args) => send({ type: 'stdout', text: format(args) });
+console.error = console.warn = (...args) => send({ type: 'stderr', text: format(args) });
+
+let pendingTimers = 0;
+const nativeSetTimeout = setTimeout;
+const nativeClearTimeout = clearTimeout;
+const activeTimers = new Set();
+self.setTimeout = (fn, ms, ...args) => {
+  const id = nativeSetTimeout(() => {
+    activeTimers.delete(id);
+    pendingTimers--;
+    if (typeof fn === 'function') fn(...args);
+    settle();
+  }, ms);
+  activeTimers.add(id);
+  pendingTimers++;
+  return id;
+};
+self.clearTimeout = (id) => {
+  if (activeTimers.delete(id)) pendingTimers--;
+  nativeClearTimeout(id);
+  settle();
+};
+
+let finished = false;
+const fail = (error) => {
+  if (finished) return;
+  finished = true;
+  send({ type: 'error', text: error && error.stack ? error.stack : String(error) });
+};
+const settle = () => {
+  nativeSetTimeout(() => {
+    if (!finished && pendingTimers === 0) {
+      finished = true;
+      send({ type: 'done' });
+    }
+  }, 0);
+};
+self.addEventListener('unhandledrejection', (event) => fail(event.reason));
+
+const normalize = (path) => {
+  const parts = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop(); else parts.push(part);
+  }
+  return parts.join('/');
+};
+
+self.onmessage = (event) => {
+  const { modules, entry } = event.data;
+  const cache = {};
+  const resolve = (from, request) => {
+    const base = from.includes('/') ? from.slice(0, from.lastIndexOf('/') + 1) : '';
+    const path = normalize(request.startsWith('.') ? base + request : request);
+    const candidates = [path, path + '.js', path + '.ts', path + '.mjs', path + '.json', path + '/index.js', path + '/index.ts'];
+    const found = candidates.find((candidate) => candidate in modules);
+    if (!found) throw new Error("Cannot find module '" + request + "' from '" + from + "'");
+    return found;
+  };
+  const load = (name) => {
+    if (cache[name]) return cache[name].exports;
+    const module = { exports: {} };
+    cache[name] = module;
+    if (name.endsWith('.json')) {
+      module.exports = JSON.parse(modules[name]);
+      return module.exports;
+    }
+    const fn = new Function('require', 'module', 'exports', modules[name] + '\\n//# sourceURL=' + name);
+    fn((request) => load(resolve(name, request)), module, module.exports);
+    return module.exports;
+  };
+  try {
+    load(entry);
+    settle();
+  } catch (error) {
+    fail(error);
+  }
+};
+`;
+
+const SANDBOX_CSP =
+  "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+// The iframe only relays between the parent and the worker
+const SANDBOX_DOCUMENT = `<!DOCTYPE html>
+<html><head><meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}"></head>
+<body><script>
+const workerSource = ${JSON.stringify(JS_WORKER_SOURCE)};
+addEventListener('message', (event) => {
+  const port = event.ports[0];
+  if (!port) return;
+  let worker;
+  try {
+    worker = new Worker(URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })));
+  } catch (error) {
+    port.postMessage({ type: 'error', text: 'Could not start the sandbox: ' + error.message });
+    return;
+  }
+  worker.onmessage = (message) => port.postMessage(message.data);
+  worker.onerror = (error) => {
+    error.preventDefault();
+    port.postMessage({ type: 'error', text: error.message });
+  };
+  worker.postMessage(event.data);
+});
+</script></body></html>`;
+
+async function compileModules(
+  files: CodeFile[]
+): Promise<{ modules: Record<string, string> } | { error: string }> {
+  const { transform } = await import('sucrase');
+  const modules: Record<string, string> = {};
+
+  for (const file of files) {
+    const name = file.filename.replace(/^\.?\//, '');
+    const language = getRunLanguage(name);
+    if (!language || language === 'python') {
+      // Other files (JSON, text) are still require()-able
+      modules[name] = file.code;
+      continue;
+    }
+    try {
+      modules[name] = transform(file.code, {
+        transforms:
+          language === 'typescript' ? ['typescript', 'imports'] : ['imports'],
+        filePath: name,
+      }).code;
+    } catch (error) {
+      return {
+        error: `${name}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  return { modules };
+}
+
+async function runJavaScript(
+  files: CodeFile[],
+  entry: CodeFile,
+  timeoutMs: number
+): Promise<RunResult> {
+  const compiled = await compileModules(files);
+  if ('error' in compiled) {
+    return { output: [], error: compiled.error, timedOut: false, durationMs: 0 };
+  }
+
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.style.display = 'none';
+  iframe.srcdoc = SANDBOX_DOCUMENT;
+
+  const channel = new MessageChannel();
+  const run = createRun(timeoutMs, () => iframe.remove());
+  channel.port1.onmessage = (event) => run.handle(event.data);
+
+  iframe.onload = () => {
+    iframe.contentWindow?.postMessage(
+      { modules: compiled.modules, entry: entry.filename.replace(/^\.?\//, '') },
+      '*',
+      [channel.port2]
+    );
+  };
+
+  run.startTimer(timeoutMs);
+  document.body.appendChild(iframe);
+
+  const result = await run.promise;
+  channel.port1.close();
+  iframe.remove();
+  return result;
+}
+
+// ============================================
+// Python (Pyodide)
+// ============================================
+
+// Module worker, hosted by the sandbox iframe; kept warm between runs so
+// Pyodide only boots once
+const PYTHON_WORKER_SOURCE = `
+const send = (message) => postMessage(message);
+let pyodidePromise = null;
+
+async function boot(indexURL) {
+  const { loadPyodide } = await import(indexURL + 'pyodide.mjs');
+  const pyodide = await loadPyodide({
+    indexURL,
+    stdout: (text) => send({ type: 'stdout', text }),
+    stderr: (text) => send({ type: 'stderr', text }),
+  });
+  // Everything is loaded - user code gets no network access
+  for (const name of ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts']) {
+    try { self[name] = undefined; } catch {}
+  }
+  pyodide.loadPackage = async () => { throw new Error('Installing packages is not available in the sandbox'); };
+  return pyodide;
+}
+
+const RUN_DIR = '/home/pyodide/run';
+
+self.onmessage = async (event) => {
+  const { indexURL, files, entry } = event.data;
+  try {
+    pyodidePromise = pyodidePromise || boot(indexURL);
+    const pyodide = await pyodidePromise;
+    send({ type: 'ready' });
+
+    pyodide.runPython('import shutil; shutil.rmtree(' + JSON.stringify(RUN_DIR) + ', ignore_errors=True)');
+    for (const file of files) {
+      const path = RUN_DIR + '/' + file.filename.replace(/^\\.?\\//, '');
+      pyodide.FS.mkdirTree(path.slice(0, path.lastIndexOf('/')));
+      pyodide.FS.writeFile(path, file.code);
+    }
+
+    const error = await pyodide.runPythonAsync(\`
+import os, sys, runpy, traceback
+_run_dir = \${JSON.stringify(RUN_DIR)}
+os.chdir(_run_dir)
+if _run_dir not in sys.path:
+    sys.path.insert(0, _run_dir)
+# Forget modules imported by a previous run
+for _name, _module in list(sys.modules.items()):
+    if (getattr(_module, '__file__', None) or '').startswith(_run_dir):
+        del sys.modules[_name]
+
+def _run(path):
+    try:
+        runpy.run_path(os.path.join(_run_dir, path), run_name='__main__')
+    except SystemExit as exc:
+        return None if exc.code in (None, 0) else f'SystemExit: {exc.code}'
+    except BaseException as exc:
+        frames = [f for f in traceback.extract_tb(exc.__traceback__) if f.filename.startswith(_run_dir)]
+        return ''.join(traceback.format_list(frames) + traceback.format_exception_only(type(exc), exc))
+    return None
+
+_run(\${JSON.stringify(entry)})
+\`);
+    if (error) send({ type: 'error', text: error.trimEnd() });
+    else send({ type: 'done' });
+  } catch (error) {
+    send({ type: 'error', text: error && error.message ? error.message : String(error) });
+  }
+};
+`;
+
+// The iframe keeps one worker alive and relays over the port it is handed
+function pythonSandboxDocument(indexURL: string): string {
+  const csp =
+    "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' 'wasm-unsafe-eval' blob: " +
+    `${indexURL}; worker-src blob:; connect-src ${indexURL}`;
+
+  return `<!DOCTYPE html>
+<html><head><meta http-equiv="Content-Security-Policy" content="${csp}"></head>
+<body><script>
+const workerSource = ${JSON.stringify(PYTHON_WORKER_SOURCE)};
+addEventListener('message', (event) => {
+  const port = event.ports[0];
+  if (!port) return;
+  let worker;
+  try {
+    worker = new Worker(URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })), { type: 'module' });
+  } catch (error) {
+    port.postMessage({ type: 'error', text: 'Could not start the sandbox: ' + error.message, fatal: true });
+    return;
+  }
+  worker.onmessage = (message) => port.postMessage(message.data);
+  worker.onerror = (error) => {
+    error.preventDefault();
+    port.postMessage({ type: 'error', text: error.message || 'Python runtime failed to load', fatal: true });
+  };
+  port.onmessage = (message) => worker.postMessage(message.data);
+}, { once: true });
+</script></body></html>`;
+}
+
+interface PythonSandbox {
+  iframe: HTMLIFrameElement;
+  port: MessagePort;
+}
+
+let pythonSandbox: Promise<PythonSandbox> | null = null;
+let pythonQueue: Promise<unknown> = Promise.resolve();
+
+function getPythonSandbox(): Promise<PythonSandbox> {
+  if (!pythonSandbox) {
+    pythonSandbox = new Promise((resolve) => {
+      const iframe = document.createElement('iframe');
+      iframe.setAttribute('sandbox', 'allow-scripts');
+      iframe.style.display = 'none';
+      iframe.srcdoc = pythonSandboxDocument(`${window.location.origin}/pyodide/`);
+
+      const channel = new MessageChannel();
+      iframe.onload = () => {
+        iframe.contentWindow?.postMessage(null, '*', [channel.port2]);
+        resolve({ iframe, port: channel.port1 });
+      };
+      document.body.appendChild(iframe);
+    });
+  }
+  return pythonSandbox;
+}
+
+function killPythonSandbox(sandbox: PythonSandbox) {
+  sandbox.port.close();
+  sandbox.iframe.remove();
+  pythonSandbox = null;
+}
+
+function runPython(
+  files: CodeFile[],
+  entry: CodeFile,
+  timeoutMs: number
+): Promise<RunResult> {
+  // One interpreter, one run at a time
+  const next = pythonQueue.then(async () => {
+    const sandbox = await getPythonSandbox();
+    const run = createRun(timeoutMs, () => killPythonSandbox(sandbox));
+
+    sandbox.port.onmessage = (event) => {
+      const message = event.data as SandboxMessage;
+      if (message.type === 'error' && message.fatal) {
+        killPythonSandbox(sandbox);
+      }
+      run.handle(message);
+    };
+
+    run.startTimer(PYTHON_LOAD_TIMEOUT_MS);
+    sandbox.port.postMessage({
+      indexURL: `${window.location.origin}/pyodide/`,
+      files: files.map(({ filename, code }) => ({ filename, code })),
+      entry: entry.filename.replace(/^\.?\//, ''),
+    });
+    return run.promise;
+  });
+
+  pythonQueue = next.catch(() => undefined);
+  return next;
+}
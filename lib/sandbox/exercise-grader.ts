@@ -0,0 +1,197 @@
+/**
+ * Exercise Grader
+ *
+ * Appends a test harness to the student's code and runs it in the code
+ * sandbox (see code-runner.ts). Each test reports back on stdout behind a
+ * per-run marker, so student prints can't be mistaken for results.
+ *
+ * JS/TS tests get `assert(value)`, `assert.equal(actual, expected)` (deep,
+ * via JSON) and `assert.throws(fn)`. Python tests use plain `assert`.
+ * Tests run in the solution's scope, so they can call its functions.
+ */
+
+import type {
+  ExerciseLanguage,
+  ExerciseTestCase,
+} from '@/lib/cms/types';
+import { runCode, type RunOutputLine } from '@/lib/sandbox/code-runner';
+
+export interface ExerciseTestResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  hidden: boolean;
+  message?: string;
+}
+
+export interface ExerciseGrade {
+  passed: number;
+  total: number;
+  results: ExerciseTestResult[];
+  output: RunOutputLine[];   // Student output, harness lines removed
+  error: string | null;
+  timedOut: boolean;
+}
+
+const SOLUTION_FILES: Record<ExerciseLanguage, string> = {
+  javascript: 'solution.js',
+  typescript: 'solution.ts',
+  python: 'solution.py',
+};
+
+export const GRADE_TIMEOUT_MS = 10000;
+
+/**
+ * Student code + harness as a single runnable file.
+ */
+export function buildExerciseProgram(
+  language: ExerciseLanguage,
+  code: string,
+  tests: ExerciseTestCase[],
+  marker: string
+): { filename: string; source: string } {
+  const filename = SOLUTION_FILES[language];
+
+  if (language === 'python') {
+    const payload = JSON.stringify(
+      JSON.stringify(tests.map(({ id, code }) => ({ id, code })))
+    );
+    const harness = [
+      '',
+      'def _exercise_run_tests():',
+      '    import json as _json',
+      `    _marker = ${JSON.stringify(marker)}`,
+      `    for _test in _json.loads(${payload}):`,
+      '        try:',
+      '            exec(_test["code"], dict(globals()))',
+      '            print(_marker + _json.dumps({"id": _test["id"], "passed": True}))',
+      '        except Exception as _error:',
+      '            _message = f"{type(_error).__name__}: {_error}" if str(_error) else type(_error).__name__',
+      '            print(_marker + _json.dumps({"id": _test["id"], "passed": False, "message": _message}))',
+      '',
+      '_exercise_run_tests()',
+      '',
+    ].join('\n');
+    return { filename, source: `${code}\n${harness}` };
+  }
+
+  const cases = tests
+    .map(
+      (test) =>
+        `  try {\n    await (async () => {\n${test.code}\n    })();\n    __pass(${JSON.stringify(test.id)});\n  } catch (error) {\n    __fail(${JSON.stringify(test.id)}, error);\n  }`
+    )
+    .join('\n');
+
+  const harness = [
+    '',
+    ';(async () => {',
+    `  const __marker = ${JSON.stringify(marker)};`,
+    '  const __pass = (id) => console.log(__marker + JSON.stringify({ id, passed: true }));',
+    '  const __fail = (id, error) => console.log(__marker + JSON.stringify({ id, passed: false, message: String((error && error.message) || error) }));',
+    "  const assert = (value, message) => { if (!value) throw new Error(message || 'Assertion failed'); };",
+    '  assert.equal = (actual, expected, message) => {',
+    '    const a = JSON.stringify(actual);',
+    '    const e = JSON.stringify(expected);',
+    "    if (a !== e) throw new Error(message || 'Expected ' + e + ', got ' + a);",
+    '  };',
+    '  assert.throws = (fn, message) => {',
+    '    try { fn(); } catch { return; }',
+    "    throw new Error(message || 'Expected function to throw');",
+    '  };',
+    cases,
+    '})();',
+    '',
+  ].join('\n');
+
+  return { filename, source: `${code}\n${harness}` };
+}
+
+/**
+ * Split harness result lines out of the run output and match them to tests.
+ * Tests that never reported fail with the run's error (if any).
+ */
+export function collectTestResults(
+  output: RunOutputLine[],
+  tests: ExerciseTestCase[],
+  marker: string,
+  runError: string | null
+): { results: ExerciseTestResult[]; output: RunOutputLine[] } {
+  const reported = new Map<string, { passed: boolean; message?: string }>();
+  const studentOutput: RunOutputLine[] = [];
+
+  for (const line of output) {
+    if (line.stream === 'stdout' && line.text.startsWith(marker)) {
+      try {
+        const result = JSON.parse(line.text.slice(marker.length));
+        if (typeof result.id === 'string' && !reported.has(result.id)) {
+          reported.set(result.id, {
+            passed: result.passed === true,
+            message: typeof result.message === 'string' ? result.message : undefined,
+          });
+        }
+      } catch {
+        // Malformed marker line - treat as missing
+      }
+      continue;
+    }
+    studentOutput.push(line);
+  }
+
+  const results = tests.map((test) => {
+    const result = reported.get(test.id);
+    return {
+      id: test.id,
+      name: test.name,
+      hidden: !!test.hidden,
+      passed: result?.passed ?? false,
+      message: result ? result.message : runError || 'Test did not run',
+    };
+  });
+
+  return { results, output: studentOutput };
+}
+
+/**
+ * Run the hidden tests against a student's code in the browser sandbox.
+ */
+export async function gradeExercise(
+  exercise: { language: ExerciseLanguage; tests: ExerciseTestCase[] },
+  code: string
+): Promise<ExerciseGrade> {
+  const marker = `@@exercise-${crypto.randomUUID()}@@`;
+  const program = buildExerciseProgram(
+    exercise.language,
+    code,
+    exercise.tests,
+    marker
+  );
+
+  const run = await runCode(
+    [
+      {
+        id: 'solution',
+        filename: program.filename,
+        language: exercise.language,
+        code: program.source,
+      },
+    ],
+    'solution',
+    { timeoutMs: GRADE_TIMEOUT_MS }
+  );
+
+  const { results, output } = collectTestResults(
+    run.output,
+    exercise.tests,
+    marker,
+    run.error
+  );
+
+  return {
+    passed: results.filter((r) => r.passed).length,
+    total: results.length,
+    results,
+    output,
+    error: run.error,
+    timedOut: run.timedOut,
+  };
+}
@@ -16,5 +16,8 @@ export {
     saveCourse,
     listCourses,
     deleteCourse,
+    checkCourseVersions,
+    getCourseStructure,
+    getCourseLesson,
     ensureDataDir
 } from '@/lib/storage/course-storage';
@@ -0,0 +1,387 @@
+/**
+ * Orphaned Asset Garbage Collector
+ *
+ * Images/videos uploaded from the editor stay in R2, Drive or
+ * public/uploads after the author removes them from a lesson.
+ *
+ * Flow:
+ * 1. Walk every draft + published CourseBlob, revision blob and course meta
+ *    for asset URLs (a revision can be restored, so its assets must stay),
+ *    then templates (and their versions), question banks and stored quizzes
+ * 2. List objects in R2, Drive and the local uploads folder
+ * 3. Unreferenced objects older than the grace period are orphans
+ * 4. Dry run reports them; otherwise they are deleted or quarantined
+ *
+ * Safety: if ANY course, template or bank can't be read, nothing is
+ * removed - a missing reference would otherwise look like an orphan.
+ */
+
+import { readdir, stat, rename, unlink, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { downloadCourseBlob } from '@/lib/storage/blob-store';
+import { getCourse } from '@/lib/storage/course-storage';
+import { getAllLocalCourses } from '@/lib/cache/local-registry';
+import { listTemplates, listTemplateVersions } from '@/lib/firebase/template-operations';
+import { listQuestionBanks } from '@/lib/firebase/question-bank-operations';
+import { listQuizzes } from '@/lib/firebase/quiz-operations';
+
+export type AssetBackend = 'r2' | 'drive' | 'local';
+export type AssetGcAction = 'delete' | 'quarantine';
+
+// Stored object, keyed the same way editor URLs reference it
+export interface StoredAsset {
+    backend: AssetBackend;
+    fileId: string;        // Drive ID, r2-folder:name or local-folder-name
+    folder: string;
+    size: number;
+    modifiedAt: string;    // ISO
+}
+
+export interface OrphanedAsset extends StoredAsset {
+    ageDays: number;
+    removed?: boolean;
+}
+
+export interface AssetGcOptions {
+    dryRun?: boolean;          // Default true - report only
+    action?: AssetGcAction;    // Default 'quarantine'
+    graceDays?: number;        // Default 7
+}
+
+export interface AssetGcReport {
+    dryRun: boolean;
+    action: AssetGcAction;
+    graceDays: number;
+    startedAt: string;
+    finishedAt: string;
+    coursesScanned: number;
+    referencedCount: number;
+    scanned: Record<AssetBackend, number>;
+    orphans: OrphanedAsset[];
+    orphanBytes: number;
+    withinGrace: number;       // Unreferenced but too recent to touch
+    removed: number;
+    failed: number;
+    aborted: boolean;          // True if a scan error blocked removal
+    errors: string[];
+}
+
+export const DEFAULT_GRACE_DAYS = 7;
+
+// Folders holding editor content. Avatars are referenced from user docs, not
+// courses, so they are never swept.
+const SWEEP_FOLDERS = ['cms', 'lessons', 'courses'] as const;
+const LOCAL_SWEEP_FOLDERS = [...SWEEP_FOLDERS, 'videos'];
+
+const UPLOADS_DIR = join(process.cwd(), 'public', 'uploads');
+const LOCAL_QUARANTINE_DIR = join(process.cwd(), '.data', 'quarantine', 'uploads');
+
+// /api/images/{fileId} (Drive, R2, local) and /uploads/{folder}/{file} (local videos)
+const IMAGE_API_PATTERN = /\/api\/images\/([a-zA-Z0-9_.:-]+)/g;
+const UPLOADS_PATTERN = /\/uploads\/([a-zA-Z0-9_-]+)\/([a-zA-Z0-9_.-]+)/g;
+
+/**
+ * Collect asset keys referenced anywhere in a value (blob, meta, tiptapJson)
+ *
+ * Walks every string rather than only img/video `src`, so references in
+ * tiptapJson attrs, thumbnails and legacy components are kept too.
+ */
+export function extractAssetRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+    if (typeof value === 'string') {
+        for (const match of value.matchAll(IMAGE_API_PATTERN)) {
+            refs.add(match[1]);
+        }
+        for (const match of value.matchAll(UPLOADS_PATTERN)) {
+            refs.add(`local-${match[1]}-${match[2]}`);
+        }
+    } else if (Array.isArray(value)) {
+        for (const item of value) extractAssetRefs(item, refs);
+    } else if (value && typeof value === 'object') {
+        for (const item of Object.values(value)) extractAssetRefs(item, refs);
+    }
+    return refs;
+}
+
+/**
+ * Split unreferenced assets into orphans (past grace) and too-recent ones
+ */
+export function findOrphans(
+    assets: StoredAsset[],
+    refs: Set<string>,
+    graceDays: number,
+    now: number = Date.now()
+): { orphans: OrphanedAsset[]; withinGrace: number } {
+    const orphans: OrphanedAsset[] = [];
+    let withinGrace = 0;
+
+    for (const asset of assets) {
+        if (refs.has(asset.fileId)) continue;
+
+        const ageDays = (now - new Date(asset.modifiedAt).getTime()) / (24 * 60 * 60 * 1000);
+        if (ageDays < graceDays) {
+            withinGrace++;
+            continue;
+        }
+        orphans.push({ ...asset, ageDays: Math.floor(ageDays) });
+    }
+
+    return { orphans, withinGrace };
+}
+
+/**
+ * Gather references kept outside course blobs: templates and their saved
+ * versions (restorable), global and course question banks, stored quizzes
+ */
+export async function collectLibraryAssets(courseIds: Iterable<string>, refs: Set<string>, errors: string[]): Promise<void> {
+    const scan = async (what: string, load: () => Promise<unknown>) => {
+        try {
+            extractAssetRefs(await load(), refs);
+        } catch (error) {
+            errors.push(`failed to list ${what}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    let templateIds: string[] = [];
+    await scan('templates', async () => {
+        const templates = await listTemplates();
+        templateIds = templates.map(t => t.id);
+        return templates;
+    });
+    for (const id of templateIds) {
+        await scan(`versions of template ${id}`, () => listTemplateVersions(id));
+    }
+
+    await scan('global question banks', () => listQuestionBanks());
+    for (const courseId of courseIds) {
+        await scan(`question banks of ${courseId}`, () => listQuestionBanks(courseId));
+        await scan(`quizzes of ${courseId}`, () => listQuizzes(courseId));
+    }
+}
+
+/**
+ * Gather references from every course (draft + published blobs, meta)
+ * and the template / question bank library
+ */
+async function collectReferencedAssets(errors: string[]): Promise<{ refs: Set<string>; coursesScanned: number }> {
+    const refs = new Set<string>();
+    const seen = new Set<string>();
+
+    const scanned = new Set<string>();
+    const scanBlob = async (courseId: string, fileId: string) => {
+        if (scanned.has(fileId)) return;
+        scanned.add(fileId);
+
+        const blob = await downloadCourseBlob(fileId);
+        if (!blob) {
+            errors.push(`${courseId}: failed to download blob ${fileId}`);
+            return;
+        }
+        extractAssetRefs(blob, refs);
+    };
+
+    // Courses saved during a Firestore outage
+    for (const local of await getAllLocalCourses()) {
+        seen.add(local.id);
+        extractAssetRefs(local.meta, refs);
+        if (local.tg_file_id) await scanBlob(local.id, local.tg_file_id);
+    }
+
+    let snapshot;
+    try {
+        const db = initAdmin().firestore();
+        snapshot = await db.collection('courses').get();
+    } catch (error) {
+        errors.push(`Firestore unavailable: ${error instanceof Error ? error.message : String(error)}`);
+        return { refs, coursesScanned: seen.size };
+    }
+
+    for (const doc of snapshot.docs) {
+        const data = doc.data();
+        extractAssetRefs(data.meta, refs);
+
+        const fileIds = [data.draft_snapshot?.tg_file_id, data.published?.tg_file_id]
+            .filter((id): id is string => !!id);
+
+        try {
+            const revisions = await doc.ref.collection('revisions').select('tg_file_id').get();
+            for (const revision of revisions.docs) {
+                const fileId = revision.get('tg_file_id');
+                if (fileId) fileIds.push(fileId);
+            }
+        } catch (error) {
+            errors.push(`${doc.id}: failed to list revisions: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (fileIds.length > 0) {
+            for (const fileId of new Set(fileIds)) {
+                await scanBlob(doc.id, fileId);
+            }
+        } else if (!seen.has(doc.id)) {
+            // Legacy course (Firestore lessons / GDrive JSON)
+            const course = await getCourse(doc.id);
+            if (course) {
+                extractAssetRefs(course, refs);
+            } else if (data.lessons || data._lessonsInSubcollection) {
+                errors.push(`${doc.id}: failed to load legacy course`);
+            }
+        }
+        seen.add(doc.id);
+    }
+
+    await collectLibraryAssets(seen, refs, errors);
+    return { refs, coursesScanned: seen.size };
+}
+
+/**
+ * List stored objects on every configured backend
+ */
+async function listStoredAssets(errors: string[]): Promise<StoredAsset[]> {
+    const assets: StoredAsset[] = [];
+
+    const { isR2Enabled, listR2Objects } = await import('@/lib/storage/r2-storage');
+    if (isR2Enabled()) {
+        for (const folder of SWEEP_FOLDERS) {
+            try {
+                for (const object of await listR2Objects(folder)) {
+                    assets.push({
+                        backend: 'r2',
+                        fileId: object.fileId,
+                        folder,
+                        size: object.size,
+                        modifiedAt: object.lastModified.toISOString(),
+                    });
+                }
+            } catch (error) {
+                errors.push(`R2 ${folder}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    const { isDriveEnabled, listDriveFiles } = await import('@/lib/storage/google-drive');
+    if (isDriveEnabled()) {
+        for (const folder of SWEEP_FOLDERS) {
+            try {
+                for (const file of await listDriveFiles(folder)) {
+                    assets.push({
+                        backend: 'drive',
+                        fileId: file.fileId,
+                        folder,
+                        size: file.size,
+                        modifiedAt: file.createdTime.toISOString(),
+                    });
+                }
+            } catch (error) {
+                errors.push(`Drive ${folder}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    for (const folder of LOCAL_SWEEP_FOLDERS) {
+        const dir = join(UPLOADS_DIR, folder);
+        if (!existsSync(dir)) continue;
+
+        for (const name of await readdir(dir)) {
+            const info = await stat(join(dir, name));
+            if (!info.isFile()) continue;
+            assets.push({
+                backend: 'local',
+                fileId: `local-${folder}-${name}`,
+                folder,
+                size: info.size,
+                modifiedAt: info.mtime.toISOString(),
+            });
+        }
+    }
+
+    return assets;
+}
+
+/**
+ * Delete or quarantine a single orphan
+ */
+async function removeAsset(asset: StoredAsset, action: AssetGcAction): Promise<boolean> {
+    if (asset.backend === 'r2') {
+        const { deleteFromR2, quarantineR2Object } = await import('@/lib/storage/r2-storage');
+        return action === 'delete' ? deleteFromR2(asset.fileId) : quarantineR2Object(asset.fileId);
+    }
+
+    if (asset.backend === 'drive') {
+        const { deleteFromDrive, quarantineDriveFile } = await import('@/lib/storage/google-drive');
+        return action === 'delete' ? deleteFromDrive(asset.fileId) : quarantineDriveFile(asset.fileId);
+    }
+
+    // local-{folder}-{filename}
+    const filename = asset.fileId.slice(`local-${asset.folder}-`.length);
+    const filepath = join(UPLOADS_DIR, asset.folder, filename);
+    try {
+        if (action === 'delete') {
+            await unlink(filepath);
+        } else {
+            const targetDir = join(LOCAL_QUARANTINE_DIR, asset.folder);
+            await mkdir(targetDir, { recursive: true });
+            await rename(filepath, join(targetDir, filename));
+        }
+        return true;
+    } catch (error) {
+        console.error(`Error removing local asset ${asset.fileId}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Run the garbage collector
+ */
+export async function runAssetGc(options: AssetGcOptions = {}): Promise<AssetGcReport> {
+    const dryRun = options.dryRun ?? true;
+    const action = options.action ?? 'quarantine';
+    const graceDays = options.graceDays ?? DEFAULT_GRACE_DAYS;
+    const startedAt = new Date().toISOString();
+    const errors: string[] = [];
+
+    console.log(`🧹 [AssetGC] Starting (${dryRun ? 'dry run' : action}, grace ${graceDays}d)...`);
+
+    const { refs, coursesScanned } = await collectReferencedAssets(errors);
+    const assets = await listStoredAssets(errors);
+    const { orphans, withinGrace } = findOrphans(assets, refs, graceDays);
+
+    const scanned: Record<AssetBackend, number> = { r2: 0, drive: 0, local: 0 };
+    for (const asset of assets) scanned[asset.backend]++;
+
+    // Never remove anything based on an incomplete reference set
+    const aborted = errors.length > 0;
+    let removed = 0;
+    let failed = 0;
+
+    if (!dryRun && !aborted) {
+        for (const orphan of orphans) {
+            orphan.removed = await removeAsset(orphan, action);
+            if (orphan.removed) removed++;
+            else failed++;
+        }
+    }
+
+    if (aborted) {
+        console.warn(`⚠️ [AssetGC] ${errors.length} scan error(s), nothing removed`);
+    }
+    console.log(`✅ [AssetGC] ${orphans.length} orphan(s) of ${assets.length} object(s), ${removed} removed`);
+
+    return {
+        dryRun,
+        action,
+        graceDays,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        coursesScanned,
+        referencedCount: refs.size,
+        scanned,
+        orphans,
+        orphanBytes: orphans.reduce((sum, o) => sum + o.size, 0),
+        withinGrace,
+        removed,
+        failed,
+        aborted,
+        errors,
+    };
+}
@@ -0,0 +1,188 @@
+/**
+ * Image Upload Pipeline (shared by /api/upload and course importers)
+ *
+ * 1. compressUploadImage: Sharp resize + WebP (GIFs stay GIFs to keep animation)
+ * 2. storeUploadedAsset: Google Drive → Cloudflare R2 → public/uploads fallback
+ *
+ * Returned URLs are what lessons store (/api/images/{fileId} for R2/local).
+ */
+
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { existsSync } from 'fs';
+import type { UploadFolder } from '@/lib/storage/google-drive';
+
+// Upload types (maps to Drive/R2/local folders)
+export type UploadType = 'avatar' | 'course' | 'lesson' | 'cms';
+
+export const UPLOAD_FOLDERS: Record<UploadType, UploadFolder> = {
+    avatar: 'avatars',
+    course: 'courses',
+    lesson: 'lessons',
+    cms: 'cms',
+};
+
+export interface CompressedImage {
+    buffer: Buffer;
+    format: 'webp' | 'gif';
+    mimeType: string;
+    width?: number;
+    height?: number;
+}
+
+export interface StoredUpload {
+    url: string;
+    fileId: string;
+    filename: string;
+    storage: 'drive' | 'r2' | 'local';
+}
+
+/**
+ * Resize/compress an image for storage
+ * Larger inputs get more aggressive compression.
+ */
+export async function compressUploadImage(
+    buffer: Buffer,
+    type: UploadType,
+    isGif: boolean
+): Promise<CompressedImage> {
+    const inputSizeMB = buffer.length / (1024 * 1024);
+
+    let quality: number;
+    let maxWidth: number;
+
+    if (type === 'avatar') {
+        // Avatars are always small
+        quality = 85;
+        maxWidth = 400;
+    } else if (inputSizeMB > 20) {
+        // Very large files (20-30MB): aggressive compression
+        quality = 70;
+        maxWidth = 1600;
+        console.log(`📦 Large file (${inputSizeMB.toFixed(1)}MB) - using aggressive compression (quality: ${quality})`);
+    } else if (inputSizeMB > 10) {
+        // Large files (10-20MB): moderate compression
+        quality = 75;
+        maxWidth = 1800;
+        console.log(`📦 Medium-large file (${inputSizeMB.toFixed(1)}MB) - using moderate compression (quality: ${quality})`);
+    } else if (inputSizeMB > 5) {
+        // Medium files (5-10MB): light compression
+        quality = 80;
+        maxWidth = 2000;
+    } else {
+        // Small files (<5MB): high quality
+        quality = 85;
+        maxWidth = 2400;
+    }
+
+    let processed: Buffer;
+    let format: 'webp' | 'gif';
+    let mimeType: string;
+
+    if (isGif) {
+        // GIF: Preserve original to maintain animation, only resize if needed
+        const metadata = await sharp(buffer, { animated: true }).metadata();
+        const needsResize = metadata.width && metadata.width > maxWidth;
+
+        if (needsResize) {
+            processed = await sharp(buffer, { animated: true })
+                .resize({
+                    width: type === 'avatar' ? 400 : maxWidth,
+                    fit: 'inside',
+                    withoutEnlargement: true,
+                })
+                .gif()
+                .toBuffer();
+            console.log(`🎬 Resized GIF: ${inputSizeMB.toFixed(1)}MB → ${(processed.length / 1024 / 1024).toFixed(1)}MB`);
+        } else {
+            processed = buffer;
+            console.log(`🎬 Preserved GIF as-is: ${inputSizeMB.toFixed(1)}MB`);
+        }
+        format = 'gif';
+        mimeType = 'image/gif';
+    } else {
+        // Non-GIF: Convert to WebP for compression
+        processed = await sharp(buffer)
+            .resize({
+                width: type === 'avatar' ? 400 : maxWidth,
+                height: type === 'avatar' ? 400 : undefined,
+                fit: 'inside',
+                withoutEnlargement: true,
+            })
+            .webp({ quality })
+            .toBuffer();
+        format = 'webp';
+        mimeType = 'image/webp';
+
+        const outputSizeKB = processed.length / 1024;
+        console.log(`✨ Compressed: ${inputSizeMB.toFixed(1)}MB → ${outputSizeKB.toFixed(0)}KB (${((1 - processed.length / buffer.length) * 100).toFixed(0)}% reduction)`);
+    }
+
+    const metadata = await sharp(processed, isGif ? { animated: true } : {}).metadata();
+
+    return { buffer: processed, format, mimeType, width: metadata.width, height: metadata.height };
+}
+
+/**
+ * Store an already-processed file: Drive first, then R2, then local disk
+ *
+ * `driveBuffer` overrides what goes to Drive (moderated replacement image);
+ * R2/local always get `buffer`.
+ */
+export async function storeUploadedAsset(
+    buffer: Buffer,
+    options: {
+        format: string;
+        mimeType: string;
+        folder: UploadFolder;
+        ownerId: string;
+        driveBuffer?: Buffer;
+    }
+): Promise<StoredUpload> {
+    const { format, mimeType, folder, ownerId } = options;
+    const filename = `${uuidv4().slice(0, 8)}-${Date.now()}.${format}`;
+
+    const { isDriveEnabled, uploadToDrive } = await import('@/lib/storage/google-drive');
+    if (isDriveEnabled()) {
+        try {
+            const { url, fileId } = await uploadToDrive(options.driveBuffer || buffer, filename, folder, mimeType);
+            return { url, fileId, filename, storage: 'drive' };
+        } catch (driveError) {
+            console.error('Drive upload failed, trying R2 fallback:', driveError);
+            // Fall through to R2
+        }
+    }
+
+    // --- CLOUDFLARE R2 FALLBACK ---
+    const { isR2Enabled, uploadToR2 } = await import('@/lib/storage/r2-storage');
+    if (isR2Enabled()) {
+        try {
+            const { url, fileId } = await uploadToR2(buffer, filename, folder, mimeType);
+            console.log(`✅ Image uploaded to R2: ${fileId}`);
+            return { url, fileId, filename, storage: 'r2' };
+        } catch (r2Error) {
+            console.error('R2 upload failed, falling back to local storage:', r2Error);
+            // Fall through to local
+        }
+    }
+
+    // Fallback: Save to local file storage (binary file, not base64)
+    const uploadsDir = join(process.cwd(), 'public', 'uploads', folder);
+    if (!existsSync(uploadsDir)) {
+        await mkdir(uploadsDir, { recursive: true });
+    }
+
+    // Filename with owner ID for organization
+    const localFilename = `${ownerId}-${uuidv4().slice(0, 8)}.${format}`;
+    await writeFile(join(uploadsDir, localFilename), buffer);
+
+    // Local file ID points to our image serving API
+    // Format: local-{folder}-{filename}
+    const localFileId = `local-${folder}-${localFilename}`;
+    const publicUrl = `/api/images/${localFileId}`;
+    console.log(`✅ Image saved locally: ${publicUrl}`);
+
+    return { url: publicUrl, fileId: localFileId, filename: localFilename, storage: 'local' };
+}
@@ -0,0 +1,289 @@
+/**
+ * Pluggable Blob Storage for Course Content
+ *
+ * Course blobs (full CourseBlob, split structure/lesson blobs) are
+ * immutable gzipped JSON documents. Where they live is chosen by env:
+ *
+ *   BLOB_STORE=telegram (default) | gdrive | r2 | local
+ *
+ * Blob IDs are what Firestore/registry pointers store (`tg_file_id` etc).
+ * Non-Telegram IDs carry a backend prefix ("local:", "r2:", "gdrive:"),
+ * so reads keep working after switching backends. Unprefixed IDs are
+ * Telegram file_ids (everything stored before this existed).
+ */
+
+import crypto from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+import { ChunkPack, CourseBlob, CourseManifest } from '@/lib/types/course-compact';
+import {
+    assembleCourseBlob,
+    buildCourseManifest,
+    getManifestPackIds,
+    isCourseManifest,
+    MAX_MANIFEST_PACKS,
+} from '@/lib/storage/course-delta';
+import { telegramBlobStore } from '@/lib/storage/telegram-storage';
+import { gdriveBlobStore } from '@/lib/storage/gdrive-courses';
+import { r2BlobStore } from '@/lib/storage/r2-storage';
+import { localBlobStore } from '@/lib/storage/local-blob-store';
+
+export type BlobBackend = 'telegram' | 'gdrive' | 'r2' | 'local';
+
+export interface BlobListEntry {
+    id: string;           // Prefixed blob ID (same as put() returns)
+    name: string;         // Name given to put()
+    size: number;
+    createdAt: string;    // ISO
+}
+
+export interface BlobStore {
+    readonly backend: BlobBackend;
+    isEnabled(): boolean;
+    put(name: string, data: Buffer): Promise<string>;   // Returns blob ID
+    get(id: string): Promise<Buffer | null>;
+    delete(id: string): Promise<boolean>;
+    list(prefix?: string): Promise<BlobListEntry[]>;
+    hash(data: Buffer): string;
+}
+
+// Resolved lazily: backends import helpers from this module
+function getStores(): Record<BlobBackend, BlobStore> {
+    return {
+        telegram: telegramBlobStore,
+        gdrive: gdriveBlobStore,
+        r2: r2BlobStore,
+        local: localBlobStore,
+    };
+}
+
+/**
+ * MD5 hex digest (shared by all backends so hashes stay comparable)
+ */
+export function md5(data: Buffer | string): string {
+    return crypto.createHash('md5').update(data).digest('hex');
+}
+
+/**
+ * Add/strip the backend prefix of a blob ID
+ */
+export function toBlobId(backend: BlobBackend, rawId: string): string {
+    return backend === 'telegram' ? rawId : `${backend}:${rawId}`;
+}
+
+export function parseBlobId(id: string): { backend: BlobBackend; rawId: string } {
+    const match = id.match(/^(local|r2|gdrive):(.+)$/);
+    if (match) {
+        return { backend: match[1] as BlobBackend, rawId: match[2] };
+    }
+    return { backend: 'telegram', rawId: id };
+}
+
+/**
+ * Backend configured for new writes
+ */
+export function getBlobBackend(): BlobBackend {
+    const configured = process.env.BLOB_STORE as BlobBackend | undefined;
+    return configured && configured in getStores() ? configured : 'telegram';
+}
+
+export function getBlobStore(backend: BlobBackend = getBlobBackend()): BlobStore {
+    return getStores()[backend];
+}
+
+/**
+ * Store that owns an existing blob ID (for reads/deletes)
+ */
+export function getBlobStoreForId(id: string): BlobStore {
+    return getStores()[parseBlobId(id).backend];
+}
+
+/**
+ * Check if the configured blob store can accept writes
+ */
+export function isBlobStoreEnabled(): boolean {
+    return getBlobStore().isEnabled();
+}
+
+/**
+ * Upload any JSON document as a gzipped blob
+ * Returns the blob ID for later retrieval and the hash of the uncompressed JSON
+ */
+export async function uploadJsonBlob(
+    name: string,
+    data: unknown
+): Promise<{ file_id: string; hash: string }> {
+    const store = getBlobStore();
+    if (!store.isEnabled()) {
+        throw new Error(`Blob storage (${store.backend}) not configured`);
+    }
+
+    const json = Buffer.from(JSON.stringify(data), 'utf-8');
+    const hash = store.hash(json);
+
+    // GZIP compress for ~70-80% size reduction!
+    const gzipBuffer = gzipSync(json);
+    const compressionRatio = ((1 - gzipBuffer.length / json.length) * 100).toFixed(1);
+
+    console.log(`📤 [${store.backend}] Uploading ${name}.json.gz (${(json.length / 1024).toFixed(1)}KB → ${(gzipBuffer.length / 1024).toFixed(1)}KB, ${compressionRatio}% smaller)`);
+
+    const file_id = await store.put(`${name}.json.gz`, gzipBuffer);
+    return { file_id, hash };
+}
+
+/**
+ * Download a JSON document by blob ID
+ * Detects gzip by magic bytes, so legacy plain-JSON blobs still load
+ */
+export async function downloadJsonBlob<T>(file_id: string): Promise<T | null> {
+    const store = getBlobStoreForId(file_id);
+    if (!store.isEnabled()) {
+        throw new Error(`Blob storage (${store.backend}) not configured`);
+    }
+
+    const buffer = await store.get(file_id);
+    if (!buffer) return null;
+
+    try {
+        const isGzip = buffer[0] === 0x1f && buffer[1] === 0x8b;
+        const jsonText = isGzip ? gunzipSync(buffer).toString('utf-8') : buffer.toString('utf-8');
+
+        console.log(`✅ [${store.backend}] Downloaded blob (${(jsonText.length / 1024).toFixed(1)}KB${isGzip ? ', was compressed' : ''})`);
+        return JSON.parse(jsonText) as T;
+    } catch (e) {
+        console.error(`❌ [${store.backend}] Failed to parse blob:`, e);
+        return null;
+    }
+}
+
+/**
+ * Upload course blob to the configured store
+ */
+export async function uploadCourseBlob(
+    courseId: string,
+    blob: CourseBlob
+): Promise<{ file_id: string; hash: string }> {
+    return uploadJsonBlob(courseId, blob);
+}
+
+// Packs are immutable, so they can be cached for the process lifetime
+const packCache = new Map<string, ChunkPack>();
+const MAX_PACK_CACHE = 200;
+
+// Last manifest uploaded per course, so the next checkpoint can diff
+// against it without a download (only courses being edited right now)
+const lastManifest = new Map<string, { file_id: string; manifest: CourseManifest; blob: CourseBlob }>();
+const MAX_MANIFEST_CACHE = 20;
+
+/**
+ * LRU lookup: a hit moves the entry to the back (Map keeps insertion order)
+ */
+function lruGet<V>(cache: Map<string, V>, key: string): V | undefined {
+    const value = cache.get(key);
+    if (value !== undefined) {
+        cache.delete(key);
+        cache.set(key, value);
+    }
+    return value;
+}
+
+/**
+ * LRU insert: evicts the least recently used entries beyond `max`
+ */
+function lruSet<V>(cache: Map<string, V>, key: string, value: V, max: number): void {
+    cache.delete(key);
+    cache.set(key, value);
+    while (cache.size > max) {
+        cache.delete(cache.keys().next().value as string);
+    }
+}
+
+async function downloadChunkPack(packId: string): Promise<ChunkPack | null> {
+    const cached = lruGet(packCache, packId);
+    if (cached) return cached;
+
+    const pack = await downloadJsonBlob<ChunkPack>(packId);
+    if (!pack) return null;
+
+    lruSet(packCache, packId, pack, MAX_PACK_CACHE);
+    return pack;
+}
+
+/**
+ * Download course blob by blob ID
+ * Delta manifests are reassembled from their chunk packs transparently.
+ */
+export async function downloadCourseBlob(file_id: string): Promise<CourseBlob | null> {
+    const data = await downloadJsonBlob<CourseBlob | CourseManifest>(file_id);
+    if (!data || !isCourseManifest(data)) return data;
+
+    const packs: Record<string, ChunkPack> = {};
+    for (const packId of getManifestPackIds(data)) {
+        const pack = await downloadChunkPack(packId);
+        if (!pack) {
+            console.error(`❌ [Blob] Missing chunk pack ${packId} for manifest ${file_id}`);
+            return null;
+        }
+        packs[packId] = pack;
+    }
+
+    const blob = assembleCourseBlob(data, packs);
+    if (!blob) {
+        console.error(`❌ [Blob] Manifest ${file_id} references missing chunks`);
+    }
+    return blob;
+}
+
+/**
+ * Upload a checkpoint as a delta against the previous draft
+ *
+ * Only chunks not already stored by the previous manifest are uploaded
+ * (one pack per checkpoint), plus a small manifest. Once the manifest
+ * spans more than MAX_MANIFEST_PACKS packs, everything is repacked.
+ *
+ * `hash` is the hash of the full CourseBlob JSON, same as uploadCourseBlob.
+ */
+export async function uploadCourseDelta(
+    courseId: string,
+    blob: CourseBlob,
+    previousFileId?: string | null
+): Promise<{ file_id: string; hash: string; chunkCount: number; uploadedChunks: number }> {
+    let previous: CourseManifest | null = null;
+    let previousBlob: CourseBlob | null = null;
+
+    const cached = lruGet(lastManifest, courseId);
+    if (previousFileId && cached?.file_id === previousFileId) {
+        previous = cached.manifest;
+        previousBlob = cached.blob;
+    } else if (previousFileId) {
+        try {
+            const data = await downloadJsonBlob<CourseBlob | CourseManifest>(previousFileId);
+            if (isCourseManifest(data)) previous = data;
+        } catch (error) {
+            console.warn(`⚠️ [Blob] Could not read previous checkpoint for ${courseId}, uploading all chunks:`, error);
+        }
+    }
+
+    let { manifest, newChunks, chunkCount } = buildCourseManifest(blob, previous, previousBlob);
+
+    // Too fragmented: start over with a single pack
+    if (getManifestPackIds(manifest).length >= MAX_MANIFEST_PACKS) {
+        console.log(`📦 [Blob] ${courseId} repacking ${chunkCount} chunks`);
+        ({ manifest, newChunks, chunkCount } = buildCourseManifest(blob, null));
+    }
+
+    const uploadedChunks = Object.keys(newChunks).length;
+    if (uploadedChunks > 0) {
+        const pack: ChunkPack = { v: 1, c: newChunks };
+        const { file_id: packId } = await uploadJsonBlob(`${courseId}-pack`, pack);
+        lruSet(packCache, packId, pack, MAX_PACK_CACHE);
+        for (const hash of Object.keys(newChunks)) {
+            manifest.packs[hash] = packId;
+        }
+    }
+
+    const { file_id } = await uploadJsonBlob(`${courseId}-manifest`, manifest);
+    lruSet(lastManifest, courseId, { file_id, manifest, blob }, MAX_MANIFEST_CACHE);
+
+    console.log(`✅ [Blob] ${courseId} delta: ${uploadedChunks}/${chunkCount} chunks uploaded`);
+    return { file_id, hash: md5(JSON.stringify(blob)), chunkCount, uploadedChunks };
+}
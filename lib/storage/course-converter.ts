@@ -13,8 +13,12 @@ import {
     SectionCompact,
     CourseMeta,
     BlockType,
+    CourseStructure,
+    LessonBlob,
     COURSE_BLOB_SCHEMA_VERSION
 } from '@/lib/types/course-compact';
+import { exerciseToBlock, blockToExercise, nodeToBlock, blockToNode } from '@/lib/cms/tiptap-to-blocks';
+import { deserializeFromComponents, serializeToComponents } from '@/lib/cms/serialization';
 
 /**
  * Convert legacy component type to compact block type
@@ -32,6 +36,12 @@ function getBlockType(componentType: string): BlockType {
         'divider': 'div',
         'video': 'video',
         'embed': 'embed',
+        'exercise': 'ex',
+        'callout': 'callout',
+        'accordion': 'acc',
+        'tabs': 'tabs',
+        'math': 'math',
+        'diagram': 'mmd',
     };
     return typeMap[componentType] || 'p';
 }
@@ -81,6 +91,14 @@ export function courseToBlob(course: Course): {
             d: lesson.duration,
         };
 
+        // Keep the editor's lesson ID so versions survive reorders
+        if (lesson.id && lesson.id !== compactLessonId) {
+            lessonData.oid = lesson.id;
+        }
+        if (lesson.version !== undefined) {
+            lessonData.ver = lesson.version;
+        }
+
         // OPTIMIZATION: If tiptapJson exists, it's the authoritative source.
         // SKIP block extraction to avoid redundant storage (2x+ size reduction!)
         if (lesson.tiptapJson) {
@@ -96,11 +114,25 @@ export function courseToBlob(course: Course): {
                 // Cast to any for safe access to all possible component properties
                 const c = component as any;
 
+                // Exercises keep their tests in a dedicated field
+                if (c.type === 'exercise') {
+                    blocks[blockId] = exerciseToBlock(c, blockId);
+                    blockIds.push(blockId);
+                    continue;
+                }
+
+                // Layout blocks nest their children, go through the Tiptap shape
+                if (c.type === 'callout' || c.type === 'accordion' || c.type === 'tabs') {
+                    blocks[blockId] = nodeToBlock(deserializeFromComponents([c]).content[0], blockId);
+                    blockIds.push(blockId);
+                    continue;
+                }
+
                 const block: BlockCompact = {
                     id: blockId,
                     t: getBlockType(c.type),
                     // Preserve HTML content for rich formatting in student view
-                    v: c.content || c.text || c.code || '',
+                    v: c.content || c.text || c.code || c.latex || c.source || '',
                 };
 
                 // Add optional fields
@@ -159,6 +191,7 @@ export function courseToBlob(course: Course): {
         category: course.category,
         level: course.level,
         duration: course.duration,
+        requireAccessibleContent: course.requireAccessibleContent || undefined,
     };
     // Filter out undefined values and cast
     const meta = Object.fromEntries(
@@ -170,6 +203,9 @@ export function courseToBlob(course: Course): {
         lessons,
         blocks,
     };
+    if (course.structureVersion !== undefined) {
+        blob.sv = course.structureVersion;
+    }
 
     return { blob, meta, sections };
 }
@@ -186,6 +222,12 @@ export function blobToCourse(
 ): Course {
     const lessons: Lesson[] = [];
 
+    // Compact ID -> editor ID (for lessons saved with their original ID)
+    const originalIds = new Map<string, string>();
+    for (const lesson of Object.values(blob.lessons)) {
+        if (lesson.oid) originalIds.set(lesson.id, lesson.oid);
+    }
+
     // Get lesson order from sections, or fallback to all lessons in blob
     let lessonOrder: string[] = sections.flatMap(s => s.l);
 
@@ -208,6 +250,22 @@ export function blobToCourse(
             const block = blob.blocks[blockId];
             if (!block) return null;
 
+            if (block.t === 'ex') {
+                return { id: block.id, type: 'exercise', ...blockToExercise(block) };
+            }
+
+            if (block.t === 'math') {
+                return { id: block.id, type: 'math', latex: block.v };
+            }
+            if (block.t === 'mmd') {
+                return { id: block.id, type: 'diagram', source: block.v };
+            }
+
+            if (block.t === 'callout' || block.t === 'acc' || block.t === 'tabs') {
+                const [layout] = serializeToComponents({ type: 'doc', content: [blockToNode(block)] });
+                return { ...layout, id: block.id };
+            }
+
             // Map blob block types to component types
             let componentType: string = block.t;
             let level: number | undefined;
@@ -248,7 +306,7 @@ export function blobToCourse(
 
         // Build lesson with optional tiptapJson for rich rendering
         const restoredLesson: any = {
-            id: lesson.id,
+            id: lesson.oid || lesson.id,
             title: lesson.t,
             type: 'cms',
             duration: lesson.d || '',
@@ -256,6 +314,10 @@ export function blobToCourse(
             components: components as any[],
         };
 
+        if (lesson.ver !== undefined) {
+            restoredLesson.version = lesson.ver;
+        }
+
         // Restore tiptapJson if it was stored (key 'j')
         if ((lesson as any).j) {
             restoredLesson.tiptapJson = (lesson as any).j;
@@ -281,7 +343,70 @@ export function blobToCourse(
         sections: sections.map(s => ({
             id: s.id,
             title: s.t,
-            lessonIds: s.l,
+            lessonIds: s.l.map(lessonId => originalIds.get(lessonId) || lessonId),
         })),
+        structureVersion: blob.sv || 0,
+        ...(meta.requireAccessibleContent ? { requireAccessibleContent: true } : {}),
     };
 }
+
+/**
+ * Split a CourseBlob into one LessonBlob per lesson (keyed by compact ID)
+ * Each lesson only carries the blocks it references.
+ */
+export function splitCourseBlob(blob: CourseBlob): Record<string, LessonBlob> {
+    const result: Record<string, LessonBlob> = {};
+
+    for (const [lessonId, lesson] of Object.entries(blob.lessons)) {
+        const blocks: Record<string, BlockCompact> = {};
+        for (const blockId of lesson.b) {
+            if (blob.blocks[blockId]) blocks[blockId] = blob.blocks[blockId];
+        }
+        result[lessonId] = { v: blob.v, lesson, blocks };
+    }
+
+    return result;
+}
+
+/**
+ * Convert a structure document to a Course whose lessons have no content yet
+ * Content is fetched per lesson via lessonBlobToLesson
+ */
+export function structureToCourse(
+    id: string,
+    meta: CourseMeta,
+    structure: CourseStructure
+): Course {
+    const lessons: Record<string, LessonCompact> = {};
+    for (const pointer of structure.lessons) {
+        lessons[pointer.id] = {
+            id: pointer.id,
+            t: pointer.t,
+            d: pointer.d,
+            b: [],
+            oid: pointer.oid,
+            ver: pointer.ver,
+        };
+    }
+
+    return blobToCourse(id, meta, structure.sections, {
+        v: structure.v,
+        sv: structure.sv,
+        lessons,
+        blocks: {},
+    });
+}
+
+/**
+ * Convert a single LessonBlob back to a Lesson
+ */
+export function lessonBlobToLesson(lessonBlob: LessonBlob, order = 1): Lesson | null {
+    const { lesson, blocks } = lessonBlob;
+    const course = blobToCourse('', { title: '' }, [], {
+        v: lessonBlob.v,
+        lessons: { [lesson.id]: lesson },
+        blocks,
+    });
+    const restored = course.lessons[0];
+    return restored ? { ...restored, order } : null;
+}
@@ -0,0 +1,173 @@
+/**
+ * Content-Addressed Delta Checkpoints
+ *
+ * Instead of re-uploading the whole CourseBlob every 30s, a checkpoint
+ * stores a small manifest plus a pack of only the chunks that are new:
+ *
+ * - Chunk = one top-level tiptap node (tiptapJson lessons) or one
+ *   BlockCompact without its ID (legacy lessons)
+ * - Chunks are keyed by content hash, so unchanged/duplicated content
+ *   is never uploaded twice
+ * - The manifest maps chunk hash -> pack blob ID
+ *
+ * Pure functions only - upload/download lives in blob-store.ts.
+ */
+
+import crypto from 'crypto';
+import { blocksDiffer } from '@/lib/cms/tiptap-to-blocks';
+import {
+    BlockCompact,
+    ChunkPack,
+    CourseBlob,
+    CourseManifest,
+    ManifestLesson,
+} from '@/lib/types/course-compact';
+
+// Repack everything into one pack once a manifest references this many,
+// so cold loads don't fan out into dozens of downloads
+export const MAX_MANIFEST_PACKS = 16;
+
+// Placeholder pack ID for chunks that still need uploading
+export const PENDING_PACK = '';
+
+export function isCourseManifest(data: unknown): data is CourseManifest {
+    return !!data && typeof data === 'object' && (data as CourseManifest).m === 1;
+}
+
+/**
+ * Content address of a chunk
+ */
+export function hashChunk(chunk: unknown): string {
+    return crypto.createHash('md5').update(JSON.stringify(chunk)).digest('hex');
+}
+
+// Block content without its positional ID (identical blocks share a chunk)
+function blockChunk(block: BlockCompact): Omit<BlockCompact, 'id'> {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { id, ...content } = block;
+    return content;
+}
+
+/**
+ * Build a manifest for a blob, reusing chunks already stored by the
+ * previous manifest.
+ *
+ * previousBlob (when the caller still has it) lets unchanged legacy
+ * blocks skip hashing via blocksDiffer.
+ *
+ * Returns the manifest (new chunks point at PENDING_PACK) and the new
+ * chunks that must be uploaded in a pack.
+ */
+export function buildCourseManifest(
+    blob: CourseBlob,
+    previous?: CourseManifest | null,
+    previousBlob?: CourseBlob | null
+): { manifest: CourseManifest; newChunks: Record<string, unknown>; chunkCount: number } {
+    const packs: Record<string, string> = {};
+    const newChunks: Record<string, unknown> = {};
+
+    const addChunk = (hash: string, chunk: unknown) => {
+        if (packs[hash] !== undefined) return;
+        const existing = previous?.packs[hash];
+        if (existing) {
+            packs[hash] = existing;
+        } else {
+            packs[hash] = PENDING_PACK;
+            newChunks[hash] = chunk;
+        }
+    };
+
+    const blocks: Record<string, string> = {};
+    for (const [blockId, block] of Object.entries(blob.blocks || {})) {
+        const prevBlock = previousBlob?.blocks?.[blockId];
+        const prevHash = previous?.blocks[blockId];
+
+        const chunk = blockChunk(block);
+        const hash = prevBlock && prevHash && !blocksDiffer(prevBlock, block)
+            ? prevHash
+            : hashChunk(chunk);
+
+        blocks[blockId] = hash;
+        addChunk(hash, chunk);
+    }
+
+    const lessons: Record<string, ManifestLesson> = {};
+    for (const [lessonId, lesson] of Object.entries(blob.lessons || {})) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { j, ...rest } = lesson as any;
+        const entry: ManifestLesson = { ...rest };
+
+        if (j) {
+            const { content, ...doc } = j as { content?: unknown[] };
+            entry.jd = doc;
+            entry.jc = (content || []).map(node => {
+                const hash = hashChunk(node);
+                addChunk(hash, node);
+                return hash;
+            });
+        }
+
+        lessons[lessonId] = entry;
+    }
+
+    const manifest: CourseManifest = {
+        v: blob.v,
+        m: 1,
+        lessons,
+        blocks,
+        packs,
+    };
+    if (blob.sv !== undefined) manifest.sv = blob.sv;
+
+    return { manifest, newChunks, chunkCount: Object.keys(packs).length };
+}
+
+/**
+ * Pack IDs a manifest depends on
+ */
+export function getManifestPackIds(manifest: CourseManifest): string[] {
+    return [...new Set(Object.values(manifest.packs).filter(id => id !== PENDING_PACK))];
+}
+
+/**
+ * Rebuild the full CourseBlob from a manifest and its chunk packs
+ * Returns null if any chunk is missing.
+ */
+export function assembleCourseBlob(
+    manifest: CourseManifest,
+    packs: Record<string, ChunkPack>
+): CourseBlob | null {
+    const getChunk = (hash: string): unknown => {
+        const packId = manifest.packs[hash];
+        return packId ? packs[packId]?.c[hash] : undefined;
+    };
+
+    const blocks: Record<string, BlockCompact> = {};
+    for (const [blockId, hash] of Object.entries(manifest.blocks)) {
+        const chunk = getChunk(hash);
+        if (chunk === undefined) return null;
+        blocks[blockId] = { id: blockId, ...(chunk as Omit<BlockCompact, 'id'>) };
+    }
+
+    const lessons: CourseBlob['lessons'] = {};
+    for (const [lessonId, entry] of Object.entries(manifest.lessons)) {
+        const { jd, jc, ...lesson } = entry;
+
+        if (jc) {
+            const content: unknown[] = [];
+            for (const hash of jc) {
+                const node = getChunk(hash);
+                if (node === undefined) return null;
+                content.push(node);
+            }
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (lesson as any).j = { ...jd, content };
+        }
+
+        lessons[lessonId] = lesson;
+    }
+
+    const blob: CourseBlob = { v: manifest.v, lessons, blocks };
+    if (manifest.sv !== undefined) blob.sv = manifest.sv;
+    return blob;
+}
@@ -0,0 +1,189 @@
+/**
+ * Lesson/Block Diff Between Two Course Blobs
+ *
+ * Used by revision history to show what changed between two saves.
+ * Lessons are matched by their stable ID (oid, falling back to L{n});
+ * inside a lesson, blocks (legacy BlockCompact or top-level tiptap
+ * nodes) are diffed in order with an LCS, so moved/edited blocks show
+ * up as removed + added.
+ *
+ * Pure functions only - safe to import from both API routes and the editor.
+ */
+
+import type { CourseBlob, LessonCompact } from '@/lib/types/course-compact';
+
+export type LessonDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+export type BlockDiffStatus = 'added' | 'removed' | 'unchanged';
+
+export interface BlockDiffEntry {
+    status: BlockDiffStatus;
+    type: string;         // Block type ("p", "img") or tiptap node type
+    text: string;         // Plain-text preview
+}
+
+export interface LessonDiff {
+    key: string;                // Stable lesson ID
+    title: string;
+    previousTitle?: string;     // Set when the title changed
+    status: LessonDiffStatus;
+    added: number;
+    removed: number;
+    blocks: BlockDiffEntry[];   // Empty for unchanged lessons
+}
+
+export interface CourseDiff {
+    lessons: LessonDiff[];
+    summary: Record<LessonDiffStatus, number>;
+}
+
+const PREVIEW_LENGTH = 160;
+
+interface DiffUnit {
+    key: string;   // Content fingerprint
+    type: string;
+    text: string;
+}
+
+// Collect text from a tiptap node (text leaves + a few text-like attrs)
+function nodeText(node: unknown): string {
+    if (!node || typeof node !== 'object') return '';
+    const n = node as { text?: string; attrs?: Record<string, unknown>; content?: unknown[] };
+    if (typeof n.text === 'string') return n.text;
+
+    const parts = (n.content || []).map(nodeText).filter(Boolean);
+    if (parts.length === 0 && n.attrs) {
+        const attr = n.attrs.alt || n.attrs.src || n.attrs.title;
+        if (typeof attr === 'string') return attr;
+    }
+    return parts.join(' ');
+}
+
+function preview(text: string): string {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    return clean.length > PREVIEW_LENGTH ? `${clean.slice(0, PREVIEW_LENGTH)}…` : clean;
+}
+
+function lessonUnits(lesson: LessonCompact, blob: CourseBlob): DiffUnit[] {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const doc = (lesson as any).j as { content?: unknown[] } | undefined;
+    if (doc) {
+        return (doc.content || []).map(node => ({
+            key: JSON.stringify(node),
+            type: (node as { type?: string }).type || 'node',
+            text: preview(nodeText(node)),
+        }));
+    }
+
+    return lesson.b
+        .map(blockId => blob.blocks[blockId])
+        .filter(Boolean)
+        .map(block => {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { id, ...content } = block;
+            return {
+                key: JSON.stringify(content),
+                type: block.t,
+                text: preview(block.quiz?.q || block.ex?.t || block.v || block.alt || block.src || ''),
+            };
+        });
+}
+
+/**
+ * Ordered diff of two unit lists (longest common subsequence)
+ */
+function diffUnits(from: DiffUnit[], to: DiffUnit[]): BlockDiffEntry[] {
+    const n = from.length;
+    const m = to.length;
+
+    // lcs[i][j] = LCS length of from[i..] and to[j..]
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = from[i].key === to[j].key
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const entries: BlockDiffEntry[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && from[i].key === to[j].key) {
+            entries.push({ status: 'unchanged', type: to[j].type, text: to[j].text });
+            i++;
+            j++;
+        } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            entries.push({ status: 'added', type: to[j].type, text: to[j].text });
+            j++;
+        } else {
+            entries.push({ status: 'removed', type: from[i].type, text: from[i].text });
+            i++;
+        }
+    }
+    return entries;
+}
+
+const lessonKey = (lesson: LessonCompact) => lesson.oid || lesson.id;
+
+/**
+ * Diff two course blobs (from = older, to = newer)
+ */
+export function diffCourseBlobs(from: CourseBlob, to: CourseBlob): CourseDiff {
+    const fromLessons = new Map(Object.values(from.lessons || {}).map(l => [lessonKey(l), l]));
+    const toKeys = new Set<string>();
+    const lessons: LessonDiff[] = [];
+
+    for (const lesson of Object.values(to.lessons || {})) {
+        const key = lessonKey(lesson);
+        toKeys.add(key);
+        const previous = fromLessons.get(key);
+        const units = lessonUnits(lesson, to);
+
+        if (!previous) {
+            lessons.push({
+                key,
+                title: lesson.t,
+                status: 'added',
+                added: units.length,
+                removed: 0,
+                blocks: units.map(u => ({ status: 'added', type: u.type, text: u.text })),
+            });
+            continue;
+        }
+
+        const blocks = diffUnits(lessonUnits(previous, from), units);
+        const added = blocks.filter(b => b.status === 'added').length;
+        const removed = blocks.filter(b => b.status === 'removed').length;
+        const titleChanged = previous.t !== lesson.t;
+        const changed = titleChanged || added > 0 || removed > 0;
+
+        lessons.push({
+            key,
+            title: lesson.t,
+            ...(titleChanged ? { previousTitle: previous.t } : {}),
+            status: changed ? 'changed' : 'unchanged',
+            added,
+            removed,
+            blocks: changed ? blocks : [],
+        });
+    }
+
+    for (const [key, lesson] of fromLessons) {
+        if (toKeys.has(key)) continue;
+        const units = lessonUnits(lesson, from);
+        lessons.push({
+            key,
+            title: lesson.t,
+            status: 'removed',
+            added: 0,
+            removed: units.length,
+            blocks: units.map(u => ({ status: 'removed', type: u.type, text: u.text })),
+        });
+    }
+
+    const summary: Record<LessonDiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    for (const lesson of lessons) summary[lesson.status]++;
+
+    return { lessons, summary };
+}
@@ -0,0 +1,99 @@
+/**
+ * Find & Replace across courses
+ *
+ * Admin variant of the editor's find & replace: searches every course
+ * draft and re-saves the ones a replacement changes. Replacements are
+ * redone on the newer draft when an author saves in between (see
+ * updateCourseDraft); courses that stay busy are reported as failed.
+ */
+
+import {
+    findInLessons,
+    replaceInLessons,
+    MAX_FIND_MATCHES,
+    type FindOptions,
+    type FindResult,
+} from '@/lib/cms/find-replace';
+import { getCourse, listCourses, updateCourseDraft } from '@/lib/storage/course-storage';
+import type { User } from '@/lib/api/auth-guard';
+
+export interface CoursesReplaceResult {
+    count: number;
+    courseIds: string[];        // Courses that were updated
+    failedCourseIds: string[];
+}
+
+/**
+ * Matches in every course draft (up to MAX_FIND_MATCHES in total)
+ */
+export async function findAcrossCourses(options: FindOptions): Promise<FindResult | { error: string }> {
+    const courses = await listCourses();
+    const result: FindResult = { matches: [], truncated: false };
+
+    for (const { id } of courses) {
+        const course = await getCourse(id);
+        if (!course) continue;
+
+        const found = findInLessons(course.lessons || [], options, { id, title: course.title });
+        if ('error' in found) return found;
+
+        const room = MAX_FIND_MATCHES - result.matches.length;
+        result.matches.push(...found.matches.slice(0, room));
+        if (found.truncated || found.matches.length > room) {
+            result.truncated = true;
+            break;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Replace the given matches (IDs from findAcrossCourses) in their courses
+ */
+export async function replaceAcrossCourses(
+    options: FindOptions,
+    replacement: string,
+    matchIds: string[],
+    author: User
+): Promise<CoursesReplaceResult | { error: string }> {
+    const only = new Set(matchIds);
+    // Match IDs start with the course ID
+    const courseIds = [...new Set(matchIds.map(id => id.split('|')[0]).filter(Boolean))];
+    const result: CoursesReplaceResult = { count: 0, courseIds: [], failedCourseIds: [] };
+
+    for (const courseId of courseIds) {
+        try {
+            // Set by the latest run of the edit (it reruns on a newer draft)
+            let count = 0;
+            let error: string | null = null;
+
+            const saved = await updateCourseDraft(courseId, current => {
+                const replaced = replaceInLessons(current.lessons || [], options, replacement, only, courseId);
+                if ('error' in replaced) {
+                    error = replaced.error;
+                    return null;
+                }
+                count = replaced.count;
+                return count > 0 ? { ...current, lessons: replaced.lessons } : null;
+            }, {
+                kind: 'checkpoint',
+                author,
+            });
+
+            if (error) return { error };
+            if (saved === true) {
+                result.count += count;
+                result.courseIds.push(courseId);
+            } else if (saved !== null) {
+                result.failedCourseIds.push(courseId);
+            }
+        } catch (error) {
+            console.error(`❌ [FindReplace] Replace in ${courseId} failed:`, error);
+            result.failedCourseIds.push(courseId);
+        }
+    }
+
+    console.log(`🔁 [FindReplace] ${result.count} replacement(s) in ${result.courseIds.length} course(s) by ${author.email}`);
+    return result;
+}
@@ -0,0 +1,212 @@
+/**
+ * Publish / Archive a Course (Firestore-Resilient)
+ *
+ * Shared by POST /api/courses/[id]/publish and scheduled jobs
+ * (see course-schedule.ts). Publishing uploads the course as a full
+ * blob, then points `published` and `draft_snapshot` at it. Archiving
+ * takes the course off the catalog but keeps the last published
+ * pointer under `archived` so nothing is lost.
+ */
+
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { Course } from '@/lib/types';
+import { uploadCourseBlob } from '@/lib/storage/blob-store';
+import { getBlobStats } from '@/lib/storage/telegram-storage';
+import { courseToBlob } from '@/lib/storage/course-converter';
+import { commitDraftPointer, uploadCourseSplit } from '@/lib/storage/course-storage';
+import { recordRevision, RevisionAuthor } from '@/lib/storage/course-revisions';
+import { invalidatePointerCache, updatePointerCache } from '@/lib/cache/pointer-cache';
+import {
+    getFromLocalRegistry,
+    markAsSynced,
+    addToLocalRegistry,
+    removeFromLocalRegistry,
+} from '@/lib/cache/local-registry';
+
+export interface PublishResult {
+    file_id: string;
+    hash: string;
+    version: number;
+    lessonCount: number;
+    blockCount: number;
+    firestoreUpdated: boolean;
+    stale: boolean;             // Another save moved the draft since `base`: nothing published
+}
+
+/**
+ * Upload a course and make it the published version
+ * Throws if the blob upload fails; Firestore failures are tolerated.
+ * With the `base` from checkCourseVersions, only publishes over that draft.
+ */
+export async function publishCourseContent(
+    id: string,
+    course: Course,
+    publisher: RevisionAuthor | null,
+    base?: string | null
+): Promise<PublishResult> {
+    const { blob, meta, sections } = courseToBlob(course);
+    const stats = getBlobStats(blob);
+
+    console.log(`📤 [Publish] ${id} (${stats.lessonCount} lessons, ${(stats.sizeBytes / 1024).toFixed(1)}KB)`);
+
+    const { file_id, hash } = await uploadCourseBlob(id, blob);
+    console.log(`✅ [Blob] Published ${id} uploaded`);
+    const structure_file_id = await uploadCourseSplit(id, blob, sections);
+
+    // Try to update Firestore (with timeout, non-blocking)
+    let firestoreUpdated = false;
+    let stale = false;
+    let version = 1;
+
+    const firestoreTimeout = new Promise<void>((_, reject) =>
+        setTimeout(() => reject(new Error('Firestore timeout')), 5000)
+    );
+
+    const firestoreUpdate = async () => {
+        // Merged in case the doc doesn't exist (local registry course)
+        const committed = await commitDraftPointer(id, base, (currentData) => {
+            version = (currentData.published?.version || 0) + 1;
+            return {
+                meta,
+                sections,
+                published: {
+                    tg_file_id: file_id,
+                    version,
+                    hash,
+                    lessonCount: stats.lessonCount,
+                    blockCount: stats.blockCount,
+                    publishedAt: new Date().toISOString(),
+                    ...(publisher ? { publishedBy: publisher.id } : {}),
+                    structure_file_id,
+                },
+                draft_snapshot: {
+                    tg_file_id: file_id,
+                    version,
+                    hash,
+                    dirty: false,
+                    structure_file_id,
+                },
+                structure_version: blob.sv || 0,
+                status: 'published',
+                review: null,           // Review cycle ends with the publish
+                isPublished: true,
+                updatedAt: new Date().toISOString(),
+                createdAt: currentData.createdAt || course.createdAt || new Date().toISOString(),
+            };
+        });
+        if (!committed) {
+            stale = true;
+            return;
+        }
+
+        firestoreUpdated = true;
+
+        await recordRevision(id, {
+            kind: 'publish',
+            blob,
+            meta,
+            sections,
+            file_id,
+            structure_file_id,
+            version,
+            author: publisher,
+        });
+    };
+
+    try {
+        await Promise.race([firestoreUpdate(), firestoreTimeout]);
+        console.log(`✅ [Firestore] ${id} published as version ${version}`);
+    } catch (firestoreError: unknown) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const err = firestoreError as any;
+        if (err?.message === 'Firestore timeout') {
+            console.warn(`⚠️ [Firestore] Timeout - published to Telegram only`);
+        } else if (err?.code === 8 || err?.message?.includes('RESOURCE_EXHAUSTED')) {
+            console.warn(`⚠️ [Firestore] Quota exhausted - published to Telegram only`);
+        } else {
+            console.warn(`⚠️ [Firestore] Error:`, err?.message);
+        }
+        // Continue - Telegram succeeded
+    }
+
+    const result = {
+        file_id,
+        hash,
+        version,
+        lessonCount: stats.lessonCount,
+        blockCount: stats.blockCount,
+        firestoreUpdated,
+        stale,
+    };
+    if (stale) return result;
+
+    // Update pointer cache with new published version
+    try {
+        const pointer = {
+            tg_file_id: file_id,
+            version,
+            hash,
+            meta,
+            sections,
+            structure_file_id: structure_file_id || undefined,
+        };
+        updatePointerCache(id, 'published', pointer);
+        // Draft snapshot now points at the published blob too
+        updatePointerCache(id, 'draft', pointer);
+
+        // Update local registry with the PUBLISHED file_id (very important!)
+        // This ensures students can access the published content
+        const localEntry = await getFromLocalRegistry(id);
+        if (localEntry) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            await addToLocalRegistry(id, file_id, meta as any, sections);
+            await markAsSynced(id);
+            console.log(`✅ [LocalRegistry] Updated ${id} with published file_id`);
+        }
+    } catch (cacheError) {
+        console.warn('⚠️ [Cache] Could not update:', cacheError);
+    }
+
+    return result;
+}
+
+/**
+ * Take a course off the catalog (status: 'archived')
+ * The draft is untouched, so it can be edited and published again.
+ * Returns false if the course doesn't exist or Firestore is unavailable.
+ */
+export async function archiveCourse(id: string, archivedBy: RevisionAuthor | null): Promise<boolean> {
+    try {
+        const db = initAdmin().firestore();
+        const docRef = db.collection('courses').doc(id);
+        const docSnap = await docRef.get();
+        if (!docSnap.exists) return false;
+
+        const published = docSnap.data()?.published || null;
+        await docRef.update({
+            status: 'archived',
+            isPublished: false,
+            published: null,
+            archived: {
+                ...(published || {}),
+                archivedAt: new Date().toISOString(),
+                ...(archivedBy ? { archivedBy: archivedBy.id } : {}),
+            },
+            updatedAt: new Date().toISOString(),
+        });
+
+        // Students must stop seeing the old published pointer immediately.
+        // A synced registry entry is the published copy getPublishedCourse
+        // serves first (pending ones are unsynced drafts, keep those).
+        invalidatePointerCache();
+        const localEntry = await getFromLocalRegistry(id);
+        if (localEntry && !localEntry.pending_sync) {
+            await removeFromLocalRegistry(id);
+        }
+        console.log(`📦 [Archive] ${id} archived`);
+        return true;
+    } catch (error) {
+        console.error(`❌ [Archive] Failed to archive ${id}:`, error);
+        return false;
+    }
+}
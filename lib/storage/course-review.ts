@@ -0,0 +1,94 @@
+/**
+ * Course Review State (Firestore)
+ *
+ * The open review lives on the course document as `review`, next to a
+ * matching `status` ('in_review' / 'changes_requested'). Every publish path
+ * (publish API, chunked publish, scheduled publish) asks getPublishBlock()
+ * first; publishing clears the review.
+ *
+ * Self-approval is refused unless ALLOW_SELF_REVIEW=true (single-admin setups).
+ */
+
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { Course } from '@/lib/types';
+import { getCourse } from '@/lib/storage/course-storage';
+import { getCourseVersions, type CourseVersions } from '@/lib/storage/course-versioning';
+import {
+    applyReviewAction,
+    getPublishBlockReason,
+    statusForReview,
+    type CourseReview,
+    type CourseStatus,
+    type ReviewAction,
+    type ReviewActor,
+} from '@/lib/cms/review';
+
+export interface ReviewInfo {
+    review: CourseReview | null;
+    status: CourseStatus;
+}
+
+function courseRef(courseId: string) {
+    return initAdmin().firestore().collection('courses').doc(courseId);
+}
+
+export async function getCourseReview(courseId: string): Promise<ReviewInfo | null> {
+    const doc = await courseRef(courseId).get();
+    if (!doc.exists) return null;
+
+    const data = doc.data() || {};
+    const review = (data.review as CourseReview | undefined) || null;
+    return { review, status: data.status || statusForReview(review, !!data.published) };
+}
+
+/**
+ * Run a workflow action against the stored review
+ */
+export async function updateCourseReview(
+    courseId: string,
+    action: ReviewAction,
+    actor: ReviewActor,
+    note?: string
+): Promise<ReviewInfo | { error: string; notFound?: boolean }> {
+    // Approval pins the draft as it is right now
+    let approvedVersions: CourseVersions | undefined;
+    if (action === 'approve') {
+        const course = await getCourse(courseId);
+        if (!course) return { error: 'Course not found', notFound: true };
+        approvedVersions = getCourseVersions(course);
+    }
+
+    const ref = courseRef(courseId);
+    return ref.firestore.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        if (!doc.exists) return { error: 'Course not found', notFound: true };
+
+        const data = doc.data() || {};
+        const result = applyReviewAction((data.review as CourseReview | undefined) || null, action, actor, {
+            note,
+            approvedVersions,
+            allowSelfReview: process.env.ALLOW_SELF_REVIEW === 'true',
+        });
+        if ('error' in result) return result;
+
+        const status = statusForReview(result.review, !!data.published, data.status);
+        tx.update(ref, { review: result.review, status, updatedAt: new Date().toISOString() });
+
+        console.log(`📝 [Review] ${courseId}: ${action} by ${actor.id} → ${status}`);
+        return { review: result.review, status };
+    });
+}
+
+/**
+ * Why this course can't be published yet, or null when it's approved.
+ * `course` is the content about to be published (versions already bumped).
+ */
+export async function getPublishBlock(courseId: string, course: Course): Promise<string | null> {
+    try {
+        const info = await getCourseReview(courseId);
+        return getPublishBlockReason(info?.review || null, getCourseVersions(course));
+    } catch (error: any) {
+        console.warn(`⚠️ [Review] Could not read review for ${courseId}:`, error?.message);
+        return 'Could not verify the course review - try again';
+    }
+}
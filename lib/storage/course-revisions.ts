@@ -0,0 +1,173 @@
+/**
+ * Course Revision History
+ *
+ * Every checkpoint and publish appends a document to
+ * courses/{courseId}/revisions, so older blobs stay reachable after the
+ * draft_snapshot/published pointers move on. Blobs are immutable, so a
+ * revision is just a pointer plus stats - no content is copied.
+ *
+ * Restoring a revision saves its content as a NEW draft (with fresh
+ * versions), it never rewrites history or the published pointer.
+ */
+
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { downloadCourseBlob } from '@/lib/storage/blob-store';
+import { getBlobStats } from '@/lib/storage/telegram-storage';
+import { blobToCourse } from '@/lib/storage/course-converter';
+import { getCourse, saveCourse } from '@/lib/storage/course-storage';
+import {
+    applyCourseVersions,
+    bumpCourseVersions,
+    getCourseVersions,
+} from '@/lib/storage/course-versioning';
+import { diffCourseBlobs, CourseDiff } from '@/lib/storage/course-diff';
+import type { CourseBlob, CourseMeta, SectionCompact } from '@/lib/types/course-compact';
+import type { User } from '@/lib/api/auth-guard';
+
+export type RevisionKind = 'checkpoint' | 'publish' | 'restore';
+
+export interface RevisionAuthor {
+    id: string;
+    email?: string;
+    name?: string;
+}
+
+export interface CourseRevision {
+    id: string;
+    kind: RevisionKind;
+    tg_file_id: string;
+    structure_file_id?: string | null;
+    version: number;              // draft_snapshot/published version it was saved as
+    hash: string;
+    lessonCount: number;
+    blockCount: number;
+    sizeBytes: number;
+    meta: CourseMeta;
+    sections: SectionCompact[];
+    author: RevisionAuthor | null;
+    createdAt: string;            // ISO
+    restoredFrom?: string;        // Revision ID (kind === 'restore')
+}
+
+export interface RecordRevisionInput {
+    kind: RevisionKind;
+    blob: CourseBlob;
+    meta: CourseMeta;
+    sections: SectionCompact[];
+    file_id: string;
+    structure_file_id?: string | null;
+    version: number;
+    author?: User | RevisionAuthor | null;
+    restoredFrom?: string;
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+function revisionsCollection(courseId: string) {
+    return initAdmin().firestore().collection('courses').doc(courseId).collection('revisions');
+}
+
+function toAuthor(user?: User | RevisionAuthor | null): RevisionAuthor | null {
+    if (!user) return null;
+    return {
+        id: user.id,
+        ...(user.email ? { email: user.email } : {}),
+        ...(user.name ? { name: user.name } : {}),
+    };
+}
+
+/**
+ * Append a revision (best effort - a failed write never fails the save)
+ * Returns the revision ID, or null if it could not be recorded.
+ */
+export async function recordRevision(courseId: string, input: RecordRevisionInput): Promise<string | null> {
+    try {
+        const stats = getBlobStats(input.blob);
+        const revision: Omit<CourseRevision, 'id'> = {
+            kind: input.kind,
+            tg_file_id: input.file_id,
+            structure_file_id: input.structure_file_id || null,
+            version: input.version,
+            hash: stats.hash,
+            lessonCount: stats.lessonCount,
+            blockCount: stats.blockCount,
+            sizeBytes: stats.sizeBytes,
+            meta: input.meta,
+            sections: input.sections,
+            author: toAuthor(input.author),
+            createdAt: new Date().toISOString(),
+            ...(input.restoredFrom ? { restoredFrom: input.restoredFrom } : {}),
+        };
+
+        const ref = await revisionsCollection(courseId).add(revision);
+        console.log(`📜 [Revisions] ${courseId} ${input.kind} v${input.version} → ${ref.id}`);
+        return ref.id;
+    } catch (error) {
+        console.warn(`⚠️ [Revisions] Could not record ${input.kind} for ${courseId}:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Newest revisions first
+ */
+export async function listRevisions(courseId: string, limit = DEFAULT_LIST_LIMIT): Promise<CourseRevision[]> {
+    const snapshot = await revisionsCollection(courseId)
+        .orderBy('createdAt', 'desc')
+        .limit(limit)
+        .get();
+
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as CourseRevision);
+}
+
+export async function getRevision(courseId: string, revisionId: string): Promise<CourseRevision | null> {
+    const doc = await revisionsCollection(courseId).doc(revisionId).get();
+    return doc.exists ? ({ id: doc.id, ...doc.data() }) as CourseRevision : null;
+}
+
+/**
+ * Lesson- and block-level diff between two revisions (from = older)
+ * Returns null if either revision or its blob is missing.
+ */
+export async function diffRevisions(
+    courseId: string,
+    fromId: string,
+    toId: string
+): Promise<{ from: CourseRevision; to: CourseRevision; diff: CourseDiff } | null> {
+    const [from, to] = await Promise.all([getRevision(courseId, fromId), getRevision(courseId, toId)]);
+    if (!from || !to) return null;
+
+    const [fromBlob, toBlob] = await Promise.all([
+        downloadCourseBlob(from.tg_file_id),
+        downloadCourseBlob(to.tg_file_id),
+    ]);
+    if (!fromBlob || !toBlob) return null;
+
+    return { from, to, diff: diffCourseBlobs(fromBlob, toBlob) };
+}
+
+/**
+ * Save a revision's content as the new draft
+ *
+ * Versions are rebased on the current draft and bumped, so editors that
+ * still have the pre-restore draft open get a conflict instead of
+ * silently overwriting the restore.
+ */
+export async function restoreRevision(courseId: string, revisionId: string, author: User): Promise<boolean> {
+    const revision = await getRevision(courseId, revisionId);
+    if (!revision) return false;
+
+    const blob = await downloadCourseBlob(revision.tg_file_id);
+    if (!blob) {
+        console.error(`❌ [Revisions] Blob missing for ${courseId}/${revisionId}`);
+        return false;
+    }
+
+    const current = await getCourse(courseId);
+    const restored = blobToCourse(courseId, revision.meta, revision.sections, blob);
+    const course = current
+        ? bumpCourseVersions(current, applyCourseVersions(restored, getCourseVersions(current)))
+        : bumpCourseVersions(null, restored);
+
+    return saveCourse(courseId, course, { kind: 'restore', author, restoredFrom: revisionId });
+}
@@ -0,0 +1,244 @@
+/**
+ * Scheduled Publish / Archive
+ *
+ * Schedules live in the `course_schedules` collection:
+ *   { courseId, action: 'publish' | 'archive', runAt, status, createdBy }
+ *
+ * /api/cron/course-schedules runs due schedules every few minutes.
+ * A schedule is claimed in a transaction (pending -> running) before it
+ * runs, so overlapping cron invocations never publish twice. A claim
+ * still running after CLAIM_TIMEOUT_MS means its run died (e.g. hit the
+ * function time limit); the next run marks it failed. The author is
+ * notified through the `notifications` collection either way.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { initAdmin } from '@/lib/auth/firebase-admin';
+import { getCourse } from '@/lib/storage/course-storage';
+import { isBlobStoreEnabled } from '@/lib/storage/blob-store';
+import { publishCourseContent, archiveCourse } from '@/lib/storage/course-publish';
+import { getPublishBlock } from '@/lib/storage/course-review';
+import { getAccessibilityBlockReason } from '@/lib/cms/accessibility';
+import type { RevisionAuthor } from '@/lib/storage/course-revisions';
+
+export type ScheduleAction = 'publish' | 'archive';
+export type ScheduleStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface CourseSchedule {
+    id: string;
+    courseId: string;
+    courseTitle: string;
+    action: ScheduleAction;
+    runAt: string;            // ISO
+    status: ScheduleStatus;
+    createdBy: RevisionAuthor;
+    createdAt: string;        // ISO
+    claimedAt?: string;       // ISO, set when it starts running
+    executedAt?: string;
+    error?: string;
+}
+
+export interface ScheduleRunReport {
+    due: number;
+    done: number;
+    failed: number;
+    skipped: number;          // Claimed by another run
+    timedOut: number;         // Runs that died mid-way, now marked failed
+}
+
+export const SCHEDULE_ACTIONS: ScheduleAction[] = ['publish', 'archive'];
+
+const COLLECTION = 'course_schedules';
+
+// Longer than the cron route's maxDuration, so a live run is never timed out
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+function schedulesCollection() {
+    return initAdmin().firestore().collection(COLLECTION);
+}
+
+/**
+ * Create a pending schedule (runAt must already be validated as future)
+ */
+export async function createSchedule(
+    courseId: string,
+    courseTitle: string,
+    action: ScheduleAction,
+    runAt: Date,
+    createdBy: RevisionAuthor
+): Promise<CourseSchedule> {
+    const schedule: Omit<CourseSchedule, 'id'> = {
+        courseId,
+        courseTitle,
+        action,
+        runAt: runAt.toISOString(),
+        status: 'pending',
+        createdBy: {
+            id: createdBy.id,
+            ...(createdBy.email ? { email: createdBy.email } : {}),
+            ...(createdBy.name ? { name: createdBy.name } : {}),
+        },
+        createdAt: new Date().toISOString(),
+    };
+
+    const ref = await schedulesCollection().add(schedule);
+    console.log(`⏰ [Schedule] ${action} ${courseId} at ${schedule.runAt} → ${ref.id}`);
+    return { id: ref.id, ...schedule };
+}
+
+/**
+ * Pending schedules, soonest first (optionally for one course)
+ *
+ * Filters on status only and sorts in memory, so no composite index
+ * is needed - pending schedules are a handful at most.
+ */
+export async function listPendingSchedules(courseId?: string): Promise<CourseSchedule[]> {
+    let query = schedulesCollection().where('status', '==', 'pending');
+    if (courseId) query = query.where('courseId', '==', courseId);
+
+    const snapshot = await query.get();
+    return snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() }) as CourseSchedule)
+        .sort((a, b) => a.runAt.localeCompare(b.runAt));
+}
+
+/**
+ * Cancel a pending schedule
+ * Returns false if it doesn't exist, belongs to another course or already ran.
+ */
+export async function cancelSchedule(courseId: string, scheduleId: string): Promise<boolean> {
+    const db = initAdmin().firestore();
+    const ref = schedulesCollection().doc(scheduleId);
+
+    return db.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        const data = doc.data();
+        if (!doc.exists || data?.courseId !== courseId || data?.status !== 'pending') {
+            return false;
+        }
+        tx.update(ref, { status: 'cancelled' });
+        return true;
+    });
+}
+
+/**
+ * Move a schedule from pending to running, unless another run got there first
+ */
+async function claimSchedule(scheduleId: string): Promise<boolean> {
+    const db = initAdmin().firestore();
+    const ref = schedulesCollection().doc(scheduleId);
+
+    return db.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        if (doc.data()?.status !== 'pending') return false;
+        tx.update(ref, { status: 'running', claimedAt: new Date().toISOString() });
+        return true;
+    });
+}
+
+/**
+ * Mark a running schedule failed if its claim is older than CLAIM_TIMEOUT_MS
+ * (claims from before claimedAt existed count as stale)
+ */
+async function failTimedOutClaim(scheduleId: string, now: Date): Promise<CourseSchedule | null> {
+    const db = initAdmin().firestore();
+    const ref = schedulesCollection().doc(scheduleId);
+
+    return db.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        const schedule = { id: doc.id, ...doc.data() } as CourseSchedule;
+        if (schedule.status !== 'running') return null;
+        if (schedule.claimedAt && now.getTime() - new Date(schedule.claimedAt).getTime() < CLAIM_TIMEOUT_MS) {
+            return null;
+        }
+
+        const error = 'The scheduled run did not finish in time. Check the course and schedule it again.';
+        tx.update(ref, { status: 'failed', executedAt: now.toISOString(), error });
+        return { ...schedule, status: 'failed', error };
+    });
+}
+
+async function executeSchedule(schedule: CourseSchedule): Promise<void> {
+    if (schedule.action === 'archive') {
+        if (!(await archiveCourse(schedule.courseId, schedule.createdBy))) {
+            throw new Error('Course not found or could not be archived');
+        }
+        return;
+    }
+
+    if (!isBlobStoreEnabled()) {
+        throw new Error('Blob storage not configured');
+    }
+
+    // Publishes the current draft, same as the publish button without a body
+    const course = await getCourse(schedule.courseId);
+    if (!course) {
+        throw new Error('Course not found');
+    }
+    const block = await getPublishBlock(schedule.courseId, course) || getAccessibilityBlockReason(course);
+    if (block) {
+        throw new Error(block);
+    }
+    await publishCourseContent(schedule.courseId, course, schedule.createdBy);
+}
+
+async function notifyAuthor(schedule: CourseSchedule, error?: string): Promise<void> {
+    const verb = schedule.action === 'publish' ? 'published' : 'archived';
+    try {
+        await initAdmin().firestore().collection('notifications').add({
+            userId: schedule.createdBy.id,
+            title: error ? `Scheduled ${schedule.action} failed` : `Course ${verb}`,
+            message: error
+                ? `"${schedule.courseTitle}" could not be ${verb}: ${error}`
+                : `"${schedule.courseTitle}" was ${verb} as scheduled.`,
+            type: error ? 'error' : 'success',
+            link: `/editor/${schedule.courseId}`,
+            read: false,
+            createdAt: FieldValue.serverTimestamp(),
+        });
+    } catch (notifyError) {
+        console.warn(`⚠️ [Schedule] Could not notify ${schedule.createdBy.id}:`, notifyError);
+    }
+}
+
+/**
+ * Run every pending schedule whose time has come
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<ScheduleRunReport> {
+    const due = (await listPendingSchedules()).filter(s => new Date(s.runAt) <= now);
+    const report: ScheduleRunReport = { due: due.length, done: 0, failed: 0, skipped: 0, timedOut: 0 };
+
+    const running = await schedulesCollection().where('status', '==', 'running').get();
+    for (const doc of running.docs) {
+        const timedOut = await failTimedOutClaim(doc.id, now);
+        if (!timedOut) continue;
+
+        await notifyAuthor(timedOut, timedOut.error);
+        report.timedOut++;
+        console.error(`❌ [Schedule] ${timedOut.action} ${timedOut.courseId} timed out`);
+    }
+
+    for (const schedule of due) {
+        if (!(await claimSchedule(schedule.id))) {
+            report.skipped++;
+            continue;
+        }
+
+        const ref = schedulesCollection().doc(schedule.id);
+        try {
+            await executeSchedule(schedule);
+            await ref.update({ status: 'done', executedAt: new Date().toISOString() });
+            await notifyAuthor(schedule);
+            report.done++;
+            console.log(`✅ [Schedule] ${schedule.action} ${schedule.courseId} done`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await ref.update({ status: 'failed', executedAt: new Date().toISOString(), error: message });
+            await notifyAuthor(schedule, message);
+            report.failed++;
+            console.error(`❌ [Schedule] ${schedule.action} ${schedule.courseId} failed:`, message);
+        }
+    }
+
+    return report;
+}
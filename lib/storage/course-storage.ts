@@ -1,17 +1,21 @@
 /**
- * Course Storage Layer (Telegram + Firestore)
+ * Course Storage Layer (BlobStore + Firestore)
  * 
  * Combines:
  * - Firestore: Skeleton (metadata, sections, pointers)
- * - Telegram: Body (immutable course blobs)
- * - GDrive: Fallback if Telegram fails
+ * - BlobStore: Body (immutable course blobs; Telegram by default, see blob-store.ts)
+ * - GDrive: Fallback if the blob store fails
  */
 
 import { initAdmin } from '@/lib/auth/firebase-admin';
-import { Course } from '@/lib/types';
+import { Course, Lesson } from '@/lib/types';
 import {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     CourseBlob,
+    CourseMeta,
+    CourseStructure,
+    LessonBlob,
+    LessonPointer,
+    SectionCompact,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     CourseFirestore,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -20,10 +24,24 @@ import {
 import {
     uploadCourseBlob,
     downloadCourseBlob,
-    isTelegramEnabled,
-    getBlobStats
-} from '@/lib/storage/telegram-storage';
-import { courseToBlob, blobToCourse } from '@/lib/storage/course-converter';
+    uploadJsonBlob,
+    downloadJsonBlob,
+    isBlobStoreEnabled,
+    getBlobBackend
+} from '@/lib/storage/blob-store';
+import { hashJson, getBlobStats } from '@/lib/storage/telegram-storage';
+import {
+    courseToBlob,
+    blobToCourse,
+    splitCourseBlob,
+    structureToCourse,
+    lessonBlobToLesson
+} from '@/lib/storage/course-converter';
+import {
+    VersionConflict,
+    findVersionConflict,
+    bumpCourseVersions
+} from '@/lib/storage/course-versioning';
 import {
     saveCourseToGDrive,
     getCourseFromGDrive,
@@ -33,11 +51,9 @@ import {
     getPublishedPointer,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     getDraftPointer,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     getAnyPointer,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     invalidatePointerCache,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     updatePointerCache,
     removeFromPointerCache
 } from '@/lib/cache/pointer-cache';
@@ -47,6 +63,9 @@ import {
     getAllLocalCourses,
     removeFromLocalRegistry
 } from '@/lib/cache/local-registry';
+import { recordRevision, RecordRevisionInput } from '@/lib/storage/course-revisions';
+import { recordTemplateUsage } from '@/lib/firebase/template-operations';
+import { statusForReview } from '@/lib/cms/review';
 
 /**
  * Get Firestore instance
@@ -247,24 +266,58 @@ export async function getPublishedCourse(id: string): Promise<Course | null> {
 }
 
 /**
- * Save course (Telegram-first, Firestore-resilient)
+ * Save course (blob-store-first, Firestore-resilient)
  * 
  * Priority:
- * 1. Telegram upload (always succeeds, no quota)
+ * 1. Blob store upload (Telegram by default, no quota)
  * 2. Firestore pointer (optional - may fail if quota exhausted)
  * 3. GDrive fallback
+ *
+ * Pass `revision` to also append to the revision history, and the `base`
+ * from checkCourseVersions to return 'stale' (nothing saved) when another
+ * save moved the draft since the check.
  */
-export async function saveCourse(id: string, course: Course): Promise<boolean> {
+export async function saveCourse(
+    id: string,
+    course: Course,
+    revision?: Pick<RecordRevisionInput, 'kind' | 'author' | 'restoredFrom'>
+): Promise<boolean>;
+export async function saveCourse(
+    id: string,
+    course: Course,
+    revision: Pick<RecordRevisionInput, 'kind' | 'author' | 'restoredFrom'> | undefined,
+    base: string | null
+): Promise<boolean | 'stale'>;
+export async function saveCourse(
+    id: string,
+    course: Course,
+    revision?: Pick<RecordRevisionInput, 'kind' | 'author' | 'restoredFrom'>,
+    base?: string | null
+): Promise<boolean | 'stale'> {
+    const saved = await writeCourse(id, course, revision, base);
+
+    // Linked snippets: remember where templates are used (never blocks the save)
+    if (saved === true) void recordTemplateUsage(id, course);
+    return saved;
+}
+
+async function writeCourse(
+    id: string,
+    course: Course,
+    revision?: Pick<RecordRevisionInput, 'kind' | 'author' | 'restoredFrom'>,
+    base?: string | null
+): Promise<boolean | 'stale'> {
     const { blob, meta, sections } = courseToBlob(course);
     const stats = getBlobStats(blob);
 
     console.log(`📦 Saving ${id} (${stats.lessonCount} lessons, ${(stats.sizeBytes / 1024).toFixed(1)}KB)`);
 
-    // Step 1: Try Telegram first (no quota limits)
-    if (isTelegramEnabled()) {
+    // Step 1: Try the blob store first (no quota limits)
+    if (isBlobStoreEnabled()) {
         try {
             const { file_id, hash } = await uploadCourseBlob(id, blob);
-            console.log(`✅ [Telegram] ${id} saved`);
+            console.log(`✅ [${getBlobBackend()}] ${id} saved`);
+            const structure_file_id = await uploadCourseSplit(id, blob, sections);
 
             // Step 2: Try to update Firestore pointer (optional, with timeout)
             // Use Promise.race to timeout after 5 seconds
@@ -272,34 +325,63 @@ export async function saveCourse(id: string, course: Course): Promise<boolean> {
                 setTimeout(() => reject(new Error('Firestore timeout')), 5000)
             );
 
+            let stale = false;
             const firestoreUpdate = async () => {
                 const db = getFirestore();
                 if (db) {
-                    const existingDoc = await db.collection('courses').doc(id).get();
-                    const existingData = existingDoc.exists ? existingDoc.data() : {};
-
-                    await db.collection('courses').doc(id).set({
+                    let draftVersion = 1;
+                    const committed = await commitDraftPointer(id, base, (existingData) => {
+                        draftVersion = (existingData.draft_snapshot?.version || 0) + 1;
+                        return {
+                            meta,
+                            sections,
+                            draft_snapshot: {
+                                tg_file_id: file_id,
+                                version: draftVersion,
+                                hash,
+                                savedAt: new Date().toISOString(),
+                                dirty: true,
+                                structure_file_id,
+                            },
+                            published: existingData.published || null,
+                            structure_version: blob.sv || 0,
+                            status: statusForReview(existingData.review || null, !!existingData.published, existingData.status),
+                            createdAt: course.createdAt || existingData.createdAt || new Date().toISOString(),
+                            updatedAt: new Date().toISOString(),
+                        };
+                    });
+                    if (!committed) {
+                        stale = true;
+                        return;
+                    }
+
+                    updatePointerCache(id, 'draft', {
+                        tg_file_id: file_id,
+                        version: draftVersion,
+                        hash,
                         meta,
                         sections,
-                        draft_snapshot: {
-                            tg_file_id: file_id,
-                            version: (existingData?.draft_snapshot?.version || 0) + 1,
-                            hash,
-                            savedAt: new Date().toISOString(),
-                            dirty: true,
-                        },
-                        published: existingData?.published || null,
-                        status: existingData?.published ? 'published' : 'draft',
-                        createdAt: course.createdAt || existingData?.createdAt || new Date().toISOString(),
-                        updatedAt: new Date().toISOString(),
-                    }, { merge: true });
-
+                        structure_file_id: structure_file_id || undefined,
+                    });
                     console.log(`✅ [Firestore] ${id} pointer updated`);
+
+                    if (revision) {
+                        await recordRevision(id, {
+                            ...revision,
+                            blob,
+                            meta,
+                            sections,
+                            file_id,
+                            structure_file_id,
+                            version: draftVersion,
+                        });
+                    }
                 }
             };
 
             try {
                 await Promise.race([firestoreUpdate(), firestoreTimeout]);
+                if (stale) return 'stale';
             } catch (firestoreError: unknown) {
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
                 const err = firestoreError as any;
@@ -353,6 +435,253 @@ export async function saveCourse(id: string, course: Course): Promise<boolean> {
     }
 }
 
+// Split blobs are immutable per file_id, so they can be cached forever in memory
+const SPLIT_CACHE_MAX = 200;
+const splitBlobCache = new Map<string, unknown>();
+
+async function downloadSplitBlob<T>(file_id: string): Promise<T | null> {
+    if (splitBlobCache.has(file_id)) {
+        return splitBlobCache.get(file_id) as T;
+    }
+
+    const data = await downloadJsonBlob<T>(file_id);
+    if (data) {
+        if (splitBlobCache.size >= SPLIT_CACHE_MAX) {
+            // Evict oldest entry (Map keeps insertion order)
+            splitBlobCache.delete(splitBlobCache.keys().next().value!);
+        }
+        splitBlobCache.set(file_id, data);
+    }
+    return data;
+}
+
+/**
+ * Upload the split form of a course (structure + one blob per lesson)
+ *
+ * Lessons whose content hash matches the previous structure reuse the
+ * existing file, so a save only uploads the lessons that changed.
+ * Returns the structure file_id, or null if the split upload failed
+ * (the full CourseBlob stays the source of truth).
+ */
+export async function uploadCourseSplit(
+    id: string,
+    blob: CourseBlob,
+    sections: SectionCompact[]
+): Promise<string | null> {
+    try {
+        // Previous structure (for reusing unchanged lesson blobs)
+        const pointer = await getAnyPointer(id);
+        const previous = pointer?.structure_file_id
+            ? await downloadSplitBlob<CourseStructure>(pointer.structure_file_id)
+            : null;
+        const previousByHash = new Map((previous?.lessons || []).map(l => [l.h, l.f]));
+
+        const lessonBlobs = splitCourseBlob(blob);
+        const lessons: LessonPointer[] = [];
+        let uploaded = 0;
+
+        for (const [lessonId, lessonBlob] of Object.entries(lessonBlobs)) {
+            const hash = hashJson(lessonBlob);
+            let file_id = previousByHash.get(hash);
+
+            if (!file_id) {
+                file_id = (await uploadJsonBlob(`${id}.${lessonId}`, lessonBlob)).file_id;
+                uploaded++;
+            }
+
+            const { lesson } = lessonBlob;
+            lessons.push({
+                id: lessonId,
+                oid: lesson.oid,
+                t: lesson.t,
+                d: lesson.d,
+                ver: lesson.ver,
+                f: file_id,
+                h: hash,
+            });
+        }
+
+        const structure: CourseStructure = {
+            v: blob.v,
+            sv: blob.sv,
+            sections,
+            lessons,
+        };
+        const { file_id } = await uploadJsonBlob(`${id}.structure`, structure);
+
+        console.log(`✅ [Split] ${id}: ${uploaded}/${lessons.length} lesson blob(s) uploaded`);
+        return file_id;
+    } catch (error) {
+        console.warn(`⚠️ [Split] Upload failed for ${id}, full blob only:`, error);
+        return null;
+    }
+}
+
+/**
+ * Get course structure only (lesson titles/order, no content)
+ * Draft preferred, like getCourse. Falls back to the full blob for
+ * courses saved before split storage existed.
+ */
+export async function getCourseStructure(id: string): Promise<Course | null> {
+    const pointer = await getAnyPointer(id);
+
+    if (pointer?.structure_file_id) {
+        const structure = await downloadSplitBlob<CourseStructure>(pointer.structure_file_id);
+        if (structure) {
+            return structureToCourse(id, (pointer.meta || { title: id }) as CourseMeta, structure);
+        }
+    }
+
+    const course = await getCourse(id);
+    if (!course) return null;
+
+    return {
+        ...course,
+        lessons: course.lessons.map(lesson => ({
+            id: lesson.id,
+            title: lesson.title,
+            type: lesson.type,
+            duration: lesson.duration,
+            order: lesson.order,
+            version: lesson.version,
+            components: [],
+        })),
+    };
+}
+
+/**
+ * Get a single lesson with content (lazy loading)
+ */
+export async function getCourseLesson(id: string, lessonId: string): Promise<Lesson | null> {
+    const pointer = await getAnyPointer(id);
+
+    if (pointer?.structure_file_id) {
+        const structure = await downloadSplitBlob<CourseStructure>(pointer.structure_file_id);
+        const index = structure?.lessons.findIndex(l => (l.oid || l.id) === lessonId) ?? -1;
+
+        if (structure && index >= 0) {
+            const lessonBlob = await downloadSplitBlob<LessonBlob>(structure.lessons[index].f);
+            if (lessonBlob) {
+                return lessonBlobToLesson(lessonBlob, index + 1);
+            }
+        }
+    }
+
+    const course = await getCourse(id);
+    return course?.lessons.find(l => l.id === lessonId) || null;
+}
+
+export type VersionCheckResult =
+    | { ok: true; course: Course; base: string | null }
+    | { ok: false; conflict: VersionConflict; current: Course };
+
+/**
+ * Blob the draft points at (what getCourse loads), null without one
+ */
+function draftBase(data: FirebaseFirestore.DocumentData | undefined): string | null {
+    return data?.draft_snapshot?.tg_file_id || data?.published?.tg_file_id || null;
+}
+
+/**
+ * Optimistic-locking check for full-course writes (save, checkpoint, publish)
+ *
+ * Compares the lesson versions and structure_version the client loaded
+ * against the current draft. On success returns the course with bumped
+ * versions, ready to be written, and the `base` it was checked against:
+ * pass it to commitDraftPointer so the write only lands on that draft.
+ */
+export async function checkCourseVersions(id: string, course: Course): Promise<VersionCheckResult> {
+    // Read the pointer before the content: a save in between makes the
+    // base older than what we compared, which fails safe at commit
+    let base: string | null = null;
+    const db = getFirestore();
+    if (db) {
+        try {
+            base = draftBase((await db.collection('courses').doc(id).get()).data());
+        } catch (error) {
+            console.warn(`⚠️ [Versions] Could not read the draft pointer for ${id}:`, error);
+        }
+    }
+
+    const current = await getCourse(id);
+
+    if (current) {
+        const conflict = findVersionConflict(current, course);
+        if (conflict) {
+            console.warn(`⚠️ [Versions] Stale write for ${id}: ${conflict.lessons.length} lesson(s)${conflict.structure ? ' + structure' : ''} out of date`);
+            return { ok: false, conflict, current };
+        }
+    }
+
+    return { ok: true, course: bumpCourseVersions(current, course), base };
+}
+
+/**
+ * Point the course doc at a new draft, atomically with the version check
+ *
+ * `build` gets the current doc data and returns the fields to merge. With
+ * a `base` (from checkCourseVersions) nothing is written unless the draft
+ * still points there; returns false when another save got in first.
+ * Throws on Firestore errors, like a plain set would.
+ */
+export async function commitDraftPointer(
+    id: string,
+    base: string | null | undefined,
+    build: (existing: FirebaseFirestore.DocumentData) => FirebaseFirestore.DocumentData
+): Promise<boolean> {
+    const db = initAdmin().firestore();
+    const docRef = db.collection('courses').doc(id);
+
+    return db.runTransaction(async (tx) => {
+        const doc = await tx.get(docRef);
+        const existing = doc.exists ? doc.data() || {} : {};
+        if (base !== undefined && draftBase(existing) !== base) {
+            console.warn(`⚠️ [Versions] Draft of ${id} moved during the save - rejecting`);
+            return false;
+        }
+
+        tx.set(docRef, build(existing), { merge: true });
+        return true;
+    });
+}
+
+// Attempts of a server-side edit before it gives up on a busy draft
+const UPDATE_DRAFT_RETRIES = 3;
+
+/**
+ * Server-side edit of a course draft (template sync, find & replace)
+ *
+ * `update` gets the current draft and returns the edited course, or null
+ * to leave it alone. The save is version-checked against the draft it was
+ * made from, so an author checkpoint landing in between is never
+ * overwritten: the edit is redone on the newer draft instead, and 'stale'
+ * returned if the draft keeps moving. Null if nothing was saved.
+ */
+export async function updateCourseDraft(
+    id: string,
+    update: (current: Course) => Course | null,
+    revision?: Pick<RecordRevisionInput, 'kind' | 'author' | 'restoredFrom'>
+): Promise<boolean | 'stale' | null> {
+    for (let attempt = 0; attempt < UPDATE_DRAFT_RETRIES; attempt++) {
+        const current = await getCourse(id);
+        if (!current) return null;
+
+        const updated = update(current);
+        if (!updated) return null;
+
+        // Bumps the versions of the edited lessons, so open editors see the
+        // change as a conflict on their next checkpoint
+        const versionCheck = await checkCourseVersions(id, updated);
+        if (!versionCheck.ok) continue;
+
+        const saved = await saveCourse(id, versionCheck.course, revision, versionCheck.base);
+        if (saved !== 'stale') return saved;
+    }
+
+    console.warn(`⚠️ [Versions] ${id} kept changing - server-side edit not saved`);
+    return 'stale';
+}
+
 /**
  * List all courses (metadata only, Firestore-resilient)
  * Includes courses from local registry (saved during Firestore outage)
@@ -438,6 +767,21 @@ export async function listCourses(): Promise<Course[]> {
     return uniqueCourses;
 }
 
+/**
+ * Pick a course ID for an imported course without overwriting anything
+ * ("My Package.zip" → "my-package", or "my-package-<timestamp>" if taken)
+ */
+export async function allocateCourseId(name: string): Promise<string> {
+    const slug = name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/(^-|-$)/g, '')
+        .slice(0, 50);
+
+    if (!slug) return `course-${Date.now()}`;
+    return (await getCourse(slug)) ? `${slug}-${Date.now()}` : slug;
+}
+
 /**
  * Delete course (from Firestore AND local registry AND pointer cache)
  */
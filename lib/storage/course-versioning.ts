@@ -0,0 +1,205 @@
+/**
+ * Optimistic Locking for Course Saves
+ *
+ * Every lesson carries a `version` and the course carries a
+ * `structureVersion` (lesson/section ordering). Clients send back the
+ * versions they loaded; the server rejects the save with 409 if any of
+ * them is stale, otherwise it bumps the versions of whatever changed.
+ *
+ * Pure functions only - safe to import from both API routes and the editor.
+ */
+
+import { Course, Lesson } from '@/lib/types';
+
+// Versions as seen by a client (lesson ID -> version)
+export interface CourseVersions {
+    structureVersion: number;
+    lessons: Record<string, number>;
+}
+
+export interface LessonVersionConflict {
+    id: string;
+    title: string;
+    expected: number;  // Version the client loaded
+    current: number;   // Version on the server
+}
+
+export interface VersionConflict {
+    structure: { expected: number; current: number } | null;
+    lessons: LessonVersionConflict[];
+}
+
+// Body of a 409 response from any course write endpoint
+export interface VersionConflictResponse {
+    error: string;
+    conflict: VersionConflict;
+    versions: CourseVersions;
+    current: Course;
+}
+
+/**
+ * Extract the version map from a course
+ */
+export function getCourseVersions(course: Course): CourseVersions {
+    const lessons: Record<string, number> = {};
+    for (const lesson of course.lessons || []) {
+        lessons[lesson.id] = lesson.version || 0;
+    }
+    return {
+        structureVersion: course.structureVersion || 0,
+        lessons,
+    };
+}
+
+/**
+ * Stamp a version map onto a course (lessons not in the map are left alone)
+ */
+export function applyCourseVersions(course: Course, versions: CourseVersions): Course {
+    return {
+        ...course,
+        structureVersion: versions.structureVersion,
+        lessons: (course.lessons || []).map(lesson =>
+            versions.lessons[lesson.id] !== undefined
+                ? { ...lesson, version: versions.lessons[lesson.id] }
+                : lesson
+        ),
+    };
+}
+
+/**
+ * Compare the versions a client sent against the server's current course.
+ * Lessons the server doesn't know yet are new and never conflict, and
+ * neither do stale lessons whose content already matches the server's
+ * (co-authors checkpointing the same merged document).
+ */
+export function findVersionConflict(current: Course, incoming: Course): VersionConflict | null {
+    const currentStructure = current.structureVersion || 0;
+    const expectedStructure = incoming.structureVersion || 0;
+
+    const structure = currentStructure !== expectedStructure
+        ? { expected: expectedStructure, current: currentStructure }
+        : null;
+
+    const currentLessons = new Map((current.lessons || []).map(l => [l.id, l]));
+    const lessons: LessonVersionConflict[] = [];
+
+    for (const lesson of incoming.lessons || []) {
+        const serverLesson = currentLessons.get(lesson.id);
+        if (!serverLesson) continue;
+
+        const expected = lesson.version || 0;
+        const serverVersion = serverLesson.version || 0;
+        if (expected !== serverVersion && lessonFingerprint(serverLesson) !== lessonFingerprint(lesson)) {
+            lessons.push({
+                id: lesson.id,
+                title: serverLesson.title,
+                expected,
+                current: serverVersion,
+            });
+        }
+    }
+
+    if (!structure && lessons.length === 0) return null;
+    return { structure, lessons };
+}
+
+/**
+ * Content fingerprint used to decide whether a lesson changed.
+ * Only fields the blob persists; tiptapJson is authoritative when present.
+ */
+function lessonFingerprint(lesson: Lesson): string {
+    const body = lesson.tiptapJson ? { j: lesson.tiptapJson } : { c: lesson.components || [] };
+    return JSON.stringify({ t: lesson.title, d: lesson.duration || '', ...body });
+}
+
+function structureFingerprint(course: Course): string {
+    return JSON.stringify({
+        lessons: (course.lessons || []).map(l => l.id),
+        sections: (course.sections || []).map(s => [s.id, s.title, s.lessonIds]),
+    });
+}
+
+/**
+ * Assign new versions to an accepted save:
+ * - changed lessons get current + 1, unchanged keep their version, new start at 1
+ * - structureVersion is bumped when lessons/sections were added, removed or reordered
+ */
+export function bumpCourseVersions(current: Course | null, incoming: Course): Course {
+    const currentLessons = new Map((current?.lessons || []).map(l => [l.id, l]));
+
+    const lessons = (incoming.lessons || []).map(lesson => {
+        const serverLesson = currentLessons.get(lesson.id);
+        if (!serverLesson) {
+            return { ...lesson, version: 1 };
+        }
+        const serverVersion = serverLesson.version || 0;
+        const changed = lessonFingerprint(serverLesson) !== lessonFingerprint(lesson);
+        return { ...lesson, version: changed ? serverVersion + 1 : serverVersion };
+    });
+
+    const currentStructure = current?.structureVersion || 0;
+    const structureChanged = !current || structureFingerprint(current) !== structureFingerprint(incoming);
+
+    return {
+        ...incoming,
+        lessons,
+        structureVersion: structureChanged ? currentStructure + 1 : currentStructure,
+    };
+}
+
+/**
+ * Merge a stale local course onto the server's newer copy.
+ *
+ * - Lessons the local author edited (dirtyLessonIds) keep local content,
+ *   rebased on the server version (local wins)
+ * - Untouched lessons take the server's content
+ * - Lessons added on the server are appended; lessons deleted on the
+ *   server are dropped unless they were edited or created locally
+ * - Lessons deleted locally (listed in dirtyLessonIds) stay deleted
+ */
+export function mergeCourseVersions(
+    local: Course,
+    server: Course,
+    dirtyLessonIds: Iterable<string>
+): Course {
+    const dirty = new Set(dirtyLessonIds);
+    const serverLessons = new Map((server.lessons || []).map(l => [l.id, l]));
+    const localIds = new Set((local.lessons || []).map(l => l.id));
+
+    const lessons: Lesson[] = [];
+    for (const lesson of local.lessons || []) {
+        const serverLesson = serverLessons.get(lesson.id);
+        if (serverLesson) {
+            lessons.push(dirty.has(lesson.id)
+                ? { ...lesson, version: serverLesson.version || 0 }
+                : serverLesson);
+        } else if (dirty.has(lesson.id) || !lesson.version) {
+            lessons.push(lesson);
+        }
+    }
+
+    const added = (server.lessons || []).filter(l => !localIds.has(l.id) && !dirty.has(l.id));
+    lessons.push(...added);
+
+    // Keep local sections, but file server-added lessons where the server had them
+    const sections = (local.sections || []).map(s => ({ ...s, lessonIds: [...s.lessonIds] }));
+    for (const lesson of added) {
+        if (sections.length === 0) break;
+        const serverSection = (server.sections || []).find(s => s.lessonIds.includes(lesson.id));
+        const target = sections.find(s => s.id === serverSection?.id) || sections[sections.length - 1];
+        target.lessonIds.push(lesson.id);
+    }
+
+    const keptIds = new Set(lessons.map(l => l.id));
+    for (const section of sections) {
+        section.lessonIds = section.lessonIds.filter(id => keptIds.has(id));
+    }
+
+    return {
+        ...local,
+        lessons: lessons.map((lesson, i) => ({ ...lesson, order: i + 1 })),
+        sections,
+        lessonsCount: lessons.length,
+        structureVersion: server.structureVersion || 0,
+    };
+}
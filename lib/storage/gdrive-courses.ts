@@ -7,6 +7,7 @@
 import { google } from 'googleapis';
 import { Readable } from 'stream';
 import { Course } from '@/lib/types';
+import { md5, toBlobId, parseBlobId, type BlobStore, type BlobListEntry } from '@/lib/storage/blob-store';
 
 // Drive API client (singleton)
 let driveClient: ReturnType<typeof google.drive> | null = null;
@@ -98,6 +99,14 @@ async function getCoursesFolder(): Promise<string> {
     return await getOrCreateFolder('courses-data', rootId);
 }
 
+/**
+ * Get the blob folder ID in GDrive (BlobStore backend)
+ */
+async function getBlobsFolder(): Promise<string> {
+    const rootId = await getOrCreateFolder('Gakuen');
+    return await getOrCreateFolder('blobs', rootId);
+}
+
 /**
  * Save course to Google Drive as JSON
  */
@@ -284,3 +293,92 @@ export async function deleteCourseFromGDrive(id: string): Promise<boolean> {
         return false;
     }
 }
+
+/**
+ * Google Drive BlobStore (BLOB_STORE=gdrive)
+ * Blobs are stored in Gakuen/blobs, ID: gdrive:{driveFileId}
+ */
+export const gdriveBlobStore: BlobStore = {
+    backend: 'gdrive',
+
+    isEnabled: isDriveStorageEnabled,
+
+    async put(name: string, data: Buffer): Promise<string> {
+        const drive = getDriveClient();
+        const folderId = await getBlobsFolder();
+
+        const response = await drive.files.create({
+            requestBody: {
+                name,
+                mimeType: 'application/gzip',
+                parents: [folderId],
+            },
+            media: {
+                mimeType: 'application/gzip',
+                body: Readable.from(data),
+            },
+            fields: 'id',
+        });
+
+        console.log(`✅ [GDrive] Uploaded blob ${name}`);
+        return toBlobId('gdrive', response.data.id!);
+    },
+
+    async get(id: string): Promise<Buffer | null> {
+        try {
+            const drive = getDriveClient();
+            const response = await drive.files.get(
+                { fileId: parseBlobId(id).rawId, alt: 'media' },
+                { responseType: 'arraybuffer' }
+            );
+            return Buffer.from(response.data as ArrayBuffer);
+        } catch (error) {
+            console.error(`❌ [GDrive] Blob download failed for ${id}:`, error);
+            return null;
+        }
+    },
+
+    async delete(id: string): Promise<boolean> {
+        try {
+            const drive = getDriveClient();
+            await drive.files.delete({ fileId: parseBlobId(id).rawId });
+            return true;
+        } catch (error) {
+            console.error(`❌ [GDrive] Blob delete failed for ${id}:`, error);
+            return false;
+        }
+    },
+
+    async list(prefix = ''): Promise<BlobListEntry[]> {
+        const drive = getDriveClient();
+        const folderId = await getBlobsFolder();
+        const entries: BlobListEntry[] = [];
+        let pageToken: string | undefined;
+
+        do {
+            const search = await drive.files.list({
+                q: `'${folderId}' in parents and trashed=false`,
+                fields: 'nextPageToken, files(id, name, size, createdTime)',
+                pageSize: 1000,
+                pageToken,
+                spaces: 'drive',
+            });
+
+            for (const file of search.data.files || []) {
+                if (!file.id || !(file.name || '').startsWith(prefix)) continue;
+                entries.push({
+                    id: toBlobId('gdrive', file.id),
+                    name: file.name || '',
+                    size: file.size ? parseInt(file.size) : 0,
+                    createdAt: file.createdTime || new Date(0).toISOString(),
+                });
+            }
+
+            pageToken = search.data.nextPageToken || undefined;
+        } while (pageToken);
+
+        return entries;
+    },
+
+    hash: md5,
+};
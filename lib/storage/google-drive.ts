@@ -255,6 +255,68 @@ export async function deleteFromDrive(fileId: string): Promise<boolean> {
     }
 }
 
+/**
+ * List all files in an upload folder (paginated)
+ */
+export async function listDriveFiles(folder: UploadFolder): Promise<{
+    fileId: string;
+    name: string;
+    size: number;
+    createdTime: Date;
+}[]> {
+    const drive = getDriveClient();
+    const folderId = await getUploadFolderId(folder);
+    const files: { fileId: string; name: string; size: number; createdTime: Date }[] = [];
+    let pageToken: string | undefined;
+
+    do {
+        const response = await drive.files.list({
+            q: `'${folderId}' in parents and mimeType != 'application/vnd.google-apps.folder' and trashed=false`,
+            fields: 'nextPageToken, files(id, name, size, createdTime)',
+            pageSize: 1000,
+            pageToken,
+        });
+
+        for (const file of response.data.files || []) {
+            if (!file.id) continue;
+            files.push({
+                fileId: file.id,
+                name: file.name || '',
+                size: file.size ? parseInt(file.size) : 0,
+                createdTime: file.createdTime ? new Date(file.createdTime) : new Date(0),
+            });
+        }
+
+        pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return files;
+}
+
+/**
+ * Move file into Gakuen/quarantine (keeps the fileId, so it can be moved back)
+ */
+export async function quarantineDriveFile(fileId: string): Promise<boolean> {
+    try {
+        const drive = getDriveClient();
+        const rootId = await getOrCreateFolder(ROOT_FOLDER);
+        const quarantineId = await getOrCreateFolder('quarantine', rootId);
+
+        const file = await drive.files.get({ fileId, fields: 'parents' });
+        await drive.files.update({
+            fileId,
+            addParents: quarantineId,
+            removeParents: (file.data.parents || []).join(','),
+        });
+
+        console.log(`📦 Quarantined on Drive: ${fileId}`);
+        return true;
+    } catch (error) {
+        console.error('Error quarantining Drive file:', error);
+        return false;
+    }
+}
+
 /**
  * Check if Drive integration is configured
  */
@@ -5,6 +5,7 @@ import { syncManager } from "./sync-manager";
 import { firebaseAuth } from "../firebase/auth";
 import { isFirebaseEnabled } from "../firebase/config";
 import { getFirebaseErrorMessage } from "../firebase/firebase-errors";
+import type { ExerciseProgress } from "../firebase/types";
 
 export const hybridStorage = {
     // Authentication
@@ -202,6 +203,49 @@ export const hybridStorage = {
             }
         },
 
+        // Keep the best score per exercise; attempts always count
+        recordExercise(userId: string, lessonId: string, exerciseId: string, result: { passed: number; total: number }): ExerciseProgress {
+            const progress = this.get();
+            const now = new Date().toISOString();
+
+            progress.exerciseResults = progress.exerciseResults || {};
+            const lessonResults = progress.exerciseResults[lessonId] || {};
+            const previous: ExerciseProgress | undefined = lessonResults[exerciseId];
+            const best = !previous || result.passed >= previous.passed ? result : previous;
+
+            const entry: ExerciseProgress = {
+                passed: best.passed,
+                total: result.total,
+                attempts: (previous?.attempts || 0) + 1,
+                lastAttemptAt: now,
+                completedAt: previous?.completedAt ||
+                    (result.total > 0 && result.passed === result.total ? now : undefined),
+            };
+            if (!entry.completedAt) delete entry.completedAt;
+
+            lessonResults[exerciseId] = entry;
+            progress.exerciseResults[lessonId] = lessonResults;
+            progress.lastActivity = now;
+
+            localCache.progress.set(progress);
+
+            if (isFirebaseEnabled()) {
+                syncManager.scheduleSync({
+                    type: "progress",
+                    userId,
+                    data: progress,
+                    timestamp: Date.now(),
+                });
+            }
+
+            return entry;
+        },
+
+        getExerciseResult(lessonId: string, exerciseId: string): ExerciseProgress | null {
+            const progress = this.get();
+            return progress.exerciseResults?.[lessonId]?.[exerciseId] || null;
+        },
+
         isLessonCompleted(lessonId: string): boolean {
             const progress = this.get();
             return (progress.completedLessons || []).includes(lessonId);
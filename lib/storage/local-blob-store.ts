@@ -0,0 +1,93 @@
+/**
+ * Local Disk BlobStore (BLOB_STORE=local)
+ *
+ * Stores course blobs as files so the full publish/checkpoint pipeline
+ * works offline and in tests - no Telegram bot needed.
+ *
+ * Directory: BLOB_STORE_DIR or .data/blobs
+ * ID: local:{timestamp}-{uuid}-{name}
+ */
+
+import { readFile, writeFile, unlink, readdir, stat, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { md5, toBlobId, parseBlobId, type BlobStore, type BlobListEntry } from '@/lib/storage/blob-store';
+
+// Read at call time so tests can point it at a temp dir
+function getBlobDir(): string {
+    return process.env.BLOB_STORE_DIR || join(process.cwd(), '.data', 'blobs');
+}
+
+// 🔒 SECURITY: Raw IDs become filenames - no path separators or traversal
+function isValidRawId(rawId: string): boolean {
+    return /^[a-zA-Z0-9._-]+$/.test(rawId) && !rawId.includes('..');
+}
+
+export const localBlobStore: BlobStore = {
+    backend: 'local',
+
+    isEnabled: () => true,
+
+    async put(name: string, data: Buffer): Promise<string> {
+        const dir = getBlobDir();
+        if (!existsSync(dir)) {
+            await mkdir(dir, { recursive: true });
+        }
+
+        const safeName = name.replace(/[^a-zA-Z0-9._-]/g, '_').replace(/\.{2,}/g, '.');
+        const rawId = `${Date.now()}-${uuidv4().slice(0, 8)}-${safeName}`;
+        await writeFile(join(dir, rawId), data);
+
+        console.log(`✅ [LocalBlob] Stored ${name} → ${rawId}`);
+        return toBlobId('local', rawId);
+    },
+
+    async get(id: string): Promise<Buffer | null> {
+        const { rawId } = parseBlobId(id);
+        if (!isValidRawId(rawId)) return null;
+
+        const filepath = join(getBlobDir(), rawId);
+        if (!existsSync(filepath)) {
+            console.error(`❌ [LocalBlob] Not found: ${rawId}`);
+            return null;
+        }
+        return readFile(filepath);
+    },
+
+    async delete(id: string): Promise<boolean> {
+        const { rawId } = parseBlobId(id);
+        if (!isValidRawId(rawId)) return false;
+
+        try {
+            await unlink(join(getBlobDir(), rawId));
+            return true;
+        } catch (error) {
+            console.error(`❌ [LocalBlob] Delete failed for ${rawId}:`, error);
+            return false;
+        }
+    },
+
+    async list(prefix = ''): Promise<BlobListEntry[]> {
+        const dir = getBlobDir();
+        if (!existsSync(dir)) return [];
+
+        const entries: BlobListEntry[] = [];
+        for (const rawId of await readdir(dir)) {
+            // {timestamp}-{uuid}-{name}
+            const name = rawId.split('-').slice(2).join('-');
+            if (!name.startsWith(prefix)) continue;
+
+            const info = await stat(join(dir, rawId));
+            entries.push({
+                id: toBlobId('local', rawId),
+                name,
+                size: info.size,
+                createdAt: info.birthtime.toISOString(),
+            });
+        }
+        return entries;
+    },
+
+    hash: md5,
+};
@@ -0,0 +1,240 @@
+/**
+ * Quiz Attempts (server side)
+ *
+ * Starting an attempt hands the student the quiz without answers, in the
+ * order it will be graded; submitting grades it against the stored quiz.
+ * The quiz itself never leaves the server with its answers (except to
+ * admins, through the quiz editor API).
+ *
+ * Which questions an attempt gets (and in what order) comes from its seed,
+ * see lib/cms/question-bank.ts.
+ */
+
+import { randomBytes } from 'crypto';
+import type { QuestionBank, Quiz } from '@/lib/types';
+import { getCourse } from '@/lib/storage/course-storage';
+import { getQuestionBank } from '@/lib/firebase/question-bank-operations';
+import {
+    getQuiz,
+    listQuizzes,
+    listQuizAttempts,
+    createQuizAttempt,
+    completeQuizAttempt,
+} from '@/lib/firebase/quiz-operations';
+import {
+    attemptDeadline,
+    attemptsRemaining,
+    gradeQuiz,
+    isAttemptExpired,
+    sanitizeAnswers,
+    stripQuizAnswers,
+    type QuizAttempt,
+    type StudentQuiz,
+} from '@/lib/cms/quiz';
+import {
+    bankKey,
+    drawQuestionIds,
+    resolveAttemptQuestions,
+    seededRandom,
+} from '@/lib/cms/question-bank';
+import { analyzeQuiz, type QuizAnalytics } from '@/lib/cms/quiz-analytics';
+
+export interface StartedAttempt {
+    attempt: QuizAttempt;
+    quiz: StudentQuiz;              // Questions in attempt order
+    attemptsRemaining: number | null;
+}
+
+/**
+ * A course's quiz; falls back to quizzes stored on the course itself
+ * (before they moved to their own collection)
+ */
+export async function getCourseQuiz(courseId: string, quizId: string): Promise<Quiz | null> {
+    const stored = await getQuiz(courseId, quizId);
+    if (stored) return stored;
+
+    const course = await getCourse(courseId);
+    return course?.quizzes?.find(q => q.id === quizId) || null;
+}
+
+/**
+ * All of a course's quizzes, including ones still stored on the course
+ */
+export async function listCourseQuizzes(courseId: string): Promise<Quiz[]> {
+    const [stored, course] = await Promise.all([listQuizzes(courseId), getCourse(courseId)]);
+    const ids = new Set(stored.map(q => q.id));
+    return [...stored, ...(course?.quizzes || []).filter(q => !ids.has(q.id))];
+}
+
+/**
+ * The question banks a quiz draws from, by bankKey (missing ones left out)
+ */
+export async function loadDrawBanks(courseId: string, quiz: Quiz): Promise<Map<string, QuestionBank>> {
+    const banks = new Map<string, QuestionBank>();
+    await Promise.all((quiz.draws || []).map(async draw => {
+        const key = bankKey(draw);
+        if (banks.has(key)) return;
+        const bank = await getQuestionBank(draw.bankId, draw.scope === 'course' ? courseId : undefined);
+        if (bank) banks.set(key, bank);
+    }));
+    return banks;
+}
+
+function studentQuizFor(quiz: Quiz, banks: Map<string, QuestionBank>, attempt: QuizAttempt): StudentQuiz {
+    const shown = { ...quiz, questions: resolveAttemptQuestions(quiz, banks, attempt) };
+    return stripQuizAnswers(shown, seededRandom(attempt.seed || attempt.id));
+}
+
+/**
+ * Close attempts whose deadline passed without a submission
+ */
+async function expireAbandonedAttempts(courseId: string, attempts: QuizAttempt[]): Promise<QuizAttempt[]> {
+    const now = new Date();
+    return Promise.all(attempts.map(async attempt => {
+        if (attempt.status !== 'in_progress' || !isAttemptExpired(attempt, now)) return attempt;
+        const expired = await completeQuizAttempt(courseId, attempt.id, attempt.userId, () => ({
+            status: 'expired',
+            score: 0,
+            correctCount: 0,
+            passed: false,
+        }));
+        return expired || attempt;
+    }));
+}
+
+/**
+ * A student's attempts at a quiz, newest first
+ */
+export async function getStudentAttempts(courseId: string, quizId: string, userId: string): Promise<QuizAttempt[]> {
+    return expireAbandonedAttempts(courseId, await listQuizAttempts(courseId, quizId, userId));
+}
+
+// A concurrent start that lost the race for an attempt ID retries this often
+const START_RETRIES = 3;
+
+/**
+ * Start an attempt, or resume the student's open one.
+ *
+ * The nth attempt gets the ID `${userId}-${quizId}-${n}`, so of two
+ * concurrent starts only one can create it; the other sees it on its retry
+ * and resumes it instead of opening a second attempt past maxAttempts.
+ */
+export async function startQuizAttempt(
+    courseId: string,
+    quiz: Quiz,
+    userId: string
+): Promise<StartedAttempt | { error: string; code: 'NO_QUESTIONS' | 'MAX_ATTEMPTS' | 'CONFLICT' }> {
+    if (quiz.questions.length === 0 && !quiz.draws?.length) {
+        return { error: 'This quiz has no questions yet', code: 'NO_QUESTIONS' };
+    }
+
+    const banks = await loadDrawBanks(courseId, quiz);
+
+    for (let i = 0; i < START_RETRIES; i++) {
+        const attempts = await getStudentAttempts(courseId, quiz.id, userId);
+        const remaining = attemptsRemaining(quiz, attempts);
+
+        const open = attempts.find(a => a.status === 'in_progress');
+        if (open) {
+            return { attempt: open, quiz: studentQuizFor(quiz, banks, open), attemptsRemaining: remaining };
+        }
+
+        if (remaining === 0) {
+            return { error: `You have used all ${quiz.maxAttempts} attempts at this quiz`, code: 'MAX_ATTEMPTS' };
+        }
+
+        const seed = randomBytes(8).toString('hex');
+        const questionIds = drawQuestionIds(quiz, banks, seededRandom(seed));
+        if (questionIds.length === 0) {
+            return { error: 'This quiz has no questions yet', code: 'NO_QUESTIONS' };
+        }
+
+        const startedAt = new Date();
+        const deadline = attemptDeadline(quiz, startedAt);
+        const attempt: QuizAttempt = {
+            id: `${userId}-${quiz.id}-${attempts.length + 1}`,
+            courseId,
+            quizId: quiz.id,
+            userId,
+            questionIds,
+            seed,
+            status: 'in_progress',
+            startedAt: startedAt.toISOString(),
+            ...(deadline ? { deadline } : {}),
+        };
+        if (!(await createQuizAttempt(attempt))) continue;
+
+        console.log(`📝 [Quiz] ${userId} started ${courseId}/${quiz.id} (attempt ${attempt.id})`);
+        return {
+            attempt,
+            quiz: studentQuizFor(quiz, banks, attempt),
+            attemptsRemaining: remaining === null ? null : remaining - 1,
+        };
+    }
+
+    return { error: 'Could not start the attempt, please try again', code: 'CONFLICT' };
+}
+
+/**
+ * Grade and close an attempt. Null if it isn't the student's open attempt.
+ */
+export async function submitQuizAttempt(
+    courseId: string,
+    quiz: Quiz,
+    attemptId: string,
+    userId: string,
+    answers: unknown,
+    timings: unknown
+): Promise<QuizAttempt | null> {
+    const submittedAt = new Date();
+    const banks = await loadDrawBanks(courseId, quiz);
+
+    const attempt = await completeQuizAttempt(courseId, attemptId, userId, (open) => {
+        const durationSeconds = Math.max(0, Math.round((submittedAt.getTime() - new Date(open.startedAt).getTime()) / 1000));
+        const base = { submittedAt: submittedAt.toISOString(), durationSeconds };
+
+        // Late answers don't count
+        if (isAttemptExpired(open, submittedAt)) {
+            return { ...base, status: 'expired', score: 0, correctCount: 0, passed: false };
+        }
+
+        // Rebuild exactly what the student saw (drawn questions, shuffled options)
+        const shown = { ...quiz, questions: resolveAttemptQuestions(quiz, banks, open) };
+        const grade = gradeQuiz(shown, open.questionIds, sanitizeAnswers(shown, answers), sanitizeTimings(timings, durationSeconds));
+        return { ...base, status: 'submitted', ...grade };
+    });
+
+    if (attempt) {
+        console.log(`✅ [Quiz] ${userId} ${attempt.status} ${courseId}/${quiz.id}: ${attempt.score}%`);
+    }
+    return attempt;
+}
+
+/**
+ * Per-question seconds reported by the player, each capped at the attempt duration
+ */
+function sanitizeTimings(timings: unknown, maxSeconds: number): Record<string, number> {
+    const clean: Record<string, number> = {};
+    if (!timings || typeof timings !== 'object') return clean;
+
+    for (const [questionId, seconds] of Object.entries(timings as Record<string, unknown>)) {
+        if (typeof seconds === 'number' && Number.isFinite(seconds) && seconds >= 0) {
+            clean[questionId] = Math.min(seconds, maxSeconds);
+        }
+    }
+    return clean;
+}
+
+/**
+ * Item analysis of a quiz over all its graded attempts (admin only)
+ */
+export async function getQuizAnalytics(courseId: string, quizId: string): Promise<QuizAnalytics | null> {
+    const quiz = await getCourseQuiz(courseId, quizId);
+    if (!quiz) return null;
+
+    const [banks, attempts] = await Promise.all([
+        loadDrawBanks(courseId, quiz),
+        listQuizAttempts(courseId, quizId),
+    ]);
+    return analyzeQuiz(quiz, banks, attempts);
+}
@@ -1,4 +1,14 @@
-import { S3Client, PutObjectCommand, GetObjectCommand, HeadBucketCommand } from '@aws-sdk/client-s3';
+import {
+    S3Client,
+    PutObjectCommand,
+    GetObjectCommand,
+    HeadBucketCommand,
+    ListObjectsV2Command,
+    DeleteObjectCommand,
+    CopyObjectCommand,
+} from '@aws-sdk/client-s3';
+import { v4 as uuidv4 } from 'uuid';
+import { md5, toBlobId, parseBlobId, type BlobStore, type BlobListEntry } from '@/lib/storage/blob-store';
 
 // R2 Client singleton
 let r2Client: S3Client | null = null;
@@ -82,14 +92,18 @@ export async function uploadToR2(
     return { fileId, url };
 }
 
+// r2-folder:filename -> folder/filename
+function fileIdToKey(fileId: string): string {
+    return fileId.replace('r2-', '').replace(':', '/');
+}
+
 /**
  * Get file from R2
  */
 export async function getFileFromR2(fileId: string): Promise<{ buffer: Buffer; mimeType: string } | null> {
     try {
         const client = getR2Client();
-        // r2-folder:filename -> folder/filename
-        const key = fileId.replace('r2-', '').replace(':', '/');
+        const key = fileIdToKey(fileId);
 
         const response = await client.send(new GetObjectCommand({
             Bucket: process.env.R2_BUCKET_NAME,
@@ -108,3 +122,172 @@ export async function getFileFromR2(fileId: string): Promise<{ buffer: Buffer; m
         return null;
     }
 }
+
+/**
+ * List all objects in an R2 folder (paginated)
+ */
+export async function listR2Objects(folder: R2Folder): Promise<{
+    fileId: string;
+    key: string;
+    size: number;
+    lastModified: Date;
+}[]> {
+    const client = getR2Client();
+    const objects: { fileId: string; key: string; size: number; lastModified: Date }[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+        const response = await client.send(new ListObjectsV2Command({
+            Bucket: process.env.R2_BUCKET_NAME,
+            Prefix: `${folder}/`,
+            ContinuationToken: continuationToken,
+        }));
+
+        for (const object of response.Contents || []) {
+            if (!object.Key || object.Key.endsWith('/')) continue;
+            objects.push({
+                fileId: `r2-${object.Key.replace(/\//g, ':')}`,
+                key: object.Key,
+                size: object.Size || 0,
+                lastModified: object.LastModified || new Date(0),
+            });
+        }
+
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+}
+
+/**
+ * Delete file from R2
+ */
+export async function deleteFromR2(fileId: string): Promise<boolean> {
+    try {
+        const client = getR2Client();
+        await client.send(new DeleteObjectCommand({
+            Bucket: process.env.R2_BUCKET_NAME,
+            Key: fileIdToKey(fileId),
+        }));
+        console.log(`🗑️ Deleted from R2: ${fileId}`);
+        return true;
+    } catch (error) {
+        console.error('Error deleting from R2:', error);
+        return false;
+    }
+}
+
+/**
+ * Move file to quarantine/ in the same bucket (copy + delete)
+ * Quarantined files are no longer served by /api/images but can be restored.
+ */
+export async function quarantineR2Object(fileId: string): Promise<boolean> {
+    try {
+        const client = getR2Client();
+        const key = fileIdToKey(fileId);
+
+        await client.send(new CopyObjectCommand({
+            Bucket: process.env.R2_BUCKET_NAME,
+            CopySource: `${process.env.R2_BUCKET_NAME}/${key}`,
+            Key: `quarantine/${key}`,
+        }));
+
+        return await deleteFromR2(fileId);
+    } catch (error) {
+        console.error('Error quarantining R2 object:', error);
+        return false;
+    }
+}
+
+// Course blobs live under their own prefix, never swept by asset GC
+const BLOB_PREFIX = 'blobs/';
+
+/**
+ * R2 BlobStore (BLOB_STORE=r2)
+ * ID: r2:{timestamp}-{uuid}-{name}
+ */
+export const r2BlobStore: BlobStore = {
+    backend: 'r2',
+
+    isEnabled: isR2Enabled,
+
+    async put(name: string, data: Buffer): Promise<string> {
+        const client = getR2Client();
+        const rawId = `${Date.now()}-${uuidv4().slice(0, 8)}-${name}`;
+
+        await client.send(new PutObjectCommand({
+            Bucket: process.env.R2_BUCKET_NAME,
+            Key: `${BLOB_PREFIX}${rawId}`,
+            Body: data,
+            ContentType: 'application/gzip',
+        }));
+
+        console.log(`✅ [R2] Uploaded blob ${name}`);
+        return toBlobId('r2', rawId);
+    },
+
+    async get(id: string): Promise<Buffer | null> {
+        try {
+            const client = getR2Client();
+            const response = await client.send(new GetObjectCommand({
+                Bucket: process.env.R2_BUCKET_NAME,
+                Key: `${BLOB_PREFIX}${parseBlobId(id).rawId}`,
+            }));
+
+            if (!response.Body) return null;
+            return Buffer.from(await response.Body.transformToByteArray());
+        } catch (error) {
+            console.error(`❌ [R2] Blob download failed for ${id}:`, error);
+            return null;
+        }
+    },
+
+    async delete(id: string): Promise<boolean> {
+        try {
+            const client = getR2Client();
+            await client.send(new DeleteObjectCommand({
+                Bucket: process.env.R2_BUCKET_NAME,
+                Key: `${BLOB_PREFIX}${parseBlobId(id).rawId}`,
+            }));
+            return true;
+        } catch (error) {
+            console.error(`❌ [R2] Blob delete failed for ${id}:`, error);
+            return false;
+        }
+    },
+
+    async list(prefix = ''): Promise<BlobListEntry[]> {
+        const client = getR2Client();
+        const entries: BlobListEntry[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const response = await client.send(new ListObjectsV2Command({
+                Bucket: process.env.R2_BUCKET_NAME,
+                Prefix: BLOB_PREFIX,
+                ContinuationToken: continuationToken,
+            }));
+
+            for (const object of response.Contents || []) {
+                if (!object.Key) continue;
+                const rawId = object.Key.slice(BLOB_PREFIX.length);
+                // {timestamp}-{uuid}-{name}
+                const name = rawId.split('-').slice(2).join('-');
+                if (!name.startsWith(prefix)) continue;
+
+                entries.push({
+                    id: toBlobId('r2', rawId),
+                    name,
+                    size: object.Size || 0,
+                    createdAt: (object.LastModified || new Date(0)).toISOString(),
+                });
+            }
+
+            continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+        } while (continuationToken);
+
+        return entries;
+    },
+
+    hash: md5,
+};
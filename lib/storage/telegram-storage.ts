@@ -1,9 +1,8 @@
 /**
  * Telegram Bot Storage for Course Blobs
  * 
- * Uses Telegram as immutable blob storage for course content.
+ * Default BlobStore backend (see blob-store.ts).
  * Files are uploaded as documents to a private channel/chat.
- * GZIP compressed for ~70-80% size reduction!
  * 
  * Setup:
  * 1. Create bot via @BotFather
@@ -12,8 +11,7 @@
  */
 
 import { CourseBlob } from '@/lib/types/course-compact';
-import crypto from 'crypto';
-import { gzipSync, gunzipSync } from 'zlib';
+import { md5, type BlobStore, type BlobListEntry } from '@/lib/storage/blob-store';
 
 // API base URL
 const TG_API = 'https://api.telegram.org/bot';
@@ -29,142 +27,111 @@ export function isTelegramEnabled(): boolean {
 }
 
 /**
- * Upload course blob to Telegram
- * Returns file_id for later retrieval
- * Uses GZIP compression for ~70-80% size reduction!
+ * Telegram BlobStore
+ *
+ * - put: sendDocument to the storage chat, ID is the Telegram file_id
+ * - get: getFile + download
+ * - delete/list: not supported by the Bot API for documents (file_ids
+ *   can't be enumerated or deleted without the message_id)
  */
-export async function uploadCourseBlob(
-    courseId: string,
-    blob: CourseBlob
-): Promise<{ file_id: string; hash: string }> {
-    if (!isTelegramEnabled()) {
-        throw new Error('Telegram storage not configured');
-    }
-
-    const token = process.env.TELEGRAM_BOT_TOKEN!;
-    const chatId = process.env.TELEGRAM_CHAT_ID!;
-
-    // Convert blob to JSON
-    const jsonString = JSON.stringify(blob);
-    const originalSize = Buffer.byteLength(jsonString, 'utf-8');
-
-    // Calculate hash for integrity (on uncompressed data)
-    const hash = crypto.createHash('md5').update(jsonString).digest('hex');
+export const telegramBlobStore: BlobStore = {
+    backend: 'telegram',
 
-    // GZIP compress for ~70-80% size reduction!
-    const gzipBuffer = gzipSync(Buffer.from(jsonString, 'utf-8'));
-    const compressedSize = gzipBuffer.length;
-    const compressionRatio = ((1 - compressedSize / originalSize) * 100).toFixed(1);
+    isEnabled: isTelegramEnabled,
 
-    // Create form data for file upload (use .json.gz extension)
-    const formData = new FormData();
-    formData.append('chat_id', chatId);
-    formData.append('document', new Blob([gzipBuffer], { type: 'application/gzip' }), `${courseId}.json.gz`);
-    formData.append('caption', `Course: ${courseId} | Hash: ${hash.slice(0, 8)} | Compressed`);
-
-    console.log(`📤 [Telegram] Uploading ${courseId}.json.gz (${(originalSize / 1024).toFixed(1)}KB → ${(compressedSize / 1024).toFixed(1)}KB, ${compressionRatio}% smaller)`);
-
-    const response = await fetch(`${TG_API}${token}/sendDocument`, {
-        method: 'POST',
-        body: formData,
-    });
+    async put(name: string, data: Buffer): Promise<string> {
+        const token = process.env.TELEGRAM_BOT_TOKEN!;
+        const chatId = process.env.TELEGRAM_CHAT_ID!;
+
+        // Create form data for file upload
+        const formData = new FormData();
+        formData.append('chat_id', chatId);
+        formData.append('document', new Blob([new Uint8Array(data)], { type: 'application/gzip' }), name);
+        formData.append('caption', `Course: ${name} | Hash: ${md5(data).slice(0, 8)} | Compressed`);
+
+        const response = await fetch(`${TG_API}${token}/sendDocument`, {
+            method: 'POST',
+            body: formData,
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            console.error(`❌ [Telegram] Upload failed:`, error);
+            throw new Error(`Telegram upload failed: ${response.status}`);
+        }
 
-    if (!response.ok) {
-        const error = await response.text();
-        console.error(`❌ [Telegram] Upload failed:`, error);
-        throw new Error(`Telegram upload failed: ${response.status}`);
-    }
+        const result = await response.json();
 
-    const result = await response.json();
+        if (!result.ok) {
+            console.error(`❌ [Telegram] API error:`, result);
+            throw new Error(`Telegram API error: ${result.description}`);
+        }
 
-    if (!result.ok) {
-        console.error(`❌ [Telegram] API error:`, result);
-        throw new Error(`Telegram API error: ${result.description}`);
-    }
+        const file_id = result.result.document.file_id;
+        console.log(`✅ [Telegram] Uploaded ${name} → ${file_id.slice(0, 20)}...`);
 
-    const file_id = result.result.document.file_id;
-    console.log(`✅ [Telegram] Uploaded ${courseId} → ${file_id.slice(0, 20)}...`);
+        return file_id;
+    },
 
-    return { file_id, hash };
-}
+    async get(id: string): Promise<Buffer | null> {
+        const token = process.env.TELEGRAM_BOT_TOKEN!;
 
-/**
- * Download course blob from Telegram by file_id
- * Automatically detects and decompresses gzip files
- */
-export async function downloadCourseBlob(file_id: string): Promise<CourseBlob | null> {
-    if (!isTelegramEnabled()) {
-        throw new Error('Telegram storage not configured');
-    }
+        console.log(`📥 [Telegram] Downloading ${id.slice(0, 20)}...`);
 
-    const token = process.env.TELEGRAM_BOT_TOKEN!;
+        // Step 1: Get file path
+        const fileInfoResponse = await fetch(`${TG_API}${token}/getFile?file_id=${id}`);
 
-    console.log(`📥 [Telegram] Downloading ${file_id.slice(0, 20)}...`);
+        if (!fileInfoResponse.ok) {
+            console.error(`❌ [Telegram] getFile failed:`, await fileInfoResponse.text());
+            return null;
+        }
 
-    // Step 1: Get file path
-    const fileInfoResponse = await fetch(`${TG_API}${token}/getFile?file_id=${file_id}`);
+        const fileInfo = await fileInfoResponse.json();
 
-    if (!fileInfoResponse.ok) {
-        console.error(`❌ [Telegram] getFile failed:`, await fileInfoResponse.text());
-        return null;
-    }
+        if (!fileInfo.ok || !fileInfo.result.file_path) {
+            console.error(`❌ [Telegram] Invalid file info:`, fileInfo);
+            return null;
+        }
 
-    const fileInfo = await fileInfoResponse.json();
+        // Step 2: Download file content
+        const filePath: string = fileInfo.result.file_path;
+        const fileUrl = `https://api.telegram.org/file/bot${token}/${filePath}`;
 
-    if (!fileInfo.ok || !fileInfo.result.file_path) {
-        console.error(`❌ [Telegram] Invalid file info:`, fileInfo);
-        return null;
-    }
+        const downloadResponse = await fetch(fileUrl);
 
-    // Step 2: Download file content
-    const filePath: string = fileInfo.result.file_path;
-    const fileUrl = `https://api.telegram.org/file/bot${token}/${filePath}`;
+        if (!downloadResponse.ok) {
+            console.error(`❌ [Telegram] Download failed:`, await downloadResponse.text());
+            return null;
+        }
 
-    const downloadResponse = await fetch(fileUrl);
+        return Buffer.from(await downloadResponse.arrayBuffer());
+    },
 
-    if (!downloadResponse.ok) {
-        console.error(`❌ [Telegram] Download failed:`, await downloadResponse.text());
-        return null;
-    }
+    async delete(id: string): Promise<boolean> {
+        console.warn(`⚠️ [Telegram] Delete not supported for ${id.slice(0, 20)}...`);
+        return false;
+    },
 
-    try {
-        // Get raw bytes
-        const arrayBuffer = await downloadResponse.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-
-        let jsonText: string;
-        let wasCompressed = false;
-
-        // Detect gzip: by extension OR by magic bytes (0x1f, 0x8b)
-        const isGzip = filePath.endsWith('.gz') || (buffer[0] === 0x1f && buffer[1] === 0x8b);
-
-        if (isGzip) {
-            // Decompress gzip
-            const decompressed = gunzipSync(buffer);
-            jsonText = decompressed.toString('utf-8');
-            wasCompressed = true;
-            console.log(`📦 [Telegram] Decompressed (${(buffer.length / 1024).toFixed(1)}KB → ${(jsonText.length / 1024).toFixed(1)}KB)`);
-        } else {
-            // Already plain JSON (legacy files)
-            jsonText = buffer.toString('utf-8');
-        }
+    async list(): Promise<BlobListEntry[]> {
+        console.warn('⚠️ [Telegram] List not supported by the Bot API');
+        return [];
+    },
 
-        const blob = JSON.parse(jsonText) as CourseBlob;
-        console.log(`✅ [Telegram] Downloaded blob (${(jsonText.length / 1024).toFixed(1)}KB${wasCompressed ? ', was compressed' : ''})`);
-        return blob;
-    } catch (e) {
-        console.error(`❌ [Telegram] Failed to parse blob:`, e);
-        return null;
-    }
-}
+    hash: md5,
+};
 
 /**
  * Verify blob integrity by comparing hash
  */
 export function verifyBlobHash(blob: CourseBlob, expectedHash: string): boolean {
-    const jsonString = JSON.stringify(blob);
-    const actualHash = crypto.createHash('md5').update(jsonString).digest('hex');
-    return actualHash === expectedHash;
+    return md5(JSON.stringify(blob)) === expectedHash;
+}
+
+/**
+ * MD5 of a JSON document (same hash uploadJsonBlob reports)
+ */
+export function hashJson(data: unknown): string {
+    return md5(JSON.stringify(data));
 }
 
 /**
@@ -181,7 +148,7 @@ export function getBlobStats(blob: CourseBlob): {
         lessonCount: Object.keys(blob.lessons || {}).length,
         blockCount: Object.keys(blob.blocks || {}).length,
         sizeBytes: Buffer.byteLength(jsonString, 'utf-8'),
-        hash: crypto.createHash('md5').update(jsonString).digest('hex'),
+        hash: md5(jsonString),
     };
 }
 
@@ -0,0 +1,71 @@
+/**
+ * Linked Snippet Sync
+ *
+ * When a linked template gets a new version, every course draft that
+ * uses it is re-saved with the refreshed snippet content, through
+ * updateCourseDraft so a concurrent author checkpoint is kept. Live
+ * courses show the new snippet once they are published again.
+ */
+
+import type { Course } from '@/lib/types';
+import type { TiptapNode } from '@/lib/cms/tiptap-html';
+import { refreshLinkedSnippets, type ContentTemplate } from '@/lib/cms/templates';
+import { getTemplateUsage } from '@/lib/firebase/template-operations';
+import { updateCourseDraft } from '@/lib/storage/course-storage';
+import type { User } from '@/lib/api/auth-guard';
+
+export interface TemplateSyncResult {
+    courseIds: string[];        // Courses that were updated
+    failedCourseIds: string[];
+}
+
+/**
+ * Course with every linked snippet of the template refreshed,
+ * or null if the course doesn't use it
+ */
+export function applyTemplateToCourse(course: Course, template: ContentTemplate): Course | null {
+    let changed = false;
+
+    const lessons = (course.lessons || []).map(lesson => {
+        const json = lesson.tiptapJson as { type?: string; content?: TiptapNode[] } | undefined;
+        if (!json?.content) return lesson;
+
+        const result = refreshLinkedSnippets(json.content, template);
+        if (!result.changed) return lesson;
+
+        changed = true;
+        return { ...lesson, tiptapJson: { ...json, content: result.nodes } };
+    });
+
+    return changed ? { ...course, lessons } : null;
+}
+
+/**
+ * Refresh all course drafts using a linked template
+ */
+export async function syncLinkedTemplate(template: ContentTemplate, author: User): Promise<TemplateSyncResult> {
+    const result: TemplateSyncResult = { courseIds: [], failedCourseIds: [] };
+    if (!template.linked) return result;
+
+    const courseIds = await getTemplateUsage(template.id);
+
+    for (const courseId of courseIds) {
+        try {
+            const saved = await updateCourseDraft(courseId, current => applyTemplateToCourse(current, template), {
+                kind: 'checkpoint',
+                author,
+            });
+            if (saved === true) {
+                result.courseIds.push(courseId);
+            } else if (saved !== null) {
+                result.failedCourseIds.push(courseId);
+            }
+        } catch (error) {
+            console.error(`❌ [Templates] Sync of ${template.id} into ${courseId} failed:`, error);
+            result.failedCourseIds.push(courseId);
+        }
+    }
+
+    console.log(`🔗 [Templates] ${template.id} v${template.version} synced to ${result.courseIds.length}/${courseIds.length} courses`);
+    return result;
+}
@@ -18,6 +18,7 @@ export interface Lesson {
     order: number;
     components?: Component[];
     tiptapJson?: object; // Raw Tiptap JSON for FluidEditor - preserves tables and complex content
+    version?: number; // Optimistic-locking version, bumped by the server when content changes
 }
 
 // Section for organizing lessons into collapsible groups
@@ -50,6 +51,8 @@ export interface Course {
     accessTier?: "free" | "basic" | "mid" | "pro";
     translations?: Record<string, CourseTranslation>;
     quizzes?: Quiz[]; // Quiz data stored at course level
+    structureVersion?: number; // Optimistic-locking version for lesson/section ordering
+    requireAccessibleContent?: boolean; // Block publishing while accessibility errors remain
 }
 
 export interface CourseTranslation {
@@ -65,20 +68,100 @@ export interface LessonTranslation {
 }
 
 // Quiz types for CMS
-export interface QuizQuestion {
+export type QuizQuestionType = 'single' | 'multi' | 'true_false' | 'short_answer' | 'ordering' | 'matching' | 'fill_blank';
+
+// How a typed answer is compared with the accepted ones
+export type AnswerMatcher = 'exact' | 'case_insensitive' | 'regex' | 'numeric';
+
+export interface AcceptedAnswer {
+    accepted: string[];     // Any of these is correct (regex: patterns, numeric: numbers)
+    matcher: AnswerMatcher;
+    tolerance?: number;     // numeric: allowed difference
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+interface QuizQuestionBase {
     id: string;
     text: string;
+    explanation?: string;
+    topic?: string;             // Question banks: what it covers
+    difficulty?: QuestionDifficulty;
+}
+
+export interface SingleChoiceQuestion extends QuizQuestionBase {
+    type?: 'single';        // Unset on questions saved before there were other types
     options: string[];
     correctIndex: number;
-    explanation?: string;
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+    type: 'multi';
+    options: string[];
+    correctIndexes: number[];
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+    type: 'true_false';
+    answer: boolean;
+}
+
+export interface ShortAnswerQuestion extends QuizQuestionBase, AcceptedAnswer {
+    type: 'short_answer';
+}
+
+export interface OrderingQuestion extends QuizQuestionBase {
+    type: 'ordering';
+    items: string[];        // In the correct order; shown shuffled
+}
+
+export interface MatchingQuestion extends QuizQuestionBase {
+    type: 'matching';
+    pairs: { left: string; right: string }[];   // Right side shown shuffled
+}
+
+export interface FillBlankQuestion extends QuizQuestionBase {
+    type: 'fill_blank';
+    blanks: AcceptedAnswer[];   // One per ___ in the text, in order
+}
+
+export type QuizQuestion =
+    | SingleChoiceQuestion
+    | MultiSelectQuestion
+    | TrueFalseQuestion
+    | ShortAnswerQuestion
+    | OrderingQuestion
+    | MatchingQuestion
+    | FillBlankQuestion;
+
+// Reusable questions; a course's own bank or a global one (courseId unset)
+export interface QuestionBank {
+    id: string;
+    title: string;
+    courseId?: string;
+    questions: QuizQuestion[];
+    updatedAt?: string;
+}
+
+// "Draw `count` questions from a bank", optionally `mix[difficulty]` of each
+// difficulty and only from some topics; the rest come from any difficulty
+export interface QuizDraw {
+    bankId: string;
+    scope: 'course' | 'global';
+    count: number;
+    topics?: string[];
+    mix?: Partial<Record<QuestionDifficulty, number>>;
 }
 
 export interface Quiz {
     id: string;
     title: string;
     category?: string;
-    questions: QuizQuestion[];
+    questions: QuizQuestion[];  // Asked in every attempt
+    draws?: QuizDraw[];         // Drawn per attempt from question banks
     shuffleQuestions?: boolean;
     shuffleOptions?: boolean;
     timeLimit?: number; // minutes
+    maxAttempts?: number; // Per student; unset = unlimited
+    passingScore?: number; // Percent; default QUIZ_PASSING_SCORE
 }
@@ -7,6 +7,8 @@
  * - Short keys for compression
  */
 
+import type { CourseReview, CourseStatus } from '@/lib/cms/review';
+
 // Block types (short codes)
 export type BlockType =
     | 'p'     // paragraph
@@ -22,6 +24,12 @@ export type BlockType =
     | 'video' // video embed
     | 'embed' // generic embed
     | 'quiz'  // quiz block
+    | 'ex'    // auto-graded exercise
+    | 'callout' // callout / admonition (nested blocks)
+    | 'acc'   // accordion (nested blocks)
+    | 'tabs'  // tabbed panels (nested blocks)
+    | 'math'  // display LaTeX (v = source)
+    | 'mmd'   // Mermaid diagram (v = source)
 
 // Style overrides (only non-defaults stored)
 export interface StyleOverrides {
@@ -32,6 +40,27 @@ export interface StyleOverrides {
     bg?: string;           // background
 }
 
+// Quiz question kinds (short codes); unset = single choice
+export type QuizKind = 'm' | 'tf' | 'sa' | 'ord' | 'mat' | 'fb';
+
+// Accepted typed answers; m = matcher: x exact, i case-insensitive, re regex, n numeric
+export interface AcceptedCompact {
+    v: string[];
+    m: 'x' | 'i' | 're' | 'n';
+    tol?: number;         // Numeric tolerance
+}
+
+export interface QuizCompact {
+    q: string;            // Question
+    o: string[];          // Options / ordering items in order / matching left side
+    a: number;            // Correct answer index (true/false: 1 = true)
+    k?: QuizKind;         // Question kind
+    as?: number[];        // Multi-select: correct answer indexes
+    r?: string[];         // Matching: right side, aligned with o
+    b?: AcceptedCompact[]; // Short answer (one) / fill-in-the-blank (one per blank)
+    e?: string;           // Explanation
+}
+
 // Block (normalized, with stable ID)
 export interface BlockCompact {
     id: string;           // Stable ID: "B1", "B2"
@@ -41,11 +70,17 @@ export interface BlockCompact {
     src?: string;         // For images/videos: URL
     alt?: string;         // For images: alt text
     lang?: string;        // For code: language
-    quiz?: {              // For quiz blocks
-        q: string;        // Question
-        o: string[];      // Options
-        a: number;        // Correct answer index
+    quiz?: QuizCompact;   // For quiz blocks
+    ex?: {                // For exercises (v = starter code, lang = language)
+        id: string;       // Exercise ID (progress is keyed on it)
+        t: string;        // Title
+        p?: string;       // Prompt
+        tc: { id: string; n: string; c: string; h?: 1 }[]; // Tests: name, code, hidden
     };
+    k?: string;           // For callouts: variant (v = title)
+    o?: 1;                // For accordions: open by default (v = title)
+    ch?: BlockCompact[];  // For callouts/accordions: nested blocks
+    tabs?: { t: string; ch: BlockCompact[] }[]; // For tabs: title + nested blocks
 }
 
 // Lesson (references blocks by ID)
@@ -54,6 +89,8 @@ export interface LessonCompact {
     t: string;            // Title
     d?: string;           // Duration
     b: string[];          // Block IDs in order
+    oid?: string;         // Original lesson ID (stable across reorders)
+    ver?: number;         // Lesson version (optimistic locking)
 }
 
 // Section (groups lessons)
@@ -73,15 +110,66 @@ export interface CourseMeta {
     category?: string;
     level?: 'beginner' | 'intermediate' | 'advanced';
     duration?: string;
+    requireAccessibleContent?: boolean;
 }
 
 // Course blob (stored in Telegram)
 export interface CourseBlob {
     v: number;  // Schema version for migrations
+    sv?: number; // Structure version (optimistic locking)
     lessons: Record<string, LessonCompact>;
     blocks: Record<string, BlockCompact>;
 }
 
+// Lesson entry in the structure document (content lives in its own blob)
+export interface LessonPointer {
+    id: string;           // Compact ID: "L1", "L2"
+    oid?: string;         // Original lesson ID
+    t: string;            // Title
+    d?: string;           // Duration
+    ver?: number;         // Lesson version
+    f: string;            // Lesson blob file ID
+    h: string;            // Lesson blob hash (unchanged lessons reuse f)
+}
+
+// Course structure (warm): ordering + lesson pointers, no content
+export interface CourseStructure {
+    v: number;
+    sv?: number;
+    sections: SectionCompact[];
+    lessons: LessonPointer[];   // Blob order
+}
+
+// Lesson blob (cold): one lesson and its blocks, loaded lazily
+export interface LessonBlob {
+    v: number;
+    lesson: LessonCompact;
+    blocks: Record<string, BlockCompact>;
+}
+
+// Lesson entry in a delta manifest: tiptapJson is replaced by chunk hashes
+export interface ManifestLesson extends LessonCompact {
+    jd?: Record<string, unknown>;  // tiptap doc without content (type/attrs)
+    jc?: string[];                 // Top-level node chunk hashes, in order
+}
+
+// Delta checkpoint manifest (stored instead of a full CourseBlob)
+// Content lives in content-addressed chunks packed into ChunkPack blobs.
+export interface CourseManifest {
+    v: number;
+    sv?: number;
+    m: 1;                                      // Marker: manifest, not a CourseBlob
+    lessons: Record<string, ManifestLesson>;
+    blocks: Record<string, string>;            // Block ID -> chunk hash
+    packs: Record<string, string>;             // Chunk hash -> pack blob ID
+}
+
+// Pack of new chunks uploaded by one checkpoint (hash -> node/block content)
+export interface ChunkPack {
+    v: number;
+    c: Record<string, unknown>;
+}
+
 // Firestore document structure
 export interface CourseFirestore {
     id: string;
@@ -97,6 +185,7 @@ export interface CourseFirestore {
         blockCount: number;
         publishedAt: string;
         publishedBy?: string;
+        structure_file_id?: string;  // Split storage (lazy lesson loading)
     };
 
     // Draft snapshot (recovery only)
@@ -106,12 +195,14 @@ export interface CourseFirestore {
         savedAt: string;
         savedBy?: string;
         dirty: boolean;
+        structure_file_id?: string;
     };
 
     // Structure version (bump on add/remove/reorder)
     structure_version: number;
 
-    status: 'draft' | 'published' | 'archived';
+    status: CourseStatus;
+    review?: CourseReview | null;   // Open review / approval (lib/cms/review.ts)
     createdAt: string;
     createdBy?: string;
 }
@@ -9,74 +9,9 @@
  * - Are visible to search engine crawlers
  */
 
-// Zero-width characters for encoding
-const ZERO_WIDTH_CHARS = {
-    ZERO: '\u200B',     // Zero Width Space (represents 0)
-    ONE: '\u200C',      // Zero Width Non-Joiner (represents 1)
-    SEPARATOR: '\u200D' // Zero Width Joiner (separator)
-};
+import { createInvisibleWatermark } from '@/lib/watermark/zero-width';
 
-/**
- * Encode a string into zero-width characters
- * Each character is converted to binary and represented by zero-width chars
- */
-export function encodeToZeroWidth(text: string): string {
-    return text
-        .split('')
-        .map(char => {
-            const binary = char.charCodeAt(0).toString(2).padStart(8, '0');
-            return binary
-                .split('')
-                .map(bit => bit === '0' ? ZERO_WIDTH_CHARS.ZERO : ZERO_WIDTH_CHARS.ONE)
-                .join('');
-        })
-        .join(ZERO_WIDTH_CHARS.SEPARATOR);
-}
-
-/**
- * Decode zero-width characters back to original string
- */
-export function decodeFromZeroWidth(encoded: string): string {
-    if (!encoded) return '';
-
-    // Check if contains zero-width characters
-    const hasZeroWidth = encoded.includes(ZERO_WIDTH_CHARS.ZERO) ||
-        encoded.includes(ZERO_WIDTH_CHARS.ONE);
-    if (!hasZeroWidth) return '';
-
-    try {
-        // Extract only zero-width characters
-        const zeroWidthOnly = encoded
-            .split('')
-            .filter(char =>
-                char === ZERO_WIDTH_CHARS.ZERO ||
-                char === ZERO_WIDTH_CHARS.ONE ||
-                char === ZERO_WIDTH_CHARS.SEPARATOR
-            )
-            .join('');
-
-        return zeroWidthOnly
-            .split(ZERO_WIDTH_CHARS.SEPARATOR)
-            .map(charBits => {
-                const binary = charBits
-                    .split('')
-                    .map(bit => bit === ZERO_WIDTH_CHARS.ZERO ? '0' : '1')
-                    .join('');
-                return String.fromCharCode(parseInt(binary, 2));
-            })
-            .join('');
-    } catch {
-        return '';
-    }
-}
-
-/**
- * Create a watermark string with encoded URL
- */
-export function createInvisibleWatermark(sourceUrl: string): string {
-    const watermarkText = `Source: ${sourceUrl}`;
-    return encodeToZeroWidth(watermarkText);
-}
+export { encodeToZeroWidth, decodeFromZeroWidth, createInvisibleWatermark } from '@/lib/watermark/zero-width';
 
 /**
  * Create an HTML element with invisible watermark
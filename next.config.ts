@@ -1,5 +1,19 @@
 import type { NextConfig } from 'next';
 
+// Origin of the collaborative editing relay (lib/cms/collaboration.ts), e.g. ws://localhost:1234
+function collabOrigin(): string | null {
+  const url = process.env.NEXT_PUBLIC_COLLAB_URL;
+  if (!url) return null;
+  try {
+    const { protocol, host } = new URL(url);
+    return protocol === 'ws:' || protocol === 'wss:' ? `${protocol}//${host}` : null;
+  } catch {
+    return null;
+  }
+}
+
+const COLLAB_ORIGIN = collabOrigin();
+
 const nextConfig: NextConfig = {
   reactStrictMode: false,
 
@@ -100,6 +114,17 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // Pyodide runtime - loaded from the opaque-origin Python sandbox
+        // (lib/sandbox/code-runner.ts), so it needs CORS
+        source: '/pyodide/:path*',
+        headers: [
+          {
+            key: 'Access-Control-Allow-Origin',
+            value: '*',
+          },
+        ],
+      },
       {
         // Image serving API - enable caching (30 days)
         source: '/api/images/:path*',
@@ -170,7 +195,9 @@ const nextConfig: NextConfig = {
               "font-src 'self' https://fonts.gstatic.com",
               "img-src 'self' data: blob: https: http:", // Allow all HTTPS/HTTP images - FluidEditor auto-uploads external images to our server
               "media-src 'self' data: blob: https: http:", // Allow all HTTPS/HTTP videos - CustomVideo auto-uploads external videos to our server
-              "connect-src 'self' https://*.googleapis.com https://*.googleusercontent.com https://lh3.googleusercontent.com https://*.firebaseio.com https://*.firebase.com wss://*.firebaseio.com https://accounts.google.com https://securetoken.googleapis.com https://identitytoolkit.googleapis.com",
+              "connect-src 'self' https://*.googleapis.com https://*.googleusercontent.com https://lh3.googleusercontent.com https://*.firebaseio.com https://*.firebase.com wss://*.firebaseio.com https://accounts.google.com https://securetoken.googleapis.com https://identitytoolkit.googleapis.com" +
+                (COLLAB_ORIGIN ? ` ${COLLAB_ORIGIN}` : ''), // Yjs relay WebSocket
+              "worker-src 'self' blob:", // Code block sandbox (lib/sandbox/code-runner.ts) runs user code in blob workers
               "frame-src 'self' https://www.youtube-nocookie.com https://www.youtube.com https://accounts.google.com https://*.firebaseapp.com",
               "object-src 'none'",
               "base-uri 'self'",
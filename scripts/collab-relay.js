@@ -0,0 +1,169 @@
+// WebSocket relay for real-time lesson collaboration (Yjs / y-websocket protocol).
+// Keeps one in-memory Yjs document per lesson room while authors are connected;
+// persistence stays with the editors' normal draft checkpoints.
+// Usage: npm run collab   (COLLAB_HOST, COLLAB_PORT; defaults 127.0.0.1:1234)
+//
+// Development relay: it does not authenticate connections, so keep it bound
+// to localhost or behind an authenticating proxy.
+
+const http = require('http');
+const { WebSocketServer } = require('ws');
+const Y = require('yjs');
+const syncProtocol = require('y-protocols/sync');
+const awarenessProtocol = require('y-protocols/awareness');
+const encoding = require('lib0/encoding');
+const decoding = require('lib0/decoding');
+
+const HOST = process.env.COLLAB_HOST || '127.0.0.1';
+const PORT = Number(process.env.COLLAB_PORT || 1234);
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+const PING_INTERVAL_MS = 30 * 1000;
+const ROOM_TTL_MS = 60 * 1000; // Keep an empty room briefly so reloads don't re-seed
+const MAX_PAYLOAD_BYTES = 5 * 1024 * 1024;
+
+/** @type {Map<string, { doc: Y.Doc, awareness: awarenessProtocol.Awareness, conns: Map<import('ws').WebSocket, Set<number>>, timer: NodeJS.Timeout | null }>} */
+const rooms = new Map();
+
+function send(conn, message) {
+    if (conn.readyState === conn.OPEN) {
+        conn.send(message, (error) => error && conn.close());
+    }
+}
+
+function getRoom(name) {
+    const existing = rooms.get(name);
+    if (existing) {
+        if (existing.timer) clearTimeout(existing.timer);
+        existing.timer = null;
+        return existing;
+    }
+
+    const doc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    awareness.setLocalState(null);
+    const room = { doc, awareness, conns: new Map(), timer: null };
+
+    doc.on('update', (update) => {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.writeUpdate(encoder, update);
+        const message = encoding.toUint8Array(encoder);
+        room.conns.forEach((_, conn) => send(conn, message));
+    });
+
+    awareness.on('update', ({ added, updated, removed }, origin) => {
+        const changed = added.concat(updated, removed);
+        const controlled = room.conns.get(origin);
+        if (controlled) {
+            added.forEach((id) => controlled.add(id));
+            removed.forEach((id) => controlled.delete(id));
+        }
+
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+        const message = encoding.toUint8Array(encoder);
+        room.conns.forEach((_, conn) => send(conn, message));
+    });
+
+    rooms.set(name, room);
+    console.log(`🤝 Room opened: ${name}`);
+    return room;
+}
+
+function leaveRoom(name, room, conn) {
+    const controlled = room.conns.get(conn);
+    room.conns.delete(conn);
+    if (controlled) {
+        awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(controlled), null);
+    }
+
+    if (room.conns.size === 0) {
+        room.timer = setTimeout(() => {
+            room.doc.destroy();
+            rooms.delete(name);
+            console.log(`👋 Room closed: ${name}`);
+        }, ROOM_TTL_MS);
+    }
+}
+
+function handleMessage(room, conn, data) {
+    try {
+        const decoder = decoding.createDecoder(new Uint8Array(data));
+        const type = decoding.readVarUint(decoder);
+
+        if (type === MESSAGE_SYNC) {
+            const encoder = encoding.createEncoder();
+            encoding.writeVarUint(encoder, MESSAGE_SYNC);
+            syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+            // Only reply when the message needed an answer (sync step 1)
+            if (encoding.length(encoder) > 1) send(conn, encoding.toUint8Array(encoder));
+        } else if (type === MESSAGE_AWARENESS) {
+            awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn);
+        }
+    } catch (error) {
+        console.error('❌ Bad message:', error.message);
+    }
+}
+
+const server = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end(`ok (${rooms.size} rooms)`);
+});
+
+const wss = new WebSocketServer({ server, maxPayload: MAX_PAYLOAD_BYTES });
+
+wss.on('connection', (conn, req) => {
+    const name = decodeURIComponent((req.url || '/').slice(1).split('?')[0]);
+    if (!name) {
+        conn.close(4000, 'Room name required');
+        return;
+    }
+
+    const room = getRoom(name);
+    room.conns.set(conn, new Set());
+    conn.binaryType = 'arraybuffer';
+    conn.isAlive = true;
+
+    conn.on('message', (data) => handleMessage(room, conn, data));
+    conn.on('pong', () => { conn.isAlive = true; });
+    conn.on('close', () => leaveRoom(name, room, conn));
+
+    // Start the sync handshake and share who is already here
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(conn, encoding.toUint8Array(encoder));
+
+    const states = room.awareness.getStates();
+    if (states.size > 0) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(
+            awarenessEncoder,
+            awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(states.keys()))
+        );
+        send(conn, encoding.toUint8Array(awarenessEncoder));
+    }
+});
+
+// Drop connections that stopped answering pings
+const pingInterval = setInterval(() => {
+    wss.clients.forEach((conn) => {
+        if (!conn.isAlive) {
+            conn.terminate();
+            return;
+        }
+        conn.isAlive = false;
+        conn.ping();
+    });
+}, PING_INTERVAL_MS);
+
+wss.on('close', () => clearInterval(pingInterval));
+
+server.listen(PORT, HOST, () => {
+    console.log(`✅ Collaboration relay listening on ws://${HOST}:${PORT}`);
+});
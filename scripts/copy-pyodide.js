@@ -0,0 +1,30 @@
+// Copy the Pyodide runtime into public/pyodide so Python code blocks run
+// without fetching anything from a CDN.
+// Usage: node scripts/copy-pyodide.js (runs automatically on npm install)
+
+const fs = require('fs');
+const path = require('path');
+
+const FILES = [
+    'pyodide.mjs',
+    'pyodide.asm.mjs',
+    'pyodide.asm.wasm',
+    'python_stdlib.zip',
+    'pyodide-lock.json',
+];
+
+const sourceDir = path.join(__dirname, '..', 'node_modules', 'pyodide');
+const targetDir = path.join(__dirname, '..', 'public', 'pyodide');
+
+if (!fs.existsSync(sourceDir)) {
+    console.log('⚠️ pyodide is not installed, skipping copy');
+    process.exit(0);
+}
+
+fs.mkdirSync(targetDir, { recursive: true });
+
+for (const file of FILES) {
+    fs.copyFileSync(path.join(sourceDir, file), path.join(targetDir, file));
+}
+
+console.log(`✅ Copied ${FILES.length} Pyodide files to public/pyodide`);